@@ -4,6 +4,10 @@ const nextConfig = {
     // Enable strict type checking
     ignoreBuildErrors: false,
   },
+  experimental: {
+    // Starts server-side services from src/instrumentation.ts
+    instrumentationHook: true,
+  },
 }
 
 module.exports = nextConfig
\ No newline at end of file
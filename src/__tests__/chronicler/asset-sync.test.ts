@@ -0,0 +1,385 @@
+/**
+ * Tests for external asset sync
+ * Every provider adapter runs offline against a recorded fixture: token refresh,
+ * paged listings, rate-limit backoff, incremental deltas and cursor resets.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ChroniclerService } from '../../services/chronicler-service';
+import { AssetSyncEngine, TokenVault } from '../../services/asset-sync-engine';
+import { FixtureServer, ProviderFixture } from './fixtures/asset-sync-fixtures';
+import { MemoryAssistantImpl } from '../../lib/memory/memory-assistant';
+import { EmbeddedGraphStore } from '../../lib/memory/embedded-graph-store';
+import { SemanticRAG } from '../../lib/memory/semantic-rag';
+import { ProjectRepository } from '../../lib/data/project-repository';
+import { DomainEventBus } from '../../lib/events/domain-event-bus';
+import { ExternalAssetIntegration, ExternalTokenGrant } from '../../types/chronicler';
+import { MemoryScope } from '../../types';
+import googlePhotosFixture from './fixtures/asset-sync/google-photos.json';
+import googleDriveFixture from './fixtures/asset-sync/google-drive.json';
+import dropboxFixture from './fixtures/asset-sync/dropbox.json';
+import oneDriveFixture from './fixtures/asset-sync/onedrive.json';
+import iCloudPhotosFixture from './fixtures/asset-sync/icloud-photos.json';
+
+interface SyncExpectation {
+  added: number;
+  updated: number;
+  skipped: number;
+  conflicts: number;
+}
+
+interface ProviderCase {
+  name: string;
+  fixture: ProviderFixture;
+  clientId: string;
+  grant: ExternalTokenGrant;
+  tokenUrl?: string;
+  first: SyncExpectation;
+  second: SyncExpectation;
+  filesAfterSecond: string[];
+  deletedId?: string;
+  resync?: SyncExpectation;
+}
+
+const MORMOR: MemoryScope = {
+  id: 'user:mormor',
+  user_ids: ['mormor'],
+  project_ids: [],
+  contact_ids: [],
+  permissions: { read: true, write: false, delete: false }
+};
+
+const REFRESHABLE: ExternalTokenGrant = { access_token: 'expired-access', refresh_token: 'refresh-1' };
+
+const CASES: ProviderCase[] = [
+  {
+    name: 'Google Photos',
+    fixture: googlePhotosFixture as ProviderFixture,
+    clientId: 'photos-client',
+    grant: REFRESHABLE,
+    tokenUrl: 'https://oauth2.googleapis.com/token',
+    first: { added: 2, updated: 0, skipped: 0, conflicts: 0 },
+    second: { added: 1, updated: 0, skipped: 1, conflicts: 0 },
+    filesAfterSecond: ['dans.mp4', 'kraftskiva.jpg', 'midsommar.jpg']
+  },
+  {
+    name: 'Google Drive',
+    fixture: googleDriveFixture as ProviderFixture,
+    clientId: 'drive-client',
+    grant: REFRESHABLE,
+    tokenUrl: 'https://oauth2.googleapis.com/token',
+    first: { added: 2, updated: 0, skipped: 1, conflicts: 0 },
+    second: { added: 1, updated: 1, skipped: 0, conflicts: 0 },
+    filesAfterSecond: ['dans.mp4', 'kraftskiva.jpg', 'midsommar.jpg'],
+    deletedId: 'drive-B'
+  },
+  {
+    name: 'Dropbox',
+    fixture: dropboxFixture as ProviderFixture,
+    clientId: 'dropbox-app',
+    grant: REFRESHABLE,
+    tokenUrl: 'https://api.dropboxapi.com/oauth2/token',
+    first: { added: 2, updated: 0, skipped: 1, conflicts: 0 },
+    second: { added: 1, updated: 1, skipped: 0, conflicts: 0 },
+    filesAfterSecond: ['Dans.mp4', 'Kraftskiva.jpg', 'Midsommar.jpg'],
+    deletedId: '/bilder/dans.mp4',
+    resync: { added: 0, updated: 0, skipped: 3, conflicts: 0 }
+  },
+  {
+    name: 'OneDrive',
+    fixture: oneDriveFixture as ProviderFixture,
+    clientId: 'onedrive-client',
+    grant: REFRESHABLE,
+    tokenUrl: 'https://login.microsoftonline.com/common/oauth2/v2.0/token',
+    first: { added: 2, updated: 0, skipped: 1, conflicts: 0 },
+    second: { added: 1, updated: 1, skipped: 0, conflicts: 0 },
+    filesAfterSecond: ['dans.mp4', 'kraftskiva.jpg', 'midsommar.jpg'],
+    deletedId: 'B',
+    resync: { added: 0, updated: 0, skipped: 3, conflicts: 0 }
+  },
+  {
+    name: 'iCloud Photos',
+    fixture: iCloudPhotosFixture as ProviderFixture,
+    clientId: 'cloudkit-api-token',
+    grant: { access_token: 'web-auth-token' },
+    first: { added: 2, updated: 0, skipped: 0, conflicts: 0 },
+    second: { added: 1, updated: 1, skipped: 0, conflicts: 0 },
+    filesAfterSecond: ['dans.mov', 'kräftskiva.heic', 'midsommar.jpg'],
+    deletedId: 'B',
+    resync: { added: 0, updated: 0, skipped: 2, conflicts: 0 }
+  }
+];
+
+function harness(fixture: ProviderFixture, clientId: string, maxRetries?: number) {
+  const server = new FixtureServer(fixture);
+  const memory = new MemoryAssistantImpl(new EmbeddedGraphStore(), new SemanticRAG());
+  const projects = new ProjectRepository(new DomainEventBus());
+  const vault = new TokenVault(() => 'test-key');
+  const sleep = vi.fn().mockResolvedValue(undefined);
+  const engine = new AssetSyncEngine({
+    transport: server.transport,
+    credentials: { [fixture.provider]: { client_id: clientId } },
+    vault,
+    projects,
+    sleep,
+    maxRetries
+  });
+  const service = new ChroniclerService(memory, {} as any, {} as any, new DomainEventBus(), undefined, undefined, engine);
+
+  const connect = (grant: ExternalTokenGrant, settings: Record<string, any> = {}) =>
+    service.setupExternalIntegration('mormor', fixture.provider, grant, { asset_types: ['image', 'video'], ...settings });
+
+  const sync = async (integration: ExternalAssetIntegration) => {
+    await service.syncExternalAssets('mormor', integration.id);
+    return (await memory.getExternalIntegration(integration.id, MORMOR))!;
+  };
+
+  const files = async (integration: ExternalAssetIntegration) =>
+    (await projects.getAssetsByProjectId(integration.settings.project_id!)).map(asset => asset.filename).sort();
+
+  return { server, memory, projects, vault, sleep, connect, sync, files };
+}
+
+function counts(integration: ExternalAssetIntegration): SyncExpectation {
+  const stats = integration.sync_stats!;
+  return {
+    added: stats.last_sync_added,
+    updated: stats.last_sync_updated,
+    skipped: stats.last_sync_skipped!,
+    conflicts: stats.last_sync_conflicts!
+  };
+}
+
+/**
+ * Edit the local copy of the Dropbox fixture's Midsommar photo after it was synced
+ */
+async function editLocally(h: ReturnType<typeof harness>, synced: ExternalAssetIntegration): Promise<void> {
+  const assetId = synced.sync_state!.items['/bilder/midsommar.jpg'].asset_id!;
+  await new Promise(resolve => setTimeout(resolve, 5));
+  await h.projects.updateAsset(assetId, { metadata: { description: 'Hela släkten vid stången' } });
+}
+
+describe.each(CASES)('$name adapter', (entry: ProviderCase) => {
+  let h: ReturnType<typeof harness>;
+
+  beforeEach(() => {
+    h = harness(entry.fixture, entry.clientId);
+  });
+
+  it('should refresh the token, page through the library and back off when rate limited', async () => {
+    const integration = await h.connect(entry.grant);
+    const synced = await h.sync(integration);
+
+    expect(synced.status).toBe('connected');
+    expect(synced.sync_stats!.last_sync_failed).toBe(0);
+    expect(counts(synced)).toEqual(entry.first);
+    expect(synced.sync_stats!.total_synced).toBe(2);
+    expect(h.sleep).toHaveBeenCalledWith(2000);
+
+    if (entry.tokenUrl) {
+      expect(h.server.requestsTo(entry.tokenUrl)).toHaveLength(1);
+      expect(synced.auth.access_token).not.toContain('fresh-access');
+      expect(await h.vault.open(synced.auth.access_token, `mormor:${integration.id}`)).toBe('fresh-access');
+      expect(synced.auth.expires_at).toBeInstanceOf(Date);
+    }
+  });
+
+  it('should apply edits, deletions and new items incrementally', async () => {
+    const integration = await h.connect(entry.grant);
+    await h.sync(integration);
+    const synced = await h.sync(integration);
+
+    expect(synced.status).toBe('connected');
+    expect(counts(synced)).toEqual(entry.second);
+    expect(await h.files(synced)).toEqual(entry.filesAfterSecond);
+
+    if (entry.deletedId) {
+      // The remote deletion keeps the local copy
+      const deleted = synced.sync_state!.items[entry.deletedId];
+      expect(deleted.remote_deleted).toBe(true);
+      expect(await h.projects.getAssetById(deleted.asset_id!)).not.toBeNull();
+    }
+  });
+
+  if (entry.resync) {
+    it('should relist everything once when the cursor has expired', async () => {
+      const integration = await h.connect(entry.grant);
+      await h.sync(integration);
+      await h.sync(integration);
+      const synced = await h.sync(integration);
+
+      expect(synced.status).toBe('connected');
+      expect(counts(synced)).toEqual(entry.resync);
+      expect(await h.files(synced)).toEqual(entry.filesAfterSecond);
+    });
+  }
+});
+
+describe('AssetSyncEngine', () => {
+  const dropbox = dropboxFixture as ProviderFixture;
+
+  it('should store tokens encrypted and bound to the integration', async () => {
+    const h = harness(dropbox, 'dropbox-app');
+    const integration = await h.connect(REFRESHABLE);
+
+    expect(integration.auth.access_token).not.toContain('expired-access');
+    expect(await h.vault.open(integration.auth.refresh_token!, `mormor:${integration.id}`)).toBe('refresh-1');
+    await expect(h.vault.open(integration.auth.refresh_token!, 'mormor:other')).rejects.toThrow();
+  });
+
+  it('should update an asset nobody edited locally in place', async () => {
+    const h = harness(dropbox, 'dropbox-app');
+    const integration = await h.connect(REFRESHABLE);
+    const first = await h.sync(integration);
+    const assetId = first.sync_state!.items['/bilder/midsommar.jpg'].asset_id!;
+    const storageUrl = (await h.projects.getAssetById(assetId))!.storage_url;
+
+    const second = await h.sync(integration);
+
+    expect(counts(second)).toEqual({ added: 1, updated: 1, skipped: 0, conflicts: 0 });
+    expect(second.sync_state!.items['/bilder/midsommar.jpg'].asset_id).toBe(assetId);
+    expect((await h.projects.getAssetById(assetId))!.storage_url).not.toBe(storageUrl);
+  });
+
+  it('should keep both copies of a locally edited asset by default', async () => {
+    const h = harness(dropbox, 'dropbox-app');
+    const integration = await h.connect(REFRESHABLE);
+    await editLocally(h, await h.sync(integration));
+    const second = await h.sync(integration);
+
+    expect(counts(second)).toEqual({ added: 1, updated: 1, skipped: 0, conflicts: 1 });
+    expect(await h.files(second)).toEqual(['Dans.mp4', 'Kraftskiva.jpg', 'Midsommar.jpg', 'Midsommar.jpg']);
+  });
+
+  it('should replace the local copy under prefer_remote and ignore the edit under keep_local', async () => {
+    const preferRemote = harness(dropbox, 'dropbox-app');
+    const replaced = await preferRemote.connect(REFRESHABLE, { conflict_policy: 'prefer_remote' });
+    await editLocally(preferRemote, await preferRemote.sync(replaced));
+    const afterReplace = await preferRemote.sync(replaced);
+
+    expect(counts(afterReplace)).toEqual({ added: 1, updated: 1, skipped: 0, conflicts: 1 });
+    expect(await preferRemote.files(afterReplace)).toEqual(['Dans.mp4', 'Kraftskiva.jpg', 'Midsommar.jpg']);
+
+    const keepLocal = harness(dropbox, 'dropbox-app');
+    const kept = await keepLocal.connect(REFRESHABLE, { conflict_policy: 'keep_local' });
+    await editLocally(keepLocal, await keepLocal.sync(kept));
+    const afterKeep = await keepLocal.sync(kept);
+
+    expect(counts(afterKeep)).toEqual({ added: 1, updated: 0, skipped: 0, conflicts: 1 });
+    expect(afterKeep.sync_state!.items['/bilder/midsommar.jpg'].version).toBe('a2');
+    expect(keepLocal.server.requests.filter(r => r.headers['Dropbox-API-Arg'] === '{"path":"id:A"}')).toHaveLength(1);
+  });
+
+  it('should not import an asset again after the user deleted it locally', async () => {
+    const h = harness(dropbox, 'dropbox-app');
+    const integration = await h.connect(REFRESHABLE);
+    const first = await h.sync(integration);
+
+    await h.projects.deleteAsset(first.sync_state!.items['/bilder/midsommar.jpg'].asset_id!);
+    const second = await h.sync(integration);
+
+    expect(counts(second)).toEqual({ added: 1, updated: 0, skipped: 1, conflicts: 0 });
+    expect(second.sync_state!.items['/bilder/midsommar.jpg'].asset_id).toBeUndefined();
+    expect(await h.files(second)).toEqual(['Dans.mp4', 'Kraftskiva.jpg']);
+  });
+
+  it('should apply folder, size and date filters', async () => {
+    const h = harness(dropbox, 'dropbox-app');
+    const integration = await h.connect(REFRESHABLE, {
+      asset_types: [],
+      filters: { include_folders: ['/Bilder', '/Dokument'], exclude_folders: ['/Dokument'], max_file_size: 5 * 1024 * 1024 },
+      date_range: { start_date: new Date('2024-06-01T00:00:00Z'), end_date: new Date('2024-08-01T00:00:00Z') }
+    });
+    const synced = await h.sync(integration);
+
+    expect(await h.files(synced)).toEqual(['Midsommar.jpg']);
+    expect(counts(synced)).toEqual({ added: 1, updated: 0, skipped: 2, conflicts: 0 });
+  });
+
+  it('should pause a rate-limited integration and keep the cursor it reached', async () => {
+    const throttled: ProviderFixture = {
+      provider: 'dropbox',
+      exchanges: dropbox.exchanges.map(exchange =>
+        exchange.request.body && exchange.request.body.cursor === 'cursor-page-2'
+          ? { ...exchange, times: undefined, response: { status: 429, headers: { 'retry-after': '30' } } }
+          : exchange
+      )
+    };
+    const h = harness(throttled, 'dropbox-app', 1);
+    const integration = await h.connect(REFRESHABLE);
+    const paused = await h.sync(integration);
+
+    expect(paused.status).toBe('rate_limited');
+    expect(paused.sync_state!.cursor).toBe('cursor-page-2');
+    expect(paused.sync_state!.retry_after!.getTime()).toBeGreaterThan(Date.now() + 25000);
+    expect(Object.keys(paused.sync_state!.items)).toEqual(['/bilder/midsommar.jpg']);
+    expect(h.sleep).toHaveBeenCalledTimes(1);
+
+    // Until the retry time the provider is left alone
+    const sent = h.server.requests.length;
+    expect((await h.sync(integration)).status).toBe('rate_limited');
+    expect(h.server.requests).toHaveLength(sent);
+  });
+
+  it('should disconnect the integration when the provider refuses to refresh the token', async () => {
+    const h = harness({
+      provider: 'dropbox',
+      exchanges: [
+        { request: { method: 'POST', url: 'https://api.dropboxapi.com/2/files/list_folder' }, response: { status: 401 } },
+        { request: { method: 'POST', url: 'https://api.dropboxapi.com/oauth2/token' }, response: { status: 400, json: { error: 'invalid_grant' } } }
+      ]
+    }, 'dropbox-app');
+
+    const synced = await h.sync(await h.connect(REFRESHABLE));
+
+    expect(synced.status).toBe('disconnected');
+    expect(synced.sync_state!.last_error).toContain('refused to refresh');
+  });
+
+  it('should disconnect iCloud when the CloudKit session has ended', async () => {
+    const h = harness({
+      provider: 'icloud_photos',
+      exchanges: [{
+        request: { method: 'POST', url: 'https://api.apple-cloudkit.com/database/1/iCloud.com.apple.photos/production/private/changes/zone' },
+        response: { status: 421, json: { serverErrorCode: 'AUTHENTICATION_REQUIRED' } }
+      }]
+    }, 'cloudkit-api-token');
+
+    const synced = await h.sync(await h.connect({ access_token: 'web-auth-token' }));
+    expect(synced.status).toBe('disconnected');
+  });
+
+  it('should retry downloads that failed in the next sync', async () => {
+    const flaky: ProviderFixture = {
+      provider: 'dropbox',
+      exchanges: [
+        {
+          request: { method: 'POST', url: 'https://content.dropboxapi.com/2/files/download', headers: { 'Dropbox-API-Arg': '{"path":"id:B"}' } },
+          response: { status: 500, text: 'internal error' },
+          times: 1
+        }
+      ].concat(dropbox.exchanges as any[]) as ProviderFixture['exchanges']
+    };
+    const h = harness(flaky, 'dropbox-app');
+    const integration = await h.connect(REFRESHABLE);
+
+    const first = await h.sync(integration);
+    expect(first.sync_stats!.last_sync_failed).toBe(1);
+    expect(Object.keys(first.sync_state!.failed_items!)).toEqual(['/bilder/dans.mp4']);
+
+    // The retried download succeeds before the delta reports Dans.mp4 as deleted remotely
+    const second = await h.sync(integration);
+    expect(second.sync_stats!.last_sync_failed).toBe(0);
+    expect(second.sync_state!.failed_items).toBeUndefined();
+    expect(second.sync_state!.items['/bilder/dans.mp4'].remote_deleted).toBe(true);
+    expect(await h.files(second)).toEqual(['Dans.mp4', 'Kraftskiva.jpg', 'Midsommar.jpg']);
+  });
+
+  it('should report providers without a file library as errors', async () => {
+    const h = harness({ provider: 'gmail', exchanges: [] }, 'gmail-client');
+    const synced = await h.sync(await h.connect({ access_token: 'token' }));
+
+    expect(synced.status).toBe('error');
+    expect(synced.sync_state).toBeUndefined();
+  });
+});
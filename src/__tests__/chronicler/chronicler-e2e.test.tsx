@@ -349,6 +349,7 @@ describe('Personal Chronicler E2E Workflow', () => {
 
       for (const type of transformationTypes) {
         const transformation = await chroniclerService.transformForRecipient(
+          'user-123',
           'reflection-123',
           'recipient-123',
           type,
@@ -524,10 +525,13 @@ describe('Personal Chronicler E2E Workflow', () => {
         .mockResolvedValue(mockSyncResults);
 
       // Trigger sync
-      await chroniclerService.syncExternalAssets(integration.id);
+      await chroniclerService.syncExternalAssets('user-123', integration.id);
 
       // Verify sync was called and integration updated
-      expect(mockMemoryAssistant.getExternalIntegration).toHaveBeenCalledWith(integration.id);
+      expect(mockMemoryAssistant.getExternalIntegration).toHaveBeenCalledWith(
+        integration.id,
+        expect.objectContaining({ user_ids: ['user-123'] })
+      );
       expect(mockMemoryAssistant.saveExternalIntegration).toHaveBeenCalledWith(
         expect.objectContaining({
           status: 'connected',
@@ -570,6 +574,7 @@ describe('Personal Chronicler E2E Workflow', () => {
 
       // Step 2: Transform for recipient using Cortex-mode
       const transformation = await chroniclerService.transformForRecipient(
+        'user-123',
         reflection.id,
         'recipient-123',
         'personal_message',
@@ -0,0 +1,189 @@
+/**
+ * Tests for Chronicler persistence through the MemoryAssistant
+ * Reflections, transformations, workflows and integrations round-trip through the embedded stores
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ChroniclerService } from '../../services/chronicler-service';
+import { MemoryAssistantImpl } from '../../lib/memory/memory-assistant';
+import { EmbeddedGraphStore } from '../../lib/memory/embedded-graph-store';
+import { SemanticRAG } from '../../lib/memory/semantic-rag';
+import { CognitiveAgentImpl } from '../../lib/cognitive-agent';
+import { ResourceGovernorImpl, ResourceLimitError } from '../../lib/resource-governor';
+import { DomainEventBus } from '../../lib/events/domain-event-bus';
+import { MemoryAccessError } from '../../types/memory';
+import { ConfigurationProfile, ContextThread, MemoryScope, UserState } from '../../types';
+import { ReflectionContent } from '../../types/chronicler';
+
+const profile: ConfigurationProfile = {
+  llm_model: 'gpt-4',
+  toolkit: ['reflection_analysis'],
+  memory_scope: 'user:mormor',
+  entry_phase: 'EMERGE'
+};
+
+const thread: ContextThread = {
+  id: 'thread-chronicler',
+  top_level_goal: 'Chronicle',
+  task_definition: 'Chronicle',
+  configuration_profile: profile,
+  memory_scope: profile.memory_scope,
+  resource_budget: { max_llm_calls: 10, max_compute_units: 100, max_storage_bytes: 1024 * 1024, max_execution_time: 30000 },
+  recursion_depth: 0,
+  workspace_branch: 'main',
+  created_at: new Date(),
+  updated_at: new Date()
+};
+
+const MORMOR: MemoryScope = {
+  id: 'user:mormor',
+  user_ids: ['mormor'],
+  project_ids: [],
+  contact_ids: [],
+  permissions: { read: true, write: false, delete: false }
+};
+
+function content(text: string): ReflectionContent {
+  return {
+    text,
+    blocks: [],
+    metadata: { word_count: text.split(' ').length, reading_time_minutes: 1, dominant_emotions: [], themes: [], language: 'sv' }
+  };
+}
+
+function state(fight: number, flight: number, fixes: number): UserState {
+  return { fight, flight, fixes, timestamp: new Date('2030-05-01T12:00:00Z'), confidence: 0.8 };
+}
+
+describe('Chronicler persistence', () => {
+  let semanticRAG: SemanticRAG;
+  let memory: MemoryAssistantImpl;
+  let governor: ResourceGovernorImpl;
+  let service: ChroniclerService;
+
+  beforeEach(() => {
+    semanticRAG = new SemanticRAG();
+    memory = new MemoryAssistantImpl(new EmbeddedGraphStore(), semanticRAG);
+    governor = new ResourceGovernorImpl();
+    service = new ChroniclerService(
+      memory,
+      new CognitiveAgentImpl('Conscious', profile, thread),
+      governor,
+      new DomainEventBus()
+    );
+  });
+
+  it('should round-trip a reflection with its dates', async () => {
+    const created = await service.createReflection('mormor', content('Sommaren på gården i Småland'), state(0.1, 0.2, 0.7));
+
+    const loaded = await memory.getReflection(created.id, MORMOR);
+    expect(loaded!.content.text).toBe('Sommaren på gården i Småland');
+    expect(loaded!.created_at).toBeInstanceOf(Date);
+    expect(loaded!.emotional_context.timestamp).toEqual(new Date('2030-05-01T12:00:00Z'));
+
+    const updated = await service.updateReflection('mormor', created.id, { title: 'Gården' });
+    expect((await memory.getReflection(created.id, MORMOR))!.title).toBe(updated.title);
+  });
+
+  it('should re-index captured emotional contexts with the text and drop them with the reflection', async () => {
+    const created = await service.createReflection('mormor', content('Blåbär i skogen'), state(0.1, 0.2, 0.7));
+    // The reflection's text and the context captured at creation
+    expect(semanticRAG.getEntryCount()).toBe(2);
+
+    await service.updateReflection('mormor', created.id, { content: content('Lingon vid sjön') }, state(0.1, 0.8, 0.1));
+    expect(semanticRAG.getEntryCount()).toBe(3);
+    const anxious = await service.searchReflections('mormor', 'lingon vid sjön', { flight: 0.8 });
+    expect(anxious.map(r => r.id)).toEqual([created.id]);
+
+    const current = (await memory.getReflection(created.id, MORMOR))!;
+    await memory.saveReflection({ ...current, status: 'deleted' });
+    expect(semanticRAG.getEntryCount()).toBe(0);
+  });
+
+  it('should filter and paginate a user\'s reflections', async () => {
+    const first = await service.createReflection('mormor', content('Första dagen i skolan'), state(0.2, 0.5, 0.3));
+    const second = await service.createReflection('mormor', content('Bröllopet i kyrkan'), state(0.1, 0.1, 0.8));
+    await memory.saveReflection({ ...second, id: 'shared', privacy_level: 'shareable', tags: ['bröllop'] });
+    await service.createReflection('morfar', content('Fisketuren'), state(0.1, 0.1, 0.5));
+
+    const all = await service.getUserReflections('mormor');
+    expect(all.total).toBe(3);
+
+    const page = await service.getUserReflections('mormor', undefined, { offset: 1, limit: 1 });
+    expect(page.total).toBe(3);
+    expect(page.reflections).toHaveLength(1);
+
+    const shareable = await service.getUserReflections('mormor', { privacyLevel: 'shareable', tags: ['bröllop'] });
+    expect(shareable.reflections.map(r => r.id)).toEqual(['shared']);
+
+    await memory.saveReflection({ ...second, id: 'wedding-party', tags: ['bröllop', 'fest'] });
+    const both = await service.getUserReflections('mormor', { tags: ['bröllop', 'fest'] });
+    expect(both.reflections.map(r => r.id)).toEqual(['wedding-party']);
+    const either = await service.getUserReflections('mormor', { tags: ['bröllop', 'fest'], tagMatch: 'any' });
+    expect(either.reflections.map(r => r.id).sort()).toEqual(['shared', 'wedding-party']);
+
+    await memory.saveReflection({ ...first, status: 'deleted' });
+    expect((await service.getUserReflections('mormor')).total).toBe(3);
+  });
+
+  it('should search reflections by text and emotional context', async () => {
+    const calm = await service.createReflection('mormor', content('Vi plockade blåbär i skogen'), state(0.1, 0.1, 0.8));
+    await service.createReflection('mormor', content('Oron inför operationen'), state(0.2, 0.9, 0.1));
+
+    const found = await service.searchReflections('mormor', 'blåbär i skogen');
+    expect(found.map(r => r.id)).toContain(calm.id);
+
+    const hopeful = await service.searchReflections('mormor', 'blåbär i skogen', { flight: 0.9 });
+    expect(hopeful.map(r => r.id)).not.toContain(calm.id);
+
+    expect(await service.searchReflections('morfar', 'blåbär i skogen')).toEqual([]);
+  });
+
+  it('should keep another user\'s reflections out of reach', async () => {
+    const created = await service.createReflection('mormor', content('Hemligt'), state(0.1, 0.1, 0.5));
+    const otherScope: MemoryScope = {
+      id: 'user:morfar',
+      user_ids: ['morfar'],
+      project_ids: [],
+      contact_ids: [],
+      permissions: { read: true, write: true, delete: false, raw_cypher: false }
+    };
+
+    expect(await memory.getReflection(created.id, otherScope)).toBeNull();
+    await expect(memory.saveReflection({ ...created, user_id: 'morfar' })).rejects.toBeInstanceOf(MemoryAccessError);
+  });
+
+  it('should transform a shareable reflection and store the transformation', async () => {
+    const created = await service.createReflection('mormor', content('Du var så liten när du lärde dig cykla.'), state(0.1, 0.1, 0.8));
+    await service.updateReflection('mormor', created.id, { privacy_level: 'shareable' });
+
+    const transformation = await service.transformForRecipient('mormor', created.id, 'elsa', 'personal_message', {
+      relationship_type: 'grandchild',
+      emotional_impact: 'warm',
+      formality_level: 'casual',
+      include_emotional_context: true,
+      language_preferences: ['sv']
+    });
+
+    expect(transformation.status).toBe('completed');
+    expect(transformation.transformed_content.text).toContain('Du var så liten');
+    expect(transformation.transformed_content.text).toContain('hopp');
+    expect((await memory.getTransformation(transformation.id, MORMOR))!.status).toBe('completed');
+  });
+
+  it('should persist workflows and integrations', async () => {
+    const workflow = await service.startWorkflow('mormor', 'create_reflection');
+    const advanced = await service.advanceWorkflow('mormor', workflow.id, { text: 'utkast' });
+    expect((await memory.getWorkflow(workflow.id, MORMOR))!.current_step).toBe(advanced.current_step);
+
+    const integration = await service.setupExternalIntegration('mormor', 'google_photos', 'token', {});
+    expect((await memory.getExternalIntegration(integration.id, MORMOR))!.provider).toBe('google_photos');
+  });
+
+  it('should refuse Cortex-mode work while the system sleeps', async () => {
+    await governor.setSystemTempo('Sleep');
+
+    await expect(governor.validateCortexMode({ userId: 'mormor', operation: 'message_transformation', complexity: 'low' }))
+      .rejects.toBeInstanceOf(ResourceLimitError);
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Recorded-fixture provider servers
+ * Replays recorded HTTP exchanges as a transport so every provider adapter
+ * runs offline, the same way the file-drop sinks stand in for SMTP and post.
+ */
+
+import { ExternalProvider } from '../../../types/chronicler';
+import { HttpRequest, HttpResponse, HttpTransport } from '../../../services/asset-sync-adapters';
+
+/**
+ * One recorded request/response pair
+ * Recorded query parameters, headers and JSON or form body fields must be
+ * present in a request for it to match; anything else is ignored.
+ */
+export interface RecordedExchange {
+  request: {
+    method: 'GET' | 'POST';
+    url: string;
+    headers?: Record<string, string>;
+    body?: Record<string, any>;
+  };
+  response: {
+    status: number;
+    headers?: Record<string, string>;
+    json?: any;
+    text?: string;
+  };
+
+  /** Replay at most this many times (unlimited when absent) */
+  times?: number;
+}
+
+/**
+ * Recorded session with one provider
+ */
+export interface ProviderFixture {
+  provider: ExternalProvider;
+  description?: string;
+  exchanges: RecordedExchange[];
+}
+
+/**
+ * Fake provider server replaying a fixture
+ * The first recorded exchange that matches and has replays left answers.
+ */
+export class FixtureServer {
+  readonly provider: ExternalProvider;
+  readonly requests: HttpRequest[] = [];
+  private exchanges: RecordedExchange[];
+  private replays: number[];
+
+  constructor(fixture: ProviderFixture) {
+    this.provider = fixture.provider;
+    this.exchanges = fixture.exchanges;
+    this.replays = fixture.exchanges.map(() => 0);
+  }
+
+  /**
+   * Transport answering from the fixture
+   */
+  readonly transport: HttpTransport = async request => {
+    this.requests.push(request);
+
+    for (let i = 0; i < this.exchanges.length; i++) {
+      const exchange = this.exchanges[i];
+      if (exchange.times !== undefined && this.replays[i] >= exchange.times) continue;
+      if (!matchesRequest(exchange.request, request)) continue;
+
+      this.replays[i]++;
+      return toResponse(exchange.response);
+    }
+
+    throw new Error(`No recorded ${this.provider} exchange for ${request.method} ${request.url}`);
+  };
+
+  /**
+   * Requests sent to URLs starting with the prefix
+   */
+  requestsTo(urlPrefix: string): HttpRequest[] {
+    return this.requests.filter(request => request.url.indexOf(urlPrefix) === 0);
+  }
+}
+
+/**
+ * Whether a request matches a recording
+ */
+function matchesRequest(recorded: RecordedExchange['request'], request: HttpRequest): boolean {
+  if (recorded.method !== request.method) return false;
+
+  const expectedUrl = new URL(recorded.url);
+  const actualUrl = new URL(request.url);
+  if (expectedUrl.origin + expectedUrl.pathname !== actualUrl.origin + actualUrl.pathname) return false;
+
+  let queryMatches = true;
+  expectedUrl.searchParams.forEach((value, name) => {
+    if (actualUrl.searchParams.get(name) !== value) queryMatches = false;
+  });
+  if (!queryMatches) return false;
+
+  if (recorded.headers) {
+    const headers: Record<string, string> = {};
+    for (const name of Object.keys(request.headers)) {
+      headers[name.toLowerCase()] = request.headers[name];
+    }
+    for (const name of Object.keys(recorded.headers)) {
+      if (headers[name.toLowerCase()] !== recorded.headers[name]) return false;
+    }
+  }
+
+  return !recorded.body || containsSubset(parseBody(request), recorded.body);
+}
+
+/**
+ * Request body as an object (JSON or form encoded)
+ */
+function parseBody(request: HttpRequest): any {
+  if (!request.body) return {};
+
+  try {
+    return JSON.parse(request.body);
+  } catch {
+    const form: Record<string, string> = {};
+    new URLSearchParams(request.body).forEach((value, name) => {
+      form[name] = value;
+    });
+    return form;
+  }
+}
+
+/**
+ * Whether every recorded field is present with the same value
+ */
+function containsSubset(actual: any, expected: any): boolean {
+  if (expected === null || typeof expected !== 'object') {
+    return actual === expected;
+  }
+  if (actual === null || typeof actual !== 'object') {
+    return false;
+  }
+  return Object.keys(expected).every(key => containsSubset(actual[key], expected[key]));
+}
+
+/**
+ * Transport response for a recording
+ */
+function toResponse(recorded: RecordedExchange['response']): HttpResponse {
+  const headers: Record<string, string> = {};
+  for (const name of Object.keys(recorded.headers || {})) {
+    headers[name.toLowerCase()] = recorded.headers![name];
+  }
+
+  const text = recorded.json !== undefined ? JSON.stringify(recorded.json) : recorded.text || '';
+  const bytes = new TextEncoder().encode(text);
+  const body = new ArrayBuffer(bytes.length);
+  new Uint8Array(body).set(bytes);
+
+  return { status: recorded.status, headers, body };
+}
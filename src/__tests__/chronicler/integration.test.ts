@@ -100,6 +100,7 @@ describe('Personal Chronicler Integration', () => {
 
     // Test 2: Transform for recipient
     const transformation = await chroniclerService.transformForRecipient(
+      'test-user',
       reflection.id,
       'recipient-id',
       'personal_message',
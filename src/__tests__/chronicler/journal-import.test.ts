@@ -0,0 +1,261 @@
+/**
+ * Tests for journal imports
+ * Markdown, Day One, plain-text and Google Keep exports become reflections with
+ * their original dates and locations; re-imports are de-duplicated.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ChroniclerService } from '../../services/chronicler-service';
+import {
+  markdownToBlocks,
+  parseDayOneExport,
+  parseGoogleKeepTakeout,
+  parseMarkdownFolder,
+  parsePlainTextDiaries
+} from '../../services/journal-importers';
+import { MemoryAssistantImpl } from '../../lib/memory/memory-assistant';
+import { EmbeddedGraphStore } from '../../lib/memory/embedded-graph-store';
+import { SemanticRAG } from '../../lib/memory/semantic-rag';
+import { DomainEventBus } from '../../lib/events/domain-event-bus';
+import { JournalImportFile } from '../../types/chronicler';
+import { MemoryScope } from '../../types';
+
+const MORMOR: MemoryScope = {
+  id: 'user:mormor',
+  user_ids: ['mormor'],
+  project_ids: [],
+  contact_ids: [],
+  permissions: { read: true, write: false, delete: false }
+};
+
+const markdownFiles: JournalImportFile[] = [
+  {
+    path: 'dagbok/2019-06-21 Midsommar.md',
+    content: 'Vi dansade kring **stången** hela kvällen.\n\n- jordgubbar\n- sill'
+  },
+  {
+    path: 'dagbok/flytten.md',
+    content: [
+      '---',
+      'title: "Flytten till Växjö"',
+      'date: 1972-09-01 08:30',
+      'tags: [flytt, familj]',
+      'location: Växjö',
+      'latitude: 56.879',
+      'longitude: 14.806',
+      '---',
+      '# Ignorerad rubrik',
+      'Lastbilen kom tidigt.',
+      '',
+      '> Ett nytt hem, sa mamma.'
+    ].join('\n')
+  },
+  { path: 'dagbok/utan-datum.md', content: 'Ingen aning om när.' },
+  { path: 'dagbok/bild.jpg', content: '' }
+];
+
+const dayOneExport: JournalImportFile = {
+  path: 'Journal.json',
+  content: JSON.stringify({
+    metadata: { version: '1.0' },
+    entries: [
+      {
+        uuid: 'A1B2',
+        creationDate: '2021-03-14T09:15:00Z',
+        modifiedDate: '2021-03-15T10:00:00Z',
+        text: '# Barnbarnet föddes\n\nElsa kom till världen i dag\\. Vi grät av lycka\\!\n\n![](dayone-moment://PHOTO1)',
+        tags: ['elsa'],
+        location: { latitude: 59.33, longitude: 18.07, placeName: 'BB Sophia', localityName: 'Stockholm', country: 'Sverige' }
+      },
+      { uuid: 'C3D4', text: 'Utan datum' }
+    ]
+  })
+};
+
+const diary: JournalImportFile = {
+  path: 'dagbok.txt',
+  content: [
+    'Min dagbok',
+    '',
+    '2020-01-05',
+    'Snö hela dagen. Vi åkte pulka.',
+    '',
+    'Onsdag 8 januari 2020 kl. 21:30',
+    'Trött efter jobbet.',
+    '',
+    '2020-01-05',
+    'Glömde: vi byggde en snögubbe också.'
+  ].join('\n')
+};
+
+const keepNotes: JournalImportFile[] = [
+  {
+    path: 'Takeout/Keep/Inköp.json',
+    content: JSON.stringify({
+      title: 'Till stugan',
+      textContent: '',
+      listContent: [{ text: 'Fotogen', isChecked: true }, { text: 'Tändstickor', isChecked: false }],
+      labels: [{ name: 'stugan' }],
+      isTrashed: false,
+      createdTimestampUsec: 1593590400000000,
+      userEditedTimestampUsec: 1593594000000000
+    })
+  },
+  {
+    path: 'Takeout/Keep/Slängd.json',
+    content: JSON.stringify({ title: 'Bort', textContent: 'x', isTrashed: true, createdTimestampUsec: 1 })
+  },
+  { path: 'Takeout/Keep/Inköp.html', content: '<html></html>' }
+];
+
+describe('Journal parsers', () => {
+  it('should convert Markdown into blocks and plain text', () => {
+    const { text, blocks } = markdownToBlocks('## Rubrik\nFörsta *raden*.\n\n> Citat\n\n1. ett\n2. [två](https://x)\n\n![Mormor](mormor.jpg)');
+
+    expect(blocks.map(block => block.type)).toEqual(['text', 'text', 'quote', 'list', 'image']);
+    expect(blocks[0].metadata).toEqual({ heading: 2 });
+    expect(blocks[3].content).toEqual(['ett', 'två']);
+    expect(blocks[4].content).toEqual({ src: 'mormor.jpg', alt: 'Mormor' });
+    expect(text).toBe('Rubrik\n\nFörsta raden.\n\nCitat\n\nett\ntvå\n\nMormor');
+  });
+
+  it('should read dates, titles, tags and locations from a Markdown folder', () => {
+    const { entries, skipped } = parseMarkdownFolder(markdownFiles, 'Europe/Stockholm');
+
+    expect(entries.map(entry => entry.title)).toEqual(['Midsommar', 'Flytten till Växjö']);
+    expect(entries[0].created_at).toEqual(new Date('2019-06-20T22:00:00Z'));
+    expect(entries[0].blocks.map(block => block.type)).toEqual(['text', 'list']);
+
+    expect(entries[1].created_at).toEqual(new Date('1972-09-01T07:30:00Z'));
+    expect(entries[1].tags).toEqual(['flytt', 'familj']);
+    expect(entries[1].location).toEqual({ latitude: 56.879, longitude: 14.806, name: 'Växjö' });
+    expect(entries[1].text).toContain('Ignorerad rubrik');
+
+    expect(skipped).toEqual([expect.objectContaining({ external_id: 'dagbok/utan-datum.md', reason: 'invalid' })]);
+  });
+
+  it('should read Day One entries with their locations', () => {
+    const { entries, skipped } = parseDayOneExport([dayOneExport]);
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toEqual(expect.objectContaining({
+      external_id: 'A1B2',
+      title: 'Barnbarnet föddes',
+      created_at: new Date('2021-03-14T09:15:00Z'),
+      updated_at: new Date('2021-03-15T10:00:00Z'),
+      tags: ['elsa']
+    }));
+    expect(entries[0].text).toBe('Elsa kom till världen i dag. Vi grät av lycka!');
+    expect(entries[0].blocks[1]).toEqual(expect.objectContaining({ type: 'image', content: { src: 'dayone-moment://PHOTO1', alt: '' } }));
+    expect(entries[0].location).toEqual({
+      latitude: 59.33, longitude: 18.07, name: 'BB Sophia', address: 'Stockholm, Sverige'
+    });
+    expect(skipped).toEqual([expect.objectContaining({ external_id: 'C3D4', reason: 'invalid' })]);
+  });
+
+  it('should split plain-text diaries on ISO and Swedish date lines', () => {
+    const { entries, skipped } = parsePlainTextDiaries([diary], 'Europe/Stockholm');
+
+    expect(entries.map(entry => [entry.created_at.toISOString(), entry.text])).toEqual([
+      ['2020-01-04T23:00:00.000Z', 'Snö hela dagen. Vi åkte pulka.'],
+      ['2020-01-08T20:30:00.000Z', 'Trött efter jobbet.'],
+      ['2020-01-04T23:00:00.000Z', 'Glömde: vi byggde en snögubbe också.']
+    ]);
+    expect(entries[0].external_id).not.toBe(entries[2].external_id);
+    expect(skipped).toEqual([expect.objectContaining({ external_id: 'dagbok.txt#preamble', reason: 'invalid' })]);
+  });
+
+  it('should read Google Keep notes and skip trashed ones', () => {
+    const { entries, skipped } = parseGoogleKeepTakeout(keepNotes);
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0].title).toBe('Till stugan');
+    expect(entries[0].created_at).toEqual(new Date(1593590400000));
+    expect(entries[0].tags).toEqual(['stugan']);
+    expect(entries[0].blocks[0]).toEqual(expect.objectContaining({
+      type: 'list',
+      content: ['Fotogen', 'Tändstickor'],
+      metadata: { checked: [true, false] }
+    }));
+    expect(skipped).toEqual([expect.objectContaining({ title: 'Bort', reason: 'trashed' })]);
+  });
+});
+
+describe('ChroniclerService.importJournal', () => {
+  let memory: MemoryAssistantImpl;
+  let service: ChroniclerService;
+  let governor: { validateAction: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    memory = new MemoryAssistantImpl(new EmbeddedGraphStore(), new SemanticRAG());
+    governor = { validateAction: vi.fn().mockResolvedValue(undefined) };
+    const agent = { processInput: vi.fn().mockResolvedValue({ text: 'Tags: minnen, familj' }) };
+    service = new ChroniclerService(memory, agent as any, governor as any, new DomainEventBus());
+  });
+
+  it('should create private reflections with original dates, locations and extracted tags', async () => {
+    const report = await service.importJournal('mormor', 'day_one', [dayOneExport]);
+
+    expect(report.imported).toHaveLength(1);
+    expect(report.skipped.map(item => item.reason)).toEqual(['invalid']);
+
+    const reflection = (await memory.getReflection(report.imported[0].reflection_id!, MORMOR))!;
+    expect(reflection.title).toBe('Barnbarnet föddes');
+    expect(reflection.created_at).toEqual(new Date('2021-03-14T09:15:00Z'));
+    expect(reflection.location!.name).toBe('BB Sophia');
+    expect(reflection.tags).toEqual(['elsa', 'minnen', 'familj']);
+    expect(reflection.privacy_level).toBe('private');
+    expect(reflection.content.metadata.language).toBe('sv');
+    expect(reflection.import_source).toEqual(expect.objectContaining({ format: 'day_one', external_id: 'A1B2' }));
+    expect(governor.validateAction).toHaveBeenCalledWith(expect.objectContaining({ type: 'import_reflection', userId: 'mormor' }));
+  });
+
+  it('should skip unchanged entries and merge changed ones on re-import', async () => {
+    const first = await service.importJournal('mormor', 'markdown', markdownFiles);
+    expect(first.imported).toHaveLength(2);
+
+    const edited = markdownFiles.map(file => file.path === 'dagbok/2019-06-21 Midsommar.md'
+      ? { ...file, content: file.content + '\n\nSedan regnade det.' }
+      : file);
+    const second = await service.importJournal('mormor', 'markdown', edited);
+
+    expect(second.imported).toEqual([]);
+    expect(second.merged).toEqual([expect.objectContaining({
+      external_id: 'dagbok/2019-06-21 Midsommar.md',
+      reflection_id: first.imported[0].reflection_id
+    })]);
+    expect(second.skipped.map(item => [item.external_id, item.reason])).toEqual([
+      ['dagbok/utan-datum.md', 'invalid'],
+      ['dagbok/flytten.md', 'unchanged']
+    ]);
+
+    const merged = (await memory.getReflection(first.imported[0].reflection_id!, MORMOR))!;
+    expect(merged.content.text).toContain('Sedan regnade det.');
+    expect((await service.getUserReflections('mormor')).total).toBe(2);
+  });
+
+  it('should skip entries matching an existing reflection from another source', async () => {
+    await service.importJournal('mormor', 'plain_text', [{ path: 'a.txt', content: '2020-01-05\nSnö hela dagen.' }]);
+
+    const report = await service.importJournal('mormor', 'plain_text', [
+      { path: 'kopia.txt', content: '2020-01-05 10:00\nSnö  hela dagen.\n\n2020-01-06\n' }
+    ]);
+
+    expect(report.imported).toEqual([]);
+    expect(report.skipped.map(item => item.reason)).toEqual(['duplicate', 'empty']);
+  });
+
+  it('should keep identical entries written on other days or under other titles', async () => {
+    const report = await service.importJournal('mormor', 'plain_text', [
+      { path: 'dagbok.txt', content: '2020-01-05 22:00\nTrött.\n\n2020-01-06 08:00\nTrött.' }
+    ]);
+    expect(report.imported).toHaveLength(2);
+
+    const titled = await service.importJournal('mormor', 'markdown', [
+      { path: 'a.md', content: '---\ntitle: Morgon\ndate: 2020-02-01\n---\nKaffe på altanen.' },
+      { path: 'b.md', content: '---\ntitle: Kväll\ndate: 2020-02-01\n---\nKaffe på altanen.' }
+    ]);
+    expect(titled.imported.map(item => item.title)).toEqual(['Morgon', 'Kväll']);
+    expect(titled.skipped).toEqual([]);
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Tests for reflection version history
+ * Updates and restores are kept as immutable revisions and compared block by block
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ChroniclerService } from '../../services/chronicler-service';
+import { MemoryAssistantImpl } from '../../lib/memory/memory-assistant';
+import { EmbeddedGraphStore } from '../../lib/memory/embedded-graph-store';
+import { SemanticRAG } from '../../lib/memory/semantic-rag';
+import { CognitiveAgentImpl } from '../../lib/cognitive-agent';
+import { ResourceGovernorImpl } from '../../lib/resource-governor';
+import { DomainEventBus } from '../../lib/events/domain-event-bus';
+import { diffReflectionSnapshots } from '../../lib/reflection-diff';
+import { ConflictError, MemoryAccessError } from '../../types/memory';
+import { ConfigurationProfile, ContextThread, MemoryScope, UserState } from '../../types';
+import { ReflectionBlock, ReflectionContent, ReflectionSnapshot } from '../../types/chronicler';
+
+const profile: ConfigurationProfile = {
+  llm_model: 'gpt-4',
+  toolkit: ['reflection_analysis'],
+  memory_scope: 'user:mormor',
+  entry_phase: 'EMERGE'
+};
+
+const thread: ContextThread = {
+  id: 'thread-revisions',
+  top_level_goal: 'Chronicle',
+  task_definition: 'Chronicle',
+  configuration_profile: profile,
+  memory_scope: profile.memory_scope,
+  resource_budget: { max_llm_calls: 10, max_compute_units: 100, max_storage_bytes: 1024 * 1024, max_execution_time: 30000 },
+  recursion_depth: 0,
+  workspace_branch: 'main',
+  created_at: new Date(),
+  updated_at: new Date()
+};
+
+const SUMMER = 'Sommaren på gården i Småland var varm.';
+const BARN = 'Vi sov i höladan och hörde regnet på taket.';
+const LAKE = 'Morfar rodde ut på sjön varje morgon.';
+
+const MORMOR: MemoryScope = {
+  id: 'user:mormor',
+  user_ids: ['mormor'],
+  project_ids: [],
+  contact_ids: [],
+  permissions: { read: true, write: false, delete: false }
+};
+
+function content(text: string, blocks: ReflectionBlock[] = []): ReflectionContent {
+  return {
+    text,
+    blocks,
+    metadata: { word_count: text.split(' ').length, reading_time_minutes: 1, dominant_emotions: [], themes: [], language: 'sv' }
+  };
+}
+
+function snapshot(title: string, text: string, blocks: ReflectionBlock[] = []): ReflectionSnapshot {
+  return { title, content: content(text, blocks), tags: [], assets: [] };
+}
+
+function state(fight: number, flight: number, fixes: number): UserState {
+  return { fight, flight, fixes, timestamp: new Date('2030-05-01T12:00:00Z'), confidence: 0.8 };
+}
+
+describe('Reflection revisions', () => {
+  let memory: MemoryAssistantImpl;
+  let service: ChroniclerService;
+
+  beforeEach(() => {
+    memory = new MemoryAssistantImpl(new EmbeddedGraphStore(), new SemanticRAG());
+    service = new ChroniclerService(
+      memory,
+      new CognitiveAgentImpl('Conscious', profile, thread),
+      new ResourceGovernorImpl(),
+      new DomainEventBus()
+    );
+  });
+
+  it('should keep the original and every update with author and emotional context', async () => {
+    const created = await service.createReflection('mormor', content([SUMMER, BARN].join('\n\n')), state(0.1, 0.2, 0.7));
+
+    await service.updateReflection('mormor', created.id, { content: content(SUMMER) }, state(0.3, 0.6, 0.2));
+    await service.updateReflection('mormor', created.id, { title: 'Gården' });
+    await expect(service.updateReflection('elsa', created.id, { title: 'Elsas' })).rejects.toThrow('not found');
+
+    const revisions = await service.listRevisions('mormor', created.id);
+    expect(revisions.map(r => [r.revision_number, r.reason, r.author_id])).toEqual([
+      [1, 'original', 'mormor'],
+      [2, 'update', 'mormor'],
+      [3, 'update', 'mormor']
+    ]);
+    expect(revisions[0].snapshot.content.text).toContain(BARN);
+    expect(revisions[0].emotional_context.fixes).toBe(0.7);
+    expect(revisions[1].snapshot.content.text).toBe(SUMMER);
+    expect(revisions[1].emotional_context.flight).toBe(0.6);
+    expect(revisions[1].created_at).toBeInstanceOf(Date);
+    // Without a new emotional context the revision carries the reflection's own
+    expect(revisions[2].emotional_context.fixes).toBe(0.7);
+    expect(revisions[2].snapshot.title).toBe('Gården');
+  });
+
+  it('should bring back an accidentally deleted paragraph as a new revision', async () => {
+    const created = await service.createReflection('mormor', content([SUMMER, BARN, LAKE].join('\n\n')), state(0.1, 0.2, 0.7));
+    await service.updateReflection('mormor', created.id, { content: content([SUMMER, LAKE].join('\n\n')) });
+
+    const [original] = await service.listRevisions('mormor', created.id);
+    const restored = await service.restoreRevision('mormor', created.id, original.id, state(0.2, 0.2, 0.6));
+
+    expect(restored.content.text).toContain(BARN);
+    expect((await memory.getReflection(created.id, MORMOR))!.content.text).toContain(BARN);
+
+    const revisions = await service.listRevisions('mormor', created.id);
+    expect(revisions).toHaveLength(3);
+    expect(revisions[2].reason).toBe('restore');
+    expect(revisions[2].restored_from).toBe(original.id);
+    // The version without the paragraph is still there, so the restore can be undone
+    expect(revisions[1].snapshot.content.text).not.toContain(BARN);
+  });
+
+  it('should number concurrent updates one after another', async () => {
+    const created = await service.createReflection('mormor', content(SUMMER), state(0.1, 0.2, 0.7));
+
+    await Promise.all([
+      service.updateReflection('mormor', created.id, { title: 'Första' }),
+      service.updateReflection('mormor', created.id, { title: 'Andra' }),
+      service.updateReflection('mormor', created.id, { content: content(LAKE) })
+    ]);
+
+    const revisions = await service.listRevisions('mormor', created.id);
+    expect(revisions.map(revision => revision.revision_number)).toEqual([1, 2, 3, 4]);
+    expect(revisions.map(revision => revision.reason)).toEqual(['original', 'update', 'update', 'update']);
+    expect(revisions[3].snapshot).toMatchObject({ title: 'Andra', content: { text: LAKE } });
+  });
+
+  it('should never rewrite a stored revision', async () => {
+    const created = await service.createReflection('mormor', content(SUMMER), state(0.1, 0.2, 0.7));
+    await service.updateReflection('mormor', created.id, { title: 'Första' });
+
+    const [original] = await service.listRevisions('mormor', created.id);
+    await expect(memory.saveReflectionRevision({ ...original, snapshot: snapshot('Annan', 'Annan text') }))
+      .rejects.toBeInstanceOf(ConflictError);
+
+    await service.updateReflection('mormor', created.id, { content: content(LAKE) });
+    expect((await service.getRevision('mormor', created.id, original.id)).snapshot.content.text).toBe(SUMMER);
+  });
+
+  it('should keep revisions within the reflection and its owner', async () => {
+    const first = await service.createReflection('mormor', content(SUMMER), state(0.1, 0.2, 0.7));
+    const second = await service.createReflection('mormor', content(LAKE), state(0.1, 0.2, 0.7));
+    await service.updateReflection('mormor', first.id, { title: 'Gården' });
+
+    const [revision] = await service.listRevisions('mormor', first.id);
+    await expect(service.restoreRevision('mormor', second.id, revision.id)).rejects.toThrow('not found');
+    await expect(service.listRevisions('mormor', 'missing')).rejects.toThrow('not found');
+
+    const otherScope: MemoryScope = {
+      id: 'user:morfar',
+      user_ids: ['morfar'],
+      project_ids: [],
+      contact_ids: [],
+      permissions: { read: true, write: true, delete: false, raw_cypher: false }
+    };
+    await expect(memory.listReflectionRevisions(first.id, otherScope)).rejects.toBeInstanceOf(MemoryAccessError);
+    expect(await memory.getReflectionRevision(revision.id, otherScope)).toBeNull();
+  });
+
+  it('should diff a revision against the current reflection paragraph by paragraph', async () => {
+    const created = await service.createReflection('mormor', content([SUMMER, BARN, LAKE].join('\n\n')), state(0.1, 0.2, 0.7));
+    await service.updateReflection('mormor', created.id, {
+      title: 'Gården',
+      content: content([SUMMER, 'Morfar rodde ut på sjön varje söndag.'].join('\n\n'))
+    });
+
+    const [original, update] = await service.listRevisions('mormor', created.id);
+    const diffs = await service.diffRevisions('mormor', created.id, original.id);
+
+    expect(diffs.map(diff => diff.changes[0].type)).toEqual(['modification', 'deletion', 'modification']);
+    expect(diffs[0].block_id).toBe('title');
+    expect(diffs[1].before!.type).toBe('text');
+    expect(diffs[1].after).toBeUndefined();
+    expect(diffs[1].changes[0].description).toContain('Vi sov i höladan');
+    expect(diffs[2].changes[0].description).toBe('Replaced “morgon.” with “söndag.”');
+
+    expect(await service.diffRevisions('mormor', created.id, update.id)).toEqual([]);
+    expect(await service.diffRevisions('mormor', created.id, update.id, original.id)).toHaveLength(3);
+  });
+
+  it('should diff structured blocks by ID', () => {
+    const at = new Date('2030-05-01T12:00:00Z');
+    const before = snapshot('Resan', 'Tåget till Kiruna', [
+      { id: 'b1', type: 'text', content: 'Tåget till Kiruna', metadata: { heading: 2 } },
+      { id: 'b2', type: 'image', content: { src: 'tag.jpg', alt: 'Tåget', caption: 'Vid perrongen' } },
+      { id: 'b3', type: 'list', content: ['Matsäck', 'Filt'] }
+    ]);
+    const after = snapshot('Resan', 'Tåget till Kiruna', [
+      { id: 'b1', type: 'text', content: 'Tåget till Kiruna', metadata: { heading: 2 } },
+      { id: 'b2', type: 'image', content: { src: 'tag-2.jpg', alt: 'Tåget', caption: 'Vid perrongen' } },
+      { id: 'b3', type: 'list', content: ['Matsäck', 'Filt', 'Termos'] },
+      { id: 'b4', type: 'mood', content: { description: 'Förväntansfull', intensity: 8 } }
+    ]);
+
+    const diffs = diffReflectionSnapshots(before, after, { id_prefix: 'test', before_at: at, after_at: at });
+
+    expect(diffs.map(diff => diff.block_id)).toEqual(['b2', 'b3', 'b4']);
+    expect(diffs[0].changes).toEqual([
+      { type: 'modification', path: 'blocks[1].src', description: 'Changed src from “tag.jpg” to “tag-2.jpg”' }
+    ]);
+    expect(diffs[0].after).toMatchObject({ type: 'image', content: { src: 'tag-2.jpg', caption: 'Vid perrongen' } });
+    expect(diffs[1].changes[0]).toMatchObject({ type: 'addition', description: 'Added “Termos”' });
+    expect(diffs[1].after).toMatchObject({ type: 'list', content: { items: ['Matsäck', 'Filt', 'Termos'] } });
+    expect(diffs[2].before).toBeUndefined();
+    expect(diffs[2].after).toMatchObject({ type: 'text', content: { text: 'mood: Förväntansfull' } });
+    expect(diffs.map(diff => diff.id)).toEqual(['test:1', 'test:2', 'test:3']);
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Tests for reflection search
+ * Swedish stemming, ranking, filters, facets and highlighted snippets
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ReflectionSearchEngine } from '../../lib/reflection-search';
+import { stemSwedish } from '../../lib/memory/embedding-provider';
+import { ChroniclerService } from '../../services/chronicler-service';
+import { MemoryAssistantImpl } from '../../lib/memory/memory-assistant';
+import { EmbeddedGraphStore } from '../../lib/memory/embedded-graph-store';
+import { SemanticRAG } from '../../lib/memory/semantic-rag';
+import { DomainEventBus } from '../../lib/events/domain-event-bus';
+import { ReflectionEntry, ReflectionLocation, ReflectionSnippet } from '../../types/chronicler';
+
+let sequence = 0;
+
+function reflection(
+  title: string,
+  text: string,
+  options: { emotions?: string[]; themes?: string[]; tags?: string[]; location?: ReflectionLocation; day?: number } = {}
+): ReflectionEntry {
+  const createdAt = new Date(Date.UTC(2030, 0, options.day || 1));
+  return {
+    id: `r${++sequence}`,
+    user_id: 'mormor',
+    title,
+    content: {
+      text,
+      blocks: [],
+      metadata: {
+        word_count: text.split(' ').length,
+        reading_time_minutes: 1,
+        dominant_emotions: options.emotions || [],
+        themes: options.themes || [],
+        language: 'sv'
+      }
+    },
+    emotional_context: { fight: 0.1, flight: 0.1, fixes: 0.6, timestamp: createdAt, confidence: 0.8 },
+    privacy_level: 'private',
+    assets: [],
+    tags: options.tags || [],
+    location: options.location,
+    shareable: false,
+    created_at: createdAt,
+    updated_at: createdAt,
+    status: 'saved'
+  };
+}
+
+function highlighted(snippet: ReflectionSnippet): string[] {
+  return snippet.highlights.map(h => snippet.text.slice(h.start, h.end));
+}
+
+const VAXJO: ReflectionLocation = { latitude: 56.879, longitude: 14.806, name: 'Växjö' };
+const KIRUNA: ReflectionLocation = { latitude: 67.856, longitude: 20.225, name: 'Kiruna' };
+
+describe('Swedish stemming', () => {
+  it('should reduce inflected forms to one stem', () => {
+    expect(['gården', 'gårdar', 'gårdarna', 'gårdens'].map(stemSwedish)).toEqual(['gård', 'gård', 'gård', 'gård']);
+    expect(['cykla', 'cyklade', 'cyklar'].map(stemSwedish)).toEqual(['cykl', 'cykl', 'cykl']);
+    expect(['stuga', 'stugan', 'stugor'].map(stemSwedish)).toEqual(['stug', 'stug', 'stug']);
+    expect(stemSwedish('kärleksfullt')).toBe('kärleksfull');
+    expect(stemSwedish('öga')).toBe('öga');
+  });
+});
+
+describe('ReflectionSearchEngine', () => {
+  let engine: ReflectionSearchEngine;
+  let farm: ReflectionEntry;
+  let wedding: ReflectionEntry;
+  let winter: ReflectionEntry;
+  let all: ReflectionEntry[];
+
+  beforeEach(() => {
+    engine = new ReflectionSearchEngine();
+    farm = reflection('Sommar på gården', 'Vi hade tre kor. Alla gårdarna i byn hjälptes åt med höet.', {
+      emotions: ['glädje'], themes: ['barndom'], tags: ['småland'], location: VAXJO, day: 1
+    });
+    wedding = reflection('Bröllopet', 'Kyrkan var full av blommor och vi dansade hela natten.', {
+      emotions: ['glädje', 'kärlek'], themes: ['familj'], tags: ['bröllop'], location: VAXJO, day: 2
+    });
+    winter = reflection('Vintern i norr', 'Snön låg meterhög och gården försvann under drivorna.', {
+      emotions: ['vemod'], themes: ['barndom'], location: KIRUNA, day: 3
+    });
+    all = [farm, wedding, winter];
+  });
+
+  it('should match inflected query words and rank by relevance', async () => {
+    const results = await engine.search(all, { query: 'gårdar' });
+
+    expect(results.hits.map(hit => hit.reflection.id).sort()).toEqual([farm.id, winter.id].sort());
+    expect(results.hits[0].reflection.id).toBe(farm.id);
+    expect(results.hits.every(hit => hit.keyword_score === 1)).toBe(true);
+  });
+
+  it('should highlight matched words in snippets', async () => {
+    const [hit] = (await engine.search([farm], { query: 'gården' })).hits;
+
+    expect(hit.snippets.map(s => s.field)).toEqual(['title', 'text']);
+    expect(highlighted(hit.snippets[0])).toEqual(['gården']);
+    expect(highlighted(hit.snippets[1])).toEqual(['gårdarna']);
+  });
+
+  it('should cut long texts into passages around the matches', async () => {
+    const filler = 'Det regnade och vi satt inne och spelade kort medan timmarna gick. ';
+    const long = reflection('Dagbok', `Mormor bakade bullar. ${filler}${filler}${filler}Sedan bakade vi bröd igen.`);
+
+    const [hit] = (await engine.search([long], { query: 'baka' })).hits;
+
+    expect(hit.snippets).toHaveLength(2);
+    expect(hit.snippets[0].text.charAt(hit.snippets[0].text.length - 1)).toBe('…');
+    expect(hit.snippets[1].text.charAt(0)).toBe('…');
+    expect(highlighted(hit.snippets[1])).toEqual(['bakade']);
+  });
+
+  it('should filter by emotions, themes and location radius', async () => {
+    const byEmotion = await engine.search(all, { query: '', filters: { dominantEmotions: ['Kärlek'] } });
+    expect(byEmotion.hits.map(hit => hit.reflection.id)).toEqual([wedding.id]);
+
+    const byTheme = await engine.search(all, { query: '', filters: { themes: ['barndom'] } });
+    expect(byTheme.hits.map(hit => hit.reflection.id)).toEqual([winter.id, farm.id]);
+
+    const nearVaxjo = await engine.search(all, {
+      query: '',
+      filters: { location: { latitude: 56.88, longitude: 14.8, radius_km: 50 } }
+    });
+    expect(nearVaxjo.hits.map(hit => hit.reflection.id)).toEqual([wedding.id, farm.id]);
+  });
+
+  it('should count facets over all hits before paging', async () => {
+    const results = await engine.search(all, { query: '', pagination: { offset: 0, limit: 1 } });
+
+    expect(results.hits).toHaveLength(1);
+    expect(results.total).toBe(3);
+    expect(results.facets.dominant_emotions).toEqual([
+      { value: 'glädje', count: 2 },
+      { value: 'kärlek', count: 1 },
+      { value: 'vemod', count: 1 }
+    ]);
+    expect(results.facets.themes[0]).toEqual({ value: 'barndom', count: 2 });
+    expect(results.facets.privacy_levels).toEqual([{ value: 'private', count: 3 }]);
+  });
+
+  it('should ignore stopwords and return nothing for unrelated queries', async () => {
+    expect((await engine.search(all, { query: 'flygplan till Tokyo' })).total).toBe(0);
+    expect((await engine.search(all, { query: 'och i på' })).total).toBe(0);
+  });
+});
+
+describe('ChroniclerService.search', () => {
+  it('should search the reflections stored for a user', async () => {
+    const memory = new MemoryAssistantImpl(new EmbeddedGraphStore(), new SemanticRAG());
+    const service = new ChroniclerService(memory, {} as any, {} as any, new DomainEventBus());
+    const farm = reflection('Sommar på gården', 'Vi hade tre kor.', { tags: ['småland'] });
+    const other = reflection('Gården i Norrland', 'Renar och snö.', { tags: ['norrland'] });
+
+    await memory.saveReflection(farm);
+    await memory.saveReflection(other);
+    await memory.saveReflection({ ...reflection('Gården', 'Morfars gård.'), user_id: 'morfar' });
+
+    const results = await service.search('mormor', { query: 'gårdar', filters: { tags: ['småland'] } });
+
+    expect(results.hits.map(hit => hit.reflection.id)).toEqual([farm.id]);
+    expect(results.facets.tags).toEqual([{ value: 'småland', count: 1 }]);
+  });
+});
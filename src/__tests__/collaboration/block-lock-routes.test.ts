@@ -0,0 +1,117 @@
+// @vitest-environment node
+/**
+ * Tests for the block lock API endpoint
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterAll, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { MemoryFactory } from '../../lib/memory/memory-factory';
+import { SESSION_COOKIE, getSessionTokenService } from '../../lib/security/session-tokens';
+import { CollaborativeSession, PermissionLevel, SessionParticipant } from '../../types/collaboration';
+
+vi.mock('../../lib/server-bootstrap', () => ({
+  bootstrapServer: () => Promise.resolve()
+}));
+
+import { GET, POST } from '../../app/api/block-locks/route';
+
+function participant(userId: string, level: PermissionLevel): SessionParticipant {
+  return {
+    user_id: userId,
+    display_name: userId,
+    permission_level: level,
+    joined_at: new Date(),
+    last_seen_at: new Date(),
+    status: 'active'
+  };
+}
+
+function session(id: string): CollaborativeSession {
+  return {
+    id,
+    resource_id: `reflection-${id}`,
+    resource_type: 'reflection',
+    host_user_id: 'mormor',
+    participants: [participant('mormor', 'admin'), participant('elsa', 'editor')],
+    block_locks: [],
+    status: 'active',
+    started_at: new Date(),
+    last_activity_at: new Date(),
+    metadata: {
+      settings: {
+        allow_anonymous: false,
+        require_approval: false,
+        auto_save_interval: 30,
+        lock_timeout: 300,
+        max_participants: 10
+      },
+      activity_log: []
+    }
+  };
+}
+
+describe('Block lock API endpoint', () => {
+  // The memory system outlives each test, so every test opens its own session
+  let sessions = 0;
+  let sessionId: string;
+
+  async function headers(userId?: string): Promise<Record<string, string>> {
+    const result: Record<string, string> = { 'content-type': 'application/json' };
+    if (userId) {
+      result.cookie = `${SESSION_COOKIE}=${await getSessionTokenService()!.issue(userId)}`;
+    }
+    return result;
+  }
+
+  async function listRequest(userId?: string): Promise<NextRequest> {
+    return new NextRequest(`http://localhost/api/block-locks?session_id=${sessionId}`, { headers: await headers(userId) });
+  }
+
+  async function lockRequest(userId: string | undefined, action: string): Promise<NextRequest> {
+    return new NextRequest('http://localhost/api/block-locks', {
+      method: 'POST',
+      headers: await headers(userId),
+      body: JSON.stringify({ action, session_id: sessionId, block_id: 'p1' })
+    });
+  }
+
+  beforeAll(async () => {
+    process.env.SESSION_SIGNING_KEY = 'test-session-key';
+    await MemoryFactory.getInstance().initialize(MemoryFactory.createTestConfig());
+  });
+
+  afterAll(async () => {
+    await MemoryFactory.getInstance().cleanup();
+  });
+
+  beforeEach(async () => {
+    sessionId = `sommar-${++sessions}`;
+    await MemoryFactory.getInstance().getMemoryAssistant().saveCollaborativeSession(session(sessionId));
+  });
+
+  it('should refuse requests without a session', async () => {
+    expect((await GET(await listRequest())).status).toBe(401);
+    expect((await POST(await lockRequest(undefined, 'acquire'))).status).toBe(401);
+  });
+
+  it('should refuse users outside the collaborative session', async () => {
+    expect((await GET(await listRequest('olle'))).status).toBe(403);
+    expect((await POST(await lockRequest('olle', 'acquire'))).status).toBe(403);
+  });
+
+  it('should let participants take, see and release block locks', async () => {
+    const acquired = await POST(await lockRequest('elsa', 'acquire'));
+    expect(acquired.status).toBe(200);
+    expect((await acquired.json()).result).toMatchObject({ block_id: 'p1', user_id: 'elsa' });
+
+    const listed = await GET(await listRequest('mormor'));
+    expect(listed.status).toBe(200);
+    expect((await listed.json()).locks.map((lock: { block_id: string }) => lock.block_id)).toEqual(['p1']);
+
+    // Someone else holding the lease is a conflict, not a refusal
+    expect((await POST(await lockRequest('mormor', 'acquire'))).status).toBe(409);
+
+    expect((await POST(await lockRequest('elsa', 'release'))).status).toBe(200);
+    expect((await (await GET(await listRequest('elsa'))).json()).locks).toEqual([]);
+  });
+});
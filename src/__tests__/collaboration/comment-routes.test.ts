@@ -0,0 +1,114 @@
+// @vitest-environment node
+/**
+ * Tests for the comments API endpoint
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterAll, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { MemoryFactory } from '../../lib/memory/memory-factory';
+import { projectRepository } from '../../lib/data/project-repository';
+import { SESSION_COOKIE, getSessionTokenService } from '../../lib/security/session-tokens';
+import { TextBlock } from '../../types/editor';
+
+vi.mock('../../lib/server-bootstrap', () => ({
+  bootstrapServer: () => Promise.resolve()
+}));
+
+import { GET, POST } from '../../app/api/comments/route';
+
+const AT = new Date('2030-05-01T12:00:00Z');
+
+const block: TextBlock = {
+  id: 'p1',
+  type: 'text',
+  created_at: AT,
+  updated_at: AT,
+  content: { text: 'Sommaren var varm.', formatting: {} }
+};
+
+describe('Comments API endpoint', () => {
+  // Threads outlive each test in the memory system, so every test comments on its own document
+  let documents = 0;
+  let documentId: string;
+  let projectId: string;
+
+  async function headers(userId?: string): Promise<Record<string, string>> {
+    const result: Record<string, string> = { 'content-type': 'application/json' };
+    if (userId) {
+      result.cookie = `${SESSION_COOKIE}=${await getSessionTokenService()!.issue(userId)}`;
+    }
+    return result;
+  }
+
+  async function listRequest(userId?: string): Promise<NextRequest> {
+    return new NextRequest(
+      `http://localhost/api/comments?project_id=${projectId}&document_id=${documentId}`,
+      { headers: await headers(userId) }
+    );
+  }
+
+  async function commentRequest(userId: string | undefined, params: Record<string, unknown>): Promise<NextRequest> {
+    return new NextRequest('http://localhost/api/comments', {
+      method: 'POST',
+      headers: await headers(userId),
+      body: JSON.stringify({ project_id: projectId, ...params })
+    });
+  }
+
+  function createRequest(userId?: string): Promise<NextRequest> {
+    return commentRequest(userId, {
+      action: 'create',
+      document_id: documentId,
+      block,
+      range: { start: 0, end: 8 },
+      text: 'Var det 1994?'
+    });
+  }
+
+  beforeAll(async () => {
+    process.env.SESSION_SIGNING_KEY = 'test-session-key';
+    await MemoryFactory.getInstance().initialize(MemoryFactory.createTestConfig());
+  });
+
+  afterAll(async () => {
+    await MemoryFactory.getInstance().cleanup();
+  });
+
+  beforeEach(async () => {
+    documentId = `doc-sommar-${++documents}`;
+    await projectRepository.clear();
+    const project = await projectRepository.createProject('mormor', { name: 'Sommarminnen', type: 'memory_book' });
+    projectId = project.id;
+    await projectRepository.addCollaborator(projectId, 'elsa', 'editor');
+    await projectRepository.addCollaborator(projectId, 'stina', 'viewer');
+    project.collaborators.forEach(collaborator => {
+      collaborator.status = 'accepted';
+    });
+  });
+
+  it('should refuse requests without a session', async () => {
+    expect((await GET(await listRequest())).status).toBe(401);
+    expect((await POST(await createRequest())).status).toBe(401);
+  });
+
+  it('should refuse users without the project\'s comment permissions', async () => {
+    expect((await GET(await listRequest('olle'))).status).toBe(403);
+    expect((await POST(await createRequest('stina'))).status).toBe(403);
+  });
+
+  it('should let collaborators open, list and reply to threads', async () => {
+    const created = await POST(await createRequest('elsa'));
+    const thread = (await created.json()).result;
+    expect(created.status).toBe(200);
+    expect(thread.anchor.quote).toBe('Sommaren');
+
+    const replied = await POST(await commentRequest('mormor', { action: 'reply', thread_id: thread.id, text: 'Nej, 1995!' }));
+    expect(replied.status).toBe(200);
+
+    const listed = await GET(await listRequest('stina'));
+    const { threads } = await listed.json();
+    expect(listed.status).toBe(200);
+    expect(threads).toHaveLength(1);
+    expect(threads[0].comments.map((comment: { author_id: string }) => comment.author_id)).toEqual(['elsa', 'mormor']);
+  });
+});
@@ -0,0 +1,263 @@
+// @vitest-environment node
+/**
+ * Tests for comment threads
+ * Threads stay anchored to their text while blocks are edited, mention
+ * session participants and follow the project's collaborator permissions
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  createCommentThread,
+  extractMentions,
+  rebaseCommentThreads,
+  replyToThread,
+  resolveThread,
+  reopenThread
+} from '../../lib/collaboration/comment-threads';
+import { CommentService, CommentPermissionError } from '../../services/comment-service';
+import { MemoryAssistantImpl } from '../../lib/memory/memory-assistant';
+import { EmbeddedGraphStore } from '../../lib/memory/embedded-graph-store';
+import { SemanticRAG } from '../../lib/memory/semantic-rag';
+import { ProjectRepository } from '../../lib/data/project-repository';
+import { DomainEventBus } from '../../lib/events/domain-event-bus';
+import { AnyDomainEvent } from '../../types/domain-events';
+import { CollaborativeSession, PermissionLevel, SessionParticipant } from '../../types/collaboration';
+import { ContentBlock, TextBlock, UIStateTree } from '../../types/editor';
+
+const AT = new Date('2030-05-01T12:00:00Z');
+const DOC = 'doc-sommar';
+
+function textBlock(id: string, text: string): TextBlock {
+  return { id, type: 'text', created_at: AT, updated_at: AT, content: { text, formatting: {} } };
+}
+
+function participant(userId: string, name: string, level: PermissionLevel = 'editor'): SessionParticipant {
+  return {
+    user_id: userId,
+    display_name: name,
+    permission_level: level,
+    joined_at: AT,
+    last_seen_at: AT,
+    status: 'active'
+  };
+}
+
+const PARTICIPANTS = [
+  participant('mormor', 'Mormor Greta', 'admin'),
+  participant('elsa', 'Elsa'),
+  participant('olle', 'Olle'),
+  participant('stina', 'Stina')
+];
+
+const ELSA = { user_id: 'elsa', display_name: 'Elsa' };
+
+describe('Comment anchors', () => {
+  const original = [textBlock('p1', 'Vi åkte till sjön varje sommar.'), textBlock('p2', 'Mormor bakade bullar.')];
+
+  /** Thread on the first occurrence of a phrase in the first paragraph */
+  function threadOn(phrase: string) {
+    const start = original[0].content.text.indexOf(phrase);
+    return createCommentThread(DOC, original[0], { start, end: start + phrase.length }, ELSA, 'Vilken sjö?', [], AT);
+  }
+
+  function quoted(blocks: ContentBlock[], thread: { anchor: { block_id: string; start: number; end: number } }): string {
+    const block = blocks.find(b => b.id === thread.anchor.block_id) as TextBlock;
+    return block.content.text.substring(thread.anchor.start, thread.anchor.end);
+  }
+
+  it('should follow text inserted before, inside and right next to the range', () => {
+    const thread = threadOn('sjön');
+    expect(thread.anchor.quote).toBe('sjön');
+
+    const before = [textBlock('p1', 'Förr i tiden åkte vi till sjön varje sommar.'), original[1]];
+    const [shifted] = rebaseCommentThreads([thread], original, before);
+    expect(quoted(before, shifted)).toBe('sjön');
+
+    const inside = [textBlock('p1', 'Vi åkte till sjö-stranden varje sommar.'), original[1]];
+    expect(quoted(inside, rebaseCommentThreads([thread], original, inside)[0])).toBe('sjö-stranden');
+
+    const adjacent = [textBlock('p1', 'Vi åkte till sjön Vättern varje sommar.'), original[1]];
+    expect(quoted(adjacent, rebaseCommentThreads([thread], original, adjacent)[0])).toBe('sjön');
+
+    // Edits elsewhere leave the thread untouched
+    const elsewhere = [original[0], textBlock('p2', 'Mormor bakade kanelbullar.')];
+    const threads = [thread];
+    expect(rebaseCommentThreads(threads, original, elsewhere)).toBe(threads);
+  });
+
+  it('should detach threads whose text or block is gone and reattach them on undo', () => {
+    const thread = threadOn('till sjön ');
+
+    const removed = [textBlock('p1', 'Vi åkte varje sommar.'), original[1]];
+    const [detached] = rebaseCommentThreads([thread], original, removed);
+    expect(detached.anchor.detached).toBe(true);
+
+    const [restored] = rebaseCommentThreads([detached], removed, original);
+    expect(restored.anchor.detached).toBeUndefined();
+    expect(quoted(original, restored)).toBe('till sjön ');
+
+    const [orphan] = rebaseCommentThreads([thread], original, [original[1]]);
+    expect(orphan.anchor.detached).toBe(true);
+  });
+
+  it('should reply, resolve and reopen without changing the original thread', () => {
+    const thread = threadOn('sommar');
+    const replied = replyToThread(thread, { user_id: 'olle', display_name: 'Olle' }, 'Hjälmaren, tror jag.', [], AT);
+    expect(thread.comments).toHaveLength(1);
+    expect(replied.comments.map(c => c.author_id)).toEqual(['elsa', 'olle']);
+
+    const resolved = resolveThread(replied, 'olle', AT);
+    expect(resolved).toMatchObject({ status: 'resolved', resolved_by: 'olle' });
+    expect(() => replyToThread(resolved, ELSA, 'En sak till')).toThrow('reopen it to reply');
+
+    const reopened = reopenThread(resolved, AT);
+    expect(reopened.status).toBe('open');
+    expect(reopened.resolved_by).toBeUndefined();
+    expect(() => createCommentThread(DOC, original[0], { start: 5, end: 500 }, ELSA, 'Utanför')).toThrow('outside block p1');
+    expect(() => replyToThread(reopened, ELSA, '   ')).toThrow('A comment cannot be empty');
+  });
+});
+
+describe('Comment mentions', () => {
+  it('should find mentioned participants by name or user ID', () => {
+    expect(extractMentions('@Elsa och @mormor greta, se @olle! Mejla elsa@example.com', PARTICIPANTS))
+      .toEqual(['elsa', 'mormor', 'olle']);
+    expect(extractMentions('@Elsabeth och @Elsa @elsa', PARTICIPANTS)).toEqual(['elsa']);
+    expect(extractMentions('@Stinas kaka', PARTICIPANTS)).toEqual([]);
+  });
+});
+
+describe('CommentService', () => {
+  let memory: MemoryAssistantImpl;
+  let projects: ProjectRepository;
+  let service: CommentService;
+  let events: AnyDomainEvent[];
+  let projectId: string;
+
+  const block = textBlock('p1', 'Sommaren var varm.');
+
+  beforeEach(async () => {
+    memory = new MemoryAssistantImpl(new EmbeddedGraphStore(), new SemanticRAG());
+    const bus = new DomainEventBus();
+    events = [];
+    bus.subscribeAll(event => {
+      events.push(event);
+    });
+    projects = new ProjectRepository(bus);
+    service = new CommentService(memory, projects, bus);
+
+    const project = await projects.createProject('mormor', { name: 'Sommarminnen', type: 'memory_book' });
+    projectId = project.id;
+    await projects.addCollaborator(projectId, 'elsa', 'editor');
+    await projects.addCollaborator(projectId, 'olle', 'commenter');
+    await projects.addCollaborator(projectId, 'stina', 'viewer');
+    project.collaborators.forEach(collaborator => {
+      collaborator.status = 'accepted';
+    });
+
+    const session: CollaborativeSession = {
+      id: 'sommar',
+      resource_id: DOC,
+      resource_type: 'reflection',
+      host_user_id: 'mormor',
+      participants: PARTICIPANTS.concat([participant('kusin', 'Kusin Karl', 'viewer')]),
+      block_locks: [],
+      status: 'active',
+      started_at: AT,
+      last_activity_at: AT,
+      metadata: {
+        settings: {
+          allow_anonymous: false,
+          require_approval: false,
+          auto_save_interval: 30,
+          lock_timeout: 300,
+          max_participants: 10
+        },
+        activity_log: []
+      }
+    };
+    await memory.saveCollaborativeSession(session);
+  });
+
+  it('should store threads and notify mentioned participants who can read them', async () => {
+    const thread = await service.createThread(
+      projectId, DOC, 'olle', block, { start: 0, end: 8 }, 'Var det 1994, @Elsa? Fråga @Kusin Karl också.'
+    );
+    expect(thread.comments[0]).toMatchObject({ author_name: 'Olle', mentions: ['elsa', 'kusin'] });
+    expect(thread.anchor.quote).toBe('Sommaren');
+
+    // The cousin is in the session but not a project collaborator
+    const mentioned = events.filter(event => event.type === 'comment.mentioned');
+    expect(mentioned.map(event => (event.payload as { mentioned_user_id: string }).mentioned_user_id)).toEqual(['elsa']);
+
+    const replied = await service.reply(projectId, thread.id, 'elsa', 'Nej, 1995! @olle');
+    expect(replied.comments).toHaveLength(2);
+    expect((await memory.getCommentThread(thread.id))!.comments[1].created_at).toBeInstanceOf(Date);
+    expect(await service.listThreads(projectId, DOC, 'stina')).toHaveLength(1);
+    expect(events.filter(event => event.type === 'comment.mentioned')).toHaveLength(2);
+  });
+
+  it('should enforce collaborator permissions and the project settings', async () => {
+    await expect(service.createThread(projectId, DOC, 'stina', block, { start: 0, end: 0 }, 'Fint!'))
+      .rejects.toThrow('Insufficient permissions to comment');
+    await expect(service.listThreads(projectId, DOC, 'granne')).rejects.toBeInstanceOf(CommentPermissionError);
+
+    const thread = await service.createThread(projectId, DOC, 'olle', block, { start: 0, end: 0 }, 'Fint!');
+
+    // A commenter can resolve their own thread, but not others'
+    const elsasThread = await service.createThread(projectId, DOC, 'elsa', block, { start: 13, end: 17 }, 'Varm?');
+    await expect(service.resolve(projectId, elsasThread.id, 'olle')).rejects.toThrow('Insufficient permissions to resolve');
+    expect((await service.resolve(projectId, thread.id, 'olle')).status).toBe('resolved');
+    expect((await service.resolve(projectId, elsasThread.id, 'mormor')).resolved_by).toBe('mormor');
+    expect((await service.reopen(projectId, elsasThread.id, 'elsa')).status).toBe('open');
+
+    const project = await projects.getProjectById(projectId);
+    project!.settings.collaboration.allow_comments = false;
+    await expect(service.reply(projectId, elsasThread.id, 'elsa', 'Hallå?')).rejects.toThrow('Comments are turned off');
+    expect(await service.listThreads(projectId, DOC, 'elsa')).toHaveLength(2);
+
+    project!.settings.collaboration.allow_comments = true;
+    project!.settings.notifications.comments = false;
+    await service.reply(projectId, elsasThread.id, 'olle', '@Elsa ja!');
+    expect(events.filter(event => event.type === 'comment.mentioned')).toHaveLength(0);
+  });
+
+  it('should only reach threads through the project of their document', async () => {
+    const thread = await service.createThread(projectId, DOC, 'elsa', block, { start: 13, end: 17 }, 'Varm?');
+    expect(thread.project_id).toBe(projectId);
+
+    // The owner of another project has every comment permission there
+    const other = (await projects.createProject('granne', { name: 'Grannens bok', type: 'memory_book' })).id;
+    await expect(service.listThreads(other, DOC, 'granne')).rejects.toThrow(`Document ${DOC} does not belong to project ${other}`);
+    await expect(service.createThread(other, DOC, 'granne', block, { start: 0, end: 0 }, 'Hej!'))
+      .rejects.toBeInstanceOf(CommentPermissionError);
+    await expect(service.reply(other, thread.id, 'granne', 'Hej!'))
+      .rejects.toThrow(`Comment thread ${thread.id} does not belong to project ${other}`);
+    await expect(service.resolve(other, thread.id, 'granne')).rejects.toBeInstanceOf(CommentPermissionError);
+    await expect(service.reopen(other, thread.id, 'granne')).rejects.toBeInstanceOf(CommentPermissionError);
+
+    const stored = await memory.getCommentThread(thread.id);
+    expect(stored).toMatchObject({ status: 'open', comments: [{ text: 'Varm?' }] });
+  });
+
+  it('should move stored anchors with saved edits and export threads with the document', async () => {
+    const thread = await service.createThread(projectId, DOC, 'elsa', block, { start: 13, end: 17 }, 'Hur varm?');
+
+    const edited = [textBlock('p1', 'Sommaren 1995 var varm.')];
+    await service.rebaseThreads(DOC, [block], edited);
+    const stored = await memory.getCommentThread(thread.id);
+    expect(edited[0].content.text.substring(stored!.anchor.start, stored!.anchor.end)).toBe('varm');
+
+    const document: UIStateTree = {
+      metadata: { title: 'Sommar', id: DOC, created_at: AT, updated_at: AT, author: 'mormor', version: 2 },
+      blocks: edited
+    };
+    const exported = await service.exportDocument(projectId, document, 'stina');
+    expect(exported.comments!.map(t => t.id)).toEqual([thread.id]);
+    expect(JSON.parse(JSON.stringify(exported)).comments[0].anchor.quote).toBe('varm');
+
+    const outsider = await service.exportDocument(projectId, { ...document, comments: exported.comments }, 'granne');
+    expect(outsider.comments).toBeUndefined();
+    expect(outsider.blocks).toEqual(edited);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Tests for the co-editing CRDT document
+ * Replicas that apply the same operations in any order hold the same blocks
+ */
+
+import { describe, it, expect } from 'vitest';
+import { CrdtDocument, positionBetween } from '../../lib/collaboration/crdt-document';
+import { CrdtOperation } from '../../types/collaboration';
+import { ContentBlock, TextBlock, TrackedChange } from '../../types/editor';
+
+const AT = new Date('2030-05-01T12:00:00Z');
+
+function textBlock(id: string, text: string): TextBlock {
+  return { id, type: 'text', created_at: AT, updated_at: AT, content: { text, formatting: {} } };
+}
+
+function texts(blocks: ContentBlock[]): string[] {
+  return blocks.map(block => (block.content as { text: string }).text);
+}
+
+/** Two replicas that start from the same stored blocks */
+function replicas(blocks: ContentBlock[]): [CrdtDocument, CrdtDocument] {
+  const seed = CrdtDocument.seedOperations(blocks);
+  const a = new CrdtDocument('alice');
+  const b = new CrdtDocument('bob');
+  a.apply(seed);
+  b.apply(seed);
+  return [a, b];
+}
+
+describe('CrdtDocument', () => {
+  it('should merge concurrent typing in the same paragraph', () => {
+    const [alice, bob] = replicas([textBlock('p1', 'Vi åkte till sjön.')]);
+
+    const fromAlice = alice.updateBlock(textBlock('p1', 'Vi åkte till sjön i juli.'));
+    const fromBob = bob.updateBlock(textBlock('p1', 'Sen åkte vi till sjön.'));
+
+    alice.apply(fromBob);
+    bob.apply(fromAlice);
+
+    expect(texts(alice.getBlocks())).toEqual(['Sen åkte vi till sjön i juli.']);
+    expect(bob.getBlocks()).toEqual(alice.getBlocks());
+  });
+
+  it('should order concurrent inserts at the same place the same way everywhere', () => {
+    const [alice, bob] = replicas([textBlock('p1', 'Början'), textBlock('p2', 'Slut')]);
+
+    const fromAlice = alice.insertBlock(textBlock('a1', 'Alice mitt'), 1);
+    const fromBob = bob.insertBlock(textBlock('b1', 'Bob mitt'), 1);
+
+    alice.apply(fromBob);
+    bob.apply(fromAlice);
+
+    const ids = alice.getBlocks().map(block => block.id);
+    expect(ids[0]).toBe('p1');
+    expect(ids[3]).toBe('p2');
+    expect(ids.slice(1, 3).sort()).toEqual(['a1', 'b1']);
+    expect(bob.getBlocks().map(block => block.id)).toEqual(ids);
+  });
+
+  it('should let a removal win over a concurrent edit and keep moves', () => {
+    const [alice, bob] = replicas([textBlock('p1', 'Ett'), textBlock('p2', 'Två'), textBlock('p3', 'Tre')]);
+
+    const fromAlice = [...alice.deleteBlock('p2'), ...alice.moveBlock('p3', 0)];
+    const fromBob = bob.updateBlock(textBlock('p2', 'Två och en halv'));
+
+    alice.apply(fromBob);
+    bob.apply(fromAlice);
+
+    expect(texts(alice.getBlocks())).toEqual(['Tre', 'Ett']);
+    expect(bob.getBlocks()).toEqual(alice.getBlocks());
+    expect(bob.updateBlock(textBlock('p2', 'Igen'))).toEqual([]);
+  });
+
+  it('should wait for operations that arrive before what they build on', () => {
+    const source = new CrdtDocument('alice');
+    const ops: CrdtOperation[] = [
+      ...source.insertBlock(textBlock('p1', 'Hej'), 0),
+      ...source.updateBlock(textBlock('p1', 'Hej då'))
+    ];
+
+    const target = new CrdtDocument('bob');
+    expect(target.apply(ops.slice().reverse())).toEqual(['p1']);
+    expect(target.apply(ops)).toEqual([]);
+    expect(texts(target.getBlocks())).toEqual(['Hej då']);
+  });
+
+  it('should set block fields last writer wins and keep other fields', () => {
+    const heading: ContentBlock = { id: 'h1', type: 'heading', created_at: AT, updated_at: AT, content: { text: 'Sommar', level: 1 } };
+    const [alice, bob] = replicas([heading]);
+
+    const first = alice.updateBlock({ ...heading, content: { text: 'Sommar', level: 2 } });
+    const second = bob.updateBlock({ ...heading, content: { text: 'Sommaren', level: 3 } });
+
+    alice.apply(second);
+    bob.apply(first);
+
+    expect(alice.getBlock('h1')!.content).toEqual({ text: 'Sommaren', level: 3 });
+    expect(bob.getBlock('h1')).toEqual(alice.getBlock('h1'));
+    expect(alice.getBlock('h1')!.created_at).toEqual(AT);
+  });
+
+  it('should share tracked changes and keep settled ones settled', () => {
+    const [alice, bob] = replicas([textBlock('p1', 'Sommar')]);
+    const change: TrackedChange = {
+      id: 'change-1',
+      block_id: 'p1',
+      type: 'modification',
+      author: { user_id: 'alice', display_name: 'Alice' },
+      before: textBlock('p1', 'Sommar'),
+      after: textBlock('p1', 'Sommaren'),
+      created_at: AT,
+      updated_at: AT
+    };
+
+    const recorded = alice.setTrackedChange(change);
+    expect(bob.apply(recorded)).toEqual([]);
+    expect(bob.getTrackedChanges()).toEqual([change]);
+    expect(bob.setTrackedChange(change)).toEqual([]);
+
+    // Bob accepts the change while Alice keeps editing it
+    const settled = bob.settleTrackedChange('change-1');
+    const edited = alice.setTrackedChange({ ...change, after: textBlock('p1', 'Sommaren lång') });
+    alice.apply(settled);
+    bob.apply(edited);
+
+    expect(alice.getTrackedChanges()).toEqual([]);
+    expect(bob.getTrackedChanges()).toEqual([]);
+    expect(alice.setTrackedChange(change)).toEqual([]);
+  });
+
+  it('should generate position keys strictly between their neighbours', () => {
+    const first = positionBetween(null, null);
+    const after = positionBetween(first, null);
+    const before = positionBetween(null, first);
+    const middle = positionBetween(first, after);
+    const tight = positionBetween('a', 'b');
+
+    expect(before < first && first < middle && middle < after).toBe(true);
+    expect('a' < tight && tight < 'b').toBe(true);
+  });
+});
@@ -0,0 +1,323 @@
+// @vitest-environment node
+/**
+ * Tests for guest invitation links
+ * Signed links create scoped guest access whose restrictions are enforced,
+ * audited and revocable by the host
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  CollaborationService,
+  GuestAccessDeniedError,
+  GuestLinkError
+} from '../../services/collaboration-service';
+import { MemoryAssistantImpl } from '../../lib/memory/memory-assistant';
+import { EmbeddedGraphStore } from '../../lib/memory/embedded-graph-store';
+import { SemanticRAG } from '../../lib/memory/semantic-rag';
+import { CognitiveAgentImpl } from '../../lib/cognitive-agent';
+import { ResourceGovernorImpl } from '../../lib/resource-governor';
+import { DomainEventBus } from '../../lib/events/domain-event-bus';
+import { GuestLinkSigner } from '../../lib/collaboration/guest-link-signer';
+import { ProjectRepository } from '../../lib/data/project-repository';
+import { AccessibleResource, CollaborativeSession } from '../../types/collaboration';
+import { PrivacyLevel, ReflectionEntry } from '../../types/chronicler';
+import { ConfigurationProfile, ContextThread } from '../../types';
+
+const profile: ConfigurationProfile = {
+  llm_model: 'gpt-4',
+  toolkit: ['collaboration'],
+  memory_scope: 'user:mormor',
+  entry_phase: 'EMERGE'
+};
+
+const thread: ContextThread = {
+  id: 'thread-guests',
+  top_level_goal: 'Share memories',
+  task_definition: 'Share memories',
+  configuration_profile: profile,
+  memory_scope: profile.memory_scope,
+  resource_budget: { max_llm_calls: 10, max_compute_units: 100, max_storage_bytes: 1024 * 1024, max_execution_time: 30000 },
+  recursion_depth: 0,
+  workspace_branch: 'main',
+  created_at: new Date(),
+  updated_at: new Date()
+};
+
+const SUMMER: AccessibleResource = {
+  resource_id: 'reflection-sommar',
+  resource_type: 'reflection',
+  access_level: 'read',
+  permissions: ['view_content']
+};
+
+const DIARY: AccessibleResource = {
+  resource_id: 'reflection-dagbok',
+  resource_type: 'reflection',
+  access_level: 'read',
+  permissions: ['view_content']
+};
+
+const TABLET = { ip_address: '203.0.113.7', device_id: 'surfplatta-1' };
+
+function reflection(id: string, privacyLevel: PrivacyLevel): ReflectionEntry {
+  return {
+    id,
+    user_id: 'mormor',
+    title: id,
+    content: {
+      text: 'Sommaren på landet',
+      blocks: [],
+      metadata: { word_count: 3, reading_time_minutes: 1, dominant_emotions: [], themes: [], language: 'sv' }
+    },
+    emotional_context: { fight: 0.1, flight: 0.1, fixes: 0.8, confidence: 0.9, timestamp: new Date() },
+    privacy_level: privacyLevel,
+    assets: [],
+    tags: [],
+    shareable: privacyLevel === 'shareable',
+    created_at: new Date(),
+    updated_at: new Date(),
+    status: 'saved'
+  };
+}
+
+function session(): CollaborativeSession {
+  return {
+    id: 'sommar',
+    resource_id: 'reflection-sommar',
+    resource_type: 'reflection',
+    host_user_id: 'mormor',
+    participants: [{
+      user_id: 'elsa',
+      display_name: 'Elsa',
+      permission_level: 'editor',
+      joined_at: new Date(),
+      last_seen_at: new Date(),
+      status: 'active'
+    }],
+    block_locks: [],
+    status: 'active',
+    started_at: new Date(),
+    last_activity_at: new Date(),
+    metadata: {
+      settings: {
+        allow_anonymous: true,
+        require_approval: false,
+        auto_save_interval: 30,
+        lock_timeout: 300,
+        max_participants: 10
+      },
+      activity_log: []
+    }
+  };
+}
+
+/** A moment some hours from now */
+function hoursFromNow(hours: number): Date {
+  return new Date(Date.now() + hours * 60 * 60 * 1000);
+}
+
+describe('Guest invitation links', () => {
+  let memory: MemoryAssistantImpl;
+  let projects: ProjectRepository;
+  let service: CollaborationService;
+
+  beforeEach(async () => {
+    memory = new MemoryAssistantImpl(new EmbeddedGraphStore(), new SemanticRAG());
+    projects = new ProjectRepository(new DomainEventBus());
+    service = new CollaborationService(
+      memory,
+      new CognitiveAgentImpl('Conscious', profile, thread),
+      new ResourceGovernorImpl(),
+      new DomainEventBus(),
+      new GuestLinkSigner(() => 'hemlig-nyckel'),
+      projects
+    );
+    await memory.saveCollaborativeSession(session());
+    await memory.saveReflection(reflection('reflection-sommar', 'shareable'));
+    await memory.saveReflection(reflection('reflection-dagbok', 'private'));
+  });
+
+  it('should let a guest in through a signed link once and audit what they open', async () => {
+    const { link, token } = await service.createGuestInvitationLink('mormor', 'sommar', [SUMMER], {
+      label: 'Barnbarnen',
+      access_duration_hours: 2
+    });
+    expect(link.max_uses).toBe(1);
+
+    const access = await service.redeemGuestInvitationLink(token, TABLET);
+    expect(access.guest_user_id).toMatch(/^guest_[0-9a-f]{24}$/);
+    expect(access.host_user_id).toBe('mormor');
+    expect(access.invitation_link_id).toBe(link.id);
+    expect(access.expires_at.getTime() - access.granted_at.getTime()).toBe(2 * 60 * 60 * 1000);
+    expect(access.restrictions.find(r => r.type === 'device_binding')!.parameters).toEqual({ device_id: 'surfplatta-1' });
+
+    await expect(service.redeemGuestInvitationLink(token, TABLET)).rejects.toThrow('Invitation link has already been used');
+
+    const entry = await service.openGuestResource(access.guest_user_id, 'reflection-sommar', 'read', TABLET);
+    expect(entry.outcome).toBe('allowed');
+    await expect(service.openGuestResource(access.guest_user_id, 'reflection-sommar', 'write', TABLET))
+      .rejects.toThrow('Resource reflection-sommar is shared read-only');
+
+    const audit = await service.getGuestAccessAudit('mormor', access.id);
+    expect(audit.map(e => [e.resource_id, e.access_type, e.outcome])).toEqual([
+      ['reflection-sommar', 'read', 'allowed'],
+      ['reflection-sommar', 'write', 'denied']
+    ]);
+    expect(audit[0].device_id).toBe('surfplatta-1');
+    expect(await service.getGuestAccessAudit('elsa', access.id)).toEqual([]);
+
+    const stored = await memory.getGuestInvitationLink(link.id);
+    expect(stored!.use_count).toBe(1);
+    expect(stored!.redemptions[0]).toMatchObject({ guest_user_id: access.guest_user_id, ip_address: '203.0.113.7' });
+    expect((await memory.getGuestAccessControl(access.guest_user_id))!.access_count).toBe(1);
+  });
+
+  it('should reject forged, expired and unbindable links', async () => {
+    const { token } = await service.createGuestInvitationLink('mormor', 'sommar', [SUMMER], { link_ttl_hours: 1 });
+
+    const [linkId, expiry, signature] = token.split('.');
+    const extended = `${linkId}.${parseInt(expiry, 10) + 86400}.${signature}`;
+    await expect(service.redeemGuestInvitationLink(extended, TABLET)).rejects.toThrow(GuestLinkError);
+    await expect(service.redeemGuestInvitationLink('not-a-token', TABLET)).rejects.toThrow('Invitation link is not valid');
+
+    const otherKey = new CollaborationService(
+      memory,
+      new CognitiveAgentImpl('Conscious', profile, thread),
+      new ResourceGovernorImpl(),
+      new DomainEventBus(),
+      new GuestLinkSigner(() => 'annan-nyckel')
+    );
+    await expect(otherKey.redeemGuestInvitationLink(token, TABLET)).rejects.toThrow('Invitation link is not valid');
+
+    await expect(service.redeemGuestInvitationLink(token, TABLET, hoursFromNow(2))).rejects.toThrow('Invitation link has expired');
+    await expect(service.redeemGuestInvitationLink(token, { ip_address: '203.0.113.7' }))
+      .rejects.toThrow('Invitation link must be opened on a device that identifies itself');
+
+    // The refused attempts did not use the link up
+    await expect(service.redeemGuestInvitationLink(token, TABLET)).resolves.toMatchObject({ host_user_id: 'mormor' });
+  });
+
+  it('should enforce every restriction type at its enforcement level', async () => {
+    const { token } = await service.createGuestInvitationLink('mormor', 'sommar', [SUMMER, DIARY], {
+      max_uses: 2,
+      access_duration_hours: 96,
+      restrictions: [
+        { type: 'ip_address', description: 'Home network', parameters: { bind_on_redeem: true }, enforcement: 'warning' },
+        { type: 'device_binding', description: 'First device', parameters: { bind_on_redeem: true }, enforcement: 'strict' },
+        { type: 'content_filter', description: 'No private or health content', parameters: { exclude_private: true, exclude_tags: ['hälsa'] }, enforcement: 'strict' },
+        { type: 'usage_quota', description: 'Two visits', parameters: { max_accesses: 2 }, enforcement: 'strict' },
+        { type: 'time_window', description: 'Christmas week', parameters: { not_after: hoursFromNow(48) }, enforcement: 'strict' }
+      ]
+    });
+    const access = await service.redeemGuestInvitationLink(token, TABLET);
+    const guest = access.guest_user_id;
+
+    // Another device is refused outright
+    await expect(service.openGuestResource(guest, 'reflection-sommar', 'read', { ...TABLET, device_id: 'telefon' }))
+      .rejects.toThrow('Access is bound to another device');
+
+    // Private and excluded content is filtered
+    expect(await service.verifyGuestAccess(guest, 'reflection-dagbok', 'read', TABLET)).toBe(false);
+    expect(await service.verifyGuestAccess(guest, 'reflection-sommar', 'read', { ...TABLET, tags: ['hälsa'] })).toBe(false);
+
+    // A new address only warns
+    const roaming = await service.openGuestResource(guest, 'reflection-sommar', 'read', { ...TABLET, ip_address: '198.51.100.2' });
+    expect(roaming.outcome).toBe('allowed');
+    expect(roaming.violations).toEqual([
+      { type: 'ip_address', enforcement: 'warning', reason: 'Address 198.51.100.2 is not allowed' }
+    ]);
+
+    await service.openGuestResource(guest, 'reflection-sommar', 'read', TABLET);
+    const overQuota = service.openGuestResource(guest, 'reflection-sommar', 'read', TABLET);
+    await expect(overQuota).rejects.toBeInstanceOf(GuestAccessDeniedError);
+    await expect(overQuota).rejects.toThrow('Access limit of 2 reached');
+
+    // The second guest of the link is outside the window after it closes
+    const late = await service.redeemGuestInvitationLink(token, { ...TABLET, device_id: 'dator' });
+    await expect(service.openGuestResource(late.guest_user_id, 'reflection-sommar', 'read', { ...TABLET, device_id: 'dator' }, hoursFromNow(72)))
+      .rejects.toThrow('Access window has ended');
+    expect(await service.verifyGuestAccess(late.guest_user_id, 'reflection-sommar', 'read', { ...TABLET, device_id: 'dator' })).toBe(true);
+  });
+
+  it('should look up the privacy of shared content and refuse it when unknown', async () => {
+    const project = await projects.createProject('mormor', { name: 'Sommarboken', type: 'memory_book' });
+    const shared: AccessibleResource[] = [
+      SUMMER,
+      DIARY,
+      { resource_id: project.id, resource_type: 'project', access_level: 'read', permissions: ['view_content'] },
+      { resource_id: 'sida-1', resource_type: 'page', access_level: 'read', permissions: ['view_content'] },
+      { resource_id: 'reflection-borta', resource_type: 'reflection', access_level: 'read', permissions: ['view_content'] }
+    ];
+    const { token } = await service.createGuestInvitationLink('mormor', 'sommar', shared);
+    const guest = (await service.redeemGuestInvitationLink(token, TABLET)).guest_user_id;
+
+    expect(await service.verifyGuestAccess(guest, 'reflection-sommar', 'read', TABLET)).toBe(true);
+    expect(await service.verifyGuestAccess(guest, 'reflection-dagbok', 'read', TABLET)).toBe(false);
+    expect(await service.verifyGuestAccess(guest, 'sida-1', 'read', TABLET)).toBe(false);
+    await expect(service.openGuestResource(guest, 'reflection-borta', 'read', TABLET))
+      .rejects.toThrow('Content of unknown privacy is not shared with guests');
+
+    // A project is as private as its view access, only its owner by default
+    expect(await service.verifyGuestAccess(guest, project.id, 'read', TABLET)).toBe(false);
+    project.settings.visibility.view_access = 'collaborators';
+    expect(await service.verifyGuestAccess(guest, project.id, 'read', TABLET)).toBe(true);
+  });
+
+  it('should not let concurrent redemptions use a link more often than it allows', async () => {
+    const { link, token } = await service.createGuestInvitationLink('mormor', 'sommar', [SUMMER], { max_uses: 2 });
+
+    // A slow store keeps each redemption busy while the others arrive
+    const saveAccess = memory.saveGuestAccessControl.bind(memory);
+    vi.spyOn(memory, 'saveGuestAccessControl').mockImplementation(async (accessControl, scope) => {
+      await new Promise(resolve => setTimeout(resolve, 20));
+      return saveAccess(accessControl, scope);
+    });
+
+    const attempts = await Promise.allSettled([
+      service.redeemGuestInvitationLink(token, TABLET),
+      service.redeemGuestInvitationLink(token, { ...TABLET, device_id: 'telefon' }),
+      service.redeemGuestInvitationLink(token, { ...TABLET, device_id: 'dator' })
+    ]);
+
+    expect(attempts.filter(attempt => attempt.status === 'fulfilled')).toHaveLength(2);
+    const refused = attempts.find(attempt => attempt.status === 'rejected') as PromiseRejectedResult;
+    expect(refused.reason).toBeInstanceOf(GuestLinkError);
+    expect(refused.reason.message).toBe('Invitation link has already been used');
+
+    const stored = await memory.getGuestInvitationLink(link.id);
+    expect(stored!.use_count).toBe(2);
+    expect(stored!.redemptions).toHaveLength(2);
+  });
+
+  it('should let the host revoke every guest access and link at once', async () => {
+    const first = await service.createGuestInvitationLink('mormor', 'sommar', [SUMMER]);
+    const second = await service.createGuestInvitationLink('mormor', 'sommar', [SUMMER]);
+    const access = await service.redeemGuestInvitationLink(first.token, TABLET);
+    await service.setupGuestAccess('olle', 'mormor', 'sommar', [SUMMER]);
+
+    expect(await service.revokeAllGuestAccess('mormor')).toEqual({ access_controls: 2, links: 2 });
+    expect(await service.revokeAllGuestAccess('mormor')).toEqual({ access_controls: 0, links: 0 });
+
+    await expect(service.openGuestResource(access.guest_user_id, 'reflection-sommar', 'read', TABLET))
+      .rejects.toThrow('Access has been revoked');
+    expect(await service.verifyGuestAccess('olle', 'reflection-sommar', 'read')).toBe(false);
+    await expect(service.redeemGuestInvitationLink(second.token, TABLET)).rejects.toThrow('Invitation link has been revoked');
+  });
+
+  it('should only let the host or an admin share links', async () => {
+    await expect(service.createGuestInvitationLink('elsa', 'sommar', [SUMMER]))
+      .rejects.toThrow('Insufficient permissions to invite guests to this session');
+    await expect(service.createGuestInvitationLink('mormor', 'sommar', [SUMMER], { max_uses: 0 }))
+      .rejects.toThrow('An invitation link must allow at least one use');
+
+    const unconfigured = new CollaborationService(
+      memory,
+      new CognitiveAgentImpl('Conscious', profile, thread),
+      new ResourceGovernorImpl(),
+      new DomainEventBus(),
+      new GuestLinkSigner(() => undefined)
+    );
+    await expect(unconfigured.createGuestInvitationLink('mormor', 'sommar', [SUMMER]))
+      .rejects.toThrow('GUEST_LINK_SECRET is not configured');
+  });
+});
@@ -0,0 +1,271 @@
+// @vitest-environment node
+/**
+ * Tests for block lock leases
+ * Locks are renewed while typing, can be taken over after a grace period or
+ * at once by a higher-ranked user, and expire through the sweeper
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { CollaborationService } from '../../services/collaboration-service';
+import { MemoryAssistantImpl } from '../../lib/memory/memory-assistant';
+import { EmbeddedGraphStore } from '../../lib/memory/embedded-graph-store';
+import { SemanticRAG } from '../../lib/memory/semantic-rag';
+import { CognitiveAgentImpl } from '../../lib/cognitive-agent';
+import { ResourceGovernorImpl } from '../../lib/resource-governor';
+import { DomainEventBus } from '../../lib/events/domain-event-bus';
+import { AnyDomainEvent } from '../../types/domain-events';
+import { CollaborativeSession, PermissionLevel, SessionParticipant } from '../../types/collaboration';
+import { ConfigurationProfile, ContextThread } from '../../types';
+
+const profile: ConfigurationProfile = {
+  llm_model: 'gpt-4',
+  toolkit: ['collaboration'],
+  memory_scope: 'user:mormor',
+  entry_phase: 'EMERGE'
+};
+
+const thread: ContextThread = {
+  id: 'thread-locks',
+  top_level_goal: 'Write together',
+  task_definition: 'Write together',
+  configuration_profile: profile,
+  memory_scope: profile.memory_scope,
+  resource_budget: { max_llm_calls: 10, max_compute_units: 100, max_storage_bytes: 1024 * 1024, max_execution_time: 30000 },
+  recursion_depth: 0,
+  workspace_branch: 'main',
+  created_at: new Date(),
+  updated_at: new Date()
+};
+
+function participant(userId: string, level: PermissionLevel): SessionParticipant {
+  return {
+    user_id: userId,
+    display_name: userId,
+    permission_level: level,
+    joined_at: new Date(),
+    last_seen_at: new Date(),
+    status: 'active'
+  };
+}
+
+function session(id: string): CollaborativeSession {
+  return {
+    id,
+    resource_id: `reflection-${id}`,
+    resource_type: 'reflection',
+    host_user_id: 'mormor',
+    participants: [
+      participant('mormor', 'admin'),
+      participant('elsa', 'editor'),
+      participant('olle', 'editor'),
+      participant('stina', 'editor'),
+      participant('kalle', 'viewer')
+    ],
+    block_locks: [],
+    status: 'active',
+    started_at: new Date(),
+    last_activity_at: new Date(),
+    metadata: {
+      settings: {
+        allow_anonymous: false,
+        require_approval: true,
+        auto_save_interval: 30,
+        lock_timeout: 300,
+        takeover_grace_period: 30,
+        max_participants: 10
+      },
+      activity_log: []
+    }
+  };
+}
+
+/** A moment some seconds from now */
+function later(seconds: number): Date {
+  return new Date(Date.now() + seconds * 1000);
+}
+
+describe('Block lock leases', () => {
+  let memory: MemoryAssistantImpl;
+  let service: CollaborationService;
+  let events: AnyDomainEvent[];
+
+  beforeEach(async () => {
+    memory = new MemoryAssistantImpl(new EmbeddedGraphStore(), new SemanticRAG());
+    const bus = new DomainEventBus();
+    events = [];
+    bus.subscribeAll(event => {
+      events.push(event);
+    });
+    service = new CollaborationService(
+      memory,
+      new CognitiveAgentImpl('Conscious', profile, thread),
+      new ResourceGovernorImpl(),
+      bus
+    );
+    await memory.saveCollaborativeSession(session('sommar'));
+  });
+
+  afterEach(() => {
+    service.stopLockSweeper();
+  });
+
+  it('should extend the lease while the holder keeps typing', async () => {
+    const lock = await service.acquireBlockLock('sommar', 'elsa', 'p1');
+
+    // Early in the lease nothing needs to be written
+    const early = await service.renewBlockLock('sommar', 'elsa', 'p1', later(10));
+    expect(early.expires_at).toEqual(lock.expires_at);
+    expect(early.renewed_at).toBeUndefined();
+
+    const renewAt = later(200);
+    const renewed = await service.renewBlockLock('sommar', 'elsa', 'p1', renewAt);
+    expect(renewed.expires_at).toEqual(new Date(renewAt.getTime() + 300 * 1000));
+    expect(renewed.renewed_at).toEqual(renewAt);
+
+    const stored = await memory.getCollaborativeSession('sommar');
+    expect(stored!.block_locks).toEqual([renewed]);
+
+    await expect(service.renewBlockLock('sommar', 'olle', 'p1')).rejects.toThrow('Block p1 is not locked by user olle');
+  });
+
+  it('should notify the holder and hand the lock over after the grace period', async () => {
+    await service.acquireBlockLock('sommar', 'elsa', 'p1');
+
+    const requestedAt = later(5);
+    const request = await service.requestLockTakeover('sommar', 'olle', 'p1', requestedAt);
+    expect(request.status).toBe('pending');
+    expect(request.lock.user_id).toBe('elsa');
+    expect(request.lock.takeover).toEqual({
+      requested_by: 'olle',
+      requested_at: requestedAt,
+      grant_at: new Date(requestedAt.getTime() + 30 * 1000)
+    });
+
+    const notice = events.find(event => event.type === 'collaboration.lock_takeover_requested');
+    expect(notice).toMatchObject({ payload: { session_id: 'sommar', lock: { user_id: 'elsa', block_id: 'p1' } } });
+
+    // The holder keeps the block during the grace period, even by locking it again
+    await expect(service.acquireBlockLock('sommar', 'olle', 'p1')).rejects.toThrow('already locked by another user');
+    const relocked = await service.acquireBlockLock('sommar', 'elsa', 'p1');
+    expect(relocked.takeover!.requested_by).toBe('olle');
+    await expect(service.requestLockTakeover('sommar', 'stina', 'p1', later(6)))
+      .rejects.toThrow('Block p1 already has a pending takeover request');
+
+    const granted = await service.requestLockTakeover('sommar', 'olle', 'p1', later(40));
+    expect(granted.status).toBe('granted');
+    expect(granted.lock.user_id).toBe('olle');
+    expect(granted.lock.takeover).toBeUndefined();
+
+    const handover = events.find(event => event.type === 'collaboration.lock_taken_over');
+    expect(handover).toMatchObject({ payload: { previous_holder_id: 'elsa', forced: true, lock: { user_id: 'olle' } } });
+
+    const stored = await memory.getCollaborativeSession('sommar');
+    const types = stored!.metadata.activity_log.map(activity => activity.type);
+    expect(types).toContain('takeover_requested');
+    expect(types).toContain('lock_taken_over');
+  });
+
+  it('should give a released lock to the user waiting for it', async () => {
+    await service.acquireBlockLock('sommar', 'elsa', 'p1');
+    await service.requestLockTakeover('sommar', 'olle', 'p1');
+
+    await service.releaseBlockLock('sommar', 'elsa', 'p1');
+
+    const stored = await memory.getCollaborativeSession('sommar');
+    expect(stored!.block_locks.map(lock => lock.user_id)).toEqual(['olle']);
+    const handover = events.find(event => event.type === 'collaboration.lock_taken_over');
+    expect(handover).toMatchObject({ payload: { previous_holder_id: 'elsa', forced: false } });
+  });
+
+  it('should let the host break a guest lock but not the other way round', async () => {
+    await service.acquireBlockLock('sommar', 'elsa', 'p1');
+    await service.acquireBlockLock('sommar', 'mormor', 'p2');
+
+    const broken = await service.requestLockTakeover('sommar', 'mormor', 'p1');
+    expect(broken.status).toBe('granted');
+    expect(broken.lock.user_id).toBe('mormor');
+
+    const asked = await service.requestLockTakeover('sommar', 'elsa', 'p2');
+    expect(asked.status).toBe('pending');
+    expect(asked.lock.user_id).toBe('mormor');
+  });
+
+  it('should refuse takeovers from users who may not edit', async () => {
+    await service.acquireBlockLock('sommar', 'elsa', 'p1');
+
+    await expect(service.requestLockTakeover('sommar', 'kalle', 'p1')).rejects.toThrow('User kalle may not edit block p1');
+    await expect(service.requestLockTakeover('sommar', 'mormor-gast', 'p2')).rejects.toThrow(
+      'User mormor-gast may not edit block p2'
+    );
+
+    const stored = await memory.getCollaborativeSession('sommar');
+    expect(stored!.block_locks.map(lock => [lock.block_id, lock.user_id, lock.takeover])).toEqual([['p1', 'elsa', undefined]]);
+  });
+
+  it('should keep lock changes made while a sweep runs', async () => {
+    const stored = await memory.getCollaborativeSession('sommar');
+    stored!.block_locks = [
+      { block_id: 'p1', user_id: 'elsa', type: 'editing', acquired_at: new Date(), expires_at: new Date(Date.now() + 20 * 1000) }
+    ];
+    await memory.saveCollaborativeSession(stored!);
+
+    await Promise.all([
+      service.sweepExpiredLocks(later(60)),
+      service.acquireBlockLock('sommar', 'olle', 'p2'),
+      service.acquireBlockLock('sommar', 'stina', 'p3')
+    ]);
+
+    const swept = await memory.getCollaborativeSession('sommar');
+    expect(swept!.block_locks.map(lock => [lock.block_id, lock.user_id]).sort()).toEqual([['p2', 'olle'], ['p3', 'stina']]);
+  });
+
+  it('should sweep expired locks and due takeovers in active sessions', async () => {
+    const winter = session('vinter');
+    winter.block_locks = [
+      { block_id: 'p1', user_id: 'elsa', type: 'editing', acquired_at: new Date(), expires_at: later(20) },
+      { block_id: 'p2', user_id: 'olle', type: 'editing', acquired_at: new Date(), expires_at: later(600) },
+      {
+        block_id: 'p3',
+        user_id: 'olle',
+        type: 'editing',
+        acquired_at: new Date(),
+        expires_at: later(600),
+        takeover: { requested_by: 'elsa', requested_at: new Date(), grant_at: later(30) }
+      }
+    ];
+    await memory.saveCollaborativeSession(winter);
+
+    const ended = session('host');
+    ended.status = 'ended';
+    ended.block_locks = [{ block_id: 'p1', user_id: 'elsa', type: 'editing', acquired_at: new Date(), expires_at: later(20) }];
+    await memory.saveCollaborativeSession(ended);
+
+    const result = await service.sweepExpiredLocks(later(60));
+    expect(result.sessions_checked).toBe(2);
+    expect(result.expired.map(entry => [entry.session_id, entry.lock.block_id])).toEqual([['vinter', 'p1']]);
+    expect(result.taken_over.map(entry => [entry.session_id, entry.lock.block_id, entry.lock.user_id])).toEqual([
+      ['vinter', 'p3', 'elsa']
+    ]);
+
+    const stored = await memory.getCollaborativeSession('vinter');
+    expect(stored!.block_locks.map(lock => [lock.block_id, lock.user_id])).toEqual([['p2', 'olle'], ['p3', 'elsa']]);
+    expect(stored!.metadata.activity_log.find(activity => activity.type === 'lock_expired')).toMatchObject({
+      user_id: 'elsa',
+      metadata: { block_id: 'p1' }
+    });
+    expect(events.filter(event => event.type === 'collaboration.lock_expired')).toHaveLength(1);
+
+    // Nothing is left to do on the next sweep
+    const again = await service.sweepExpiredLocks(later(61));
+    expect(again.expired).toHaveLength(0);
+    expect(again.taken_over).toHaveLength(0);
+
+    expect(await memory.getCollaborativeSessionByResource('reflection-vinter')).toMatchObject({ id: 'vinter' });
+    expect(await memory.getCollaborativeSessionByResource('reflection-host')).toBeNull();
+
+    service.startLockSweeper(60 * 1000);
+    expect(service.isLockSweeperRunning()).toBe(true);
+    service.stopLockSweeper();
+    expect(service.isLockSweeperRunning()).toBe(false);
+  });
+});
@@ -0,0 +1,386 @@
+// @vitest-environment node
+/**
+ * Tests for real-time co-editing
+ * Clients share a hub over the in-process transport; the WebSocket server is
+ * exercised over a real socket
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, Server } from 'http';
+import { connect as connectSocket, AddressInfo, Socket } from 'net';
+import { createHash } from 'crypto';
+import { CollaborationClient, CollaborationEvent } from '../../lib/collaboration/collaboration-client';
+import { CollaborationHub } from '../../lib/collaboration/collaboration-hub';
+import { InProcessTransport } from '../../lib/collaboration/collaboration-transport';
+import { DocumentAccess, ProjectDocumentAccess } from '../../lib/collaboration/document-access';
+import { ProjectRepository } from '../../lib/data/project-repository';
+import { DomainEventBus } from '../../lib/events/domain-event-bus';
+import { attachCollaborationServer } from '../../lib/collaboration/websocket-server';
+import { SESSION_COOKIE, SessionTokenService } from '../../lib/security/session-tokens';
+import { ContentBlock, TextBlock, TrackedChange } from '../../types/editor';
+import { CollaborationServerMessage } from '../../types/collaboration';
+
+const AT = new Date('2030-05-01T12:00:00Z');
+const DOC = 'doc-sommar';
+
+function textBlock(id: string, text: string): TextBlock {
+  return { id, type: 'text', created_at: AT, updated_at: AT, content: { text, formatting: {} } };
+}
+
+function texts(blocks: ContentBlock[]): string[] {
+  return blocks.map(block => (block.content as { text: string }).text);
+}
+
+/** Let queued deliveries run */
+function settle(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+describe('Real-time co-editing', () => {
+  let hub: CollaborationHub;
+  let clients: CollaborationClient[];
+
+  const client = (userId: string, blocks: ContentBlock[] = []) => {
+    const created = new CollaborationClient(DOC, userId, userId === 'alice' ? 'Alice' : 'Bob', {
+      transport: new InProcessTransport(hub),
+      initialBlocks: blocks,
+      reconnectDelay: 10
+    });
+    clients.push(created);
+    return created;
+  };
+
+  beforeEach(() => {
+    hub = new CollaborationHub();
+    clients = [];
+  });
+
+  afterEach(() => {
+    clients.forEach(each => each.disconnect());
+  });
+
+  it('should share edits between participants', async () => {
+    const alice = client('alice', [textBlock('p1', 'Sommaren var varm.')]);
+    const bob = client('bob', [textBlock('p1', 'Sommaren var varm.')]);
+    await alice.connect();
+    await bob.connect();
+
+    const updates: CollaborationEvent[] = [];
+    bob.on('block_updated', event => updates.push(event));
+
+    await alice.sendBlockUpdate('p1', textBlock('p1', 'Sommaren var varm och lång.'));
+    await alice.sendBlockInsert(textBlock('p2', 'Vi badade varje dag.'), 1);
+    await settle();
+
+    expect(texts(bob.getBlocks())).toEqual(['Sommaren var varm och lång.', 'Vi badade varje dag.']);
+    expect(updates[0]).toMatchObject({ userId: 'alice', data: { blockId: 'p1' } });
+    expect(alice.getPendingOperationCount()).toBe(0);
+    expect(texts(hub.getBlocks(DOC)!)).toEqual(texts(alice.getBlocks()));
+  });
+
+  it('should buffer offline edits and merge them on reconnect', async () => {
+    const alice = client('alice', [textBlock('p1', 'Vi åkte till sjön.')]);
+    const bob = client('bob');
+    await alice.connect();
+    await bob.connect();
+
+    bob.disconnect();
+    await bob.sendBlockUpdate('p1', textBlock('p1', 'Sen åkte vi till sjön.'));
+    await bob.sendBlockInsert(textBlock('p2', 'Skrivet på tåget.'), 1);
+    expect(bob.getPendingOperationCount()).toBeGreaterThan(0);
+
+    await alice.sendBlockUpdate('p1', textBlock('p1', 'Vi åkte till sjön i juli.'));
+    await settle();
+
+    const conflicts: CollaborationEvent[] = [];
+    bob.on('conflict_detected', event => conflicts.push(event));
+    await bob.connect();
+    await settle();
+
+    expect(texts(alice.getBlocks())).toEqual(['Sen åkte vi till sjön i juli.', 'Skrivet på tåget.']);
+    expect(bob.getBlocks()).toEqual(alice.getBlocks());
+    expect(bob.getPendingOperationCount()).toBe(0);
+
+    // Bob's paragraph changed under his unsent edit; he can put his version back
+    expect(conflicts).toHaveLength(1);
+    const [diff] = Array.from(bob.getState().pendingDiffs.values());
+    expect(diff.block_id).toBe('p1');
+    expect((diff.before!.content as { text: string }).text).toBe('Sen åkte vi till sjön.');
+
+    await bob.resolveConflict(diff.id, 'reject');
+    await settle();
+
+    expect(texts(alice.getBlocks())[0]).toBe('Sen åkte vi till sjön.');
+    expect(bob.getState().pendingDiffs.size).toBe(0);
+  });
+
+  it('should replay edits made before the first sync', async () => {
+    const alice = client('alice', [textBlock('p1', 'Början')]);
+    await alice.connect();
+
+    const bob = client('bob', [textBlock('p1', 'Början')]);
+    await bob.sendBlockInsert(textBlock('p2', 'Bobs rad'), 1);
+    await bob.connect();
+    await settle();
+
+    expect(texts(alice.getBlocks())).toEqual(['Början', 'Bobs rad']);
+  });
+
+  it('should share tracked changes and their review with every participant', async () => {
+    const alice = client('alice', [textBlock('p1', 'Sommar')]);
+    const bob = client('bob', [textBlock('p1', 'Sommar')]);
+    await alice.connect();
+    await bob.connect();
+
+    const shared: CollaborationEvent[] = [];
+    bob.on('tracked_changes_changed', event => shared.push(event));
+
+    const change: TrackedChange = {
+      id: 'change-1',
+      block_id: 'p1',
+      type: 'modification',
+      author: { user_id: 'alice', display_name: 'Alice' },
+      before: textBlock('p1', 'Sommar'),
+      after: textBlock('p1', 'Sommaren'),
+      created_at: AT,
+      updated_at: AT
+    };
+    await alice.sendBlockUpdate('p1', change.after!);
+    await alice.sendTrackedChange(change);
+    await settle();
+
+    expect(bob.getTrackedChanges()).toEqual([change]);
+    expect(shared[0]).toMatchObject({ userId: 'alice', data: { changes: [change] } });
+
+    // Bob rejects the change: the block goes back and the change is gone for Alice too
+    await bob.sendBlockUpdate('p1', change.before!);
+    await bob.settleTrackedChange('change-1');
+    await settle();
+
+    expect(alice.getTrackedChanges()).toEqual([]);
+    expect(texts(alice.getBlocks())).toEqual(['Sommar']);
+  });
+
+  it('should share cursors and treat block locks as hints', async () => {
+    const alice = client('alice', [textBlock('p1', 'Ett'), textBlock('p2', 'Två')]);
+    const bob = client('bob');
+    await alice.connect();
+    await bob.connect();
+
+    expect(await alice.requestBlockLock('p1')).toBe(true);
+    alice.updateCursor({ block_id: 'p1', offset: 2, updated_at: AT });
+    await settle();
+
+    expect(bob.isBlockLocked('p1')).toBe(true);
+    expect(bob.getBlockLocker('p1')).toBe('alice');
+    expect(await bob.requestBlockLock('p1')).toBe(false);
+    expect(await bob.requestBlockLock('p2')).toBe(true);
+
+    const aliceSeenByBob = bob.getState().users.get('alice')!;
+    expect(aliceSeenByBob.isOnline).toBe(true);
+    expect(aliceSeenByBob.cursor).toEqual({ block_id: 'p1', offset: 2, updated_at: AT });
+    expect(bob.getState().locks.get('p1')).toMatchObject({ userId: 'alice', userName: 'Alice' });
+
+    // The hint does not stop an edit; it still merges
+    await bob.sendBlockUpdate('p1', textBlock('p1', 'Ett!'));
+    await settle();
+    expect(texts(alice.getBlocks())[0]).toBe('Ett!');
+
+    const left: CollaborationEvent[] = [];
+    bob.on('user_left', event => left.push(event));
+    alice.disconnect();
+    await settle();
+
+    expect(left.map(event => event.userId)).toEqual(['alice']);
+    expect(bob.isBlockLocked('p1')).toBe(false);
+    expect(bob.getState().users.size).toBe(0);
+  });
+});
+
+describe('Collaboration hub access', () => {
+  const ACCESS: Record<string, DocumentAccess> = { alice: 'edit', bob: 'view' };
+  let hub: CollaborationHub;
+
+  beforeEach(() => {
+    hub = new CollaborationHub({ getAccess: async userId => ACCESS[userId] || 'none' });
+  });
+
+  /** Connect as a user and collect what the hub sends back */
+  function session(userId?: string) {
+    const received: CollaborationServerMessage[] = [];
+    const connection = hub.connect(message => received.push(message), userId);
+    const join = (claimedUserId: string) => connection.receive({
+      type: 'join',
+      document_id: DOC,
+      project_id: 'projekt-sommar',
+      user: { id: claimedUserId, name: claimedUserId, color: '#2563eb' },
+      since: 0,
+      seed: [textBlock('p1', 'Hej')],
+      ops: [],
+      awareness: {}
+    });
+    return { connection, received, join };
+  }
+
+  it('should answer malformed messages with an error', async () => {
+    const alice = session('alice');
+    alice.connection.receive({ type: 'ops', ops: [{ kind: 'text_insert', block_id: 'p1' }] });
+    alice.connection.receive('hej');
+    await settle();
+
+    expect(alice.received).toEqual([
+      { type: 'error', message: 'Invalid collaboration message' },
+      { type: 'error', message: 'Invalid collaboration message' }
+    ]);
+  });
+
+  it('should refuse users without access and connections nobody authenticated', async () => {
+    const mallory = session('mallory');
+    mallory.join('alice');
+    const anonymous = session();
+    anonymous.join('alice');
+    await settle();
+
+    expect(mallory.received).toEqual([{ type: 'error', message: 'No access to this document' }]);
+    expect(anonymous.received).toEqual([{ type: 'error', message: 'No access to this document' }]);
+    expect(hub.getPeerCount(DOC)).toBe(0);
+  });
+
+  it('should join as the authenticated user and keep viewers from editing', async () => {
+    const alice = session('alice');
+    alice.join('alice');
+    const bob = session('bob');
+    bob.join('alice');
+    await settle();
+
+    const welcome = bob.received[0] as Extract<CollaborationServerMessage, { type: 'welcome' }>;
+    expect(welcome.type).toBe('welcome');
+    expect(welcome.peers.map(peer => peer.user.id)).toEqual(['alice']);
+    expect(alice.received).toContainEqual(expect.objectContaining({
+      type: 'awareness',
+      peer: expect.objectContaining({ user: expect.objectContaining({ id: 'bob' }) })
+    }));
+
+    bob.connection.receive({ type: 'ops', ops: [{ kind: 'block_delete', id: { site: 'bob:1', counter: 99 }, block_id: 'p1' }] });
+    await settle();
+
+    expect(bob.received[bob.received.length - 1]).toEqual({ type: 'error', message: 'Read-only access to this document' });
+    expect(texts(hub.getBlocks(DOC)!)).toEqual(['Hej']);
+  });
+
+  it('should take access from project collaborators and guest links', async () => {
+    const projects = new ProjectRepository(new DomainEventBus());
+    const project = await projects.createProject('alice', { name: 'Sommar', type: 'memory_book' });
+    await projects.addCollaborator(project.id, 'bob', 'viewer');
+    await projects.addCollaborator(project.id, 'carl', 'editor');
+    // Carl has not accepted the invitation yet
+    project.collaborators.find(collaborator => collaborator.user_id === 'bob')!.status = 'accepted';
+    const access = new ProjectDocumentAccess(projects, {
+      verifyGuestAccess: async (userId, resourceId, accessType) =>
+        userId === 'guest-1' && resourceId === DOC && accessType === 'read'
+    });
+
+    expect(await access.getAccess('alice', project.id, DOC)).toBe('edit');
+    expect(await access.getAccess('bob', project.id, DOC)).toBe('view');
+    expect(await access.getAccess('carl', project.id, DOC)).toBe('none');
+    expect(await access.getAccess('guest-1', project.id, DOC)).toBe('view');
+    expect(await access.getAccess('alice', 'no-such-project', DOC)).toBe('none');
+  });
+});
+
+describe('Collaboration WebSocket server', () => {
+  const sessions = new SessionTokenService('test-signing-key');
+  let server: Server;
+  let socket: Socket | null = null;
+
+  beforeEach(async () => {
+    server = createServer((req, res) => res.end());
+    attachCollaborationServer(server, new CollaborationHub(), undefined, sessions);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+  });
+
+  afterEach(async () => {
+    if (socket) socket.destroy();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  /** Masked client text frame */
+  function clientFrame(text: string): Buffer {
+    const payload = Buffer.from(text, 'utf8');
+    const mask = Buffer.from([1, 2, 3, 4]);
+    const header = payload.length < 126
+      ? Buffer.from([0x81, 0x80 | payload.length])
+      : Buffer.from([0x81, 0x80 | 126, payload.length >> 8, payload.length & 0xff]);
+    const masked = Buffer.alloc(payload.length);
+    for (let i = 0; i < payload.length; i++) {
+      masked[i] = payload[i] ^ mask[i % 4];
+    }
+    return Buffer.concat([header, mask, masked]);
+  }
+
+  /** Open a socket and send the upgrade request, with a session cookie when given */
+  function upgrade(key: string, received: Buffer[], token?: string): Socket {
+    const { port } = server.address() as AddressInfo;
+    const opened = connectSocket(port, '127.0.0.1');
+    opened.on('data', chunk => received.push(chunk));
+    opened.write(
+      'GET /api/collaboration HTTP/1.1\r\n' +
+      'Host: localhost\r\n' +
+      'Upgrade: websocket\r\n' +
+      'Connection: Upgrade\r\n' +
+      (token ? `Cookie: ${SESSION_COOKIE}=${token}\r\n` : '') +
+      `Sec-WebSocket-Key: ${key}\r\n` +
+      'Sec-WebSocket-Version: 13\r\n\r\n'
+    );
+    return opened;
+  }
+
+  it('should refuse upgrades without a valid session', async () => {
+    const received: Buffer[] = [];
+    socket = upgrade(Buffer.from('collaboration-key').toString('base64'), received, 'forged.token');
+
+    const deadline = Date.now() + 2000;
+    while (received.length === 0 && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+
+    expect(Buffer.concat(received).toString()).toContain('401 Unauthorized');
+  });
+
+  it('should complete the handshake and answer a join with a welcome', async () => {
+    const key = Buffer.from('collaboration-key').toString('base64');
+    const received: Buffer[] = [];
+
+    socket = upgrade(key, received, await sessions.issue('alice'));
+    socket.write(clientFrame(JSON.stringify({
+      type: 'join',
+      document_id: DOC,
+      user: { id: 'alice', name: 'Alice', color: '#2563eb' },
+      since: 0,
+      seed: [textBlock('p1', 'Hej')],
+      ops: [],
+      awareness: {}
+    })));
+
+    const deadline = Date.now() + 2000;
+    while (Buffer.concat(received).indexOf('welcome') < 0 && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+
+    const response = Buffer.concat(received);
+    const headerEnd = response.indexOf('\r\n\r\n');
+    const headers = response.slice(0, headerEnd).toString();
+    const expectedAccept = createHash('sha1').update(key + '258EAFA5-E914-47DA-95CA-C5AB0DC85B11').digest('base64');
+    expect(headers).toContain('101 Switching Protocols');
+    expect(headers).toContain(`Sec-WebSocket-Accept: ${expectedAccept}`);
+
+    const frame = response.slice(headerEnd + 4);
+    expect(frame[0]).toBe(0x81);
+    const length = frame[1] === 126 ? frame.readUInt16BE(2) : frame[1];
+    const start = frame[1] === 126 ? 4 : 2;
+    const welcome = JSON.parse(frame.slice(start, start + length).toString('utf8'));
+
+    expect(welcome.type).toBe('welcome');
+    expect(welcome.ops.map((entry: { op: { kind: string } }) => entry.op.kind)).toEqual(['block_insert', 'text_insert']);
+  });
+});
@@ -0,0 +1,60 @@
+// @vitest-environment node
+/**
+ * Tests for the review permissions API endpoint
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { projectRepository } from '../../lib/data/project-repository';
+import { SESSION_COOKIE, getSessionTokenService } from '../../lib/security/session-tokens';
+
+vi.mock('../../lib/server-bootstrap', () => ({
+  bootstrapServer: () => Promise.resolve()
+}));
+
+import { GET } from '../../app/api/review-permissions/route';
+
+describe('Review permissions API endpoint', () => {
+  let projectId: string;
+
+  async function permissionsRequest(userId?: string): Promise<NextRequest> {
+    const headers: Record<string, string> = {};
+    if (userId) {
+      headers.cookie = `${SESSION_COOKIE}=${await getSessionTokenService()!.issue(userId)}`;
+    }
+    return new NextRequest(`http://localhost/api/review-permissions?project_id=${projectId}`, { headers });
+  }
+
+  beforeAll(() => {
+    process.env.SESSION_SIGNING_KEY = 'test-session-key';
+  });
+
+  beforeEach(async () => {
+    await projectRepository.clear();
+    const project = await projectRepository.createProject('mormor', { name: 'Sommarminnen', type: 'memory_book' });
+    projectId = project.id;
+    await projectRepository.addCollaborator(projectId, 'elsa', 'editor');
+    project.collaborators.forEach(collaborator => {
+      collaborator.status = 'accepted';
+    });
+    project.settings.collaboration.require_approval = true;
+  });
+
+  it('should refuse requests without a session', async () => {
+    expect((await GET(await permissionsRequest())).status).toBe(401);
+  });
+
+  it('should refuse users who cannot open the project\'s documents', async () => {
+    expect((await GET(await permissionsRequest('olle'))).status).toBe(403);
+  });
+
+  it('should tell collaborators whether they may review changes', async () => {
+    const owner = await GET(await permissionsRequest('mormor'));
+    expect(owner.status).toBe(200);
+    expect((await owner.json()).permissions).toEqual({ require_approval: true, can_review: true });
+
+    const editor = await GET(await permissionsRequest('elsa'));
+    expect(editor.status).toBe(200);
+    expect((await editor.json()).permissions).toEqual({ require_approval: true, can_review: false });
+  });
+});
@@ -0,0 +1,156 @@
+// @vitest-environment node
+/**
+ * Tests for tracked changes
+ * Review mode records each edit with its author, keeps deleted blocks until
+ * the deletion is accepted and puts blocks back when changes are rejected
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  acceptAllTrackedChanges,
+  acceptTrackedChange,
+  getReviewPermissions,
+  isPendingDeletion,
+  rejectAllTrackedChanges,
+  rejectTrackedChange,
+  toSemanticDiff,
+  trackBlockDeletion,
+  trackBlockInsertion,
+  trackBlockUpdate
+} from '../../lib/collaboration/tracked-changes';
+import { ProjectRepository } from '../../lib/data/project-repository';
+import { DomainEventBus } from '../../lib/events/domain-event-bus';
+import { Project } from '../../types/data-models';
+import { ContentBlock, TextBlock, UIStateTree } from '../../types/editor';
+
+const AT = new Date('2030-05-01T12:00:00Z');
+
+const ELSA = { user_id: 'elsa', display_name: 'Elsa' };
+const OLLE = { user_id: 'olle', display_name: 'Olle' };
+
+function textBlock(id: string, text: string): TextBlock {
+  return { id, type: 'text', created_at: AT, updated_at: AT, content: { text, formatting: {} } };
+}
+
+function documentOf(blocks: ContentBlock[]): UIStateTree {
+  return {
+    metadata: { title: 'Sommar', id: 'doc-sommar', created_at: AT, updated_at: AT, author: 'mormor', version: 1 },
+    blocks
+  };
+}
+
+/** Apply an edit of a block and track it, the way the editor does */
+function edit(document: UIStateTree, blockId: string, text: string, author = ELSA): UIStateTree {
+  const before = document.blocks.find(block => block.id === blockId)!;
+  const after = textBlock(blockId, text);
+  const applied = { ...document, blocks: document.blocks.map(block => (block.id === blockId ? after : block)) };
+  return trackBlockUpdate(applied, before, after, author, AT);
+}
+
+function texts(document: UIStateTree): string[] {
+  return document.blocks.map(block => (block as TextBlock).content.text);
+}
+
+describe('Tracked changes', () => {
+  const original = documentOf([textBlock('p1', 'Vi åkte till sjön.'), textBlock('p2', 'Mormor bakade bullar.')]);
+
+  it('should merge an author\'s consecutive edits and drop them when the block is back as it was', () => {
+    const once = edit(original, 'p1', 'Vi åkte till sjön varje sommar.');
+    const twice = edit(once, 'p1', 'Vi cyklade till sjön varje sommar.');
+    expect(twice.tracked_changes).toHaveLength(1);
+    expect(twice.tracked_changes![0]).toMatchObject({ type: 'modification', author: ELSA });
+    expect((twice.tracked_changes![0].before as TextBlock).content.text).toBe('Vi åkte till sjön.');
+
+    const other = edit(twice, 'p1', 'Vi cyklade till sjön Vättern varje sommar.', OLLE);
+    expect(other.tracked_changes!.map(change => change.author.user_id)).toEqual(['elsa', 'olle']);
+
+    expect(edit(once, 'p1', 'Vi åkte till sjön.').tracked_changes).toEqual([]);
+    expect(trackBlockUpdate(original, original.blocks[0], original.blocks[0], ELSA, AT)).toBe(original);
+  });
+
+  it('should keep deleted blocks until the deletion is accepted', () => {
+    const marked = trackBlockDeletion(original, 'p2', OLLE, AT);
+    expect(marked.blocks).toHaveLength(2);
+    expect(isPendingDeletion(marked, 'p2')).toBe(true);
+    expect(trackBlockDeletion(marked, 'p2', ELSA, AT)).toBe(marked);
+
+    expect(texts(acceptTrackedChange(marked, marked.tracked_changes![0].id))).toEqual(['Vi åkte till sjön.']);
+    expect(rejectTrackedChange(marked, marked.tracked_changes![0].id)).toMatchObject({
+      blocks: original.blocks,
+      tracked_changes: []
+    });
+
+    // An author's own untouched insertion is simply removed again
+    const inserted = trackBlockInsertion(
+      { ...original, blocks: original.blocks.concat([textBlock('p3', 'Ny rad')]) },
+      textBlock('p3', 'Ny rad'),
+      ELSA,
+      AT
+    );
+    const removed = trackBlockDeletion(inserted, 'p3', ELSA, AT);
+    expect(removed.blocks.map(block => block.id)).toEqual(['p1', 'p2']);
+    expect(removed.tracked_changes).toEqual([]);
+  });
+
+  it('should accept earlier and reject later changes of a block', () => {
+    const elsas = edit(original, 'p1', 'Vi åkte till sjön varje sommar.');
+    const olles = edit(elsas, 'p1', 'Vi åkte till Vättern varje sommar.', OLLE);
+    const [first, second] = olles.tracked_changes!;
+
+    const accepted = acceptTrackedChange(olles, second.id);
+    expect(accepted.tracked_changes).toEqual([]);
+    expect(texts(accepted)[0]).toBe('Vi åkte till Vättern varje sommar.');
+
+    const rejected = rejectTrackedChange(olles, first.id);
+    expect(rejected.tracked_changes).toEqual([]);
+    expect(texts(rejected)[0]).toBe('Vi åkte till sjön.');
+
+    const withInsertion = trackBlockInsertion(
+      { ...olles, blocks: olles.blocks.concat([textBlock('p3', 'Och doppade oss.')]) },
+      textBlock('p3', 'Och doppade oss.'),
+      OLLE,
+      AT
+    );
+    const all = acceptAllTrackedChanges(withInsertion);
+    expect(texts(all)).toEqual(['Vi åkte till Vättern varje sommar.', 'Mormor bakade bullar.', 'Och doppade oss.']);
+    expect(all.tracked_changes).toEqual([]);
+    expect(rejectAllTrackedChanges(trackBlockDeletion(withInsertion, 'p2', ELSA, AT)).blocks).toEqual(original.blocks);
+  });
+
+  it('should describe changes as semantic diffs', () => {
+    const edited = edit(original, 'p1', 'Vi åkte till sjön varje sommar.');
+    const diff = toSemanticDiff(edited.tracked_changes![0], edited.blocks);
+    expect(diff).toMatchObject({ id: edited.tracked_changes![0].id, block_id: 'p1' });
+    expect(diff.changes[0]).toMatchObject({ type: 'modification', path: 'blocks[0]' });
+
+    const marked = trackBlockDeletion(original, 'p2', OLLE, AT);
+    expect(toSemanticDiff(marked.tracked_changes![0], marked.blocks).changes[0]).toMatchObject({
+      type: 'deletion',
+      path: 'blocks[1]'
+    });
+  });
+});
+
+describe('Review permissions', () => {
+  let project: Project;
+
+  beforeEach(async () => {
+    const projects = new ProjectRepository(new DomainEventBus());
+    project = await projects.createProject('mormor', { name: 'Sommarminnen', type: 'memory_book' });
+    await projects.addCollaborator(project.id, 'elsa', 'editor');
+    await projects.addCollaborator(project.id, 'olle', 'owner');
+    project.collaborators.forEach(collaborator => {
+      collaborator.status = 'accepted';
+    });
+  });
+
+  it('should let editors review unless the project requires approval', () => {
+    expect(getReviewPermissions(project, 'elsa')).toEqual({ require_approval: false, can_review: true });
+    expect(getReviewPermissions(project, 'granne').can_review).toBe(false);
+
+    project.settings.collaboration.require_approval = true;
+    expect(getReviewPermissions(project, 'elsa')).toEqual({ require_approval: true, can_review: false });
+    expect(getReviewPermissions(project, 'olle').can_review).toBe(true);
+    expect(getReviewPermissions(project, 'mormor').can_review).toBe(true);
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * Tests for personal data export and import
+ * GDPR Article 20: portable archive that moves an account between installations
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  PersonalDataExportService,
+  PersonalDataArchiveError,
+  ReflectionArchiveStore,
+  LegacyContentArchiveStore
+} from '../../lib/data/personal-data-export';
+import { createZipArchive, readZipArchive } from '../../lib/data/zip-archive';
+import { UserRepository } from '../../lib/data/user-repository';
+import { ProjectRepository } from '../../lib/data/project-repository';
+import { SemanticRAG } from '../../lib/memory';
+import { ReflectionEntry } from '../../types/chronicler';
+import { LegacyContent } from '../../types/legacy-system';
+import { ConsentScope } from '../../types/data-models';
+
+const consentScope: ConsentScope = {
+  data_access: { read_content: true, read_contacts: false, read_projects: false, read_memories: false },
+  communication: { send_messages: true, initiate_collaboration: false, suggest_contacts: false, send_legacy_messages: true, enable_empathy_bridge: false },
+  sharing: { share_with_others: false, export_data: false, create_public_links: false },
+  memory: { memory_discovery: false, link_memories: false, suggest_conversations: false }
+};
+
+function createInstallation() {
+  const reflections = new Map<string, ReflectionEntry>();
+  const legacyContents = new Map<string, LegacyContent>();
+  const reflectionStore: ReflectionArchiveStore = {
+    getUserReflections: async userId => Array.from(reflections.values()).filter(r => r.user_id === userId),
+    saveReflection: async reflection => reflections.set(reflection.id, reflection),
+    deleteReflection: async reflectionId => reflections.delete(reflectionId)
+  };
+  const legacyStore: LegacyContentArchiveStore = {
+    getLegacyContentByCreator: async creatorId => Array.from(legacyContents.values()).filter(c => c.creator_id === creatorId),
+    saveLegacyContent: async content => legacyContents.set(content.id, content),
+    deleteLegacyContent: async contentId => legacyContents.delete(contentId)
+  };
+  const users = new UserRepository();
+  const projects = new ProjectRepository();
+  const semanticRAG = new SemanticRAG();
+  const service = new PersonalDataExportService({
+    userRepository: users,
+    projectRepository: projects,
+    semanticRAG,
+    reflections: reflectionStore,
+    legacyContent: legacyStore
+  });
+
+  return { users, projects, semanticRAG, reflections, legacyContents, legacyStore, service };
+}
+
+describe('PersonalDataExportService', () => {
+  let source: ReturnType<typeof createInstallation>;
+  let userId: string;
+  let contactId: string;
+
+  beforeEach(async () => {
+    source = createInstallation();
+
+    const user = await source.users.createUser({
+      user_role: 'senior',
+      display_name: 'Anna',
+      email: 'anna@example.com',
+      language: 'sv',
+      timezone: 'Europe/Stockholm'
+    });
+    userId = user.id;
+
+    const contact = await source.users.createContact(userId, {
+      contact_details: { name: 'Elsa', email: 'elsa@example.com' },
+      relationship_type: 'family',
+      password: 'anna-secret'
+    });
+    contactId = contact!.id;
+    contact!.status = 'blocked';
+    const group = await source.users.createContactGroup(userId, { name: 'Barnbarn', color: '#ffaa00' });
+    await source.users.addContactToGroup(contactId, group!.id);
+
+    const consent = await source.users.createConsent(userId, {
+      scope: consentScope,
+      applies_to: { type: 'contact', target_id: contactId, target_name: 'Elsa' },
+      details: { description: 'Legacy letters', legal_basis: 'Consent', purpose: 'Legacy delivery', retention_period_days: 365 }
+    });
+    await source.users.revokeConsent(consent!.id);
+
+    await source.projects.createProject(userId, { name: 'Minnenas bok', type: 'memory_book' });
+
+    source.reflections.set('r1', {
+      id: 'r1',
+      user_id: userId,
+      title: 'Midsommar',
+      created_at: new Date('1999-06-25T12:00:00Z')
+    } as unknown as ReflectionEntry);
+    source.legacyContents.set('l1', {
+      id: 'l1',
+      creator_id: userId,
+      recipients: [{ contact_id: contactId }]
+    } as unknown as LegacyContent);
+
+    await source.semanticRAG.store({
+      content: 'Elsa lärde sig cykla vid sjön',
+      embedding: [1, 0, 0],
+      metadata: { source: 'reflection', tags: [`contact:${contactId}`], timestamp: new Date() }
+    }, undefined, { id: 'anna', user_ids: [userId], project_ids: [], contact_ids: [], permissions: { read: true, write: true, delete: false } });
+  });
+
+  it('should write a checksummed manifest and JSON-LD documents', async () => {
+    const archive = await source.service.exportUserData(userId, 'anna-secret');
+    const { manifest, documents } = await source.service.readArchive(archive);
+    const paths = readZipArchive(archive).map(entry => entry.path);
+
+    expect(String.fromCharCode(archive[0], archive[1])).toBe('PK');
+    expect(paths[0]).toBe('manifest.json');
+    expect(manifest).toMatchObject({ format: 'halsning-personal-data', version: 1, user_id: userId });
+    expect(manifest.files.map(file => [file.path, file.items])).toEqual([
+      ['user.jsonld', 1],
+      ['contacts.jsonld', 1],
+      ['contact-groups.jsonld', 1],
+      ['consents.jsonld', 1],
+      ['reflections.jsonld', 1],
+      ['legacy-content.jsonld', 1],
+      ['projects.jsonld', 1],
+      ['memories.jsonld', 1]
+    ]);
+    expect(manifest.files[0].sha256).toMatch(/^[0-9a-f]{64}$/);
+    expect(documents.contacts[0].details).toEqual({ name: 'Elsa', email: 'elsa@example.com' });
+    expect(documents.reflections[0].created_at).toEqual(new Date('1999-06-25T12:00:00Z'));
+
+    const contacts = JSON.parse(new TextDecoder().decode(readZipArchive(archive)[2].data));
+    expect(contacts['@context']).toEqual({ '@vocab': 'urn:halsning:personal-data:v1#' });
+    expect(contacts['@graph'][0]['@type']).toBe('Contact');
+  });
+
+  it('should move an account to another installation', async () => {
+    const archive = await source.service.exportUserData(userId, 'anna-secret');
+    const target = createInstallation();
+
+    const report = await target.service.importUserData(archive, 'new-secret');
+    const user = await target.users.getUserById(report.user_id);
+    const newContactId = report.id_map[contactId];
+
+    expect(report.skipped).toEqual([]);
+    expect(report.imported).toEqual({
+      user: 1, contacts: 1, contactGroups: 1, consents: 1, reflections: 1, legacyContent: 1, projects: 1, memories: 1
+    });
+    expect(user!.profile.display_name).toBe('Anna');
+    expect(await target.users.decryptContactDetails(newContactId, 'new-secret')).toEqual({ name: 'Elsa', email: 'elsa@example.com' });
+    expect(user!.contacts[0].groups.map(group => group.name)).toEqual(['Barnbarn']);
+    expect(user!.contacts[0].status).toBe('blocked');
+    expect(user!.consents[0]).toMatchObject({ status: 'revoked', applies_to: { target_id: newContactId } });
+    expect(target.reflections.get(report.id_map.r1)!.user_id).toBe(report.user_id);
+    expect(target.legacyContents.get(report.id_map.l1)!.recipients[0].contact_id).toBe(newContactId);
+    expect((await target.projects.getProjectsByUserId(report.user_id)).map(p => p.name)).toEqual(['Minnenas bok']);
+    expect(target.semanticRAG.getEntriesByUser(report.user_id)[0].tags).toEqual([`contact:${newContactId}`]);
+  });
+
+  it('should never overwrite records that already exist on the installation', async () => {
+    const archive = await source.service.exportUserData(userId, 'anna-secret');
+    const target = createInstallation();
+    const existingReflection = { id: 'r1', user_id: 'bertil', title: 'Jul' } as unknown as ReflectionEntry;
+    const existingLetter = { id: 'l1', creator_id: 'bertil', recipients: [] } as unknown as LegacyContent;
+    target.reflections.set('r1', existingReflection);
+    target.legacyContents.set('l1', existingLetter);
+
+    const report = await target.service.importUserData(archive, 'new-secret');
+
+    expect(report.id_map.r1).not.toBe('r1');
+    expect(report.id_map.l1).not.toBe('l1');
+    expect(target.reflections.get('r1')).toBe(existingReflection);
+    expect(target.legacyContents.get('l1')).toBe(existingLetter);
+    expect(target.reflections.get(report.id_map.r1)!.title).toBe('Midsommar');
+  });
+
+  it('should roll back everything when part of the import fails', async () => {
+    const archive = await source.service.exportUserData(userId, 'anna-secret');
+    const target = createInstallation();
+    target.legacyStore.saveLegacyContent = async () => {
+      throw new Error('disk full');
+    };
+
+    await expect(target.service.importUserData(archive, 'new-secret')).rejects.toThrow('disk full');
+
+    expect(await target.users.getUserByEmail('anna@example.com')).toBeNull();
+    expect(target.reflections.size).toBe(0);
+    expect(target.legacyContents.size).toBe(0);
+    expect(target.semanticRAG.getEntryCount()).toBe(0);
+  });
+
+  it('should only revive known date fields', async () => {
+    source.reflections.set('r1', {
+      ...source.reflections.get('r1')!,
+      title: '2024-01-01T00:00:00Z'
+    });
+
+    const { documents } = await source.service.readArchive(await source.service.exportUserData(userId, 'anna-secret'));
+
+    expect(documents.reflections[0].title).toBe('2024-01-01T00:00:00Z');
+    expect(documents.reflections[0].created_at).toEqual(new Date('1999-06-25T12:00:00Z'));
+  });
+
+  it('should refuse to export with the wrong password', async () => {
+    await expect(source.service.exportUserData(userId, 'wrong')).rejects.toThrow('check the password');
+  });
+
+  it('should reject archives whose documents do not match the manifest', async () => {
+    const archive = await source.service.exportUserData(userId, 'anna-secret');
+    const tampered = createZipArchive(readZipArchive(archive).map(entry => entry.path === 'contacts.jsonld'
+      ? { path: entry.path, data: new TextEncoder().encode('{"@graph":[]}') }
+      : entry));
+
+    await expect(createInstallation().service.importUserData(tampered, 'x'))
+      .rejects.toThrow(new PersonalDataArchiveError('Checksum mismatch for contacts.jsonld'));
+  });
+
+  it('should reject archives from a newer format version', async () => {
+    const entries = readZipArchive(await source.service.exportUserData(userId, 'anna-secret'));
+    const manifest = JSON.parse(new TextDecoder().decode(entries[0].data));
+    entries[0] = { path: 'manifest.json', data: new TextEncoder().encode(JSON.stringify({ ...manifest, version: 2 })) };
+
+    await expect(source.service.readArchive(createZipArchive(entries)))
+      .rejects.toBeInstanceOf(PersonalDataArchiveError);
+  });
+
+  it('should detect corrupted ZIP entries', () => {
+    const archive = createZipArchive([{ path: 'a.txt', data: new TextEncoder().encode('hej') }]);
+    archive[30 + 'a.txt'.length] ^= 0xff;
+
+    expect(() => readZipArchive(archive)).toThrow('CRC mismatch for a.txt');
+  });
+});
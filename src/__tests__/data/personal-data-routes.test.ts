@@ -0,0 +1,109 @@
+// @vitest-environment node
+/**
+ * Tests for the personal data export and import endpoints
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { userRepository } from '../../lib/data/user-repository';
+import { ProjectRepository } from '../../lib/data/project-repository';
+import { PersonalDataExportService } from '../../lib/data/personal-data-export';
+import { SESSION_COOKIE, getSessionTokenService } from '../../lib/security/session-tokens';
+
+const server = vi.hoisted(() => ({ exportService: null as PersonalDataExportService | null }));
+
+vi.mock('../../lib/server-bootstrap', () => ({
+  bootstrapServer: () => Promise.resolve(),
+  getPersonalDataExportService: () => server.exportService
+}));
+
+import { POST as exportData } from '../../app/api/personal-data/export/route';
+import { POST as importData } from '../../app/api/personal-data/import/route';
+
+describe('Personal data endpoints', () => {
+  let annaId: string;
+  let architectId: string;
+
+  async function sessionCookie(userId: string): Promise<string> {
+    return `${SESSION_COOKIE}=${await getSessionTokenService()!.issue(userId)}`;
+  }
+
+  async function exportRequest(userId?: string): Promise<NextRequest> {
+    const headers: Record<string, string> = { 'content-type': 'application/json' };
+    if (userId) {
+      headers.cookie = await sessionCookie(userId);
+    }
+    return new NextRequest('http://localhost/api/personal-data/export', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ password: 'anna-secret' })
+    });
+  }
+
+  async function importRequest(userId: string, archive: Uint8Array): Promise<NextRequest> {
+    const form = new FormData();
+    form.append('archive', new Blob([new Uint8Array(archive)], { type: 'application/zip' }), 'archive.zip');
+    form.append('password', 'new-secret');
+    return new NextRequest('http://localhost/api/personal-data/import', {
+      method: 'POST',
+      headers: { cookie: await sessionCookie(userId) },
+      body: form
+    });
+  }
+
+  beforeAll(() => {
+    process.env.SESSION_SIGNING_KEY = 'test-session-key';
+  });
+
+  beforeEach(async () => {
+    await userRepository.clear();
+    annaId = (await userRepository.createUser({
+      user_role: 'senior',
+      display_name: 'Anna',
+      email: 'anna@example.com',
+      language: 'sv',
+      timezone: 'Europe/Stockholm'
+    })).id;
+    architectId = (await userRepository.createUser({
+      user_role: 'architect',
+      display_name: 'Cecilia',
+      email: 'cecilia@example.com',
+      language: 'sv',
+      timezone: 'Europe/Stockholm'
+    })).id;
+    await userRepository.createContact(annaId, {
+      contact_details: { name: 'Elsa' },
+      relationship_type: 'family',
+      password: 'anna-secret'
+    });
+    server.exportService = new PersonalDataExportService({ userRepository, projectRepository: new ProjectRepository() });
+  });
+
+  it('should refuse exports without a session', async () => {
+    expect((await exportData(await exportRequest())).status).toBe(401);
+  });
+
+  it('should export the signed-in user\'s data as a ZIP archive', async () => {
+    const response = await exportData(await exportRequest(annaId));
+    const archive = new Uint8Array(await response.arrayBuffer());
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('application/zip');
+    expect(String.fromCharCode(archive[0], archive[1])).toBe('PK');
+    expect((await server.exportService!.readArchive(archive)).manifest.user_id).toBe(annaId);
+  });
+
+  it('should only let architects import archives', async () => {
+    const archive = new Uint8Array(await (await exportData(await exportRequest(annaId))).arrayBuffer());
+
+    const refused = await importData(await importRequest(annaId, archive));
+    expect(refused.status).toBe(403);
+
+    const response = await importData(await importRequest(architectId, archive));
+    const report = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(report.imported).toMatchObject({ user: 1, contacts: 1 });
+    expect(report.user_id).not.toBe(annaId);
+  });
+});
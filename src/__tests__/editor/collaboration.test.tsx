@@ -19,13 +19,19 @@ vi.mock('uuid', () => ({
   v4: vi.fn(() => 'test-uuid-' + Math.random().toString(36).substr(2, 9))
 }));
 
-// Mock collaboration service
+// Mock collaboration client
 const mockCollaborationService = {
   connect: vi.fn().mockResolvedValue(undefined),
   disconnect: vi.fn(),
   requestBlockLock: vi.fn().mockResolvedValue(true),
   releaseBlockLock: vi.fn().mockResolvedValue(undefined),
   sendBlockUpdate: vi.fn().mockResolvedValue(undefined),
+  sendBlockInsert: vi.fn().mockResolvedValue(undefined),
+  sendBlockDelete: vi.fn().mockResolvedValue(undefined),
+  sendBlockMove: vi.fn().mockResolvedValue(undefined),
+  sendTrackedChange: vi.fn().mockResolvedValue(undefined),
+  settleTrackedChange: vi.fn().mockResolvedValue(undefined),
+  updateCursor: vi.fn(),
   isBlockLocked: vi.fn().mockReturnValue(false),
   getBlockLocker: vi.fn().mockReturnValue(undefined),
   resolveConflict: vi.fn().mockResolvedValue(undefined),
@@ -43,8 +49,8 @@ const mockCollaborationService = {
   getLockedBlocks: vi.fn().mockReturnValue([])
 };
 
-vi.mock('@/services/collaboration-service', () => ({
-  CollaborationService: vi.fn().mockImplementation(() => mockCollaborationService)
+vi.mock('@/lib/collaboration/collaboration-client', () => ({
+  CollaborationClient: vi.fn().mockImplementation(() => mockCollaborationService)
 }));
 
 describe('Collaboration Features', () => {
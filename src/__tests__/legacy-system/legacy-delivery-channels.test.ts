@@ -0,0 +1,259 @@
+/**
+ * Tests for legacy delivery channel adapters
+ * Runs the whole delivery path offline with the file-drop SMTP sink, the fake SMS gateway and an in-process SMTP server
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { LegacySystemService } from '../../services/legacy-system-service';
+import {
+  EmailChannel,
+  FakeSmsGateway,
+  InAppInboxChannel,
+  InMemoryLetterSink,
+  PrintedLetterChannel,
+  RecipientDirectory,
+  SmsChannel,
+  countSmsSegments
+} from '../../services/legacy-delivery-channels';
+import { FileDropSmtpSink, SmtpTransport } from '../../services/legacy-delivery-transports';
+import { DeliveryMethod, LegacyContent, LegacyRecipient, LegacySystemConfig } from '../../types/legacy-system';
+
+const config: LegacySystemConfig = {
+  max_legacy_content_per_user: 50,
+  max_recipients_per_content: 10,
+  default_max_delivery_attempts: 3,
+  min_retry_delay_hours: 24,
+  max_future_delivery_years: 50,
+  require_mutual_consent: true
+};
+
+const directory: RecipientDirectory = {
+  getRecipientAddress: async contactId => contactId === 'elsa'
+    ? { name: 'Elsa Ström', email: 'elsa@example.com', phone: '+46701234567', postal_address: ['Sjövägen 1', '123 45 Bygden'] }
+    : null
+};
+
+function recipient(contactId: string, method: DeliveryMethod): LegacyRecipient {
+  return {
+    contact_id: contactId,
+    relationship: 'family',
+    delivery_preferences: { delivery_method: method, respect_emotional_state: true, max_delivery_attempts: 3 },
+    consent_status: 'granted',
+    delivery_status: 'scheduled'
+  };
+}
+
+async function deliver(
+  service: LegacySystemService,
+  recipients: LegacyRecipient[],
+  tactfulDelivery: boolean = false
+): Promise<LegacyContent> {
+  const content = await service.createLegacyContent('mormor', {
+    title: 'Till Elsa på studenten',
+    content: { text: 'Jag är så stolt över dig.\n.Glöm aldrig sjön.' },
+    trigger: service.createTimeBasedTrigger(new Date('2020-06-10T08:00:00Z')),
+    recipients,
+    delivery_settings: {
+      tactful_delivery: tactfulDelivery,
+      check_emotional_state: false,
+      max_attempts: 3,
+      retry_delay: { amount: 1, unit: 'days' },
+      notify_creator: false
+    }
+  });
+  return (await service.evaluateScheduledContent(content.id, 0))!;
+}
+
+function decodeBody(message: string): string {
+  const body = message.split('\r\n\r\n')[1].replace(/\r\n/g, '');
+  return Buffer.from(body, 'base64').toString('utf8');
+}
+
+describe('Legacy delivery channels', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'legacy-delivery-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should deliver to the in-app inbox and record the receipt', async () => {
+    const inbox = new InAppInboxChannel();
+    const service = new LegacySystemService(config, undefined, [inbox]);
+
+    let content = await deliver(service, [recipient('elsa', 'in_app_notification')], true);
+    const [prompt] = inbox.getInbox('elsa');
+    content = await service.respondToPermissionRequest({
+      content_id: content.id,
+      contact_id: 'elsa',
+      token: prompt.reply_token!,
+      answer: 'accept'
+    });
+    const attempt = content.delivery_attempts[1];
+
+    expect(prompt.kind).toBe('permission_request');
+    expect(attempt.result).toBe('success');
+    expect(attempt.receipt).toMatchObject({
+      channel: 'in_app_notification',
+      message_id: `inbox_${content.id}:0:elsa`,
+      details: { inbox: 'elsa' }
+    });
+    expect(inbox.getInbox('elsa').map(item => item.kind).sort()).toEqual(['content', 'permission_request']);
+  });
+
+  it('should drop an email with a stable Message-ID into the SMTP sink', async () => {
+    const service = new LegacySystemService(config, undefined, [
+      new EmailChannel(new FileDropSmtpSink(dir), directory, { from: 'halsning@example.com', fromName: 'Hälsning' })
+    ]);
+
+    const content = await deliver(service, [recipient('elsa', 'email')]);
+    const receipt = content.delivery_attempts[0].receipt!;
+    const files = (await fs.readdir(dir)).sort();
+    const message = await fs.readFile(path.join(dir, files[0]), 'utf8');
+
+    expect(receipt.message_id).toBe(`<${content.id}_0_elsa@halsning.local>`);
+    expect(receipt.details.transport).toBe('file-drop');
+    expect(files).toEqual([`${content.id}_0_elsa@halsning.local.eml`]);
+    expect(message).toContain('X-Envelope-To: elsa@example.com');
+    expect(message).toContain('Subject: =?UTF-8?B?');
+    expect(decodeBody(message)).toBe('Jag är så stolt över dig.\n.Glöm aldrig sjön.');
+  });
+
+  it('should send SMS through the gateway without duplicating a resend', async () => {
+    const gateway = new FakeSmsGateway();
+    const channel = new SmsChannel(gateway, directory, 40);
+    const service = new LegacySystemService(config, undefined, [channel]);
+
+    const content = await deliver(service, [recipient('elsa', 'sms')]);
+    const receipt = content.delivery_attempts[0].receipt!;
+    const again = await channel.deliver({
+      kind: 'content',
+      idempotency_key: `${content.id}:0:elsa`,
+      content,
+      recipient: content.recipients[0],
+      subject: content.title,
+      body: 'x'
+    });
+
+    expect(gateway.messages).toHaveLength(1);
+    expect(gateway.messages[0]).toMatchObject({ to: '+46701234567', reference: `${content.id}:0:elsa` });
+    expect(gateway.messages[0].text).toHaveLength(40);
+    expect(receipt.details).toMatchObject({ gateway: 'fake', truncated: 1 });
+    expect(again.message_id).toBe(receipt.message_id);
+    expect(countSmsSegments('a'.repeat(160))).toBe(1);
+    expect(countSmsSegments('a'.repeat(161))).toBe(2);
+    expect(countSmsSegments('😀'.repeat(40))).toBe(2);
+  });
+
+  it('should generate a printable PDF letter', async () => {
+    const sink = new InMemoryLetterSink();
+    const service = new LegacySystemService(config, undefined, [new PrintedLetterChannel(sink, directory)]);
+
+    const content = await deliver(service, [recipient('elsa', 'printed_letter')]);
+    const receipt = content.delivery_attempts[0].receipt!;
+    const pdf = sink.letters.get(`${content.id}_0_elsa.pdf`)!;
+    const text = String.fromCharCode.apply(null, Array.from(pdf));
+    const xrefOffset = Number(/startxref\n(\d+)/.exec(text)![1]);
+
+    expect(text.slice(0, 8)).toBe('%PDF-1.4');
+    expect(text.slice(xrefOffset, xrefOffset + 4)).toBe('xref');
+    expect(text).toContain('(Sj\xf6v\xe4gen 1) Tj');
+    expect(receipt.details).toMatchObject({ sink: 'memory', pages: 1, bytes: pdf.length });
+  });
+
+  it('should fall back to the content fallback method and fail without any channel', async () => {
+    const inbox = new InAppInboxChannel();
+    const service = new LegacySystemService(config, undefined, [inbox]);
+    const content = await service.createLegacyContent('mormor', {
+      title: 'Hej',
+      trigger: service.createTimeBasedTrigger(new Date('2020-06-10T08:00:00Z')),
+      recipients: [recipient('elsa', 'sms')],
+      delivery_settings: {
+        tactful_delivery: false,
+        check_emotional_state: false,
+        max_attempts: 3,
+        retry_delay: { amount: 1, unit: 'days' },
+        fallback_method: 'in_app_notification',
+        notify_creator: false
+      }
+    });
+
+    const delivered = (await service.evaluateScheduledContent(content.id, 0))!;
+    expect(delivered.delivery_attempts[0]).toMatchObject({ result: 'success', delivery_method: 'in_app_notification' });
+
+    const failing = await deliver(new LegacySystemService(config, undefined, []), [recipient('elsa', 'email')]);
+    expect(failing.delivery_attempts[0]).toMatchObject({
+      result: 'failed',
+      error_message: 'No delivery channel registered for email'
+    });
+  });
+});
+
+describe('SmtpTransport', () => {
+  let server: net.Server;
+  let port: number;
+  let transcript: string[];
+
+  beforeEach(async () => {
+    transcript = [];
+    server = net.createServer(socket => {
+      let inData = false;
+      let buffer = '';
+      socket.write('220 test ESMTP\r\n');
+      socket.on('data', chunk => {
+        buffer += chunk.toString();
+        let index: number;
+        while ((index = buffer.indexOf('\r\n')) !== -1) {
+          const line = buffer.slice(0, index);
+          buffer = buffer.slice(index + 2);
+          transcript.push(line);
+
+          if (inData) {
+            if (line === '.') {
+              inData = false;
+              socket.write('250 2.0.0 Ok: queued as ABC123\r\n');
+            }
+          } else if (line.startsWith('EHLO')) {
+            socket.write('250-test\r\n250 AUTH PLAIN\r\n');
+          } else if (line.startsWith('RCPT TO:<nobody@')) {
+            socket.write('550 No such user\r\n');
+          } else if (line === 'DATA') {
+            inData = true;
+            socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+          } else if (line === 'QUIT') {
+            socket.end('221 Bye\r\n');
+          } else {
+            socket.write(line.startsWith('AUTH') ? '235 Authenticated\r\n' : '250 Ok\r\n');
+          }
+        }
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    port = (server.address() as net.AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should hold an SMTP conversation and dot-stuff the message', async () => {
+    const transport = new SmtpTransport({ host: '127.0.0.1', port, username: 'u', password: 'p', timeoutMs: 5000 });
+
+    const result = await transport.send(
+      { from: 'halsning@example.com', to: ['elsa@example.com', 'nobody@example.com'] },
+      'Subject: Hej\r\n\r\n.rad med punkt\r\n'
+    );
+
+    expect(result).toEqual({ accepted: ['elsa@example.com'], response: '250 2.0.0 Ok: queued as ABC123' });
+    expect(transcript).toContain(`AUTH PLAIN ${Buffer.from('\0u\0p').toString('base64')}`);
+    expect(transcript).toContain('..rad med punkt');
+    expect(transcript[transcript.length - 1]).toBe('QUIT');
+  });
+});
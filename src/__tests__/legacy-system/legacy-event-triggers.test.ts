@@ -0,0 +1,263 @@
+/**
+ * Tests for event-based legacy triggers
+ * Domain events and profile dates are matched against triggers and delivered by the scheduler
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { LegacySystemService } from '../../services/legacy-system-service';
+import { LegacyScheduler } from '../../services/legacy-scheduler';
+import { InMemoryLegacyContentStore } from '../../services/legacy-content-store';
+import { InAppInboxChannel } from '../../services/legacy-delivery-channels';
+import { LegacyEventMatcher, deriveProfileEvents, matchesEventCriteria } from '../../services/legacy-event-triggers';
+import { DomainEventBus } from '../../lib/events/domain-event-bus';
+import { UserRepository } from '../../lib/data/user-repository';
+import { ProjectRepository } from '../../lib/data/project-repository';
+import { ReflectionEntry } from '../../types/chronicler';
+import {
+  DelayConfig,
+  EventCriteria,
+  EventType,
+  LegacyContent,
+  LegacyRecipient,
+  LegacySystemConfig
+} from '../../types/legacy-system';
+
+const config: LegacySystemConfig = {
+  max_legacy_content_per_user: 50,
+  max_recipients_per_content: 10,
+  default_max_delivery_attempts: 3,
+  min_retry_delay_hours: 24,
+  max_future_delivery_years: 50,
+  require_mutual_consent: true
+};
+
+function recipient(contactId: string, userId?: string): LegacyRecipient {
+  return {
+    contact_id: contactId,
+    user_id: userId,
+    relationship: 'grandchild',
+    delivery_preferences: { delivery_method: 'in_app_notification', respect_emotional_state: true, max_delivery_attempts: 3 },
+    consent_status: 'granted',
+    delivery_status: 'scheduled'
+  };
+}
+
+describe('Event-based legacy triggers', () => {
+  let bus: DomainEventBus;
+  let users: UserRepository;
+  let store: InMemoryLegacyContentStore;
+  let inbox: InAppInboxChannel;
+  let service: LegacySystemService;
+  let scheduler: LegacyScheduler;
+  let matcher: LegacyEventMatcher;
+
+  async function createUser(name: string, birthDate?: Date) {
+    return users.createUser({
+      user_role: 'senior',
+      display_name: name,
+      email: `${name.toLowerCase()}@example.com`,
+      language: 'sv',
+      timezone: 'Europe/Stockholm',
+      birth_date: birthDate
+    });
+  }
+
+  async function scheduleOnEvent(
+    eventType: EventType,
+    criteria: EventCriteria,
+    recipients: LegacyRecipient[],
+    delay?: DelayConfig
+  ): Promise<LegacyContent> {
+    const trigger = service.createEventBasedTrigger(eventType, criteria, eventType, delay);
+    const content = await service.createLegacyContent('mormor', {
+      title: 'Till dig',
+      content: { text: 'Grattis!' },
+      trigger,
+      recipients,
+      delivery_settings: {
+        tactful_delivery: false,
+        check_emotional_state: false,
+        max_attempts: 3,
+        retry_delay: { amount: 1, unit: 'days' },
+        notify_creator: false
+      }
+    });
+    return scheduler.schedule(content.id);
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2030-01-01T00:00:00Z'));
+
+    bus = new DomainEventBus();
+    users = new UserRepository(bus);
+    store = new InMemoryLegacyContentStore();
+    inbox = new InAppInboxChannel();
+    service = new LegacySystemService(config, store, [inbox], users);
+    scheduler = new LegacyScheduler(service, store);
+    matcher = new LegacyEventMatcher(store, bus, users);
+    matcher.start();
+  });
+
+  afterEach(() => {
+    matcher.stop();
+    scheduler.stop();
+    vi.useRealTimers();
+  });
+
+  it('should deliver to the graduate once the delay after the event has passed', async () => {
+    const elsa = await createUser('Elsa');
+    const content = await scheduleOnEvent(
+      'graduation',
+      { level: 'gymnasium' },
+      [recipient('elsa', elsa.id), recipient('olle', 'olle-user')],
+      { amount: 2, unit: 'days' }
+    );
+
+    await scheduler.runDue();
+    let stored = (await store.getLegacyContent(content.id))!;
+    expect(stored.status).toBe('scheduled');
+    expect(stored.trigger.next_evaluation_at).toBeUndefined();
+
+    await users.recordLifeEvent(elsa.id, 'graduation', new Date('2030-06-12T10:00:00Z'), { level: 'Gymnasium' });
+    stored = (await store.getLegacyContent(content.id))!;
+    expect(stored.trigger.matched_events).toEqual([expect.objectContaining({
+      event_type: 'graduation',
+      subject_id: elsa.id,
+      deliver_at: new Date('2030-06-14T10:00:00Z'),
+      recipient_ids: ['elsa']
+    })]);
+    expect(stored.trigger.next_evaluation_at).toEqual(new Date('2030-06-14T10:00:00Z'));
+
+    vi.setSystemTime(new Date('2030-06-13T10:00:00Z'));
+    expect((await scheduler.runDue()).evaluated).toEqual([]);
+
+    vi.setSystemTime(new Date('2030-06-14T10:00:00Z'));
+    await scheduler.runDue();
+    stored = (await store.getLegacyContent(content.id))!;
+
+    expect(stored.recipients.map(r => r.delivery_status)).toEqual(['delivered', 'scheduled']);
+    expect(inbox.getInbox('elsa')).toHaveLength(1);
+    expect(inbox.getInbox('olle')).toHaveLength(0);
+    expect(stored.status).toBe('scheduled');
+    expect(stored.trigger.next_evaluation_at).toBeUndefined();
+  });
+
+  it('should ignore events that do not meet the criteria', async () => {
+    const elsa = await createUser('Elsa');
+    const content = await scheduleOnEvent('graduation', { level: 'university' }, [recipient('elsa', elsa.id)]);
+
+    await users.recordLifeEvent(elsa.id, 'graduation', new Date('2030-06-12T10:00:00Z'), { level: 'gymnasium' });
+    await users.recordLifeEvent(elsa.id, 'new_job', new Date('2030-06-13T10:00:00Z'), { level: 'university' });
+
+    expect((await store.getLegacyContent(content.id))!.trigger.matched_events).toBeUndefined();
+  });
+
+  it('should derive milestone ages from the birth date in the user timezone', async () => {
+    const elsa = await createUser('Elsa', new Date('2012-05-02T00:00:00Z'));
+    const content = await scheduleOnEvent('milestone_age', { target_age: 18 }, [recipient('elsa', elsa.id)]);
+
+    expect(await matcher.checkProfileDates(new Date('2029-05-02T12:00:00Z'))).toEqual([]);
+    await matcher.checkProfileDates(new Date('2030-05-01T12:00:00Z'));
+    const matched = await matcher.checkProfileDates(new Date('2030-05-02T12:00:00Z'));
+
+    expect(matched).toEqual([expect.objectContaining({
+      event_id: `milestone_age:${elsa.id}:18`,
+      occurred_at: new Date('2030-05-01T22:00:00Z')
+    })]);
+
+    await matcher.handleDomainEvent({
+      id: 'evt_1',
+      type: 'user.updated',
+      occurred_at: new Date(),
+      payload: { user: elsa }
+    });
+    await matcher.checkProfileDates(new Date('2030-04-30T12:00:00Z'));
+    await matcher.checkProfileDates(new Date('2030-05-03T12:00:00Z'));
+    expect((await store.getLegacyContent(content.id))!.trigger.matched_events).toHaveLength(1);
+  });
+
+  it('should check the profile dates of users created before the matcher started', async () => {
+    const elsa = await createUser('Elsa', new Date('2012-05-02T00:00:00Z'));
+    await scheduleOnEvent('milestone_age', { target_age: 18 }, [recipient('elsa', elsa.id)]);
+    const restarted = new LegacyEventMatcher(store, new DomainEventBus(), users);
+
+    await restarted.checkProfileDates(new Date('2030-05-01T12:00:00Z'));
+    const matched = await restarted.checkProfileDates(new Date('2030-05-02T12:00:00Z'));
+
+    expect(matched.map(match => match.event_id)).toEqual([`milestone_age:${elsa.id}:18`]);
+  });
+
+  it('should celebrate leap-day birthdays and anniversaries', () => {
+    const user = {
+      id: 'karin',
+      profile: {
+        timezone: 'UTC',
+        birth_date: new Date('2000-02-29T00:00:00Z'),
+        anniversaries: [{ anniversary_type: 'wedding', date: new Date('1980-06-21T00:00:00Z') }]
+      }
+    } as any;
+
+    const events = deriveProfileEvents(user, new Date('2029-01-01T00:00:00Z'), new Date('2030-12-31T00:00:00Z'));
+
+    expect(events.map(e => [e.id, e.occurred_at.toISOString()])).toEqual([
+      ['birthday:karin:2029', '2029-02-28T00:00:00.000Z'],
+      ['milestone_age:karin:29', '2029-02-28T00:00:00.000Z'],
+      ['anniversary:karin:wedding:2029', '2029-06-21T00:00:00.000Z'],
+      ['birthday:karin:2030', '2030-02-28T00:00:00.000Z'],
+      ['milestone_age:karin:30', '2030-02-28T00:00:00.000Z'],
+      ['anniversary:karin:wedding:2030', '2030-06-21T00:00:00.000Z']
+    ]);
+    expect(events[5].details).toEqual({ anniversary_type: 'wedding', years: 50 });
+  });
+
+  it('should release everyone when the criteria name the subject', async () => {
+    const content = await scheduleOnEvent(
+      'memory_creation',
+      { subject_id: 'mormor', memory_theme: 'Sommarstugan' },
+      [recipient('elsa', 'elsa-user'), recipient('olle', 'olle-user')]
+    );
+    const reflection = { id: 'r1', user_id: 'mormor', tags: ['sommarstugan', 'familj'] } as ReflectionEntry;
+
+    await bus.publish('reflection.created', { reflection });
+    await bus.publish('reflection.created', { reflection: { ...reflection, id: 'r2', user_id: 'elsa-user' } });
+
+    expect((await store.getLegacyContent(content.id))!.trigger.matched_events).toEqual([
+      expect.objectContaining({ event_id: 'memory_creation:r1', subject_id: 'mormor', recipient_ids: ['elsa', 'olle'] })
+    ]);
+  });
+
+  it('should match project completion and first login published by the repositories', async () => {
+    const projects = new ProjectRepository(bus);
+    const elsa = await createUser('Elsa');
+    const completion = await scheduleOnEvent('project_completion', { project_type: 'memory_book' }, [recipient('elsa', elsa.id)]);
+    const welcome = await scheduleOnEvent('first_login', {}, [recipient('elsa', elsa.id)]);
+
+    const project = await projects.createProject(elsa.id, { name: 'Släktboken', type: 'memory_book' });
+    await projects.updateProject(project.id, { status: 'completed' });
+    await projects.updateProject(project.id, { description: 'Klar' });
+    await users.recordLogin(elsa.id);
+    await users.recordLogin(elsa.id);
+
+    expect((await store.getLegacyContent(completion.id))!.trigger.matched_events).toHaveLength(1);
+    expect((await store.getLegacyContent(welcome.id))!.trigger.matched_events).toEqual([
+      expect.objectContaining({ event_id: `first_login:${elsa.id}` })
+    ]);
+  });
+
+  it('should compare criteria case-insensitively and against lists', () => {
+    const event = {
+      id: 'e',
+      type: 'memory_creation' as const,
+      subject_ids: ['a', 'b'],
+      occurred_at: new Date(),
+      details: { memory_theme: ['Sjön', 'Midsommar'], age: 18 }
+    };
+
+    expect(matchesEventCriteria({ memory_theme: 'sjön' }, event)).toBe(true);
+    expect(matchesEventCriteria({ memory_theme: 'jul' }, event)).toBe(false);
+    expect(matchesEventCriteria({ target_age: 18, subject_id: 'b' }, event)).toBe(true);
+    expect(matchesEventCriteria({ target_age: 65 }, event)).toBe(false);
+    expect(matchesEventCriteria({ project_type: 'memory_book' }, event)).toBe(false);
+  });
+});
@@ -0,0 +1,133 @@
+// @vitest-environment node
+/**
+ * Tests for the check-in and inactivity confirmation endpoints
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { DEFAULT_LEGACY_SYSTEM_CONFIG, LegacySystemService } from '../../services/legacy-system-service';
+import { LegacyScheduler } from '../../services/legacy-scheduler';
+import { InMemoryLegacyContentStore } from '../../services/legacy-content-store';
+import { InAppInboxChannel } from '../../services/legacy-delivery-channels';
+import { SESSION_COOKIE, getSessionTokenService } from '../../lib/security/session-tokens';
+import { InactivityTriggerConfig, LegacyContent } from '../../types/legacy-system';
+
+const server = vi.hoisted(() => ({ legacySystem: null as LegacySystemService | null }));
+
+vi.mock('../../lib/server-bootstrap', () => ({
+  bootstrapServer: () => Promise.resolve(),
+  getLegacySystemService: () => server.legacySystem
+}));
+
+import { POST as checkIn } from '../../app/api/legacy/check-in/route';
+import { POST as confirmInactivity } from '../../app/api/legacy/inactivity-confirmation/route';
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = new Date('2030-01-01T00:00:00Z').getTime();
+
+const testament: InactivityTriggerConfig = {
+  check_in_interval: { amount: 30, unit: 'days' },
+  reminders: [{ after: { amount: 0, unit: 'days' }, method: 'in_app_notification' }],
+  confirmation_after: { amount: 7, unit: 'days' },
+  trusted_contacts: [{ contact_id: 'anna', delivery_method: 'in_app_notification' }],
+  required_confirmations: 1,
+  cancellation_window: { amount: 2, unit: 'days' }
+};
+
+describe('Legacy inactivity endpoints', () => {
+  let store: InMemoryLegacyContentStore;
+  let inbox: InAppInboxChannel;
+  let scheduler: LegacyScheduler;
+  let content: LegacyContent;
+
+  async function runAt(day: number) {
+    vi.setSystemTime(new Date(START + day * DAY));
+    return scheduler.runDue();
+  }
+
+  async function phase() {
+    return (await store.getLegacyContent(content.id))!.trigger.inactivity!.phase;
+  }
+
+  async function checkInRequest(userId?: string): Promise<NextRequest> {
+    const headers: Record<string, string> = {};
+    if (userId) {
+      headers.cookie = `${SESSION_COOKIE}=${await getSessionTokenService()!.issue(userId)}`;
+    }
+    return new NextRequest('http://localhost/api/legacy/check-in', { method: 'POST', headers });
+  }
+
+  function confirmationRequest(token: string): NextRequest {
+    return new NextRequest('http://localhost/api/legacy/inactivity-confirmation', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ content_id: content.id, contact_id: 'anna', token })
+    });
+  }
+
+  beforeAll(() => {
+    process.env.SESSION_SIGNING_KEY = 'test-session-key';
+  });
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(START));
+
+    store = new InMemoryLegacyContentStore();
+    inbox = new InAppInboxChannel();
+    const service = new LegacySystemService(DEFAULT_LEGACY_SYSTEM_CONFIG, store, [inbox]);
+    scheduler = new LegacyScheduler(service, store);
+
+    const created = await service.createLegacyContent('mormor', {
+      title: 'Mitt testamente',
+      content: { text: 'Till er alla.' },
+      trigger: service.createInactivityTrigger(testament, 'Om jag slutar höra av mig'),
+      recipients: [{
+        contact_id: 'elsa',
+        relationship: 'grandchild',
+        delivery_preferences: { delivery_method: 'in_app_notification', respect_emotional_state: true, max_delivery_attempts: 3 },
+        consent_status: 'granted',
+        delivery_status: 'scheduled'
+      }]
+    });
+    content = await scheduler.schedule(created.id);
+    server.legacySystem = service;
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    vi.useRealTimers();
+    server.legacySystem = null;
+  });
+
+  it('should refuse check-ins without a session', async () => {
+    expect((await checkIn(await checkInRequest())).status).toBe(401);
+  });
+
+  it('should reset the signed-in creator\'s inactivity triggers on check-in', async () => {
+    await runAt(0);
+    await runAt(30);
+    expect(await phase()).toBe('reminding');
+
+    const response = await checkIn(await checkInRequest('mormor'));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ reset: [content.id] });
+    expect(await phase()).toBe('watching');
+  });
+
+  it('should only accept a confirmation with the token sent to the trusted contact', async () => {
+    await runAt(0);
+    await runAt(30);
+    await runAt(37);
+    const token = inbox.getInbox('anna').filter(item => item.kind === 'inactivity_confirmation')[0].reply_token!;
+
+    expect((await confirmInactivity(confirmationRequest('forged'))).status).toBe(404);
+    expect(await phase()).toBe('awaiting_confirmation');
+
+    const response = await confirmInactivity(confirmationRequest(token));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ phase: 'cancellation_window' });
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * Tests for the inactivity ("dead man's switch") trigger
+ * Reminders, trusted-contact confirmation and the cancellation window before release
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { LegacySystemService, InactivityConfirmationError } from '../../services/legacy-system-service';
+import { LegacyScheduler } from '../../services/legacy-scheduler';
+import { InMemoryLegacyContentStore } from '../../services/legacy-content-store';
+import { ChannelMessage, DeliveryChannel, InAppInboxChannel } from '../../services/legacy-delivery-channels';
+import { InactivityTriggerError } from '../../services/legacy-inactivity';
+import {
+  DeliveryMethod,
+  InactivityTriggerConfig,
+  LegacyContent,
+  LegacyRecipient,
+  LegacySystemConfig
+} from '../../types/legacy-system';
+
+const config: LegacySystemConfig = {
+  max_legacy_content_per_user: 50,
+  max_recipients_per_content: 10,
+  default_max_delivery_attempts: 3,
+  min_retry_delay_hours: 24,
+  max_future_delivery_years: 50,
+  require_mutual_consent: true,
+  inactivity_confirmation_url: 'https://halsning.example/bekrafta'
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = new Date('2030-01-01T00:00:00Z').getTime();
+
+const testament: InactivityTriggerConfig = {
+  check_in_interval: { amount: 30, unit: 'days' },
+  reminders: [
+    { after: { amount: 0, unit: 'days' }, method: 'in_app_notification' },
+    { after: { amount: 3, unit: 'days' }, method: 'sms' }
+  ],
+  confirmation_after: { amount: 7, unit: 'days' },
+  trusted_contacts: [
+    { contact_id: 'anna', delivery_method: 'in_app_notification' },
+    { contact_id: 'bo', delivery_method: 'in_app_notification' },
+    { contact_id: 'cilla', delivery_method: 'sms' }
+  ],
+  required_confirmations: 2,
+  cancellation_window: { amount: 2, unit: 'days' }
+};
+
+function recipient(contactId: string): LegacyRecipient {
+  return {
+    contact_id: contactId,
+    relationship: 'grandchild',
+    delivery_preferences: { delivery_method: 'in_app_notification', respect_emotional_state: true, max_delivery_attempts: 3 },
+    consent_status: 'granted',
+    delivery_status: 'scheduled'
+  };
+}
+
+class RecordingSmsChannel implements DeliveryChannel {
+  readonly method: DeliveryMethod = 'sms';
+  sent: ChannelMessage[] = [];
+  failuresLeft = 0;
+
+  async deliver(message: ChannelMessage) {
+    if (this.failuresLeft > 0) {
+      this.failuresLeft--;
+      throw new Error('SMS gateway unavailable');
+    }
+    this.sent.push(message);
+    return { channel: this.method, message_id: message.idempotency_key, accepted_at: new Date(), details: {} };
+  }
+}
+
+describe('Inactivity trigger', () => {
+  let store: InMemoryLegacyContentStore;
+  let inbox: InAppInboxChannel;
+  let sms: RecordingSmsChannel;
+  let service: LegacySystemService;
+  let scheduler: LegacyScheduler;
+  let content: LegacyContent;
+
+  async function runAt(day: number) {
+    vi.setSystemTime(new Date(START + day * DAY));
+    return scheduler.runDue();
+  }
+
+  async function stored(): Promise<LegacyContent> {
+    return (await store.getLegacyContent(content.id))!;
+  }
+
+  function confirmationToken(contactId: string): string {
+    return inbox.getInbox(contactId).filter(item => item.kind === 'inactivity_confirmation')[0].reply_token!;
+  }
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(START));
+
+    store = new InMemoryLegacyContentStore();
+    inbox = new InAppInboxChannel();
+    sms = new RecordingSmsChannel();
+    service = new LegacySystemService(config, store, [inbox, sms]);
+    scheduler = new LegacyScheduler(service, store);
+
+    const created = await service.createLegacyContent('mormor', {
+      title: 'Mitt testamente',
+      content: { text: 'Till er alla.' },
+      trigger: service.createInactivityTrigger(testament, 'Om jag slutar höra av mig'),
+      recipients: [recipient('elsa'), recipient('olle')],
+      delivery_settings: {
+        tactful_delivery: false,
+        check_emotional_state: false,
+        max_attempts: 3,
+        retry_delay: { amount: 1, unit: 'days' },
+        notify_creator: false
+      }
+    });
+    content = await scheduler.schedule(created.id);
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    vi.useRealTimers();
+  });
+
+  it('should remind, ask trusted contacts and release after the cancellation window', async () => {
+    await runAt(0);
+    expect((await stored()).trigger.next_evaluation_at).toEqual(new Date(START + 30 * DAY));
+
+    await runAt(30);
+    expect(inbox.getInbox('mormor').map(item => item.kind)).toEqual(['check_in_reminder']);
+    expect((await stored()).trigger.next_evaluation_at).toEqual(new Date(START + 33 * DAY));
+
+    await runAt(33);
+    expect(sms.sent.map(m => [m.kind, m.recipient.contact_id])).toEqual([['check_in_reminder', 'mormor']]);
+
+    await runAt(37);
+    let current = await stored();
+    expect(current.trigger.inactivity!.phase).toBe('awaiting_confirmation');
+    expect(current.trigger.next_evaluation_at).toBeUndefined();
+    expect(sms.sent[1].recipient.contact_id).toBe('cilla');
+    expect(sms.sent[1].body).toContain('https://halsning.example/bekrafta?content=');
+
+    await service.confirmInactivity({ content_id: content.id, contact_id: 'anna', token: confirmationToken('anna') });
+    expect((await stored()).trigger.inactivity!.phase).toBe('awaiting_confirmation');
+
+    current = await service.confirmInactivity({ content_id: content.id, contact_id: 'bo', token: confirmationToken('bo') });
+    expect(current.trigger.inactivity!.phase).toBe('cancellation_window');
+    expect(current.trigger.inactivity!.release_at).toEqual(new Date(START + 39 * DAY));
+    expect(current.trigger.next_evaluation_at).toEqual(new Date(START + 39 * DAY));
+    expect(current.delivery_attempts.map(a => [a.recipient_id, a.result, a.error_message])).toEqual([
+      ['elsa', 'deferred', 'inactivity_cancellation_window'],
+      ['olle', 'deferred', 'inactivity_cancellation_window']
+    ]);
+    expect(sms.sent[2].body).toContain('unless you check in');
+
+    await runAt(38);
+    expect(inbox.getInbox('elsa')).toHaveLength(0);
+
+    await runAt(39);
+    current = await stored();
+    expect(current.trigger.inactivity!.phase).toBe('released');
+    expect(current.recipients.map(r => r.delivery_status)).toEqual(['delivered', 'delivered']);
+    expect(current.status).toBe('delivered');
+    expect(inbox.getInbox('elsa').map(item => item.body)).toEqual(['Till er alla.']);
+  });
+
+  it('should cancel a pending release when the creator checks in', async () => {
+    await runAt(0);
+    await runAt(37);
+    await service.confirmInactivity({ content_id: content.id, contact_id: 'anna', token: confirmationToken('anna') });
+    await service.confirmInactivity({ content_id: content.id, contact_id: 'bo', token: confirmationToken('bo') });
+
+    vi.setSystemTime(new Date(START + 38 * DAY));
+    const reset = await service.checkIn('mormor');
+    expect(reset.map(c => c.id)).toEqual([content.id]);
+
+    await runAt(39);
+    const current = await stored();
+    expect(current.trigger.inactivity!.phase).toBe('watching');
+    expect(current.trigger.next_evaluation_at).toEqual(new Date(START + 68 * DAY));
+    expect(current.recipients.map(r => r.delivery_status)).toEqual(['scheduled', 'scheduled']);
+    expect(inbox.getInbox('elsa')).toHaveLength(0);
+
+    await expect(service.confirmInactivity({
+      content_id: content.id,
+      contact_id: 'anna',
+      token: confirmationToken('anna')
+    })).rejects.toBeInstanceOf(InactivityConfirmationError);
+  });
+
+  it('should reject unknown or wrong confirmation tokens', async () => {
+    await runAt(0);
+    await runAt(37);
+
+    await expect(service.confirmInactivity({ content_id: content.id, contact_id: 'anna', token: confirmationToken('bo') }))
+      .rejects.toBeInstanceOf(InactivityConfirmationError);
+    await expect(service.confirmInactivity({ content_id: content.id, contact_id: 'elsa', token: confirmationToken('anna') }))
+      .rejects.toBeInstanceOf(InactivityConfirmationError);
+    expect((await stored()).trigger.inactivity!.confirmations.every(c => !c.confirmed_at)).toBe(true);
+  });
+
+  it('should retry failed notices on the next evaluation', async () => {
+    await runAt(0);
+    await runAt(30);
+
+    sms.failuresLeft = 1;
+    await runAt(33);
+    expect(sms.sent).toHaveLength(0);
+    let current = await stored();
+    expect(current.trigger.inactivity!.failed_notices!.map(n => [n.step, n.attempts])).toEqual([['reminder:1', 1]]);
+    expect(current.trigger.next_evaluation_at).toEqual(new Date(START + 34 * DAY));
+
+    await runAt(34);
+    expect(sms.sent.map(m => [m.kind, m.recipient.contact_id])).toEqual([['check_in_reminder', 'mormor']]);
+    expect((await stored()).trigger.inactivity!.failed_notices).toEqual([]);
+
+    sms.failuresLeft = 1;
+    await runAt(37);
+    current = await stored();
+    expect(current.trigger.inactivity!.failed_notices!.map(n => n.step)).toEqual(['confirm:cilla']);
+    expect(current.trigger.next_evaluation_at).toEqual(new Date(START + 38 * DAY));
+    const firstHash = current.trigger.inactivity!.confirmations[2].token_hash;
+
+    await runAt(38);
+    current = await stored();
+    expect(sms.sent[1]).toMatchObject({ kind: 'inactivity_confirmation', recipient: { contact_id: 'cilla' } });
+    expect(current.trigger.inactivity!.confirmations[2].token_hash).not.toBe(firstHash);
+    expect(current.trigger.inactivity!.failed_notices).toEqual([]);
+    expect(current.trigger.next_evaluation_at).toBeUndefined();
+
+    const token = /token=([^&\s]+)/.exec(sms.sent[1].body)![1];
+    await service.confirmInactivity({ content_id: content.id, contact_id: 'cilla', token });
+    expect((await stored()).trigger.inactivity!.confirmations[2].confirmed_at).toBeDefined();
+  });
+
+  it('should give up on a notice after the configured attempts', async () => {
+    await runAt(0);
+    await runAt(30);
+
+    sms.failuresLeft = 3;
+    await runAt(33);
+    await runAt(34);
+    expect((await stored()).trigger.inactivity!.failed_notices!.map(n => n.attempts)).toEqual([2]);
+
+    await runAt(35);
+    const current = await stored();
+    expect(sms.sent).toHaveLength(0);
+    expect(current.trigger.inactivity!.failed_notices).toEqual([]);
+    expect(current.trigger.next_evaluation_at).toEqual(new Date(START + 37 * DAY));
+  });
+
+  it('should send only the latest due reminder after downtime', async () => {
+    await runAt(0);
+    await runAt(35);
+
+    expect(inbox.getInbox('mormor')).toHaveLength(0);
+    expect(sms.sent.map(m => m.kind)).toEqual(['check_in_reminder']);
+    expect((await stored()).trigger.next_evaluation_at).toEqual(new Date(START + 37 * DAY));
+  });
+
+  it('should reject configurations that cannot work', () => {
+    expect(() => service.createInactivityTrigger({ ...testament, required_confirmations: 4 }, 'x'))
+      .toThrow(InactivityTriggerError);
+    expect(() => service.createInactivityTrigger({
+      ...testament,
+      reminders: [{ after: { amount: 8, unit: 'days' }, method: 'email' }]
+    }, 'x')).toThrow(InactivityTriggerError);
+    expect(() => service.createInactivityTrigger({
+      ...testament,
+      trusted_contacts: [testament.trusted_contacts[0], testament.trusted_contacts[0]]
+    }, 'x')).toThrow(InactivityTriggerError);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Tests for the permission-seeking delivery handshake
+ * Requirement 23.4: Tactful, permission-seeking delivery process
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { LegacySystemService, PermissionReplyError } from '../../services/legacy-system-service';
+import { LegacyScheduler } from '../../services/legacy-scheduler';
+import { InMemoryLegacyContentStore } from '../../services/legacy-content-store';
+import { InAppInboxChannel, InboxItem } from '../../services/legacy-delivery-channels';
+import { UserRepository } from '../../lib/data/user-repository';
+import { LegacyContent, LegacyRecipient, LegacySystemConfig, PermissionReply } from '../../types/legacy-system';
+
+const config: LegacySystemConfig = {
+  max_legacy_content_per_user: 50,
+  max_recipients_per_content: 10,
+  default_max_delivery_attempts: 3,
+  min_retry_delay_hours: 24,
+  max_future_delivery_years: 50,
+  require_mutual_consent: true,
+  permission_reply_url: 'https://halsning.example/svar',
+  permission_request_ttl_days: 7
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function recipient(contactId: string): LegacyRecipient {
+  return {
+    contact_id: contactId,
+    relationship: 'grandchild',
+    delivery_preferences: { delivery_method: 'in_app_notification', respect_emotional_state: true, max_delivery_attempts: 3 },
+    consent_status: 'granted',
+    delivery_status: 'scheduled'
+  };
+}
+
+describe('Legacy permission handshake', () => {
+  let store: InMemoryLegacyContentStore;
+  let inbox: InAppInboxChannel;
+  let service: LegacySystemService;
+  let scheduler: LegacyScheduler;
+  let content: LegacyContent;
+
+  function prompts(): InboxItem[] {
+    return inbox.getInbox('elsa').filter(item => item.kind === 'permission_request');
+  }
+
+  function reply(answer: PermissionReply['answer'], extra: Partial<PermissionReply> = {}): Promise<LegacyContent> {
+    return service.respondToPermissionRequest({
+      content_id: content.id,
+      contact_id: 'elsa',
+      token: prompts()[0].reply_token!,
+      answer,
+      ...extra
+    });
+  }
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2030-06-15T08:00:00Z'));
+
+    const users = new UserRepository();
+    const creator = await users.createUser({
+      user_role: 'senior',
+      display_name: 'Mormor Karin',
+      email: 'karin@example.com',
+      language: 'sv',
+      timezone: 'Europe/Stockholm'
+    });
+
+    store = new InMemoryLegacyContentStore();
+    inbox = new InAppInboxChannel();
+    service = new LegacySystemService(config, store, [inbox], users);
+    scheduler = new LegacyScheduler(service, store);
+    vi.spyOn(service as any, 'getRecipientEmotionalState').mockResolvedValue({
+      fight: 0.1, flight: 0.1, fixes: 0.8, timestamp: new Date(), confidence: 0.9
+    });
+
+    const created = await service.createLegacyContent(creator.id, {
+      title: 'Till Elsa',
+      content: { text: 'Jag är så stolt över dig.' },
+      trigger: service.createTimeBasedTrigger(new Date('2030-06-15T08:00:00Z'), 'Europe/Stockholm'),
+      recipients: [recipient('elsa')]
+    });
+    content = await scheduler.schedule(created.id);
+    await scheduler.runDue();
+    content = (await store.getLegacyContent(content.id))!;
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    vi.useRealTimers();
+  });
+
+  it('should ask for permission with the creator name and a reply link before delivering', async () => {
+    const [prompt] = prompts();
+    const permission = content.recipients[0].permission!;
+
+    expect(inbox.getInbox('elsa')).toHaveLength(1);
+    expect(prompt.body).toContain('Mormor Karin has prepared a special message for you');
+    expect(prompt.body).toContain(
+      `https://halsning.example/svar?content=${content.id}&recipient=elsa&token=${prompt.reply_token}`
+    );
+    expect(permission).toMatchObject({ status: 'awaiting_reply', occurrence: 0, request_count: 1 });
+    expect(permission.token_hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(permission.token_hash).not.toBe(prompt.reply_token);
+    expect(content.delivery_attempts).toEqual([
+      expect.objectContaining({ result: 'deferred', error_message: 'awaiting_permission', attempt_number: 1 })
+    ]);
+    expect(content.trigger.next_evaluation_at).toEqual(new Date('2030-06-22T08:00:00Z'));
+  });
+
+  it('should deliver the content once the recipient accepts', async () => {
+    content = await reply('accept');
+
+    expect(content.recipients[0]).toMatchObject({ delivery_status: 'delivered', permission: { status: 'granted' } });
+    expect(content.delivery_attempts[1]).toMatchObject({ result: 'success', attempt_number: 1 });
+    expect(inbox.getInbox('elsa').map(item => item.kind)).toContain('content');
+    await expect(reply('accept')).rejects.toThrow(PermissionReplyError);
+  });
+
+  it('should ask again after "remind me later" without using up an attempt', async () => {
+    content = await reply('remind_later', { remind_in_days: 3 });
+    const remindAt = new Date('2030-06-18T08:00:00Z');
+
+    expect(content.recipients[0].permission).toMatchObject({ status: 'remind_later', remind_at: remindAt });
+    expect(content.delivery_attempts[1]).toMatchObject({ result: 'deferred', next_retry_at: remindAt });
+    expect(content.trigger.next_evaluation_at).toEqual(remindAt);
+
+    vi.setSystemTime(remindAt);
+    await scheduler.runDue();
+    content = (await store.getLegacyContent(content.id))!;
+
+    expect(prompts()).toHaveLength(2);
+    expect(content.recipients[0].permission).toMatchObject({ status: 'awaiting_reply', request_count: 2 });
+
+    content = await reply('accept');
+    expect(content.delivery_attempts.filter(a => a.result !== 'deferred')).toEqual([
+      expect.objectContaining({ result: 'success', attempt_number: 1 })
+    ]);
+  });
+
+  it('should wait for the content retry delay after "not now"', async () => {
+    content = await reply('not_now');
+
+    expect(content.recipients[0].permission!.remind_at).toEqual(new Date('2030-06-16T08:00:00Z'));
+    expect(content.recipients[0].delivery_status).toBe('scheduled');
+  });
+
+  it('should refuse delivery for good after "never"', async () => {
+    content = await reply('never');
+
+    expect(content.recipients[0]).toMatchObject({ delivery_status: 'refused', permission: { status: 'never' } });
+    expect(content.delivery_attempts[1].result).toBe('refused');
+    expect(inbox.getInbox('elsa').map(item => item.kind)).toEqual(['permission_request']);
+    expect((await store.getLegacyContent(content.id))!.status).toBe('scheduled');
+  });
+
+  it('should reject wrong, expired and malformed replies', async () => {
+    await expect(reply('accept', { token: 'not-the-token' })).rejects.toThrow('Permission request not found or already answered');
+    await expect(reply('remind_later', { remind_in_days: 0 })).rejects.toThrow('Reminder must be between 1 and 365 whole days');
+
+    vi.setSystemTime(new Date('2030-06-22T08:00:00Z'));
+    await expect(reply('accept')).rejects.toThrow('Permission request has expired');
+  });
+
+  it('should send a fresh request when the previous one expires unanswered', async () => {
+    vi.setSystemTime(new Date('2030-06-22T08:00:00Z'));
+    await scheduler.runDue();
+    content = (await store.getLegacyContent(content.id))!;
+
+    expect(prompts()).toHaveLength(2);
+    expect(content.recipients[0].permission!.request_count).toBe(2);
+    expect(content.delivery_attempts.every(a => a.result === 'deferred')).toBe(true);
+  });
+});
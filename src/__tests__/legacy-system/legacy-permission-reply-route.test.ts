@@ -0,0 +1,106 @@
+// @vitest-environment node
+/**
+ * Tests for the legacy permission reply endpoint
+ * Requirement 23.4: Tactful, permission-seeking delivery process
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { DEFAULT_LEGACY_SYSTEM_CONFIG, LegacySystemService } from '../../services/legacy-system-service';
+import { LegacyScheduler } from '../../services/legacy-scheduler';
+import { InMemoryLegacyContentStore } from '../../services/legacy-content-store';
+import { InAppInboxChannel } from '../../services/legacy-delivery-channels';
+import { UserRepository } from '../../lib/data/user-repository';
+import { LegacyContent } from '../../types/legacy-system';
+
+const server = vi.hoisted(() => ({ legacySystem: null as LegacySystemService | null }));
+
+vi.mock('../../lib/server-bootstrap', () => ({
+  bootstrapServer: () => Promise.resolve(),
+  getLegacySystemService: () => server.legacySystem
+}));
+
+import { POST } from '../../app/api/legacy/permission-reply/route';
+
+describe('Legacy permission reply endpoint', () => {
+  let store: InMemoryLegacyContentStore;
+  let inbox: InAppInboxChannel;
+  let scheduler: LegacyScheduler;
+  let content: LegacyContent;
+  let token: string;
+
+  function replyRequest(body: Record<string, unknown>): NextRequest {
+    return new NextRequest('http://localhost/api/legacy/permission-reply', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ content_id: content.id, contact_id: 'elsa', token, ...body })
+    });
+  }
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2030-06-15T08:00:00Z'));
+
+    const users = new UserRepository();
+    const creator = await users.createUser({
+      user_role: 'senior',
+      display_name: 'Mormor Karin',
+      email: 'karin@example.com',
+      language: 'sv',
+      timezone: 'Europe/Stockholm'
+    });
+
+    store = new InMemoryLegacyContentStore();
+    inbox = new InAppInboxChannel();
+    const service = new LegacySystemService(DEFAULT_LEGACY_SYSTEM_CONFIG, store, [inbox], users);
+    scheduler = new LegacyScheduler(service, store);
+    vi.spyOn(service as any, 'getRecipientEmotionalState').mockResolvedValue({
+      fight: 0.1, flight: 0.1, fixes: 0.8, timestamp: new Date(), confidence: 0.9
+    });
+
+    const created = await service.createLegacyContent(creator.id, {
+      title: 'Till Elsa',
+      content: { text: 'Jag är så stolt över dig.' },
+      trigger: service.createTimeBasedTrigger(new Date('2030-06-15T08:00:00Z'), 'Europe/Stockholm'),
+      recipients: [{
+        contact_id: 'elsa',
+        relationship: 'grandchild',
+        delivery_preferences: { delivery_method: 'in_app_notification', respect_emotional_state: true, max_delivery_attempts: 3 },
+        consent_status: 'granted',
+        delivery_status: 'scheduled'
+      }]
+    });
+    content = await scheduler.schedule(created.id);
+    await scheduler.runDue();
+    token = inbox.getInbox('elsa').filter(item => item.kind === 'permission_request')[0].reply_token!;
+    server.legacySystem = service;
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    vi.useRealTimers();
+    server.legacySystem = null;
+  });
+
+  it('should accept the request with the token from its link', async () => {
+    const response = await POST(replyRequest({ answer: 'accept' }));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: 'granted' });
+    expect((await store.getLegacyContent(content.id))!.recipients[0].permission!.status).toBe('granted');
+  });
+
+  it('should refuse a token that does not match the request', async () => {
+    const response = await POST(replyRequest({ answer: 'accept', token: 'forged' }));
+
+    expect(response.status).toBe(404);
+    expect((await store.getLegacyContent(content.id))!.recipients[0].permission!.status).toBe('awaiting_reply');
+  });
+
+  it('should reject unknown answers and a legacy system that is not running', async () => {
+    expect((await POST(replyRequest({ answer: 'maybe' }))).status).toBe(400);
+
+    server.legacySystem = null;
+    expect((await POST(replyRequest({ answer: 'accept' }))).status).toBe(503);
+  });
+});
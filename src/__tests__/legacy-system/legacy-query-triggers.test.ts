@@ -0,0 +1,219 @@
+/**
+ * Tests for query-based legacy triggers
+ * Questions are scored against query patterns and surface the content in conversation
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { LegacySystemService } from '../../services/legacy-system-service';
+import { LegacyScheduler } from '../../services/legacy-scheduler';
+import { InMemoryLegacyContentStore } from '../../services/legacy-content-store';
+import { InAppInboxChannel } from '../../services/legacy-delivery-channels';
+import {
+  combinePatternScores,
+  meetsContextRequirements,
+  scoreTextPattern
+} from '../../services/legacy-query-triggers';
+import {
+  ContextRequirement,
+  LegacyContent,
+  LegacyRecipient,
+  LegacySystemConfig,
+  QueryPattern
+} from '../../types/legacy-system';
+
+const config: LegacySystemConfig = {
+  max_legacy_content_per_user: 50,
+  max_recipients_per_content: 10,
+  default_max_delivery_attempts: 3,
+  min_retry_delay_hours: 24,
+  max_future_delivery_years: 50,
+  require_mutual_consent: true
+};
+
+function pattern(type: QueryPattern['type'], text: string, weight = 1, caseSensitive = false): QueryPattern {
+  return { pattern: text, type, weight, case_sensitive: caseSensitive };
+}
+
+function recipient(contactId: string, userId: string): LegacyRecipient {
+  return {
+    contact_id: contactId,
+    user_id: userId,
+    relationship: 'grandchild',
+    delivery_preferences: { delivery_method: 'in_app_notification', respect_emotional_state: true, max_delivery_attempts: 3 },
+    consent_status: 'granted',
+    delivery_status: 'scheduled'
+  };
+}
+
+describe('Query pattern scoring', () => {
+  it('should score exact, contains and regex patterns', () => {
+    expect(scoreTextPattern(pattern('exact', 'Berätta om gården'), '  berätta om   gården? ')).toBe(1);
+    expect(scoreTextPattern(pattern('exact', 'Berätta om gården', 1, true), 'berätta om gården')).toBe(0);
+    expect(scoreTextPattern(pattern('contains', 'Gården'), 'Hur var det på gården?')).toBe(1);
+    expect(scoreTextPattern(pattern('regex', 'g[aå]rd(en)?'), 'Vem byggde GÅRDEN?')).toBe(1);
+    expect(scoreTextPattern(pattern('regex', '(unclosed'), '(unclosed')).toBe(0);
+  });
+
+  it('should treat patterns as weighted alternatives', () => {
+    const patterns = [pattern('contains', 'gården', 1), pattern('contains', 'ladan', 0.5), pattern('contains', 'kon', 0.5)];
+
+    expect(combinePatternScores(patterns, [1, 0, 0])).toBe(1);
+    expect(combinePatternScores(patterns, [0, 1, 0])).toBe(0.5);
+    expect(combinePatternScores(patterns, [0, 1, 1])).toBe(0.75);
+    expect(combinePatternScores(patterns, [0, 0, 0])).toBe(0);
+    expect(combinePatternScores([pattern('contains', 'x', 0)], [1])).toBe(0);
+  });
+
+  it('should check context requirements', () => {
+    const askedAt = new Date('2030-06-21T21:30:00Z'); // 23:30 in Stockholm
+    const requirements: ContextRequirement[] = [
+      { type: 'time_of_day', criteria: { from_hour: 20, to_hour: 6, time_zone: 'Europe/Stockholm' } },
+      { type: 'user_state', criteria: { max_flight: 0.5 } },
+      { type: 'location', criteria: { place: 'Sommarstugan' } }
+    ];
+    const userState = { fight: 0.1, flight: 0.2, fixes: 0.5, timestamp: askedAt, confidence: 0.9 };
+
+    expect(meetsContextRequirements(undefined, { asked_at: askedAt })).toBe(true);
+    expect(meetsContextRequirements(requirements, {
+      asked_at: askedAt,
+      user_state: userState,
+      location: { place: 'sommarstugan' }
+    })).toBe(true);
+    expect(meetsContextRequirements(requirements, {
+      asked_at: new Date('2030-06-21T12:00:00Z'),
+      user_state: userState,
+      location: { place: 'sommarstugan' }
+    })).toBe(false);
+    expect(meetsContextRequirements(requirements, { asked_at: askedAt, location: { place: 'sommarstugan' } })).toBe(false);
+    expect(meetsContextRequirements(requirements, { asked_at: askedAt, user_state: userState })).toBe(false);
+  });
+});
+
+describe('Query-based legacy triggers', () => {
+  let store: InMemoryLegacyContentStore;
+  let inbox: InAppInboxChannel;
+  let service: LegacySystemService;
+  let scheduler: LegacyScheduler;
+
+  const askedAt = () => new Date();
+
+  async function leaveForQuestion(tactful: boolean, checkEmotionalState = false): Promise<LegacyContent> {
+    const trigger = service.createQueryBasedTrigger(
+      [{ pattern: 'Berätta om gården i Småland', type: 'semantic', weight: 1 }],
+      0.6,
+      'När Elsa frågar om gården'
+    );
+    const content = await service.createLegacyContent('mormor', {
+      title: 'Gården',
+      content: { text: 'Vi hade tre kor och en röd lada.' },
+      trigger,
+      recipients: [recipient('elsa', 'elsa-user'), recipient('olle', 'olle-user')],
+      delivery_settings: {
+        tactful_delivery: tactful,
+        check_emotional_state: checkEmotionalState,
+        max_attempts: 3,
+        retry_delay: { amount: 1, unit: 'days' },
+        notify_creator: false
+      }
+    });
+    return scheduler.schedule(content.id);
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2030-01-01T10:00:00Z'));
+
+    store = new InMemoryLegacyContentStore();
+    inbox = new InAppInboxChannel();
+    service = new LegacySystemService(config, store, [inbox]);
+    scheduler = new LegacyScheduler(service, store);
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    vi.useRealTimers();
+  });
+
+  it('should match semantically similar questions from a recipient only', async () => {
+    const content = await leaveForQuestion(false);
+
+    const matches = await service.findQueryMatches('elsa-user', 'Hur var det på gården i Småland?', { asked_at: askedAt() });
+    expect(matches).toHaveLength(1);
+    expect(matches[0].content.id).toBe(content.id);
+    expect(matches[0].recipient.contact_id).toBe('elsa');
+    expect(matches[0].confidence).toBeGreaterThan(0.6);
+
+    expect(await service.findQueryMatches('elsa-user', 'Vad blir det för väder i morgon?', { asked_at: askedAt() })).toEqual([]);
+    expect(await service.findQueryMatches('someone-else', 'Hur var det på gården i Småland?', { asked_at: askedAt() })).toEqual([]);
+  });
+
+  it('should wait for a question without polling', async () => {
+    const content = await leaveForQuestion(false);
+
+    await scheduler.runDue();
+    const stored = (await store.getLegacyContent(content.id))!;
+
+    expect(stored.status).toBe('scheduled');
+    expect(stored.trigger.next_evaluation_at).toBeUndefined();
+    expect(stored.delivery_attempts).toEqual([]);
+  });
+
+  it('should share the content in the answer when tactful delivery is off', async () => {
+    const content = await leaveForQuestion(false);
+
+    const surfacing = await service.surfaceForQuery('elsa-user', 'Hur var det på gården i Småland?', { asked_at: askedAt() });
+
+    expect(surfacing).toEqual(expect.objectContaining({ content_id: content.id, contact_id: 'elsa', delivered: true }));
+    expect(surfacing!.text).toContain('"Gården"');
+    expect(surfacing!.text).toContain('Vi hade tre kor och en röd lada.');
+    expect(inbox.getInbox('elsa')).toHaveLength(1);
+
+    const stored = (await store.getLegacyContent(content.id))!;
+    expect(stored.trigger.matched_queries).toEqual([
+      expect.objectContaining({ recipient_id: 'elsa', query_text: 'Hur var det på gården i Småland?' })
+    ]);
+    expect(stored.recipients.map(r => r.delivery_status)).toEqual(['delivered', 'scheduled']);
+
+    expect(await service.surfaceForQuery('elsa-user', 'Hur var det på gården i Småland?', { asked_at: askedAt() })).toBeNull();
+  });
+
+  it('should only offer tactful content until the recipient accepts', async () => {
+    const content = await leaveForQuestion(true);
+
+    const surfacing = await service.surfaceForQuery('elsa-user', 'Hur var det på gården i Småland?', { asked_at: askedAt() });
+
+    expect(surfacing!.delivered).toBe(false);
+    expect(surfacing!.text).toContain('Would you like to see it now?');
+    expect(surfacing!.text).not.toContain('Vi hade tre kor');
+    expect(surfacing!.reply_token).toBeTruthy();
+    expect(inbox.getInbox('elsa')).toHaveLength(0);
+
+    // The scheduler sees the open offer and does not ask again
+    await scheduler.runDue();
+    expect(inbox.getInbox('elsa')).toHaveLength(0);
+
+    await service.respondToPermissionRequest({
+      content_id: content.id,
+      contact_id: 'elsa',
+      token: surfacing!.reply_token!,
+      answer: 'accept'
+    });
+
+    const stored = (await store.getLegacyContent(content.id))!;
+    expect(stored.recipients[0].delivery_status).toBe('delivered');
+    expect(inbox.getInbox('elsa')).toHaveLength(1);
+  });
+
+  it('should keep the generic answer when the asker seems upset', async () => {
+    const content = await leaveForQuestion(false, true);
+    const upset = { fight: 0.1, flight: 0.9, fixes: 0.1, timestamp: new Date(), confidence: 0.8 };
+
+    const surfacing = await service.surfaceForQuery('elsa-user', 'Hur var det på gården i Småland?', {
+      asked_at: askedAt(),
+      user_state: upset
+    });
+
+    expect(surfacing).toBeNull();
+    expect((await store.getLegacyContent(content.id))!.trigger.matched_queries).toBeUndefined();
+  });
+});
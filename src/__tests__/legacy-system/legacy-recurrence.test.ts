@@ -0,0 +1,125 @@
+/**
+ * Tests for legacy trigger recurrence expansion
+ * RFC 5545 RRULE and EXDATE handling in the trigger and recipient timezones
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getOccurrenceDate,
+  getUpcomingOccurrences,
+  hasOccurrence,
+  parseRecurrenceRule,
+  RecurrenceRuleError
+} from '../../services/legacy-recurrence';
+import { LegacySystemService } from '../../services/legacy-system-service';
+import { TimeBasedTriggerConfig } from '../../types/legacy-system';
+
+function trigger(deliveryDate: string, recurrence: Partial<TimeBasedTriggerConfig> = {}): TimeBasedTriggerConfig {
+  return {
+    delivery_date: new Date(deliveryDate),
+    timezone: 'Europe/Stockholm',
+    respect_recipient_timezone: true,
+    ...recurrence
+  };
+}
+
+function upcoming(config: TimeBasedTriggerConfig, count: number, after: string, timeZone?: string): string[] {
+  return getUpcomingOccurrences(config, count, new Date(after), timeZone).map(o => o.date.toISOString());
+}
+
+describe('legacy recurrence', () => {
+  it('should expand every third Sunday of May', () => {
+    const config = trigger('2030-05-01T08:00:00Z', { rrule: 'FREQ=YEARLY;BYMONTH=5;BYDAY=3SU' });
+
+    expect(upcoming(config, 3, '2030-01-01T00:00:00Z')).toEqual([
+      '2030-05-19T08:00:00.000Z',
+      '2031-05-18T08:00:00.000Z',
+      '2032-05-16T08:00:00.000Z'
+    ]);
+  });
+
+  it('should stop a birthday greeting at UNTIL', () => {
+    // Born 2000-03-14; the last greeting is on her 30th birthday
+    const config = trigger('2027-03-14T08:00:00Z', { rrule: 'RRULE:FREQ=YEARLY;UNTIL=20300314' });
+
+    expect(upcoming(config, 10, '2027-01-01T00:00:00Z')).toHaveLength(4);
+    expect(hasOccurrence(config, 3)).toBe(true);
+    expect(hasOccurrence(config, 4)).toBe(false);
+  });
+
+  it('should remove EXDATEs after applying COUNT', () => {
+    const config = trigger('2030-01-07T08:00:00Z', {
+      rrule: 'FREQ=WEEKLY;COUNT=3',
+      exdates: [new Date('2030-01-14T08:00:00Z')]
+    });
+
+    expect(upcoming(config, 5, '2030-01-01T00:00:00Z')).toEqual([
+      '2030-01-07T08:00:00.000Z',
+      '2030-01-21T08:00:00.000Z'
+    ]);
+  });
+
+  it('should pick the last weekday of each month with BYSETPOS', () => {
+    const config = trigger('2030-01-01T08:00:00Z', { rrule: 'FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1;COUNT=3' });
+
+    expect(upcoming(config, 3, '2030-01-01T00:00:00Z')).toEqual([
+      '2030-01-31T08:00:00.000Z',
+      '2030-02-28T08:00:00.000Z',
+      '2030-03-29T08:00:00.000Z'
+    ]);
+  });
+
+  it('should keep the wall-clock time across daylight saving changes', () => {
+    // 09:00 in Stockholm, the day before summer time starts
+    const config = trigger('2030-03-30T08:00:00Z', { rrule: 'FREQ=DAILY' });
+
+    expect(getOccurrenceDate(config, 1)).toEqual(new Date('2030-03-31T07:00:00Z'));
+    expect(getOccurrenceDate(config, 1, 'America/New_York')).toEqual(new Date('2030-03-31T13:00:00Z'));
+  });
+
+  it('should skip months without the start day', () => {
+    const config = trigger('2030-01-31T08:00:00Z', { recurring: { type: 'monthly', interval: 1 } });
+
+    expect(getOccurrenceDate(config, 1)).toEqual(new Date('2030-03-31T07:00:00Z'));
+  });
+
+  it('should respect the limits of the simple recurring pattern', () => {
+    const limited = trigger('2030-01-07T08:00:00Z', { recurring: { type: 'weekly', interval: 2, max_occurrences: 2 } });
+    const ended = trigger('2030-06-15T08:00:00Z', {
+      recurring: { type: 'monthly', interval: 1, end_date: new Date('2030-07-31T00:00:00Z') }
+    });
+
+    expect(hasOccurrence(limited, 1)).toBe(true);
+    expect(hasOccurrence(limited, 2)).toBe(false);
+    expect(hasOccurrence(ended, 1)).toBe(true);
+    expect(hasOccurrence(ended, 2)).toBe(false);
+    expect(hasOccurrence(trigger('2030-01-07T08:00:00Z'), 1)).toBe(false);
+  });
+
+  it('should reject rules it cannot expand', () => {
+    expect(() => parseRecurrenceRule('BYMONTH=5')).toThrow(RecurrenceRuleError);
+    expect(() => parseRecurrenceRule('FREQ=HOURLY')).toThrow('Unsupported RRULE frequency: HOURLY');
+    expect(() => parseRecurrenceRule('FREQ=YEARLY;BYWEEKNO=20')).toThrow('Unsupported RRULE part: BYWEEKNO');
+    expect(() => parseRecurrenceRule('FREQ=WEEKLY;BYDAY=2MO')).toThrow(RecurrenceRuleError);
+  });
+
+  it('should base the next evaluation on the expanded occurrences', async () => {
+    const service = new LegacySystemService({
+      max_legacy_content_per_user: 50,
+      max_recipients_per_content: 10,
+      default_max_delivery_attempts: 3,
+      min_retry_delay_hours: 24,
+      max_future_delivery_years: 50,
+      require_mutual_consent: true
+    });
+    const config = trigger('2000-05-01T08:00:00Z', { rrule: 'FREQ=YEARLY;BYMONTH=5;BYDAY=3SU' });
+
+    const created = await service.createTrigger('time_based', config, 'Mors dag');
+    const [next] = getUpcomingOccurrences(config, 1);
+
+    expect(created.next_evaluation_at).toEqual(next.date);
+    expect(created.next_evaluation_at!.getTime()).toBeGreaterThan(Date.now());
+    await expect(service.createTrigger('time_based', trigger('2030-01-01T00:00:00Z', { rrule: 'FREQ=SOMETIMES' }), 'x'))
+      .rejects.toThrow(RecurrenceRuleError);
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * Tests for the durable legacy delivery scheduler
+ * Covers restarts, catch-up after downtime, recurrence limits and recipient timezones
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { LegacySystemService } from '../../services/legacy-system-service';
+import { LegacyScheduler } from '../../services/legacy-scheduler';
+import { InMemoryLegacyContentStore } from '../../services/legacy-content-store';
+import { FileLegacyContentStore } from '../../services/file-legacy-content-store';
+import {
+  DeliveryAttempt,
+  LegacyContentStore,
+  LegacyRecipient,
+  LegacySystemConfig,
+  TimeBasedTriggerConfig
+} from '../../types/legacy-system';
+
+const config: LegacySystemConfig = {
+  max_legacy_content_per_user: 50,
+  max_recipients_per_content: 10,
+  default_max_delivery_attempts: 3,
+  min_retry_delay_hours: 24,
+  max_future_delivery_years: 50,
+  require_mutual_consent: true
+};
+
+function recipient(contactId: string, timezone?: string): LegacyRecipient {
+  return {
+    contact_id: contactId,
+    relationship: 'family',
+    delivery_preferences: {
+      delivery_method: 'in_app_notification',
+      respect_emotional_state: true,
+      max_delivery_attempts: 3,
+      preferred_time: timezone ? { start_hour: 8, end_hour: 20, timezone } : undefined
+    },
+    consent_status: 'granted',
+    delivery_status: 'scheduled'
+  };
+}
+
+function createSystem(store: LegacyContentStore) {
+  const service = new LegacySystemService(config, store);
+  vi.spyOn(service as any, 'requestDeliveryPermission').mockResolvedValue('granted');
+  const deliverContent = vi.spyOn(service as any, 'deliverContent').mockResolvedValue(true);
+  const scheduler = new LegacyScheduler(service, store);
+  return { service, scheduler, deliverContent };
+}
+
+async function scheduleGreeting(
+  system: ReturnType<typeof createSystem>,
+  deliveryDate: Date,
+  recipients: LegacyRecipient[],
+  recurrence: Pick<TimeBasedTriggerConfig, 'recurring' | 'rrule'> = {},
+  respectRecipientTimezone: boolean = true
+) {
+  const trigger = system.service.createTimeBasedTrigger(deliveryDate, 'Europe/Stockholm', respectRecipientTimezone, recurrence);
+  const content = await system.service.createLegacyContent('mormor', { title: 'Grattis', trigger, recipients });
+  return system.scheduler.schedule(content.id);
+}
+
+describe('LegacyScheduler', () => {
+  let store: InMemoryLegacyContentStore;
+  let system: ReturnType<typeof createSystem>;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2030-01-01T00:00:00Z'));
+    store = new InMemoryLegacyContentStore();
+    system = createSystem(store);
+  });
+
+  afterEach(() => {
+    system.scheduler.stop();
+    vi.useRealTimers();
+  });
+
+  it('should deliver a one-off message once when it becomes due', async () => {
+    const content = await scheduleGreeting(system, new Date('2030-06-15T08:00:00Z'), [recipient('elsa')]);
+
+    expect(content.status).toBe('scheduled');
+    expect(content.trigger.next_evaluation_at).toEqual(new Date('2030-06-15T08:00:00Z'));
+    expect((await system.scheduler.runDue()).evaluated).toEqual([]);
+
+    vi.setSystemTime(new Date('2030-06-15T08:00:00Z'));
+    await Promise.all([system.scheduler.runDue(), system.scheduler.runDue()]);
+    await system.scheduler.runDue();
+
+    const delivered = (await store.getLegacyContent(content.id))!;
+    expect(system.deliverContent).toHaveBeenCalledTimes(1);
+    expect((system.deliverContent.mock.calls[0][2] as DeliveryAttempt).idempotency_key).toBe(`${content.id}:0:elsa`);
+    expect(delivered.status).toBe('delivered');
+    expect(delivered.trigger.next_evaluation_at).toBeUndefined();
+    expect(delivered.delivery_attempts[0]).toMatchObject({ occurrence: 0, idempotency_key: `${content.id}:0:elsa`, result: 'success' });
+  });
+
+  it('should retry a failed delivery under the same idempotency key', async () => {
+    system.deliverContent.mockResolvedValueOnce(false);
+    const content = await scheduleGreeting(system, new Date('2030-06-15T08:00:00Z'), [recipient('elsa')]);
+
+    vi.setSystemTime(new Date('2030-06-15T08:00:00Z'));
+    await system.scheduler.runDue();
+    const retryAt = (await store.getLegacyContent(content.id))!.trigger.next_evaluation_at!;
+    expect(retryAt).toEqual(new Date('2030-06-16T08:00:00Z'));
+
+    vi.setSystemTime(retryAt);
+    await system.scheduler.runDue();
+
+    const attempts = (await store.getLegacyContent(content.id))!.delivery_attempts;
+    expect(attempts.map(a => [a.attempt_number, a.result, a.idempotency_key])).toEqual([
+      [1, 'failed', `${content.id}:0:elsa`],
+      [2, 'success', `${content.id}:0:elsa`]
+    ]);
+  });
+
+  it('should collapse missed recurring windows into one catch-up delivery', async () => {
+    const content = await scheduleGreeting(
+      system,
+      new Date('2030-06-15T08:00:00Z'),
+      [recipient('elsa')],
+      { recurring: { type: 'yearly', interval: 1, max_occurrences: 4 } }
+    );
+
+    vi.setSystemTime(new Date('2032-09-01T00:00:00Z'));
+    const result = await system.scheduler.start();
+
+    let stored = (await store.getLegacyContent(content.id))!;
+    expect(result.skipped_occurrences).toBe(2);
+    expect(system.deliverContent).toHaveBeenCalledTimes(1);
+    expect(stored.delivery_attempts[0].occurrence).toBe(2);
+    expect(stored.trigger.occurrence_index).toBe(3);
+    expect(stored.trigger.next_evaluation_at).toEqual(new Date('2033-06-15T08:00:00Z'));
+
+    vi.setSystemTime(new Date('2033-06-15T08:00:00Z'));
+    await system.scheduler.runDue();
+
+    stored = (await store.getLegacyContent(content.id))!;
+    expect(system.deliverContent).toHaveBeenCalledTimes(2);
+    expect(stored.status).toBe('delivered');
+    expect(stored.trigger.next_evaluation_at).toBeUndefined();
+  });
+
+  it('should stop recurring after the end date', async () => {
+    const content = await scheduleGreeting(
+      system,
+      new Date('2030-06-15T08:00:00Z'),
+      [recipient('elsa')],
+      { recurring: { type: 'monthly', interval: 1, end_date: new Date('2030-07-31T00:00:00Z') } }
+    );
+
+    for (const day of ['2030-06-15T08:00:00Z', '2030-07-15T08:00:00Z']) {
+      vi.setSystemTime(new Date(day));
+      await system.scheduler.runDue();
+    }
+
+    const stored = (await store.getLegacyContent(content.id))!;
+    expect(system.deliverContent).toHaveBeenCalledTimes(2);
+    expect(stored.status).toBe('delivered');
+  });
+
+  it('should start a recurrence rule at its next upcoming occurrence', async () => {
+    // Mother's day greetings that began years before the message was scheduled
+    const content = await scheduleGreeting(
+      system,
+      new Date('2020-05-01T08:00:00Z'),
+      [recipient('elsa')],
+      { rrule: 'FREQ=YEARLY;BYMONTH=5;BYDAY=-1SU' }
+    );
+
+    expect(content.trigger.occurrence_index).toBe(10);
+    expect(content.trigger.next_evaluation_at).toEqual(new Date('2030-05-26T08:00:00Z'));
+    expect((await system.scheduler.runDue()).evaluated).toEqual([]);
+  });
+
+  it('should deliver at the wall-clock time in each recipient timezone', async () => {
+    // 10:00 in Stockholm is 08:00 UTC; 10:00 in New York is 14:00 UTC
+    const content = await scheduleGreeting(
+      system,
+      new Date('2030-06-15T08:00:00Z'),
+      [recipient('elsa', 'Europe/Stockholm'), recipient('nils', 'America/New_York')]
+    );
+
+    vi.setSystemTime(new Date('2030-06-15T08:00:00Z'));
+    await system.scheduler.runDue();
+    expect(system.deliverContent.mock.calls.map(call => (call[1] as LegacyRecipient).contact_id)).toEqual(['elsa']);
+    expect((await store.getLegacyContent(content.id))!.trigger.next_evaluation_at).toEqual(new Date('2030-06-15T14:00:00Z'));
+
+    vi.setSystemTime(new Date('2030-06-15T14:00:00Z'));
+    await system.scheduler.runDue();
+    expect(system.deliverContent.mock.calls.map(call => (call[1] as LegacyRecipient).contact_id)).toEqual(['elsa', 'nils']);
+  });
+
+  it('should use the trigger timezone when recipient timezones are not respected', async () => {
+    await scheduleGreeting(
+      system,
+      new Date('2030-06-15T08:00:00Z'),
+      [recipient('elsa', 'Europe/Stockholm'), recipient('nils', 'America/New_York')],
+      {},
+      false
+    );
+
+    vi.setSystemTime(new Date('2030-06-15T08:00:00Z'));
+    await system.scheduler.runDue();
+
+    expect(system.deliverContent).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('LegacyScheduler with file-backed store', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2030-01-01T00:00:00Z'));
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'legacy-'));
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should catch up after a restart without delivering twice', async () => {
+    const filePath = path.join(dir, 'legacy.json');
+    const before = createSystem(new FileLegacyContentStore(filePath));
+    const content = await scheduleGreeting(before, new Date('2030-06-15T08:00:00Z'), [recipient('elsa')]);
+
+    // Process restarts after the delivery date has passed
+    vi.setSystemTime(new Date('2030-06-20T00:00:00Z'));
+    const after = createSystem(new FileLegacyContentStore(filePath));
+    const result = await after.scheduler.start();
+    after.scheduler.stop();
+
+    expect(result.evaluated).toEqual([content.id]);
+    expect(after.deliverContent).toHaveBeenCalledTimes(1);
+
+    const again = createSystem(new FileLegacyContentStore(filePath));
+    await again.scheduler.start();
+    again.scheduler.stop();
+
+    const stored = (await new FileLegacyContentStore(filePath).getLegacyContent(content.id))!;
+    expect(again.deliverContent).not.toHaveBeenCalled();
+    expect(stored.status).toBe('delivered');
+    expect(stored.delivery_attempts[0].attempted_at).toBeInstanceOf(Date);
+  });
+});
@@ -158,6 +158,32 @@ describe('Legacy System Integration', () => {
       expect(screen.getByLabelText('Tid')).toBeInTheDocument();
     });
 
+    it('should preview the next five delivery dates of a recurring trigger', async () => {
+      render(
+        <LegacyContentCreator
+          contacts={mockContacts}
+          onContentCreated={vi.fn()}
+          onSaveDraft={vi.fn()}
+        />
+      );
+
+      fireEvent.change(screen.getByLabelText('Datum'), { target: { value: '2040-05-01' } });
+      fireEvent.change(screen.getByLabelText('Tid'), { target: { value: '09:00' } });
+      fireEvent.change(screen.getByLabelText('Upprepning'), { target: { value: 'custom' } });
+      fireEvent.change(screen.getByLabelText('Regel'), { target: { value: 'FREQ=YEARLY;BYMONTH=5;BYDAY=3SU' } });
+
+      await waitFor(() => {
+        expect(screen.getByText('Kommande leveranser')).toBeTruthy();
+        expect(screen.getAllByRole('listitem')).toHaveLength(5);
+      });
+
+      fireEvent.change(screen.getByLabelText('Regel'), { target: { value: 'FREQ=SOMETIMES' } });
+
+      await waitFor(() => {
+        expect(screen.getByText('Unsupported RRULE frequency: SOMETIMES')).toBeTruthy();
+      });
+    });
+
     it('should allow selecting event-based trigger', async () => {
       // Requirement 23.3: Event-based triggers (milestone achieved by recipient)
       render(
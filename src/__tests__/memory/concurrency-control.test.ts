@@ -433,7 +433,7 @@ describe('Concurrency Control and Transactions', () => {
     it('should handle multiple readers without conflicts', async () => {
       const readScope = {
         ...testScope,
-        permissions: { read: true, write: false, delete: false }
+        permissions: { read: true, write: false, delete: false, raw_cypher: true }
       };
 
       // Mock the GraphRAG query method directly
@@ -7,7 +7,9 @@ import {
   SemanticQuery, 
   GraphData, 
   SemanticData,
-  Transaction 
+  StructuredQuery,
+  Transaction,
+  MemoryAccessError
 } from '../../types/memory';
 import { UserState, MemoryScope } from '../../types';
 
@@ -111,7 +113,7 @@ describe('Dual RAG Architecture Integration', () => {
               value: 'Test User'
             }
           ],
-          returnFields: ['n']
+          returnFields: ['n0']
         }
       };
 
@@ -146,12 +148,17 @@ describe('Dual RAG Architecture Integration', () => {
         parameters: {}
       };
 
-      const results = await graphRAG.query(query, testScope);
+      const architectScope: MemoryScope = {
+        ...testScope,
+        permissions: { ...testScope.permissions, raw_cypher: true }
+      };
+
+      const results = await graphRAG.query(query, architectScope);
 
       expect(results).toHaveLength(1);
       expect(mockSession.run).toHaveBeenCalledWith(
         expect.stringContaining('MATCH (u:User)'),
-        expect.any(Object)
+        expect.objectContaining({ scope_user_ids: ['user1'] })
       );
     });
 
@@ -236,17 +243,97 @@ describe('Dual RAG Architecture Integration', () => {
       mockSession.run.mockResolvedValue({ records: [] });
 
       const query: GraphQuery = {
-        type: 'cypher',
-        query: 'MATCH (n:User) RETURN n'
+        type: 'structured',
+        query: { nodeTypes: ['User'], relationshipTypes: [], filters: [], returnFields: [] }
       };
 
       await graphRAG.query(query, restrictedScope);
 
       expect(mockSession.run).toHaveBeenCalledWith(
-        expect.stringContaining('n0.userId IN $scope_user_ids'),
-        expect.any(Object)
+        'MATCH (n0) WHERE (n0:`User`) AND (n0.userId IN $scope_user_ids) RETURN n0',
+        expect.objectContaining({ scope_user_ids: ['user2'] })
       );
     });
+
+    it('should pass filter values as parameters', async () => {
+      mockSession.run.mockResolvedValue({ records: [] });
+
+      const hostile = "x' OR 1=1 WITH n0 MATCH (m) DETACH DELETE m //";
+      const query: GraphQuery = {
+        type: 'structured',
+        query: {
+          nodeTypes: ['Event', 'Theme'],
+          relationshipTypes: ['RELATES_TO'],
+          filters: [{ property: 'content', operator: 'contains', value: hostile }],
+          returnFields: ['n0', 'r0.weight']
+        }
+      };
+
+      await graphRAG.query(query, testScope);
+
+      const [cypher, parameters] = mockSession.run.mock.calls[0];
+      expect(cypher).not.toContain(hostile);
+      expect(cypher).toContain('(n0:`Event` OR n0:`Theme`)');
+      expect(cypher).toContain('n0.`content` CONTAINS $filter_0');
+      expect(cypher).toContain('OPTIONAL MATCH (n0)-[r0:`RELATES_TO`]->(n1)');
+      expect(cypher).toContain('RETURN n0, r0.`weight` AS `weight`');
+      expect(parameters).toMatchObject({
+        filter_0: hostile,
+        scope_user_ids: ['user1'],
+        scope_project_ids: ['project1'],
+        scope_contact_ids: ['contact1']
+      });
+    });
+
+    it('should reject identifiers outside the graph vocabulary', async () => {
+      const structured = (overrides: Partial<StructuredQuery>): GraphQuery => ({
+        type: 'structured',
+        query: { nodeTypes: ['User'], relationshipTypes: [], filters: [], returnFields: [], ...overrides }
+      });
+
+      await expect(graphRAG.query(structured({ nodeTypes: ['User) DETACH DELETE n0 //'] }), testScope))
+        .rejects.toThrow('Unknown node type');
+      await expect(graphRAG.query(structured({ relationshipTypes: ['KNOWS]->() DELETE n0 //'] }), testScope))
+        .rejects.toThrow('Unknown relationship type');
+      await expect(graphRAG.query(structured({
+        filters: [{ property: 'name = "" OR true //', operator: 'equals', value: 'x' }]
+      }), testScope)).rejects.toThrow('Invalid property name');
+      await expect(graphRAG.query(structured({ returnFields: ['m.name'] }), testScope))
+        .rejects.toThrow('Invalid return field');
+      expect(mockSession.run).not.toHaveBeenCalled();
+    });
+
+    it('should expand seeds with a bounded variable-length pattern', async () => {
+      mockSession.run.mockResolvedValue({
+        records: [{
+          keys: ['n0', 'seedId', 'hops'],
+          _fields: [{ identity: { toString: () => '7' }, labels: ['Theme'], properties: { _id: 'theme1' } }, 'event1', 1],
+          get: (key: string) => (key === 'hops' ? 1 : 'event1')
+        }]
+      });
+
+      const neighbours = await graphRAG.expand(['event1'], { hops: 2, relationshipTypes: ['RELATES_TO'] }, testScope);
+
+      const [cypher, parameters] = mockSession.run.mock.calls[0];
+      expect(cypher).toContain('MATCH path = (seed)-[:`RELATES_TO`*0..2]-(n0)');
+      expect(parameters).toMatchObject({ seedIds: ['event1'], scope_user_ids: ['user1'] });
+      expect(neighbours).toEqual([{
+        node: expect.objectContaining({ type: 'node', data: { _id: 'theme1' } }),
+        seedId: 'event1',
+        hops: 1
+      }]);
+      await expect(graphRAG.expand(['event1'], { hops: 10 }, testScope)).rejects.toThrow('Expansion hops');
+    });
+
+    it('should require architect permission for raw Cypher', async () => {
+      const query: GraphQuery = {
+        type: 'cypher',
+        query: 'MATCH (n) DETACH DELETE n'
+      };
+
+      await expect(graphRAG.query(query, testScope)).rejects.toBeInstanceOf(MemoryAccessError);
+      expect(mockSession.run).not.toHaveBeenCalled();
+    });
   });
 
   describe('Semantic RAG Operations', () => {
@@ -0,0 +1,288 @@
+// Tests for the embedded graph store used when no Neo4j server is available
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { EmbeddedGraphStore } from '../../lib/memory';
+import { FileGraphPersistence } from '../../lib/memory/file-graph-persistence';
+import { MemoryFactory } from '../../lib/memory/memory-factory';
+import { GraphQuery, PropertyFilter, Transaction, ConflictError } from '../../types/memory';
+import { MemoryScope } from '../../types';
+
+const openScope: MemoryScope = {
+  id: 'open',
+  user_ids: [],
+  project_ids: [],
+  contact_ids: [],
+  permissions: { read: true, write: true, delete: true }
+};
+
+function createTransaction(id: string): Transaction {
+  return { id, scope: openScope, startTime: new Date(), status: 'active', operations: [] };
+}
+
+function structured(nodeTypes: string[], filters: PropertyFilter[] = [], relationshipTypes: string[] = []): GraphQuery {
+  return {
+    type: 'structured',
+    query: { nodeTypes, relationshipTypes, filters, returnFields: ['n0'] }
+  };
+}
+
+describe('EmbeddedGraphStore', () => {
+  let store: EmbeddedGraphStore;
+
+  async function seed(): Promise<void> {
+    const tx = createTransaction('seed');
+    await store.beginTransaction(tx);
+    await store.store({
+      nodes: [
+        { id: 'anna', labels: ['User'], properties: { name: 'Anna', userId: 'anna' } },
+        { id: 'midsommar', labels: ['Event'], properties: { content: 'Midsommar på Öland', userId: 'anna', year: 1972 } },
+        { id: 'jul', labels: ['Event'], properties: { content: 'Julafton hos mormor', userId: 'bertil', year: 1980 } }
+      ],
+      relationships: [
+        { id: 'p1', fromNodeId: 'anna', toNodeId: 'midsommar', type: 'PARTICIPATED_IN', properties: {} }
+      ],
+      operation: 'create'
+    }, tx);
+    await store.commitTransaction(tx);
+  }
+
+  beforeEach(async () => {
+    store = new EmbeddedGraphStore();
+    await seed();
+  });
+
+  it('should match node types and property filters', async () => {
+    const results = await store.query(structured(['Event'], [
+      { property: 'content', operator: 'contains', value: 'Öland' }
+    ]), openScope);
+
+    expect(results).toHaveLength(1);
+    expect(results[0].metadata.id).toBe('midsommar');
+    expect(results[0].metadata.labels).toEqual(['Event']);
+    expect(results[0].data.content).toBe('Midsommar på Öland');
+  });
+
+  it('should support comparison operators', async () => {
+    const results = await store.query(structured(['Event'], [
+      { property: 'year', operator: 'greaterThan', value: 1975 }
+    ]), openScope);
+
+    expect(results.map(r => r.metadata.id)).toEqual(['jul']);
+  });
+
+  it('should apply scope filtering like the Neo4j store', async () => {
+    const bertilScope: MemoryScope = { ...openScope, id: 'bertil', user_ids: ['bertil'] };
+
+    const results = await store.query(structured(['Event']), bertilScope);
+
+    expect(results.map(r => r.metadata.id)).toEqual(['jul']);
+  });
+
+  it('should return relationships of requested types between matched nodes', async () => {
+    const results = await store.query(structured(['User', 'Event'], [], ['PARTICIPATED_IN']), openScope);
+    const relationship = results.find(r => r.type === 'relationship');
+
+    expect(results).toHaveLength(4);
+    expect(relationship!.metadata.type).toBe('PARTICIPATED_IN');
+    expect(relationship!.metadata.properties._from).toBe('anna');
+  });
+
+  it('should project requested return fields', async () => {
+    const results = await store.query({
+      type: 'structured',
+      query: { nodeTypes: ['User'], relationshipTypes: [], filters: [], returnFields: ['n0.name'] }
+    }, openScope);
+
+    expect(results[0].data).toEqual({ name: 'Anna' });
+  });
+
+  it('should reject raw Cypher queries', async () => {
+    await expect(store.query({ type: 'cypher', query: 'MATCH (n) RETURN n' }, openScope))
+      .rejects.toThrow('raw Cypher is not supported');
+  });
+
+  it('should hide uncommitted changes and discard them on rollback', async () => {
+    const tx = createTransaction('tx-rollback');
+    await store.beginTransaction(tx);
+    await store.store({
+      nodes: [{ id: 'temp', labels: ['Theme'], properties: { name: 'Temporary' } }],
+      relationships: [],
+      operation: 'create'
+    }, tx);
+
+    expect(await store.query(structured(['Theme']), openScope)).toHaveLength(0);
+
+    await store.rollbackTransaction(tx);
+
+    expect(await store.query(structured(['Theme']), openScope)).toHaveLength(0);
+    await expect(store.rollbackTransaction(tx)).rejects.toThrow('Transaction tx-rollback not found');
+  });
+
+  it('should leave a transaction unchanged when a store call fails', async () => {
+    const tx = createTransaction('tx-partial');
+    await store.beginTransaction(tx);
+
+    const result = await store.store({
+      nodes: [{ id: 'theme1', labels: ['Theme'], properties: {} }],
+      relationships: [{ fromNodeId: 'theme1', toNodeId: 'missing', type: 'RELATES_TO', properties: {} }],
+      operation: 'create'
+    }, tx);
+    await store.commitTransaction(tx);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('not found');
+    expect(store.getNodeCount()).toBe(3);
+  });
+
+  it('should detect stale versions on update', async () => {
+    const [event] = await store.query(structured(['Event'], [
+      { property: 'content', operator: 'startsWith', value: 'Midsommar' }
+    ]), openScope);
+
+    const tx = createTransaction('tx-stale');
+    await store.beginTransaction(tx);
+
+    await expect(store.updateEntity({
+      ...event,
+      data: { content: 'Midsommar 1973' },
+      metadata: { ...event.metadata, properties: { ...event.metadata.properties, _version: 0 } }
+    }, tx)).rejects.toBeInstanceOf(ConflictError);
+  });
+
+  it('should reject the second of two conflicting commits', async () => {
+    const [event] = await store.query(structured(['Event'], [
+      { property: 'content', operator: 'endsWith', value: 'mormor' }
+    ]), openScope);
+
+    const first = createTransaction('tx-first');
+    const second = createTransaction('tx-second');
+    await store.beginTransaction(first);
+    await store.beginTransaction(second);
+
+    await store.updateEntity({ ...event, data: { content: 'Julafton 1980' } }, first);
+    await store.updateEntity({ ...event, data: { content: 'Julafton 1981' } }, second);
+
+    await store.commitTransaction(first);
+    await expect(store.commitTransaction(second)).rejects.toBeInstanceOf(ConflictError);
+
+    const [updated] = await store.query(structured(['Event'], [
+      { property: 'year', operator: 'equals', value: 1980 }
+    ]), openScope);
+    expect(updated.data.content).toBe('Julafton 1980');
+    expect(updated.metadata.properties._version).toBe(2);
+  });
+
+  it('should detach relationships when deleting a node', async () => {
+    const tx = createTransaction('tx-delete');
+    await store.beginTransaction(tx);
+    const result = await store.store({
+      nodes: [{ id: 'anna', labels: ['User'], properties: {} }],
+      relationships: [],
+      operation: 'delete'
+    }, tx);
+    await store.commitTransaction(tx);
+
+    expect(result.success).toBe(true);
+    expect(store.getNodeCount()).toBe(2);
+    expect(store.getRelationshipCount()).toBe(0);
+  });
+
+  it('should expand seed nodes by relationship hops within scope', async () => {
+    const tx = createTransaction('tx-expand');
+    await store.beginTransaction(tx);
+    await store.store({
+      nodes: [{ id: 'oland', labels: ['Theme'], properties: { name: 'Öland', userId: 'anna' } }],
+      relationships: [{ fromNodeId: 'midsommar', toNodeId: 'oland', type: 'RELATES_TO', properties: {} }],
+      operation: 'create'
+    }, tx);
+    await store.commitTransaction(tx);
+
+    const oneHop = await store.expand(['anna'], { hops: 1 }, openScope);
+    const twoHops = await store.expand(['anna'], { hops: 2 }, { ...openScope, user_ids: ['anna'] });
+    const participation = await store.expand(['anna'], { hops: 2, relationshipTypes: ['PARTICIPATED_IN'] }, openScope);
+
+    expect(oneHop.map(n => [n.node.metadata.id, n.hops])).toEqual([['anna', 0], ['midsommar', 1]]);
+    expect(twoHops.map(n => n.node.metadata.id)).toEqual(['anna', 'midsommar', 'oland']);
+    expect(twoHops[2].seedId).toBe('anna');
+    expect(participation.map(n => n.node.metadata.id)).toEqual(['anna', 'midsommar']);
+  });
+
+  it('should merge labels and properties into existing nodes', async () => {
+    const tx = createTransaction('tx-merge');
+    await store.beginTransaction(tx);
+    await store.store({
+      nodes: [{ id: 'anna', labels: ['Contact'], properties: { nickname: 'Mormor' } }],
+      relationships: [],
+      operation: 'merge'
+    }, tx);
+    await store.commitTransaction(tx);
+
+    const [anna] = await store.query(structured(['Contact']), openScope);
+    expect(anna.metadata.labels).toEqual(['User', 'Contact']);
+    expect(anna.data).toMatchObject({ name: 'Anna', nickname: 'Mormor', _version: 2 });
+  });
+});
+
+describe('EmbeddedGraphStore file persistence', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'graph-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should reload committed data and ignore rolled back data', async () => {
+    const filePath = path.join(dir, 'graph.json');
+    const first = new EmbeddedGraphStore({ persistence: new FileGraphPersistence(filePath) });
+
+    const committed = createTransaction('committed');
+    await first.beginTransaction(committed);
+    await first.store({
+      nodes: [{ id: 'farm', labels: ['Theme'], properties: { name: 'Gården' } }],
+      relationships: [],
+      operation: 'create'
+    }, committed);
+    await first.commitTransaction(committed);
+
+    const rolledBack = createTransaction('rolled-back');
+    await first.beginTransaction(rolledBack);
+    await first.store({
+      nodes: [{ id: 'lake', labels: ['Theme'], properties: { name: 'Sjön' } }],
+      relationships: [],
+      operation: 'create'
+    }, rolledBack);
+    await first.rollbackTransaction(rolledBack);
+
+    const second = new EmbeddedGraphStore({ persistence: new FileGraphPersistence(filePath) });
+    const results = await second.query(structured(['Theme']), openScope);
+
+    expect(results.map(r => r.data.name)).toEqual(['Gården']);
+  });
+});
+
+describe('MemoryFactory with embedded graph store', () => {
+  afterEach(async () => {
+    await MemoryFactory.getInstance().cleanup();
+  });
+
+  it('should initialize without a Neo4j server', async () => {
+    const factory = MemoryFactory.getInstance();
+    const memoryAssistant = await factory.initialize(MemoryFactory.createTestConfig());
+
+    const result = await memoryAssistant.storeGraphRAG({
+      nodes: [{ labels: ['Event'], properties: { content: 'Första skoldagen', userId: 'anna' } }],
+      relationships: [],
+      operation: 'create'
+    }, { ...openScope, user_ids: ['anna'] });
+
+    expect(result.success).toBe(true);
+    expect(factory.getGraphRAG().name).toBe('embedded');
+    expect(factory.getHealthStatus().status).toBe('healthy');
+  });
+});
@@ -0,0 +1,174 @@
+// Unit tests for embedding providers and dimension validation
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { HashedNgramEmbeddingProvider, RemoteEmbeddingProvider, SemanticRAG } from '../../lib/memory';
+import { EmbeddingDimensionError } from '../../types/memory';
+import { MemoryScope } from '../../types';
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+  }
+  return dot; // Vectors are L2-normalized
+}
+
+describe('HashedNgramEmbeddingProvider', () => {
+  let provider: HashedNgramEmbeddingProvider;
+
+  beforeEach(() => {
+    provider = new HashedNgramEmbeddingProvider({ dimension: 256 });
+  });
+
+  it('should produce deterministic vectors of the configured dimension', async () => {
+    const first = await provider.embed('Sommaren på landet med mormor');
+    const second = await provider.embed('Sommaren på landet med mormor');
+
+    expect(first).toHaveLength(256);
+    expect(first).toEqual(second);
+  });
+
+  it('should produce unit-length vectors', async () => {
+    const embedding = await provider.embed('We went fishing at the lake every summer');
+    const norm = Math.sqrt(embedding.reduce((sum, v) => sum + v * v, 0));
+
+    expect(norm).toBeCloseTo(1, 5);
+  });
+
+  it('should return a zero vector for text without content words', async () => {
+    const embedding = await provider.embed('och det är');
+
+    expect(embedding.every(v => v === 0)).toBe(true);
+  });
+
+  it('should rank related Swedish memories above unrelated ones', async () => {
+    const query = await provider.embed('Minns du sommarstugan vid sjön?');
+    const related = await provider.embed('Vi bodde i sommarstugan vid sjön varje sommar');
+    const unrelated = await provider.embed('Deklarationen ska lämnas in till Skatteverket');
+
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+  });
+
+  it('should rank related English memories above unrelated ones', async () => {
+    const query = await provider.embed('grandpa fishing trips');
+    const related = await provider.embed('Grandpa took us fishing on the lake');
+    const unrelated = await provider.embed('The quarterly tax report is due');
+
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+  });
+
+  it('should stem inflected Swedish forms to a shared token', () => {
+    expect(provider.tokenize('stugan stugor')).toEqual(['stug', 'stug']);
+  });
+
+  it('should embed batches in order', async () => {
+    const batch = await provider.embedBatch(['första minnet', 'andra minnet']);
+
+    expect(batch).toHaveLength(2);
+    expect(batch[0]).toEqual(await provider.embed('första minnet'));
+    expect(batch[1]).toEqual(await provider.embed('andra minnet'));
+  });
+
+  it('should scale each feature kind by its weight', async () => {
+    const text = 'Sommaren på landet med mormor';
+    const wordsOnly = new HashedNgramEmbeddingProvider({ dimension: 256, bigramWeight: 0, charNgramWeight: 0 });
+    const faintNgrams = new HashedNgramEmbeddingProvider({ dimension: 256, bigramWeight: 0, charNgramWeight: 0.01 });
+
+    // Faint sub-word features barely move the vector away from the word features
+    expect(cosine(await wordsOnly.embed(text), await faintNgrams.embed(text))).toBeGreaterThan(0.95);
+  });
+
+  it('should reject invalid dimensions', () => {
+    expect(() => new HashedNgramEmbeddingProvider({ dimension: 0 })).toThrow('Invalid embedding dimension');
+  });
+});
+
+describe('RemoteEmbeddingProvider', () => {
+  it('should batch texts through the transport', async () => {
+    const transport = vi.fn(async (texts: string[]) => texts.map(() => [0.1, 0.2, 0.3]));
+    const provider = new RemoteEmbeddingProvider({ model: 'test-model', dimension: 3, maxBatchSize: 2 }, transport);
+
+    const embeddings = await provider.embedBatch(['a', 'b', 'c']);
+
+    expect(embeddings).toHaveLength(3);
+    expect(transport).toHaveBeenCalledTimes(2);
+    expect(transport).toHaveBeenCalledWith(['a', 'b'], 'test-model');
+    expect(provider.name).toBe('remote:test-model');
+  });
+
+  it('should reject vectors with the wrong dimension', async () => {
+    const provider = new RemoteEmbeddingProvider(
+      { model: 'test-model', dimension: 4 },
+      async (texts) => texts.map(() => [0.1, 0.2])
+    );
+
+    await expect(provider.embed('hej')).rejects.toBeInstanceOf(EmbeddingDimensionError);
+  });
+
+  it('should reject responses with a missing vector', async () => {
+    const provider = new RemoteEmbeddingProvider(
+      { model: 'test-model', dimension: 2 },
+      async () => [[0.1, 0.2]]
+    );
+
+    await expect(provider.embedBatch(['a', 'b'])).rejects.toThrow('returned 1 vectors for 2 texts');
+  });
+});
+
+describe('SemanticRAG dimension validation', () => {
+  const scope: MemoryScope = {
+    id: 'test-scope',
+    user_ids: ['user1'],
+    project_ids: [],
+    contact_ids: [],
+    permissions: { read: true, write: true, delete: false }
+  };
+
+  const metadata = { source: 'test', tags: [], timestamp: new Date() };
+
+  it('should reject embeddings that do not match the configured dimension', async () => {
+    const semanticRAG = new SemanticRAG({ embeddingDimension: 4 });
+
+    const result = await semanticRAG.store({ content: 'fel', embedding: [0.1, 0.2], metadata }, undefined, scope);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('does not match store dimension 4');
+    expect(semanticRAG.getEntryCount()).toBe(0);
+  });
+
+  it('should lock the dimension to the first stored entry when not configured', async () => {
+    const semanticRAG = new SemanticRAG();
+
+    const first = await semanticRAG.store({ content: 'ett', embedding: [0.1, 0.2, 0.3], metadata }, undefined, scope);
+    const second = await semanticRAG.store({ content: 'två', embedding: [0.1, 0.2], metadata }, undefined, scope);
+
+    expect(first.success).toBe(true);
+    expect(second.success).toBe(false);
+    expect(semanticRAG.getEmbeddingDimension()).toBe(3);
+
+    semanticRAG.clear();
+    expect(semanticRAG.getEmbeddingDimension()).toBeNull();
+  });
+
+  it('should recall memories embedded with the hashed provider', async () => {
+    const provider = new HashedNgramEmbeddingProvider({ dimension: 256 });
+    const semanticRAG = new SemanticRAG({ embeddingDimension: 256 });
+    const memories = [
+      'Mormor bakade kanelbullar i köket varje lördag',
+      'Vi åkte skridskor på sjön när isen hade lagt sig',
+      'Pappa reparerade den gamla traktorn på gården'
+    ];
+
+    for (const content of memories) {
+      await semanticRAG.store({ content, embedding: await provider.embed(content), metadata }, undefined, scope);
+    }
+
+    const results = await semanticRAG.query({
+      text: 'kanelbullar hos mormor',
+      embedding: await provider.embed('kanelbullar hos mormor'),
+      threshold: 0.1
+    }, scope);
+
+    expect(results[0].content).toBe(memories[0]);
+  });
+});
@@ -0,0 +1,86 @@
+// Tests for hybrid STM retrieval fusing semantic hits with graph neighbourhoods
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MemoryAssistantImpl, EmbeddedGraphStore, SemanticRAG } from '../../lib/memory';
+import { MemoryScope, ResourceBudget, UserState } from '../../types';
+
+const scope: MemoryScope = {
+  id: 'family',
+  user_ids: ['anna'],
+  project_ids: [],
+  contact_ids: [],
+  permissions: { read: true, write: true, delete: false }
+};
+
+const userState: UserState = { fight: 0.1, flight: 0.1, fixes: 0.8, timestamp: new Date(), confidence: 0.9 };
+
+function budget(maxContextTokens?: number): ResourceBudget {
+  return {
+    max_llm_calls: 10,
+    max_compute_units: 100,
+    max_storage_bytes: 1024 * 1024,
+    max_execution_time: 60000,
+    max_context_tokens: maxContextTokens
+  };
+}
+
+describe('MemoryAssistant hybrid retrieval', () => {
+  let memoryAssistant: MemoryAssistantImpl;
+
+  beforeEach(async () => {
+    memoryAssistant = new MemoryAssistantImpl(new EmbeddedGraphStore(), new SemanticRAG(), { semanticThreshold: 0.1 });
+
+    await memoryAssistant.storeGraphRAG({
+      nodes: [
+        { id: 'midsommar', labels: ['Event'], properties: { content: 'Midsommar på Öland', userId: 'anna' } },
+        { id: 'mormor', labels: ['Contact'], properties: { name: 'Mormor Elsa', userId: 'anna' } },
+        { id: 'ladan', labels: ['Theme'], properties: { name: 'Ladan på gården', userId: 'anna' } },
+        { id: 'bertil', labels: ['Event'], properties: { content: 'Bertils midsommar', userId: 'bertil' } }
+      ],
+      relationships: [
+        { fromNodeId: 'mormor', toNodeId: 'midsommar', type: 'PARTICIPATED_IN', properties: {} },
+        { fromNodeId: 'mormor', toNodeId: 'ladan', type: 'RELATES_TO', properties: {} }
+      ],
+      operation: 'create'
+    }, scope);
+
+    await memoryAssistant.storeSemanticRAG({
+      content: 'Vi dansade runt midsommarstången på Öland med mormor',
+      embedding: await memoryAssistant.getEmbeddingProvider().embed('Vi dansade runt midsommarstången på Öland med mormor'),
+      metadata: { source: 'journal', tags: ['node:midsommar'], timestamp: new Date() }
+    }, userState, scope);
+  });
+
+  it('should merge linked semantic hits with their graph node and expand neighbours', async () => {
+    const context = await memoryAssistant.loadSTM('thread-1', 'midsommarstången på Öland', {
+      mode: 'hybrid',
+      scope,
+      hops: 2
+    });
+
+    const ids = context.ranked!.map(item => item.id);
+
+    expect(ids[0]).toBe('midsommar');
+    expect(context.ranked![0].semantic).toBeDefined();
+    expect(context.ranked![0].graph).toBeDefined();
+    expect(ids).toEqual(expect.arrayContaining(['mormor', 'ladan']));
+    expect(ids).not.toContain('bertil');
+    expect(ids.indexOf('mormor')).toBeLessThan(ids.indexOf('ladan'));
+    expect(context.semanticData).toHaveLength(1);
+    expect(context.graphData).toHaveLength(3);
+    expect(context.userStates).toHaveLength(1);
+  });
+
+  it('should trim fused results to the agent token budget', async () => {
+    const context = await memoryAssistant.loadSTM('thread-2', 'midsommarstången på Öland', {
+      mode: 'hybrid',
+      scope,
+      hops: 2,
+      resourceBudget: budget(60)
+    });
+
+    expect(context.tokenCount).toBeLessThanOrEqual(60);
+    expect(context.ranked!.length).toBeLessThan(3);
+    expect(context.ranked!.reduce((total, item) => total + item.tokens, 0)).toBe(context.tokenCount);
+  });
+});
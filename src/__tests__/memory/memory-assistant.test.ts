@@ -50,7 +50,8 @@ describe('MemoryAssistant', () => {
       permissions: {
         read: true,
         write: true,
-        delete: false
+        delete: false,
+        raw_cypher: true
       }
     };
 
@@ -600,6 +601,22 @@ describe('MemoryAssistant', () => {
         .rejects.toThrow(MemoryAccessError);
     });
 
+    it('should deny raw Cypher without architect permission', async () => {
+      const seniorScope = {
+        ...testScope,
+        permissions: { read: true, write: true, delete: false }
+      };
+
+      const query: GraphQuery = {
+        type: 'cypher',
+        query: 'MATCH (n:User) RETURN n'
+      };
+
+      await expect(memoryAssistant.queryGraphRAG(query, seniorScope))
+        .rejects.toThrow(MemoryAccessError);
+      expect(mockGraphRAG.query).not.toHaveBeenCalled();
+    });
+
     it('should deny write access without permission', async () => {
       const noWriteScope = {
         ...testScope,
@@ -0,0 +1,263 @@
+// Tests for the consolidation pipeline that turns STM and reflections into graph facts
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  EmbeddedGraphStore,
+  HeuristicFactExtractor,
+  MemoryAssistantImpl,
+  MemoryConsolidator,
+  SemanticRAG
+} from '../../lib/memory';
+import { MemoryFactory } from '../../lib/memory/memory-factory';
+import { ConsolidationSource, GraphQuery, STMContext } from '../../types/memory';
+import { MemoryScope } from '../../types';
+import { ReflectionEntry } from '../../types/chronicler';
+
+const annaScope: MemoryScope = {
+  id: 'anna',
+  user_ids: ['anna'],
+  project_ids: [],
+  contact_ids: [],
+  permissions: { read: true, write: true, delete: false }
+};
+
+function nodesOf(label: string, category?: string): GraphQuery {
+  return {
+    type: 'structured',
+    query: {
+      nodeTypes: [label],
+      relationshipTypes: [],
+      filters: category ? [{ property: 'category', operator: 'equals', value: category }] : [],
+      returnFields: ['n0']
+    }
+  };
+}
+
+function reflection(id: string, text: string): ReflectionEntry {
+  return {
+    id,
+    user_id: 'anna',
+    title: '',
+    content: {
+      text,
+      blocks: [],
+      metadata: { word_count: 0, reading_time_minutes: 1, dominant_emotions: ['nostalgia'], themes: [], language: 'sv' }
+    },
+    emotional_context: { fight: 0.1, flight: 0.1, fixes: 0.8, timestamp: new Date(), confidence: 0.9 },
+    privacy_level: 'private',
+    assets: [],
+    tags: [],
+    shareable: false,
+    created_at: new Date('1999-06-25T12:00:00Z'),
+    updated_at: new Date('1999-06-25T12:00:00Z'),
+    status: 'saved'
+  };
+}
+
+describe('HeuristicFactExtractor', () => {
+  it('should extract people, places, events and emotions', async () => {
+    const source: ConsolidationSource = {
+      kind: 'reflection',
+      id: 'r1',
+      text: 'Midsommar på Öland. Vi dansade med mormor och Elsa Andersson och var så glada.',
+      timestamp: new Date()
+    };
+
+    const facts = await new HeuristicFactExtractor().extract(source);
+    const byKind = (kind: string) => facts.entities.filter(e => e.kind === kind).map(e => e.name);
+
+    expect(byKind('event')).toEqual(['Midsommar på Öland']);
+    expect(byKind('place')).toEqual(['Öland']);
+    expect(byKind('person')).toEqual(['Mormor', 'Elsa Andersson']);
+    expect(byKind('emotion')).toEqual(['joy']);
+    expect(facts.relationships).toContainEqual({ from: 2, to: 0, type: 'PARTICIPATED_IN' });
+    expect(facts.relationships).toContainEqual({ from: 0, to: 1, type: 'RELATES_TO' });
+  });
+});
+
+describe('MemoryConsolidator', () => {
+  let store: EmbeddedGraphStore;
+  let consolidator: MemoryConsolidator;
+
+  beforeEach(() => {
+    store = new EmbeddedGraphStore();
+    consolidator = new MemoryConsolidator(store);
+  });
+
+  it('should merge repeated mentions into one node with provenance', async () => {
+    consolidator.enqueueReflection(reflection('r1', 'Midsommar på Öland. Mormor bakade jordgubbstårta.'));
+    consolidator.enqueueReflection(reflection('r2', 'Julafton hos mormor. Vi var tacksamma.'));
+
+    const results = await consolidator.runPending();
+    const contacts = await store.query(nodesOf('Contact'), annaScope);
+    const events = await store.query(nodesOf('Event'), annaScope);
+    const places = await store.query(nodesOf('Theme', 'place'), annaScope);
+
+    expect(results.every(result => result.success)).toBe(true);
+    expect(contacts).toHaveLength(1);
+    expect(results[1].mergedNodeIds).toContain(contacts[0].metadata.id);
+    expect(contacts[0].data.sources).toEqual(['reflection:r1', 'reflection:r2']);
+    expect(events.map(event => event.data.name)).toEqual(['Midsommar på Öland', 'Julafton hos mormor']);
+    expect(places.map(place => place.data.name)).toEqual(['Öland']);
+    expect(consolidator.getPendingCount()).toBe(0);
+  });
+
+  it('should be idempotent when a source is consolidated again', async () => {
+    consolidator.enqueueReflection(reflection('r1', 'Midsommar på Öland med mormor.'));
+    await consolidator.runPending();
+    const nodeCount = store.getNodeCount();
+    const relationshipCount = store.getRelationshipCount();
+
+    consolidator.enqueueReflection(reflection('r1', 'Midsommar på Öland med mormor.'));
+    const [result] = await consolidator.runPending();
+
+    expect(result.success).toBe(true);
+    expect(result.createdNodeIds).toHaveLength(0);
+    expect(store.getNodeCount()).toBe(nodeCount);
+    expect(store.getRelationshipCount()).toBe(relationshipCount);
+  });
+
+  it('should keep facts of different users apart', async () => {
+    consolidator.enqueueReflection(reflection('r1', 'Fika med mormor.'));
+    consolidator.enqueueReflection({ ...reflection('r2', 'Fika med mormor.'), user_id: 'bertil' });
+    await consolidator.runPending();
+
+    const annaContacts = await store.query(nodesOf('Contact'), annaScope);
+    const bertilContacts = await store.query(nodesOf('Contact'), { ...annaScope, user_ids: ['bertil'] });
+
+    expect(annaContacts).toHaveLength(1);
+    expect(bertilContacts).toHaveLength(1);
+    expect(annaContacts[0].metadata.id).not.toBe(bertilContacts[0].metadata.id);
+  });
+
+  it('should report extraction failures without throwing', async () => {
+    const failing = new MemoryConsolidator(store, {
+      extractor: { name: 'failing', extract: async () => { throw new Error('model unavailable'); } }
+    });
+    failing.enqueueReflection(reflection('r1', 'Midsommar.'));
+
+    const [result] = await failing.runPending();
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('model unavailable');
+    expect(failing.getStats().failed).toBe(1);
+  });
+
+  it('should consolidate modified STM contexts handed over by the MemoryAssistant', async () => {
+    const memoryAssistant = new MemoryAssistantImpl(store, new SemanticRAG(), { consolidator });
+    const context: STMContext = {
+      contextThread: 'thread-1',
+      graphData: [],
+      semanticData: [{
+        content: 'Vi pratade om sommarstugan i Dalarna.',
+        embedding: [],
+        similarity: 1,
+        metadata: { id: 's1', timestamp: new Date(), source: 'conversation', tags: [] }
+      }],
+      userStates: [],
+      createdAt: new Date(),
+      expiresAt: new Date(),
+      modified: true,
+      scope: annaScope
+    };
+
+    await memoryAssistant.consolidateSTM('thread-1', context);
+    await consolidator.runPending();
+
+    const [place] = await store.query(nodesOf('Theme', 'place'), annaScope);
+    expect(place.data).toMatchObject({ name: 'Dalarna', userId: 'anna', sources: ['conversation:thread-1'] });
+  });
+
+  it('should consolidate a shared conversation into each participant\'s own graph', async () => {
+    consolidator.enqueueReflection({ ...reflection('r1', 'Fika med mormor.'), user_id: 'bertil' });
+    await consolidator.runPending();
+    consolidator.enqueueSTMContext({
+      contextThread: 'thread-2',
+      graphData: [],
+      semanticData: [{
+        content: 'Vi pratade om mormor.',
+        embedding: [],
+        similarity: 1,
+        metadata: { id: 's2', timestamp: new Date(), source: 'conversation', tags: [] }
+      }],
+      userStates: [],
+      createdAt: new Date(),
+      expiresAt: new Date(),
+      modified: true,
+      scope: { ...annaScope, user_ids: ['anna', 'bertil'] }
+    });
+    const results = await consolidator.runPending();
+
+    const annaContacts = await store.query(nodesOf('Contact'), annaScope);
+    const bertilContacts = await store.query(nodesOf('Contact'), { ...annaScope, user_ids: ['bertil'] });
+
+    expect(results).toHaveLength(2);
+    expect(annaContacts.map(contact => contact.data.sources)).toEqual([['conversation:thread-2']]);
+    expect(bertilContacts.map(contact => contact.data.sources)).toEqual([['reflection:r1', 'conversation:thread-2']]);
+  });
+
+  it('should not consolidate sources without an owning user', async () => {
+    const result = await consolidator.consolidate({ kind: 'conversation', id: 'thread-3', text: 'Fika med mormor.', timestamp: new Date() });
+
+    expect(result.success).toBe(false);
+    expect(store.getNodeCount()).toBe(0);
+  });
+
+  it('should retry failed sources on later runs until their attempts run out', async () => {
+    let calls = 0;
+    const flaky = new MemoryConsolidator(store, {
+      maxAttempts: 2,
+      extractor: {
+        name: 'flaky',
+        extract: async () => {
+          calls++;
+          throw new Error('model unavailable');
+        }
+      }
+    });
+    flaky.enqueueReflection(reflection('r1', 'Midsommar.'));
+
+    await flaky.runPending();
+    expect(flaky.getPendingCount()).toBe(1);
+    await flaky.runPending();
+    expect(flaky.getPendingCount()).toBe(0);
+    expect(calls).toBe(2);
+
+    const recovering = new MemoryConsolidator(store, {
+      extractor: {
+        name: 'recovering',
+        extract: async (source) => {
+          if (recovering.getStats().failed === 0) {
+            throw new Error('model unavailable');
+          }
+          return new HeuristicFactExtractor().extract(source);
+        }
+      }
+    });
+    recovering.enqueueReflection(reflection('r2', 'Julafton hos mormor.'));
+
+    expect((await recovering.runPending())[0].success).toBe(false);
+    expect((await recovering.runPending())[0].success).toBe(true);
+    expect(recovering.getPendingCount()).toBe(0);
+  });
+});
+
+describe('MemoryFactory consolidation tick', () => {
+  afterEach(async () => {
+    await MemoryFactory.getInstance().cleanup();
+  });
+
+  it('should consolidate queued sources on maintenance', async () => {
+    const factory = MemoryFactory.getInstance();
+    await factory.initialize(MemoryFactory.createTestConfig());
+
+    factory.getConsolidator().enqueueReflection(reflection('r1', 'Skolavslutning i Visby med farfar.'));
+    expect(factory.getHealthStatus().metrics.pendingConsolidations).toBe(1);
+
+    const results = await factory.runMaintenance();
+
+    expect(results).toHaveLength(1);
+    expect(results[0].success).toBe(true);
+    expect(factory.getHealthStatus().metrics.pendingConsolidations).toBe(0);
+  });
+});
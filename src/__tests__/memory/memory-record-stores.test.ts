@@ -0,0 +1,73 @@
+// @vitest-environment node
+// Unit tests for the record stores over the memory assistant
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  createCollaborativeSessionRecordStore,
+  createReflectionRecordStore
+} from '../../lib/memory/memory-record-stores';
+import { MemoryAssistant } from '../../types/memory';
+import { ReflectionEntry } from '../../types/chronicler';
+import { CollaborativeSession } from '../../types/collaboration';
+
+function session(id: string, hostId: string, participantIds: string[]): CollaborativeSession {
+  return {
+    id,
+    host_user_id: hostId,
+    participants: participantIds.map(user_id => ({ user_id })),
+    status: 'active'
+  } as unknown as CollaborativeSession;
+}
+
+describe('Memory record stores', () => {
+  let memoryAssistant: {
+    getUserReflections: ReturnType<typeof vi.fn>;
+    getReflection: ReturnType<typeof vi.fn>;
+    saveReflection: ReturnType<typeof vi.fn>;
+    listActiveCollaborativeSessions: ReturnType<typeof vi.fn>;
+    saveCollaborativeSession: ReturnType<typeof vi.fn>;
+  };
+
+  beforeEach(() => {
+    memoryAssistant = {
+      getUserReflections: vi.fn(),
+      getReflection: vi.fn(),
+      saveReflection: vi.fn().mockResolvedValue(undefined),
+      listActiveCollaborativeSessions: vi.fn(),
+      saveCollaborativeSession: vi.fn().mockResolvedValue(undefined)
+    };
+  });
+
+  it('should list a user\'s reflections and delete one by marking it deleted', async () => {
+    const reflection = { id: 'r1', user_id: 'anna', status: 'draft' } as unknown as ReflectionEntry;
+    memoryAssistant.getUserReflections.mockResolvedValue({ reflections: [reflection], total: 1 });
+    memoryAssistant.getReflection.mockResolvedValue(reflection);
+    const store = createReflectionRecordStore(memoryAssistant as unknown as MemoryAssistant);
+
+    expect(await store.getUserReflections('anna')).toEqual([reflection]);
+    await store.deleteReflection('r1');
+
+    expect(memoryAssistant.saveReflection).toHaveBeenCalledWith(expect.objectContaining({ id: 'r1', status: 'deleted' }));
+  });
+
+  it('should reject deleting a reflection that does not exist', async () => {
+    memoryAssistant.getReflection.mockResolvedValue(null);
+    const store = createReflectionRecordStore(memoryAssistant as unknown as MemoryAssistant);
+
+    await expect(store.deleteReflection('missing')).rejects.toThrow('Reflection not found: missing');
+    expect(memoryAssistant.saveReflection).not.toHaveBeenCalled();
+  });
+
+  it('should find the active sessions a user hosts or takes part in', async () => {
+    memoryAssistant.listActiveCollaborativeSessions.mockResolvedValue([
+      session('hosted', 'anna', ['anna']),
+      session('joined', 'bertil', ['bertil', 'anna']),
+      session('other', 'bertil', ['bertil'])
+    ]);
+    const store = createCollaborativeSessionRecordStore(memoryAssistant as unknown as MemoryAssistant);
+
+    const sessions = await store.getUserCollaborativeSessions('anna');
+
+    expect(sessions.map(found => found.id)).toEqual(['hosted', 'joined']);
+  });
+});
@@ -0,0 +1,241 @@
+// Tests for Semantic RAG persistence and approximate nearest-neighbour indexing
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { SemanticRAG, HNSWIndex, InMemorySemanticStorage } from '../../lib/memory';
+import { FileSemanticStorage } from '../../lib/memory/file-semantic-storage';
+import { UserState, MemoryScope } from '../../types';
+
+function seededVectors(count: number, dimension: number, seed: number): number[][] {
+  let state = seed;
+  const random = () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296 - 0.5;
+  };
+  return Array.from({ length: count }, () => Array.from({ length: dimension }, random));
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+describe('HNSWIndex', () => {
+  it('should find the same nearest neighbours as an exhaustive scan', () => {
+    const vectors = seededVectors(500, 16, 7);
+    const index = new HNSWIndex({ m: 8, efConstruction: 64, efSearch: 64 });
+    vectors.forEach((vector, i) => index.add(`v${i}`, vector));
+
+    const queries = seededVectors(20, 16, 99);
+    let hits = 0;
+
+    for (const query of queries) {
+      const exact = vectors
+        .map((vector, i) => ({ id: `v${i}`, similarity: cosine(query, vector) }))
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, 5)
+        .map(result => result.id);
+
+      const approximate = index.search(query, 5).map(result => result.id);
+      hits += approximate.filter(id => exact.includes(id)).length;
+    }
+
+    // Recall@5 should be near-perfect at this size
+    expect(hits / (queries.length * 5)).toBeGreaterThan(0.9);
+  });
+
+  it('should skip soft-deleted and filtered vectors', () => {
+    const index = new HNSWIndex();
+    index.add('a', [1, 0, 0]);
+    index.add('b', [0.9, 0.1, 0]);
+    index.add('c', [0, 1, 0]);
+
+    index.remove('a');
+
+    expect(index.search([1, 0, 0], 1)[0].id).toBe('b');
+    expect(index.search([1, 0, 0], 1, id => id !== 'b')[0].id).toBe('c');
+    expect(index.size()).toBe(2);
+    expect(index.getDeletedCount()).toBe(1);
+  });
+
+  it('should reject duplicate IDs', () => {
+    const index = new HNSWIndex();
+    index.add('a', [1, 0]);
+
+    expect(() => index.add('a', [0, 1])).toThrow('already indexed');
+  });
+});
+
+describe('SemanticRAG with HNSW index', () => {
+  let semanticRAG: SemanticRAG;
+  const userState: UserState = { fight: 0.1, flight: 0.1, fixes: 0.9, timestamp: new Date(), confidence: 0.9 };
+
+  const scopeFor = (userId: string): MemoryScope => ({
+    id: `scope-${userId}`,
+    user_ids: [userId],
+    project_ids: [],
+    contact_ids: [],
+    permissions: { read: true, write: true, delete: false }
+  });
+
+  beforeEach(() => {
+    semanticRAG = new SemanticRAG({ index: { type: 'hnsw', linearScanThreshold: 0 } });
+  });
+
+  it('should honor scope filtering through the index', async () => {
+    await semanticRAG.store({
+      content: 'Anna minns sjön',
+      embedding: [1, 0, 0],
+      metadata: { source: 'anna', tags: [], timestamp: new Date() }
+    }, userState, scopeFor('anna'));
+
+    await semanticRAG.store({
+      content: 'Bertil minns sjön',
+      embedding: [0.99, 0.01, 0],
+      metadata: { source: 'bertil', tags: [], timestamp: new Date() }
+    }, userState, scopeFor('bertil'));
+
+    const results = await semanticRAG.query({ text: 'sjön', embedding: [1, 0, 0], threshold: 0.5 }, scopeFor('bertil'));
+
+    expect(results).toHaveLength(1);
+    expect(results[0].content).toBe('Bertil minns sjön');
+  });
+
+  it('should rebuild the index after many deletions', async () => {
+    const ids: string[] = [];
+    for (let i = 0; i < 8; i++) {
+      const result = await semanticRAG.store({
+        content: `memory ${i}`,
+        embedding: [1, i, 0],
+        metadata: { source: 'test', tags: [], timestamp: new Date() }
+      }, userState, scopeFor('anna'));
+      ids.push(result.entityId);
+    }
+
+    semanticRAG.deleteEntry(ids[0]);
+    semanticRAG.deleteEntry(ids[1]);
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    const stats = semanticRAG.getIndexStats();
+    expect(stats.type).toBe('hnsw');
+    expect(stats.size).toBe(6);
+    expect(stats.deleted).toBe(0);
+    expect(stats.rebuilding).toBe(false);
+    expect(stats.lastRebuildAt).toBeInstanceOf(Date);
+  });
+
+  it('should report failed storage writes on flush and keep writing', async () => {
+    const storage = new InMemorySemanticStorage();
+    const rag = new SemanticRAG({ storage });
+    const result = await rag.store({
+      content: 'Anna minns sjön',
+      embedding: [1, 0, 0],
+      metadata: { source: 'anna', tags: [], timestamp: new Date() }
+    }, userState, scopeFor('anna'));
+
+    storage.remove = () => Promise.reject(new Error('disk full'));
+    rag.deleteEntry(result.entityId);
+    rag.clear();
+
+    await expect(rag.flush()).rejects.toThrow('1 semantic storage write(s) failed: disk full');
+    expect(await storage.loadAll()).toEqual([]);
+    await expect(rag.flush()).resolves.toBeUndefined();
+  });
+
+  it('should report linear stats when indexing is disabled', () => {
+    const linear = new SemanticRAG({ index: { type: 'none' } });
+
+    expect(linear.getIndexStats()).toMatchObject({ type: 'linear', size: 0, storage: 'memory' });
+  });
+});
+
+describe('FileSemanticStorage', () => {
+  let dir: string;
+  let filePath: string;
+  const scope: MemoryScope = {
+    id: 'family',
+    user_ids: ['anna'],
+    project_ids: [],
+    contact_ids: [],
+    permissions: { read: true, write: true, delete: true }
+  };
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'semantic-'));
+    filePath = path.join(dir, 'nested', 'semantic.jsonl');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should keep memories across restarts', async () => {
+    const userState: UserState = { fight: 0.2, flight: 0.1, fixes: 0.7, timestamp: new Date(), confidence: 0.8 };
+    const first = new SemanticRAG({ storage: new FileSemanticStorage(filePath) });
+    await first.initialize();
+
+    const kept = await first.store({
+      content: 'Midsommar på Öland',
+      embedding: [0.3, 0.4, 0.5],
+      metadata: { source: 'journal', tags: ['summer'], timestamp: new Date() }
+    }, userState, scope);
+    const removed = await first.store({
+      content: 'Inköpslista',
+      embedding: [0.5, 0.1, 0.1],
+      metadata: { source: 'note', tags: [], timestamp: new Date() }
+    }, undefined, scope);
+
+    first.deleteEntry(removed.entityId);
+    first.updateEntryTags(kept.entityId, ['summer', 'family']);
+    await first.close();
+
+    const second = new SemanticRAG({ storage: new FileSemanticStorage(filePath) });
+    await second.initialize();
+
+    expect(second.getEntryCount()).toBe(1);
+    const entry = second.getEntry(kept.entityId)!;
+    expect(entry.content).toBe('Midsommar på Öland');
+    expect(entry.tags).toEqual(['summer', 'family']);
+    expect(entry.timestamp).toBeInstanceOf(Date);
+    expect(entry.userState!.timestamp).toBeInstanceOf(Date);
+    expect(second.getEntriesByUser('anna')).toHaveLength(1);
+  });
+
+  it('should compact the log when stale records dominate', async () => {
+    const storage = new FileSemanticStorage(filePath);
+    const entry = {
+      id: 'e1',
+      content: 'hej',
+      embedding: [1, 0],
+      source: 'test',
+      tags: [],
+      timestamp: new Date(),
+      scope: 'family',
+      userId: 'anna'
+    };
+
+    for (let i = 0; i < 5; i++) {
+      await storage.save({ ...entry, tags: [`v${i}`] });
+    }
+
+    const entries = await storage.loadAll();
+    const lines = (await fs.readFile(filePath, 'utf8')).trim().split('\n');
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0].tags).toEqual(['v4']);
+    expect(lines).toHaveLength(1);
+  });
+
+  it('should start empty when the log does not exist', async () => {
+    const storage = new FileSemanticStorage(filePath);
+
+    expect(await storage.loadAll()).toEqual([]);
+  });
+});
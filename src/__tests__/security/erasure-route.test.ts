@@ -0,0 +1,85 @@
+// @vitest-environment node
+/**
+ * Tests for the erasure API endpoint
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { UserRepository } from '../../lib/data/user-repository';
+import { RightToBeForgottenService, createUserRepositoryErasureTarget } from '../../lib/security/right-to-be-forgotten';
+import { SESSION_COOKIE, getSessionTokenService } from '../../lib/security/session-tokens';
+
+const server = vi.hoisted(() => ({ erasure: null as RightToBeForgottenService | null }));
+
+vi.mock('../../lib/server-bootstrap', () => ({
+  bootstrapServer: () => Promise.resolve(),
+  getErasureService: () => server.erasure
+}));
+
+import { POST } from '../../app/api/erasure/route';
+
+describe('Erasure API endpoint', () => {
+  let users: UserRepository;
+  let annaId: string;
+  let bertilId: string;
+
+  beforeAll(() => {
+    process.env.SESSION_SIGNING_KEY = 'test-session-key';
+  });
+
+  beforeEach(async () => {
+    users = new UserRepository();
+    annaId = (await users.createUser({
+      user_role: 'senior',
+      display_name: 'Anna',
+      email: 'anna@example.com',
+      language: 'sv',
+      timezone: 'Europe/Stockholm'
+    })).id;
+    bertilId = (await users.createUser({
+      user_role: 'senior',
+      display_name: 'Bertil',
+      email: 'bertil@example.com',
+      language: 'sv',
+      timezone: 'Europe/Stockholm'
+    })).id;
+    server.erasure = new RightToBeForgottenService('test-erasure-key', [createUserRepositoryErasureTarget(users)], users);
+  });
+
+  async function erasureRequest(body: unknown, userId?: string): Promise<NextRequest> {
+    const headers: Record<string, string> = { 'content-type': 'application/json' };
+    if (userId) {
+      headers.cookie = `${SESSION_COOKIE}=${await getSessionTokenService()!.issue(userId)}`;
+    }
+    return new NextRequest('http://localhost/api/erasure', { method: 'POST', headers, body: JSON.stringify(body) });
+  }
+
+  it('should refuse requests without a session', async () => {
+    const response = await POST(await erasureRequest({ subject_type: 'user', subject_id: annaId }));
+
+    expect(response.status).toBe(401);
+    expect(await users.getUserById(annaId)).not.toBeNull();
+  });
+
+  it('should refuse to erase another user', async () => {
+    const response = await POST(await erasureRequest({ subject_type: 'user', subject_id: annaId }, bertilId));
+
+    expect(response.status).toBe(403);
+    expect(await users.getUserById(annaId)).not.toBeNull();
+  });
+
+  it('should erase the signed-in user and return the certificate', async () => {
+    const response = await POST(await erasureRequest({ subject_type: 'user', subject_id: annaId }, annaId));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.certificate).toMatchObject({ subject_type: 'user', subject_id: annaId, complete: true });
+    expect(await users.getUserById(annaId)).toBeNull();
+  });
+
+  it('should reject unknown subject types', async () => {
+    const response = await POST(await erasureRequest({ subject_type: 'project', subject_id: 'p1' }, annaId));
+
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,393 @@
+/**
+ * Tests for the right-to-be-forgotten erasure cascade
+ * GDPR Article 17: erasure across memory, repositories and backups
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  RightToBeForgottenService,
+  ErasureNotPermittedError,
+  ErasureTarget,
+  LegacyContentErasureStore,
+  createGraphErasureTarget,
+  createSemanticErasureTarget,
+  createUserRepositoryErasureTarget,
+  createProjectRepositoryErasureTarget,
+  createRetentionErasureTarget,
+  createBackupErasureTarget,
+  createLegacyErasureTarget
+} from '../../lib/security/right-to-be-forgotten';
+import { DataRetentionService, DeletionNotification } from '../../lib/security/data-retention';
+import { EmbeddedGraphStore, InMemorySemanticStorage, SemanticRAG } from '../../lib/memory';
+import { UserRepository } from '../../lib/data/user-repository';
+import { ProjectRepository } from '../../lib/data/project-repository';
+import { BackupRecoverySystem, ErasureLog, ErasureRecord } from '../../lib/backup-recovery';
+import { FileErasureLog } from '../../lib/file-erasure-log';
+import { logger } from '../../lib/monitoring';
+import { LegacyContent } from '../../types/legacy-system';
+import { MemoryScope } from '../../types';
+
+const SIGNING_KEY = 'test-signing-key';
+
+function scopeFor(userId: string, contactIds: string[] = []): MemoryScope {
+  return {
+    id: userId,
+    user_ids: [userId],
+    project_ids: [],
+    contact_ids: contactIds,
+    permissions: { read: true, write: true, delete: true }
+  };
+}
+
+describe('RightToBeForgottenService', () => {
+  let graphStore: EmbeddedGraphStore;
+  let semanticRAG: SemanticRAG;
+  let users: UserRepository;
+  let projects: ProjectRepository;
+  let retention: DataRetentionService;
+  let legacyContents: Map<string, LegacyContent>;
+  let service: RightToBeForgottenService;
+  let notifications: DeletionNotification[];
+  let annaId: string;
+  let mormorId: string;
+
+  const legacyStore: LegacyContentErasureStore = {
+    getLegacyContentByCreator: async creatorId =>
+      Array.from(legacyContents.values()).filter(content => content.creator_id === creatorId),
+    getLegacyContentByRecipient: async contactId =>
+      Array.from(legacyContents.values()).filter(content => content.recipients.some(r => r.contact_id === contactId)),
+    saveLegacyContent: async content => legacyContents.set(content.id, content),
+    deleteLegacyContent: async contentId => legacyContents.delete(contentId)
+  };
+
+  beforeEach(async () => {
+    graphStore = new EmbeddedGraphStore();
+    semanticRAG = new SemanticRAG();
+    users = new UserRepository();
+    projects = new ProjectRepository();
+    retention = new DataRetentionService();
+    legacyContents = new Map();
+    notifications = [];
+
+    const anna = await users.createUser({
+      user_role: 'senior',
+      display_name: 'Anna',
+      email: 'anna@example.com',
+      language: 'sv',
+      timezone: 'Europe/Stockholm'
+    });
+    annaId = anna.id;
+    const mormor = await users.createContact(annaId, {
+      contact_details: { name: 'Mormor' },
+      relationship_type: 'family',
+      password: 'password'
+    });
+    mormorId = mormor!.id;
+
+    const tx = { id: 'seed', scope: scopeFor(annaId), startTime: new Date(), status: 'active' as const, operations: [] };
+    await graphStore.beginTransaction(tx);
+    await graphStore.store({
+      nodes: [
+        { id: annaId, labels: ['User'], properties: { name: 'Anna' } },
+        { id: 'midsommar', labels: ['Event'], properties: { name: 'Midsommar', userId: annaId } },
+        { id: mormorId, labels: ['Contact'], properties: { name: 'Mormor' } },
+        { id: 'bertil-event', labels: ['Event'], properties: { name: 'Jul', userId: 'bertil' } }
+      ],
+      relationships: [
+        { fromNodeId: annaId, toNodeId: 'midsommar', type: 'PARTICIPATED_IN', properties: {} },
+        { fromNodeId: mormorId, toNodeId: 'bertil-event', type: 'PARTICIPATED_IN', properties: {} }
+      ],
+      operation: 'create'
+    }, tx);
+    await graphStore.commitTransaction(tx);
+
+    await semanticRAG.store({
+      content: 'Anna minns sjön',
+      embedding: [1, 0, 0],
+      metadata: { source: 'reflection', tags: [], timestamp: new Date() }
+    }, undefined, scopeFor(annaId));
+    await semanticRAG.store({
+      content: 'Bertil pratade med mormor',
+      embedding: [0, 1, 0],
+      metadata: { source: 'conversation', tags: [`contact:${mormorId}`], timestamp: new Date() }
+    }, undefined, scopeFor('bertil'));
+
+    await projects.createProject(annaId, { name: 'Minnen', description: '', type: 'personal_chronicle' });
+    retention.registerData('ConversationLog', 'log-1', annaId);
+
+    legacyContents.set('letter', {
+      id: 'letter',
+      creator_id: 'bertil',
+      recipients: [{ contact_id: mormorId }, { contact_id: 'other' }]
+    } as unknown as LegacyContent);
+
+    service = new RightToBeForgottenService(SIGNING_KEY, [
+      createGraphErasureTarget(graphStore),
+      createSemanticErasureTarget(semanticRAG),
+      createUserRepositoryErasureTarget(users),
+      createProjectRepositoryErasureTarget(projects),
+      createRetentionErasureTarget(retention),
+      createLegacyErasureTarget(legacyStore)
+    ], users);
+    service.onDeletion(notification => notifications.push(notification));
+  });
+
+  it('should erase a user across every target and issue a signed certificate', async () => {
+    const { certificate, erased_ids } = await service.forgetUser(annaId);
+
+    expect(certificate.complete).toBe(true);
+    expect(certificate.targets.map(result => result.target)).toEqual([
+      'graph', 'semantic', 'user_repository', 'project_repository', 'data_retention', 'legacy_content'
+    ]);
+    expect(erased_ids.graph.sort()).toEqual([annaId, 'midsommar'].sort());
+    expect(erased_ids.user_repository).toEqual([annaId, mormorId]);
+    expect(semanticRAG.getEntriesByUser(annaId)).toHaveLength(0);
+    expect(await users.getUserById(annaId)).toBeNull();
+    expect(await users.getContactById(mormorId)).toBeNull();
+    expect(await projects.getProjectsByUserId(annaId)).toHaveLength(0);
+    expect(retention.getUserRetentionRecords(annaId)[0].status).toBe('deleted');
+    expect(graphStore.getNodeCount()).toBe(2);
+    expect(await service.verifyCertificate(certificate)).toBe(true);
+  });
+
+  it('should erase a contact without touching the rest of the owner data', async () => {
+    const { certificate, erased_ids } = await service.forgetContact(mormorId, annaId);
+
+    expect(certificate.complete).toBe(true);
+    expect(erased_ids.graph).toEqual([mormorId]);
+    expect(erased_ids.semantic).toHaveLength(1);
+    expect(semanticRAG.getEntriesByTag(`contact:${mormorId}`)).toHaveLength(0);
+    expect(legacyContents.get('letter')!.recipients.map(r => r.contact_id)).toEqual(['other']);
+    expect(await users.getContactById(mormorId)).toBeNull();
+    expect((await users.getUserById(annaId))!.contacts).toHaveLength(0);
+    expect(graphStore.getRelationshipCount()).toBe(1);
+  });
+
+  it('should only let the contact\'s owner erase it', async () => {
+    await expect(service.forgetContact(mormorId, 'bertil')).rejects.toBeInstanceOf(ErasureNotPermittedError);
+    await expect(service.forgetContact('unknown', annaId)).rejects.toThrow('Contact not found: unknown');
+
+    expect(await users.getContactById(mormorId)).not.toBeNull();
+    expect(semanticRAG.getEntriesByTag(`contact:${mormorId}`)).toHaveLength(1);
+    expect(notifications).toHaveLength(0);
+  });
+
+  it('should only let the user or an architect erase a user', async () => {
+    const bertil = await users.createUser({
+      user_role: 'senior',
+      display_name: 'Bertil',
+      email: 'bertil@example.com',
+      language: 'sv',
+      timezone: 'Europe/Stockholm'
+    });
+    await expect(service.forgetUser(annaId, bertil.id)).rejects.toBeInstanceOf(ErasureNotPermittedError);
+    await expect(service.forgetUser(annaId, 'unknown')).rejects.toBeInstanceOf(ErasureNotPermittedError);
+    expect(await users.getUserById(annaId)).not.toBeNull();
+    expect(notifications).toHaveLength(0);
+
+    const architect = await users.createUser({
+      user_role: 'architect',
+      display_name: 'Cecilia',
+      email: 'cecilia@example.com',
+      language: 'sv',
+      timezone: 'Europe/Stockholm'
+    });
+    const { certificate } = await service.forgetUser(annaId, architect.id);
+
+    expect(certificate.complete).toBe(true);
+    expect(await users.getUserById(annaId)).toBeNull();
+  });
+
+  it('should fail the semantic target when deletions do not reach storage', async () => {
+    const storage = new InMemorySemanticStorage();
+    const failingRAG = new SemanticRAG({ storage });
+    await failingRAG.store({
+      content: 'Anna minns sjön',
+      embedding: [1, 0, 0],
+      metadata: { source: 'reflection', tags: [], timestamp: new Date() }
+    }, undefined, scopeFor(annaId));
+    storage.remove = () => Promise.reject(new Error('disk full'));
+
+    const { certificate } = await new RightToBeForgottenService(SIGNING_KEY, [createSemanticErasureTarget(failingRAG)])
+      .forgetUser(annaId);
+
+    expect(certificate.complete).toBe(false);
+    expect(certificate.targets[0]).toMatchObject({ target: 'semantic', status: 'failed' });
+    expect(certificate.targets[0].error).toContain('disk full');
+  });
+
+  it('should emit a deletion notification to the requesting user', async () => {
+    const { certificate } = await service.forgetContact(mormorId, annaId);
+
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0]).toMatchObject({
+      user_id: annaId,
+      data_type: 'Contact',
+      data_id: mormorId,
+      days_until_deletion: 0
+    });
+    expect(notifications[0].message).toContain(certificate.id);
+  });
+
+  it('should keep erasing when a target fails and mark the certificate incomplete', async () => {
+    const failing: ErasureTarget = { name: 'flaky', erase: async () => { throw new Error('store offline'); } };
+    service.registerTarget(failing);
+
+    const { certificate } = await service.forgetUser(annaId);
+
+    expect(certificate.complete).toBe(false);
+    expect(certificate.targets.find(result => result.target === 'flaky')).toMatchObject({
+      status: 'failed',
+      error: 'store offline'
+    });
+    expect(await users.getUserById(annaId)).toBeNull();
+    expect(notifications[0].message).toContain('flaky failed');
+  });
+
+  it('should reject tampered certificates and certificates signed with another key', async () => {
+    const { certificate } = await service.forgetUser(annaId);
+    const roundTripped = JSON.parse(JSON.stringify(certificate));
+
+    expect(await service.verifyCertificate(roundTripped)).toBe(true);
+    expect(await service.verifyCertificate({ ...certificate, subject_id: 'someone-else' })).toBe(false);
+    expect(await new RightToBeForgottenService('other-key').verifyCertificate(certificate)).toBe(false);
+  });
+
+  it('should refuse duplicate target names', () => {
+    expect(() => service.registerTarget(createSemanticErasureTarget(semanticRAG)))
+      .toThrow('Erasure target already registered: semantic');
+  });
+});
+
+describe('Backup erasure target', () => {
+  beforeEach(() => {
+    // Disaster recovery logs critical errors, which would raise monitoring alerts
+    vi.spyOn(logger, 'critical').mockImplementation(() => undefined);
+    vi.spyOn(logger, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should annotate recovery points taken before the erasure', async () => {
+    vi.useFakeTimers();
+    const backups = new BackupRecoverySystem();
+    await backups.createBackup('full', []);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    const service = new RightToBeForgottenService(SIGNING_KEY, [createBackupErasureTarget(backups)]);
+    const { certificate, erased_ids } = await service.forgetUser('anna');
+    const [recoveryPoint] = backups.getRecoveryPoints();
+
+    expect(erased_ids.backups).toEqual([recoveryPoint.id]);
+    expect(recoveryPoint.metadata!.pendingErasures).toEqual([certificate.id]);
+    expect(backups.getErasures()).toEqual([
+      { id: certificate.id, subjectType: 'user', subjectId: 'anna', requestedBy: 'anna', erasedAt: certificate.requested_at }
+    ]);
+  });
+
+  it('should persist erasures and reapply them after restoring an older recovery point', async () => {
+    vi.useFakeTimers();
+    const logged: ErasureRecord[] = [];
+    const log: ErasureLog = {
+      load: async () => [...logged],
+      append: async erasure => {
+        logged.push(erasure);
+      }
+    };
+    const people = new Set(['anna', 'bertil']);
+    const peopleTarget: ErasureTarget = {
+      name: 'people',
+      erase: async request => (people.delete(request.subject_id) ? [request.subject_id] : [])
+    };
+
+    const backups = new BackupRecoverySystem();
+    await backups.useErasureLog(log);
+    await backups.createBackup('full', []);
+    await vi.advanceTimersByTimeAsync(1000);
+    const { certificate } = await new RightToBeForgottenService(SIGNING_KEY, [peopleTarget, createBackupErasureTarget(backups)])
+      .forgetUser('anna');
+    expect(logged.map(erasure => erasure.id)).toEqual([certificate.id]);
+
+    // A restarted process loads the log, then the restore brings Anna back
+    const restarted = new BackupRecoverySystem();
+    await restarted.useErasureLog(log);
+    (restarted as any).recoveryPoints = backups.getRecoveryPoints();
+    people.add('anna');
+    const replayer = new RightToBeForgottenService(SIGNING_KEY, [peopleTarget, createBackupErasureTarget(restarted)]);
+    restarted.setErasureReplayer(erasure => replayer.reapplyErasure(erasure));
+
+    const recovery = restarted.initiateDisasterRecovery('primary-dr-plan', backups.getRecoveryPoints()[0].id);
+    await vi.runAllTimersAsync();
+    const { success, reappliedErasures, erasuresToReapply } = await recovery;
+
+    expect(success).toBe(true);
+    expect(reappliedErasures.map(erasure => erasure.id)).toEqual([certificate.id]);
+    expect(erasuresToReapply).toEqual([]);
+    expect(Array.from(people)).toEqual(['bertil']);
+    expect(logged).toHaveLength(1);
+  });
+
+  it('should report erasures that could not be reapplied', async () => {
+    vi.useFakeTimers();
+    const backups = new BackupRecoverySystem();
+    await backups.createBackup('full', []);
+    await vi.advanceTimersByTimeAsync(1000);
+    await new RightToBeForgottenService(SIGNING_KEY, [createBackupErasureTarget(backups)]).forgetUser('anna');
+
+    const recovery = backups.initiateDisasterRecovery('primary-dr-plan', backups.getRecoveryPoints()[0].id);
+    await vi.runAllTimersAsync();
+    const { success, erasuresToReapply } = await recovery;
+
+    expect(success).toBe(false);
+    expect(erasuresToReapply.map(erasure => erasure.subjectId)).toEqual(['anna']);
+  });
+});
+
+describe('FileErasureLog', () => {
+  it('should keep erasures across instances', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'erasure-log-'));
+    const filePath = path.join(dir, 'nested', 'erasures.json');
+    const erasure: ErasureRecord = {
+      id: 'certificate-1',
+      subjectType: 'contact',
+      subjectId: 'mormor',
+      requestedBy: 'anna',
+      erasedAt: new Date('2030-05-01T12:00:00Z')
+    };
+
+    try {
+      await new FileErasureLog(filePath).append(erasure);
+      expect(await new FileErasureLog(filePath).load()).toEqual([erasure]);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should only record an erasure once it is written', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'erasure-log-'));
+    const blocker = path.join(dir, 'blocker');
+    const log = new FileErasureLog(path.join(blocker, 'erasures.json'));
+
+    try {
+      expect(await log.load()).toEqual([]);
+      await fs.writeFile(blocker, '', 'utf8');
+      await expect(log.append({
+        id: 'certificate-1',
+        subjectType: 'user',
+        subjectId: 'anna',
+        requestedBy: 'anna',
+        erasedAt: new Date('2030-05-01T12:00:00Z')
+      })).rejects.toThrow();
+
+      expect(await log.load()).toEqual([]);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
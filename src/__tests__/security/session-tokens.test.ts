@@ -0,0 +1,41 @@
+// @vitest-environment node
+/**
+ * Tests for signed session tokens
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SESSION_COOKIE, SessionTokenService, readCookie } from '../../lib/security/session-tokens';
+
+const NOW = new Date('2030-05-01T12:00:00Z');
+
+describe('Session tokens', () => {
+  const sessions = new SessionTokenService('test-signing-key', 60 * 60 * 1000);
+
+  it('should verify issued tokens until they expire', async () => {
+    const token = await sessions.issue('mormor', NOW);
+
+    expect(await sessions.verify(token, NOW)).toBe('mormor');
+    expect(await sessions.verify(token, new Date(NOW.getTime() + 2 * 60 * 60 * 1000))).toBeNull();
+  });
+
+  it('should reject forged and malformed tokens', async () => {
+    const token = await sessions.issue('mormor', NOW);
+    const [, signature] = token.split('.');
+    const forgedClaims = Array.from(new TextEncoder().encode(JSON.stringify({ user_id: 'morfar', expires_at: Infinity })))
+      .map(byte => (byte < 16 ? '0' : '') + byte.toString(16))
+      .join('');
+
+    expect(await sessions.verify(`${forgedClaims}.${signature}`, NOW)).toBeNull();
+    expect(await new SessionTokenService('other-key').verify(token, NOW)).toBeNull();
+    expect(await sessions.verify('not-a-token', NOW)).toBeNull();
+  });
+
+  it('should read the session from a Cookie header', async () => {
+    const token = await sessions.issue('mormor', NOW);
+
+    expect(readCookie(`theme=dark; ${SESSION_COOKIE}=${token}`, SESSION_COOKIE)).toBe(token);
+    expect(await sessions.verifyCookieHeader(`${SESSION_COOKIE}=${token}`, NOW)).toBe('mormor');
+    expect(await sessions.verifyCookieHeader('theme=dark', NOW)).toBeNull();
+    expect(await sessions.verifyCookieHeader(undefined, NOW)).toBeNull();
+  });
+});
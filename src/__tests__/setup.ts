@@ -15,6 +15,11 @@ if (!globalThis.crypto) {
   globalThis.crypto = webcrypto as Crypto;
 }
 
+// Key for provider tokens encrypted by the asset sync engine
+if (!process.env.CHRONICLER_TOKEN_KEY) {
+  process.env.CHRONICLER_TOKEN_KEY = 'test-token-key';
+}
+
 // Cleanup after each test case
 afterEach(() => {
   cleanup();
@@ -0,0 +1,33 @@
+/**
+ * Tests for the shared value helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { cosineSimilarity, createDateReviver, matchesCriterionValue, sameJsonValue } from '../lib/value-utils';
+
+describe('value utils', () => {
+  it('should clamp cosine similarity and score mismatched vectors 0', () => {
+    expect(cosineSimilarity([1, 0], [1, 0])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [-1, 0])).toBe(0);
+    expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+    expect(cosineSimilarity([0, 0], [0, 0])).toBe(0);
+  });
+
+  it('should compare values', () => {
+    expect(sameJsonValue({ a: [1, 2] }, { a: [1, 2] })).toBe(true);
+    expect(sameJsonValue({ a: 1 }, { a: '1' })).toBe(false);
+    expect(matchesCriterionValue('Gymnasium', 'gymnasium')).toBe(true);
+    expect(matchesCriterionValue(['stockholm', 'Uppsala'], 'uppsala')).toBe(true);
+    expect(matchesCriterionValue(18, '18')).toBe(false);
+  });
+
+  it('should revive ISO dates, optionally only in the given fields', () => {
+    const json = JSON.stringify({ created_at: new Date('2030-05-01T12:00:00Z'), title: '2030-05-01T12:00:00.000Z' });
+
+    expect(JSON.parse(json, createDateReviver()).title).toBeInstanceOf(Date);
+
+    const parsed = JSON.parse(json, createDateReviver(new Set(['created_at'])));
+    expect(parsed.created_at).toEqual(new Date('2030-05-01T12:00:00Z'));
+    expect(parsed.title).toBe('2030-05-01T12:00:00.000Z');
+  });
+});
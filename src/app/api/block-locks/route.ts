@@ -0,0 +1,60 @@
+/**
+ * Block Lock API Endpoint
+ *
+ * Lists, takes, renews, releases and takes over block lock leases of a
+ * collaborative session for the user of the session cookie
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/security/request-session';
+import { BlockLockApiRequestError, listBlockLocks, runBlockLockCall } from '@/services/block-lock-api';
+
+/**
+ * Response for a failed block lock call
+ */
+function errorResponse(error: unknown): NextResponse {
+  if (error instanceof BlockLockApiRequestError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+
+  console.error('Block lock API error:', error);
+  return NextResponse.json(
+    { error: error instanceof Error ? error.message : 'Block lock request failed' },
+    { status: 500 }
+  );
+}
+
+export async function GET(request: NextRequest) {
+  const userId = await authenticateRequest(request);
+  if (userId instanceof NextResponse) {
+    return userId;
+  }
+
+  try {
+    const locks = await listBlockLocks(userId, request.nextUrl.searchParams.get('session_id') || '');
+    return NextResponse.json({ locks });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const userId = await authenticateRequest(request);
+  if (userId instanceof NextResponse) {
+    return userId;
+  }
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  try {
+    const result = await runBlockLockCall(userId, body && body.action, body && body.session_id, body && body.block_id);
+    return NextResponse.json({ result: result === undefined ? null : result });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Personal Chronicler API Endpoint
+ *
+ * Runs the Personal Chronicler on the server for the user of the session cookie
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/security/request-session';
+import { ChroniclerApiRequestError, runChroniclerCall } from '@/services/chronicler-api';
+import { createDateReviver } from '@/lib/value-utils';
+
+export async function GET(request: NextRequest) {
+  const userId = await authenticateRequest(request);
+  if (userId instanceof NextResponse) {
+    return userId;
+  }
+
+  return NextResponse.json({ user_id: userId });
+}
+
+export async function POST(request: NextRequest) {
+  const userId = await authenticateRequest(request);
+  if (userId instanceof NextResponse) {
+    return userId;
+  }
+
+  let body: any;
+  try {
+    body = JSON.parse(await request.text(), createDateReviver());
+  } catch (error) {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  try {
+    const result = await runChroniclerCall(userId, body && body.method, body && body.args);
+    return NextResponse.json({ result: result === undefined ? null : result });
+  } catch (error) {
+    if (error instanceof ChroniclerApiRequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Chronicler API error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Chronicler request failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Comments API Endpoint
+ *
+ * Lists, opens, replies to, resolves and reopens comment threads on a
+ * project's documents for the user of the session cookie
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/security/request-session';
+import { CommentApiRequestError, listCommentThreads, runCommentCall } from '@/services/comment-api';
+import { createDateReviver } from '@/lib/value-utils';
+
+/**
+ * Response for a failed comment call
+ */
+function errorResponse(error: unknown): NextResponse {
+  if (error instanceof CommentApiRequestError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+
+  console.error('Comment API error:', error);
+  return NextResponse.json(
+    { error: error instanceof Error ? error.message : 'Comment request failed' },
+    { status: 500 }
+  );
+}
+
+export async function GET(request: NextRequest) {
+  const userId = await authenticateRequest(request);
+  if (userId instanceof NextResponse) {
+    return userId;
+  }
+
+  const params = request.nextUrl.searchParams;
+  try {
+    const threads = await listCommentThreads(userId, params.get('project_id') || '', params.get('document_id') || '');
+    return NextResponse.json({ threads });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const userId = await authenticateRequest(request);
+  if (userId instanceof NextResponse) {
+    return userId;
+  }
+
+  let body: any;
+  try {
+    body = JSON.parse(await request.text(), createDateReviver());
+  } catch (error) {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  if (!body || typeof body !== 'object') {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json({ result: await runCommentCall(userId, body) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Erasure API Endpoint
+ *
+ * Erases a user or contact (right to be forgotten) on request of the user of
+ * the session cookie and returns the signed deletion certificate
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/security/request-session';
+import { ErasureApiRequestError, runErasure } from '@/services/erasure-api';
+
+export async function POST(request: NextRequest) {
+  const userId = await authenticateRequest(request);
+  if (userId instanceof NextResponse) {
+    return userId;
+  }
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  try {
+    const result = await runErasure(userId, body && body.subject_type, body && body.subject_id);
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof ErasureApiRequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Erasure API error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Erasure failed' },
+      { status: 500 }
+    );
+  }
+}
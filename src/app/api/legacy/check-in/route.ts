@@ -0,0 +1,32 @@
+/**
+ * Legacy Check-in API Endpoint
+ *
+ * Records that the user of the session cookie is still here, which resets
+ * the inactivity triggers on their legacy content
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/security/request-session';
+import { LegacyApiRequestError, checkIn } from '@/services/legacy-api';
+
+export async function POST(request: NextRequest) {
+  const userId = await authenticateRequest(request);
+  if (userId instanceof NextResponse) {
+    return userId;
+  }
+
+  try {
+    const reset = await checkIn(userId);
+    return NextResponse.json({ reset });
+  } catch (error) {
+    if (error instanceof LegacyApiRequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Legacy check-in error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Check-in failed' },
+      { status: 500 }
+    );
+  }
+}
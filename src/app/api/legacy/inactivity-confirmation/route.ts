@@ -0,0 +1,34 @@
+/**
+ * Legacy Inactivity Confirmation API Endpoint
+ *
+ * Records a trusted contact's confirmation that a creator can no longer check
+ * in. Trusted contacts have no session; the token from their confirmation
+ * link is verified against its stored hash instead.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { LegacyApiRequestError, confirmInactivity } from '@/services/legacy-api';
+
+export async function POST(request: NextRequest) {
+  let body: any;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  try {
+    const phase = await confirmInactivity(body && body.content_id, body && body.contact_id, body && body.token);
+    return NextResponse.json({ phase });
+  } catch (error) {
+    if (error instanceof LegacyApiRequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Legacy inactivity confirmation error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Inactivity confirmation failed' },
+      { status: 500 }
+    );
+  }
+}
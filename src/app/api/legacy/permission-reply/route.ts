@@ -0,0 +1,40 @@
+/**
+ * Legacy Permission Reply API Endpoint
+ *
+ * Records a recipient's answer to a legacy permission request. Recipients
+ * have no session; the reply token from their request link is verified
+ * against its stored hash instead.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { LegacyApiRequestError, answerPermissionRequest } from '@/services/legacy-api';
+
+export async function POST(request: NextRequest) {
+  let body: any;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  try {
+    const status = await answerPermissionRequest(
+      body && body.content_id,
+      body && body.contact_id,
+      body && body.token,
+      body && body.answer,
+      body && body.remind_in_days
+    );
+    return NextResponse.json({ status });
+  } catch (error) {
+    if (error instanceof LegacyApiRequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Legacy permission reply error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Permission reply failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Personal Data Export API Endpoint
+ *
+ * Returns the data of the user of the session cookie as a personal data
+ * archive (ZIP of JSON-LD documents)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/security/request-session';
+import { PersonalDataApiRequestError, exportPersonalData } from '@/services/personal-data-api';
+
+export async function POST(request: NextRequest) {
+  const userId = await authenticateRequest(request);
+  if (userId instanceof NextResponse) {
+    return userId;
+  }
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  try {
+    const archive = await exportPersonalData(userId, body && body.password);
+    return new NextResponse(new Uint8Array(archive), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="personal-data-${userId}.zip"`
+      }
+    });
+  } catch (error) {
+    if (error instanceof PersonalDataApiRequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Personal data export error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Personal data export failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Personal Data Import API Endpoint
+ *
+ * Imports a personal data archive from another installation as a new
+ * account. Takes a multipart form with the archive file and the password
+ * to encrypt its contacts with.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/security/request-session';
+import { PersonalDataApiRequestError, importPersonalData } from '@/services/personal-data-api';
+
+export async function POST(request: NextRequest) {
+  const userId = await authenticateRequest(request);
+  if (userId instanceof NextResponse) {
+    return userId;
+  }
+
+  let archive: FormDataEntryValue | null;
+  let password: FormDataEntryValue | null;
+  try {
+    const form = await request.formData();
+    archive = form.get('archive');
+    password = form.get('password');
+  } catch (error) {
+    return NextResponse.json({ error: 'Invalid form body' }, { status: 400 });
+  }
+  if (!archive || typeof archive === 'string') {
+    return NextResponse.json({ error: 'An archive file is required' }, { status: 400 });
+  }
+
+  try {
+    const report = await importPersonalData(
+      userId,
+      new Uint8Array(await archive.arrayBuffer()),
+      typeof password === 'string' ? password : ''
+    );
+    return NextResponse.json(report);
+  } catch (error) {
+    if (error instanceof PersonalDataApiRequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Personal data import error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Personal data import failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Review Permissions API Endpoint
+ *
+ * Tells the editor whether a project requires approval of changes and whether
+ * the user of the session cookie may accept and reject them
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/security/request-session';
+import { ReviewApiRequestError, getProjectReviewPermissions } from '@/services/review-api';
+
+export async function GET(request: NextRequest) {
+  const userId = await authenticateRequest(request);
+  if (userId instanceof NextResponse) {
+    return userId;
+  }
+
+  try {
+    const permissions = await getProjectReviewPermissions(userId, request.nextUrl.searchParams.get('project_id') || '');
+    return NextResponse.json({ permissions });
+  } catch (error) {
+    if (error instanceof ReviewApiRequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Review API error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Review request failed' },
+      { status: 500 }
+    );
+  }
+}
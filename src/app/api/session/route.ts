@@ -0,0 +1,49 @@
+/**
+ * Session API Endpoint
+ *
+ * Tells who is signed in, signs users in during local development and signs
+ * them out
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticateRequest,
+  isDevSignInEnabled,
+  signInResponse,
+  signOutResponse
+} from '@/lib/security/request-session';
+import { userRepository } from '@/lib/data/user-repository';
+import { bootstrapServer } from '@/lib/server-bootstrap';
+
+export async function GET(request: NextRequest) {
+  const userId = await authenticateRequest(request);
+  if (userId instanceof NextResponse) {
+    return userId;
+  }
+
+  return NextResponse.json({ user_id: userId });
+}
+
+export async function POST(request: NextRequest) {
+  if (!isDevSignInEnabled()) {
+    return NextResponse.json({ error: 'Sign-in goes through the identity provider' }, { status: 404 });
+  }
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  if (!body || typeof body.user_id !== 'string' || !body.user_id) {
+    return NextResponse.json({ error: 'Signing in needs user_id' }, { status: 400 });
+  }
+
+  await bootstrapServer();
+  await userRepository.recordLogin(body.user_id);
+  return signInResponse(body.user_id);
+}
+
+export async function DELETE() {
+  return signOutResponse();
+}
@@ -7,69 +7,55 @@
 
 import React, { useState, useEffect } from 'react';
 import { ChroniclerDashboard } from '../../components/chronicler/chronicler-dashboard';
-import { ChroniclerService } from '../../services/chronicler-service';
-import { MemoryAssistant } from '../../lib/memory';
-import { CognitiveAgent } from '../../lib/cognitive-agent';
-import { ResourceGovernor } from '../../lib/resource-governor';
+import { ChroniclerClient } from '../../services/chronicler-client';
+import { SessionClient } from '../../services/session-client';
+import { LegacyClient } from '../../services/legacy-client';
 import { UserState } from '../../types';
 
 export default function ChroniclerPage() {
-  const [userId] = useState('demo-user'); // In real app, get from auth
+  const [userId, setUserId] = useState<string | null>(null);
   const [emotionalContext, setEmotionalContext] = useState<UserState>({
     fight: 0.3,
     flight: 0.4,
     fixes: 0.6,
-    timestamp: new Date()
+    timestamp: new Date(),
+    confidence: 0.5
   });
-  const [chroniclerService, setChroniclerService] = useState<ChroniclerService | null>(null);
+  const [chroniclerService] = useState(() => new ChroniclerClient());
+  const [sessionClient] = useState(() => new SessionClient());
+  const [legacyClient] = useState(() => new LegacyClient());
   const [isLoading, setIsLoading] = useState(true);
+  const [signInId, setSignInId] = useState('');
+  const [signInError, setSignInError] = useState<string | null>(null);
+  const [reachedChronicler, setReachedChronicler] = useState(false);
 
   useEffect(() => {
-    // Initialize services
-    const initializeServices = async () => {
-      try {
-        // In a real application, these would be properly initialized with actual implementations
-        const memoryAssistant = new MemoryAssistant({
-          graphRagEndpoint: process.env.NEXT_PUBLIC_GRAPH_RAG_ENDPOINT || 'mock',
-          semanticRagEndpoint: process.env.NEXT_PUBLIC_SEMANTIC_RAG_ENDPOINT || 'mock'
-        });
+    // The chronicler runs on the server, for the user of the session
+    chroniclerService.getSessionUserId()
+      .then(sessionUserId => {
+        setUserId(sessionUserId);
+        setReachedChronicler(true);
+      })
+      .catch(error => console.error('Failed to reach the chronicler:', error))
+      .then(() => setIsLoading(false));
+  }, [chroniclerService]);
 
-        const cognitiveAgent = new CognitiveAgent({
-          role: 'Conscious',
-          configurationProfile: {
-            llm_model: 'gpt-4',
-            toolkit: ['reflection_analysis', 'content_transformation'],
-            memory_scope: 'user_private',
-            entry_phase: 'EMERGE'
-          }
-        });
-
-        const resourceGovernor = new ResourceGovernor({
-          maxActiveAgents: 10,
-          maxRecursionDepth: 5,
-          quotas: {
-            llm_calls_per_hour: 100,
-            storage_mb: 1000,
-            compute_units_per_hour: 50
-          }
-        });
-
-        const service = new ChroniclerService(
-          memoryAssistant,
-          cognitiveAgent,
-          resourceGovernor
-        );
-
-        setChroniclerService(service);
-      } catch (error) {
-        console.error('Failed to initialize chronicler services:', error);
-      } finally {
-        setIsLoading(false);
-      }
-    };
+  useEffect(() => {
+    // Using the chronicler counts as checking in for inactivity-triggered legacy content
+    if (userId) {
+      legacyClient.checkIn().catch(error => console.warn('Legacy check-in failed:', error));
+    }
+  }, [userId, legacyClient]);
 
-    initializeServices();
-  }, []);
+  const handleSignIn = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSignInError(null);
+    try {
+      setUserId(await sessionClient.signIn(signInId.trim()));
+    } catch (error) {
+      setSignInError(error instanceof Error ? error.message : 'Inloggningen misslyckades');
+    }
+  };
 
   // Update emotional context periodically (in real app, this would come from user interaction analysis)
   useEffect(() => {
@@ -95,7 +81,28 @@ export default function ChroniclerPage() {
     );
   }
 
-  if (!chroniclerService) {
+  if (!userId && reachedChronicler) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <form onSubmit={handleSignIn} className="text-center space-y-3">
+          <h2 className="text-xl font-semibold">Logga in</h2>
+          <input
+            value={signInId}
+            onChange={event => setSignInId(event.target.value)}
+            placeholder="Användar-ID"
+            aria-label="Användar-ID"
+            className="border rounded px-3 py-2"
+          />
+          <button type="submit" disabled={!signInId.trim()} className="ml-2 rounded bg-primary px-4 py-2 text-primary-foreground">
+            Logga in
+          </button>
+          {signInError && <p className="text-red-600">{signInError}</p>}
+        </form>
+      </div>
+    );
+  }
+
+  if (!userId) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-center">
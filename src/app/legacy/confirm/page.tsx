@@ -0,0 +1,75 @@
+/**
+ * Legacy Inactivity Confirmation Page
+ * Opened from the link sent to a trusted contact when a creator has stopped
+ * checking in; lets the contact confirm that the creator no longer can
+ */
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { LegacyClient } from '../../../services/legacy-client';
+
+interface ConfirmationLink {
+  contentId: string;
+  contactId: string;
+  token: string;
+}
+
+export default function LegacyConfirmPage() {
+  const [legacyClient] = useState(() => new LegacyClient());
+  const [link, setLink] = useState<ConfirmationLink | null>(null);
+  const [confirmed, setConfirmed] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const contentId = params.get('content');
+    const contactId = params.get('contact');
+    const token = params.get('token');
+    if (contentId && contactId && token) {
+      setLink({ contentId, contactId, token });
+    } else {
+      setError('Länken är ofullständig.');
+    }
+  }, []);
+
+  const handleConfirm = async () => {
+    if (!link) {
+      return;
+    }
+
+    setIsSending(true);
+    setError(null);
+    try {
+      await legacyClient.confirmInactivity(link.contentId, link.contactId, link.token);
+      setConfirmed(true);
+    } catch (confirmError) {
+      setError(confirmError instanceof Error ? confirmError.message : 'Bekräftelsen kunde inte skickas');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center">
+      <div className="text-center space-y-4 max-w-md">
+        <h2 className="text-xl font-semibold">Bekräfta</h2>
+        {confirmed ? (
+          <p>Tack för att du berättade. Om ingen invänder förmedlas meddelandena efter en tid.</p>
+        ) : link && (
+          <>
+            <p>
+              Bekräfta bara om du vet att personen inte längre kan höra av sig.
+              Om hen mår bra behöver du inte göra något.
+            </p>
+            <button onClick={handleConfirm} disabled={isSending} className="rounded border px-4 py-2">
+              Jag bekräftar
+            </button>
+          </>
+        )}
+        {error && <p className="text-red-600">{error}</p>}
+      </div>
+    </div>
+  );
+}
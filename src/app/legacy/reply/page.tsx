@@ -0,0 +1,101 @@
+/**
+ * Legacy Permission Reply Page
+ * Opened from the link in a legacy permission request; lets the recipient
+ * receive the message now, be reminded later or decline it
+ */
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { LegacyClient } from '../../../services/legacy-client';
+import { PermissionAnswer } from '../../../types/legacy-system';
+
+const REMIND_IN_DAYS = 7;
+
+const ANSWER_LABELS: Record<PermissionAnswer, string> = {
+  accept: 'Ta emot nu',
+  not_now: 'Inte nu',
+  remind_later: `Påminn mig om ${REMIND_IN_DAYS} dagar`,
+  never: 'Nej tack'
+};
+
+const OUTCOME_MESSAGES: Record<PermissionAnswer, string> = {
+  accept: 'Tack. Meddelandet är på väg till dig.',
+  not_now: 'Vi frågar dig igen lite senare.',
+  remind_later: `Vi påminner dig om ${REMIND_IN_DAYS} dagar.`,
+  never: 'Vi skickar inte meddelandet. Tack för att du svarade.'
+};
+
+interface ReplyLink {
+  contentId: string;
+  contactId: string;
+  token: string;
+}
+
+export default function LegacyReplyPage() {
+  const [legacyClient] = useState(() => new LegacyClient());
+  const [link, setLink] = useState<ReplyLink | null>(null);
+  const [answered, setAnswered] = useState<PermissionAnswer | null>(null);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const contentId = params.get('content');
+    const contactId = params.get('recipient');
+    const token = params.get('token');
+    if (contentId && contactId && token) {
+      setLink({ contentId, contactId, token });
+    } else {
+      setError('Länken är ofullständig.');
+    }
+  }, []);
+
+  const handleAnswer = async (answer: PermissionAnswer) => {
+    if (!link) {
+      return;
+    }
+
+    setIsSending(true);
+    setError(null);
+    try {
+      await legacyClient.answerPermissionRequest(
+        link.contentId,
+        link.contactId,
+        link.token,
+        answer,
+        answer === 'remind_later' ? REMIND_IN_DAYS : undefined
+      );
+      setAnswered(answer);
+    } catch (answerError) {
+      setError(answerError instanceof Error ? answerError.message : 'Svaret kunde inte skickas');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center">
+      <div className="text-center space-y-4 max-w-md">
+        <h2 className="text-xl font-semibold">Ett meddelande till dig</h2>
+        {answered ? (
+          <p>{OUTCOME_MESSAGES[answered]}</p>
+        ) : link && (
+          <div className="flex flex-wrap justify-center gap-2">
+            {(Object.keys(ANSWER_LABELS) as PermissionAnswer[]).map(answer => (
+              <button
+                key={answer}
+                onClick={() => handleAnswer(answer)}
+                disabled={isSending}
+                className="rounded border px-4 py-2"
+              >
+                {ANSWER_LABELS[answer]}
+              </button>
+            ))}
+          </div>
+        )}
+        {error && <p className="text-red-600">{error}</p>}
+      </div>
+    </div>
+  );
+}
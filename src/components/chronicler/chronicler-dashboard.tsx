@@ -12,15 +12,19 @@ import { Badge } from '../ui/badge';
 import { Input } from '../ui/input';
 import { ReflectionEditor } from './reflection-editor';
 import { TransformationDialog } from './transformation-dialog';
+import { ReflectionHistory } from './reflection-history';
 import { ExternalIntegrationPanel } from './external-integration-panel';
 import { 
   ReflectionEntry, 
   CortexTransformation,
   ExternalAssetIntegration,
-  ChroniclerWorkflow 
+  ChroniclerWorkflow,
+  FacetCount,
+  ReflectionSearchResults,
+  ReflectionSnippet
 } from '../../types/chronicler';
 import { UserState } from '../../types';
-import { ChroniclerService } from '../../services/chronicler-service';
+import { ChroniclerApi } from '../../services/chronicler-client';
 import { 
   Plus, 
   Search, 
@@ -33,9 +37,18 @@ import {
   Image,
   MessageSquare,
   Settings,
-  Download
+  Download,
+  Sparkles,
+  BookOpen,
+  History
 } from 'lucide-react';
 
+/** Delay before a typed query is searched */
+const SEARCH_DEBOUNCE_MS = 250;
+
+/** Chips shown per facet group */
+const MAX_FACET_CHIPS = 10;
+
 interface ChroniclerDashboardProps {
   /** Current user ID */
   userId: string;
@@ -44,7 +57,7 @@ interface ChroniclerDashboardProps {
   emotionalContext: UserState;
   
   /** Chronicler service instance */
-  chroniclerService: ChroniclerService;
+  chroniclerService: ChroniclerApi;
 }
 
 export function ChroniclerDashboard({
@@ -53,64 +66,58 @@ export function ChroniclerDashboard({
   chroniclerService
 }: ChroniclerDashboardProps) {
   const [reflections, setReflections] = useState<ReflectionEntry[]>([]);
-  const [filteredReflections, setFilteredReflections] = useState<ReflectionEntry[]>([]);
+  const [searchResults, setSearchResults] = useState<ReflectionSearchResults | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [selectedEmotions, setSelectedEmotions] = useState<string[]>([]);
+  const [selectedThemes, setSelectedThemes] = useState<string[]>([]);
   const [privacyFilter, setPrivacyFilter] = useState<string>('all');
   const [showEditor, setShowEditor] = useState(false);
   const [editingReflection, setEditingReflection] = useState<ReflectionEntry | undefined>();
   const [showTransformDialog, setShowTransformDialog] = useState(false);
   const [selectedReflectionForTransform, setSelectedReflectionForTransform] = useState<ReflectionEntry | undefined>();
+  const [historyReflection, setHistoryReflection] = useState<ReflectionEntry | undefined>();
   const [showIntegrationPanel, setShowIntegrationPanel] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
-  const [allTags, setAllTags] = useState<string[]>([]);
 
   // Load user's reflections on component mount
   useEffect(() => {
     loadReflections();
   }, [userId]);
 
-  // Filter reflections based on search and filters
+  // Search reflections when the query or facets change; typing is debounced
   useEffect(() => {
-    let filtered = reflections;
-
-    // Search filter
-    if (searchQuery) {
-      filtered = filtered.filter(reflection =>
-        reflection.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        reflection.content.text.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        reflection.tags.some(tag => tag.toLowerCase().includes(searchQuery.toLowerCase()))
-      );
-    }
-
-    // Tag filter
-    if (selectedTags.length > 0) {
-      filtered = filtered.filter(reflection =>
-        selectedTags.every(tag => reflection.tags.includes(tag))
-      );
-    }
-
-    // Privacy filter
-    if (privacyFilter !== 'all') {
-      filtered = filtered.filter(reflection => reflection.privacy_level === privacyFilter);
-    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const results = await chroniclerService.search(userId, {
+          query: searchQuery,
+          filters: {
+            tags: selectedTags,
+            dominantEmotions: selectedEmotions,
+            themes: selectedThemes,
+            privacyLevel: privacyFilter !== 'all' ? privacyFilter : undefined
+          }
+        });
+        if (!cancelled) {
+          setSearchResults(results);
+        }
+      } catch (error) {
+        console.error('Failed to search reflections:', error);
+      }
+    }, searchQuery ? SEARCH_DEBOUNCE_MS : 0);
 
-    setFilteredReflections(filtered);
-  }, [reflections, searchQuery, selectedTags, privacyFilter]);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [reflections, searchQuery, selectedTags, selectedEmotions, selectedThemes, privacyFilter]);
 
   const loadReflections = async () => {
     setIsLoading(true);
     try {
       const result = await chroniclerService.getUserReflections(userId);
       setReflections(result.reflections);
-      
-      // Extract all unique tags
-      const tags = new Set<string>();
-      result.reflections.forEach(reflection => {
-        reflection.tags.forEach(tag => tags.add(tag));
-      });
-      setAllTags(Array.from(tags));
-      
     } catch (error) {
       console.error('Failed to load reflections:', error);
     } finally {
@@ -133,6 +140,7 @@ export function ChroniclerDashboard({
       if (editingReflection) {
         // Update existing reflection
         await chroniclerService.updateReflection(
+          userId,
           editingReflection.id,
           reflectionData,
           emotionalContext
@@ -161,12 +169,57 @@ export function ChroniclerDashboard({
     setShowTransformDialog(true);
   };
 
-  const handleTagClick = (tag: string) => {
-    if (selectedTags.includes(tag)) {
-      setSelectedTags(prev => prev.filter(t => t !== tag));
-    } else {
-      setSelectedTags(prev => [...prev, tag]);
+  const toggleFacet = (setSelected: React.Dispatch<React.SetStateAction<string[]>>, value: string) => {
+    setSelected(prev => prev.includes(value) ? prev.filter(v => v !== value) : [...prev, value]);
+  };
+
+  const renderFacetChips = (
+    label: string,
+    icon: React.ReactNode,
+    counts: FacetCount[],
+    selected: string[],
+    setSelected: React.Dispatch<React.SetStateAction<string[]>>
+  ) => {
+    // Selected values stay visible even when the current hits no longer carry them
+    const chips = counts.slice(0, MAX_FACET_CHIPS).concat(
+      selected
+        .filter(value => !counts.slice(0, MAX_FACET_CHIPS).some(count => count.value === value))
+        .map(value => ({ value, count: 0 }))
+    );
+    if (chips.length === 0) {
+      return null;
     }
+
+    return (
+      <div className="flex flex-wrap items-center gap-2" aria-label={label}>
+        <span className="text-xs text-muted-foreground">{label}</span>
+        {chips.map(({ value, count }) => (
+          <Badge
+            key={value}
+            variant={selected.includes(value) ? "default" : "outline"}
+            className="cursor-pointer"
+            onClick={() => toggleFacet(setSelected, value)}
+          >
+            {icon}
+            {value}
+            <span className="ml-1 opacity-70">{count}</span>
+          </Badge>
+        ))}
+      </div>
+    );
+  };
+
+  const renderSnippet = (snippet: ReflectionSnippet, key: number) => {
+    const parts: React.ReactNode[] = [];
+    let position = 0;
+    snippet.highlights.forEach((highlight, i) => {
+      parts.push(snippet.text.slice(position, highlight.start));
+      parts.push(<mark key={i} className="bg-yellow-100 rounded px-0.5">{snippet.text.slice(highlight.start, highlight.end)}</mark>);
+      position = highlight.end;
+    });
+    parts.push(snippet.text.slice(position));
+
+    return <p key={key} className="text-sm text-muted-foreground">{parts}</p>;
   };
 
   const getPrivacyIcon = (level: string) => {
@@ -302,21 +355,21 @@ export function ChroniclerDashboard({
                 </select>
               </div>
 
-              {/* Tag Filters */}
-              <div className="flex flex-wrap gap-2">
-                {allTags.slice(0, 10).map((tag) => (
-                  <Badge
-                    key={tag}
-                    variant={selectedTags.includes(tag) ? "default" : "outline"}
-                    className="cursor-pointer"
-                    onClick={() => handleTagClick(tag)}
-                  >
-                    <Tag className="h-3 w-3 mr-1" />
-                    {tag}
-                  </Badge>
-                ))}
-              </div>
+              {searchResults && (
+                <span className="text-sm text-muted-foreground">
+                  {searchResults.total} träffar
+                </span>
+              )}
             </div>
+
+            {/* Facet Chips */}
+            {searchResults && (
+              <div className="space-y-2">
+                {renderFacetChips('Taggar', <Tag className="h-3 w-3 mr-1" />, searchResults.facets.tags, selectedTags, setSelectedTags)}
+                {renderFacetChips('Känslor', <Sparkles className="h-3 w-3 mr-1" />, searchResults.facets.dominant_emotions, selectedEmotions, setSelectedEmotions)}
+                {renderFacetChips('Teman', <BookOpen className="h-3 w-3 mr-1" />, searchResults.facets.themes, selectedThemes, setSelectedThemes)}
+              </div>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -327,7 +380,7 @@ export function ChroniclerDashboard({
           <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
           <p className="mt-4 text-muted-foreground">Laddar dina reflektioner...</p>
         </div>
-      ) : filteredReflections.length === 0 ? (
+      ) : !searchResults || searchResults.hits.length === 0 ? (
         <Card>
           <CardContent className="pt-6 text-center py-12">
             <Heart className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
@@ -348,7 +401,7 @@ export function ChroniclerDashboard({
         </Card>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {filteredReflections.map((reflection) => (
+          {searchResults.hits.map(({ reflection, snippets }) => (
             <Card key={reflection.id} className="cursor-pointer hover:shadow-md transition-shadow">
               <CardHeader className="pb-3">
                 <div className="flex items-start justify-between">
@@ -362,10 +415,16 @@ export function ChroniclerDashboard({
               </CardHeader>
               
               <CardContent className="space-y-3">
-                {/* Content Preview */}
-                <p className="text-sm text-muted-foreground line-clamp-3">
-                  {reflection.content.text}
-                </p>
+                {/* Content Preview, or the passages matching the search */}
+                {snippets.some(snippet => snippet.field === 'text') ? (
+                  <div className="space-y-1">
+                    {snippets.filter(snippet => snippet.field === 'text').map(renderSnippet)}
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground line-clamp-3">
+                    {reflection.content.text}
+                  </p>
+                )}
 
                 {/* Tags */}
                 {reflection.tags.length > 0 && (
@@ -409,6 +468,15 @@ export function ChroniclerDashboard({
                   >
                     Redigera
                   </Button>
+
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setHistoryReflection(reflection)}
+                  >
+                    <History className="h-3 w-3 mr-1" />
+                    Historik
+                  </Button>
                   
                   {reflection.shareable && (
                     <Button
@@ -431,6 +499,7 @@ export function ChroniclerDashboard({
       {showTransformDialog && selectedReflectionForTransform && (
         <TransformationDialog
           reflection={selectedReflectionForTransform}
+          userId={userId}
           onClose={() => {
             setShowTransformDialog(false);
             setSelectedReflectionForTransform(undefined);
@@ -439,6 +508,20 @@ export function ChroniclerDashboard({
         />
       )}
 
+      {historyReflection && (
+        <ReflectionHistory
+          reflection={historyReflection}
+          userId={userId}
+          emotionalContext={emotionalContext}
+          onRestored={async () => {
+            setHistoryReflection(undefined);
+            await loadReflections();
+          }}
+          onClose={() => setHistoryReflection(undefined)}
+          chroniclerService={chroniclerService}
+        />
+      )}
+
       {showIntegrationPanel && (
         <ExternalIntegrationPanel
           userId={userId}
@@ -15,7 +15,7 @@ import {
   ExternalProvider,
   IntegrationStatus
 } from '../../types/chronicler';
-import { ChroniclerService } from '../../services/chronicler-service';
+import { ChroniclerApi } from '../../services/chronicler-client';
 import { 
   X, 
   Settings, 
@@ -43,7 +43,7 @@ interface ExternalIntegrationPanelProps {
   onClose: () => void;
   
   /** Chronicler service instance */
-  chroniclerService: ChroniclerService;
+  chroniclerService: ChroniclerApi;
 }
 
 export function ExternalIntegrationPanel({
@@ -169,7 +169,7 @@ export function ExternalIntegrationPanel({
 
   const handleSyncIntegration = async (integrationId: string) => {
     try {
-      await chroniclerService.syncExternalAssets(integrationId);
+      await chroniclerService.syncExternalAssets(userId, integrationId);
       await loadIntegrations(); // Reload to get updated sync stats
     } catch (error) {
       console.error('Failed to sync integration:', error);
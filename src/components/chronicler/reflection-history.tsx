@@ -0,0 +1,231 @@
+/**
+ * Reflection History Component
+ * Lists a reflection's revisions, shows what changed block by block and
+ * restores earlier versions
+ */
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Button } from '../ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { SemanticDiff } from '../editor/semantic-diff';
+import { ReflectionEntry, ReflectionRevision } from '../../types/chronicler';
+import { SemanticDiff as SemanticDiffData } from '../../types/editor';
+import { UserState } from '../../types';
+import { ChroniclerApi } from '../../services/chronicler-client';
+import { X, History, RotateCcw, Loader2 } from 'lucide-react';
+
+interface ReflectionHistoryProps {
+  /** Reflection whose history is shown */
+  reflection: ReflectionEntry;
+
+  /** Current user ID, recorded as the author of restores */
+  userId: string;
+
+  /** Current user's emotional state */
+  emotionalContext: UserState;
+
+  /** Callback after a revision has been restored */
+  onRestored: (reflection: ReflectionEntry) => void;
+
+  /** Callback when dialog is closed */
+  onClose: () => void;
+
+  /** Chronicler service instance */
+  chroniclerService: ChroniclerApi;
+}
+
+export function ReflectionHistory({
+  reflection,
+  userId,
+  emotionalContext,
+  onRestored,
+  onClose,
+  chroniclerService
+}: ReflectionHistoryProps) {
+  const [revisions, setRevisions] = useState<ReflectionRevision[]>([]);
+  const [selectedRevisionId, setSelectedRevisionId] = useState<string | null>(null);
+  const [diffs, setDiffs] = useState<SemanticDiffData[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    chroniclerService.listRevisions(userId, reflection.id)
+      .then(result => {
+        if (cancelled) return;
+        const newestFirst = result.slice().reverse();
+        setRevisions(newestFirst);
+        // Start with the version before the current one, which is what an accidental edit replaced
+        if (newestFirst.length > 1) {
+          setSelectedRevisionId(newestFirst[1].id);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) setError('Historiken kunde inte hämtas.');
+      })
+      .then(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, reflection.id, chroniclerService]);
+
+  useEffect(() => {
+    if (!selectedRevisionId) {
+      setDiffs([]);
+      return;
+    }
+
+    let cancelled = false;
+    chroniclerService.diffRevisions(userId, reflection.id, selectedRevisionId)
+      .then(result => {
+        if (!cancelled) setDiffs(result);
+      })
+      .catch(() => {
+        if (!cancelled) setError('Skillnaderna kunde inte visas.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, reflection.id, selectedRevisionId, chroniclerService]);
+
+  const handleRestore = async (revisionId: string) => {
+    setIsRestoring(true);
+    setError(null);
+    try {
+      const restored = await chroniclerService.restoreRevision(userId, reflection.id, revisionId, emotionalContext);
+      onRestored(restored);
+    } catch (err) {
+      setError('Versionen kunde inte återställas.');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const formatDate = (date: Date) => {
+    return new Intl.DateTimeFormat('sv-SE', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    }).format(date);
+  };
+
+  const getReasonLabel = (revision: ReflectionRevision) => {
+    switch (revision.reason) {
+      case 'original': return 'Ursprunglig';
+      case 'restore': {
+        const source = revisions.find(candidate => candidate.id === revision.restored_from);
+        return source ? `Återställd från version ${source.revision_number}` : 'Återställd';
+      }
+      default: return 'Ändrad';
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <Card className="w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Versioner av "{reflection.title}"
+            </CardTitle>
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+
+        <CardContent className="space-y-6">
+          {error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+
+          {isLoading ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Hämtar versioner...
+            </div>
+          ) : revisions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Reflektionen har inte ändrats sedan den skrevs.
+            </p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              {/* Revision list, newest first */}
+              <div className="space-y-2">
+                {revisions.map((revision, index) => (
+                  <div
+                    key={revision.id}
+                    className={`border rounded-lg p-3 cursor-pointer ${
+                      revision.id === selectedRevisionId ? 'border-primary bg-primary/5' : ''
+                    }`}
+                    onClick={() => setSelectedRevisionId(index === 0 ? null : revision.id)}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium text-sm">Version {revision.revision_number}</span>
+                      {index === 0 ? (
+                        <Badge variant="default" className="text-xs">Nuvarande</Badge>
+                      ) : (
+                        <Badge variant="outline" className="text-xs">{getReasonLabel(revision)}</Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {formatDate(revision.created_at)}
+                      {revision.author_id !== reflection.user_id && ` · ${revision.author_id}`}
+                    </p>
+                  </div>
+                ))}
+              </div>
+
+              {/* Changes between the selected version and now */}
+              <div className="md:col-span-2 space-y-4">
+                {selectedRevisionId ? (
+                  <>
+                    <div className="flex items-center justify-between">
+                      <p className="text-sm text-muted-foreground">
+                        Det här har ändrats sedan den valda versionen.
+                      </p>
+                      <Button
+                        size="sm"
+                        onClick={() => handleRestore(selectedRevisionId)}
+                        disabled={isRestoring}
+                      >
+                        {isRestoring ? (
+                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        ) : (
+                          <RotateCcw className="h-4 w-4 mr-2" />
+                        )}
+                        Återställ den här versionen
+                      </Button>
+                    </div>
+                    {diffs.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">Innehållet är detsamma som nu.</p>
+                    ) : (
+                      diffs.map(diff => (
+                        <SemanticDiff key={diff.id} diff={diff} variant="history" />
+                      ))
+                    )}
+                  </>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    Välj en tidigare version för att se vad som har ändrats.
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -19,7 +19,7 @@ import {
   DeliveryMethod,
   TransformationParameters
 } from '../../types/chronicler';
-import { ChroniclerService } from '../../services/chronicler-service';
+import { ChroniclerApi } from '../../services/chronicler-client';
 import { 
   X, 
   MessageSquare, 
@@ -38,15 +38,19 @@ interface TransformationDialogProps {
   /** Reflection to transform */
   reflection: ReflectionEntry;
   
+  /** Reflection author */
+  userId: string;
+  
   /** Callback when dialog is closed */
   onClose: () => void;
   
   /** Chronicler service instance */
-  chroniclerService: ChroniclerService;
+  chroniclerService: ChroniclerApi;
 }
 
 export function TransformationDialog({
   reflection,
+  userId,
   onClose,
   chroniclerService
 }: TransformationDialogProps) {
@@ -129,6 +133,7 @@ export function TransformationDialog({
 
     try {
       const result = await chroniclerService.transformForRecipient(
+        userId,
         reflection.id,
         recipientId,
         transformationType,
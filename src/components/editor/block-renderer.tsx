@@ -1,7 +1,7 @@
 'use client';
 
 import React from 'react';
-import { ContentBlock, EditorSuggestion } from '@/types/editor';
+import { ContentBlock, EditorMode, EditorSuggestion, TrackedChange } from '@/types/editor';
 import { TextBlockComponent } from './blocks/text-block';
 import { HeadingBlockComponent } from './blocks/heading-block';
 import { ListBlockComponent } from './blocks/list-block';
@@ -27,7 +27,7 @@ interface BlockRendererProps {
   readOnly: boolean;
   
   /** Current editor mode */
-  mode: 'creative-flow' | 'suggestion';
+  mode: EditorMode;
   
   /** Suggestions for this block (if any) */
   suggestions?: EditorSuggestion[];
@@ -35,6 +35,12 @@ interface BlockRendererProps {
   /** Whether suggestions are being loaded */
   isLoadingSuggestions?: boolean;
   
+  /** Number of open comment threads on this block */
+  commentCount?: number;
+  
+  /** Latest tracked change of this block waiting for review (review mode) */
+  pendingChange?: TrackedChange;
+  
   /** Callback when block content changes */
   onChange: (updates: Partial<ContentBlock>) => void;
   
@@ -69,6 +75,8 @@ export function BlockRenderer({
   mode,
   suggestions,
   isLoadingSuggestions,
+  commentCount = 0,
+  pendingChange,
   onChange,
   onSelect,
   onDelete,
@@ -76,12 +84,15 @@ export function BlockRenderer({
   onAcceptSuggestion,
   onDismissSuggestion
 }: BlockRendererProps) {
+  // A block marked for deletion cannot be edited until the deletion is reviewed
+  const isPendingDeletion = pendingChange?.type === 'deletion';
+  
   const blockProps = {
     block,
     isSelected,
     isLocked,
     lockedBy,
-    readOnly: readOnly || isLocked,
+    readOnly: readOnly || isLocked || isPendingDeletion,
     onChange,
     onSelect,
     onDelete,
@@ -159,10 +170,14 @@ export function BlockRenderer({
         {
           'ring-2 ring-blue-500 ring-opacity-50': isSelected,
           'ring-2 ring-red-500 ring-opacity-50': isLocked,
-          'cursor-not-allowed opacity-60': isLocked
+          'cursor-not-allowed opacity-60': isLocked,
+          'border-l-4 border-green-400 pl-2': pendingChange?.type === 'insertion',
+          'border-l-4 border-blue-400 pl-2': pendingChange?.type === 'modification',
+          'border-l-4 border-red-400 pl-2 opacity-60': isPendingDeletion
         }
       )}
       onClick={onSelect}
+      data-block-id={block.id}
     >
       {/* Lock indicator */}
       {isLocked && lockedBy && (
@@ -173,11 +188,28 @@ export function BlockRenderer({
         </div>
       )}
       
+      {/* Comment indicator */}
+      {commentCount > 0 && (
+        <div className="absolute top-0 -right-7 z-10" title={`${commentCount} open comment${commentCount !== 1 ? 's' : ''}`}>
+          <div className="bg-amber-400 text-white text-xs w-5 h-5 flex items-center justify-center rounded-full">
+            {commentCount}
+          </div>
+        </div>
+      )}
+      
+      {/* Tracked change indicator */}
+      {pendingChange && (
+        <div className="text-xs text-gray-500 mb-1">
+          {pendingChange.type === 'insertion' ? 'Inserted' : pendingChange.type === 'deletion' ? 'Deleted' : 'Edited'}
+          {' by '}{pendingChange.author.display_name}
+        </div>
+      )}
+      
       {/* Block content */}
       {renderBlock()}
       
       {/* Block controls (shown on hover when selected) */}
-      {isSelected && !readOnly && !isLocked && (
+      {isSelected && !readOnly && !isLocked && !isPendingDeletion && (
         <div className="absolute -left-8 top-0 opacity-0 group-hover:opacity-100 transition-opacity">
           <div className="flex flex-col gap-1">
             <button
@@ -1,7 +1,7 @@
 'use client';
 
 import React, { useState, useRef, useEffect } from 'react';
-import { TextBlock, EditorSuggestion } from '@/types/editor';
+import { TextBlock, EditorSuggestion, EditorMode } from '@/types/editor';
 import { SuggestionsPanel } from '../suggestions-panel';
 import { cn } from '@/lib/utils';
 
@@ -11,7 +11,7 @@ interface TextBlockComponentProps {
   isLocked: boolean;
   lockedBy?: string;
   readOnly: boolean;
-  mode: 'creative-flow' | 'suggestion';
+  mode: EditorMode;
   suggestions?: EditorSuggestion[];
   isLoadingSuggestions?: boolean;
   onChange: (updates: Partial<TextBlock>) => void;
@@ -4,13 +4,14 @@
  * Shows real-time collaboration status including:
  * - Connection status
  * - Active users with presence indicators
- * - Visual lock indicators for blocks being edited
+ * - Visual lock indicators for blocks being edited, with lease countdowns
  */
 
 'use client';
 
-import React from 'react';
-import { CollaborationUser } from '@/services/collaboration-service';
+import React, { useEffect, useState } from 'react';
+import { CollaborationUser } from '@/lib/collaboration/collaboration-client';
+import { BlockLock } from '@/types/collaboration';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
@@ -29,9 +30,38 @@ interface CollaborationStatusProps {
   connectionStatus: 'connecting' | 'connected' | 'disconnected' | 'error';
   activeUsers: CollaborationUser[];
   lockedBlocks: Record<string, string>; // blockId -> userId
+  blockLocks?: BlockLock[]; // session lock leases, shown with countdowns
   className?: string;
 }
 
+/**
+ * Current time, ticking every second while active
+ */
+function useClock(active: boolean): number {
+  const [now, setNow] = useState(() => Date.now());
+  
+  useEffect(() => {
+    if (!active) {
+      return;
+    }
+    
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [active]);
+  
+  return now;
+}
+
+/**
+ * Time left until a moment, as m:ss
+ */
+function formatCountdown(until: Date, now: number): string {
+  const seconds = Math.max(0, Math.ceil((until.getTime() - now) / 1000));
+  const rest = seconds % 60;
+  return `${Math.floor(seconds / 60)}:${rest < 10 ? '0' : ''}${rest}`;
+}
+
 /**
  * Connection status indicator
  */
@@ -232,12 +262,23 @@ function ActiveUsersList({
  */
 function LockedBlocksIndicator({ 
   lockedBlocks, 
+  blockLocks,
   activeUsers 
 }: { 
   lockedBlocks: Record<string, string>;
+  blockLocks?: BlockLock[];
   activeUsers: CollaborationUser[];
 }) {
-  const lockedCount = Object.keys(lockedBlocks).length;
+  const now = useClock(!!blockLocks && blockLocks.length > 0);
+  
+  // Session leases know when they run out; editing hints only know who holds them
+  const lockEntries: BlockLock[] = blockLocks
+    ? blockLocks.filter(lock => lock.expires_at.getTime() > now)
+    : [];
+  const hintEntries = blockLocks
+    ? []
+    : Object.keys(lockedBlocks).map(blockId => ({ blockId, userId: lockedBlocks[blockId] }));
+  const lockedCount = blockLocks ? lockEntries.length : hintEntries.length;
   
   if (lockedCount === 0) {
     return null;
@@ -248,10 +289,6 @@ function LockedBlocksIndicator({
     return user?.name || userId;
   };
   
-  const lockEntries = Object.entries(lockedBlocks);
-  const firstLock = lockEntries[0];
-  const remainingCount = lockedCount - 1;
-  
   return (
     <TooltipProvider>
       <Tooltip>
@@ -266,7 +303,20 @@ function LockedBlocksIndicator({
         <TooltipContent>
           <div className="space-y-1">
             <p className="font-medium">Locked blocks:</p>
-            {lockEntries.slice(0, 3).map(([blockId, userId]) => (
+            {lockEntries.slice(0, 3).map(lock => (
+              <div key={lock.block_id} className="text-xs">
+                <p>
+                  Block {lock.block_id.slice(-8)} by {getUserName(lock.user_id)}
+                  <span className="text-gray-500"> · {formatCountdown(lock.expires_at, now)} left</span>
+                </p>
+                {lock.takeover && (
+                  <p className="text-orange-600">
+                    Passes to {getUserName(lock.takeover.requested_by)} in {formatCountdown(lock.takeover.grant_at, now)}
+                  </p>
+                )}
+              </div>
+            ))}
+            {hintEntries.slice(0, 3).map(({ blockId, userId }) => (
               <p key={blockId} className="text-xs">
                 Block {blockId.slice(-8)} by {getUserName(userId)}
               </p>
@@ -288,6 +338,7 @@ export function CollaborationStatus({
   connectionStatus,
   activeUsers,
   lockedBlocks,
+  blockLocks,
   className
 }: CollaborationStatusProps) {
   return (
@@ -310,6 +361,7 @@ export function CollaborationStatus({
       {isConnected && (
         <LockedBlocksIndicator 
           lockedBlocks={lockedBlocks} 
+          blockLocks={blockLocks}
           activeUsers={activeUsers} 
         />
       )}
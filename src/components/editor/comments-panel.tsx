@@ -0,0 +1,296 @@
+/**
+ * Comments Panel Component
+ *
+ * Shows the comment threads of the document next to the editor
+ * Lets users open threads on the selected block, reply, @mention
+ * participants and resolve or reopen threads
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { CommentPermissions, CommentThread, ContentBlock } from '@/types/editor';
+import { SessionParticipant } from '@/types/collaboration';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  CheckIcon,
+  MessageSquareIcon,
+  RotateCcwIcon,
+  SendIcon,
+  UnlinkIcon
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface CommentsPanelProps {
+  threads: CommentThread[];
+  blocks: ContentBlock[];
+  selectedBlockId?: string;
+  /** Text selected in the selected block, which a new thread is anchored to */
+  selectedQuote?: string;
+  permissions: CommentPermissions;
+  currentUserId: string;
+  participants?: SessionParticipant[];
+  onCreate: (text: string) => void;
+  onReply: (threadId: string, text: string) => void;
+  onResolve: (threadId: string) => void;
+  onReopen: (threadId: string) => void;
+  onSelectThread?: (thread: CommentThread) => void;
+  className?: string;
+}
+
+/**
+ * Text box with a send button
+ */
+function CommentComposer({
+  placeholder,
+  participants,
+  onSubmit
+}: {
+  placeholder: string;
+  participants: SessionParticipant[];
+  onSubmit: (text: string) => void;
+}) {
+  const [text, setText] = useState('');
+
+  const handleSubmit = () => {
+    if (text.trim().length === 0) return;
+    onSubmit(text);
+    setText('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+            e.preventDefault();
+            handleSubmit();
+          }
+        }}
+        placeholder={placeholder}
+        className="min-h-[60px] text-sm"
+      />
+      <div className="flex items-center justify-between gap-2">
+        {participants.length > 0 ? (
+          <span className="text-xs text-gray-500 truncate">
+            Mention with {participants.slice(0, 3).map(p => `@${p.display_name}`).join(', ')}
+          </span>
+        ) : (
+          <span />
+        )}
+        <Button
+          size="sm"
+          onClick={handleSubmit}
+          disabled={text.trim().length === 0}
+          className="h-7 px-2 text-xs"
+          title="Post comment"
+        >
+          <SendIcon className="w-3 h-3" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * One thread with its comments and actions
+ */
+function ThreadItem({
+  thread,
+  canReply,
+  canResolve,
+  participants,
+  onReply,
+  onResolve,
+  onReopen,
+  onSelect
+}: {
+  thread: CommentThread;
+  canReply: boolean;
+  canResolve: boolean;
+  participants: SessionParticipant[];
+  onReply: (text: string) => void;
+  onResolve: () => void;
+  onReopen: () => void;
+  onSelect?: () => void;
+}) {
+  const resolved = thread.status === 'resolved';
+  const nameOf = (userId: string) =>
+    participants.find(p => p.user_id === userId)?.display_name ?? userId;
+
+  return (
+    <div
+      className={cn(
+        'p-3 border rounded-lg bg-white',
+        resolved ? 'border-gray-200 opacity-70' : 'border-amber-200'
+      )}
+    >
+      <div className="flex items-start justify-between gap-2 mb-2">
+        <button
+          onClick={onSelect}
+          className="text-left text-xs text-gray-600 min-w-0"
+          title="Go to commented text"
+        >
+          {thread.anchor.detached ? (
+            <span className="flex items-center gap-1 text-gray-400">
+              <UnlinkIcon className="w-3 h-3" />
+              Commented text was removed
+            </span>
+          ) : thread.anchor.quote ? (
+            <span className="bg-amber-100 text-amber-900 px-1 rounded line-clamp-2">
+              "{thread.anchor.quote}"
+            </span>
+          ) : (
+            <span>Whole block</span>
+          )}
+        </button>
+
+        {canResolve && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={resolved ? onReopen : onResolve}
+            className="h-7 px-2 text-xs flex-shrink-0"
+            title={resolved ? 'Reopen thread' : 'Resolve thread'}
+          >
+            {resolved ? <RotateCcwIcon className="w-3 h-3" /> : <CheckIcon className="w-3 h-3" />}
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        {thread.comments.map(comment => (
+          <div key={comment.id} className="text-sm">
+            <div className="flex items-center gap-2 text-xs text-gray-500">
+              <span className="font-medium text-gray-800">{comment.author_name}</span>
+              <span>{new Date(comment.created_at).toLocaleString()}</span>
+            </div>
+            <p className="text-gray-700 whitespace-pre-wrap">{comment.text}</p>
+            {comment.mentions.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-1">
+                {comment.mentions.map(userId => (
+                  <Badge key={userId} variant="outline" className="text-xs px-1 py-0">
+                    @{nameOf(userId)}
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {resolved && thread.resolved_by && (
+        <p className="mt-2 text-xs text-gray-500">Resolved by {nameOf(thread.resolved_by)}</p>
+      )}
+
+      {!resolved && canReply && (
+        <div className="mt-3">
+          <CommentComposer placeholder="Reply..." participants={participants} onSubmit={onReply} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Empty state
+ */
+function EmptyState() {
+  return (
+    <div className="flex flex-col items-center justify-center p-6 text-gray-500">
+      <MessageSquareIcon className="w-8 h-8 mb-2" />
+      <p className="text-sm text-center">No comments yet.</p>
+    </div>
+  );
+}
+
+export function CommentsPanel({
+  threads,
+  blocks,
+  selectedBlockId,
+  selectedQuote,
+  permissions,
+  currentUserId,
+  participants = [],
+  onCreate,
+  onReply,
+  onResolve,
+  onReopen,
+  onSelectThread,
+  className
+}: CommentsPanelProps) {
+  const [showResolved, setShowResolved] = useState(false);
+
+  if (!permissions.can_view) return null;
+
+  // Threads in document order; detached ones at the end
+  const blockOrder = blocks.map(block => block.id);
+  const position = (thread: CommentThread) => {
+    const index = blockOrder.indexOf(thread.anchor.block_id);
+    return thread.anchor.detached || index < 0 ? blockOrder.length : index;
+  };
+  const sorted = threads
+    .filter(thread => showResolved || thread.status === 'open')
+    .sort((a, b) => position(a) - position(b) || a.anchor.start - b.anchor.start);
+  const openCount = threads.filter(thread => thread.status === 'open').length;
+  const resolvedCount = threads.length - openCount;
+
+  return (
+    <Card className={cn('comments-panel', className)}>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm flex items-center gap-2">
+          <MessageSquareIcon className="w-4 h-4 text-amber-600" />
+          Comments
+        </CardTitle>
+        <div className="flex items-center gap-2 text-xs text-gray-600">
+          <span>{openCount} open</span>
+          {resolvedCount > 0 && (
+            <>
+              <span>•</span>
+              <button
+                onClick={() => setShowResolved(!showResolved)}
+                className="text-blue-600 hover:text-blue-800"
+              >
+                {showResolved ? 'Hide' : 'Show'} {resolvedCount} resolved
+              </button>
+            </>
+          )}
+        </div>
+      </CardHeader>
+
+      <CardContent className="pt-0 space-y-3">
+        {permissions.can_comment && selectedBlockId && (
+          <div className="p-3 border border-dashed border-gray-300 rounded-lg">
+            <p className="text-xs text-gray-500 mb-2">
+              {selectedQuote ? `Comment on "${selectedQuote}"` : 'Comment on the selected block'}
+            </p>
+            <CommentComposer placeholder="Add a comment..." participants={participants} onSubmit={onCreate} />
+          </div>
+        )}
+
+        {sorted.length === 0 ? (
+          <EmptyState />
+        ) : (
+          sorted.map(thread => (
+            <ThreadItem
+              key={thread.id}
+              thread={thread}
+              canReply={permissions.can_comment}
+              canResolve={permissions.can_resolve_any || thread.comments[0]?.author_id === currentUserId}
+              participants={participants}
+              onReply={(text) => onReply(thread.id, text)}
+              onResolve={() => onResolve(thread.id)}
+              onReopen={() => onReopen(thread.id)}
+              onSelect={onSelectThread ? () => onSelectThread(thread) : undefined}
+            />
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
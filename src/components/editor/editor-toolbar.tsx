@@ -12,13 +12,15 @@ import {
   Quote,
   Code,
   Lightbulb,
-  Edit3
+  Edit3,
+  FileCheck
 } from 'lucide-react';
+import { EditorMode } from '@/types/editor';
 import { cn } from '@/lib/utils';
 
 interface EditorToolbarProps {
   /** Current editor mode */
-  mode: 'creative-flow' | 'suggestion';
+  mode: EditorMode;
   
   /** Whether undo is available */
   canUndo: boolean;
@@ -29,9 +31,21 @@ interface EditorToolbarProps {
   /** Whether suggestion mode is enabled */
   suggestionModeEnabled: boolean;
   
+  /** Whether review mode is enabled */
+  reviewModeEnabled?: boolean;
+  
+  /** Whether review mode is required and cannot be turned off */
+  reviewModeLocked?: boolean;
+  
+  /** Number of tracked changes waiting for review */
+  pendingChangeCount?: number;
+  
   /** Callback to toggle between modes */
   onModeToggle: () => void;
   
+  /** Callback to toggle review mode */
+  onReviewToggle?: () => void;
+  
   /** Callback for undo action */
   onUndo: () => void;
   
@@ -53,17 +67,45 @@ export function EditorToolbar({
   canUndo,
   canRedo,
   suggestionModeEnabled,
+  reviewModeEnabled = false,
+  reviewModeLocked = false,
+  pendingChangeCount = 0,
   onModeToggle,
+  onReviewToggle,
   onUndo,
   onRedo,
   onAddBlock
 }: EditorToolbarProps) {
   const isCreativeFlow = mode === 'creative-flow';
+  const isReview = mode === 'review';
   
   return (
     <div className="editor-toolbar flex items-center gap-2 p-3 border-b border-gray-200 bg-gray-50">
+      {/* Review Toggle */}
+      {reviewModeEnabled && (
+        <div className="flex items-center gap-2 mr-4">
+          <Button
+            variant={isReview ? "default" : "outline"}
+            size="sm"
+            onClick={onReviewToggle}
+            disabled={reviewModeLocked}
+            className="flex items-center gap-2"
+            title={reviewModeLocked ? 'This project requires changes to be approved' : 'Track changes for review'}
+          >
+            <FileCheck className="h-4 w-4" />
+            {isReview ? 'Reviewing' : 'Review'}
+          </Button>
+          
+          {isReview && (
+            <span className="text-sm text-green-700">
+              {pendingChangeCount} pending {pendingChangeCount === 1 ? 'change' : 'changes'}
+            </span>
+          )}
+        </div>
+      )}
+      
       {/* Mode Toggle */}
-      {suggestionModeEnabled && (
+      {suggestionModeEnabled && !isReview && (
         <div className="flex items-center gap-2 mr-4">
           <Button
             variant={isCreativeFlow ? "default" : "outline"}
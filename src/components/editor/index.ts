@@ -2,12 +2,15 @@
  * WYSIWYG-JSON Editor Components
  * 
  * A block-based editor that outputs JSON conforming to UIStateTree structure.
- * Supports Creative Flow mode (default) and Suggestion mode (on-demand).
+ * Supports Creative Flow mode (default), Suggestion mode (on-demand) and
+ * Review mode, which tracks changes for approval.
  */
 
 export { WYSIWYGEditor } from './wysiwyg-editor';
 export { EditorToolbar } from './editor-toolbar';
 export { BlockRenderer } from './block-renderer';
+export { CommentsPanel } from './comments-panel';
+export { ReviewPanel } from './review-panel';
 
 // Block components
 export { TextBlockComponent } from './blocks/text-block';
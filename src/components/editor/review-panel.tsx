@@ -0,0 +1,127 @@
+/**
+ * Review Panel Component
+ *
+ * Lists the tracked changes of a document in review mode with their authors
+ * Each change is shown as a before-and-after diff that reviewers can accept
+ * or reject, one at a time or all at once
+ */
+
+'use client';
+
+import React from 'react';
+import { ContentBlock, TrackedChange } from '@/types/editor';
+import { toSemanticDiff } from '@/lib/collaboration/tracked-changes';
+import { SemanticDiff } from './semantic-diff';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { CheckIcon, FileCheck, XIcon } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface ReviewPanelProps {
+  changes: TrackedChange[];
+  blocks: ContentBlock[];
+  /** Whether the current user may accept and reject changes */
+  canReview: boolean;
+  onAccept: (changeId: string) => void;
+  onReject: (changeId: string) => void;
+  onAcceptAll: () => void;
+  onRejectAll: () => void;
+  className?: string;
+}
+
+/**
+ * Empty state
+ */
+function EmptyState() {
+  return (
+    <div className="flex flex-col items-center justify-center p-6 text-gray-500">
+      <FileCheck className="w-8 h-8 mb-2" />
+      <p className="text-sm text-center">No changes waiting for review.</p>
+    </div>
+  );
+}
+
+export function ReviewPanel({
+  changes,
+  blocks,
+  canReview,
+  onAccept,
+  onReject,
+  onAcceptAll,
+  onRejectAll,
+  className
+}: ReviewPanelProps) {
+  // Changes in document order; changes to the same block oldest first
+  const blockOrder = blocks.map(block => block.id);
+  const position = (change: TrackedChange) => {
+    const index = blockOrder.indexOf(change.block_id);
+    return index < 0 ? blockOrder.length : index;
+  };
+  const sorted = changes
+    .map((change, index) => ({ change, index }))
+    .sort((a, b) => position(a.change) - position(b.change) || a.index - b.index)
+    .map(entry => entry.change);
+  const authors = changes
+    .map(change => change.author.display_name)
+    .filter((name, index, names) => names.indexOf(name) === index);
+
+  return (
+    <Card className={cn('review-panel', className)}>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm flex items-center gap-2">
+          <FileCheck className="w-4 h-4 text-green-600" />
+          Review Changes
+        </CardTitle>
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-xs text-gray-600">
+            {changes.length} pending {changes.length === 1 ? 'change' : 'changes'}
+            {authors.length > 0 && ` by ${authors.join(', ')}`}
+          </p>
+
+          {canReview && changes.length > 0 && (
+            <div className="flex items-center gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={onRejectAll}
+                className="h-7 px-2 text-xs flex items-center gap-1"
+              >
+                <XIcon className="w-3 h-3" />
+                Reject all
+              </Button>
+              <Button
+                size="sm"
+                onClick={onAcceptAll}
+                className="h-7 px-2 text-xs flex items-center gap-1"
+              >
+                <CheckIcon className="w-3 h-3" />
+                Accept all
+              </Button>
+            </div>
+          )}
+        </div>
+        {!canReview && changes.length > 0 && (
+          <p className="text-xs text-gray-500">Your changes are waiting for approval.</p>
+        )}
+      </CardHeader>
+
+      <CardContent className="pt-0 space-y-3">
+        {sorted.length === 0 ? (
+          <EmptyState />
+        ) : (
+          sorted.map(change => (
+            <SemanticDiff
+              key={change.id}
+              diff={toSemanticDiff(change, blocks)}
+              variant="review"
+              author={change.author.display_name}
+              onResolve={canReview
+                ? (changeId, resolution) => (resolution === 'accept' ? onAccept(changeId) : onReject(changeId))
+                : undefined}
+            />
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
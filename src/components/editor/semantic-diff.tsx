@@ -2,14 +2,16 @@
  * Semantic Diff Component
  * 
  * Displays conflicts between different versions of content blocks
- * with a user-friendly "Before and After" comparison interface
+ * with a user-friendly "Before and After" comparison interface.
+ * The history variant shows the same comparison for past revisions, without
+ * resolution actions; the review variant shows a tracked change with its
+ * author and accept/reject actions.
  */
 
 'use client';
 
 import React from 'react';
-import { SemanticDiff } from '@/services/collaboration-service';
-import { ContentBlock, TextBlock, HeadingBlock } from '@/types/editor';
+import { ContentBlock, TextBlock, HeadingBlock, SemanticDiff as SemanticDiffData } from '@/types/editor';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -17,15 +19,22 @@ import { CheckIcon, XIcon, GitMergeIcon } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 interface SemanticDiffProps {
-  diff: SemanticDiff;
-  onResolve: (diffId: string, resolution: 'accept' | 'reject' | 'merge') => void;
+  diff: SemanticDiffData;
+  onResolve?: (diffId: string, resolution: 'accept' | 'reject' | 'merge') => void;
+  variant?: 'conflict' | 'history' | 'review';
+  /** Who made the change, shown by the review variant */
+  author?: string;
   className?: string;
 }
 
 /**
  * Renders content block in a readable format for comparison
  */
-function renderBlockContent(block: ContentBlock): React.ReactNode {
+function renderBlockContent(block?: ContentBlock): React.ReactNode {
+  if (!block) {
+    return <em className="text-gray-400">No block</em>;
+  }
+
   switch (block.type) {
     case 'text':
       const textBlock = block as TextBlock;
@@ -128,7 +137,7 @@ function renderBlockContent(block: ContentBlock): React.ReactNode {
 /**
  * Renders a change description with appropriate styling
  */
-function renderChangeDescription(change: SemanticDiff['changes'][0]): React.ReactNode {
+function renderChangeDescription(change: SemanticDiffData['changes'][0]): React.ReactNode {
   const getChangeIcon = (type: string) => {
     switch (type) {
       case 'addition':
@@ -169,20 +178,27 @@ function renderChangeDescription(change: SemanticDiff['changes'][0]): React.Reac
   );
 }
 
-export function SemanticDiff({ diff, onResolve, className }: SemanticDiffProps) {
+export function SemanticDiff({ diff, onResolve, variant = 'conflict', author, className }: SemanticDiffProps) {
   const handleResolve = (resolution: 'accept' | 'reject' | 'merge') => {
-    onResolve(diff.id, resolution);
+    onResolve?.(diff.id, resolution);
   };
+  const isHistory = variant === 'history';
+  const isReview = variant === 'review';
+  const isComparison = isHistory || isReview;
   
   return (
     <Card className={cn('semantic-diff', className)}>
       <CardHeader className="pb-3">
         <CardTitle className="text-lg flex items-center gap-2">
           <GitMergeIcon className="w-5 h-5 text-orange-500" />
-          Conflict Detected
+          {isReview ? 'Pending Change' : isHistory ? 'Changed Block' : 'Conflict Detected'}
         </CardTitle>
         <p className="text-sm text-gray-600">
-          Another user has made changes to this block. Please review the differences and choose how to resolve the conflict.
+          {isReview
+            ? `${author || 'Someone'} changed this block. Accept the change or put the block back as it was.`
+            : isHistory
+            ? 'This block differs between the two versions.'
+            : 'Another user has made changes to this block. Please review the differences and choose how to resolve the conflict.'}
         </p>
       </CardHeader>
       
@@ -204,7 +220,7 @@ export function SemanticDiff({ diff, onResolve, className }: SemanticDiffProps)
           {/* Before */}
           <div className="space-y-2">
             <div className="flex items-center gap-2">
-              <h4 className="font-medium text-sm text-gray-700">Before (Your Version)</h4>
+              <h4 className="font-medium text-sm text-gray-700">{isComparison ? 'Before' : 'Before (Your Version)'}</h4>
               <Badge variant="outline" className="text-xs">Original</Badge>
             </div>
             <div className="border rounded-lg p-3 bg-red-50 border-red-200">
@@ -215,7 +231,7 @@ export function SemanticDiff({ diff, onResolve, className }: SemanticDiffProps)
           {/* After */}
           <div className="space-y-2">
             <div className="flex items-center gap-2">
-              <h4 className="font-medium text-sm text-gray-700">After (Their Version)</h4>
+              <h4 className="font-medium text-sm text-gray-700">{isComparison ? 'After' : 'After (Their Version)'}</h4>
               <Badge variant="outline" className="text-xs">Modified</Badge>
             </div>
             <div className="border rounded-lg p-3 bg-green-50 border-green-200">
@@ -224,42 +240,68 @@ export function SemanticDiff({ diff, onResolve, className }: SemanticDiffProps)
           </div>
         </div>
         
-        {/* Resolution Actions */}
-        <div className="flex flex-col sm:flex-row gap-2 pt-4 border-t">
-          <Button
-            onClick={() => handleResolve('reject')}
-            variant="outline"
-            className="flex items-center gap-2"
-          >
-            <XIcon className="w-4 h-4" />
-            Keep My Version
-          </Button>
+        {isReview && onResolve && (
+          <div className="flex flex-col sm:flex-row gap-2 pt-4 border-t">
+            <Button
+              onClick={() => handleResolve('reject')}
+              variant="outline"
+              className="flex items-center gap-2"
+            >
+              <XIcon className="w-4 h-4" />
+              Reject Change
+            </Button>
+            
+            <Button
+              onClick={() => handleResolve('accept')}
+              variant="default"
+              className="flex items-center gap-2"
+            >
+              <CheckIcon className="w-4 h-4" />
+              Accept Change
+            </Button>
+          </div>
+        )}
+        
+        {!isComparison && (
+          <>
+            {/* Resolution Actions */}
+            <div className="flex flex-col sm:flex-row gap-2 pt-4 border-t">
+              <Button
+                onClick={() => handleResolve('reject')}
+                variant="outline"
+                className="flex items-center gap-2"
+              >
+                <XIcon className="w-4 h-4" />
+                Keep My Version
+              </Button>
           
-          <Button
-            onClick={() => handleResolve('accept')}
-            variant="outline"
-            className="flex items-center gap-2"
-          >
-            <CheckIcon className="w-4 h-4" />
-            Accept Their Version
-          </Button>
+              <Button
+                onClick={() => handleResolve('accept')}
+                variant="outline"
+                className="flex items-center gap-2"
+              >
+                <CheckIcon className="w-4 h-4" />
+                Accept Their Version
+              </Button>
           
-          <Button
-            onClick={() => handleResolve('merge')}
-            variant="default"
-            className="flex items-center gap-2"
-          >
-            <GitMergeIcon className="w-4 h-4" />
-            Merge Changes
-          </Button>
-        </div>
+              <Button
+                onClick={() => handleResolve('merge')}
+                variant="default"
+                className="flex items-center gap-2"
+              >
+                <GitMergeIcon className="w-4 h-4" />
+                Merge Changes
+              </Button>
+            </div>
         
-        {/* Help Text */}
-        <div className="text-xs text-gray-500 bg-gray-50 p-3 rounded">
-          <p><strong>Keep My Version:</strong> Discard their changes and keep your original content.</p>
-          <p><strong>Accept Their Version:</strong> Replace your content with their changes.</p>
-          <p><strong>Merge Changes:</strong> Combine both versions intelligently (recommended).</p>
-        </div>
+            {/* Help Text */}
+            <div className="text-xs text-gray-500 bg-gray-50 p-3 rounded">
+              <p><strong>Keep My Version:</strong> Discard their changes and keep your original content.</p>
+              <p><strong>Accept Their Version:</strong> Replace your content with their changes.</p>
+              <p><strong>Merge Changes:</strong> Combine both versions intelligently (recommended).</p>
+            </div>
+          </>
+        )}
       </CardContent>
     </Card>
   );
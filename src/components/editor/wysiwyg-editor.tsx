@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useReducer, useCallback, useEffect, useState } from 'react';
+import React, { useReducer, useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import { 
   UIStateTree, 
@@ -8,15 +8,45 @@ import {
   EditorAction, 
   ContentBlock, 
   WYSIWYGEditorProps,
-  TextBlock 
+  TextBlock,
+  CommentThread,
+  TrackedChange
 } from '@/types/editor';
+import { SessionParticipant } from '@/types/collaboration';
 import { BlockRenderer } from './block-renderer';
 import { EditorToolbar } from './editor-toolbar';
 import { CollaborationStatus } from './collaboration-status';
 import { SemanticDiff } from './semantic-diff';
+import { CommentsPanel } from './comments-panel';
+import { ReviewPanel } from './review-panel';
 import { useCollaboration } from '@/hooks/use-collaboration';
+import { useBlockLeases } from '@/hooks/use-block-leases';
+import { CommentApi, CommentClient } from '@/services/comment-client';
+import { ReviewClient } from '@/services/review-client';
 import { useSuggestions } from '@/hooks/use-suggestions';
 import { cn } from '@/lib/utils';
+import {
+  acceptAllTrackedChanges,
+  acceptTrackedChange,
+  isPendingDeletion,
+  rejectAllTrackedChanges,
+  rejectTrackedChange,
+  ReviewPermissions,
+  trackBlockDeletion,
+  trackBlockInsertion,
+  trackBlockUpdate
+} from '@/lib/collaboration/tracked-changes';
+import {
+  createCommentThread,
+  getCommentableText,
+  rebaseCommentThreads,
+  reopenThread,
+  replyToThread,
+  resolveThread
+} from '@/lib/collaboration/comment-threads';
+
+/** Default for the participants prop, kept stable across renders */
+const NO_PARTICIPANTS: SessionParticipant[] = [];
 
 /**
  * Creates an empty UIStateTree document
@@ -56,13 +86,13 @@ function createEmptyDocument(): UIStateTree {
 /**
  * Initial editor state
  */
-function createInitialState(initialDocument?: UIStateTree): EditorState {
+function createInitialState(initialDocument?: UIStateTree, requireApproval = false): EditorState {
   const document = initialDocument || createEmptyDocument();
   
   return {
     document,
     selectedBlockId: document.blocks[0]?.id,
-    mode: 'creative-flow',
+    mode: requireApproval ? 'review' : 'creative-flow',
     collaboration: {
       lockedBlocks: {},
       currentUserLock: undefined
@@ -74,13 +104,40 @@ function createInitialState(initialDocument?: UIStateTree): EditorState {
   };
 }
 
+/**
+ * Comment threads of a document moved along with a change of its blocks
+ */
+function rebasedComments(document: UIStateTree, blocks: ContentBlock[]): Pick<UIStateTree, 'comments'> {
+  return document.comments
+    ? { comments: rebaseCommentThreads(document.comments, document.blocks, blocks) }
+    : {};
+}
+
+/**
+ * Document after a review action on its tracked changes
+ */
+function reviewDocument(document: UIStateTree, action: EditorAction): UIStateTree {
+  switch (action.type) {
+    case 'ACCEPT_CHANGE':
+      return acceptTrackedChange(document, action.payload.changeId);
+    case 'REJECT_CHANGE':
+      return rejectTrackedChange(document, action.payload.changeId);
+    case 'ACCEPT_ALL_CHANGES':
+      return acceptAllTrackedChanges(document);
+    case 'REJECT_ALL_CHANGES':
+      return rejectAllTrackedChanges(document);
+    default:
+      return document;
+  }
+}
+
 /**
  * Editor state reducer
  */
 function editorReducer(state: EditorState, action: EditorAction): EditorState {
   switch (action.type) {
     case 'ADD_BLOCK': {
-      const { block, position } = action.payload;
+      const { block, position, author } = action.payload;
       const newBlocks = [...state.document.blocks];
       
       if (position !== undefined) {
@@ -101,7 +158,9 @@ function editorReducer(state: EditorState, action: EditorAction): EditorState {
       
       return {
         ...state,
-        document: newDocument,
+        document: state.mode === 'review' && author
+          ? trackBlockInsertion(newDocument, block, author)
+          : newDocument,
         selectedBlockId: block.id,
         history: {
           past: [...state.history.past, state.document],
@@ -111,11 +170,15 @@ function editorReducer(state: EditorState, action: EditorAction): EditorState {
     }
     
     case 'UPDATE_BLOCK': {
-      const { blockId, updates } = action.payload;
+      const { blockId, updates, author } = action.payload;
       const blockIndex = state.document.blocks.findIndex(b => b.id === blockId);
       
       if (blockIndex === -1) return state;
       
+      // A block marked for deletion is not edited further
+      const tracked = state.mode === 'review' && author;
+      if (tracked && isPendingDeletion(state.document, blockId)) return state;
+      
       const updatedBlock = {
         ...state.document.blocks[blockIndex],
         ...updates,
@@ -127,6 +190,7 @@ function editorReducer(state: EditorState, action: EditorAction): EditorState {
       
       const newDocument = {
         ...state.document,
+        ...rebasedComments(state.document, newBlocks),
         blocks: newBlocks,
         metadata: {
           ...state.document.metadata,
@@ -137,7 +201,9 @@ function editorReducer(state: EditorState, action: EditorAction): EditorState {
       
       return {
         ...state,
-        document: newDocument,
+        document: tracked
+          ? trackBlockUpdate(newDocument, state.document.blocks[blockIndex], updatedBlock, author)
+          : newDocument,
         history: {
           past: [...state.history.past, state.document],
           future: []
@@ -146,8 +212,15 @@ function editorReducer(state: EditorState, action: EditorAction): EditorState {
     }
     
     case 'DELETE_BLOCK': {
-      const { blockId } = action.payload;
-      const newBlocks = state.document.blocks.filter(b => b.id !== blockId);
+      const { blockId, author } = action.payload;
+      
+      // In review mode the block is only marked for deletion
+      const tracked = state.mode === 'review' && author
+        ? trackBlockDeletion(state.document, blockId, author)
+        : null;
+      if (tracked === state.document) return state;
+      
+      const newBlocks = tracked ? tracked.blocks : state.document.blocks.filter(b => b.id !== blockId);
       
       // Don't allow deleting the last block
       if (newBlocks.length === 0) {
@@ -155,7 +228,8 @@ function editorReducer(state: EditorState, action: EditorAction): EditorState {
       }
       
       const newDocument = {
-        ...state.document,
+        ...(tracked || state.document),
+        ...rebasedComments(state.document, newBlocks),
         blocks: newBlocks,
         metadata: {
           ...state.document.metadata,
@@ -166,7 +240,7 @@ function editorReducer(state: EditorState, action: EditorAction): EditorState {
       
       // Update selected block if the deleted block was selected
       let newSelectedBlockId = state.selectedBlockId;
-      if (state.selectedBlockId === blockId) {
+      if (state.selectedBlockId === blockId && !newBlocks.some(b => b.id === blockId)) {
         newSelectedBlockId = newBlocks[0]?.id;
       }
       
@@ -213,6 +287,40 @@ function editorReducer(state: EditorState, action: EditorAction): EditorState {
       };
     }
     
+    case 'SET_BLOCKS': {
+      // Blocks merged from collaborators; not an undoable local edit
+      const { blocks } = action.payload;
+      if (blocks.length === 0) return state;
+      
+      const selectedStillExists = blocks.some(b => b.id === state.selectedBlockId);
+      
+      return {
+        ...state,
+        document: {
+          ...state.document,
+          ...rebasedComments(state.document, blocks),
+          blocks,
+          metadata: {
+            ...state.document.metadata,
+            updated_at: new Date(),
+            version: state.document.metadata.version + 1
+          }
+        },
+        selectedBlockId: selectedStillExists ? state.selectedBlockId : blocks[0].id
+      };
+    }
+    
+    case 'SET_TRACKED_CHANGES': {
+      // Tracked changes recorded and settled by collaborators; not an undoable local edit
+      return {
+        ...state,
+        document: {
+          ...state.document,
+          tracked_changes: action.payload.changes
+        }
+      };
+    }
+    
     case 'SELECT_BLOCK': {
       return {
         ...state,
@@ -266,6 +374,53 @@ function editorReducer(state: EditorState, action: EditorAction): EditorState {
       };
     }
     
+    case 'SET_COMMENT_THREAD': {
+      // Comments are not part of the undo history
+      const { thread } = action.payload;
+      const comments = state.document.comments || [];
+      const exists = comments.some(t => t.id === thread.id);
+      
+      return {
+        ...state,
+        document: {
+          ...state.document,
+          comments: exists
+            ? comments.map(t => (t.id === thread.id ? thread : t))
+            : [...comments, thread]
+        }
+      };
+    }
+    
+    case 'ACCEPT_CHANGE':
+    case 'REJECT_CHANGE':
+    case 'ACCEPT_ALL_CHANGES':
+    case 'REJECT_ALL_CHANGES': {
+      const reviewed = reviewDocument(state.document, action);
+      
+      // Rejecting or accepting may remove blocks, but never the last one
+      if (reviewed === state.document || reviewed.blocks.length === 0) return state;
+      
+      const selectedStillExists = reviewed.blocks.some(b => b.id === state.selectedBlockId);
+      
+      return {
+        ...state,
+        document: {
+          ...reviewed,
+          ...rebasedComments(state.document, reviewed.blocks),
+          metadata: {
+            ...reviewed.metadata,
+            updated_at: new Date(),
+            version: reviewed.metadata.version + 1
+          }
+        },
+        selectedBlockId: selectedStillExists ? state.selectedBlockId : reviewed.blocks[0].id,
+        history: {
+          past: [...state.history.past, state.document],
+          future: []
+        }
+      };
+    }
+    
     case 'ACCEPT_SUGGESTION': {
       // TODO: Implement suggestion acceptance logic
       return state;
@@ -282,9 +437,10 @@ function editorReducer(state: EditorState, action: EditorAction): EditorState {
       const previous = state.history.past[state.history.past.length - 1];
       const newPast = state.history.past.slice(0, -1);
       
+      // Restore the blocks but keep the current comment threads
       return {
         ...state,
-        document: previous,
+        document: { ...previous, ...rebasedComments(state.document, previous.blocks) },
         history: {
           past: newPast,
           future: [state.document, ...state.history.future]
@@ -300,7 +456,7 @@ function editorReducer(state: EditorState, action: EditorAction): EditorState {
       
       return {
         ...state,
-        document: next,
+        document: { ...next, ...rebasedComments(state.document, next.blocks) },
         history: {
           past: [...state.history.past, state.document],
           future: newFuture
@@ -325,20 +481,49 @@ export function WYSIWYGEditor({
   onStateChange,
   collaborationEnabled = false,
   userId = 'current-user',
+  projectId,
+  userName,
+  sessionLocks,
+  lockSessionId,
+  blockLockApi,
   suggestionModeEnabled = true,
+  reviewModeEnabled = true,
+  requireApproval = false,
+  canReviewChanges = true,
+  reviewApi,
+  commentPermissions,
+  participants = NO_PARTICIPANTS,
+  onCommentThreadChange,
+  commentApi,
   className,
   readOnly = false
 }: WYSIWYGEditorProps) {
-  const [state, dispatch] = useReducer(editorReducer, createInitialState(initialDocument));
+  const [state, dispatch] = useReducer(editorReducer, createInitialState(initialDocument, requireApproval));
   const [showConflicts, setShowConflicts] = useState(false);
+  const [textSelection, setTextSelection] = useState<{ blockId: string; start: number; end: number } | null>(null);
+  
+  // Edits and comments of the current user are attributed to them
+  const currentAuthor = useMemo(
+    () => ({ user_id: userId, display_name: userName || userId }),
+    [userId, userName]
+  );
   
   // Initialize collaboration if enabled
   const collaboration = useCollaboration({
     documentId: state.document.metadata.id,
+    projectId,
     userId,
     userName: `User ${userId}`, // In production, get from user context
     enabled: collaborationEnabled,
-    autoConnect: true
+    autoConnect: true,
+    initialBlocks: state.document.blocks
+  });
+  
+  // Block lock leases of the collaborative session, held on the server
+  const leases = useBlockLeases({
+    sessionId: collaborationEnabled ? lockSessionId : undefined,
+    userId,
+    api: blockLockApi
   });
   
   // Initialize suggestions if enabled
@@ -361,6 +546,9 @@ export function WYSIWYGEditor({
     onStateChange?.(state);
   }, [state, onStateChange]);
   
+  // Tracked changes as last shared with collaborators
+  const syncedChangesRef = useRef<TrackedChange[]>([]);
+  
   // Collaboration event handlers
   useEffect(() => {
     if (!collaborationEnabled) return;
@@ -379,27 +567,67 @@ export function WYSIWYGEditor({
       });
     };
     
+    const handleDocumentChanged = (event: any) => {
+      // Inserts, moves and removals by collaborators arrive as the merged block list
+      if (event.data?.blocks) {
+        dispatch({ type: 'SET_BLOCKS', payload: { blocks: event.data.blocks } });
+      }
+    };
+    
     const handleBlockUpdated = (event: any) => {
-      // Handle remote block updates
+      // Remote edits arrive with the tracked changes their author recorded, so they are not tracked again
       if (event.userId !== userId) {
         dispatch({ 
           type: 'UPDATE_BLOCK', 
-          payload: { blockId: event.data.blockId, updates: event.data.block } 
+          payload: {
+            blockId: event.data.blockId,
+            updates: event.data.block
+          } 
         });
       }
     };
     
+    const handleTrackedChangesChanged = (event: any) => {
+      syncedChangesRef.current = event.data.changes;
+      dispatch({ type: 'SET_TRACKED_CHANGES', payload: { changes: event.data.changes } });
+    };
+    
     collaboration.onCollaborationEvent('block_locked', handleBlockLocked);
     collaboration.onCollaborationEvent('block_unlocked', handleBlockUnlocked);
     collaboration.onCollaborationEvent('block_updated', handleBlockUpdated);
+    collaboration.onCollaborationEvent('document_changed', handleDocumentChanged);
+    collaboration.onCollaborationEvent('tracked_changes_changed', handleTrackedChangesChanged);
     
     return () => {
       collaboration.offCollaborationEvent('block_locked', handleBlockLocked);
       collaboration.offCollaborationEvent('block_unlocked', handleBlockUnlocked);
       collaboration.offCollaborationEvent('block_updated', handleBlockUpdated);
+      collaboration.offCollaborationEvent('document_changed', handleDocumentChanged);
+      collaboration.offCollaborationEvent('tracked_changes_changed', handleTrackedChangesChanged);
     };
   }, [collaborationEnabled, collaboration, userId]);
   
+  // Tracked changes live in the shared document: recorded, edited and settled ones go to collaborators
+  useEffect(() => {
+    if (!collaborationEnabled) return;
+    
+    const current = state.document.tracked_changes || [];
+    const synced = syncedChangesRef.current;
+    if (current === synced) return;
+    
+    current.forEach(change => {
+      if (synced.find(c => c.id === change.id) !== change) {
+        collaboration.sendTrackedChange(change);
+      }
+    });
+    synced.forEach(change => {
+      if (!current.some(c => c.id === change.id)) {
+        collaboration.settleTrackedChange(change.id);
+      }
+    });
+    syncedChangesRef.current = current;
+  }, [collaborationEnabled, collaboration, state.document.tracked_changes]);
+  
   // Sync collaboration locks with editor state
   useEffect(() => {
     if (!collaborationEnabled) return;
@@ -456,15 +684,24 @@ export function WYSIWYGEditor({
         return;
     }
     
-    dispatch({ type: 'ADD_BLOCK', payload: { block: newBlock, position } });
-  }, []);
+    dispatch({ type: 'ADD_BLOCK', payload: { block: newBlock, position, author: currentAuthor } });
+    
+    if (collaborationEnabled) {
+      collaboration.sendBlockInsert(newBlock, position !== undefined ? position : state.document.blocks.length);
+    }
+  }, [collaborationEnabled, collaboration, state.document.blocks.length, currentAuthor]);
   
   const handleUpdateBlock = useCallback(async (blockId: string, updates: Partial<ContentBlock>) => {
     // Check if block is locked by another user
-    if (collaborationEnabled && collaboration.isBlockLocked(blockId)) {
+    if (collaborationEnabled && (collaboration.isBlockLocked(blockId) || leases.heldByOther(blockId))) {
       return; // Don't allow updates to locked blocks
     }
     
+    // Keep the lease while typing
+    if (collaborationEnabled) {
+      leases.renew(blockId);
+    }
+    
     // Request lock if collaboration is enabled
     if (collaborationEnabled && !collaboration.lockedBlocks[blockId]) {
       const lockAcquired = await collaboration.requestBlockLock(blockId);
@@ -478,38 +715,120 @@ export function WYSIWYGEditor({
     if (!currentBlock) return;
     
     // Apply updates
-    dispatch({ type: 'UPDATE_BLOCK', payload: { blockId, updates } });
+    dispatch({ type: 'UPDATE_BLOCK', payload: { blockId, updates, author: currentAuthor } });
     
     // Send update to collaborators
     if (collaborationEnabled) {
       const updatedBlock = { ...currentBlock, ...updates };
       await collaboration.sendBlockUpdate(blockId, updatedBlock);
     }
-  }, [collaborationEnabled, collaboration, state.document.blocks]);
+  }, [collaborationEnabled, collaboration, leases, state.document.blocks, currentAuthor]);
   
   const handleDeleteBlock = useCallback((blockId: string) => {
-    dispatch({ type: 'DELETE_BLOCK', payload: { blockId } });
-  }, []);
+    dispatch({ type: 'DELETE_BLOCK', payload: { blockId, author: currentAuthor } });
+    
+    // In review mode the block usually stays, marked for deletion
+    const removed = state.mode !== 'review' ||
+      !trackBlockDeletion(state.document, blockId, currentAuthor).blocks.some(b => b.id === blockId);
+    
+    // The editor keeps its last block, so collaborators must too
+    if (collaborationEnabled && removed && state.document.blocks.length > 1) {
+      collaboration.sendBlockDelete(blockId);
+    }
+  }, [collaborationEnabled, collaboration, state.mode, state.document, currentAuthor]);
   
   const handleSelectBlock = useCallback(async (blockId?: string) => {
     // Release previous lock if collaboration is enabled
     if (collaborationEnabled && state.selectedBlockId && state.selectedBlockId !== blockId) {
       await collaboration.releaseBlockLock(state.selectedBlockId);
+      await leases.release(state.selectedBlockId);
     }
     
     dispatch({ type: 'SELECT_BLOCK', payload: { blockId } });
     
+    if (collaborationEnabled) {
+      collaboration.updateCursor(blockId ? { block_id: blockId, offset: 0, updated_at: new Date() } : null);
+    }
+    
     // Request lock for new block if collaboration is enabled
     if (collaborationEnabled && blockId && !collaboration.isBlockLocked(blockId)) {
       await collaboration.requestBlockLock(blockId);
+      await leases.acquire(blockId);
+    }
+  }, [collaborationEnabled, collaboration, leases, state.selectedBlockId]);
+  
+  const handleRequestTakeover = useCallback(async () => {
+    if (state.selectedBlockId) {
+      await leases.requestTakeover(state.selectedBlockId);
     }
-  }, [collaborationEnabled, collaboration, state.selectedBlockId]);
+  }, [leases, state.selectedBlockId]);
+  
+  // Lease on the selected block held by someone else
+  const selectedLease = collaborationEnabled && state.selectedBlockId
+    ? leases.heldByOther(state.selectedBlockId)
+    : undefined;
   
   const handleModeToggle = useCallback(() => {
     const newMode = state.mode === 'creative-flow' ? 'suggestion' : 'creative-flow';
     dispatch({ type: 'SET_MODE', payload: { mode: newMode } });
   }, [state.mode]);
   
+  // Review rights on a project's documents come from the project and the current user
+  const reviews = useMemo(() => (projectId ? reviewApi || new ReviewClient() : null), [projectId, reviewApi]);
+  const [reviewPermissions, setReviewPermissions] = useState<ReviewPermissions | null>(null);
+  
+  useEffect(() => {
+    setReviewPermissions(null);
+    if (!reviews || !projectId) return;
+    
+    let cancelled = false;
+    reviews.getPermissions(projectId)
+      .then(permissions => {
+        if (!cancelled) setReviewPermissions(permissions);
+      })
+      .catch(error => {
+        console.error('Failed to load review permissions:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [reviews, projectId]);
+  
+  const approvalRequired = requireApproval || !!reviewPermissions?.require_approval;
+  const mayReviewChanges = reviews ? !!reviewPermissions?.can_review : canReviewChanges;
+  
+  const handleReviewToggle = useCallback(() => {
+    if (approvalRequired) return;
+    dispatch({ type: 'SET_MODE', payload: { mode: state.mode === 'review' ? 'creative-flow' : 'review' } });
+  }, [state.mode, approvalRequired]);
+  
+  // A project that requires approval keeps the editor in review mode
+  useEffect(() => {
+    if (approvalRequired && state.mode !== 'review') {
+      dispatch({ type: 'SET_MODE', payload: { mode: 'review' } });
+    }
+  }, [approvalRequired, state.mode]);
+  
+  // Review handlers
+  const handleReviewChanges = useCallback((action: EditorAction) => {
+    if (!mayReviewChanges) return;
+    
+    const reviewed = reviewDocument(state.document, action);
+    dispatch(action);
+    
+    // Collaborators get the accepted deletions and the blocks put back; the settled changes follow from the document
+    if (collaborationEnabled && reviewed.blocks.length > 0) {
+      state.document.blocks.forEach(block => {
+        const after = reviewed.blocks.find(b => b.id === block.id);
+        if (!after) {
+          collaboration.sendBlockDelete(block.id);
+        } else if (after !== block) {
+          collaboration.sendBlockUpdate(block.id, after);
+        }
+      });
+    }
+  }, [mayReviewChanges, collaborationEnabled, collaboration, state.document]);
+  
   const handleUndo = useCallback(() => {
     dispatch({ type: 'UNDO' });
   }, []);
@@ -548,14 +867,126 @@ export function WYSIWYGEditor({
     
     const updatedBlock = suggestions.applySuggestion(blockId, suggestionId, block);
     if (updatedBlock) {
-      dispatch({ type: 'UPDATE_BLOCK', payload: { blockId, updates: updatedBlock } });
+      dispatch({ type: 'UPDATE_BLOCK', payload: { blockId, updates: updatedBlock, author: currentAuthor } });
     }
-  }, [state.document.blocks, suggestions]);
+  }, [state.document.blocks, suggestions, currentAuthor]);
   
   const handleDismissSuggestion = useCallback((blockId: string, suggestionId: string) => {
     suggestions.dismissSuggestion(blockId, suggestionId);
   }, [suggestions]);
   
+  // Remember the text selected in a block, which a new comment is anchored to
+  const handleTextSelect = useCallback((event: React.SyntheticEvent<HTMLDivElement>) => {
+    const target = event.target as HTMLElement;
+    const wrapper = target.closest('[data-block-id]');
+    if (!wrapper || !(target instanceof HTMLTextAreaElement || target instanceof HTMLInputElement)) return;
+    
+    const start = target.selectionStart ?? 0;
+    const end = target.selectionEnd ?? start;
+    setTextSelection(start < end ? { blockId: wrapper.getAttribute('data-block-id')!, start, end } : null);
+  }, []);
+  
+  // Latest tracked change of each block, marked in the document
+  const trackedChanges = useMemo(() => state.document.tracked_changes || [], [state.document.tracked_changes]);
+  const latestChanges = useMemo(() => {
+    const latest: Record<string, TrackedChange> = {};
+    trackedChanges.forEach(change => {
+      latest[change.block_id] = change;
+    });
+    return latest;
+  }, [trackedChanges]);
+  
+  // Comment handlers
+  const commentThreads = useMemo(() => state.document.comments || [], [state.document.comments]);
+  
+  const saveCommentThread = useCallback((thread: CommentThread) => {
+    dispatch({ type: 'SET_COMMENT_THREAD', payload: { thread } });
+    onCommentThreadChange?.(thread);
+  }, [onCommentThreadChange]);
+  
+  // Comments on a project's document are stored, checked and notified by the comment service
+  const comments = useMemo(() => (projectId ? commentApi || new CommentClient() : null), [projectId, commentApi]);
+  const canViewComments = !!commentPermissions?.can_view;
+  
+  useEffect(() => {
+    if (!comments || !projectId || !canViewComments) return;
+    
+    let cancelled = false;
+    comments.listThreads(projectId, state.document.metadata.id)
+      .then(threads => {
+        if (cancelled) return;
+        threads.forEach(thread => dispatch({ type: 'SET_COMMENT_THREAD', payload: { thread } }));
+      })
+      .catch(error => {
+        console.error('Failed to load comment threads:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [comments, projectId, canViewComments, state.document.metadata.id]);
+  
+  const runCommentAction = useCallback(async (action: (api: CommentApi, project: string) => Promise<CommentThread>) => {
+    if (!comments || !projectId) return;
+    try {
+      saveCommentThread(await action(comments, projectId));
+    } catch (error) {
+      console.error('Comment action failed:', error);
+    }
+  }, [comments, projectId, saveCommentThread]);
+  
+  const selectedBlock = state.document.blocks.find(b => b.id === state.selectedBlockId);
+  const selectedText = selectedBlock ? getCommentableText(selectedBlock) : '';
+  const commentRange = useMemo(() => (
+    textSelection && selectedBlock && textSelection.blockId === selectedBlock.id && textSelection.end <= selectedText.length
+      ? { start: textSelection.start, end: textSelection.end }
+      : { start: 0, end: 0 }
+  ), [textSelection, selectedBlock, selectedText]);
+  
+  const handleCreateComment = useCallback((text: string) => {
+    if (!selectedBlock) return;
+    if (comments) {
+      const documentId = state.document.metadata.id;
+      runCommentAction((api, project) => api.createThread(project, documentId, selectedBlock, commentRange, text));
+    } else {
+      saveCommentThread(createCommentThread(
+        state.document.metadata.id,
+        selectedBlock,
+        commentRange,
+        currentAuthor,
+        text,
+        participants
+      ));
+    }
+    setTextSelection(null);
+  }, [selectedBlock, state.document.metadata.id, commentRange, currentAuthor, participants, comments, runCommentAction, saveCommentThread]);
+  
+  const handleReplyComment = useCallback((threadId: string, text: string) => {
+    if (comments) {
+      runCommentAction((api, project) => api.reply(project, threadId, text));
+      return;
+    }
+    const thread = commentThreads.find(t => t.id === threadId);
+    if (thread) saveCommentThread(replyToThread(thread, currentAuthor, text, participants));
+  }, [commentThreads, currentAuthor, participants, comments, runCommentAction, saveCommentThread]);
+  
+  const handleResolveComment = useCallback((threadId: string) => {
+    if (comments) {
+      runCommentAction((api, project) => api.resolve(project, threadId));
+      return;
+    }
+    const thread = commentThreads.find(t => t.id === threadId);
+    if (thread) saveCommentThread(resolveThread(thread, userId));
+  }, [commentThreads, userId, comments, runCommentAction, saveCommentThread]);
+  
+  const handleReopenComment = useCallback((threadId: string) => {
+    if (comments) {
+      runCommentAction((api, project) => api.reopen(project, threadId));
+      return;
+    }
+    const thread = commentThreads.find(t => t.id === threadId);
+    if (thread) saveCommentThread(reopenThread(thread));
+  }, [commentThreads, comments, runCommentAction, saveCommentThread]);
+  
   // Generate suggestions when switching to suggestion mode
   useEffect(() => {
     if (state.mode === 'suggestion' && state.selectedBlockId) {
@@ -575,10 +1006,30 @@ export function WYSIWYGEditor({
           connectionStatus={collaboration.connectionStatus}
           activeUsers={collaboration.activeUsers}
           lockedBlocks={collaboration.lockedBlocks}
+          blockLocks={leases.locks || sessionLocks}
           className="mb-4"
         />
       )}
       
+      {/* Lease held by another participant */}
+      {selectedLease && (
+        <div className="mb-4 flex items-center justify-between p-3 bg-amber-50 border border-amber-200 rounded-md text-sm text-amber-800">
+          <span>
+            {selectedLease.takeover?.requested_by === userId
+              ? `Waiting for ${selectedLease.user_id} to hand this block over`
+              : `${selectedLease.user_id} is editing this block`}
+          </span>
+          {!selectedLease.takeover && !readOnly && (
+            <button
+              onClick={handleRequestTakeover}
+              className="text-amber-900 font-medium hover:underline"
+            >
+              Request takeover
+            </button>
+          )}
+        </div>
+      )}
+      
       {/* Conflict Resolution */}
       {collaborationEnabled && collaboration.pendingDiffs.length > 0 && (
         <div className="mb-4 space-y-4">
@@ -614,38 +1065,82 @@ export function WYSIWYGEditor({
           canUndo={state.history.past.length > 0}
           canRedo={state.history.future.length > 0}
           suggestionModeEnabled={suggestionModeEnabled}
+          reviewModeEnabled={reviewModeEnabled || approvalRequired}
+          reviewModeLocked={approvalRequired}
+          pendingChangeCount={trackedChanges.length}
           onModeToggle={handleModeToggle}
+          onReviewToggle={handleReviewToggle}
           onUndo={handleUndo}
           onRedo={handleRedo}
           onAddBlock={handleAddBlock}
         />
       )}
       
-      <div className="editor-content min-h-96 p-4 border border-gray-200 rounded-lg bg-white">
-        {state.document.blocks.map((block, index) => (
-          <BlockRenderer
-            key={block.id}
-            block={block}
-            isSelected={state.selectedBlockId === block.id}
-            isLocked={collaborationEnabled && block.id in state.collaboration.lockedBlocks}
-            lockedBy={state.collaboration.lockedBlocks[block.id]}
-            readOnly={readOnly}
-            mode={state.mode}
-            suggestions={suggestions.suggestions[block.id] || []}
-            isLoadingSuggestions={suggestions.isLoading[block.id] || false}
-            onChange={(updates) => handleUpdateBlock(block.id, updates)}
-            onSelect={() => handleSelectBlock(block.id)}
-            onDelete={() => handleDeleteBlock(block.id)}
-            onAddBlock={(blockType) => handleAddBlock(blockType, index + 1)}
-            onAcceptSuggestion={(suggestionId) => handleAcceptSuggestion(block.id, suggestionId)}
-            onDismissSuggestion={(suggestionId) => handleDismissSuggestion(block.id, suggestionId)}
-          />
-        ))}
+      {/* Tracked changes */}
+      {state.mode === 'review' && (
+        <ReviewPanel
+          changes={trackedChanges}
+          blocks={state.document.blocks}
+          canReview={mayReviewChanges}
+          onAccept={(changeId) => handleReviewChanges({ type: 'ACCEPT_CHANGE', payload: { changeId } })}
+          onReject={(changeId) => handleReviewChanges({ type: 'REJECT_CHANGE', payload: { changeId } })}
+          onAcceptAll={() => handleReviewChanges({ type: 'ACCEPT_ALL_CHANGES' })}
+          onRejectAll={() => handleReviewChanges({ type: 'REJECT_ALL_CHANGES' })}
+          className="my-4"
+        />
+      )}
+      
+      <div className="flex gap-4 items-start">
+        <div
+          className="editor-content flex-1 min-w-0 min-h-96 p-4 border border-gray-200 rounded-lg bg-white"
+          onSelect={handleTextSelect}
+        >
+          {state.document.blocks.map((block, index) => (
+            <BlockRenderer
+              key={block.id}
+              block={block}
+              isSelected={state.selectedBlockId === block.id}
+              isLocked={collaborationEnabled && (block.id in state.collaboration.lockedBlocks || !!leases.heldByOther(block.id))}
+              lockedBy={state.collaboration.lockedBlocks[block.id] || leases.heldByOther(block.id)?.user_id}
+              readOnly={readOnly}
+              mode={state.mode}
+              suggestions={suggestions.suggestions[block.id] || []}
+              isLoadingSuggestions={suggestions.isLoading[block.id] || false}
+              pendingChange={latestChanges[block.id]}
+              commentCount={commentThreads.filter(t => t.anchor.block_id === block.id && t.status === 'open' && !t.anchor.detached).length}
+              onChange={(updates) => handleUpdateBlock(block.id, updates)}
+              onSelect={() => handleSelectBlock(block.id)}
+              onDelete={() => handleDeleteBlock(block.id)}
+              onAddBlock={(blockType) => handleAddBlock(blockType, index + 1)}
+              onAcceptSuggestion={(suggestionId) => handleAcceptSuggestion(block.id, suggestionId)}
+              onDismissSuggestion={(suggestionId) => handleDismissSuggestion(block.id, suggestionId)}
+            />
+          ))}
         
-        {state.document.blocks.length === 0 && (
-          <div className="text-gray-400 text-center py-8">
-            Start writing your thoughts...
-          </div>
+          {state.document.blocks.length === 0 && (
+            <div className="text-gray-400 text-center py-8">
+              Start writing your thoughts...
+            </div>
+          )}
+        </div>
+      
+        {/* Comments */}
+        {commentPermissions?.can_view && (
+          <CommentsPanel
+            threads={commentThreads}
+            blocks={state.document.blocks}
+            selectedBlockId={state.selectedBlockId}
+            selectedQuote={selectedText.substring(commentRange.start, commentRange.end)}
+            permissions={commentPermissions}
+            currentUserId={userId}
+            participants={participants}
+            onCreate={handleCreateComment}
+            onReply={handleReplyComment}
+            onResolve={handleResolveComment}
+            onReopen={handleReopenComment}
+            onSelectThread={(thread) => handleSelectBlock(thread.anchor.block_id)}
+            className="w-80 flex-shrink-0"
+          />
         )}
       </div>
     </div>
@@ -5,7 +5,7 @@
 
 'use client';
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import { Card } from '../ui/card';
 import { Button } from '../ui/button';
 import { Input } from '../ui/input';
@@ -21,6 +21,20 @@ import {
   QueryBasedTriggerConfig
 } from '../../types/legacy-system';
 import { Contact } from '../../types/data-models';
+import { getUpcomingOccurrences } from '../../services/legacy-recurrence';
+
+/**
+ * Recurrence presets offered in the creator, mapped to RRULE strings
+ */
+const RECURRENCE_PRESETS: Record<string, string> = {
+  none: '',
+  yearly: 'FREQ=YEARLY',
+  monthly: 'FREQ=MONTHLY',
+  weekly: 'FREQ=WEEKLY'
+};
+
+/** Number of upcoming delivery dates shown in the preview */
+const PREVIEW_OCCURRENCES = 5;
 
 interface LegacyContentCreatorProps {
   /** Available contacts for recipient selection */
@@ -55,6 +69,8 @@ export function LegacyContentCreator({
   // Time-based trigger state
   const [deliveryDate, setDeliveryDate] = useState('');
   const [deliveryTime, setDeliveryTime] = useState('');
+  const [recurrence, setRecurrence] = useState('none');
+  const [customRule, setCustomRule] = useState('');
   
   // Event-based trigger state
   const [eventType, setEventType] = useState('birthday');
@@ -83,17 +99,37 @@ export function LegacyContentCreator({
     );
   }, []);
 
+  const createTimeBasedConfig = useCallback((): TimeBasedTriggerConfig => {
+    const rrule = recurrence === 'custom' ? customRule.trim() : RECURRENCE_PRESETS[recurrence];
+    const config: TimeBasedTriggerConfig = {
+      delivery_date: new Date(`${deliveryDate}T${deliveryTime}`),
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      respect_recipient_timezone: true
+    };
+    if (rrule) {
+      config.rrule = rrule;
+    }
+    return config;
+  }, [deliveryDate, deliveryTime, recurrence, customRule]);
+
+  // Next delivery dates for the preview, or the reason the rule cannot be expanded
+  const upcomingDeliveries = useMemo(() => {
+    if (triggerType !== 'time_based' || !deliveryDate || !deliveryTime) {
+      return { dates: [] as Date[], error: null as string | null };
+    }
+    try {
+      const dates = getUpcomingOccurrences(createTimeBasedConfig(), PREVIEW_OCCURRENCES)
+        .map(occurrence => occurrence.date);
+      return { dates, error: null };
+    } catch (error) {
+      return { dates: [], error: error instanceof Error ? error.message : 'Ogiltig upprepningsregel' };
+    }
+  }, [triggerType, deliveryDate, deliveryTime, createTimeBasedConfig]);
+
   const createTriggerConfig = useCallback(() => {
     switch (triggerType) {
-      case 'time_based': {
-        const deliveryDateTime = new Date(`${deliveryDate}T${deliveryTime}`);
-        const config: TimeBasedTriggerConfig = {
-          delivery_date: deliveryDateTime,
-          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-          respect_recipient_timezone: true
-        };
-        return config;
-      }
+      case 'time_based':
+        return createTimeBasedConfig();
       
       case 'event_based': {
         const config: EventBasedTriggerConfig = {
@@ -121,7 +157,7 @@ export function LegacyContentCreator({
       default:
         throw new Error(`Unknown trigger type: ${triggerType}`);
     }
-  }, [triggerType, deliveryDate, deliveryTime, eventType, eventCriteria, queryPatterns]);
+  }, [triggerType, createTimeBasedConfig, eventType, eventCriteria, queryPatterns]);
 
   const createLegacyContent = useCallback(() => {
     const triggerConfig = createTriggerConfig();
@@ -169,7 +205,9 @@ export function LegacyContentCreator({
   const createTriggerDescription = useCallback(() => {
     switch (triggerType) {
       case 'time_based':
-        return `Deliver on ${deliveryDate} at ${deliveryTime}`;
+        return recurrence === 'none'
+          ? `Deliver on ${deliveryDate} at ${deliveryTime}`
+          : `Deliver from ${deliveryDate} at ${deliveryTime}, repeating ${recurrence === 'custom' ? customRule : recurrence}`;
       case 'event_based':
         return `Deliver when ${eventType} occurs`;
       case 'query_based':
@@ -177,7 +215,7 @@ export function LegacyContentCreator({
       default:
         return 'Custom trigger';
     }
-  }, [triggerType, deliveryDate, deliveryTime, eventType, queryPatterns]);
+  }, [triggerType, deliveryDate, deliveryTime, recurrence, customRule, eventType, queryPatterns]);
 
   const handleCreate = useCallback(() => {
     const content = createLegacyContent();
@@ -291,6 +329,46 @@ export function LegacyContentCreator({
                 />
               </div>
             </div>
+            <div>
+              <label htmlFor="recurrence-select" className="block text-sm font-medium mb-2">Upprepning</label>
+              <select
+                id="recurrence-select"
+                value={recurrence}
+                onChange={(e) => setRecurrence(e.target.value)}
+                className="w-full p-2 border border-gray-300 rounded-md"
+              >
+                <option value="none">Ingen upprepning</option>
+                <option value="yearly">Varje år</option>
+                <option value="monthly">Varje månad</option>
+                <option value="weekly">Varje vecka</option>
+                <option value="custom">Egen regel (RRULE)</option>
+              </select>
+            </div>
+            {recurrence === 'custom' && (
+              <div>
+                <label htmlFor="recurrence-rule" className="block text-sm font-medium mb-2">Regel</label>
+                <Input
+                  id="recurrence-rule"
+                  value={customRule}
+                  onChange={(e) => setCustomRule(e.target.value)}
+                  placeholder="FREQ=YEARLY;BYMONTH=5;BYDAY=3SU"
+                  className="w-full font-mono text-sm"
+                />
+              </div>
+            )}
+            {upcomingDeliveries.error && (
+              <p className="text-sm text-red-600">{upcomingDeliveries.error}</p>
+            )}
+            {upcomingDeliveries.dates.length > 0 && (
+              <div>
+                <div className="text-sm font-medium mb-2">Kommande leveranser</div>
+                <ul className="text-sm text-gray-600 space-y-1">
+                  {upcomingDeliveries.dates.map(date => (
+                    <li key={date.getTime()}>{date.toLocaleString('sv-SE')}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </div>
         )}
 
@@ -84,6 +84,8 @@ export function LegacyContentManager({
         return `Levereras när händelse inträffar`;
       case 'query_based':
         return `Levereras när någon frågar`;
+      case 'inactivity':
+        return `Levereras om incheckningar uteblir`;
       default:
         return 'Anpassad utlösare';
     }
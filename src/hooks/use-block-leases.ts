@@ -0,0 +1,160 @@
+/**
+ * Block Leases Hook
+ * 
+ * React hook for the block lock leases of a collaborative session: takes,
+ * renews and releases the current user's leases and keeps the session's
+ * locks up to date for the lock countdowns.
+ */
+
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { BlockLock, LockTakeoverResult } from '@/types/collaboration';
+import { BlockLockApi, BlockLockClient } from '@/services/block-lock-client';
+
+export interface UseBlockLeasesOptions {
+  /** Collaborative session whose locks are used; without it the hook does nothing */
+  sessionId?: string;
+  
+  /** Current user ID */
+  userId: string;
+  
+  /** Block lock API (the API route by default) */
+  api?: BlockLockApi;
+  
+  /** How often the session's locks are fetched again */
+  refreshMs?: number;
+  
+  /** Least time between two renewals of the same lease */
+  renewEveryMs?: number;
+}
+
+export interface UseBlockLeasesReturn {
+  /** Locks of the session, undefined until loaded or without a session */
+  locks?: BlockLock[];
+  
+  /** Last lock request the server refused */
+  error: string | null;
+  
+  /** Holder of a block other than the current user, if any */
+  heldByOther: (blockId: string) => BlockLock | undefined;
+  
+  /** Take a lease on a block; false when someone else holds it */
+  acquire: (blockId: string) => Promise<boolean>;
+  
+  /** Extend the current user's lease while they keep editing */
+  renew: (blockId: string) => Promise<void>;
+  
+  /** Give a block back */
+  release: (blockId: string) => Promise<void>;
+  
+  /** Ask the holder of a block to hand it over */
+  requestTakeover: (blockId: string) => Promise<LockTakeoverResult | null>;
+}
+
+const DEFAULT_REFRESH_MS = 10 * 1000;
+const DEFAULT_RENEW_EVERY_MS = 30 * 1000;
+
+export function useBlockLeases({
+  sessionId,
+  userId,
+  api,
+  refreshMs = DEFAULT_REFRESH_MS,
+  renewEveryMs = DEFAULT_RENEW_EVERY_MS
+}: UseBlockLeasesOptions): UseBlockLeasesReturn {
+  const [locks, setLocks] = useState<BlockLock[] | undefined>(undefined);
+  const [error, setError] = useState<string | null>(null);
+  const client = useMemo(() => api || new BlockLockClient(), [api]);
+  const lastRenewed = useRef<Record<string, number>>({});
+  
+  const refresh = useCallback(async () => {
+    if (!sessionId) return;
+    try {
+      setLocks(await client.getBlockLocks(sessionId));
+    } catch (err) {
+      console.error('Failed to load block locks:', err);
+    }
+  }, [client, sessionId]);
+  
+  // Locks change hands and expire on the server, so they are fetched again now and then
+  useEffect(() => {
+    if (!sessionId) {
+      setLocks(undefined);
+      return;
+    }
+    
+    refresh();
+    const timer = setInterval(refresh, refreshMs);
+    return () => clearInterval(timer);
+  }, [sessionId, refresh, refreshMs]);
+  
+  const heldByOther = useCallback((blockId: string) => {
+    return locks?.find(lock => lock.block_id === blockId && lock.user_id !== userId);
+  }, [locks, userId]);
+  
+  const acquire = useCallback(async (blockId: string) => {
+    if (!sessionId) return true;
+    try {
+      await client.acquireBlockLock(sessionId, blockId);
+      lastRenewed.current[blockId] = Date.now();
+      setError(null);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to lock block');
+      return false;
+    } finally {
+      await refresh();
+    }
+  }, [client, sessionId, refresh]);
+  
+  const renew = useCallback(async (blockId: string) => {
+    if (!sessionId) return;
+    const last = lastRenewed.current[blockId] || 0;
+    if (Date.now() - last < renewEveryMs) return;
+    
+    lastRenewed.current[blockId] = Date.now();
+    try {
+      await client.renewBlockLock(sessionId, blockId);
+    } catch (err) {
+      // The lease ran out or was handed over; take it again if it is free
+      delete lastRenewed.current[blockId];
+      await acquire(blockId);
+    }
+  }, [client, sessionId, renewEveryMs, acquire]);
+  
+  const release = useCallback(async (blockId: string) => {
+    if (!sessionId) return;
+    delete lastRenewed.current[blockId];
+    try {
+      await client.releaseBlockLock(sessionId, blockId);
+    } catch (err) {
+      console.error('Failed to release block lock:', err);
+    }
+    await refresh();
+  }, [client, sessionId, refresh]);
+  
+  const requestTakeover = useCallback(async (blockId: string) => {
+    if (!sessionId) return null;
+    try {
+      const result = await client.requestLockTakeover(sessionId, blockId);
+      if (result.status === 'granted') {
+        lastRenewed.current[blockId] = Date.now();
+      }
+      setError(null);
+      return result;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to request takeover');
+      return null;
+    } finally {
+      await refresh();
+    }
+  }, [client, sessionId, refresh]);
+  
+  return {
+    locks,
+    error,
+    heldByOther,
+    acquire,
+    renew,
+    release,
+    requestTakeover
+  };
+}
@@ -6,21 +6,32 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { 
-  CollaborationService, 
+  CollaborationClient, 
   CollaborationState, 
   CollaborationUser, 
-  BlockLock, 
-  SemanticDiff,
-  CollaborationEvent 
-} from '@/services/collaboration-service';
-import { ContentBlock } from '@/types/editor';
+  CollaborationEventHandler,
+  CollaborationEventSubscription
+} from '@/lib/collaboration/collaboration-client';
+import { CollaborationTransport } from '@/lib/collaboration/collaboration-transport';
+import { ContentBlock, SemanticDiff, TrackedChange } from '@/types/editor';
+import { CursorPosition } from '@/types/collaboration';
 
 export interface UseCollaborationOptions {
   documentId: string;
+  
+  /** Project the document belongs to, whose access rules the server applies */
+  projectId?: string;
+  
   userId: string;
   userName: string;
   enabled?: boolean;
   autoConnect?: boolean;
+  
+  /** Blocks the shared document starts from when nobody has opened it yet */
+  initialBlocks?: ContentBlock[];
+  
+  /** Transport to the collaboration hub (defaults to the WebSocket endpoint) */
+  transport?: CollaborationTransport;
 }
 
 export interface UseCollaborationReturn {
@@ -44,22 +55,33 @@ export interface UseCollaborationReturn {
   
   // Communication
   sendBlockUpdate: (blockId: string, block: ContentBlock) => Promise<void>;
+  sendBlockInsert: (block: ContentBlock, index: number) => Promise<void>;
+  sendBlockDelete: (blockId: string) => Promise<void>;
+  sendBlockMove: (blockId: string, index: number) => Promise<void>;
+  sendTrackedChange: (change: TrackedChange) => Promise<void>;
+  settleTrackedChange: (changeId: string) => Promise<void>;
+  
+  // Awareness
+  updateCursor: (cursor: CursorPosition | null) => void;
   
   // Connection management
   connect: () => Promise<void>;
   disconnect: () => void;
   
   // Event handling
-  onCollaborationEvent: (eventType: string, handler: (event: CollaborationEvent) => void) => void;
-  offCollaborationEvent: (eventType: string, handler: (event: CollaborationEvent) => void) => void;
+  onCollaborationEvent: (eventType: CollaborationEventSubscription, handler: CollaborationEventHandler) => void;
+  offCollaborationEvent: (eventType: CollaborationEventSubscription, handler: CollaborationEventHandler) => void;
 }
 
 export function useCollaboration({
   documentId,
+  projectId,
   userId,
   userName,
   enabled = true,
-  autoConnect = true
+  autoConnect = true,
+  initialBlocks,
+  transport
 }: UseCollaborationOptions): UseCollaborationReturn {
   const [collaborationState, setCollaborationState] = useState<CollaborationState>({
     documentId,
@@ -70,57 +92,58 @@ export function useCollaboration({
     connectionStatus: 'disconnected'
   });
   
-  const serviceRef = useRef<CollaborationService | null>(null);
-  const eventHandlersRef = useRef<Map<string, Set<Function>>>(new Map());
+  const serviceRef = useRef<CollaborationClient | null>(null);
+  const eventHandlersRef = useRef<Map<CollaborationEventSubscription, Set<CollaborationEventHandler>>>(new Map());
+  
+  // The starting blocks only matter when the client is created
+  const initialBlocksRef = useRef(initialBlocks);
+  initialBlocksRef.current = initialBlocks;
   
-  // Initialize collaboration service
+  // Initialize collaboration client
   useEffect(() => {
     if (!enabled) {
       return;
     }
     
-    serviceRef.current = new CollaborationService(documentId, userId, userName);
+    const client = new CollaborationClient(documentId, userId, userName, {
+      initialBlocks: initialBlocksRef.current,
+      projectId,
+      transport
+    });
+    serviceRef.current = client;
     
-    // Set up event handlers to update state
+    // Every collaboration event refreshes the state; there is nothing to poll
     const handleStateUpdate = () => {
-      if (serviceRef.current) {
-        setCollaborationState(serviceRef.current.getState());
+      if (serviceRef.current === client) {
+        setCollaborationState(client.getState());
       }
     };
     
     // Listen to all collaboration events to update state
-    serviceRef.current.on('*', handleStateUpdate);
+    client.on('*', handleStateUpdate);
     
     // Auto-connect if enabled
     if (autoConnect) {
-      serviceRef.current.connect().catch(console.error);
+      client.connect()
+        .catch(console.error)
+        .then(handleStateUpdate);
+      handleStateUpdate();
     }
     
     return () => {
-      if (serviceRef.current) {
-        serviceRef.current.disconnect();
+      client.off('*', handleStateUpdate);
+      client.disconnect();
+      if (serviceRef.current === client) {
         serviceRef.current = null;
       }
     };
-  }, [documentId, userId, userName, enabled, autoConnect]);
-  
-  // Update state when collaboration service state changes
-  useEffect(() => {
-    const updateState = () => {
-      if (serviceRef.current) {
-        setCollaborationState(serviceRef.current.getState());
-      }
-    };
-    
-    const interval = setInterval(updateState, 1000); // Update every second
-    
-    return () => clearInterval(interval);
-  }, []);
+  }, [documentId, projectId, userId, userName, enabled, autoConnect, transport]);
   
   // Connection management
   const connect = useCallback(async () => {
     if (serviceRef.current && !collaborationState.isConnected) {
       await serviceRef.current.connect();
+      setCollaborationState(serviceRef.current.getState());
     }
   }, [collaborationState.isConnected]);
   
@@ -168,6 +191,43 @@ export function useCollaboration({
     }
   }, []);
   
+  const sendBlockInsert = useCallback(async (block: ContentBlock, index: number): Promise<void> => {
+    if (serviceRef.current) {
+      await serviceRef.current.sendBlockInsert(block, index);
+    }
+  }, []);
+  
+  const sendBlockDelete = useCallback(async (blockId: string): Promise<void> => {
+    if (serviceRef.current) {
+      await serviceRef.current.sendBlockDelete(blockId);
+    }
+  }, []);
+  
+  const sendBlockMove = useCallback(async (blockId: string, index: number): Promise<void> => {
+    if (serviceRef.current) {
+      await serviceRef.current.sendBlockMove(blockId, index);
+    }
+  }, []);
+  
+  const sendTrackedChange = useCallback(async (change: TrackedChange): Promise<void> => {
+    if (serviceRef.current) {
+      await serviceRef.current.sendTrackedChange(change);
+    }
+  }, []);
+  
+  const settleTrackedChange = useCallback(async (changeId: string): Promise<void> => {
+    if (serviceRef.current) {
+      await serviceRef.current.settleTrackedChange(changeId);
+    }
+  }, []);
+  
+  // Awareness
+  const updateCursor = useCallback((cursor: CursorPosition | null) => {
+    if (serviceRef.current) {
+      serviceRef.current.updateCursor(cursor);
+    }
+  }, []);
+  
   // Conflict resolution
   const resolveConflict = useCallback(async (diffId: string, resolution: 'accept' | 'reject' | 'merge'): Promise<void> => {
     if (serviceRef.current) {
@@ -176,7 +236,7 @@ export function useCollaboration({
   }, []);
   
   // Event handling
-  const onCollaborationEvent = useCallback((eventType: string, handler: (event: CollaborationEvent) => void) => {
+  const onCollaborationEvent = useCallback((eventType: CollaborationEventSubscription, handler: CollaborationEventHandler) => {
     if (!serviceRef.current) {
       return;
     }
@@ -190,7 +250,7 @@ export function useCollaboration({
     eventHandlersRef.current.get(eventType)!.add(handler);
   }, []);
   
-  const offCollaborationEvent = useCallback((eventType: string, handler: (event: CollaborationEvent) => void) => {
+  const offCollaborationEvent = useCallback((eventType: CollaborationEventSubscription, handler: CollaborationEventHandler) => {
     if (!serviceRef.current) {
       return;
     }
@@ -209,11 +269,10 @@ export function useCollaboration({
     return () => {
       if (serviceRef.current) {
         // Remove all tracked event handlers
-        for (const [eventType, handlers] of eventHandlersRef.current.entries()) {
-          for (const handler of handlers) {
-            serviceRef.current.off(eventType, handler as any);
-          }
-        }
+        const service = serviceRef.current;
+        eventHandlersRef.current.forEach((handlers, eventType) => {
+          handlers.forEach(handler => service.off(eventType, handler));
+        });
       }
       eventHandlersRef.current.clear();
     };
@@ -221,9 +280,10 @@ export function useCollaboration({
   
   // Convert Map-based state to plain objects for easier consumption
   const activeUsers = Array.from(collaborationState.users.values()).filter(user => user.isOnline);
-  const lockedBlocks = Object.fromEntries(
-    Array.from(collaborationState.locks.entries()).map(([blockId, lock]) => [blockId, lock.userId])
-  );
+  const lockedBlocks: Record<string, string> = {};
+  collaborationState.locks.forEach((lock, blockId) => {
+    lockedBlocks[blockId] = lock.userId;
+  });
   const pendingDiffs = Array.from(collaborationState.pendingDiffs.values());
   
   return {
@@ -247,6 +307,14 @@ export function useCollaboration({
     
     // Communication
     sendBlockUpdate,
+    sendBlockInsert,
+    sendBlockDelete,
+    sendBlockMove,
+    sendTrackedChange,
+    settleTrackedChange,
+    
+    // Awareness
+    updateCursor,
     
     // Connection management
     connect,
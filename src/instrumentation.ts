@@ -0,0 +1,11 @@
+/**
+ * Next.js instrumentation hook
+ * Runs once when a server instance starts.
+ */
+
+export async function register(): Promise<void> {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { bootstrapServer } = await import('./lib/server-bootstrap');
+    await bootstrapServer();
+  }
+}
@@ -66,6 +66,24 @@ export interface RecoveryStep {
   dependencies: string[];
 }
 
+export interface ErasureRecord {
+  id: string; // deletion certificate ID
+  subjectType: 'user' | 'contact';
+  subjectId: string;
+  requestedBy: string;
+  erasedAt: Date;
+}
+
+/**
+ * Durable log of erasures, kept outside the backups so it survives a restore
+ */
+export interface ErasureLog {
+  load(): Promise<ErasureRecord[]>;
+  append(erasure: ErasureRecord): Promise<void>;
+}
+
+export type ErasureReplayer = (erasure: ErasureRecord) => Promise<unknown>;
+
 export interface TestResult {
   timestamp: Date;
   success: boolean;
@@ -74,10 +92,13 @@ export interface TestResult {
   notes?: string;
 }
 
-class BackupRecoverySystem {
+export class BackupRecoverySystem {
   private backupJobs: BackupJob[] = [];
   private backupSchedules: BackupSchedule[] = [];
   private recoveryPoints: RecoveryPoint[] = [];
+  private erasures: ErasureRecord[] = [];
+  private erasureLog: ErasureLog | null = null;
+  private erasureReplayer: ErasureReplayer | null = null;
   private disasterRecoveryPlans: DisasterRecoveryPlan[] = [];
   private maxJobHistory = 1000;
 
@@ -164,7 +185,12 @@ class BackupRecoverySystem {
   async initiateDisasterRecovery(
     planId: string,
     targetRecoveryPoint: string
-  ): Promise<{ success: boolean; steps: RecoveryStepResult[] }> {
+  ): Promise<{
+    success: boolean;
+    steps: RecoveryStepResult[];
+    reappliedErasures: ErasureRecord[];
+    erasuresToReapply: ErasureRecord[];
+  }> {
     const plan = this.disasterRecoveryPlans.find(p => p.id === planId);
     if (!plan) {
       throw new Error(`Disaster recovery plan not found: ${planId}`);
@@ -206,14 +232,45 @@ class BackupRecoverySystem {
       }
     }
 
+    // Restored data predates these erasures, so they must be applied again
+    const reappliedErasures: ErasureRecord[] = [];
+    const erasuresToReapply: ErasureRecord[] = [];
+
+    for (const erasure of this.erasures.filter(erasure => erasure.erasedAt >= recoveryPoint.timestamp)) {
+      if (!overallSuccess || !this.erasureReplayer) {
+        erasuresToReapply.push(erasure);
+        continue;
+      }
+
+      try {
+        await this.erasureReplayer(erasure);
+        reappliedErasures.push(erasure);
+      } catch (error) {
+        erasuresToReapply.push(erasure);
+        logger.error(`Erasure could not be reapplied: ${erasure.id}`, 'backup-recovery', {
+          certificateId: erasure.id,
+          error: (error as Error).message
+        });
+      }
+    }
+
+    if (erasuresToReapply.length > 0) {
+      overallSuccess = false;
+      logger.warn(`Restored recovery point predates ${erasuresToReapply.length} unapplied erasure(s)`, 'backup-recovery', {
+        recoveryPointId: recoveryPoint.id,
+        certificateIds: erasuresToReapply.map(erasure => erasure.id)
+      });
+    }
+
     logger.info(`Disaster recovery completed: ${overallSuccess ? 'SUCCESS' : 'FAILED'}`, 'backup-recovery', {
       planId,
       overallSuccess,
       stepsExecuted: results.length,
-      failedSteps: results.filter(r => !r.success).length
+      failedSteps: results.filter(r => !r.success).length,
+      reappliedErasures: reappliedErasures.length
     });
 
-    return { success: overallSuccess, steps: results };
+    return { success: overallSuccess, steps: results, reappliedErasures, erasuresToReapply };
   }
 
   /**
@@ -310,6 +367,62 @@ class BackupRecoverySystem {
     return [...this.backupSchedules];
   }
 
+  /**
+   * Persist erasures in a log and load the ones recorded before a restart
+   */
+  async useErasureLog(log: ErasureLog): Promise<void> {
+    const recorded = await log.load();
+    this.erasureLog = log;
+    recorded
+      .filter(erasure => !this.erasures.some(existing => existing.id === erasure.id))
+      .forEach(erasure => this.erasures.push(erasure));
+  }
+
+  /**
+   * Set how recorded erasures are run again after a restore
+   */
+  setErasureReplayer(replayer: ErasureReplayer): void {
+    this.erasureReplayer = replayer;
+  }
+
+  /**
+   * Record a right-to-be-forgotten erasure
+   * Backups are immutable, so recovery points taken before the erasure are
+   * annotated and the erasure is replayed after any restore from them.
+   * Recording an erasure again (when it is replayed) changes nothing.
+   * Returns the IDs of the affected recovery points.
+   */
+  async recordErasure(erasure: ErasureRecord): Promise<string[]> {
+    const affected = this.recoveryPoints.filter(point => point.timestamp <= erasure.erasedAt);
+    if (this.erasures.some(existing => existing.id === erasure.id)) {
+      return affected.map(point => point.id);
+    }
+
+    if (this.erasureLog) {
+      await this.erasureLog.append(erasure);
+    }
+    this.erasures.push(erasure);
+
+    affected.forEach(point => {
+      const pending: string[] = point.metadata?.pendingErasures || [];
+      point.metadata = { ...point.metadata, pendingErasures: [...pending, erasure.id] };
+    });
+
+    logger.info(`Erasure recorded: ${erasure.id}`, 'backup-recovery', {
+      certificateId: erasure.id,
+      affectedRecoveryPoints: affected.length
+    });
+
+    return affected.map(point => point.id);
+  }
+
+  /**
+   * Get recorded erasures
+   */
+  getErasures(): ErasureRecord[] {
+    return [...this.erasures];
+  }
+
   /**
    * Get disaster recovery plans
    */
@@ -10,13 +10,15 @@ import {
   RelationalDelta,
   AgentRole,
   CognitivePhase,
-  ResourceBudget
+  ResourceBudget,
+  CortexTaskRequest
 } from '@/types';
 import { 
   resourceGovernor, 
   ResourceApprovalRequest,
   ResourceApprovalResponse 
 } from './resource-governor';
+import { transformReflectionForRecipient, ReflectionTransformationInput } from './reflection-transformer';
 import { v4 as uuidv4 } from 'uuid';
 
 /**
@@ -102,6 +104,29 @@ export class CognitiveAgentImpl implements CognitiveAgent {
     }
   }
 
+  /**
+   * Run a deliberate Cortex-mode task
+   * Cortex tasks bypass the Roundabout loop and conversational response; each
+   * run counts as one LLM call plus compute for the size of its input.
+   */
+  async processInCortexMode(request: CortexTaskRequest): Promise<any> {
+    this._updateActivity();
+
+    let result: any;
+    switch (request.task) {
+      case 'transform_reflection_for_recipient':
+        result = transformReflectionForRecipient(request.input as ReflectionTransformationInput);
+        break;
+      default:
+        throw new Error(`Unsupported Cortex-mode task: ${request.task}`);
+    }
+
+    this._resourceUsage.llmCalls++;
+    this._resourceUsage.computeUnits += Math.max(1, Math.floor(JSON.stringify(request.input).length / 100));
+
+    return result;
+  }
+
   /**
    * Execute the Roundabout cognitive loop
    * EMERGE -> ADAPT -> INTEGRATE sequence
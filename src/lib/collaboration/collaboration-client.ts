@@ -0,0 +1,770 @@
+/**
+ * Collaboration Client
+ * Browser side of real-time co-editing: keeps a CRDT replica of the
+ * document and its tracked changes, buffers edits while offline and merges
+ * them on reconnect, and shares cursors and the blocks being edited with
+ * other participants
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { ContentBlock, SemanticDiff, TrackedChange } from '../../types/editor';
+import {
+  AwarenessState,
+  CollaborationServerMessage,
+  CollaboratorIdentity,
+  CrdtOperation,
+  CrdtSequencedOperation,
+  CursorPosition,
+  PeerPresence
+} from '../../types/collaboration';
+import { CrdtDocument } from './crdt-document';
+import { CollaborationTransport, InProcessTransport, WebSocketTransport } from './collaboration-transport';
+
+/** Path of the collaboration WebSocket endpoint */
+export const COLLABORATION_PATH = '/api/collaboration';
+
+/** Colors given to participants, picked by user ID */
+const USER_COLORS = ['#2563eb', '#db2777', '#16a34a', '#ea580c', '#7c3aed', '#0891b2', '#ca8a04', '#dc2626'];
+
+/** Longest wait between reconnect attempts */
+const MAX_RECONNECT_DELAY = 30000;
+
+/**
+ * Another participant as shown in the editor
+ */
+export interface CollaborationUser {
+  id: string;
+  name: string;
+  avatar?: string;
+  color: string;
+  isOnline: boolean;
+  lastSeen: Date;
+  cursor?: CursorPosition;
+}
+
+/**
+ * Block someone has said they are editing
+ * Advisory only: concurrent edits to the block still merge.
+ */
+export interface BlockLockHint {
+  blockId: string;
+  userId: string;
+  userName: string;
+  acquiredAt: Date;
+}
+
+/**
+ * Snapshot of the client's collaboration state
+ */
+export interface CollaborationState {
+  documentId: string;
+  users: Map<string, CollaborationUser>;
+  locks: Map<string, BlockLockHint>;
+  pendingDiffs: Map<string, SemanticDiff>;
+  isConnected: boolean;
+  connectionStatus: 'connecting' | 'connected' | 'disconnected' | 'error';
+}
+
+/**
+ * Event types emitted by the client ('*' receives all of them)
+ */
+export type CollaborationEventType =
+  | 'connected'
+  | 'disconnected'
+  | 'user_joined'
+  | 'user_left'
+  | 'cursor_moved'
+  | 'block_locked'
+  | 'block_unlocked'
+  | 'block_updated'
+  | 'document_changed'
+  | 'tracked_changes_changed'
+  | 'conflict_detected'
+  | 'conflict_resolved';
+
+/**
+ * Event type a handler subscribes to, or '*' for all of them
+ */
+export type CollaborationEventSubscription = CollaborationEventType | '*';
+
+/**
+ * Collaboration event
+ */
+export interface CollaborationEvent {
+  type: CollaborationEventType;
+  userId: string;
+  timestamp: Date;
+  data?: any;
+}
+
+/**
+ * Client options
+ */
+export interface CollaborationClientOptions {
+  /** Transport to the hub (defaults to the WebSocket endpoint in a browser) */
+  transport?: CollaborationTransport;
+
+  /** Blocks the document starts from when nobody has opened it yet */
+  initialBlocks?: ContentBlock[];
+
+  /** Project the document belongs to; the server checks the user's access to it */
+  projectId?: string;
+
+  /** First reconnect delay in milliseconds; doubles on each failed attempt */
+  reconnectDelay?: number;
+}
+
+export type CollaborationEventHandler = (event: CollaborationEvent) => void;
+
+/**
+ * Real-time co-editing client for one document
+ */
+export class CollaborationClient {
+  private readonly identity: CollaboratorIdentity;
+  private readonly document: CrdtDocument;
+  private readonly transport: CollaborationTransport;
+  private readonly initialBlocks: ContentBlock[];
+  private readonly projectId?: string;
+  private readonly reconnectDelay: number;
+
+  private connectionStatus: CollaborationState['connectionStatus'] = 'disconnected';
+  private joined = false;
+  private synced = false;
+  private wanted = false;
+  private lastSeq = 0;
+  private reconnectAttempts = 0;
+  private generation = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private pendingConnect: { resolve: () => void; reject: (error: Error) => void } | null = null;
+
+  /** Local operations the hub has not acknowledged yet */
+  private outbox: CrdtOperation[] = [];
+
+  /** Edits made before the first sync, replayed onto the shared document */
+  private presyncEdits: Array<(document: CrdtDocument) => CrdtOperation[]> = [];
+
+  private awareness: AwarenessState = {};
+  private lockAcquiredAt: Date | null = null;
+  private peers: Map<string, PeerPresence> = new Map();
+  private peerSeen: Map<string, Date> = new Map();
+  private pendingDiffs: Map<string, SemanticDiff> = new Map();
+  private handlers: Map<CollaborationEventSubscription, Set<CollaborationEventHandler>> = new Map();
+
+  constructor(
+    private documentId: string,
+    private userId: string,
+    userName: string,
+    options: CollaborationClientOptions = {}
+  ) {
+    this.identity = { id: userId, name: userName, color: colorFor(userId) };
+    this.document = new CrdtDocument(`${userId}:${uuidv4()}`);
+    this.transport = options.transport || createDefaultTransport();
+    this.initialBlocks = options.initialBlocks || [];
+    this.projectId = options.projectId;
+    this.reconnectDelay = options.reconnectDelay !== undefined ? options.reconnectDelay : 1000;
+  }
+
+  /**
+   * Connect and join the document; resolves once the document is in sync
+   */
+  connect(): Promise<void> {
+    if (this.joined) {
+      return Promise.resolve();
+    }
+
+    this.wanted = true;
+    return new Promise<void>((resolve, reject) => {
+      this.pendingConnect = { resolve, reject };
+      this.open();
+    });
+  }
+
+  /**
+   * Leave the document; edits made while disconnected are kept and sent on
+   * the next connect
+   */
+  disconnect(): void {
+    this.wanted = false;
+    this.generation++;
+    this.clearReconnect();
+    this.transport.close();
+    this.handleClose();
+  }
+
+  /**
+   * Subscribe to an event type, or '*' for all events
+   */
+  on(eventType: CollaborationEventSubscription, handler: CollaborationEventHandler): void {
+    if (!this.handlers.has(eventType)) {
+      this.handlers.set(eventType, new Set());
+    }
+    this.handlers.get(eventType)!.add(handler);
+  }
+
+  /**
+   * Unsubscribe from an event type
+   */
+  off(eventType: CollaborationEventSubscription, handler: CollaborationEventHandler): void {
+    const handlers = this.handlers.get(eventType);
+    if (handlers) {
+      handlers.delete(handler);
+    }
+  }
+
+  /**
+   * Snapshot of the collaboration state
+   */
+  getState(): CollaborationState {
+    const users = new Map<string, CollaborationUser>();
+    const locks = new Map<string, BlockLockHint>();
+
+    Array.from(this.peers.values()).forEach(peer => {
+      users.set(peer.user.id, {
+        id: peer.user.id,
+        name: peer.user.name,
+        color: peer.user.color,
+        isOnline: true,
+        lastSeen: this.peerSeen.get(peer.connection_id) || new Date(),
+        cursor: peer.awareness.cursor
+      });
+      if (peer.awareness.editing_block_id) {
+        locks.set(peer.awareness.editing_block_id, {
+          blockId: peer.awareness.editing_block_id,
+          userId: peer.user.id,
+          userName: peer.user.name,
+          acquiredAt: this.peerSeen.get(peer.connection_id) || new Date()
+        });
+      }
+    });
+
+    if (this.awareness.editing_block_id) {
+      locks.set(this.awareness.editing_block_id, {
+        blockId: this.awareness.editing_block_id,
+        userId: this.userId,
+        userName: this.identity.name,
+        acquiredAt: this.lockAcquiredAt || new Date()
+      });
+    }
+
+    return {
+      documentId: this.documentId,
+      users,
+      locks,
+      pendingDiffs: new Map(this.pendingDiffs),
+      isConnected: this.joined,
+      connectionStatus: this.connectionStatus
+    };
+  }
+
+  /**
+   * Current blocks of the shared document
+   */
+  getBlocks(): ContentBlock[] {
+    return this.synced ? this.document.getBlocks() : this.initialBlocks.slice();
+  }
+
+  /**
+   * Tracked changes of the shared document not yet settled
+   */
+  getTrackedChanges(): TrackedChange[] {
+    return this.synced ? this.document.getTrackedChanges() : [];
+  }
+
+  /**
+   * Number of local operations not yet acknowledged by the hub
+   */
+  getPendingOperationCount(): number {
+    return this.outbox.length;
+  }
+
+  /**
+   * Announce that this user is editing a block
+   * Fails when someone else has announced it first. The hint is advisory:
+   * edits that cross anyway are merged and surfaced as a conflict.
+   */
+  async requestBlockLock(blockId: string): Promise<boolean> {
+    if (this.isBlockLocked(blockId)) {
+      return false;
+    }
+    if (this.awareness.editing_block_id === blockId) {
+      return true;
+    }
+
+    const previous = this.awareness.editing_block_id;
+    this.lockAcquiredAt = new Date();
+    this.setAwareness({ ...this.awareness, editing_block_id: blockId });
+    if (previous) {
+      this.emit('block_unlocked', this.userId, { blockId: previous, userId: this.userId });
+    }
+    this.emit('block_locked', this.userId, { blockId, userId: this.userId });
+    return true;
+  }
+
+  /**
+   * Withdraw the editing announcement for a block
+   */
+  async releaseBlockLock(blockId: string): Promise<void> {
+    if (this.awareness.editing_block_id !== blockId) {
+      return;
+    }
+
+    this.lockAcquiredAt = null;
+    this.setAwareness({ ...this.awareness, editing_block_id: undefined });
+    this.emit('block_unlocked', this.userId, { blockId, userId: this.userId });
+  }
+
+  /**
+   * Whether another participant has announced editing a block
+   */
+  isBlockLocked(blockId: string): boolean {
+    return this.getBlockLocker(blockId) !== undefined;
+  }
+
+  /**
+   * User ID of the other participant editing a block
+   */
+  getBlockLocker(blockId: string): string | undefined {
+    const peer = Array.from(this.peers.values()).find(candidate => candidate.awareness.editing_block_id === blockId);
+    return peer ? peer.user.id : undefined;
+  }
+
+  /**
+   * Share this user's caret position (null hides it)
+   */
+  updateCursor(cursor: CursorPosition | null): void {
+    this.setAwareness({ ...this.awareness, cursor: cursor || undefined });
+  }
+
+  /**
+   * Share a block's new content
+   */
+  async sendBlockUpdate(blockId: string, block: ContentBlock): Promise<void> {
+    this.edit(document => document.updateBlock({ ...block, id: blockId }));
+  }
+
+  /**
+   * Share a new block at an index of the document
+   */
+  async sendBlockInsert(block: ContentBlock, index: number): Promise<void> {
+    this.edit(document => document.insertBlock(block, index));
+  }
+
+  /**
+   * Share a block's removal
+   */
+  async sendBlockDelete(blockId: string): Promise<void> {
+    this.edit(document => document.deleteBlock(blockId));
+  }
+
+  /**
+   * Share a block moved to an index of the document
+   */
+  async sendBlockMove(blockId: string, index: number): Promise<void> {
+    this.edit(document => document.moveBlock(blockId, index));
+  }
+
+  /**
+   * Share a tracked change this user recorded or edited
+   */
+  async sendTrackedChange(change: TrackedChange): Promise<void> {
+    this.edit(document => document.setTrackedChange(change));
+  }
+
+  /**
+   * Share that a tracked change was accepted or rejected
+   */
+  async settleTrackedChange(changeId: string): Promise<void> {
+    this.edit(document => document.settleTrackedChange(changeId));
+  }
+
+  /**
+   * Settle a conflict: accept or merge keeps the merged block, reject puts
+   * back this user's version
+   */
+  async resolveConflict(diffId: string, resolution: 'accept' | 'reject' | 'merge'): Promise<void> {
+    const diff = this.pendingDiffs.get(diffId);
+    if (!diff) {
+      return;
+    }
+
+    this.pendingDiffs.delete(diffId);
+    if (resolution === 'reject' && diff.before) {
+      this.edit(document => document.updateBlock({ ...diff.before!, updated_at: new Date() }));
+      const block = this.document.getBlock(diff.block_id);
+      if (block) {
+        this.emit('block_updated', this.userId, { blockId: diff.block_id, block });
+      }
+    }
+    this.emit('conflict_resolved', this.userId, { diffId, resolution });
+  }
+
+  /**
+   * Open the transport
+   */
+  private open(): void {
+    this.clearReconnect();
+    this.connectionStatus = 'connecting';
+
+    // Events of an earlier connection that arrive late are ignored
+    const generation = ++this.generation;
+    const current = () => generation === this.generation;
+    this.transport.connect({
+      onOpen: () => current() && this.join(),
+      onMessage: message => current() && this.handleMessage(message),
+      onClose: () => current() && this.handleClose()
+    });
+  }
+
+  /**
+   * Join the document, sending the edits the hub has not acknowledged
+   */
+  private join(): void {
+    this.transport.send({
+      type: 'join',
+      document_id: this.documentId,
+      project_id: this.projectId,
+      user: this.identity,
+      since: this.lastSeq,
+      seed: this.initialBlocks,
+      ops: this.outbox,
+      awareness: this.awareness
+    });
+  }
+
+  /**
+   * Handle a message from the hub
+   */
+  private handleMessage(message: CollaborationServerMessage): void {
+    switch (message.type) {
+      case 'welcome':
+        this.handleWelcome(message.ops, message.peers);
+        break;
+
+      case 'ops':
+        this.receiveOperations(message.ops);
+        break;
+
+      case 'awareness':
+        this.receivePresence(message.peer);
+        break;
+
+      case 'peer_left': {
+        const peer = this.peers.get(message.connection_id);
+        if (peer) {
+          this.peers.delete(message.connection_id);
+          this.peerSeen.delete(message.connection_id);
+          if (peer.awareness.editing_block_id) {
+            this.emit('block_unlocked', peer.user.id, { blockId: peer.awareness.editing_block_id, userId: peer.user.id });
+          }
+          this.emit('user_left', peer.user.id, { user: peer.user });
+        }
+        break;
+      }
+
+      case 'error':
+        console.error('Collaboration error:', message.message);
+        // A refused join is not retried
+        if (!this.joined && this.pendingConnect) {
+          const pending = this.pendingConnect;
+          this.pendingConnect = null;
+          this.disconnect();
+          this.connectionStatus = 'error';
+          pending.reject(new Error(message.message));
+        }
+        break;
+    }
+  }
+
+  /**
+   * Catch up after joining and replay edits made before the first sync
+   */
+  private handleWelcome(ops: CrdtSequencedOperation[], peers: PeerPresence[]): void {
+    this.joined = true;
+    this.connectionStatus = 'connected';
+    this.reconnectAttempts = 0;
+
+    this.peers.clear();
+    this.peerSeen.clear();
+    peers.forEach(peer => this.receivePresence(peer));
+
+    this.receiveOperations(ops);
+
+    if (!this.synced) {
+      this.synced = true;
+      const edits = this.presyncEdits;
+      this.presyncEdits = [];
+      edits.forEach(edit => this.edit(edit));
+      if (edits.length > 0) {
+        this.emit('document_changed', this.userId, { blocks: this.document.getBlocks() });
+        this.emit('tracked_changes_changed', this.userId, { changes: this.document.getTrackedChanges() });
+      }
+    }
+
+    this.emit('connected', this.userId, { documentId: this.documentId });
+    if (this.pendingConnect) {
+      this.pendingConnect.resolve();
+      this.pendingConnect = null;
+    }
+  }
+
+  /**
+   * Apply sequenced operations from the hub
+   */
+  private receiveOperations(entries: CrdtSequencedOperation[]): void {
+    if (entries.length === 0) return;
+
+    // Blocks this user changed that the hub had not yet confirmed
+    const unconfirmed: Record<string, boolean> = {};
+    this.outbox.forEach(op => {
+      if (op.kind !== 'tracked_change') {
+        unconfirmed[op.block_id] = true;
+      }
+    });
+
+    const remote = entries.filter(entry => entry.op.id.site !== this.document.site);
+    const before: Record<string, ContentBlock | undefined> = {};
+    remote.forEach(entry => {
+      if (!(entry.op.block_id in before)) {
+        before[entry.op.block_id] = this.document.getBlock(entry.op.block_id);
+      }
+    });
+    const orderBefore = this.document.getBlocks().map(block => block.id).join('|');
+
+    entries.forEach(entry => {
+      this.lastSeq = Math.max(this.lastSeq, entry.seq);
+    });
+    this.outbox = this.outbox.filter(op => !entries.some(entry => sameOp(entry.op, op)));
+
+    const changed = this.document.apply(remote.map(entry => entry.op));
+    const reviewed = remote.filter(entry => entry.op.kind === 'tracked_change');
+    if (!this.synced && this.presyncEdits.length === 0) {
+      // Nothing local yet: the hub's document is the document
+      this.synced = true;
+      this.emit('document_changed', remote.length > 0 ? remote[0].user_id : this.userId, { blocks: this.document.getBlocks() });
+      if (reviewed.length > 0) {
+        this.emit('tracked_changes_changed', reviewed[0].user_id, { changes: this.document.getTrackedChanges() });
+      }
+      return;
+    }
+
+    changed.forEach(blockId => {
+      const entry = remote.filter(candidate => candidate.op.block_id === blockId).pop()!;
+      const block = this.document.getBlock(blockId);
+      if (block) {
+        this.emit('block_updated', entry.user_id, { blockId, block });
+      }
+
+      const previous = before[blockId];
+      if (unconfirmed[blockId] && previous && block && !sameBlock(previous, block)) {
+        this.recordConflict(previous, block, entry.user_id);
+      }
+    });
+
+    if (changed.length > 0) {
+      const orderAfter = this.document.getBlocks().map(block => block.id).join('|');
+      const userId = remote.length > 0 ? remote[remote.length - 1].user_id : this.userId;
+      this.emit('document_changed', userId, { blocks: this.document.getBlocks(), structural: orderAfter !== orderBefore });
+    }
+    if (reviewed.length > 0) {
+      this.emit('tracked_changes_changed', reviewed[reviewed.length - 1].user_id, { changes: this.document.getTrackedChanges() });
+    }
+  }
+
+  /**
+   * Keep a merge of concurrent edits for the user to review
+   */
+  private recordConflict(local: ContentBlock, merged: ContentBlock, userId: string): void {
+    const peer = Array.from(this.peers.values()).find(candidate => candidate.user.id === userId);
+    const existing = Array.from(this.pendingDiffs.values()).find(diff => diff.block_id === local.id);
+    const diff: SemanticDiff = {
+      id: existing ? existing.id : uuidv4(),
+      block_id: local.id,
+      before: existing ? existing.before : local,
+      after: merged,
+      changes: [{
+        type: 'modification',
+        path: `blocks.${local.id}`,
+        description: `Merged with concurrent edits by ${peer ? peer.user.name : userId}`
+      }]
+    };
+
+    this.pendingDiffs.set(diff.id, diff);
+    this.emit('conflict_detected', userId, { diff });
+  }
+
+  /**
+   * Record another participant's presence
+   */
+  private receivePresence(presence: PeerPresence): void {
+    const awareness = reviveAwareness(presence.awareness);
+    const previous = this.peers.get(presence.connection_id);
+    this.peers.set(presence.connection_id, { ...presence, awareness });
+    this.peerSeen.set(presence.connection_id, new Date());
+
+    const userId = presence.user.id;
+    if (!previous) {
+      this.emit('user_joined', userId, { user: presence.user });
+    }
+
+    const previousBlock = previous ? previous.awareness.editing_block_id : undefined;
+    if (previousBlock !== awareness.editing_block_id) {
+      if (previousBlock) {
+        this.emit('block_unlocked', userId, { blockId: previousBlock, userId });
+      }
+      if (awareness.editing_block_id) {
+        this.emit('block_locked', userId, { blockId: awareness.editing_block_id, userId });
+      }
+    }
+
+    const previousCursor = previous ? previous.awareness.cursor : undefined;
+    if (JSON.stringify(previousCursor) !== JSON.stringify(awareness.cursor)) {
+      this.emit('cursor_moved', userId, { cursor: awareness.cursor });
+    }
+  }
+
+  /**
+   * Apply a local edit and send it, or keep it until the next connect
+   */
+  private edit(edit: (document: CrdtDocument) => CrdtOperation[]): void {
+    if (!this.synced) {
+      this.presyncEdits.push(edit);
+      return;
+    }
+
+    const ops = edit(this.document);
+    if (ops.length === 0) return;
+
+    this.outbox.push(...ops);
+    if (this.joined) {
+      this.transport.send({ type: 'ops', ops });
+    }
+  }
+
+  /**
+   * Update this user's awareness and share it when connected
+   */
+  private setAwareness(awareness: AwarenessState): void {
+    this.awareness = awareness;
+    if (this.joined) {
+      this.transport.send({ type: 'awareness', awareness });
+    }
+  }
+
+  /**
+   * Handle the transport closing, reconnecting when still wanted
+   */
+  private handleClose(): void {
+    const wasJoined = this.joined;
+    this.joined = false;
+
+    Array.from(this.peers.values()).forEach(peer => {
+      if (peer.awareness.editing_block_id) {
+        this.emit('block_unlocked', peer.user.id, { blockId: peer.awareness.editing_block_id, userId: peer.user.id });
+      }
+    });
+    this.peers.clear();
+    this.peerSeen.clear();
+
+    if (this.pendingConnect) {
+      this.pendingConnect.reject(new Error('Collaboration connection closed'));
+      this.pendingConnect = null;
+    }
+
+    if (this.wanted) {
+      this.connectionStatus = 'connecting';
+      this.scheduleReconnect();
+    } else {
+      this.connectionStatus = 'disconnected';
+    }
+
+    if (wasJoined) {
+      this.emit('disconnected', this.userId, { pendingOperations: this.outbox.length });
+    }
+  }
+
+  /**
+   * Try again after a growing delay
+   */
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer) return;
+
+    const delay = Math.min(this.reconnectDelay * Math.pow(2, this.reconnectAttempts), MAX_RECONNECT_DELAY);
+    this.reconnectAttempts++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.wanted) {
+        this.open();
+      }
+    }, delay);
+  }
+
+  /**
+   * Cancel a scheduled reconnect
+   */
+  private clearReconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  /**
+   * Notify the handlers of an event type and the '*' handlers
+   */
+  private emit(type: CollaborationEventType, userId: string, data?: any): void {
+    const event: CollaborationEvent = { type, userId, timestamp: new Date(), data };
+    const subscriptions: CollaborationEventSubscription[] = [type, '*'];
+    subscriptions.forEach(key => {
+      const handlers = this.handlers.get(key);
+      if (handlers) {
+        Array.from(handlers).forEach(handler => handler(event));
+      }
+    });
+  }
+}
+
+/**
+ * Transport to the collaboration endpoint of the page's own server, or to an
+ * in-process hub where there is no WebSocket (server rendering, tests)
+ */
+export function createDefaultTransport(): CollaborationTransport {
+  if (typeof window === 'undefined' || typeof WebSocket === 'undefined') {
+    return new InProcessTransport();
+  }
+
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+  return new WebSocketTransport(`${protocol}//${window.location.host}${COLLABORATION_PATH}`, COLLABORATION_PATH);
+}
+
+/**
+ * Stable display color for a user
+ */
+function colorFor(userId: string): string {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  }
+  return USER_COLORS[Math.abs(hash) % USER_COLORS.length];
+}
+
+/**
+ * Awareness with its cursor timestamp turned back into a Date
+ */
+function reviveAwareness(awareness: AwarenessState): AwarenessState {
+  if (!awareness.cursor) return awareness;
+  return { ...awareness, cursor: { ...awareness.cursor, updated_at: new Date(awareness.cursor.updated_at) } };
+}
+
+/**
+ * Whether two operations have the same ID
+ */
+function sameOp(a: CrdtOperation, b: CrdtOperation): boolean {
+  return a.id.site === b.id.site && a.id.counter === b.id.counter;
+}
+
+/**
+ * Whether two blocks have the same content
+ */
+function sameBlock(a: ContentBlock, b: ContentBlock): boolean {
+  return JSON.stringify(a.content) === JSON.stringify(b.content) && a.type === b.type;
+}
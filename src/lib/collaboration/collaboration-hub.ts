@@ -0,0 +1,343 @@
+/**
+ * Collaboration Hub
+ * Server side of real-time co-editing: orders each document's CRDT
+ * operations into a log, relays them and awareness between connected peers
+ * and replays what a reconnecting peer missed. With an access policy, peers
+ * join as the user the server authenticated, and only if the project lets
+ * them; peers that may only view cannot send operations.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { ContentBlock } from '../../types/editor';
+import {
+  AwarenessState,
+  CollaborationClientMessage,
+  CollaborationServerMessage,
+  CrdtOperation,
+  CrdtSequencedOperation,
+  PeerPresence
+} from '../../types/collaboration';
+import { CrdtDocument } from './crdt-document';
+import { DocumentAccess, DocumentAccessPolicy } from './document-access';
+
+/**
+ * One peer's connection to the hub
+ */
+export interface HubSession {
+  /** Connection identifier */
+  readonly connection_id: string;
+
+  /** Handle a message from the peer; anything but a client message is answered with an error */
+  receive(message: unknown): void;
+
+  /** Leave the document */
+  close(): void;
+}
+
+/**
+ * Connected peer within a room
+ */
+interface RoomPeer {
+  presence: PeerPresence;
+  access: DocumentAccess;
+  send: (message: CollaborationServerMessage) => void;
+}
+
+/**
+ * Shared state of one document
+ */
+interface Room {
+  document_id: string;
+  log: CrdtSequencedOperation[];
+  seen: Set<string>;
+  document: CrdtDocument;
+  peers: Map<string, RoomPeer>;
+}
+
+/**
+ * In-memory hub for co-edited documents
+ * The operation log lives as long as the process; documents are persisted
+ * by whoever saves the editor's blocks. Without an access policy every peer
+ * may edit as the user it names, which only suits in-process use.
+ */
+export class CollaborationHub {
+  private rooms: Map<string, Room> = new Map();
+  private access?: DocumentAccessPolicy;
+
+  constructor(access?: DocumentAccessPolicy) {
+    this.access = access;
+  }
+
+  /**
+   * Open a connection; the peer joins a document with its first message
+   * Messages are handled one at a time in the order they arrive.
+   *
+   * @param userId User the server authenticated for the connection
+   */
+  connect(send: (message: CollaborationServerMessage) => void, userId?: string): HubSession {
+    const connectionId = uuidv4();
+    let room: Room | null = null;
+    let closed = false;
+    let handling: Promise<void> = Promise.resolve();
+
+    const handle = async (message: CollaborationClientMessage) => {
+      if (message.type === 'join') {
+        if (room) {
+          send({ type: 'error', message: 'Already joined a document' });
+          return;
+        }
+
+        const access = await this.authorize(message, userId);
+        if (access === 'none') {
+          send({ type: 'error', message: 'No access to this document' });
+          return;
+        }
+        if (!closed) {
+          room = this.join(connectionId, { ...message, user: { ...message.user, id: userId || message.user.id } }, access, send);
+        }
+        return;
+      }
+
+      if (!room) {
+        send({ type: 'error', message: 'Join a document first' });
+        return;
+      }
+
+      const peer = room.peers.get(connectionId)!;
+      if (message.type === 'ops') {
+        if (peer.access !== 'edit') {
+          send({ type: 'error', message: 'Read-only access to this document' });
+          return;
+        }
+        const accepted = this.append(room, peer.presence.user.id, message.ops);
+        if (accepted.length > 0) {
+          this.broadcast(room, { type: 'ops', ops: accepted });
+        }
+      } else if (message.type === 'awareness') {
+        peer.presence = { ...peer.presence, awareness: message.awareness };
+        this.broadcast(room, { type: 'awareness', peer: peer.presence }, connectionId);
+      }
+    };
+
+    return {
+      connection_id: connectionId,
+
+      receive: (message: unknown) => {
+        if (!isCollaborationClientMessage(message)) {
+          send({ type: 'error', message: 'Invalid collaboration message' });
+          return;
+        }
+
+        handling = handling.then(() => handle(message)).catch(error => {
+          console.error('Collaboration message failed:', error);
+          send({ type: 'error', message: 'Collaboration message failed' });
+        });
+      },
+
+      close: () => {
+        closed = true;
+        if (!room) return;
+        room.peers.delete(connectionId);
+        this.broadcast(room, { type: 'peer_left', connection_id: connectionId });
+        room = null;
+      }
+    };
+  }
+
+  /**
+   * Current blocks of a document, or null when nobody has opened it
+   */
+  getBlocks(documentId: string): ContentBlock[] | null {
+    const room = this.rooms.get(documentId);
+    return room ? room.document.getBlocks() : null;
+  }
+
+  /**
+   * Number of peers connected to a document
+   */
+  getPeerCount(documentId: string): number {
+    const room = this.rooms.get(documentId);
+    return room ? room.peers.size : 0;
+  }
+
+  /**
+   * What the connection's user may do with the document it joins
+   */
+  private async authorize(
+    message: Extract<CollaborationClientMessage, { type: 'join' }>,
+    userId?: string
+  ): Promise<DocumentAccess> {
+    if (!this.access) {
+      return 'edit';
+    }
+    if (!userId || !message.project_id) {
+      return 'none';
+    }
+    return this.access.getAccess(userId, message.project_id, message.document_id);
+  }
+
+  /**
+   * Add a peer to a document's room and send it what it has not seen
+   * Offline operations of a peer that may only view are dropped.
+   */
+  private join(
+    connectionId: string,
+    message: Extract<CollaborationClientMessage, { type: 'join' }>,
+    access: DocumentAccess,
+    send: (message: CollaborationServerMessage) => void
+  ): Room {
+    let room = this.rooms.get(message.document_id);
+    if (!room) {
+      room = {
+        document_id: message.document_id,
+        log: [],
+        seen: new Set(),
+        document: new CrdtDocument('server'),
+        peers: new Map()
+      };
+      this.rooms.set(message.document_id, room);
+    }
+
+    if (access === 'edit' && room.log.length === 0 && message.seed.length > 0) {
+      this.append(room, message.user.id, CrdtDocument.seedOperations(message.seed));
+    }
+    const accepted = access === 'edit' ? this.append(room, message.user.id, message.ops) : [];
+
+    const presence: PeerPresence = { connection_id: connectionId, user: message.user, awareness: message.awareness };
+    const peers = Array.from(room.peers.values()).map(peer => peer.presence);
+
+    send({
+      type: 'welcome',
+      connection_id: connectionId,
+      ops: room.log.filter(entry => entry.seq > message.since),
+      peers
+    });
+
+    if (accepted.length > 0) {
+      this.broadcast(room, { type: 'ops', ops: accepted });
+    }
+    this.broadcast(room, { type: 'awareness', peer: presence });
+    room.peers.set(connectionId, { presence, access, send });
+
+    return room;
+  }
+
+  /**
+   * Append operations not yet in the log; returns the newly sequenced ones
+   */
+  private append(room: Room, userId: string, ops: CrdtOperation[]): CrdtSequencedOperation[] {
+    const accepted: CrdtSequencedOperation[] = [];
+    for (const op of ops) {
+      const key = `${op.id.counter}@${op.id.site}`;
+      if (room.seen.has(key)) {
+        continue;
+      }
+      room.seen.add(key);
+      room.document.apply([op]);
+      const entry = { seq: room.log.length + 1, user_id: userId, op };
+      room.log.push(entry);
+      accepted.push(entry);
+    }
+    return accepted;
+  }
+
+  /**
+   * Send a message to every peer in a room, optionally except one
+   * Operations go to their sender too, which acknowledges them.
+   */
+  private broadcast(room: Room, message: CollaborationServerMessage, exceptConnectionId?: string): void {
+    Array.from(room.peers.keys()).forEach(connectionId => {
+      if (connectionId !== exceptConnectionId) {
+        room.peers.get(connectionId)!.send(message);
+      }
+    });
+  }
+}
+
+/**
+ * Whether a value received from a client is a well-formed client message
+ */
+export function isCollaborationClientMessage(value: unknown): value is CollaborationClientMessage {
+  if (!isRecord(value)) return false;
+
+  switch (value.type) {
+    case 'join':
+      return isNonEmptyString(value.document_id) &&
+        (value.project_id === undefined || isNonEmptyString(value.project_id)) &&
+        isRecord(value.user) &&
+        isNonEmptyString(value.user.id) &&
+        typeof value.user.name === 'string' &&
+        typeof value.user.color === 'string' &&
+        isCount(value.since) &&
+        Array.isArray(value.seed) &&
+        value.seed.every(block => isRecord(block) && isNonEmptyString(block.id) && isNonEmptyString(block.type)) &&
+        isOperationList(value.ops) &&
+        isAwarenessState(value.awareness);
+
+    case 'ops':
+      return isOperationList(value.ops);
+
+    case 'awareness':
+      return isAwarenessState(value.awareness);
+
+    default:
+      return false;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0;
+}
+
+function isCount(value: unknown): value is number {
+  return typeof value === 'number' && Math.floor(value) === value && value >= 0;
+}
+
+function isOpId(value: unknown): value is CrdtOperation['id'] {
+  return isRecord(value) && isNonEmptyString(value.site) && isCount(value.counter);
+}
+
+function isOperationList(value: unknown): value is CrdtOperation[] {
+  return Array.isArray(value) && value.every(isOperation);
+}
+
+function isOperation(value: unknown): value is CrdtOperation {
+  if (!isRecord(value) || !isOpId(value.id) || !isNonEmptyString(value.block_id)) return false;
+
+  switch (value.kind) {
+    case 'block_insert':
+      return typeof value.position === 'string' && isRecord(value.attributes);
+    case 'block_move':
+      return typeof value.position === 'string';
+    case 'block_delete':
+      return true;
+    case 'block_attributes':
+      return isRecord(value.attributes);
+    case 'text_insert':
+      return (value.after === null || isOpId(value.after)) && typeof value.text === 'string';
+    case 'text_delete':
+      return Array.isArray(value.targets) && value.targets.every(isOpId);
+    case 'tracked_change':
+      return isNonEmptyString(value.change_id) && (value.change === null || (
+        isRecord(value.change) && value.change.id === value.change_id && value.change.block_id === value.block_id
+      ));
+    default:
+      return false;
+  }
+}
+
+function isAwarenessState(value: unknown): value is AwarenessState {
+  if (!isRecord(value)) return false;
+  if (value.editing_block_id !== undefined && typeof value.editing_block_id !== 'string') return false;
+  return value.cursor === undefined ||
+    (isRecord(value.cursor) && typeof value.cursor.block_id === 'string' && isCount(value.cursor.offset));
+}
+
+/**
+ * Hub shared by the WebSocket server and in-process transports
+ */
+export const collaborationHub = new CollaborationHub();
@@ -0,0 +1,153 @@
+/**
+ * Collaboration transports
+ * Carry co-editing messages between a client and the collaboration hub,
+ * either over a WebSocket or within the same process (tests, single-user
+ * fallback)
+ */
+
+import { CollaborationClientMessage, CollaborationServerMessage } from '../../types/collaboration';
+import { CollaborationHub, HubSession, collaborationHub } from './collaboration-hub';
+
+/**
+ * Callbacks a transport reports to
+ */
+export interface TransportHandlers {
+  onOpen: () => void;
+  onMessage: (message: CollaborationServerMessage) => void;
+  onClose: () => void;
+}
+
+/**
+ * Message channel between a co-editing client and the hub
+ */
+export interface CollaborationTransport {
+  /** Open the channel; handlers receive its events */
+  connect(handlers: TransportHandlers): void;
+
+  /** Send a message; ignored while the channel is not open */
+  send(message: CollaborationClientMessage): void;
+
+  /** Close the channel */
+  close(): void;
+}
+
+/**
+ * Transport over a browser WebSocket
+ * The optional warm-up URL is fetched first so a server that attaches its
+ * WebSocket endpoint lazily has done so before the upgrade request.
+ */
+export class WebSocketTransport implements CollaborationTransport {
+  private socket: WebSocket | null = null;
+  private closed = false;
+
+  constructor(private url: string, private warmupUrl?: string) {}
+
+  connect(handlers: TransportHandlers): void {
+    this.closed = false;
+    if (!this.warmupUrl) {
+      this.open(handlers);
+      return;
+    }
+
+    fetch(this.warmupUrl).then(() => this.open(handlers), () => this.open(handlers));
+  }
+
+  send(message: CollaborationClientMessage): void {
+    if (this.socket && this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  close(): void {
+    this.closed = true;
+    if (this.socket) {
+      this.socket.close();
+    }
+  }
+
+  /**
+   * Open the socket unless the transport was closed meanwhile
+   */
+  private open(handlers: TransportHandlers): void {
+    if (this.closed) {
+      handlers.onClose();
+      return;
+    }
+
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    socket.onopen = () => handlers.onOpen();
+    socket.onmessage = event => {
+      try {
+        handlers.onMessage(JSON.parse(String(event.data)));
+      } catch (error) {
+        console.error('Invalid collaboration message:', error);
+      }
+    };
+    socket.onclose = () => {
+      if (this.socket === socket) {
+        this.socket = null;
+      }
+      handlers.onClose();
+    };
+  }
+}
+
+/**
+ * Transport to a hub in the same process
+ * Messages are delivered asynchronously and in order, as over a socket, and
+ * pass through JSON so both sides see what they would receive over the wire.
+ */
+export class InProcessTransport implements CollaborationTransport {
+  private session: HubSession | null = null;
+  private handlers: TransportHandlers | null = null;
+  private delivery: Promise<void> = Promise.resolve();
+
+  constructor(private hub: CollaborationHub = collaborationHub) {}
+
+  connect(handlers: TransportHandlers): void {
+    this.handlers = handlers;
+    this.deliver(() => {
+      if (this.handlers !== handlers) return;
+      this.session = this.hub.connect(message => {
+        const copy: CollaborationServerMessage = JSON.parse(JSON.stringify(message));
+        this.deliver(() => {
+          if (this.handlers === handlers) handlers.onMessage(copy);
+        });
+      });
+      handlers.onOpen();
+    });
+  }
+
+  send(message: CollaborationClientMessage): void {
+    const session = this.session;
+    if (!session) return;
+
+    const copy: CollaborationClientMessage = JSON.parse(JSON.stringify(message));
+    this.deliver(() => session.receive(copy));
+  }
+
+  close(): void {
+    const session = this.session;
+    const handlers = this.handlers;
+    this.session = null;
+    this.handlers = null;
+
+    if (session) {
+      session.close();
+    }
+    if (handlers) {
+      this.deliver(() => handlers.onClose());
+    }
+  }
+
+  /**
+   * Run a delivery after the ones already queued
+   */
+  private deliver(task: () => void): void {
+    this.delivery = this.delivery.then(task).catch(error => {
+      console.error('Collaboration delivery failed:', error);
+    });
+  }
+}
@@ -0,0 +1,340 @@
+/**
+ * Comment threads on editor blocks
+ * Threads are anchored to a character range of a block and are carried along
+ * as the block is edited; comments can @mention session participants. Every
+ * operation returns a new thread so the editor state stays immutable.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Project } from '../../types/data-models';
+import { SessionParticipant } from '../../types/collaboration';
+import {
+  CommentAnchor,
+  CommentPermissions,
+  CommentThread,
+  ContentBlock,
+  EditorComment
+} from '../../types/editor';
+
+/** Content field holding the text of each commentable block type */
+const TEXT_FIELDS: Record<string, string> = {
+  text: 'text',
+  heading: 'text',
+  quote: 'text',
+  code: 'code'
+};
+
+/** Characters that continue a name, so `@Elsa` does not match inside `@Elsabeth` */
+const NAME_CHAR = /[0-9A-Za-z_\u00C0-\u024F]/;
+
+/** Longest comment accepted */
+const MAX_COMMENT_LENGTH = 5000;
+
+/**
+ * Thrown when a comment or thread operation is not valid
+ */
+export class CommentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CommentError';
+  }
+}
+
+/**
+ * Author of a comment
+ */
+export interface CommentAuthor {
+  /** User ID */
+  user_id: string;
+
+  /** Display name */
+  display_name: string;
+}
+
+/**
+ * What a user may do with the comments of a project's documents
+ * The owner and accepted collaborators who can read see the threads; comment
+ * requires `allow_comments` and a role other than viewer, and resolving other
+ * people's threads requires edit permission.
+ */
+export function getCommentPermissions(project: Project, userId: string): CommentPermissions {
+  const allowComments = project.settings.collaboration.allow_comments;
+
+  if (project.owner_id === userId) {
+    return { can_view: true, can_comment: allowComments, can_resolve_any: true };
+  }
+
+  const collaborator = project.collaborators.find(
+    candidate => candidate.user_id === userId && candidate.status === 'accepted'
+  );
+  if (!collaborator) {
+    return {
+      can_view: project.settings.visibility.view_access === 'public',
+      can_comment: false,
+      can_resolve_any: false
+    };
+  }
+
+  const canView = collaborator.permissions.read;
+  return {
+    can_view: canView,
+    can_comment: allowComments && canView && collaborator.role !== 'viewer',
+    can_resolve_any: canView && collaborator.permissions.edit
+  };
+}
+
+/**
+ * Text of a block that comments can be anchored in ('' for blocks without one)
+ */
+export function getCommentableText(block: ContentBlock): string {
+  const field = TEXT_FIELDS[block.type];
+  const value = field ? (block.content as Record<string, any>)[field] : undefined;
+  return typeof value === 'string' ? value : '';
+}
+
+/**
+ * User IDs of the participants @mentioned in a comment, in order of first mention
+ * A mention is `@` followed by a participant's display name (longest match,
+ * any case) or user ID.
+ */
+export function extractMentions(text: string, participants: SessionParticipant[]): string[] {
+  const candidates: { user_id: string; name: string }[] = [];
+  participants.forEach(participant => {
+    candidates.push({ user_id: participant.user_id, name: participant.display_name.toLowerCase() });
+    candidates.push({ user_id: participant.user_id, name: participant.user_id.toLowerCase() });
+  });
+  candidates.sort((a, b) => b.name.length - a.name.length);
+
+  const lower = text.toLowerCase();
+  const mentioned: string[] = [];
+
+  for (let at = lower.indexOf('@'); at >= 0; at = lower.indexOf('@', at + 1)) {
+    if (at > 0 && NAME_CHAR.test(lower.charAt(at - 1))) continue;
+
+    const match = candidates.find(candidate =>
+      candidate.name.length > 0 &&
+      lower.substr(at + 1, candidate.name.length) === candidate.name &&
+      !NAME_CHAR.test(lower.charAt(at + 1 + candidate.name.length))
+    );
+    if (match && mentioned.indexOf(match.user_id) < 0) {
+      mentioned.push(match.user_id);
+    }
+  }
+
+  return mentioned;
+}
+
+/**
+ * Open a thread on a range of a block
+ * An empty range comments on the block as a whole.
+ */
+export function createCommentThread(
+  documentId: string,
+  block: ContentBlock,
+  range: { start: number; end: number },
+  author: CommentAuthor,
+  text: string,
+  participants: SessionParticipant[] = [],
+  now: Date = new Date()
+): CommentThread {
+  const blockText = getCommentableText(block);
+  if (range.start < 0 || range.end < range.start || range.end > blockText.length) {
+    throw new CommentError(`Range ${range.start}-${range.end} is outside block ${block.id}`);
+  }
+
+  return {
+    id: uuidv4(),
+    document_id: documentId,
+    anchor: {
+      block_id: block.id,
+      start: range.start,
+      end: range.end,
+      quote: blockText.substring(range.start, range.end)
+    },
+    comments: [createComment(author, text, participants, now)],
+    status: 'open',
+    created_at: now,
+    updated_at: now
+  };
+}
+
+/**
+ * Add a reply to an open thread
+ */
+export function replyToThread(
+  thread: CommentThread,
+  author: CommentAuthor,
+  text: string,
+  participants: SessionParticipant[] = [],
+  now: Date = new Date()
+): CommentThread {
+  if (thread.status === 'resolved') {
+    throw new CommentError(`Thread ${thread.id} is resolved; reopen it to reply`);
+  }
+
+  return {
+    ...thread,
+    comments: [...thread.comments, createComment(author, text, participants, now)],
+    updated_at: now
+  };
+}
+
+/**
+ * Mark a thread resolved
+ */
+export function resolveThread(thread: CommentThread, userId: string, now: Date = new Date()): CommentThread {
+  if (thread.status === 'resolved') {
+    throw new CommentError(`Thread ${thread.id} is already resolved`);
+  }
+
+  return { ...thread, status: 'resolved', resolved_by: userId, resolved_at: now, updated_at: now };
+}
+
+/**
+ * Reopen a resolved thread
+ */
+export function reopenThread(thread: CommentThread, now: Date = new Date()): CommentThread {
+  if (thread.status === 'open') {
+    throw new CommentError(`Thread ${thread.id} is already open`);
+  }
+
+  const { resolved_by, resolved_at, ...rest } = thread;
+  return { ...rest, status: 'open', updated_at: now };
+}
+
+/**
+ * Move thread anchors along with an edit of the document's blocks
+ * Text inserted or removed before a range shifts it, an edit inside a range
+ * grows or shrinks it, and a range whose text was removed is found again by
+ * its quote or else marked detached. Threads on removed blocks are detached;
+ * unaffected threads are returned as they were.
+ */
+export function rebaseCommentThreads(
+  threads: CommentThread[],
+  before: ContentBlock[],
+  after: ContentBlock[]
+): CommentThread[] {
+  if (threads.length === 0) return threads;
+
+  const beforeById: Record<string, ContentBlock> = {};
+  before.forEach(block => {
+    beforeById[block.id] = block;
+  });
+  const afterById: Record<string, ContentBlock> = {};
+  after.forEach(block => {
+    afterById[block.id] = block;
+  });
+
+  let changed = false;
+  const rebased = threads.map(thread => {
+    const anchor = rebaseAnchor(thread.anchor, beforeById[thread.anchor.block_id], afterById[thread.anchor.block_id]);
+    if (anchor === thread.anchor) return thread;
+    changed = true;
+    return { ...thread, anchor };
+  });
+
+  return changed ? rebased : threads;
+}
+
+/**
+ * Threads attached to a block, in document order of their ranges
+ */
+export function getBlockThreads(threads: CommentThread[], blockId: string): CommentThread[] {
+  return threads
+    .filter(thread => thread.anchor.block_id === blockId && !thread.anchor.detached)
+    .sort((a, b) => a.anchor.start - b.anchor.start);
+}
+
+/**
+ * New comment with its mentions resolved
+ */
+function createComment(
+  author: CommentAuthor,
+  text: string,
+  participants: SessionParticipant[],
+  now: Date
+): EditorComment {
+  const trimmed = text.trim();
+  if (trimmed.length === 0) {
+    throw new CommentError('A comment cannot be empty');
+  }
+  if (trimmed.length > MAX_COMMENT_LENGTH) {
+    throw new CommentError(`A comment cannot be longer than ${MAX_COMMENT_LENGTH} characters`);
+  }
+
+  return {
+    id: uuidv4(),
+    author_id: author.user_id,
+    author_name: author.display_name,
+    text: trimmed,
+    mentions: extractMentions(trimmed, participants).filter(userId => userId !== author.user_id),
+    created_at: now
+  };
+}
+
+/**
+ * Anchor after its block changed from `before` to `after`
+ */
+function rebaseAnchor(anchor: CommentAnchor, before?: ContentBlock, after?: ContentBlock): CommentAnchor {
+  if (!after) {
+    return anchor.detached ? anchor : { ...anchor, detached: true };
+  }
+
+  const oldText = before ? getCommentableText(before) : '';
+  const newText = getCommentableText(after);
+  if (before && oldText === newText && !anchor.detached) return anchor;
+
+  if (anchor.detached || !before) {
+    // Reattach when the quoted text is back, e.g. after an undo
+    return relocate(anchor, newText);
+  }
+
+  let prefix = 0;
+  const shorter = Math.min(oldText.length, newText.length);
+  while (prefix < shorter && oldText.charAt(prefix) === newText.charAt(prefix)) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < shorter - prefix &&
+    oldText.charAt(oldText.length - 1 - suffix) === newText.charAt(newText.length - 1 - suffix)
+  ) {
+    suffix++;
+  }
+
+  const oldEditEnd = oldText.length - suffix;
+  const newEditEnd = newText.length - suffix;
+  const delta = newText.length - oldText.length;
+
+  // Text typed right before or after a range stays outside it
+  let start: number;
+  if (anchor.start >= oldEditEnd) start = anchor.start + delta;
+  else if (anchor.start < prefix) start = anchor.start;
+  else start = prefix;
+
+  let end: number;
+  if (anchor.end <= prefix) end = anchor.end;
+  else if (anchor.end >= oldEditEnd) end = anchor.end + delta;
+  else end = newEditEnd;
+
+  if (anchor.start < anchor.end && start >= end) {
+    return relocate(anchor, newText);
+  }
+  if (start === anchor.start && end === anchor.end) return anchor;
+
+  return { ...anchor, start, end };
+}
+
+/**
+ * Anchor placed on the first occurrence of its quote, or detached
+ * A comment on the whole block only needs the block.
+ */
+function relocate(anchor: CommentAnchor, text: string): CommentAnchor {
+  const at = anchor.quote.length > 0 ? text.indexOf(anchor.quote) : 0;
+  if (at < 0) {
+    return anchor.detached ? anchor : { ...anchor, detached: true };
+  }
+
+  const { detached, ...attached } = anchor;
+  return { ...attached, start: at, end: at + anchor.quote.length };
+}
@@ -0,0 +1,671 @@
+/**
+ * CRDT model of the editor's block document
+ * Blocks are ordered by fractional position keys, their fields are
+ * last-writer-wins registers and their text is a replicated growable array
+ * (RGA) of characters. Review mode's tracked changes travel with the blocks.
+ * Replicas that have applied the same operations, in any order, hold the same
+ * document.
+ */
+
+import { ContentBlock, TrackedChange } from '../../types/editor';
+import { CrdtOpId, CrdtOperation, CrdtTrackedChange } from '../../types/collaboration';
+import { createDateReviver, sameJsonValue } from '../value-utils';
+
+/** Replica name of the operations that start a document from stored blocks */
+export const SEED_SITE = 'seed';
+
+/** Digits of fractional position keys, in sort order */
+const KEY_DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz';
+
+/** Content field holding the editable text of each block type */
+const TEXT_FIELDS: Record<string, string> = {
+  text: 'text',
+  heading: 'text',
+  quote: 'text',
+  code: 'code'
+};
+
+/** Prefix of attribute names holding content fields */
+const CONTENT_PREFIX = 'content.';
+
+/** Date fields of tracked changes and the blocks they hold */
+const CHANGE_DATE_FIELDS = new Set(['created_at', 'updated_at']);
+
+/**
+ * Last-writer-wins value
+ */
+interface Register<T> {
+  value: T;
+  stamp: CrdtOpId;
+}
+
+/**
+ * Character of a block's text; removed characters stay as tombstones
+ */
+interface CrdtChar {
+  id: CrdtOpId;
+  value: string;
+  deleted: boolean;
+}
+
+/**
+ * Replicated state of one block
+ */
+interface BlockState {
+  block_id: string;
+  position: Register<string>;
+  attributes: Record<string, Register<any>>;
+  deleted: boolean;
+  chars: CrdtChar[];
+}
+
+/**
+ * Replicated state of one tracked change
+ */
+interface ChangeState {
+  block_id: string;
+
+  /** The change in its JSON form; null once settled, which is final */
+  change: Register<Record<string, any> | null>;
+
+  /** Operation that first recorded the change; changes are listed in this order */
+  first: CrdtOpId;
+}
+
+/**
+ * One replica of a co-edited block document
+ */
+export class CrdtDocument {
+  readonly site: string;
+  private clock = 0;
+  private blocks: Map<string, BlockState> = new Map();
+  private changes: Map<string, ChangeState> = new Map();
+  private applied: Set<string> = new Set();
+  private pending: CrdtOperation[] = [];
+
+  constructor(site: string) {
+    this.site = site;
+  }
+
+  /**
+   * Operations that build a document from stored blocks
+   * They are the same on every replica, so peers opening the same stored
+   * version agree on them.
+   */
+  static seedOperations(blocks: ContentBlock[]): CrdtOperation[] {
+    const seed = new CrdtDocument(SEED_SITE);
+    const ops: CrdtOperation[] = [];
+    blocks.forEach((block, index) => {
+      ops.push(...seed.insertBlock(block, index));
+    });
+    return ops;
+  }
+
+  /**
+   * Apply operations from any replica; returns the IDs of blocks that changed
+   * Operations already applied are ignored. Operations whose block or
+   * neighbouring characters have not arrived yet wait until they do. Tracked
+   * changes do not change their block.
+   */
+  apply(ops: CrdtOperation[]): string[] {
+    const changed: string[] = [];
+    const note = (op: CrdtOperation) => {
+      if (op.kind !== 'tracked_change' && changed.indexOf(op.block_id) < 0) changed.push(op.block_id);
+    };
+
+    for (const op of ops) {
+      if (this.integrate(op)) {
+        note(op);
+      }
+    }
+
+    let progress = true;
+    while (progress && this.pending.length > 0) {
+      progress = false;
+      const waiting = this.pending;
+      this.pending = [];
+      for (const op of waiting) {
+        if (this.integrate(op)) {
+          note(op);
+          progress = true;
+        }
+      }
+    }
+
+    return changed;
+  }
+
+  /**
+   * Whether an operation has been applied
+   */
+  hasApplied(id: CrdtOpId): boolean {
+    return this.applied.has(opKey(id));
+  }
+
+  /**
+   * Visible blocks in document order
+   */
+  getBlocks(): ContentBlock[] {
+    return this.orderedStates().map(state => this.materialize(state));
+  }
+
+  /**
+   * A visible block, or undefined when it is missing or removed
+   */
+  getBlock(blockId: string): ContentBlock | undefined {
+    const state = this.blocks.get(blockId);
+    return state && !state.deleted ? this.materialize(state) : undefined;
+  }
+
+  /**
+   * Whether a block was inserted and later removed
+   */
+  isDeleted(blockId: string): boolean {
+    const state = this.blocks.get(blockId);
+    return !!state && state.deleted;
+  }
+
+  /**
+   * Tracked changes not yet settled, in the order they were first recorded
+   */
+  getTrackedChanges(): TrackedChange[] {
+    return Array.from(this.changes.values())
+      .sort((a, b) => compareIds(a.first, b.first))
+      .filter(state => state.change.value !== null)
+      .map(state => JSON.parse(JSON.stringify(state.change.value), createDateReviver(CHANGE_DATE_FIELDS)));
+  }
+
+  /**
+   * Record a tracked change, or its latest state
+   * Settled changes stay settled.
+   */
+  setTrackedChange(change: TrackedChange): CrdtOperation[] {
+    const value = JSON.parse(JSON.stringify(change));
+    const state = this.changes.get(change.id);
+    if (state && (state.change.value === null || sameJsonValue(state.change.value, value))) {
+      return [];
+    }
+
+    return this.local([{ kind: 'tracked_change', id: this.nextId(), block_id: change.block_id, change_id: change.id, change: value }]);
+  }
+
+  /**
+   * Settle a tracked change that was accepted or rejected
+   */
+  settleTrackedChange(changeId: string): CrdtOperation[] {
+    const state = this.changes.get(changeId);
+    if (!state || state.change.value === null) return [];
+
+    return this.local([{ kind: 'tracked_change', id: this.nextId(), block_id: state.block_id, change_id: changeId, change: null }]);
+  }
+
+  /**
+   * Insert a block at an index of the visible blocks
+   */
+  insertBlock(block: ContentBlock, index: number): CrdtOperation[] {
+    if (this.blocks.has(block.id)) {
+      return this.updateBlock(block);
+    }
+
+    const ordered = this.orderedStates();
+    const position = positionBetween(
+      index > 0 ? ordered[Math.min(index, ordered.length) - 1].position.value : null,
+      index < ordered.length ? ordered[index].position.value : null
+    );
+
+    const ops: CrdtOperation[] = [{
+      kind: 'block_insert',
+      id: this.nextId(),
+      block_id: block.id,
+      position,
+      attributes: toAttributes(block)
+    }];
+
+    const text = blockText(block);
+    if (text) {
+      ops.push({ kind: 'text_insert', id: this.nextId(text.length), block_id: block.id, after: null, text });
+    }
+    return this.local(ops);
+  }
+
+  /**
+   * Move a block so that it ends up at an index of the visible blocks
+   */
+  moveBlock(blockId: string, index: number): CrdtOperation[] {
+    const state = this.blocks.get(blockId);
+    if (!state || state.deleted) return [];
+
+    const others = this.orderedStates().filter(other => other.block_id !== blockId);
+    const position = positionBetween(
+      index > 0 ? others[Math.min(index, others.length) - 1].position.value : null,
+      index < others.length ? others[index].position.value : null
+    );
+
+    return this.local([{ kind: 'block_move', id: this.nextId(), block_id: blockId, position }]);
+  }
+
+  /**
+   * Remove a block
+   */
+  deleteBlock(blockId: string): CrdtOperation[] {
+    const state = this.blocks.get(blockId);
+    if (!state || state.deleted) return [];
+
+    return this.local([{ kind: 'block_delete', id: this.nextId(), block_id: blockId }]);
+  }
+
+  /**
+   * Bring a block to a new state: changed fields are set and its text is
+   * edited in place, so concurrent edits elsewhere in the text survive
+   * Unknown blocks are added at the end; removed blocks stay removed.
+   */
+  updateBlock(block: ContentBlock): CrdtOperation[] {
+    const state = this.blocks.get(block.id);
+    if (!state) {
+      return this.insertBlock(block, this.orderedStates().length);
+    }
+    if (state.deleted) {
+      return [];
+    }
+
+    const ops: CrdtOperation[] = [];
+
+    const text = blockText(block);
+    const current = visibleChars(state);
+    const currentText = current.map(char => char.value).join('');
+    if (text !== currentText) {
+      let prefix = 0;
+      while (prefix < text.length && prefix < currentText.length && text[prefix] === currentText[prefix]) {
+        prefix++;
+      }
+      let suffix = 0;
+      while (
+        suffix < text.length - prefix &&
+        suffix < currentText.length - prefix &&
+        text[text.length - 1 - suffix] === currentText[currentText.length - 1 - suffix]
+      ) {
+        suffix++;
+      }
+
+      const removed = current.slice(prefix, current.length - suffix);
+      if (removed.length > 0) {
+        ops.push({ kind: 'text_delete', id: this.nextId(), block_id: block.id, targets: removed.map(char => char.id) });
+      }
+      const inserted = text.slice(prefix, text.length - suffix);
+      if (inserted) {
+        ops.push({
+          kind: 'text_insert',
+          id: this.nextId(inserted.length),
+          block_id: block.id,
+          after: prefix > 0 ? current[prefix - 1].id : null,
+          text: inserted
+        });
+      }
+    }
+
+    const attributes = toAttributes(block);
+    const changes: Record<string, any> = {};
+    for (const name of Object.keys(attributes)) {
+      const register = state.attributes[name];
+      if (name !== 'updated_at' && (!register || !sameJsonValue(register.value, attributes[name]))) {
+        changes[name] = attributes[name];
+      }
+    }
+    for (const name of Object.keys(state.attributes)) {
+      if (!(name in attributes) && state.attributes[name].value !== undefined) {
+        changes[name] = undefined;
+      }
+    }
+    if (ops.length > 0 || Object.keys(changes).length > 0) {
+      changes.updated_at = attributes.updated_at;
+      ops.push({ kind: 'block_attributes', id: this.nextId(), block_id: block.id, attributes: changes });
+    }
+
+    return this.local(ops);
+  }
+
+  /**
+   * Bring the whole document to a list of blocks
+   */
+  setBlocks(blocks: ContentBlock[]): CrdtOperation[] {
+    const ops: CrdtOperation[] = [];
+    const wanted = blocks.map(block => block.id);
+
+    for (const state of this.orderedStates()) {
+      if (wanted.indexOf(state.block_id) < 0) {
+        ops.push(...this.deleteBlock(state.block_id));
+      }
+    }
+
+    blocks.forEach((block, index) => {
+      const state = this.blocks.get(block.id);
+      if (state && state.deleted) return;
+
+      ops.push(...this.updateBlock(block));
+      const ordered = this.orderedStates().filter(other => wanted.indexOf(other.block_id) >= 0);
+      const current = ordered.map(other => other.block_id).indexOf(block.id);
+      const expectedBefore = blocks.slice(0, index).filter(other => !this.isDeleted(other.id)).length;
+      if (current !== expectedBefore) {
+        ops.push(...this.moveBlock(block.id, this.indexAfter(index > 0 ? blocks[index - 1].id : null)));
+      }
+    });
+
+    return ops;
+  }
+
+  /**
+   * Next operation ID; a text run reserves one counter per character
+   */
+  private nextId(length: number = 1): CrdtOpId {
+    const id = { site: this.site, counter: this.clock + 1 };
+    this.clock += length;
+    return id;
+  }
+
+  /**
+   * Apply operations made by this replica
+   */
+  private local(ops: CrdtOperation[]): CrdtOperation[] {
+    ops.forEach(op => this.integrate(op));
+    return ops;
+  }
+
+  /**
+   * Apply one operation; false when it was applied before or has to wait
+   */
+  private integrate(op: CrdtOperation): boolean {
+    const key = opKey(op.id);
+    if (this.applied.has(key)) return false;
+
+    if (op.kind === 'tracked_change') {
+      this.integrateChange(op);
+      return this.markApplied(op, key);
+    }
+
+    if (op.kind === 'block_insert') {
+      const existing = this.blocks.get(op.block_id);
+      if (existing) {
+        // The same block inserted twice concurrently: its fields and position merge
+        setRegister(existing, 'position', op.position, op.id);
+        this.setAttributes(existing, op.attributes, op.id);
+      } else {
+        const state: BlockState = {
+          block_id: op.block_id,
+          position: { value: op.position, stamp: op.id },
+          attributes: {},
+          deleted: false,
+          chars: []
+        };
+        this.setAttributes(state, op.attributes, op.id);
+        this.blocks.set(op.block_id, state);
+      }
+      return this.markApplied(op, key);
+    }
+
+    const state = this.blocks.get(op.block_id);
+    if (!state) {
+      this.pending.push(op);
+      return false;
+    }
+
+    switch (op.kind) {
+      case 'block_move':
+        setRegister(state, 'position', op.position, op.id);
+        break;
+
+      case 'block_delete':
+        state.deleted = true;
+        break;
+
+      case 'block_attributes':
+        this.setAttributes(state, op.attributes, op.id);
+        break;
+
+      case 'text_insert': {
+        let index = 0;
+        if (op.after) {
+          const origin = indexOfChar(state, op.after);
+          if (origin < 0) {
+            this.pending.push(op);
+            return false;
+          }
+          index = origin + 1;
+        }
+        // Characters inserted concurrently at the same place with a higher ID stay first
+        while (index < state.chars.length && compareIds(state.chars[index].id, op.id) > 0) {
+          index++;
+        }
+        const chars: CrdtChar[] = [];
+        for (let i = 0; i < op.text.length; i++) {
+          chars.push({ id: { site: op.id.site, counter: op.id.counter + i }, value: op.text[i], deleted: false });
+        }
+        state.chars.splice(index, 0, ...chars);
+        this.observe(op.id.counter + op.text.length - 1);
+        break;
+      }
+
+      case 'text_delete': {
+        const indexes = op.targets.map(target => indexOfChar(state, target));
+        if (indexes.some(index => index < 0)) {
+          this.pending.push(op);
+          return false;
+        }
+        indexes.forEach(index => {
+          state.chars[index].deleted = true;
+        });
+        break;
+      }
+    }
+
+    return this.markApplied(op, key);
+  }
+
+  /**
+   * Apply a tracked change operation; a settled change ignores later edits
+   */
+  private integrateChange(op: CrdtTrackedChange): void {
+    const state = this.changes.get(op.change_id);
+    if (!state) {
+      this.changes.set(op.change_id, {
+        block_id: op.block_id,
+        change: { value: op.change, stamp: op.id },
+        first: op.id
+      });
+      return;
+    }
+
+    if (compareIds(op.id, state.first) < 0) {
+      state.first = op.id;
+    }
+    if (state.change.value !== null && (op.change === null || compareIds(op.id, state.change.stamp) > 0)) {
+      state.change = { value: op.change, stamp: op.id };
+    }
+  }
+
+  /**
+   * Record an applied operation and advance the Lamport clock past it
+   */
+  private markApplied(op: CrdtOperation, key: string): boolean {
+    this.applied.add(key);
+    this.observe(op.id.counter);
+    return true;
+  }
+
+  /**
+   * Advance the Lamport clock past a seen counter
+   */
+  private observe(counter: number): void {
+    if (counter > this.clock) {
+      this.clock = counter;
+    }
+  }
+
+  /**
+   * Set block fields that are newer than the ones held
+   */
+  private setAttributes(state: BlockState, attributes: Record<string, any>, stamp: CrdtOpId): void {
+    for (const name of Object.keys(attributes)) {
+      const register = state.attributes[name];
+      if (!register || compareIds(stamp, register.stamp) > 0) {
+        state.attributes[name] = { value: attributes[name], stamp };
+      }
+    }
+  }
+
+  /**
+   * Visible block states in document order
+   */
+  private orderedStates(): BlockState[] {
+    return Array.from(this.blocks.values())
+      .filter(state => !state.deleted)
+      .sort((a, b) => {
+        if (a.position.value !== b.position.value) {
+          return a.position.value < b.position.value ? -1 : 1;
+        }
+        return a.block_id < b.block_id ? -1 : a.block_id > b.block_id ? 1 : 0;
+      });
+  }
+
+  /**
+   * Index just after a block among the visible blocks (0 for null)
+   */
+  private indexAfter(blockId: string | null): number {
+    if (!blockId) return 0;
+    const ordered = this.orderedStates().map(state => state.block_id);
+    return ordered.indexOf(blockId) + 1;
+  }
+
+  /**
+   * Editor block from its replicated state
+   */
+  private materialize(state: BlockState): ContentBlock {
+    const content: Record<string, any> = {};
+    const block: Record<string, any> = { id: state.block_id, content };
+
+    for (const name of Object.keys(state.attributes)) {
+      const value = state.attributes[name].value;
+      if (value === undefined) continue;
+
+      if (name.indexOf(CONTENT_PREFIX) === 0) {
+        content[name.slice(CONTENT_PREFIX.length)] = value;
+      } else if (name === 'created_at' || name === 'updated_at') {
+        block[name] = new Date(value);
+      } else {
+        block[name] = value;
+      }
+    }
+
+    const textField = TEXT_FIELDS[block.type];
+    if (textField) {
+      content[textField] = visibleChars(state).map(char => char.value).join('');
+    }
+    return block as ContentBlock;
+  }
+}
+
+/**
+ * Order of two operation IDs: counter first, then replica
+ */
+export function compareIds(a: CrdtOpId, b: CrdtOpId): number {
+  if (a.counter !== b.counter) return a.counter - b.counter;
+  return a.site < b.site ? -1 : a.site > b.site ? 1 : 0;
+}
+
+/**
+ * Fractional key sorting strictly between two keys (null is open-ended)
+ * Equal neighbouring keys, left by concurrent inserts, cannot be split; the
+ * new key then sorts after both.
+ */
+export function positionBetween(before: string | null, after: string | null): string {
+  const low = before || '';
+  let high = after !== null && after > low ? after : null;
+  let key = '';
+
+  for (let i = 0; ; i++) {
+    const lowDigit = i < low.length ? KEY_DIGITS.indexOf(low[i]) : 0;
+    const highDigit = high !== null && i < high.length ? KEY_DIGITS.indexOf(high[i]) : KEY_DIGITS.length;
+
+    if (highDigit - lowDigit > 1) {
+      return key + KEY_DIGITS[Math.floor((lowDigit + highDigit) / 2)];
+    }
+    key += KEY_DIGITS[lowDigit];
+    if (highDigit - lowDigit === 1) {
+      // Below the upper key from here on; only the lower key still bounds the rest
+      high = null;
+    }
+  }
+}
+
+/**
+ * Map key of an operation ID
+ */
+function opKey(id: CrdtOpId): string {
+  return `${id.counter}@${id.site}`;
+}
+
+/**
+ * Set a block's position register when the stamp is newer
+ */
+function setRegister(state: BlockState, name: 'position', value: string, stamp: CrdtOpId): void {
+  if (compareIds(stamp, state[name].stamp) > 0) {
+    state[name] = { value, stamp };
+  }
+}
+
+/**
+ * Index of a character (deleted or not) in a block's text
+ */
+function indexOfChar(state: BlockState, id: CrdtOpId): number {
+  for (let i = 0; i < state.chars.length; i++) {
+    if (state.chars[i].id.counter === id.counter && state.chars[i].id.site === id.site) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Characters of a block's text that are not deleted
+ */
+function visibleChars(state: BlockState): CrdtChar[] {
+  return state.chars.filter(char => !char.deleted);
+}
+
+/**
+ * Editable text of a block
+ */
+function blockText(block: ContentBlock): string {
+  const field = TEXT_FIELDS[block.type];
+  const value = field ? (block.content as Record<string, any>)[field] : undefined;
+  return typeof value === 'string' ? value : '';
+}
+
+/**
+ * Block fields other than its text, flattened to attribute names
+ */
+function toAttributes(block: ContentBlock): Record<string, any> {
+  const attributes: Record<string, any> = {
+    type: block.type,
+    created_at: toIso(block.created_at),
+    updated_at: toIso(block.updated_at)
+  };
+  if (block.metadata) {
+    attributes.metadata = block.metadata;
+  }
+
+  const textField = TEXT_FIELDS[block.type];
+  const content = block.content as Record<string, any>;
+  for (const name of Object.keys(content)) {
+    if (name !== textField && content[name] !== undefined) {
+      attributes[CONTENT_PREFIX + name] = content[name];
+    }
+  }
+  return attributes;
+}
+
+/**
+ * Timestamp as an ISO string (blocks arriving over JSON already carry strings)
+ */
+function toIso(value: Date | string): string {
+  return value instanceof Date ? value.toISOString() : new Date(value).toISOString();
+}
@@ -0,0 +1,88 @@
+/**
+ * Document access
+ * Decides whether a user may co-edit, only follow, or not open a project's
+ * document: from the project's owner, collaborators and visibility, or from
+ * the guest access a guest invitation link handed out.
+ */
+
+import { Project } from '../../types/data-models';
+import type { CollaborationService } from '../../services/collaboration-service';
+import { ProjectRepository } from '../data/project-repository';
+
+/**
+ * What a user may do with a document
+ */
+export type DocumentAccess = 'edit' | 'view' | 'none';
+
+/**
+ * Decides document access for the collaboration hub
+ */
+export interface DocumentAccessPolicy {
+  /** What the user may do with a document of the project */
+  getAccess(userId: string, projectId: string, documentId: string): Promise<DocumentAccess>;
+}
+
+/**
+ * Checks guest access handed out through guest invitation links
+ */
+export type GuestAccessVerifier = Pick<CollaborationService, 'verifyGuestAccess'>;
+
+/**
+ * What a user may do with a project's documents
+ * The owner and accepted collaborators with edit permission co-edit; other
+ * accepted collaborators who can read, and anyone when the project is public,
+ * follow along.
+ */
+export function getProjectDocumentAccess(project: Project, userId: string): DocumentAccess {
+  if (project.owner_id === userId) {
+    return 'edit';
+  }
+
+  const collaborator = project.collaborators.find(
+    candidate => candidate.user_id === userId && candidate.status === 'accepted'
+  );
+  if (collaborator && collaborator.permissions.read) {
+    return collaborator.permissions.edit ? 'edit' : 'view';
+  }
+
+  return project.settings.visibility.view_access === 'public' ? 'view' : 'none';
+}
+
+/**
+ * Document access from the project repository and guest access
+ * Guests need access to the document or the whole project; without a guest
+ * verifier nobody gets in as a guest.
+ */
+export class ProjectDocumentAccess implements DocumentAccessPolicy {
+  private projects: ProjectRepository;
+  private guests?: GuestAccessVerifier;
+
+  constructor(projects: ProjectRepository, guests?: GuestAccessVerifier) {
+    this.projects = projects;
+    this.guests = guests;
+  }
+
+  async getAccess(userId: string, projectId: string, documentId: string): Promise<DocumentAccess> {
+    const project = await this.projects.getProjectById(projectId);
+    if (!project) {
+      return 'none';
+    }
+
+    const access = getProjectDocumentAccess(project, userId);
+    if (access === 'edit' || !this.guests) {
+      return access;
+    }
+
+    for (const resourceId of [documentId, projectId]) {
+      if (await this.guests.verifyGuestAccess(userId, resourceId, 'write')) {
+        return 'edit';
+      }
+    }
+    for (const resourceId of [documentId, projectId]) {
+      if (await this.guests.verifyGuestAccess(userId, resourceId, 'read')) {
+        return 'view';
+      }
+    }
+    return access;
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Guest invitation link signer
+ * Tokens name a stored invitation link and its expiry, signed with
+ * HMAC-SHA256 so a guest cannot forge or extend one.
+ */
+
+/**
+ * Verified contents of a guest link token
+ */
+export interface GuestLinkClaims {
+  /** Invitation link ID */
+  link_id: string;
+
+  /** When the token stops being accepted */
+  expires_at: Date;
+}
+
+/** Token shape: `<link id>.<expiry in epoch seconds>.<hex signature>` */
+const TOKEN_PATTERN = /^([A-Za-z0-9_-]+)\.(\d+)\.([0-9a-f]{64})$/;
+
+/**
+ * Signs and verifies guest link tokens
+ * The secret is read when needed so a missing key fails the operation that
+ * needs it rather than module loading.
+ */
+export class GuestLinkSigner {
+  private secret: () => string | undefined;
+
+  constructor(
+    secret: () => string | undefined = () => (typeof process !== 'undefined' ? process.env.GUEST_LINK_SECRET : undefined)
+  ) {
+    this.secret = secret;
+  }
+
+  /**
+   * Token for an invitation link
+   */
+  async sign(linkId: string, expiresAt: Date): Promise<string> {
+    const payload = `${linkId}.${Math.floor(expiresAt.getTime() / 1000)}`;
+    const signature = new Uint8Array(
+      await crypto.subtle.sign('HMAC', await this.importKey(), new TextEncoder().encode(payload))
+    );
+
+    let hex = '';
+    for (let i = 0; i < signature.length; i++) {
+      hex += (signature[i] < 16 ? '0' : '') + signature[i].toString(16);
+    }
+    return `${payload}.${hex}`;
+  }
+
+  /**
+   * Claims of a token, or null when it is malformed or the signature is wrong
+   * Expiry is left to the caller, which knows the current time.
+   */
+  async verify(token: string): Promise<GuestLinkClaims | null> {
+    const match = TOKEN_PATTERN.exec(token);
+    if (!match) {
+      return null;
+    }
+
+    const signature = new Uint8Array(32);
+    for (let i = 0; i < signature.length; i++) {
+      signature[i] = parseInt(match[3].substr(i * 2, 2), 16);
+    }
+
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await this.importKey(),
+      signature,
+      new TextEncoder().encode(`${match[1]}.${match[2]}`)
+    );
+
+    return valid ? { link_id: match[1], expires_at: new Date(parseInt(match[2], 10) * 1000) } : null;
+  }
+
+  private importKey(): Promise<CryptoKey> {
+    const secret = this.secret();
+    if (!secret) {
+      throw new Error('GUEST_LINK_SECRET is not configured');
+    }
+
+    return crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign', 'verify']
+    );
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * Real-time collaboration module
+ * CRDT document model, hub, transports and client for co-editing, comment
+ * threads and tracked changes on blocks, and signing of guest invitation links
+ * (the Node-only WebSocket server is imported from './websocket-server')
+ */
+
+export * from './crdt-document';
+export * from './collaboration-hub';
+export * from './collaboration-transport';
+export * from './collaboration-client';
+export * from './guest-link-signer';
+export * from './comment-threads';
+export * from './tracked-changes';
@@ -0,0 +1,285 @@
+/**
+ * Tracked changes for the editor's review mode
+ * Edits are applied to the document as usual but also recorded per block
+ * with their author, so a reviewer can accept them or put the block back.
+ * Deleted blocks stay in the document until the deletion is accepted. Every
+ * operation returns a new document so the editor's undo history keeps working.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Project } from '../../types/data-models';
+import {
+  ChangeAuthor,
+  ContentBlock,
+  SemanticChange,
+  SemanticDiff,
+  TrackedChange,
+  UIStateTree
+} from '../../types/editor';
+import { describeTextChange } from '../reflection-diff';
+import { getProjectDocumentAccess } from './document-access';
+
+/** Content field holding the text of each block type */
+const TEXT_FIELDS: Record<string, string> = {
+  text: 'text',
+  heading: 'text',
+  quote: 'text',
+  code: 'code',
+  image: 'caption'
+};
+
+/**
+ * Whether a user's edits need approval and whether they may review them
+ */
+export interface ReviewPermissions {
+  /** The project keeps its documents in review mode */
+  require_approval: boolean;
+
+  /** May accept and reject tracked changes */
+  can_review: boolean;
+}
+
+/**
+ * Review rights of a user on a project's documents
+ * When the project requires approval only the owner and collaborators who
+ * manage its settings approve changes; otherwise anyone who may edit can.
+ */
+export function getReviewPermissions(project: Project, userId: string): ReviewPermissions {
+  if (!project.settings.collaboration.require_approval) {
+    return { require_approval: false, can_review: getProjectDocumentAccess(project, userId) === 'edit' };
+  }
+  if (project.owner_id === userId) {
+    return { require_approval: true, can_review: true };
+  }
+
+  const collaborator = project.collaborators.find(
+    candidate => candidate.user_id === userId && candidate.status === 'accepted'
+  );
+  return { require_approval: true, can_review: !!collaborator && collaborator.permissions.manage_settings };
+}
+
+/**
+ * Tracked changes of a block, oldest first
+ */
+export function getBlockChanges(document: UIStateTree, blockId: string): TrackedChange[] {
+  return (document.tracked_changes || []).filter(change => change.block_id === blockId);
+}
+
+/**
+ * Whether a block is marked for deletion
+ */
+export function isPendingDeletion(document: UIStateTree, blockId: string): boolean {
+  return getBlockChanges(document, blockId).some(change => change.type === 'deletion');
+}
+
+/**
+ * Record an edit of a block that has already been applied to the document
+ * An author's consecutive edits of a block make up one change, which is
+ * dropped again when the block is edited back to how it was.
+ */
+export function trackBlockUpdate(
+  document: UIStateTree,
+  before: ContentBlock,
+  after: ContentBlock,
+  author: ChangeAuthor,
+  now: Date = new Date()
+): UIStateTree {
+  const changes = document.tracked_changes || [];
+  const blockChanges = getBlockChanges(document, before.id);
+  const latest = blockChanges[blockChanges.length - 1];
+
+  if (latest && latest.author.user_id === author.user_id) {
+    if (latest.type === 'modification' && latest.before && sameContent(latest.before, after)) {
+      return { ...document, tracked_changes: changes.filter(change => change.id !== latest.id) };
+    }
+    return {
+      ...document,
+      tracked_changes: changes.map(change => (change.id === latest.id ? { ...change, after, updated_at: now } : change))
+    };
+  }
+
+  if (sameContent(before, after)) return document;
+
+  return {
+    ...document,
+    tracked_changes: [...changes, newChange(before.id, 'modification', author, before, after, now)]
+  };
+}
+
+/**
+ * Record a block that has already been inserted into the document
+ */
+export function trackBlockInsertion(
+  document: UIStateTree,
+  block: ContentBlock,
+  author: ChangeAuthor,
+  now: Date = new Date()
+): UIStateTree {
+  return {
+    ...document,
+    tracked_changes: [...(document.tracked_changes || []), newChange(block.id, 'insertion', author, undefined, block, now)]
+  };
+}
+
+/**
+ * Mark a block for deletion; the block stays until the deletion is accepted
+ * A block its author inserted and nobody else has touched is simply removed.
+ */
+export function trackBlockDeletion(
+  document: UIStateTree,
+  blockId: string,
+  author: ChangeAuthor,
+  now: Date = new Date()
+): UIStateTree {
+  const block = document.blocks.find(candidate => candidate.id === blockId);
+  if (!block || isPendingDeletion(document, blockId)) return document;
+
+  const changes = document.tracked_changes || [];
+  const blockChanges = getBlockChanges(document, blockId);
+  const ownInsertion = blockChanges.length > 0 &&
+    blockChanges[0].type === 'insertion' &&
+    blockChanges.every(change => change.author.user_id === author.user_id);
+
+  if (ownInsertion) {
+    return {
+      ...document,
+      blocks: document.blocks.filter(candidate => candidate.id !== blockId),
+      tracked_changes: changes.filter(change => change.block_id !== blockId)
+    };
+  }
+
+  return {
+    ...document,
+    tracked_changes: [...changes, newChange(blockId, 'deletion', author, block, undefined, now)]
+  };
+}
+
+/**
+ * Accept a change and the earlier changes of its block
+ */
+export function acceptTrackedChange(document: UIStateTree, changeId: string): UIStateTree {
+  const changes = document.tracked_changes || [];
+  const change = changes.find(candidate => candidate.id === changeId);
+  if (!change) return document;
+
+  const blockChanges = getBlockChanges(document, change.block_id);
+  const accepted = blockChanges.slice(0, blockChanges.indexOf(change) + 1).map(candidate => candidate.id);
+  const deleted = change.type === 'deletion';
+
+  return {
+    ...document,
+    blocks: deleted ? document.blocks.filter(block => block.id !== change.block_id) : document.blocks,
+    tracked_changes: changes.filter(candidate => accepted.indexOf(candidate.id) < 0)
+  };
+}
+
+/**
+ * Reject a change and the later changes of its block, putting the block back
+ * as it was before the change
+ */
+export function rejectTrackedChange(document: UIStateTree, changeId: string): UIStateTree {
+  const changes = document.tracked_changes || [];
+  const change = changes.find(candidate => candidate.id === changeId);
+  if (!change) return document;
+
+  const blockChanges = getBlockChanges(document, change.block_id);
+  const rejected = blockChanges.slice(blockChanges.indexOf(change)).map(candidate => candidate.id);
+  const restored = change.before;
+
+  return {
+    ...document,
+    blocks: restored
+      ? document.blocks.map(block => (block.id === change.block_id ? restored : block))
+      : document.blocks.filter(block => block.id !== change.block_id),
+    tracked_changes: changes.filter(candidate => rejected.indexOf(candidate.id) < 0)
+  };
+}
+
+/**
+ * Accept every tracked change
+ */
+export function acceptAllTrackedChanges(document: UIStateTree): UIStateTree {
+  let result = document;
+  const changes = document.tracked_changes || [];
+  for (let i = changes.length - 1; i >= 0; i--) {
+    result = acceptTrackedChange(result, changes[i].id);
+  }
+  return result;
+}
+
+/**
+ * Reject every tracked change, putting the document back as it was
+ */
+export function rejectAllTrackedChanges(document: UIStateTree): UIStateTree {
+  let result = document;
+  while (result.tracked_changes && result.tracked_changes.length > 0) {
+    result = rejectTrackedChange(result, result.tracked_changes[0].id);
+  }
+  return result;
+}
+
+/**
+ * Tracked change as a before-and-after diff for the SemanticDiff view
+ */
+export function toSemanticDiff(change: TrackedChange, blocks: ContentBlock[]): SemanticDiff {
+  const index = blocks.findIndex(block => block.id === change.block_id);
+  const path = `blocks[${index >= 0 ? index : blocks.length}]`;
+  const oldText = change.before ? blockText(change.before) : '';
+  const newText = change.after ? blockText(change.after) : '';
+
+  const changes: SemanticChange[] = [];
+  const textChange = describeTextChange(oldText, newText, path);
+  if (textChange) {
+    changes.push(textChange);
+  }
+  if (change.type === 'insertion' && !textChange) {
+    changes.push({ type: 'addition', path, description: `Added empty ${change.after!.type} block` });
+  } else if (change.type === 'deletion' && !textChange) {
+    changes.push({ type: 'deletion', path, description: `Removed empty ${change.before!.type} block` });
+  } else if (change.type === 'modification' && change.before && change.after) {
+    if (change.before.type !== change.after.type) {
+      changes.push({ type: 'modification', path, description: `Turned ${change.before.type} block into ${change.after.type} block` });
+    } else if (!textChange) {
+      changes.push({ type: 'modification', path, description: 'Changed formatting' });
+    }
+  }
+
+  return {
+    id: change.id,
+    block_id: change.block_id,
+    before: change.before,
+    after: change.after,
+    changes
+  };
+}
+
+/**
+ * New tracked change
+ */
+function newChange(
+  blockId: string,
+  type: TrackedChange['type'],
+  author: ChangeAuthor,
+  before: ContentBlock | undefined,
+  after: ContentBlock | undefined,
+  now: Date
+): TrackedChange {
+  return { id: uuidv4(), block_id: blockId, type, author, before, after, created_at: now, updated_at: now };
+}
+
+/**
+ * Whether two versions of a block have the same type and content
+ */
+function sameContent(a: ContentBlock, b: ContentBlock): boolean {
+  return a.type === b.type && JSON.stringify(a.content) === JSON.stringify(b.content);
+}
+
+/**
+ * Text of a block the change descriptions compare
+ */
+function blockText(block: ContentBlock): string {
+  if (block.type === 'list') return block.content.items.join('\n');
+  const field = TEXT_FIELDS[block.type];
+  const value = field ? (block.content as Record<string, any>)[field] : undefined;
+  return typeof value === 'string' ? value : '';
+}
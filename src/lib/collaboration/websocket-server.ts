@@ -0,0 +1,286 @@
+/**
+ * Collaboration WebSocket server
+ * Accepts WebSocket upgrades on the collaboration path of a Node HTTP server
+ * and connects each socket to the collaboration hub as the user of its
+ * session cookie. Implements the parts of RFC 6455 the co-editing protocol
+ * needs: text messages (also fragmented), ping/pong and the closing handshake.
+ */
+
+import { createHash } from 'crypto';
+import { IncomingMessage, Server as HttpServer } from 'http';
+import { Duplex } from 'stream';
+import { CollaborationHub, collaborationHub } from './collaboration-hub';
+import { COLLABORATION_PATH } from './collaboration-client';
+import { SessionTokenService, getSessionTokenService } from '../security/session-tokens';
+
+/** Key suffix of the opening handshake (RFC 6455 section 1.3) */
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+/** Largest message accepted from a client */
+const MAX_MESSAGE_BYTES = 4 * 1024 * 1024;
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+/** Servers already serving the collaboration path */
+const attachedServers: WeakSet<HttpServer> = new WeakSet();
+
+/**
+ * Serve the collaboration hub over WebSocket on an HTTP server
+ * Safe to call more than once; other upgrade requests are left alone.
+ * Upgrades without a valid session cookie are refused.
+ */
+export function attachCollaborationServer(
+  server: HttpServer,
+  hub: CollaborationHub = collaborationHub,
+  path: string = COLLABORATION_PATH,
+  sessions: SessionTokenService | null = getSessionTokenService()
+): void {
+  if (attachedServers.has(server)) return;
+  attachedServers.add(server);
+
+  server.on('upgrade', (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+    if ((request.url || '').split('?')[0] !== path) return;
+
+    const key = request.headers['sec-websocket-key'];
+    const upgrade = request.headers.upgrade;
+    if (typeof key !== 'string' || !upgrade || upgrade.toLowerCase() !== 'websocket') {
+      socket.end('HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n');
+      return;
+    }
+    if (!sessions) {
+      socket.end('HTTP/1.1 503 Service Unavailable\r\nConnection: close\r\n\r\n');
+      return;
+    }
+
+    sessions.verifyCookieHeader(request.headers.cookie).then(userId => {
+      if (!userId) {
+        socket.end('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+        return;
+      }
+      acceptUpgrade(hub, socket, key, head, userId);
+    }, error => {
+      console.error('Collaboration session check failed:', error);
+      socket.end('HTTP/1.1 500 Internal Server Error\r\nConnection: close\r\n\r\n');
+    });
+  });
+}
+
+/**
+ * Complete the handshake and connect the socket to the hub as the user
+ */
+function acceptUpgrade(hub: CollaborationHub, socket: Duplex, key: string, head: Buffer, userId: string): void {
+  const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  const connection = new WebSocketConnection(socket);
+  const session = hub.connect(message => connection.sendText(JSON.stringify(message)), userId);
+
+  connection.onText = text => {
+    let message: unknown;
+    try {
+      message = JSON.parse(text);
+    } catch (error) {
+      connection.sendText(JSON.stringify({ type: 'error', message: 'Invalid JSON' }));
+      return;
+    }
+
+    // The hub answers messages that are not part of the protocol with an error
+    try {
+      session.receive(message);
+    } catch (error) {
+      console.error('Collaboration message failed:', error);
+      connection.sendText(JSON.stringify({ type: 'error', message: 'Collaboration message failed' }));
+    }
+  };
+  connection.onClose = () => session.close();
+
+  if (head && head.length > 0) {
+    connection.receive(head);
+  }
+}
+
+/**
+ * Server end of one WebSocket connection
+ */
+class WebSocketConnection {
+  onText: (text: string) => void = () => {};
+  onClose: () => void = () => {};
+
+  private buffer: Buffer = Buffer.alloc(0);
+  private fragments: Buffer[] = [];
+  private fragmentBytes = 0;
+  private closed = false;
+
+  constructor(private socket: Duplex) {
+    socket.on('data', (chunk: Buffer) => this.receive(chunk));
+    // HTTP servers allow half-open sockets, so end our side when the peer goes
+    socket.on('end', () => {
+      socket.end();
+      this.finish();
+    });
+    socket.on('close', () => this.finish());
+    socket.on('error', () => this.finish());
+  }
+
+  /**
+   * Send a text message
+   */
+  sendText(text: string): void {
+    this.sendFrame(OPCODE_TEXT, Buffer.from(text, 'utf8'));
+  }
+
+  /**
+   * Take in bytes from the socket and handle every complete frame
+   */
+  receive(chunk: Buffer): void {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+    while (!this.closed) {
+      const frame = this.readFrame();
+      if (!frame) return;
+      this.handleFrame(frame.fin, frame.opcode, frame.payload);
+    }
+  }
+
+  /**
+   * Take one complete frame off the buffer, or null when more bytes are needed
+   */
+  private readFrame(): { fin: boolean; opcode: number; payload: Buffer } | null {
+    const buffer = this.buffer;
+    if (buffer.length < 2) return null;
+
+    const fin = (buffer[0] & 0x80) !== 0;
+    const opcode = buffer[0] & 0x0f;
+    const masked = (buffer[1] & 0x80) !== 0;
+    let length = buffer[1] & 0x7f;
+    let offset = 2;
+
+    if (length === 126) {
+      if (buffer.length < 4) return null;
+      length = buffer.readUInt16BE(2);
+      offset = 4;
+    } else if (length === 127) {
+      if (buffer.length < 10) return null;
+      length = buffer.readUInt32BE(2) * 0x100000000 + buffer.readUInt32BE(6);
+      offset = 10;
+    }
+
+    if (!masked) {
+      // Client frames must be masked (RFC 6455 section 5.1)
+      this.close(1002);
+      return null;
+    }
+    if (length > MAX_MESSAGE_BYTES) {
+      this.close(1009);
+      return null;
+    }
+    if (buffer.length < offset + 4 + length) return null;
+
+    const mask = buffer.slice(offset, offset + 4);
+    const payload = Buffer.alloc(length);
+    for (let i = 0; i < length; i++) {
+      payload[i] = buffer[offset + 4 + i] ^ mask[i % 4];
+    }
+
+    this.buffer = buffer.slice(offset + 4 + length);
+    return { fin, opcode, payload };
+  }
+
+  /**
+   * Handle one frame
+   */
+  private handleFrame(fin: boolean, opcode: number, payload: Buffer): void {
+    switch (opcode) {
+      case OPCODE_TEXT:
+      case OPCODE_CONTINUATION:
+        if (opcode === OPCODE_TEXT) {
+          this.fragments = [];
+          this.fragmentBytes = 0;
+        }
+        this.fragments.push(payload);
+        this.fragmentBytes += payload.length;
+        if (this.fragmentBytes > MAX_MESSAGE_BYTES) {
+          this.close(1009);
+          return;
+        }
+        if (fin) {
+          const text = Buffer.concat(this.fragments).toString('utf8');
+          this.fragments = [];
+          this.fragmentBytes = 0;
+          this.onText(text);
+        }
+        break;
+
+      case OPCODE_PING:
+        this.sendFrame(OPCODE_PONG, payload);
+        break;
+
+      case OPCODE_PONG:
+        break;
+
+      case OPCODE_CLOSE:
+        this.close(1000);
+        break;
+
+      default:
+        // Binary and unknown frames are not part of the protocol
+        this.close(1003);
+    }
+  }
+
+  /**
+   * Send one unmasked, unfragmented frame
+   */
+  private sendFrame(opcode: number, payload: Buffer): void {
+    if (this.closed) return;
+
+    let header: Buffer;
+    if (payload.length < 126) {
+      header = Buffer.alloc(2);
+      header[1] = payload.length;
+    } else if (payload.length < 0x10000) {
+      header = Buffer.alloc(4);
+      header[1] = 126;
+      header.writeUInt16BE(payload.length, 2);
+    } else {
+      header = Buffer.alloc(10);
+      header[1] = 127;
+      header.writeUInt32BE(Math.floor(payload.length / 0x100000000), 2);
+      header.writeUInt32BE(payload.length % 0x100000000, 6);
+    }
+    header[0] = 0x80 | opcode;
+
+    this.socket.write(Buffer.concat([header, payload]));
+  }
+
+  /**
+   * Send a close frame and end the connection
+   */
+  private close(code: number): void {
+    if (this.closed) return;
+
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code, 0);
+    this.sendFrame(OPCODE_CLOSE, payload);
+    this.socket.end();
+    this.finish();
+  }
+
+  /**
+   * Mark the connection closed and leave the hub once
+   */
+  private finish(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.onClose();
+  }
+}
@@ -0,0 +1,632 @@
+/**
+ * Personal data export and import (GDPR Article 20)
+ * Packs everything a user owns into a portable ZIP of JSON-LD documents with a
+ * checksummed manifest, and restores such an archive on another installation
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  User,
+  Contact,
+  ContactGroup,
+  Consent,
+  RawContactDetails,
+  Project,
+  UIStateTree
+} from '../../types/data-models';
+import { UserState } from '../../types';
+import { ReflectionEntry } from '../../types/chronicler';
+import { LegacyContent } from '../../types/legacy-system';
+import { SemanticRAG } from '../memory/semantic-rag';
+import { UserRepository, userRepository as defaultUserRepository } from './user-repository';
+import { ProjectRepository, projectRepository as defaultProjectRepository } from './project-repository';
+import { createZipArchive, readZipArchive, ZipEntry } from './zip-archive';
+import { createDateReviver } from '../value-utils';
+
+/**
+ * Archive format identifier written to the manifest
+ */
+export const PERSONAL_DATA_ARCHIVE_FORMAT = 'halsning-personal-data';
+
+/**
+ * Current archive format version
+ */
+export const PERSONAL_DATA_ARCHIVE_VERSION = 1;
+
+/**
+ * JSON-LD context shared by every document in the archive
+ */
+const JSON_LD_CONTEXT = { '@vocab': 'urn:halsning:personal-data:v1#' };
+
+/**
+ * Fields that hold dates in archived records; other strings are never revived
+ */
+const ARCHIVE_DATE_FIELDS = new Set([
+  'accepted_at', 'added_at', 'answered_at', 'asked_at', 'assigned_at', 'attempted_at', 'birth_date',
+  'completed_at', 'confirmation_requested_at', 'confirmed_at', 'consent_given_at', 'created_at', 'date',
+  'deliver_at', 'delivered_at', 'delivery_date', 'encrypted_at', 'end_date', 'expires_at', 'exported_at',
+  'granted_at', 'imported_at', 'joined_at', 'last_accessed_at', 'last_activity_at', 'last_check_in_at',
+  'last_evaluated_at', 'last_login_at', 'last_modified', 'last_modified_at', 'last_sync_at',
+  'last_sync_attempt', 'matched_at', 'modified_at', 'next_evaluation_at', 'next_retry_at', 'next_step_at',
+  'occurred_at', 'release_at', 'released_at', 'remind_at', 'requested_at', 'resolved_at', 'retry_after', 'retry_at',
+  'revoked_at', 'scheduled_delivery_at', 'start_date', 'synced_at', 'timestamp', 'updated_at', 'uploaded_at'
+]);
+
+/**
+ * Archive documents, in the order they are written
+ */
+const ARCHIVE_FILES = {
+  user: 'user.jsonld',
+  contacts: 'contacts.jsonld',
+  contactGroups: 'contact-groups.jsonld',
+  consents: 'consents.jsonld',
+  reflections: 'reflections.jsonld',
+  legacyContent: 'legacy-content.jsonld',
+  projects: 'projects.jsonld',
+  memories: 'memories.jsonld'
+} as const;
+
+type ArchiveDocument = keyof typeof ARCHIVE_FILES;
+
+/**
+ * Manifest entry describing one archive document
+ */
+export interface PersonalDataFileEntry {
+  /** Path inside the archive */
+  path: string;
+
+  /** Number of items in the document */
+  items: number;
+
+  /** Size in bytes */
+  bytes: number;
+
+  /** Hex-encoded SHA-256 of the document */
+  sha256: string;
+}
+
+/**
+ * Archive manifest (`manifest.json`)
+ */
+export interface PersonalDataManifest {
+  /** Archive format identifier */
+  format: typeof PERSONAL_DATA_ARCHIVE_FORMAT;
+
+  /** Archive format version */
+  version: number;
+
+  /** Export timestamp */
+  exported_at: Date;
+
+  /** Exported user ID on the source installation */
+  user_id: string;
+
+  /** Archive documents */
+  files: PersonalDataFileEntry[];
+}
+
+/**
+ * Exported contact with decrypted details
+ */
+export interface ExportedContact {
+  id: string;
+  relationship_type: Contact['relationship_type'];
+  status: Contact['status'];
+  details: RawContactDetails;
+  group_ids: string[];
+  created_at: Date;
+}
+
+/**
+ * Exported contact group
+ */
+export interface ExportedContactGroup {
+  id: string;
+  name: string;
+  description?: string;
+  color: string;
+  created_at: Date;
+}
+
+/**
+ * Exported project with its content at HEAD
+ */
+export interface ExportedProject {
+  id: string;
+  project: Omit<Project, 'collaborators' | 'git_repository_url'>;
+  head_version?: string;
+  content: UIStateTree | null;
+}
+
+/**
+ * Exported semantic memory
+ */
+export interface ExportedMemory {
+  id: string;
+  content: string;
+  embedding: number[];
+  source: string;
+  tags: string[];
+  user_state?: UserState;
+  timestamp: Date;
+}
+
+/**
+ * Reflection persistence used for export and import
+ */
+export interface ReflectionArchiveStore {
+  getUserReflections(userId: string): Promise<ReflectionEntry[]>;
+  saveReflection(reflection: ReflectionEntry): Promise<unknown>;
+  deleteReflection(reflectionId: string): Promise<unknown>;
+}
+
+/**
+ * Legacy content persistence used for export and import
+ */
+export interface LegacyContentArchiveStore {
+  getLegacyContentByCreator(creatorId: string): Promise<LegacyContent[]>;
+  saveLegacyContent(content: LegacyContent): Promise<unknown>;
+  deleteLegacyContent(contentId: string): Promise<unknown>;
+}
+
+/**
+ * Sources and destinations of personal data
+ */
+export interface PersonalDataExportOptions {
+  userRepository?: UserRepository;
+  projectRepository?: ProjectRepository;
+  semanticRAG?: SemanticRAG;
+  reflections?: ReflectionArchiveStore;
+  legacyContent?: LegacyContentArchiveStore;
+}
+
+/**
+ * Outcome of an import
+ */
+export interface PersonalDataImportReport {
+  /** User ID on this installation */
+  user_id: string;
+
+  /** Source installation IDs mapped to the IDs created here */
+  id_map: Record<string, string>;
+
+  /** Imported item count per document */
+  imported: Record<ArchiveDocument, number>;
+
+  /** Items left out because this installation has no store for them */
+  skipped: { document: ArchiveDocument; id: string; reason: string }[];
+}
+
+/**
+ * Raised when an archive is malformed, tampered with or of an unknown version
+ */
+export class PersonalDataArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PersonalDataArchiveError';
+  }
+}
+
+/**
+ * Personal data export service
+ * Contact details are decrypted with the user's password on export and
+ * re-encrypted with the password given on import. Every imported record gets
+ * a new ID, so an archive can never overwrite existing records; references in
+ * reflections, legacy content and memories are rewritten accordingly. An
+ * import either completes or is rolled back entirely.
+ */
+export class PersonalDataExportService {
+  private userRepository: UserRepository;
+  private projectRepository: ProjectRepository;
+  private semanticRAG?: SemanticRAG;
+  private reflections?: ReflectionArchiveStore;
+  private legacyContent?: LegacyContentArchiveStore;
+
+  constructor(options: PersonalDataExportOptions = {}) {
+    this.userRepository = options.userRepository || defaultUserRepository;
+    this.projectRepository = options.projectRepository || defaultProjectRepository;
+    this.semanticRAG = options.semanticRAG;
+    this.reflections = options.reflections;
+    this.legacyContent = options.legacyContent;
+  }
+
+  /**
+   * Exports all of a user's data as a ZIP archive
+   */
+  async exportUserData(userId: string, password: string): Promise<Uint8Array> {
+    const user = await this.userRepository.getUserById(userId);
+    if (!user) {
+      throw new Error(`User not found: ${userId}`);
+    }
+
+    const documents: Record<ArchiveDocument, { type: string; items: any[] }> = {
+      user: { type: 'User', items: [this.exportUser(user)] },
+      contacts: { type: 'Contact', items: await this.exportContacts(user.contacts, password) },
+      contactGroups: { type: 'ContactGroup', items: this.exportContactGroups(user.contacts) },
+      consents: { type: 'Consent', items: user.consents },
+      reflections: { type: 'ReflectionEntry', items: this.reflections ? await this.reflections.getUserReflections(userId) : [] },
+      legacyContent: { type: 'LegacyContent', items: this.legacyContent ? await this.legacyContent.getLegacyContentByCreator(userId) : [] },
+      projects: { type: 'Project', items: await this.exportProjects(userId) },
+      memories: { type: 'Memory', items: this.exportMemories(userId) }
+    };
+
+    const encoder = new TextEncoder();
+    const entries: ZipEntry[] = [];
+    const files: PersonalDataFileEntry[] = [];
+
+    for (const name of Object.keys(ARCHIVE_FILES) as ArchiveDocument[]) {
+      const path = ARCHIVE_FILES[name];
+      const { type, items } = documents[name];
+      const data = encoder.encode(JSON.stringify({
+        '@context': JSON_LD_CONTEXT,
+        '@graph': items.map(item => ({ '@id': `urn:halsning:${type}:${item.id}`, '@type': type, ...item }))
+      }, null, 2));
+
+      entries.push({ path, data });
+      files.push({ path, items: items.length, bytes: data.length, sha256: await this.sha256(data) });
+    }
+
+    const manifest: PersonalDataManifest = {
+      format: PERSONAL_DATA_ARCHIVE_FORMAT,
+      version: PERSONAL_DATA_ARCHIVE_VERSION,
+      exported_at: new Date(),
+      user_id: userId,
+      files
+    };
+
+    return createZipArchive([{ path: 'manifest.json', data: encoder.encode(JSON.stringify(manifest, null, 2)) }, ...entries]);
+  }
+
+  /**
+   * Reads and verifies an archive without importing it
+   */
+  async readArchive(archive: Uint8Array): Promise<{ manifest: PersonalDataManifest; documents: Record<ArchiveDocument, any[]> }> {
+    let entries: ZipEntry[];
+    try {
+      entries = readZipArchive(archive);
+    } catch (error) {
+      throw new PersonalDataArchiveError(error instanceof Error ? error.message : 'Unreadable archive');
+    }
+
+    const decoder = new TextDecoder();
+    const byPath = new Map(entries.map(entry => [entry.path, entry.data] as [string, Uint8Array]));
+    const manifestData = byPath.get('manifest.json');
+    if (!manifestData) {
+      throw new PersonalDataArchiveError('Archive has no manifest.json');
+    }
+
+    const manifest = this.parseJson(decoder.decode(manifestData)) as PersonalDataManifest;
+    if (manifest.format !== PERSONAL_DATA_ARCHIVE_FORMAT) {
+      throw new PersonalDataArchiveError(`Unknown archive format: ${manifest.format}`);
+    }
+    if (manifest.version > PERSONAL_DATA_ARCHIVE_VERSION) {
+      throw new PersonalDataArchiveError(`Archive version ${manifest.version} is newer than supported version ${PERSONAL_DATA_ARCHIVE_VERSION}`);
+    }
+
+    const documents = {} as Record<ArchiveDocument, any[]>;
+    for (const name of Object.keys(ARCHIVE_FILES) as ArchiveDocument[]) {
+      const path = ARCHIVE_FILES[name];
+      const file = manifest.files.find(entry => entry.path === path);
+      const data = byPath.get(path);
+      if (!file || !data) {
+        throw new PersonalDataArchiveError(`Archive is missing ${path}`);
+      }
+      if (await this.sha256(data) !== file.sha256) {
+        throw new PersonalDataArchiveError(`Checksum mismatch for ${path}`);
+      }
+
+      const graph: any[] = this.parseJson(decoder.decode(data))['@graph'] || [];
+      documents[name] = graph.map(({ '@id': _id, '@type': _type, ...item }) => item);
+    }
+
+    return { manifest, documents };
+  }
+
+  /**
+   * Imports an archive as a new user on this installation
+   * If any record fails, everything created so far is removed again and the error is rethrown.
+   */
+  async importUserData(archive: Uint8Array, password: string): Promise<PersonalDataImportReport> {
+    const { documents } = await this.readArchive(archive);
+    const [exportedUser] = documents.user as User[];
+    if (!exportedUser) {
+      throw new PersonalDataArchiveError('Archive contains no user');
+    }
+
+    const idMap: Record<string, string> = {};
+    const mapId = (id: string) => idMap[id] || id;
+    const report: PersonalDataImportReport = {
+      user_id: '',
+      id_map: idMap,
+      imported: { user: 0, contacts: 0, contactGroups: 0, consents: 0, reflections: 0, legacyContent: 0, projects: 0, memories: 0 },
+      skipped: []
+    };
+    const skip = (document: ArchiveDocument, id: string, reason: string) => report.skipped.push({ document, id, reason });
+    const undo: (() => Promise<unknown>)[] = [];
+
+    try {
+      const user = await this.userRepository.createUser({
+        user_role: exportedUser.user_role,
+        display_name: exportedUser.profile.display_name,
+        email: exportedUser.profile.email,
+        language: exportedUser.profile.language,
+        timezone: exportedUser.profile.timezone
+      });
+      // Deleting the user also removes their contacts, groups and consents
+      undo.push(() => this.userRepository.deleteUser(user.id));
+      await this.userRepository.updateUser(user.id, {
+        profile: exportedUser.profile,
+        status: exportedUser.status,
+        created_at: exportedUser.created_at
+      });
+      idMap[exportedUser.id] = user.id;
+      report.user_id = user.id;
+      report.imported.user = 1;
+
+      for (const exported of documents.contacts as ExportedContact[]) {
+        const contact = await this.userRepository.createContact(user.id, {
+          contact_details: exported.details,
+          relationship_type: exported.relationship_type,
+          status: exported.status,
+          password
+        });
+        if (!contact) {
+          throw new Error(`Contact ${exported.id} could not be created`);
+        }
+        idMap[exported.id] = contact.id;
+        report.imported.contacts++;
+      }
+
+      for (const exported of documents.contactGroups as ExportedContactGroup[]) {
+        const group = await this.userRepository.createContactGroup(user.id, {
+          name: exported.name,
+          description: exported.description,
+          color: exported.color
+        });
+        if (!group) {
+          throw new Error(`Contact group ${exported.id} could not be created`);
+        }
+
+        idMap[exported.id] = group.id;
+        report.imported.contactGroups++;
+        for (const contact of documents.contacts as ExportedContact[]) {
+          if (contact.group_ids.includes(exported.id)) {
+            await this.userRepository.addContactToGroup(idMap[contact.id], group.id);
+          }
+        }
+      }
+
+      for (const exported of documents.consents as Consent[]) {
+        const consent = await this.userRepository.createConsent(user.id, {
+          scope: exported.scope,
+          applies_to: { ...exported.applies_to, target_id: mapId(exported.applies_to.target_id) },
+          details: exported.details,
+          expires_at: exported.expires_at
+        });
+        if (!consent) {
+          throw new Error(`Consent ${exported.id} could not be created`);
+        }
+
+        idMap[exported.id] = consent.id;
+        if (exported.status === 'revoked') {
+          await this.userRepository.revokeConsent(consent.id);
+        }
+        report.imported.consents++;
+      }
+
+      for (const exported of documents.projects as ExportedProject[]) {
+        const { project: source, content } = exported;
+        const project = await this.projectRepository.createProject(user.id, {
+          name: source.name,
+          description: source.description,
+          type: source.type,
+          settings: source.settings
+        });
+        undo.push(() => this.projectRepository.deleteProject(project.id));
+        idMap[source.id] = project.id;
+
+        if (content && !(await this.projectRepository.saveProjectContent(project.id, content, 'Imported from personal data archive'))) {
+          throw new Error(`Content of project ${source.id} could not be saved`);
+        }
+        report.imported.projects++;
+      }
+
+      const reflections = documents.reflections as ReflectionEntry[];
+      if (!this.reflections) {
+        reflections.forEach(reflection => skip('reflections', reflection.id, 'No reflection store configured'));
+      }
+      for (const reflection of this.reflections ? reflections : []) {
+        const id = uuidv4();
+        idMap[reflection.id] = id;
+        await this.reflections!.saveReflection({ ...reflection, id, user_id: user.id });
+        undo.push(() => this.reflections!.deleteReflection(id));
+        report.imported.reflections++;
+      }
+
+      const legacyContents = documents.legacyContent as LegacyContent[];
+      if (!this.legacyContent) {
+        legacyContents.forEach(content => skip('legacyContent', content.id, 'No legacy content store configured'));
+      }
+      for (const content of this.legacyContent ? legacyContents : []) {
+        const id = uuidv4();
+        idMap[content.id] = id;
+        await this.legacyContent!.saveLegacyContent({
+          ...content,
+          id,
+          creator_id: user.id,
+          recipients: content.recipients.map(recipient => ({ ...recipient, contact_id: mapId(recipient.contact_id) }))
+        });
+        undo.push(() => this.legacyContent!.deleteLegacyContent(id));
+        report.imported.legacyContent++;
+      }
+
+      const memories = documents.memories as ExportedMemory[];
+      if (!this.semanticRAG) {
+        memories.forEach(memory => skip('memories', memory.id, 'No semantic store configured'));
+      }
+      for (const memory of this.semanticRAG ? memories : []) {
+        const semanticRAG = this.semanticRAG!;
+        const result = await semanticRAG.store({
+          content: memory.content,
+          embedding: memory.embedding,
+          metadata: {
+            source: memory.source,
+            tags: memory.tags.map(tag => tag.replace(/^(contact|project):(.+)$/, (_, kind, id) => `${kind}:${mapId(id)}`)),
+            timestamp: memory.timestamp
+          }
+        }, memory.user_state, {
+          id: `import:${user.id}`,
+          user_ids: [user.id],
+          project_ids: [],
+          contact_ids: [],
+          permissions: { read: true, write: true, delete: false }
+        });
+        if (!result.success) {
+          throw new Error(`Memory ${memory.id} could not be stored: ${result.error || 'unknown error'}`);
+        }
+
+        undo.push(async () => {
+          semanticRAG.deleteEntry(result.entityId);
+          await semanticRAG.flush();
+        });
+        idMap[memory.id] = result.entityId;
+        report.imported.memories++;
+      }
+      if (this.semanticRAG) {
+        await this.semanticRAG.flush();
+      }
+    } catch (error) {
+      await this.rollback(undo);
+      throw error;
+    }
+
+    return report;
+  }
+
+  /**
+   * Removes the records of a failed import, newest first
+   */
+  private async rollback(undo: (() => Promise<unknown>)[]): Promise<void> {
+    for (const step of undo.slice().reverse()) {
+      try {
+        await step();
+      } catch (error) {
+        console.error('[PersonalDataExport] Failed to roll back imported record:', error);
+      }
+    }
+  }
+
+  /**
+   * User record without the contact and consent lists exported separately
+   */
+  private exportUser(user: User): Omit<User, 'contacts' | 'consents'> {
+    const { contacts, consents, ...rest } = user;
+    return rest;
+  }
+
+  /**
+   * Contacts with their details decrypted
+   */
+  private async exportContacts(contacts: Contact[], password: string): Promise<ExportedContact[]> {
+    const exported: ExportedContact[] = [];
+
+    for (const contact of contacts) {
+      const details = await this.userRepository.decryptContactDetails(contact.id, password);
+      if (!details) {
+        throw new Error(`Unable to decrypt contact ${contact.id}; check the password`);
+      }
+
+      exported.push({
+        id: contact.id,
+        relationship_type: contact.relationship_type,
+        status: contact.status,
+        details,
+        group_ids: contact.groups.map(group => group.id),
+        created_at: contact.created_at
+      });
+    }
+
+    return exported;
+  }
+
+  /**
+   * Contact groups the user's contacts belong to
+   */
+  private exportContactGroups(contacts: Contact[]): ExportedContactGroup[] {
+    const groups = new Map<string, ContactGroup>();
+    contacts.forEach(contact => contact.groups.forEach(group => groups.set(group.id, group)));
+
+    return Array.from(groups.values()).map(group => ({
+      id: group.id,
+      name: group.name,
+      description: group.description,
+      color: group.color,
+      created_at: group.created_at
+    }));
+  }
+
+  /**
+   * Projects the user owns, with content at the current version
+   */
+  private async exportProjects(userId: string): Promise<ExportedProject[]> {
+    const projects = (await this.projectRepository.getProjectsByUserId(userId))
+      .filter(project => project.owner_id === userId);
+    const exported: ExportedProject[] = [];
+
+    for (const { collaborators, git_repository_url, ...project } of projects) {
+      const versions = await this.projectRepository.getProjectVersionHistory(project.id);
+      const head = versions.find(version => version.is_current) || versions[0];
+
+      exported.push({
+        id: project.id,
+        project,
+        head_version: head?.id,
+        content: head ? await this.projectRepository.getProjectContentAtVersion(project.id, head.id) : null
+      });
+    }
+
+    return exported;
+  }
+
+  /**
+   * Semantic memories stored for the user
+   */
+  private exportMemories(userId: string): ExportedMemory[] {
+    if (!this.semanticRAG) {
+      return [];
+    }
+
+    return this.semanticRAG.getEntriesByUser(userId).map(entry => ({
+      id: entry.id,
+      content: entry.content,
+      embedding: entry.embedding,
+      source: entry.source,
+      tags: entry.tags,
+      user_state: entry.userState,
+      timestamp: entry.timestamp
+    }));
+  }
+
+  /**
+   * Parses JSON, restoring the known date fields as dates
+   */
+  private parseJson(text: string): any {
+    try {
+      return JSON.parse(text, createDateReviver(ARCHIVE_DATE_FIELDS));
+    } catch (error) {
+      throw new PersonalDataArchiveError('Archive document is not valid JSON');
+    }
+  }
+
+  /**
+   * Hex-encoded SHA-256 digest
+   */
+  private async sha256(data: Uint8Array): Promise<string> {
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data as Uint8Array<ArrayBuffer>));
+    let hex = '';
+    for (let i = 0; i < digest.length; i++) {
+      hex += (digest[i] < 16 ? '0' : '') + digest[i].toString(16);
+    }
+    return hex;
+  }
+}
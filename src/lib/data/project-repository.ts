@@ -20,6 +20,7 @@ import {
   AssetMetadata,
   GitRepository
 } from '../../types/data-models';
+import { DomainEventBus, domainEventBus } from '../events/domain-event-bus';
 
 /**
  * Project creation data
@@ -43,6 +44,12 @@ export interface UploadAssetData {
   metadata?: Partial<AssetMetadata>;
 }
 
+/**
+ * Asset update data
+ * A new file replaces the stored one; metadata fields are merged.
+ */
+export type UpdateAssetData = Partial<UploadAssetData>;
+
 /**
  * Project repository implementation
  * Requirement 11.1: Implement hybrid Project data model with Git integration
@@ -52,6 +59,11 @@ export class ProjectRepository {
   private assets: Map<string, Asset> = new Map();
   private gitRepositories: Map<string, GitRepository> = new Map();
   private projectVersions: Map<string, ProjectVersion[]> = new Map();
+  private events: DomainEventBus;
+  
+  constructor(events: DomainEventBus = domainEventBus) {
+    this.events = events;
+  }
   
   /**
    * Creates a new project with Git repository
@@ -183,6 +195,10 @@ export class ProjectRepository {
     // Commit changes to Git repository
     await this.commitProjectChanges(updatedProject, 'Update project metadata');
     
+    if (updatedProject.status === 'completed' && project.status !== 'completed') {
+      await this.events.publish('project.completed', { project: updatedProject });
+    }
+    
     return updatedProject;
   }
   
@@ -227,6 +243,7 @@ export class ProjectRepository {
       },
       status: 'available',
       uploaded_at: now,
+      updated_at: now,
       last_accessed_at: now
     };
     
@@ -243,6 +260,36 @@ export class ProjectRepository {
     return asset;
   }
   
+  /**
+   * Updates an asset in place, keeping its ID
+   */
+  async updateAsset(id: string, data: UpdateAssetData): Promise<Asset | null> {
+    const asset = this.assets.get(id);
+    if (!asset || asset.status === 'deleted') return null;
+    
+    if (data.file_data) {
+      const storageUrl = await this.uploadToCloudStorage(data.file_data, data.filename || asset.filename);
+      await this.deleteFromCloudStorage(asset.storage_url);
+      asset.storage_url = storageUrl;
+    }
+    
+    const now = new Date();
+    asset.filename = data.filename || asset.filename;
+    asset.type = data.type || asset.type;
+    asset.mime_type = data.mime_type || asset.mime_type;
+    asset.size_bytes = data.size_bytes !== undefined ? data.size_bytes : asset.size_bytes;
+    asset.metadata = { ...asset.metadata, ...data.metadata };
+    asset.updated_at = now;
+    
+    const project = this.projects.get(asset.project_id);
+    if (project) {
+      project.updated_at = now;
+      project.last_activity_at = now;
+    }
+    
+    return asset;
+  }
+  
   /**
    * Gets an asset by ID
    */
@@ -411,6 +458,27 @@ export class ProjectRepository {
     return true;
   }
   
+  /**
+   * Permanently deletes a project with its assets, Git repository and version history
+   */
+  async deleteProject(id: string): Promise<boolean> {
+    const project = this.projects.get(id);
+    if (!project) return false;
+    
+    for (const asset of Array.from(this.assets.values())) {
+      if (asset.project_id === id) {
+        await this.deleteFromCloudStorage(asset.storage_url);
+        this.assets.delete(asset.id);
+      }
+    }
+    
+    this.gitRepositories.delete(id);
+    this.projectVersions.delete(id);
+    this.projects.delete(id);
+    
+    return true;
+  }
+  
   /**
    * Creates a Git repository for the project (simulated)
    */
@@ -14,9 +14,13 @@ import {
   ConsentDetails,
   RelationshipType,
   GraphNode,
-  GraphRelationship
+  GraphRelationship,
+  LifeEventRecord,
+  LifeEventType,
+  ProfileAnniversary
 } from '../../types/data-models';
 import { contactEncryption } from './encryption';
+import { DomainEventBus, domainEventBus } from '../events/domain-event-bus';
 
 /**
  * User creation data
@@ -27,6 +31,8 @@ export interface CreateUserData {
   email: string;
   language: string;
   timezone: string;
+  birth_date?: Date;
+  anniversaries?: ProfileAnniversary[];
 }
 
 /**
@@ -36,6 +42,7 @@ export interface CreateContactData {
   contact_details: RawContactDetails;
   relationship_type: RelationshipType;
   password: string; // For encryption
+  status?: Contact['status']; // Defaults to 'active'
 }
 
 /**
@@ -66,6 +73,11 @@ export class UserRepository {
   private contacts: Map<string, Contact> = new Map();
   private contactGroups: Map<string, ContactGroup> = new Map();
   private consents: Map<string, Consent> = new Map();
+  private events: DomainEventBus;
+  
+  constructor(events: DomainEventBus = domainEventBus) {
+    this.events = events;
+  }
   
   /**
    * Creates a new user
@@ -83,6 +95,8 @@ export class UserRepository {
         email: data.email,
         language: data.language,
         timezone: data.timezone,
+        birth_date: data.birth_date,
+        anniversaries: data.anniversaries,
         preferences: {
           theme: 'auto',
           layout: 'auto',
@@ -107,6 +121,7 @@ export class UserRepository {
     };
     
     this.users.set(id, user);
+    await this.events.publish('user.created', { user });
     return user;
   }
   
@@ -117,6 +132,13 @@ export class UserRepository {
     return this.users.get(id) || null;
   }
   
+  /**
+   * Gets every user
+   */
+  async getAllUsers(): Promise<User[]> {
+    return Array.from(this.users.values());
+  }
+  
   /**
    * Gets a user by email
    */
@@ -143,9 +165,49 @@ export class UserRepository {
     };
     
     this.users.set(id, updatedUser);
+    await this.events.publish('user.updated', { user: updatedUser });
     return updatedUser;
   }
   
+  /**
+   * Records a sign-in
+   */
+  async recordLogin(id: string): Promise<User | null> {
+    const user = this.users.get(id);
+    if (!user) return null;
+    
+    const firstLogin = !user.last_login_at;
+    user.last_login_at = new Date();
+    
+    await this.events.publish('user.logged_in', { user_id: id, first_login: firstLogin }, user.last_login_at);
+    return user;
+  }
+  
+  /**
+   * Records a life event such as a graduation or retirement
+   */
+  async recordLifeEvent(
+    id: string,
+    type: LifeEventType,
+    occurredAt: Date,
+    details: Record<string, string | number> = {}
+  ): Promise<LifeEventRecord | null> {
+    const user = this.users.get(id);
+    if (!user) return null;
+    
+    const lifeEvent: LifeEventRecord = {
+      id: this.generateId(),
+      type,
+      occurred_at: occurredAt,
+      details
+    };
+    user.profile.life_events = (user.profile.life_events || []).concat(lifeEvent);
+    user.updated_at = new Date();
+    
+    await this.events.publish('user.life_event_recorded', { user_id: id, life_event: lifeEvent }, occurredAt);
+    return lifeEvent;
+  }
+  
   /**
    * Creates a new contact for a user
    * Requirement 10.2: Create Contact node with encrypted contactDetails
@@ -174,7 +236,7 @@ export class UserRepository {
       relationship_type: data.relationship_type,
       created_at: now,
       updated_at: now,
-      status: 'active'
+      status: data.status || 'active'
     };
     
     this.contacts.set(id, contact);
@@ -384,6 +446,59 @@ export class UserRepository {
     );
   }
   
+  /**
+   * Permanently deletes a user with their contacts, contact groups and consents
+   */
+  async deleteUser(id: string): Promise<boolean> {
+    const user = this.users.get(id);
+    if (!user) return false;
+    
+    user.contacts.forEach(contact => this.contacts.delete(contact.id));
+    user.consents.forEach(consent => this.consents.delete(consent.id));
+    
+    for (const group of Array.from(this.contactGroups.values())) {
+      if (group.owner_id === id) {
+        this.contactGroups.delete(group.id);
+      }
+    }
+    
+    this.users.delete(id);
+    return true;
+  }
+  
+  /**
+   * Permanently deletes a contact, its group memberships and consents that target it
+   */
+  async deleteContact(id: string): Promise<boolean> {
+    const contact = this.contacts.get(id);
+    if (!contact) return false;
+    
+    const now = new Date();
+    
+    for (const group of contact.groups) {
+      group.members = group.members.filter(member => member.id !== id);
+      group.updated_at = now;
+    }
+    
+    const owner = this.users.get(contact.owner_id);
+    if (owner) {
+      owner.contacts = owner.contacts.filter(c => c.id !== id);
+      owner.consents = owner.consents.filter(consent =>
+        !(consent.applies_to.type === 'contact' && consent.applies_to.target_id === id)
+      );
+      owner.updated_at = now;
+    }
+    
+    for (const consent of Array.from(this.consents.values())) {
+      if (consent.applies_to.type === 'contact' && consent.applies_to.target_id === id) {
+        this.consents.delete(consent.id);
+      }
+    }
+    
+    this.contacts.delete(id);
+    return true;
+  }
+  
   /**
    * Checks if a consent covers the required permissions
    */
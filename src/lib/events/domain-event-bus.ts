@@ -0,0 +1,89 @@
+/**
+ * In-process domain event bus
+ * Repositories and services publish typed events; subscribers such as the
+ * legacy event matcher react to them without the publishers knowing about them.
+ */
+
+import {
+  AnyDomainEvent,
+  DomainEvent,
+  DomainEventHandler,
+  DomainEventMap,
+  DomainEventType
+} from '../../types/domain-events';
+
+/**
+ * Typed publish/subscribe bus
+ * Handlers run one after another in subscription order. A failing handler is
+ * logged and does not stop the others or fail the publisher.
+ */
+export class DomainEventBus {
+  private handlers: Map<DomainEventType, DomainEventHandler<any>[]> = new Map();
+  private allHandlers: ((event: AnyDomainEvent) => void | Promise<void>)[] = [];
+  private sequence = 0;
+
+  /**
+   * Subscribe to one event type; returns a function that unsubscribes
+   */
+  subscribe<K extends DomainEventType>(type: K, handler: DomainEventHandler<K>): () => void {
+    const handlers = this.handlers.get(type) || [];
+    handlers.push(handler);
+    this.handlers.set(type, handlers);
+
+    return () => {
+      const current = this.handlers.get(type) || [];
+      this.handlers.set(type, current.filter(h => h !== handler));
+    };
+  }
+
+  /**
+   * Subscribe to every event type; returns a function that unsubscribes
+   */
+  subscribeAll(handler: (event: AnyDomainEvent) => void | Promise<void>): () => void {
+    this.allHandlers.push(handler);
+
+    return () => {
+      this.allHandlers = this.allHandlers.filter(h => h !== handler);
+    };
+  }
+
+  /**
+   * Publish an event and wait for its handlers
+   */
+  async publish<K extends DomainEventType>(
+    type: K,
+    payload: DomainEventMap[K],
+    occurredAt: Date = new Date()
+  ): Promise<DomainEvent<K>> {
+    const event: DomainEvent<K> = {
+      id: `evt_${Date.now().toString(36)}_${(++this.sequence).toString(36)}`,
+      type,
+      occurred_at: occurredAt,
+      payload
+    };
+    const handlers: ((event: any) => void | Promise<void>)[] = (this.handlers.get(type) || []).concat(this.allHandlers);
+
+    for (const handler of handlers) {
+      try {
+        await handler(event);
+      } catch (error) {
+        console.error(`Domain event handler failed for ${type}:`, error);
+      }
+    }
+
+    return event;
+  }
+
+  /**
+   * Remove every subscription
+   */
+  clear(): void {
+    this.handlers.clear();
+    this.allHandlers = [];
+  }
+}
+
+/**
+ * Global domain event bus instance
+ */
+export const domainEventBus = new DomainEventBus();
@@ -0,0 +1,6 @@
+/**
+ * Domain event module
+ * Internal publish/subscribe bus for repository and service events
+ */
+
+export * from './domain-event-bus';
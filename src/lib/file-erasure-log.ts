@@ -0,0 +1,89 @@
+/**
+ * File-backed erasure log (server-side only)
+ * Keeps right-to-be-forgotten records in a JSON snapshot next to, not inside,
+ * the backups, so erasures can be replayed after a restore or a restart.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ErasureLog, ErasureRecord } from './backup-recovery';
+
+const SNAPSHOT_VERSION = 1;
+
+/**
+ * Snapshot file layout
+ */
+interface ErasureLogSnapshot {
+  version: number;
+  erasures: ErasureRecord[];
+}
+
+/**
+ * Erasure log persisted as a JSON snapshot
+ * Writes go to a temporary file first so a crash never leaves a torn snapshot.
+ */
+export class FileErasureLog implements ErasureLog {
+  private filePath: string;
+  private erasures: ErasureRecord[] | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async load(): Promise<ErasureRecord[]> {
+    if (!this.erasures) {
+      this.erasures = await this.readSnapshot();
+    }
+    return [...this.erasures];
+  }
+
+  /**
+   * Record an erasure once it is on disk
+   * A failed write leaves the log as it was, so the erasure is not reported as
+   * persisted and can be appended again.
+   */
+  async append(erasure: ErasureRecord): Promise<void> {
+    await this.load();
+
+    const write = async () => {
+      const erasures = [...this.erasures!, erasure];
+      await this.writeSnapshot(erasures);
+      this.erasures = erasures;
+    };
+    this.writing = this.writing.then(write, write);
+    return this.writing;
+  }
+
+  private async readSnapshot(): Promise<ErasureRecord[]> {
+    let raw: string;
+
+    try {
+      raw = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const snapshot = JSON.parse(raw) as ErasureLogSnapshot;
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+      throw new Error(`Unsupported erasure log version: ${snapshot.version}`);
+    }
+
+    return snapshot.erasures.map(erasure => ({ ...erasure, erasedAt: new Date(erasure.erasedAt) }));
+  }
+
+  /**
+   * Write the full snapshot atomically
+   */
+  private async writeSnapshot(erasures: ErasureRecord[]): Promise<void> {
+    const snapshot: ErasureLogSnapshot = { version: SNAPSHOT_VERSION, erasures };
+    const tempPath = `${this.filePath}.tmp`;
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(snapshot), 'utf8');
+    await fs.rename(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,691 @@
+// Embedded property graph store for running Graph RAG without a Neo4j server
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  GraphQuery,
+  GraphResult,
+  GraphData,
+  GraphNode,
+  GraphRelationship,
+  GraphStore,
+  GraphExpansionOptions,
+  GraphNeighbour,
+  GraphPersistence,
+  GraphSnapshot,
+  PropertyFilter,
+  StructuredQuery,
+  Transaction,
+  TransactionResult,
+  ConflictError
+} from '../../types/memory';
+import { MemoryScope } from '../../types';
+
+/**
+ * Embedded graph store configuration
+ */
+export interface EmbeddedGraphStoreOptions {
+  /** Snapshot persistence (omit for a purely in-memory graph) */
+  persistence?: GraphPersistence;
+}
+
+/**
+ * Stored node
+ */
+interface StoredNode {
+  id: string;
+  labels: string[];
+  properties: Record<string, any>;
+}
+
+/**
+ * Stored relationship
+ */
+interface StoredRelationship {
+  id: string;
+  type: string;
+  fromNodeId: string;
+  toNodeId: string;
+  properties: Record<string, any>;
+}
+
+/**
+ * Uncommitted changes of one transaction (null marks a deletion)
+ */
+interface StagedTransaction {
+  nodes: Map<string, StoredNode | null>;
+  relationships: Map<string, StoredRelationship | null>;
+  /** Committed _version of each touched entity when first staged (null if it did not exist) */
+  baseVersions: Map<string, number | null>;
+}
+
+/**
+ * In-process property graph implementing the GraphStore contract
+ * Supports structured queries with scope filtering, staged transactions with
+ * rollback, and optimistic concurrency control on commit. Queries only see
+ * committed data.
+ */
+export class EmbeddedGraphStore implements GraphStore {
+  readonly name = 'embedded';
+  private nodes: Map<string, StoredNode> = new Map();
+  private relationships: Map<string, StoredRelationship> = new Map();
+  private activeTransactions: Map<string, StagedTransaction> = new Map();
+  private persistence?: GraphPersistence;
+  private loading: Promise<void> | null = null;
+
+  constructor(options: EmbeddedGraphStoreOptions = {}) {
+    this.persistence = options.persistence;
+  }
+
+  /**
+   * Query the graph
+   */
+  async query(query: GraphQuery, scope: MemoryScope): Promise<GraphResult[]> {
+    await this.ensureLoaded();
+
+    if (query.type === 'cypher') {
+      throw new Error('Graph query failed: raw Cypher is not supported by the embedded graph store, use a structured query');
+    }
+
+    const structured = query.query as StructuredQuery;
+    const matchedNodes = Array.from(this.nodes.values()).filter(node =>
+      this.matchesLabels(node, structured.nodeTypes) &&
+      structured.filters.every(filter => this.matchesFilter(node.properties, filter)) &&
+      this.isNodeInScope(node, scope)
+    );
+
+    const results: GraphResult[] = matchedNodes.map(node => this.toNodeResult(node, structured.returnFields));
+
+    // Include relationships of the requested types between matched nodes
+    if (structured.relationshipTypes.length > 0) {
+      const matchedIds = new Set(matchedNodes.map(node => node.id));
+
+      for (const relationship of Array.from(this.relationships.values())) {
+        if (
+          structured.relationshipTypes.includes(relationship.type) &&
+          matchedIds.has(relationship.fromNodeId) &&
+          matchedIds.has(relationship.toNodeId)
+        ) {
+          results.push(this.toRelationshipResult(relationship, structured.returnFields));
+        }
+      }
+    }
+
+    return query.limit ? results.slice(0, query.limit) : results;
+  }
+
+  /**
+   * Collect nodes within a number of hops of seed nodes (breadth-first, either direction)
+   */
+  async expand(seedIds: string[], options: GraphExpansionOptions, scope: MemoryScope): Promise<GraphNeighbour[]> {
+    await this.ensureLoaded();
+
+    const adjacency = new Map<string, string[]>();
+    for (const relationship of Array.from(this.relationships.values())) {
+      if (options.relationshipTypes && !options.relationshipTypes.includes(relationship.type)) {
+        continue;
+      }
+      adjacency.set(relationship.fromNodeId, (adjacency.get(relationship.fromNodeId) || []).concat(relationship.toNodeId));
+      adjacency.set(relationship.toNodeId, (adjacency.get(relationship.toNodeId) || []).concat(relationship.fromNodeId));
+    }
+
+    const reached = new Map<string, { seedId: string; hops: number }>();
+    let frontier = seedIds.filter(id => this.nodes.has(id));
+    frontier.forEach(id => reached.set(id, { seedId: id, hops: 0 }));
+
+    for (let hop = 1; hop <= options.hops && frontier.length > 0; hop++) {
+      const next: string[] = [];
+      for (const nodeId of frontier) {
+        for (const neighbourId of adjacency.get(nodeId) || []) {
+          if (!reached.has(neighbourId)) {
+            reached.set(neighbourId, { seedId: reached.get(nodeId)!.seedId, hops: hop });
+            next.push(neighbourId);
+          }
+        }
+      }
+      frontier = next;
+    }
+
+    // Out-of-scope nodes are still traversed, only hidden from the result
+    return Array.from(reached.entries())
+      .map(([nodeId, path]) => ({ node: this.nodes.get(nodeId)!, ...path }))
+      .filter(({ node }) => this.isNodeInScope(node, scope))
+      .map(({ node, seedId, hops }) => ({ node: this.toNodeResult(node, []), seedId, hops }));
+  }
+
+  /**
+   * Stage graph data in a transaction
+   * A failing call leaves the transaction as it was before the call.
+   */
+  async store(data: GraphData, transaction: Transaction): Promise<TransactionResult> {
+    const staged = this.getStagedTransaction(transaction);
+    const nodesBefore = new Map(staged.nodes);
+    const relationshipsBefore = new Map(staged.relationships);
+    const versionsBefore = new Map(staged.baseVersions);
+
+    try {
+      const entityIds: string[] = [];
+
+      for (const node of data.nodes) {
+        entityIds.push(this.stageNode(node, staged, data.operation));
+      }
+
+      for (const relationship of data.relationships) {
+        entityIds.push(this.stageRelationship(relationship, staged, data.operation));
+      }
+
+      return {
+        transactionId: transaction.id,
+        success: true,
+        entityIds
+      };
+    } catch (error) {
+      staged.nodes = nodesBefore;
+      staged.relationships = relationshipsBefore;
+      staged.baseVersions = versionsBefore;
+
+      return {
+        transactionId: transaction.id,
+        success: false,
+        entityIds: [],
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Begin a new transaction
+   */
+  async beginTransaction(transaction: Transaction): Promise<void> {
+    await this.ensureLoaded();
+
+    this.activeTransactions.set(transaction.id, {
+      nodes: new Map(),
+      relationships: new Map(),
+      baseVersions: new Map()
+    });
+  }
+
+  /**
+   * Commit a transaction, failing if another commit changed a touched entity
+   */
+  async commitTransaction(transaction: Transaction): Promise<void> {
+    const staged = this.getStagedTransaction(transaction);
+
+    try {
+      for (const [entityId, baseVersion] of Array.from(staged.baseVersions.entries())) {
+        const current = this.nodes.get(entityId) || this.relationships.get(entityId);
+        const currentVersion = current ? current.properties._version || 0 : null;
+
+        if (currentVersion !== baseVersion) {
+          throw new ConflictError(
+            'Optimistic concurrency control conflict',
+            entityId,
+            baseVersion || 0,
+            currentVersion || 0
+          );
+        }
+      }
+
+      const nodes = new Map(this.nodes);
+      const relationships = new Map(this.relationships);
+
+      for (const [id, node] of Array.from(staged.nodes.entries())) {
+        if (node) nodes.set(id, node);
+        else nodes.delete(id);
+      }
+
+      for (const [id, relationship] of Array.from(staged.relationships.entries())) {
+        if (relationship) relationships.set(id, relationship);
+        else relationships.delete(id);
+      }
+
+      if (this.persistence) {
+        await this.persistence.save(this.createSnapshot(nodes, relationships));
+      }
+
+      this.nodes = nodes;
+      this.relationships = relationships;
+    } finally {
+      this.activeTransactions.delete(transaction.id);
+    }
+  }
+
+  /**
+   * Rollback a transaction by discarding its staged changes
+   */
+  async rollbackTransaction(transaction: Transaction): Promise<void> {
+    this.getStagedTransaction(transaction);
+    this.activeTransactions.delete(transaction.id);
+  }
+
+  /**
+   * Update an entity during STM consolidation
+   */
+  async updateEntity(graphResult: GraphResult, transaction: Transaction): Promise<void> {
+    const staged = this.getStagedTransaction(transaction);
+    const entityId = graphResult.metadata.id;
+    const expectedVersion = graphResult.metadata.properties._version || 0;
+
+    if (graphResult.type === 'node') {
+      const current = this.viewNode(entityId, staged);
+      if (!current) {
+        throw new Error(`Node ${entityId} not found`);
+      }
+
+      this.checkVersion(entityId, expectedVersion, current.properties);
+      this.stageNodeChange(staged, entityId, {
+        ...current,
+        properties: this.nextVersion({ ...current.properties, ...graphResult.data })
+      });
+    } else if (graphResult.type === 'relationship') {
+      const current = this.viewRelationship(entityId, staged);
+      if (!current) {
+        throw new Error(`Relationship ${entityId} not found`);
+      }
+
+      this.checkVersion(entityId, expectedVersion, current.properties);
+      this.stageRelationshipChange(staged, entityId, {
+        ...current,
+        properties: this.nextVersion({ ...current.properties, ...graphResult.data })
+      });
+    }
+  }
+
+  /**
+   * Verify the store is usable (loads persisted data on first use)
+   */
+  async verifyConnection(): Promise<void> {
+    await this.ensureLoaded();
+  }
+
+  /**
+   * Discard open transactions
+   */
+  async close(): Promise<void> {
+    this.activeTransactions.clear();
+  }
+
+  /**
+   * Get committed node count (for monitoring)
+   */
+  getNodeCount(): number {
+    return this.nodes.size;
+  }
+
+  /**
+   * Get committed relationship count (for monitoring)
+   */
+  getRelationshipCount(): number {
+    return this.relationships.size;
+  }
+
+  /**
+   * Stage a node operation
+   */
+  private stageNode(node: GraphNode, staged: StagedTransaction, operation: GraphData['operation']): string {
+    const nodeId = node.id || uuidv4();
+    const existing = this.viewNode(nodeId, staged);
+
+    switch (operation) {
+      case 'create':
+        if (existing) {
+          throw new Error(`Node ${nodeId} already exists`);
+        }
+        this.stageNodeChange(staged, nodeId, {
+          id: nodeId,
+          labels: [...node.labels],
+          properties: this.newEntityProperties(nodeId, node.properties)
+        });
+        break;
+      case 'update':
+        if (!existing) {
+          throw new Error(`Node ${nodeId} not found`);
+        }
+        this.stageNodeChange(staged, nodeId, {
+          ...existing,
+          properties: this.nextVersion({ ...existing.properties, ...node.properties })
+        });
+        break;
+      case 'merge':
+        this.stageNodeChange(staged, nodeId, existing
+          ? {
+              ...existing,
+              labels: Array.from(new Set([...existing.labels, ...node.labels])),
+              properties: this.nextVersion({ ...existing.properties, ...node.properties })
+            }
+          : {
+              id: nodeId,
+              labels: [...node.labels],
+              properties: this.newEntityProperties(nodeId, node.properties)
+            });
+        break;
+      case 'delete':
+        if (!existing) {
+          throw new Error(`Node ${nodeId} not found`);
+        }
+        // Detach: relationships cannot outlive their endpoints
+        for (const relationship of this.viewRelationships(staged)) {
+          if (relationship.fromNodeId === nodeId || relationship.toNodeId === nodeId) {
+            this.stageRelationshipChange(staged, relationship.id, null);
+          }
+        }
+        this.stageNodeChange(staged, nodeId, null);
+        break;
+      default:
+        throw new Error(`Unsupported operation: ${operation}`);
+    }
+
+    return nodeId;
+  }
+
+  /**
+   * Stage a relationship operation
+   */
+  private stageRelationship(
+    relationship: GraphRelationship,
+    staged: StagedTransaction,
+    operation: GraphData['operation']
+  ): string {
+    const relId = relationship.id || uuidv4();
+    const existing = this.viewRelationship(relId, staged);
+
+    if (operation === 'delete') {
+      if (!existing) {
+        throw new Error(`Relationship ${relId} not found`);
+      }
+      this.stageRelationshipChange(staged, relId, null);
+      return relId;
+    }
+
+    if (operation === 'update' && !existing) {
+      throw new Error(`Relationship ${relId} not found`);
+    }
+
+    if (existing && operation !== 'create') {
+      this.stageRelationshipChange(staged, relId, {
+        ...existing,
+        properties: this.nextVersion({ ...existing.properties, ...relationship.properties })
+      });
+      return relId;
+    }
+
+    if (existing) {
+      throw new Error(`Relationship ${relId} already exists`);
+    }
+
+    if (!this.viewNode(relationship.fromNodeId, staged) || !this.viewNode(relationship.toNodeId, staged)) {
+      throw new Error(
+        `Cannot create ${relationship.type} relationship: node ${relationship.fromNodeId} or ${relationship.toNodeId} not found`
+      );
+    }
+
+    this.stageRelationshipChange(staged, relId, {
+      id: relId,
+      type: relationship.type,
+      fromNodeId: relationship.fromNodeId,
+      toNodeId: relationship.toNodeId,
+      properties: this.newEntityProperties(relId, relationship.properties)
+    });
+
+    return relId;
+  }
+
+  /**
+   * Record a staged node change, remembering the committed version on first touch
+   */
+  private stageNodeChange(staged: StagedTransaction, nodeId: string, node: StoredNode | null): void {
+    if (!staged.baseVersions.has(nodeId)) {
+      const committed = this.nodes.get(nodeId);
+      staged.baseVersions.set(nodeId, committed ? committed.properties._version || 0 : null);
+    }
+    staged.nodes.set(nodeId, node);
+  }
+
+  /**
+   * Record a staged relationship change, remembering the committed version on first touch
+   */
+  private stageRelationshipChange(staged: StagedTransaction, relId: string, relationship: StoredRelationship | null): void {
+    if (!staged.baseVersions.has(relId)) {
+      const committed = this.relationships.get(relId);
+      staged.baseVersions.set(relId, committed ? committed.properties._version || 0 : null);
+    }
+    staged.relationships.set(relId, relationship);
+  }
+
+  /**
+   * Node as seen from inside a transaction
+   */
+  private viewNode(nodeId: string, staged: StagedTransaction): StoredNode | null {
+    if (staged.nodes.has(nodeId)) {
+      return staged.nodes.get(nodeId) || null;
+    }
+    return this.nodes.get(nodeId) || null;
+  }
+
+  /**
+   * Relationship as seen from inside a transaction
+   */
+  private viewRelationship(relId: string, staged: StagedTransaction): StoredRelationship | null {
+    if (staged.relationships.has(relId)) {
+      return staged.relationships.get(relId) || null;
+    }
+    return this.relationships.get(relId) || null;
+  }
+
+  /**
+   * All relationships as seen from inside a transaction
+   */
+  private viewRelationships(staged: StagedTransaction): StoredRelationship[] {
+    const ids = new Set([
+      ...Array.from(this.relationships.keys()),
+      ...Array.from(staged.relationships.keys())
+    ]);
+
+    return Array.from(ids)
+      .map(id => this.viewRelationship(id, staged))
+      .filter(Boolean) as StoredRelationship[];
+  }
+
+  /**
+   * Throw a ConflictError when the caller read a stale version
+   */
+  private checkVersion(entityId: string, expectedVersion: number, properties: Record<string, any>): void {
+    const actualVersion = properties._version || 0;
+    if (actualVersion !== expectedVersion) {
+      throw new ConflictError('Optimistic concurrency control conflict', entityId, expectedVersion, actualVersion);
+    }
+  }
+
+  /**
+   * Properties for a newly created entity
+   */
+  private newEntityProperties(id: string, properties: Record<string, any>): Record<string, any> {
+    const now = new Date().toISOString();
+    return {
+      ...properties,
+      _id: id,
+      _version: 1,
+      _created: now,
+      _updated: now
+    };
+  }
+
+  /**
+   * Bump the version and update timestamp of changed properties
+   */
+  private nextVersion(properties: Record<string, any>): Record<string, any> {
+    return {
+      ...properties,
+      _version: (properties._version || 0) + 1,
+      _updated: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Whether a node carries one of the requested labels
+   */
+  private matchesLabels(node: StoredNode, nodeTypes: string[]): boolean {
+    return nodeTypes.length === 0 || node.labels.some(label => nodeTypes.includes(label));
+  }
+
+  /**
+   * Evaluate a property filter with Cypher semantics (case-sensitive, null never matches)
+   */
+  private matchesFilter(properties: Record<string, any>, filter: PropertyFilter): boolean {
+    const value = properties[filter.property];
+    if (value === undefined || value === null) {
+      return false;
+    }
+
+    switch (filter.operator) {
+      case 'equals':
+        return this.comparable(value) === this.comparable(filter.value);
+      case 'contains':
+        return Array.isArray(value)
+          ? value.includes(filter.value)
+          : String(value).includes(String(filter.value));
+      case 'startsWith':
+        return String(value).startsWith(String(filter.value));
+      case 'endsWith':
+        return String(value).endsWith(String(filter.value));
+      case 'greaterThan':
+        return this.comparable(value) > this.comparable(filter.value);
+      case 'lessThan':
+        return this.comparable(value) < this.comparable(filter.value);
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Normalize dates so they compare by time
+   */
+  private comparable(value: any): any {
+    return value instanceof Date ? value.getTime() : value;
+  }
+
+  /**
+   * Scope filtering matching GraphRAG.buildScopeClause: any listed id grants access
+   */
+  private isNodeInScope(node: StoredNode, scope: MemoryScope): boolean {
+    const hasScopeFilter =
+      scope.user_ids.length > 0 || scope.project_ids.length > 0 || scope.contact_ids.length > 0;
+
+    if (!hasScopeFilter) {
+      return true;
+    }
+
+    return (
+      scope.user_ids.includes(node.properties.userId) ||
+      scope.project_ids.includes(node.properties.projectId) ||
+      scope.contact_ids.includes(node.properties.contactId)
+    );
+  }
+
+  /**
+   * Convert a node to a GraphResult
+   */
+  private toNodeResult(node: StoredNode, returnFields: string[]): GraphResult {
+    return {
+      type: 'node',
+      data: this.project(node.properties, returnFields),
+      metadata: {
+        id: node.id,
+        labels: [...node.labels],
+        properties: { ...node.properties }
+      }
+    };
+  }
+
+  /**
+   * Convert a relationship to a GraphResult
+   */
+  private toRelationshipResult(relationship: StoredRelationship, returnFields: string[]): GraphResult {
+    return {
+      type: 'relationship',
+      data: this.project(relationship.properties, returnFields),
+      metadata: {
+        id: relationship.id,
+        type: relationship.type,
+        properties: {
+          ...relationship.properties,
+          _from: relationship.fromNodeId,
+          _to: relationship.toNodeId
+        }
+      }
+    };
+  }
+
+  /**
+   * Pick requested return fields; variable names such as "n0" or "*" return everything
+   */
+  private project(properties: Record<string, any>, returnFields: string[]): Record<string, any> {
+    const fields = returnFields.map(field => field.replace(/^[a-z]+\d*\./, ''));
+    const returnsWholeEntity = fields.length === 0 || fields.some(field => field === '*' || /^[nr]\d*$/.test(field));
+
+    if (returnsWholeEntity) {
+      return { ...properties };
+    }
+
+    const projected: Record<string, any> = {};
+    for (const field of fields) {
+      if (field in properties) {
+        projected[field] = properties[field];
+      }
+    }
+    return projected;
+  }
+
+  /**
+   * Get the staged state of an active transaction
+   */
+  private getStagedTransaction(transaction: Transaction): StagedTransaction {
+    const staged = this.activeTransactions.get(transaction.id);
+    if (!staged) {
+      throw new Error(`Transaction ${transaction.id} not found`);
+    }
+    return staged;
+  }
+
+  /**
+   * Load the persisted snapshot once
+   */
+  private ensureLoaded(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.loadSnapshot().catch(error => {
+        this.loading = null;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  /**
+   * Replace in-memory state with the persisted snapshot
+   */
+  private async loadSnapshot(): Promise<void> {
+    if (!this.persistence) return;
+
+    const snapshot = await this.persistence.load();
+    if (!snapshot) return;
+
+    this.nodes = new Map(snapshot.nodes.map(node => [node.id, node] as [string, StoredNode]));
+    this.relationships = new Map(
+      snapshot.relationships.map(relationship => [relationship.id, relationship] as [string, StoredRelationship])
+    );
+  }
+
+  /**
+   * Serialize a graph state
+   */
+  private createSnapshot(
+    nodes: Map<string, StoredNode>,
+    relationships: Map<string, StoredRelationship>
+  ): GraphSnapshot {
+    return {
+      version: 1,
+      nodes: Array.from(nodes.values()),
+      relationships: Array.from(relationships.values())
+    };
+  }
+}
@@ -0,0 +1,388 @@
+// Embedding providers for the Semantic RAG
+
+import { EmbeddingProvider, EmbeddingDimensionError } from '../../types/memory';
+
+/**
+ * Configuration for the hashed n-gram embedding provider
+ */
+export interface HashedNgramEmbeddingConfig {
+  /** Output vector dimension */
+  dimension: number;
+
+  /** Character n-gram size used for sub-word features */
+  charNgramSize: number;
+
+  /** Weight of word unigram features */
+  wordWeight: number;
+
+  /** Weight of word bigram features */
+  bigramWeight: number;
+
+  /** Weight of character n-gram features */
+  charNgramWeight: number;
+
+  /** Language assumed when a text has no language cues */
+  defaultLanguage: 'sv' | 'en';
+}
+
+/**
+ * Default hashed n-gram configuration
+ */
+const DEFAULT_HASHED_CONFIG: HashedNgramEmbeddingConfig = {
+  dimension: 1536,
+  charNgramSize: 3,
+  wordWeight: 1.0,
+  bigramWeight: 0.5,
+  charNgramWeight: 0.3,
+  defaultLanguage: 'sv'
+};
+
+/**
+ * Common Swedish function words that carry no topical meaning
+ */
+export const SWEDISH_STOPWORDS = new Set([
+  'och', 'i', 'att', 'det', 'som', 'en', 'på', 'är', 'av', 'för', 'med', 'till',
+  'den', 'har', 'de', 'inte', 'om', 'ett', 'han', 'hon', 'men', 'var', 'jag',
+  'vi', 'du', 'så', 'från', 'vid', 'kan', 'när', 'ska', 'sig', 'min', 'mitt',
+  'mina', 'din', 'ditt', 'dina', 'vår', 'vårt', 'våra', 'hans', 'hennes',
+  'deras', 'där', 'här', 'eller', 'också', 'bara', 'mycket', 'nu', 'då', 'man',
+  'oss', 'mig', 'dig', 'dem', 'honom', 'henne', 'vad', 'vem', 'hur', 'vilken',
+  'blev', 'bli', 'var', 'varit', 'hade', 'skulle', 'ju', 'än', 'alla', 'allt'
+]);
+
+/**
+ * Common English function words that carry no topical meaning
+ */
+export const ENGLISH_STOPWORDS = new Set([
+  'the', 'a', 'an', 'and', 'or', 'but', 'of', 'to', 'in', 'on', 'at', 'for',
+  'with', 'by', 'from', 'is', 'are', 'was', 'were', 'be', 'been', 'being', 'it',
+  'this', 'that', 'these', 'those', 'i', 'you', 'he', 'she', 'we', 'they', 'me',
+  'him', 'her', 'us', 'them', 'my', 'your', 'his', 'our', 'their', 'its', 'as',
+  'so', 'not', 'no', 'do', 'does', 'did', 'have', 'has', 'had', 'will', 'would',
+  'can', 'could', 'should', 'about', 'what', 'when', 'where', 'who', 'how',
+  'there', 'here', 'just', 'very', 'also', 'all', 'then', 'than'
+]);
+
+const SWEDISH_VOWELS = 'aeiouyäåö';
+
+/**
+ * Swedish Snowball step 1 suffixes, longest first
+ * Adds -an so definite forms such as "stugan" meet "stuga" and "stugor".
+ */
+const SWEDISH_STEP1_SUFFIXES = [
+  'heterna', 'hetens', 'anden', 'heten', 'heter', 'arnas', 'ernas', 'ornas', 'andes',
+  'arens', 'andet', 'arna', 'erna', 'orna', 'ande', 'arne', 'aste', 'aren', 'ades',
+  'erns', 'ade', 'are', 'ern', 'ens', 'het', 'ast', 'ad', 'an', 'en', 'ar', 'er', 'or',
+  'as', 'es', 'at', 'a', 'e', 's'
+];
+
+/** Letters after which a final Swedish -s is an inflection */
+const SWEDISH_S_ENDINGS = 'bcdfghjklmnoprtvy';
+
+const SWEDISH_STEP2_SUFFIXES = ['dd', 'gd', 'nn', 'dt', 'gt', 'kt', 'tt'];
+
+/**
+ * English inflectional suffixes, longest first
+ */
+const ENGLISH_SUFFIXES = [
+  'ational', 'ations', 'ation', 'ness', 'ment', 'ings', 'ing', 'ies', 'ied',
+  'ed', 'es', 'ly', 's'
+];
+
+/**
+ * Minimum stem length kept after suffix stripping
+ */
+const MIN_STEM_LENGTH = 3;
+
+/**
+ * Swedish Snowball stemmer
+ * Strips inflections so "gården", "gårdar" and "gårdarna" all become "gård".
+ * Expects a lowercase word.
+ */
+export function stemSwedish(word: string): string {
+  const r1 = getRegion1(word);
+  const inR1 = (suffix: string) => word.length - suffix.length >= r1 && word.endsWith(suffix);
+
+  // Step 1: inflectional endings
+  const ending = SWEDISH_STEP1_SUFFIXES.filter(inR1)[0];
+  if (ending === 's') {
+    if (SWEDISH_S_ENDINGS.indexOf(word.charAt(word.length - 2)) !== -1) {
+      word = word.slice(0, -1);
+    }
+  } else if (ending) {
+    word = word.slice(0, -ending.length);
+  }
+
+  // Step 2: undouble consonant endings
+  if (SWEDISH_STEP2_SUFFIXES.some(inR1)) {
+    word = word.slice(0, -1);
+  }
+
+  // Step 3: derivational endings
+  if (inR1('fullt')) {
+    return word.slice(0, -1);
+  }
+  if (inR1('löst')) {
+    return word.slice(0, -1);
+  }
+  const derivation = ['lig', 'els', 'ig'].filter(inR1)[0];
+  return derivation ? word.slice(0, -derivation.length) : word;
+}
+
+/**
+ * Start of the Snowball R1 region, at least 3
+ */
+function getRegion1(word: string): number {
+  for (let i = 1; i < word.length; i++) {
+    if (SWEDISH_VOWELS.indexOf(word.charAt(i)) === -1 && SWEDISH_VOWELS.indexOf(word.charAt(i - 1)) !== -1) {
+      return Math.max(3, i + 1);
+    }
+  }
+  return word.length;
+}
+
+/**
+ * Deterministic, offline embedding provider
+ * Builds feature-hashed vectors from stemmed word unigrams, word bigrams and
+ * character n-grams, with sublinear term frequency and L2 normalization.
+ * Character n-grams let Swedish compounds ("sommarstugan") share features with
+ * their parts ("sommar", "stuga").
+ */
+export class HashedNgramEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'hashed-ngram';
+  readonly dimension: number;
+  private config: HashedNgramEmbeddingConfig;
+
+  constructor(config: Partial<HashedNgramEmbeddingConfig> = {}) {
+    this.config = { ...DEFAULT_HASHED_CONFIG, ...config };
+
+    if (!Number.isInteger(this.config.dimension) || this.config.dimension <= 0) {
+      throw new Error(`Invalid embedding dimension: ${this.config.dimension}`);
+    }
+
+    this.dimension = this.config.dimension;
+  }
+
+  /**
+   * Generate an embedding for a single text
+   */
+  async embed(text: string): Promise<number[]> {
+    return this.vectorize(text);
+  }
+
+  /**
+   * Generate embeddings for several texts
+   */
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.vectorize(text));
+  }
+
+  /**
+   * Split text into normalized, stemmed content tokens
+   */
+  tokenize(text: string): string[] {
+    const words = text
+      .toLowerCase()
+      .split(/[^a-z0-9åäöéèüæøß]+/)
+      .filter(word => word.length > 0);
+
+    const language = this.detectLanguage(words);
+
+    return words
+      .filter(word => !SWEDISH_STOPWORDS.has(word) && !ENGLISH_STOPWORDS.has(word))
+      .map(word => this.stem(word, language));
+  }
+
+  /**
+   * Build the hashed feature vector for a text
+   */
+  private vectorize(text: string): number[] {
+    const vector = new Array(this.dimension).fill(0);
+    const tokens = this.tokenize(text);
+
+    if (tokens.length === 0) {
+      return vector;
+    }
+
+    const features = new Map<string, { count: number; weight: number }>();
+    const addFeature = (feature: string, weight: number) => {
+      const existing = features.get(feature);
+      features.set(feature, { count: (existing ? existing.count : 0) + 1, weight });
+    };
+
+    for (let i = 0; i < tokens.length; i++) {
+      addFeature(`w:${tokens[i]}`, this.config.wordWeight);
+
+      if (i > 0) {
+        addFeature(`b:${tokens[i - 1]}_${tokens[i]}`, this.config.bigramWeight);
+      }
+
+      for (const ngram of this.charNgrams(tokens[i])) {
+        addFeature(`c:${ngram}`, this.config.charNgramWeight);
+      }
+    }
+
+    // Sublinear term frequency dampens repeated words; the weight scales each feature kind
+    for (const [feature, { count, weight }] of Array.from(features.entries())) {
+      const hash = this.hash(feature);
+      const index = hash % this.dimension;
+      const sign = (hash >>> 31) === 0 ? 1 : -1;
+      vector[index] += sign * weight * (1 + Math.log(count));
+    }
+
+    return this.normalize(vector);
+  }
+
+  /**
+   * Character n-grams with word boundary markers
+   */
+  private charNgrams(token: string): string[] {
+    const padded = `^${token}$`;
+    const size = this.config.charNgramSize;
+    const ngrams: string[] = [];
+
+    if (padded.length <= size) {
+      return [padded];
+    }
+
+    for (let i = 0; i <= padded.length - size; i++) {
+      ngrams.push(padded.substring(i, i + size));
+    }
+
+    return ngrams;
+  }
+
+  /**
+   * Guess whether a text is Swedish or English from stopword and letter hits
+   */
+  private detectLanguage(words: string[]): 'sv' | 'en' {
+    let swedish = 0;
+    let english = 0;
+
+    for (const word of words) {
+      if (SWEDISH_STOPWORDS.has(word) || /[åäö]/.test(word)) swedish++;
+      if (ENGLISH_STOPWORDS.has(word)) english++;
+    }
+
+    if (swedish === english) return this.config.defaultLanguage;
+    return swedish > english ? 'sv' : 'en';
+  }
+
+  /**
+   * Snowball stemmer for Swedish, light suffix stripping for English
+   */
+  private stem(word: string, language: 'sv' | 'en'): string {
+    if (/^[0-9]+$/.test(word)) {
+      return word;
+    }
+
+    if (language === 'sv') {
+      return stemSwedish(word);
+    }
+
+    for (const suffix of ENGLISH_SUFFIXES) {
+      if (word.length - suffix.length >= MIN_STEM_LENGTH && word.endsWith(suffix)) {
+        return word.substring(0, word.length - suffix.length);
+      }
+    }
+
+    return word;
+  }
+
+  /**
+   * FNV-1a 32-bit hash
+   */
+  private hash(str: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < str.length; i++) {
+      hash ^= str.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+
+  /**
+   * Scale a vector to unit length
+   */
+  private normalize(vector: number[]): number[] {
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    if (norm === 0) return vector;
+    return vector.map(value => value / norm);
+  }
+}
+
+/**
+ * Transport used by the remote provider to reach an embedding model
+ */
+export type RemoteEmbeddingTransport = (texts: string[], model: string) => Promise<number[][]>;
+
+/**
+ * Configuration for a remote embedding model
+ */
+export interface RemoteEmbeddingConfig {
+  /** Model identifier passed to the transport */
+  model: string;
+
+  /** Expected vector dimension returned by the model */
+  dimension: number;
+
+  /** Maximum texts sent per transport call */
+  maxBatchSize?: number;
+}
+
+/**
+ * Adapter for remote embedding models (OpenAI, self-hosted, etc.)
+ * The transport owns the network call; this class validates what comes back.
+ */
+export class RemoteEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  readonly dimension: number;
+  private transport: RemoteEmbeddingTransport;
+  private model: string;
+  private maxBatchSize: number;
+
+  constructor(config: RemoteEmbeddingConfig, transport: RemoteEmbeddingTransport) {
+    this.name = `remote:${config.model}`;
+    this.model = config.model;
+    this.dimension = config.dimension;
+    this.maxBatchSize = config.maxBatchSize || 64;
+    this.transport = transport;
+  }
+
+  /**
+   * Generate an embedding for a single text
+   */
+  async embed(text: string): Promise<number[]> {
+    const [embedding] = await this.embedBatch([text]);
+    return embedding;
+  }
+
+  /**
+   * Generate embeddings for several texts, batching transport calls
+   */
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    const embeddings: number[][] = [];
+
+    for (let i = 0; i < texts.length; i += this.maxBatchSize) {
+      const batch = texts.slice(i, i + this.maxBatchSize);
+      const result = await this.transport(batch, this.model);
+
+      if (result.length !== batch.length) {
+        throw new Error(`Embedding transport returned ${result.length} vectors for ${batch.length} texts`);
+      }
+
+      for (const embedding of result) {
+        if (embedding.length !== this.dimension) {
+          throw new EmbeddingDimensionError(
+            `Model ${this.model} returned ${embedding.length}-dimensional embedding, expected ${this.dimension}`,
+            this.dimension,
+            embedding.length
+          );
+        }
+        embeddings.push(embedding);
+      }
+    }
+
+    return embeddings;
+  }
+}
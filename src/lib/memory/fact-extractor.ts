@@ -0,0 +1,146 @@
+// Fact extractors used by the memory consolidation pipeline
+
+import {
+  ConsolidationSource,
+  ExtractedEntity,
+  ExtractedFacts,
+  FactExtractor
+} from '../../types/memory';
+
+/**
+ * Kinship and family terms that name a person even without capitalization
+ */
+const PERSON_TERMS = new Set([
+  'mormor', 'morfar', 'farmor', 'farfar', 'mamma', 'pappa', 'syster', 'bror', 'moster', 'faster',
+  'morbror', 'farbror', 'kusin', 'grandma', 'grandpa', 'grandmother', 'grandfather', 'mother',
+  'father', 'mom', 'dad', 'sister', 'brother', 'aunt', 'uncle', 'cousin'
+]);
+
+/**
+ * Prepositions after which a capitalized name is read as a place
+ */
+const PLACE_PREPOSITIONS = new Set(['på', 'i', 'till', 'från', 'vid', 'utanför', 'in', 'at', 'to', 'from', 'near']);
+
+/**
+ * Capitalized words that are never names
+ */
+const NON_NAMES = new Set([
+  'jag', 'vi', 'du', 'han', 'hon', 'de', 'det', 'den', 'och', 'men', 'när', 'sedan',
+  'i', 'we', 'you', 'he', 'she', 'they', 'it', 'the', 'and', 'but', 'when', 'then',
+  'january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september',
+  'october', 'november', 'december', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday',
+  'saturday', 'sunday'
+]);
+
+/**
+ * Emotion words (Swedish and English) mapped to a canonical emotion
+ */
+const EMOTION_WORDS: Record<string, string> = {
+  glad: 'joy', glada: 'joy', lycklig: 'joy', lyckliga: 'joy', glädje: 'joy', happy: 'joy', joy: 'joy',
+  ledsen: 'sadness', ledsna: 'sadness', sorg: 'sadness', sorgsen: 'sadness', sad: 'sadness', grief: 'sadness',
+  rädd: 'fear', rädda: 'fear', orolig: 'fear', oro: 'fear', afraid: 'fear', scared: 'fear', worried: 'fear',
+  arg: 'anger', arga: 'anger', ilska: 'anger', angry: 'anger', anger: 'anger',
+  kärlek: 'love', älskade: 'love', älskar: 'love', love: 'love', loved: 'love',
+  tacksam: 'gratitude', tacksamma: 'gratitude', tacksamhet: 'gratitude', grateful: 'gratitude', thankful: 'gratitude',
+  saknad: 'longing', saknar: 'longing', längtan: 'longing', miss: 'longing', missed: 'longing'
+};
+
+const WORD_PATTERN = /[A-Za-zÀ-ÖØ-öø-ÿ]+/g;
+
+/**
+ * Offline rule-based extractor
+ * Each source becomes one Event; capitalized names become people, or places when
+ * they follow a place preposition; kinship terms are people and an emotion lexicon
+ * yields emotions. Precision is modest by design: it keeps consolidation working
+ * without a language model, and a model-backed FactExtractor can replace it.
+ */
+export class HeuristicFactExtractor implements FactExtractor {
+  readonly name = 'heuristic';
+
+  async extract(source: ConsolidationSource): Promise<ExtractedFacts> {
+    const entities: ExtractedEntity[] = [{
+      kind: 'event',
+      name: this.summarize(source.text),
+      properties: {
+        content: source.text,
+        timestamp: source.timestamp.toISOString()
+      }
+    }];
+    const seen = new Set<string>();
+
+    const add = (kind: ExtractedEntity['kind'], name: string) => {
+      const key = `${kind}:${name.toLowerCase()}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        entities.push({ kind, name });
+      }
+    };
+
+    for (const sentence of source.text.split(/[.!?\n]+/)) {
+      const words = sentence.match(WORD_PATTERN) || [];
+      let index = 0;
+
+      while (index < words.length) {
+        const word = words[index];
+        const lower = word.toLowerCase();
+
+        if (EMOTION_WORDS[lower]) {
+          add('emotion', EMOTION_WORDS[lower]);
+        }
+
+        if (PERSON_TERMS.has(lower)) {
+          add('person', this.capitalize(lower));
+          index++;
+          continue;
+        }
+
+        // Sentence-initial words are capitalized anyway, so they only count as part of a longer name
+        if (this.isName(word) && (index > 0 || this.isName(words[index + 1] || ''))) {
+          const start = index;
+          while (index < words.length && this.isName(words[index])) {
+            index++;
+          }
+          const name = words.slice(start, index).join(' ');
+          const previous = start > 0 ? words[start - 1].toLowerCase() : '';
+          add(PLACE_PREPOSITIONS.has(previous) ? 'place' : 'person', name);
+          continue;
+        }
+
+        index++;
+      }
+    }
+
+    (source.places || []).forEach(place => add('place', place));
+    (source.emotions || []).forEach(emotion => add('emotion', emotion.toLowerCase()));
+
+    return {
+      entities,
+      relationships: entities.slice(1).map((entity, offset) => entity.kind === 'person'
+        ? { from: offset + 1, to: 0, type: 'PARTICIPATED_IN' as const }
+        : { from: 0, to: offset + 1, type: 'RELATES_TO' as const })
+    };
+  }
+
+  /**
+   * Whether a word looks like part of a proper name
+   */
+  private isName(word: string): boolean {
+    const first = word.charAt(0);
+    return first !== '' && first !== first.toLowerCase() && !NON_NAMES.has(word.toLowerCase());
+  }
+
+  /**
+   * First sentence of the text, shortened for use as an event name
+   */
+  private summarize(text: string): string {
+    const firstSentence = text.split(/[.!?\n]/)[0].trim() || text.trim();
+    return firstSentence.length > 60 ? `${firstSentence.slice(0, 57)}...` : firstSentence;
+  }
+
+  /**
+   * Capitalize a kinship term for display
+   */
+  private capitalize(word: string): string {
+    return word.charAt(0).toUpperCase() + word.slice(1);
+  }
+}
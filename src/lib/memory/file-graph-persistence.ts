@@ -0,0 +1,47 @@
+// File-backed snapshot persistence for the embedded graph store (server-side only)
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { GraphPersistence, GraphSnapshot } from '../../types/memory';
+
+/**
+ * Persists graph snapshots as a single JSON file
+ * Writes go to a temporary file first so a crash never leaves a torn snapshot.
+ * Date-valued properties come back as ISO strings.
+ */
+export class FileGraphPersistence implements GraphPersistence {
+  readonly name = 'file';
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async load(): Promise<GraphSnapshot | null> {
+    let raw: string;
+
+    try {
+      raw = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    const snapshot = JSON.parse(raw) as GraphSnapshot;
+    if (snapshot.version !== 1) {
+      throw new Error(`Unsupported graph snapshot version: ${snapshot.version}`);
+    }
+
+    return snapshot;
+  }
+
+  async save(snapshot: GraphSnapshot): Promise<void> {
+    const tempPath = `${this.filePath}.tmp`;
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(snapshot), 'utf8');
+    await fs.rename(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,124 @@
+// File-backed storage adapter for the Semantic RAG (server-side only)
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { SemanticEntry, SemanticStorageAdapter } from '../../types/memory';
+
+/**
+ * Record in the append-only semantic log
+ */
+type SemanticLogRecord =
+  | { op: 'put'; entry: SemanticEntry }
+  | { op: 'delete'; id: string }
+  | { op: 'clear' };
+
+/**
+ * File-backed storage adapter
+ * Writes an append-only JSON Lines log and compacts it on load once stale
+ * records outnumber live entries.
+ */
+export class FileSemanticStorage implements SemanticStorageAdapter {
+  readonly name = 'file';
+  private filePath: string;
+  private compactionRatio: number;
+
+  constructor(filePath: string, compactionRatio: number = 2) {
+    this.filePath = filePath;
+    this.compactionRatio = compactionRatio;
+  }
+
+  /**
+   * Replay the log into the current set of entries
+   */
+  async loadAll(): Promise<SemanticEntry[]> {
+    let raw: string;
+
+    try {
+      raw = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const entries = new Map<string, SemanticEntry>();
+    const lines = raw.split('\n').filter(line => line.trim().length > 0);
+
+    for (const line of lines) {
+      let record: SemanticLogRecord;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        // A torn final write is skipped rather than failing the whole load
+        continue;
+      }
+
+      switch (record.op) {
+        case 'put':
+          entries.set(record.entry.id, this.reviveEntry(record.entry));
+          break;
+        case 'delete':
+          entries.delete(record.id);
+          break;
+        case 'clear':
+          entries.clear();
+          break;
+      }
+    }
+
+    const liveEntries = Array.from(entries.values());
+
+    if (lines.length > Math.max(1, liveEntries.length) * this.compactionRatio) {
+      await this.compact(liveEntries);
+    }
+
+    return liveEntries;
+  }
+
+  async save(entry: SemanticEntry): Promise<void> {
+    await this.append({ op: 'put', entry });
+  }
+
+  async remove(entryId: string): Promise<void> {
+    await this.append({ op: 'delete', id: entryId });
+  }
+
+  async clear(): Promise<void> {
+    await this.append({ op: 'clear' });
+  }
+
+  /**
+   * Rewrite the log with only live entries
+   */
+  private async compact(entries: SemanticEntry[]): Promise<void> {
+    const tempPath = `${this.filePath}.tmp`;
+    const content = entries
+      .map(entry => JSON.stringify({ op: 'put', entry } as SemanticLogRecord))
+      .join('\n');
+
+    await fs.writeFile(tempPath, content.length > 0 ? `${content}\n` : '', 'utf8');
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  /**
+   * Append a record to the log
+   */
+  private async append(record: SemanticLogRecord): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.appendFile(this.filePath, `${JSON.stringify(record)}\n`, 'utf8');
+  }
+
+  /**
+   * Restore Date fields lost in JSON serialization
+   */
+  private reviveEntry(entry: SemanticEntry): SemanticEntry {
+    return {
+      ...entry,
+      timestamp: new Date(entry.timestamp),
+      userState: entry.userState
+        ? { ...entry.userState, timestamp: new Date(entry.userState.timestamp) }
+        : undefined
+    };
+  }
+}
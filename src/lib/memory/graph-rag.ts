@@ -9,15 +9,75 @@ import {
   Transaction,
   TransactionResult,
   ConflictError,
-  StructuredQuery
+  StructuredQuery,
+  PropertyFilter,
+  GraphStore,
+  GraphExpansionOptions,
+  GraphNeighbour,
+  MemoryAccessError
 } from '../../types/memory';
 import { MemoryScope } from '../../types';
+import { GraphNodeType, GraphRelationshipType } from '../../types/data-models';
+
+/**
+ * Node labels accepted by structured queries
+ */
+const NODE_TYPES: Record<GraphNodeType, true> = {
+  User: true,
+  Contact: true,
+  ContactGroup: true,
+  Consent: true,
+  Project: true,
+  Asset: true,
+  Event: true,
+  Theme: true,
+  Trigger: true,
+  Reflection: true,
+  ReflectionRevision: true,
+  Transformation: true,
+  Workflow: true,
+  ExternalIntegration: true,
+  CollaborativeSession: true,
+  GuestAccessControl: true,
+  GuestInvitationLink: true,
+  GuestAccessAudit: true,
+  CommentThread: true
+};
+
+/**
+ * Relationship types accepted by structured queries
+ */
+const RELATIONSHIP_TYPES: Record<GraphRelationshipType, true> = {
+  OWNS_CONTACT: true,
+  IS_MEMBER_OF: true,
+  HAS_GIVEN: true,
+  APPLIES_TO: true,
+  PARTICIPATED_IN: true,
+  RELATES_TO: true,
+  TRIGGERS_ON: true,
+  COLLABORATES_WITH: true,
+  HAS_ACCESS_TO: true
+};
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/** Upper bound for variable-length expansion (hop counts cannot be parameterized) */
+const MAX_EXPANSION_HOPS = 4;
+
+/**
+ * Cypher text and parameters produced from a structured query
+ */
+interface CompiledQuery {
+  cypher: string;
+  parameters: Record<string, any>;
+}
 
 /**
  * Graph RAG implementation using Neo4j
  * Provides structured data storage with ACID compliance
  */
-export class GraphRAG {
+export class GraphRAG implements GraphStore {
+  readonly name = 'neo4j';
   private driver: Driver;
   private activeTransactions: Map<string, Neo4jTransaction> = new Map();
 
@@ -29,22 +89,26 @@ export class GraphRAG {
    * Query the graph database
    */
   async query(query: GraphQuery, scope: MemoryScope): Promise<GraphResult[]> {
+    if (query.type === 'cypher' && !scope.permissions.raw_cypher) {
+      throw new MemoryAccessError('Raw Cypher access denied', scope, ['raw_cypher']);
+    }
+
     const session = this.driver.session();
     
     try {
-      let cypherQuery: string;
-      let parameters: Record<string, any> = query.parameters || {};
+      let compiled: CompiledQuery;
 
       if (query.type === 'cypher') {
-        cypherQuery = query.query as string;
+        // Raw Cypher is not rewritten; scope IDs are exposed as parameters instead
+        compiled = {
+          cypher: query.query as string,
+          parameters: { ...query.parameters, ...this.buildScopeParameters(scope) }
+        };
       } else {
-        cypherQuery = this.buildCypherFromStructured(query.query as StructuredQuery);
+        compiled = this.buildCypherFromStructured(query.query as StructuredQuery, scope);
       }
 
-      // Add scope filtering to the query
-      cypherQuery = this.addScopeFiltering(cypherQuery, scope);
-
-      const result = await session.run(cypherQuery, parameters);
+      const result = await session.run(compiled.cypher, compiled.parameters);
       
       return this.convertNeo4jResults(result.records);
     } catch (error) {
@@ -54,6 +118,54 @@ export class GraphRAG {
     }
   }
 
+  /**
+   * Collect nodes within a number of hops of seed nodes
+   */
+  async expand(seedIds: string[], options: GraphExpansionOptions, scope: MemoryScope): Promise<GraphNeighbour[]> {
+    if (!Number.isInteger(options.hops) || options.hops < 0 || options.hops > MAX_EXPANSION_HOPS) {
+      throw new Error(`Expansion hops must be an integer between 0 and ${MAX_EXPANSION_HOPS}`);
+    }
+
+    if (seedIds.length === 0) {
+      return [];
+    }
+
+    const types = (options.relationshipTypes || [])
+      .map(type => this.escapeIdentifier(this.validateRelationshipType(type)))
+      .join('|');
+    const scopeClause = this.buildScopeClause(scope);
+
+    const cypher = [
+      'MATCH (seed) WHERE seed._id IN $seedIds',
+      `MATCH path = (seed)-[${types ? `:${types}` : ''}*0..${options.hops}]-(n0)`,
+      scopeClause ? `WHERE ${scopeClause}` : '',
+      'WITH n0, seed._id AS seedId, length(path) AS hops',
+      'ORDER BY hops ASC',
+      'WITH n0, head(collect(seedId)) AS seedId, min(hops) AS hops',
+      'RETURN n0, seedId, hops',
+      'ORDER BY hops ASC'
+    ].filter(Boolean).join(' ');
+
+    const session = this.driver.session();
+
+    try {
+      const result = await session.run(cypher, { seedIds, ...this.buildScopeParameters(scope) });
+
+      return result.records.map((record: any) => {
+        const hops = record.get('hops');
+        return {
+          node: this.convertNeo4jResults([record])[0],
+          seedId: record.get('seedId'),
+          hops: typeof hops === 'number' ? hops : hops.toNumber()
+        };
+      });
+    } catch (error) {
+      throw new Error(`Graph expansion failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      await session.close();
+    }
+  }
+
   /**
    * Store data in the graph database
    */
@@ -166,99 +278,170 @@ export class GraphRAG {
   }
 
   /**
-   * Build Cypher query from structured query
+   * Build parameterized Cypher from a structured query
+   * Labels, relationship types and property names are validated and escaped;
+   * every filter value and scope ID is passed as a parameter.
    */
-  private buildCypherFromStructured(structured: StructuredQuery): string {
-    let cypher = 'MATCH ';
-    
-    // Build node patterns
-    const nodePatterns = structured.nodeTypes.map((type, index) => 
-      `(n${index}:${type})`
-    ).join(', ');
-    
-    cypher += nodePatterns;
+  private buildCypherFromStructured(structured: StructuredQuery, scope: MemoryScope): CompiledQuery {
+    const parameters: Record<string, any> = {};
+    const conditions: string[] = [];
 
-    // Build relationship patterns if specified
-    if (structured.relationshipTypes.length > 0) {
-      const relPatterns = structured.relationshipTypes.map((type, index) => 
-        `-[r${index}:${type}]-`
-      ).join('');
-      cypher += relPatterns;
+    if (structured.nodeTypes.length > 0) {
+      const labels = structured.nodeTypes.map(type => `n0:${this.escapeIdentifier(this.validateNodeType(type))}`);
+      conditions.push(`(${labels.join(' OR ')})`);
+    }
+
+    structured.filters.forEach((filter, index) => {
+      const parameterName = `filter_${index}`;
+      parameters[parameterName] = filter.value;
+      conditions.push(this.buildFilterClause(filter, parameterName));
+    });
+
+    const scopeClause = this.buildScopeClause(scope);
+    if (scopeClause) {
+      conditions.push(scopeClause);
+      Object.assign(parameters, this.buildScopeParameters(scope));
     }
 
-    // Add WHERE clause for filters
-    if (structured.filters.length > 0) {
-      cypher += ' WHERE ';
-      const filterClauses = structured.filters.map(filter => 
-        this.buildFilterClause(filter)
-      ).join(' AND ');
-      cypher += filterClauses;
+    let cypher = 'MATCH (n0)';
+    if (conditions.length > 0) {
+      cypher += ` WHERE ${conditions.join(' AND ')}`;
     }
 
-    // Add RETURN clause
-    cypher += ' RETURN ';
-    if (structured.returnFields.length > 0) {
-      cypher += structured.returnFields.join(', ');
-    } else {
-      cypher += '*';
+    const variables = ['n0'];
+    if (structured.relationshipTypes.length > 0) {
+      const types = structured.relationshipTypes
+        .map(type => this.escapeIdentifier(this.validateRelationshipType(type)))
+        .join('|');
+      cypher += ` OPTIONAL MATCH (n0)-[r0:${types}]->(n1)`;
+      variables.push('r0', 'n1');
     }
 
-    return cypher;
+    const returnFields = structured.returnFields.length > 0
+      ? structured.returnFields.map(field => this.buildReturnField(field, variables))
+      : variables;
+    cypher += ` RETURN ${returnFields.join(', ')}`;
+
+    return { cypher, parameters };
   }
 
   /**
-   * Build filter clause for structured query
+   * Build a parameterized filter clause for structured query
    */
-  private buildFilterClause(filter: any): string {
-    const property = `n0.${filter.property}`;
+  private buildFilterClause(filter: PropertyFilter, parameterName: string): string {
+    const property = `n0.${this.escapeIdentifier(this.validatePropertyName(filter.property))}`;
     
     switch (filter.operator) {
       case 'equals':
-        return `${property} = $${filter.property}`;
+        return `${property} = $${parameterName}`;
       case 'contains':
-        return `${property} CONTAINS $${filter.property}`;
+        return `${property} CONTAINS $${parameterName}`;
       case 'startsWith':
-        return `${property} STARTS WITH $${filter.property}`;
+        return `${property} STARTS WITH $${parameterName}`;
       case 'endsWith':
-        return `${property} ENDS WITH $${filter.property}`;
+        return `${property} ENDS WITH $${parameterName}`;
       case 'greaterThan':
-        return `${property} > $${filter.property}`;
+        return `${property} > $${parameterName}`;
       case 'lessThan':
-        return `${property} < $${filter.property}`;
+        return `${property} < $${parameterName}`;
       default:
-        return `${property} = $${filter.property}`;
+        throw new Error(`Unsupported filter operator: ${filter.operator}`);
     }
   }
 
   /**
-   * Add scope filtering to Cypher query
+   * Build the scope condition for the matched node
    */
-  private addScopeFiltering(cypher: string, scope: MemoryScope): string {
-    // Add WHERE clause for scope filtering
+  private buildScopeClause(scope: MemoryScope): string | null {
     const scopeFilters: string[] = [];
 
     if (scope.user_ids.length > 0) {
-      scopeFilters.push(`n0.userId IN $scope_user_ids`);
+      scopeFilters.push('n0.userId IN $scope_user_ids');
     }
 
     if (scope.project_ids.length > 0) {
-      scopeFilters.push(`n0.projectId IN $scope_project_ids`);
+      scopeFilters.push('n0.projectId IN $scope_project_ids');
     }
 
     if (scope.contact_ids.length > 0) {
-      scopeFilters.push(`n0.contactId IN $scope_contact_ids`);
+      scopeFilters.push('n0.contactId IN $scope_contact_ids');
     }
 
-    if (scopeFilters.length > 0) {
-      const whereClause = scopeFilters.join(' OR ');
-      if (cypher.includes('WHERE')) {
-        cypher += ` AND (${whereClause})`;
-      } else {
-        cypher += ` WHERE (${whereClause})`;
+    return scopeFilters.length > 0 ? `(${scopeFilters.join(' OR ')})` : null;
+  }
+
+  /**
+   * Scope IDs as query parameters
+   */
+  private buildScopeParameters(scope: MemoryScope): Record<string, string[]> {
+    return {
+      scope_user_ids: scope.user_ids,
+      scope_project_ids: scope.project_ids,
+      scope_contact_ids: scope.contact_ids
+    };
+  }
+
+  /**
+   * Build a RETURN item from a variable, `variable.property` or a bare node property
+   */
+  private buildReturnField(field: string, variables: string[]): string {
+    const [head, property, ...rest] = field.split('.');
+
+    if (rest.length > 0) {
+      throw new Error(`Invalid return field: ${field}`);
+    }
+
+    if (property === undefined) {
+      if (variables.includes(head)) {
+        return head;
       }
+      const name = this.escapeIdentifier(this.validatePropertyName(head));
+      return `n0.${name} AS ${name}`;
+    }
+
+    if (!variables.includes(head)) {
+      throw new Error(`Invalid return field: ${field}`);
+    }
+
+    const name = this.escapeIdentifier(this.validatePropertyName(property));
+    return `${head}.${name} AS ${name}`;
+  }
+
+  /**
+   * Ensure a label belongs to the graph vocabulary
+   */
+  private validateNodeType(type: string): string {
+    if (!Object.prototype.hasOwnProperty.call(NODE_TYPES, type)) {
+      throw new Error(`Unknown node type: ${type}`);
+    }
+    return type;
+  }
+
+  /**
+   * Ensure a relationship type belongs to the graph vocabulary
+   */
+  private validateRelationshipType(type: string): string {
+    if (!Object.prototype.hasOwnProperty.call(RELATIONSHIP_TYPES, type)) {
+      throw new Error(`Unknown relationship type: ${type}`);
+    }
+    return type;
+  }
+
+  /**
+   * Ensure a property name is a plain identifier
+   */
+  private validatePropertyName(name: string): string {
+    if (!IDENTIFIER_PATTERN.test(name)) {
+      throw new Error(`Invalid property name: ${name}`);
     }
+    return name;
+  }
 
-    return cypher;
+  /**
+   * Quote an identifier so it can never terminate the surrounding Cypher
+   */
+  private escapeIdentifier(identifier: string): string {
+    return `\`${identifier.replace(/`/g, '``')}\``;
   }
 
   /**
@@ -273,6 +456,7 @@ export class GraphRAG {
       let type: 'node' | 'relationship' | 'path' = 'node';
       let data: any = {};
       let metadata: any = {};
+      const projected: Record<string, any> = {};
 
       for (let i = 0; i < keys.length; i++) {
         const key = keys[i];
@@ -297,10 +481,19 @@ export class GraphRAG {
               properties: value.properties
             };
             data = value.properties;
+          } else {
+            projected[key] = value;
           }
+        } else {
+          projected[key] = value;
         }
       }
 
+      // Projected fields (e.g. `n0.content AS content`) carry no node metadata
+      if (!metadata.id) {
+        data = projected;
+      }
+
       return {
         type,
         data,
@@ -314,7 +507,7 @@ export class GraphRAG {
    */
   private async storeNode(node: any, transaction: Neo4jTransaction, operation: string): Promise<string> {
     const nodeId = node.id || uuidv4();
-    const labels = node.labels.join(':');
+    const labels = node.labels.map((label: string) => this.escapeIdentifier(label)).join(':');
     
     let cypher: string;
     const parameters = {
@@ -338,6 +531,9 @@ export class GraphRAG {
       case 'merge':
         cypher = `MERGE (n:${labels} {_id: $nodeId}) SET n += $properties, n._updated = datetime() RETURN n._id as id`;
         break;
+      case 'delete':
+        cypher = `MATCH (n {_id: $nodeId}) DETACH DELETE n RETURN $nodeId as id`;
+        break;
       default:
         throw new Error(`Unsupported operation: ${operation}`);
     }
@@ -351,14 +547,25 @@ export class GraphRAG {
    */
   private async storeRelationship(relationship: any, transaction: Neo4jTransaction, operation: string): Promise<string> {
     const relId = relationship.id || uuidv4();
+    const type = this.escapeIdentifier(relationship.type);
     
-    const cypher = `
+    // Merging by _id lets callers with deterministic IDs write relationships idempotently
+    const cypher = operation === 'merge'
+      ? `
+      MATCH (from {_id: $fromNodeId}), (to {_id: $toNodeId})
+      MERGE (from)-[r:${type} {_id: $relId}]->(to)
+      ON CREATE SET r += $properties
+      ON MATCH SET r += $updates, r._version = r._version + 1, r._updated = datetime()
+      RETURN r._id as id
+    `
+      : `
       MATCH (from {_id: $fromNodeId}), (to {_id: $toNodeId})
-      CREATE (from)-[r:${relationship.type} $properties]->(to)
+      CREATE (from)-[r:${type} $properties]->(to)
       RETURN r._id as id
     `;
 
     const parameters = {
+      relId,
       fromNodeId: relationship.fromNodeId,
       toNodeId: relationship.toNodeId,
       properties: {
@@ -367,7 +574,8 @@ export class GraphRAG {
         _version: 1,
         _created: new Date().toISOString(),
         _updated: new Date().toISOString()
-      }
+      },
+      updates: relationship.properties
     };
 
     const result = await transaction.run(cypher, parameters);
@@ -430,6 +638,19 @@ export class GraphRAG {
     }
   }
 
+  /**
+   * Verify the Neo4j server is reachable
+   */
+  async verifyConnection(): Promise<void> {
+    const session = this.driver.session();
+
+    try {
+      await session.run('RETURN 1 as test');
+    } finally {
+      await session.close();
+    }
+  }
+
   /**
    * Close the driver connection
    */
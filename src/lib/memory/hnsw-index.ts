@@ -0,0 +1,346 @@
+// Hierarchical Navigable Small World index for approximate nearest-neighbour search
+
+/**
+ * HNSW index configuration
+ */
+export interface HNSWConfig {
+  /** Maximum neighbours per node on upper layers (base layer keeps 2 * m) */
+  m: number;
+
+  /** Candidate list size while inserting */
+  efConstruction: number;
+
+  /** Candidate list size while searching */
+  efSearch: number;
+
+  /** Seed for level assignment, so index layout is reproducible */
+  seed: number;
+}
+
+/**
+ * Default HNSW configuration
+ */
+const DEFAULT_HNSW_CONFIG: HNSWConfig = {
+  m: 16,
+  efConstruction: 100,
+  efSearch: 64,
+  seed: 42
+};
+
+/**
+ * Search hit returned by the index
+ */
+export interface HNSWSearchResult {
+  id: string;
+  similarity: number;
+}
+
+/**
+ * Internal graph node
+ */
+interface HNSWNode {
+  id: string;
+  vector: number[];
+  level: number;
+  neighbors: string[][];
+  deleted: boolean;
+}
+
+/**
+ * Candidate during graph traversal
+ */
+interface Candidate {
+  id: string;
+  distance: number;
+}
+
+/**
+ * HNSW index over cosine distance
+ * Deletions are soft: removed nodes stay in the graph for connectivity and are
+ * skipped in results until the owner rebuilds the index.
+ */
+export class HNSWIndex {
+  private config: HNSWConfig;
+  private nodes: Map<string, HNSWNode> = new Map();
+  private entryPointId: string | null = null;
+  private maxLevel = -1;
+  private deletedCount = 0;
+  private levelMultiplier: number;
+  private randomState: number;
+
+  constructor(config: Partial<HNSWConfig> = {}) {
+    this.config = { ...DEFAULT_HNSW_CONFIG, ...config };
+    this.levelMultiplier = 1 / Math.log(this.config.m);
+    this.randomState = this.config.seed;
+  }
+
+  /**
+   * Add a vector to the index
+   */
+  add(id: string, vector: number[]): void {
+    if (this.nodes.has(id)) {
+      throw new Error(`Vector ${id} is already indexed`);
+    }
+
+    const level = this.randomLevel();
+    const node: HNSWNode = {
+      id,
+      vector: this.normalize(vector),
+      level,
+      neighbors: Array.from({ length: level + 1 }, () => []),
+      deleted: false
+    };
+
+    this.nodes.set(id, node);
+
+    if (this.entryPointId === null) {
+      this.entryPointId = id;
+      this.maxLevel = level;
+      return;
+    }
+
+    let entryPoint = this.entryPointId;
+
+    // Greedy descent through layers above the new node's level
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      entryPoint = this.searchLayer(node.vector, [entryPoint], 1, layer)[0].id;
+    }
+
+    // Connect on every layer the node participates in
+    let entryPoints = [entryPoint];
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const candidates = this.searchLayer(node.vector, entryPoints, this.config.efConstruction, layer);
+      const maxNeighbors = this.maxNeighbors(layer);
+      const selected = candidates.slice(0, maxNeighbors).map(candidate => candidate.id);
+
+      node.neighbors[layer] = selected;
+
+      for (const neighborId of selected) {
+        const neighbor = this.nodes.get(neighborId)!;
+        neighbor.neighbors[layer].push(id);
+
+        if (neighbor.neighbors[layer].length > maxNeighbors) {
+          neighbor.neighbors[layer] = this.closest(neighbor.vector, neighbor.neighbors[layer], maxNeighbors);
+        }
+      }
+
+      entryPoints = candidates.map(candidate => candidate.id);
+    }
+
+    if (level > this.maxLevel) {
+      this.maxLevel = level;
+      this.entryPointId = id;
+    }
+  }
+
+  /**
+   * Soft-delete a vector
+   */
+  remove(id: string): boolean {
+    const node = this.nodes.get(id);
+    if (!node || node.deleted) return false;
+
+    node.deleted = true;
+    this.deletedCount++;
+    return true;
+  }
+
+  /**
+   * Find the k nearest live vectors that pass the optional filter
+   */
+  search(vector: number[], k: number, filter?: (id: string) => boolean): HNSWSearchResult[] {
+    if (this.entryPointId === null || k <= 0) {
+      return [];
+    }
+
+    const query = this.normalize(vector);
+    let entryPoint = this.entryPointId;
+
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      entryPoint = this.searchLayer(query, [entryPoint], 1, layer)[0].id;
+    }
+
+    const ef = Math.max(this.config.efSearch, k);
+    const candidates = this.searchLayer(query, [entryPoint], ef, 0, id => {
+      const node = this.nodes.get(id)!;
+      return !node.deleted && (!filter || filter(id));
+    });
+
+    return candidates.slice(0, k).map(candidate => ({
+      id: candidate.id,
+      similarity: 1 - candidate.distance
+    }));
+  }
+
+  /**
+   * Whether an ID is live in the index
+   */
+  has(id: string): boolean {
+    const node = this.nodes.get(id);
+    return !!node && !node.deleted;
+  }
+
+  /**
+   * Number of live vectors
+   */
+  size(): number {
+    return this.nodes.size - this.deletedCount;
+  }
+
+  /**
+   * Number of soft-deleted vectors
+   */
+  getDeletedCount(): number {
+    return this.deletedCount;
+  }
+
+  /**
+   * Remove all vectors
+   */
+  clear(): void {
+    this.nodes.clear();
+    this.entryPointId = null;
+    this.maxLevel = -1;
+    this.deletedCount = 0;
+    this.randomState = this.config.seed;
+  }
+
+  /**
+   * Beam search on a single layer
+   * Deleted or filtered nodes are traversed but only accepted nodes are returned.
+   */
+  private searchLayer(
+    query: number[],
+    entryPoints: string[],
+    ef: number,
+    layer: number,
+    accept?: (id: string) => boolean
+  ): Candidate[] {
+    const visited = new Set<string>(entryPoints);
+    const candidates: Candidate[] = [];
+    const results: Candidate[] = [];
+
+    for (const id of entryPoints) {
+      const candidate = { id, distance: this.distance(query, this.nodes.get(id)!.vector) };
+      candidates.push(candidate);
+      if (!accept || accept(id)) {
+        results.push(candidate);
+      }
+    }
+
+    candidates.sort((a, b) => a.distance - b.distance);
+    results.sort((a, b) => a.distance - b.distance);
+
+    while (candidates.length > 0) {
+      const current = candidates.shift()!;
+
+      if (current.distance > this.worstDistance(results, ef)) {
+        break;
+      }
+
+      const neighbors = this.nodes.get(current.id)!.neighbors[layer] || [];
+
+      for (const neighborId of neighbors) {
+        if (visited.has(neighborId)) continue;
+        visited.add(neighborId);
+
+        const candidate = { id: neighborId, distance: this.distance(query, this.nodes.get(neighborId)!.vector) };
+
+        if (candidate.distance < this.worstDistance(results, ef)) {
+          this.insertSorted(candidates, candidate);
+
+          if (!accept || accept(neighborId)) {
+            this.insertSorted(results, candidate);
+            if (results.length > ef) {
+              results.pop();
+            }
+          }
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Distance a candidate must beat to enter a full result list
+   */
+  private worstDistance(results: Candidate[], ef: number): number {
+    return results.length >= ef ? results[results.length - 1].distance : Infinity;
+  }
+
+  /**
+   * Keep the closest IDs to a vector
+   */
+  private closest(vector: number[], ids: string[], count: number): string[] {
+    return ids
+      .map(id => ({ id, distance: this.distance(vector, this.nodes.get(id)!.vector) }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, count)
+      .map(candidate => candidate.id);
+  }
+
+  /**
+   * Insert into an ascending list by distance
+   */
+  private insertSorted(list: Candidate[], candidate: Candidate): void {
+    let low = 0;
+    let high = list.length;
+
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (list[mid].distance < candidate.distance) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    list.splice(low, 0, candidate);
+  }
+
+  /**
+   * Maximum neighbours kept on a layer
+   */
+  private maxNeighbors(layer: number): number {
+    return layer === 0 ? this.config.m * 2 : this.config.m;
+  }
+
+  /**
+   * Draw a level from the exponentially decaying distribution
+   */
+  private randomLevel(): number {
+    return Math.floor(-Math.log(1 - this.nextRandom()) * this.levelMultiplier);
+  }
+
+  /**
+   * Seeded PRNG (mulberry32)
+   */
+  private nextRandom(): number {
+    this.randomState = (this.randomState + 0x6d2b79f5) | 0;
+    let t = this.randomState;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Cosine distance between unit vectors
+   */
+  private distance(a: number[], b: number[]): number {
+    let dot = 0;
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+    }
+    return 1 - dot;
+  }
+
+  /**
+   * Scale a vector to unit length
+   */
+  private normalize(vector: number[]): number[] {
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    if (norm === 0) return vector.slice();
+    return vector.map(value => value / norm);
+  }
+}
@@ -2,12 +2,20 @@
 
 export { MemoryAssistantImpl } from './memory-assistant';
 export { GraphRAG } from './graph-rag';
+export { EmbeddedGraphStore } from './embedded-graph-store';
 export { SemanticRAG } from './semantic-rag';
+export { HashedNgramEmbeddingProvider, RemoteEmbeddingProvider } from './embedding-provider';
+export { InMemorySemanticStorage } from './semantic-storage';
+export { HNSWIndex } from './hnsw-index';
+export { HeuristicFactExtractor } from './fact-extractor';
+export { MemoryConsolidator } from './memory-consolidator';
 
 // Re-export types
 export type {
   MemoryAssistant,
   STMContext,
+  STMLoadOptions,
+  HybridContextItem,
   GraphQuery,
   SemanticQuery,
   GraphResult,
@@ -17,6 +25,21 @@ export type {
   Transaction,
   TransactionResult,
   StorageResult,
+  GraphStore,
+  GraphExpansionOptions,
+  GraphNeighbour,
+  GraphSnapshot,
+  GraphPersistence,
+  EmbeddingProvider,
+  EmbeddingDimensionError,
+  ConsolidationSource,
+  ConsolidationResult,
+  ExtractedEntity,
+  ExtractedFacts,
+  FactExtractor,
+  SemanticEntry,
+  SemanticStorageAdapter,
+  SemanticIndexStats,
   ConflictError,
   MemoryAccessError
 } from '../../types/memory';
\ No newline at end of file
@@ -14,31 +14,119 @@ import {
   TransactionResult, 
   StorageResult,
   ConflictError,
-  MemoryAccessError
+  MemoryAccessError,
+  EmbeddingProvider,
+  GraphStore,
+  STMLoadOptions,
+  HybridContextItem,
+  GraphNeighbour,
+  StructuredQuery,
+  PropertyFilter
 } from '../../types/memory';
 import { UserState, MemoryScope } from '../../types';
-import { GraphRAG } from './graph-rag';
+import { GraphNodeType } from '../../types/data-models';
+import {
+  ReflectionEntry,
+  ReflectionFilters,
+  ReflectionPage,
+  ReflectionRevision,
+  EmotionalContextSource,
+  CortexTransformation,
+  ChroniclerWorkflow,
+  ExternalAssetIntegration
+} from '../../types/chronicler';
+import {
+  CollaborativeSession,
+  GuestAccessControl,
+  GuestInvitationLink,
+  GuestAccessAuditEntry
+} from '../../types/collaboration';
+import { CommentThread } from '../../types/editor';
 import { SemanticRAG } from './semantic-rag';
+import { HashedNgramEmbeddingProvider } from './embedding-provider';
+import { MemoryConsolidator } from './memory-consolidator';
+import { createDateReviver } from '../value-utils';
+
+/** Reciprocal-rank fusion constant (dampens the advantage of top ranks) */
+const RRF_K = 60;
+
+/** Context token budget used when the agent budget sets none */
+const DEFAULT_CONTEXT_TOKENS = 4000;
+
+/** Tag prefix linking a semantic entry to the graph node it describes */
+const GRAPH_NODE_TAG = 'node:';
+
+/** Minimum similarity of a reflection search hit (short queries score low against whole entries) */
+const REFLECTION_SEARCH_THRESHOLD = 0.2;
+
+/** Semantic hits considered per reflection search */
+const REFLECTION_SEARCH_LIMIT = 50;
+
+/** Largest difference per emotional dimension accepted by reflection search filters */
+const EMOTIONAL_FILTER_TOLERANCE = 0.2;
+
+/** Scope for looking up records by ID before their owner is known */
+const RECORD_LOOKUP_SCOPE: MemoryScope = {
+  id: 'memory-assistant:records',
+  user_ids: [],
+  project_ids: [],
+  contact_ids: [],
+  permissions: { read: true, write: false, delete: false }
+};
+
+/**
+ * Emotional context captured for a reflection, as kept on the reflection's graph node
+ */
+interface CapturedEmotionalContext {
+  /** Semantic entry carrying the context */
+  entry_id: string;
+  
+  /** When the context was captured */
+  source: EmotionalContextSource;
+  
+  /** Captured user state */
+  user_state: UserState;
+}
+
+/**
+ * Optional MemoryAssistant configuration
+ */
+export interface MemoryAssistantOptions {
+  /** Provider used to embed queries and content (defaults to the offline hashed n-gram provider) */
+  embeddingProvider?: EmbeddingProvider;
+  
+  /** Similarity threshold used when loading semantic context into STM */
+  semanticThreshold?: number;
+  
+  /** Pipeline that receives modified STM contexts for fact extraction */
+  consolidator?: MemoryConsolidator;
+}
 
 /**
  * Implementation of the Memory Management Unit
  * Provides centralized API for all long-term memory operations
  */
 export class MemoryAssistantImpl implements MemoryAssistant {
-  private graphRAG: GraphRAG;
+  private graphRAG: GraphStore;
   private semanticRAG: SemanticRAG;
   private activeTransactions: Map<string, Transaction> = new Map();
   private stmContexts: Map<string, STMContext> = new Map();
+  private embeddingProvider: EmbeddingProvider;
+  private semanticThreshold: number;
+  private consolidator?: MemoryConsolidator;
 
-  constructor(graphRAG: GraphRAG, semanticRAG: SemanticRAG) {
+  constructor(graphRAG: GraphStore, semanticRAG: SemanticRAG, options: MemoryAssistantOptions = {}) {
     this.graphRAG = graphRAG;
     this.semanticRAG = semanticRAG;
+    this.embeddingProvider = options.embeddingProvider || new HashedNgramEmbeddingProvider();
+    this.semanticThreshold = options.semanticThreshold ?? 0.7;
+    this.consolidator = options.consolidator;
   }
 
   /**
    * Load context into Short-Term Memory for an agent
    */
-  async loadSTM(contextThread: string, query: string): Promise<STMContext> {
+  async loadSTM(contextThread: string, query: string, options: STMLoadOptions = {}): Promise<STMContext> {
     // Check if STM context already exists
     const existingContext = this.stmContexts.get(contextThread);
     if (existingContext && existingContext.expiresAt > new Date()) {
@@ -53,7 +141,8 @@ export class MemoryAssistantImpl implements MemoryAssistant {
       userStates: [],
       createdAt: new Date(),
       expiresAt: new Date(Date.now() + 30 * 60 * 1000), // 30 minutes
-      modified: false
+      modified: false,
+      scope: options.scope
     };
 
     // Load relevant data based on query
@@ -76,9 +165,8 @@ export class MemoryAssistantImpl implements MemoryAssistant {
         limit: 50
       };
 
-      // Note: We'll need to get the memory scope from the context thread
-      // For now, creating a basic scope - this should be passed in
-      const basicScope: MemoryScope = {
+      // Note: callers that know the agent's scope should pass it in options
+      const scope: MemoryScope = options.scope || {
         id: contextThread,
         user_ids: [],
         project_ids: [],
@@ -86,17 +174,20 @@ export class MemoryAssistantImpl implements MemoryAssistant {
         permissions: { read: true, write: false, delete: false }
       };
 
-      context.graphData = await this.queryGraphRAG(graphQuery, basicScope);
-
       // Query semantic RAG for associative data
       const semanticQuery: SemanticQuery = {
         text: query,
         embedding: await this.generateEmbedding(query),
-        threshold: 0.7,
+        threshold: this.semanticThreshold,
         limit: 20
       };
 
-      context.semanticData = await this.querySemanticRAG(semanticQuery, basicScope);
+      if (options.mode === 'hybrid') {
+        await this.loadHybridContext(context, graphQuery, semanticQuery, scope, options);
+      } else {
+        context.graphData = await this.queryGraphRAG(graphQuery, scope);
+        context.semanticData = await this.querySemanticRAG(semanticQuery, scope);
+      }
 
       // Extract user states from results
       context.userStates = this.extractUserStates(context.graphData, context.semanticData);
@@ -144,8 +235,9 @@ export class MemoryAssistantImpl implements MemoryAssistant {
 
       await this.commitTransaction(transaction);
 
-      // Remove STM context
+      // Remove STM context and hand it to fact extraction
       this.stmContexts.delete(contextThread);
+      this.consolidator?.enqueueSTMContext(stmContext);
     } catch (error) {
       await this.rollbackTransaction(transaction);
       throw new Error(`Failed to consolidate STM: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -156,7 +248,7 @@ export class MemoryAssistantImpl implements MemoryAssistant {
    * Query the Graph RAG for structured data
    */
   async queryGraphRAG(query: GraphQuery, scope: MemoryScope): Promise<GraphResult[]> {
-    this.validateMemoryAccess(scope, ['read']);
+    this.validateMemoryAccess(scope, query.type === 'cypher' ? ['read', 'raw_cypher'] : ['read']);
     
     try {
       return await this.graphRAG.query(query, scope);
@@ -267,6 +359,769 @@ export class MemoryAssistantImpl implements MemoryAssistant {
     }
   }
 
+  /**
+   * Save a reflection and index its text for semantic search
+   * The graph node holds the record. One semantic entry carries the current
+   * text, and one more each emotional context captured for it; they are
+   * re-indexed when the text changes and dropped once the reflection is
+   * deleted. Saved reflections are queued for fact consolidation.
+   */
+  async saveReflection(reflection: ReflectionEntry, scope?: MemoryScope): Promise<void> {
+    const ownerScope = this.resolveOwnerScope(reflection.user_id, 'write', scope);
+    const existing = await this.findRecordNode('Reflection', reflection.id);
+    this.assertRecordOwner(existing, 'Reflection', reflection.id, reflection.user_id, ownerScope);
+
+    const previous = existing ? this.parseRecord<ReflectionEntry>(existing) : null;
+    const previousEntryId: string | null = existing ? existing.metadata.properties.semanticEntryId || null : null;
+    const previousContexts = existing ? this.parseEmotionalContexts(existing) : [];
+    const unchanged = !!previous && !!previousEntryId &&
+      this.getReflectionText(previous) === this.getReflectionText(reflection);
+
+    let entryId: string | null = null;
+    let contexts: CapturedEmotionalContext[] = [];
+    if (reflection.status !== 'deleted' && unchanged) {
+      entryId = previousEntryId;
+      contexts = previousContexts;
+    } else if (reflection.status !== 'deleted') {
+      entryId = await this.indexReflectionText(reflection, ['reflection'], reflection.emotional_context, ownerScope);
+      try {
+        contexts = await this.reindexEmotionalContexts(reflection, previousContexts, ownerScope);
+      } catch (error) {
+        this.semanticRAG.deleteEntry(entryId);
+        throw error;
+      }
+    }
+
+    const previousEntryIds = [previousEntryId].concat(previousContexts.map(context => context.entry_id));
+    const entryIds = [entryId].concat(contexts.map(context => context.entry_id));
+    try {
+      await this.writeRecord('Reflection', reflection.id, reflection.user_id, reflection, ownerScope, {
+        semanticEntryId: entryId,
+        emotionalContexts: JSON.stringify(contexts)
+      });
+    } catch (error) {
+      this.deleteSemanticEntries(entryIds.filter(id => previousEntryIds.indexOf(id) === -1));
+      throw error;
+    }
+
+    this.deleteSemanticEntries(previousEntryIds.filter(id => entryIds.indexOf(id) === -1));
+    this.consolidator?.enqueueReflection(reflection);
+  }
+
+  /**
+   * Get a reflection by ID
+   */
+  async getReflection(reflectionId: string, scope: MemoryScope): Promise<ReflectionEntry | null> {
+    return this.getRecord<ReflectionEntry>('Reflection', reflectionId, scope);
+  }
+
+  /**
+   * List a user's reflections, newest first (deleted reflections are left out)
+   */
+  async getUserReflections(
+    userId: string,
+    filters: ReflectionFilters = {},
+    pagination?: { offset: number; limit: number },
+    scope?: MemoryScope
+  ): Promise<ReflectionPage> {
+    const readScope = this.resolveOwnerScope(userId, 'read', scope);
+    const nodes = await this.findRecordNodes('Reflection', [
+      { property: 'userId', operator: 'equals', value: userId }
+    ], readScope);
+
+    const reflections = nodes
+      .map(node => this.parseRecord<ReflectionEntry>(node))
+      .filter(reflection => reflection.status !== 'deleted' && this.matchesReflectionFilters(reflection, filters))
+      .sort((a, b) => b.created_at.getTime() - a.created_at.getTime());
+
+    return {
+      reflections: pagination
+        ? reflections.slice(pagination.offset, pagination.offset + pagination.limit)
+        : reflections,
+      total: reflections.length
+    };
+  }
+
+  /**
+   * Search a user's reflections by meaning and emotional context
+   * A reflection passes the emotional filters when its text entry or any
+   * emotional context captured for it is close on every given dimension.
+   */
+  async searchReflections(
+    userId: string,
+    query: string,
+    emotionalFilters?: Partial<UserState>,
+    scope?: MemoryScope
+  ): Promise<ReflectionEntry[]> {
+    const readScope = this.resolveOwnerScope(userId, 'read', scope);
+    const results = await this.querySemanticRAG({
+      text: query,
+      embedding: await this.generateEmbedding(query),
+      threshold: REFLECTION_SEARCH_THRESHOLD,
+      limit: REFLECTION_SEARCH_LIMIT
+    }, readScope);
+
+    const reflectionIds: string[] = [];
+    for (const result of results) {
+      const tags = result.metadata.tags;
+      const reflectionId = this.getLinkedNodeId(result);
+      if (
+        !reflectionId ||
+        reflectionIds.includes(reflectionId) ||
+        !(tags.includes('reflection') || tags.includes('emotional_context')) ||
+        (emotionalFilters && !this.matchesEmotionalFilters(result.userState, emotionalFilters))
+      ) {
+        continue;
+      }
+      reflectionIds.push(reflectionId);
+    }
+
+    const reflections: ReflectionEntry[] = [];
+    for (const reflectionId of reflectionIds) {
+      const reflection = await this.getRecord<ReflectionEntry>('Reflection', reflectionId, readScope);
+      if (reflection && reflection.user_id === userId && reflection.status !== 'deleted') {
+        reflections.push(reflection);
+      }
+    }
+    return reflections;
+  }
+
+  /**
+   * Record an emotional context captured for a reflection as its own semantic entry
+   */
+  async storeEmotionalContext(
+    reflectionId: string,
+    userState: UserState,
+    source: EmotionalContextSource,
+    scope?: MemoryScope
+  ): Promise<void> {
+    const node = await this.findRecordNode('Reflection', reflectionId);
+    const reflection = node ? this.parseRecord<ReflectionEntry>(node) : null;
+    if (!node || !reflection) {
+      throw new Error(`Reflection ${reflectionId} not found`);
+    }
+
+    const ownerScope = this.resolveOwnerScope(reflection.user_id, 'write', scope);
+    const entryId = await this.indexReflectionText(
+      reflection,
+      ['emotional_context', `emotional_context:${source}`],
+      userState,
+      ownerScope
+    );
+    const contexts = this.parseEmotionalContexts(node).concat([{ entry_id: entryId, source, user_state: userState }]);
+
+    try {
+      await this.writeRecord('Reflection', reflection.id, reflection.user_id, reflection, ownerScope, {
+        emotionalContexts: JSON.stringify(contexts)
+      });
+    } catch (error) {
+      this.semanticRAG.deleteEntry(entryId);
+      throw error;
+    }
+  }
+
+  /**
+   * Append an immutable revision to a reflection's history
+   * Revisions are never rewritten, so saving one under an existing ID is a conflict.
+   */
+  async saveReflectionRevision(revision: ReflectionRevision, scope?: MemoryScope): Promise<void> {
+    const ownerScope = this.resolveOwnerScope(revision.user_id, 'write', scope);
+    const existing = await this.findRecordNode('ReflectionRevision', revision.id);
+    if (existing) {
+      throw new ConflictError(
+        `Reflection revision ${revision.id} already exists`,
+        revision.id,
+        revision.revision_number,
+        existing.metadata.properties.revisionNumber
+      );
+    }
+
+    await this.writeRecord('ReflectionRevision', revision.id, revision.user_id, revision, ownerScope, {
+      reflectionId: revision.reflection_id,
+      revisionNumber: revision.revision_number
+    });
+  }
+
+  /**
+   * Get a reflection revision by ID
+   */
+  async getReflectionRevision(revisionId: string, scope: MemoryScope): Promise<ReflectionRevision | null> {
+    return this.getRecord<ReflectionRevision>('ReflectionRevision', revisionId, scope);
+  }
+
+  /**
+   * List a reflection's revisions, oldest first
+   */
+  async listReflectionRevisions(reflectionId: string, scope?: MemoryScope): Promise<ReflectionRevision[]> {
+    const reflection = await this.getRecord<ReflectionEntry>('Reflection', reflectionId);
+    if (!reflection) {
+      return [];
+    }
+
+    const readScope = this.resolveOwnerScope(reflection.user_id, 'read', scope);
+    const nodes = await this.findRecordNodes('ReflectionRevision', [
+      { property: 'reflectionId', operator: 'equals', value: reflectionId }
+    ], readScope);
+
+    return nodes
+      .map(node => this.parseRecord<ReflectionRevision>(node))
+      .sort((a, b) => a.revision_number - b.revision_number);
+  }
+
+  /**
+   * Save a Cortex-mode transformation, owned by the source reflection's author
+   */
+  async saveTransformation(transformation: CortexTransformation, scope?: MemoryScope): Promise<void> {
+    const reflection = await this.getRecord<ReflectionEntry>('Reflection', transformation.source_reflection_id);
+    if (!reflection) {
+      throw new Error(`Reflection ${transformation.source_reflection_id} not found`);
+    }
+
+    await this.saveOwnedRecord('Transformation', transformation.id, reflection.user_id, transformation, scope, {
+      sourceReflectionId: transformation.source_reflection_id
+    });
+  }
+
+  /**
+   * Get a transformation by ID
+   */
+  async getTransformation(transformationId: string, scope: MemoryScope): Promise<CortexTransformation | null> {
+    return this.getRecord<CortexTransformation>('Transformation', transformationId, scope);
+  }
+
+  /**
+   * Save a chronicler workflow
+   */
+  async saveWorkflow(workflow: ChroniclerWorkflow, scope?: MemoryScope): Promise<void> {
+    await this.saveOwnedRecord('Workflow', workflow.id, workflow.user_id, workflow, scope);
+  }
+
+  /**
+   * Get a chronicler workflow by ID
+   */
+  async getWorkflow(workflowId: string, scope: MemoryScope): Promise<ChroniclerWorkflow | null> {
+    return this.getRecord<ChroniclerWorkflow>('Workflow', workflowId, scope);
+  }
+
+  /**
+   * Save an external asset integration
+   */
+  async saveExternalIntegration(integration: ExternalAssetIntegration, scope?: MemoryScope): Promise<void> {
+    await this.saveOwnedRecord('ExternalIntegration', integration.id, integration.user_id, integration, scope);
+  }
+
+  /**
+   * Get an external asset integration by ID
+   */
+  async getExternalIntegration(integrationId: string, scope: MemoryScope): Promise<ExternalAssetIntegration | null> {
+    return this.getRecord<ExternalAssetIntegration>('ExternalIntegration', integrationId, scope);
+  }
+
+  /**
+   * Save a collaborative session, owned by its host
+   * Sessions started before hosts were recorded belong to their first admin.
+   */
+  async saveCollaborativeSession(session: CollaborativeSession, scope?: MemoryScope): Promise<void> {
+    const admin = session.participants.find(participant => participant.permission_level === 'admin');
+    const hostId = session.host_user_id || (admin || session.participants[0])?.user_id;
+    if (!hostId) {
+      throw new Error(`Collaborative session ${session.id} has no host`);
+    }
+
+    await this.saveOwnedRecord('CollaborativeSession', session.id, hostId, session, scope, {
+      resourceId: session.resource_id,
+      status: session.status
+    });
+  }
+
+  /**
+   * Get a collaborative session by ID
+   */
+  async getCollaborativeSession(sessionId: string, scope?: MemoryScope): Promise<CollaborativeSession | null> {
+    return this.getRecord<CollaborativeSession>('CollaborativeSession', sessionId, scope);
+  }
+
+  /**
+   * Get the active collaborative session on a resource
+   */
+  async getCollaborativeSessionByResource(resourceId: string, scope: MemoryScope = RECORD_LOOKUP_SCOPE): Promise<CollaborativeSession | null> {
+    const nodes = await this.findRecordNodes('CollaborativeSession', [
+      { property: 'resourceId', operator: 'equals', value: resourceId },
+      { property: 'status', operator: 'equals', value: 'active' }
+    ], scope);
+    return nodes.length > 0 ? this.parseRecord<CollaborativeSession>(nodes[0]) : null;
+  }
+
+  /**
+   * List the collaborative sessions that are still active
+   */
+  async listActiveCollaborativeSessions(scope: MemoryScope = RECORD_LOOKUP_SCOPE): Promise<CollaborativeSession[]> {
+    const nodes = await this.findRecordNodes('CollaborativeSession', [
+      { property: 'status', operator: 'equals', value: 'active' }
+    ], scope);
+    return nodes.map(node => this.parseRecord<CollaborativeSession>(node));
+  }
+
+  /**
+   * Save a guest's access control, owned by the host
+   */
+  async saveGuestAccessControl(accessControl: GuestAccessControl, scope?: MemoryScope): Promise<void> {
+    await this.saveOwnedRecord('GuestAccessControl', accessControl.id, accessControl.host_user_id, accessControl, scope, {
+      guestUserId: accessControl.guest_user_id
+    });
+  }
+
+  /**
+   * Get the most recently granted access control of a guest
+   */
+  async getGuestAccessControl(guestUserId: string, scope: MemoryScope = RECORD_LOOKUP_SCOPE): Promise<GuestAccessControl | null> {
+    const nodes = await this.findRecordNodes('GuestAccessControl', [
+      { property: 'guestUserId', operator: 'equals', value: guestUserId }
+    ], scope);
+
+    const accessControls = nodes
+      .map(node => this.parseRecord<GuestAccessControl>(node))
+      .sort((a, b) => b.granted_at.getTime() - a.granted_at.getTime());
+    return accessControls[0] || null;
+  }
+
+  /**
+   * List the access controls a host has granted, newest first
+   */
+  async listGuestAccessControls(hostUserId: string, scope?: MemoryScope): Promise<GuestAccessControl[]> {
+    const readScope = this.resolveOwnerScope(hostUserId, 'read', scope);
+    const nodes = await this.findRecordNodes('GuestAccessControl', [
+      { property: 'userId', operator: 'equals', value: hostUserId }
+    ], readScope);
+
+    return nodes
+      .map(node => this.parseRecord<GuestAccessControl>(node))
+      .sort((a, b) => b.granted_at.getTime() - a.granted_at.getTime());
+  }
+
+  /**
+   * Save a guest invitation link, owned by the host
+   */
+  async saveGuestInvitationLink(link: GuestInvitationLink, scope?: MemoryScope): Promise<void> {
+    await this.saveOwnedRecord('GuestInvitationLink', link.id, link.host_user_id, link, scope);
+  }
+
+  /**
+   * Get a guest invitation link by ID
+   */
+  async getGuestInvitationLink(linkId: string, scope?: MemoryScope): Promise<GuestInvitationLink | null> {
+    return this.getRecord<GuestInvitationLink>('GuestInvitationLink', linkId, scope);
+  }
+
+  /**
+   * List the invitation links a host has created, newest first
+   */
+  async listGuestInvitationLinks(hostUserId: string, scope?: MemoryScope): Promise<GuestInvitationLink[]> {
+    const readScope = this.resolveOwnerScope(hostUserId, 'read', scope);
+    const nodes = await this.findRecordNodes('GuestInvitationLink', [
+      { property: 'userId', operator: 'equals', value: hostUserId }
+    ], readScope);
+
+    return nodes
+      .map(node => this.parseRecord<GuestInvitationLink>(node))
+      .sort((a, b) => b.created_at.getTime() - a.created_at.getTime());
+  }
+
+  /**
+   * Append an entry to a guest's access audit trail, owned by the host
+   */
+  async saveGuestAccessAudit(entry: GuestAccessAuditEntry, scope?: MemoryScope): Promise<void> {
+    await this.saveOwnedRecord('GuestAccessAudit', entry.id, entry.host_user_id, entry, scope, {
+      accessControlId: entry.access_control_id
+    });
+  }
+
+  /**
+   * List the audit trail of an access control, oldest first
+   */
+  async listGuestAccessAudit(accessControlId: string, scope: MemoryScope = RECORD_LOOKUP_SCOPE): Promise<GuestAccessAuditEntry[]> {
+    const nodes = await this.findRecordNodes('GuestAccessAudit', [
+      { property: 'accessControlId', operator: 'equals', value: accessControlId }
+    ], scope);
+
+    return nodes
+      .map(node => this.parseRecord<GuestAccessAuditEntry>(node))
+      .sort((a, b) => a.occurred_at.getTime() - b.occurred_at.getTime());
+  }
+
+  /**
+   * Save a comment thread, owned by the user who opened it
+   */
+  async saveCommentThread(thread: CommentThread, scope?: MemoryScope): Promise<void> {
+    await this.saveOwnedRecord('CommentThread', thread.id, thread.comments[0].author_id, thread, scope, {
+      documentId: thread.document_id
+    });
+  }
+
+  /**
+   * Get a comment thread by ID
+   */
+  async getCommentThread(threadId: string, scope?: MemoryScope): Promise<CommentThread | null> {
+    return this.getRecord<CommentThread>('CommentThread', threadId, scope);
+  }
+
+  /**
+   * List the comment threads of a document, oldest first
+   */
+  async listCommentThreads(documentId: string, scope: MemoryScope = RECORD_LOOKUP_SCOPE): Promise<CommentThread[]> {
+    const nodes = await this.findRecordNodes('CommentThread', [
+      { property: 'documentId', operator: 'equals', value: documentId }
+    ], scope);
+
+    return nodes
+      .map(node => this.parseRecord<CommentThread>(node))
+      .sort((a, b) => a.created_at.getTime() - b.created_at.getTime());
+  }
+
+  /**
+   * Fill an STM context with graph, semantic and expanded results fused by reciprocal rank
+   * Semantic hits tagged `node:<id>` seed an N-hop graph expansion; hits present in
+   * several lists are merged, and the fused list is trimmed to the token budget.
+   */
+  private async loadHybridContext(
+    context: STMContext,
+    graphQuery: GraphQuery,
+    semanticQuery: SemanticQuery,
+    scope: MemoryScope,
+    options: STMLoadOptions
+  ): Promise<void> {
+    const keywordQuery: GraphQuery = {
+      ...graphQuery,
+      query: { ...(graphQuery.query as StructuredQuery), relationshipTypes: [], returnFields: ['n0'] }
+    };
+
+    const [graphResults, semanticResults] = await Promise.all([
+      this.queryGraphRAG(keywordQuery, scope),
+      this.querySemanticRAG(semanticQuery, scope)
+    ]);
+
+    const seedIds: string[] = [];
+    for (const result of semanticResults) {
+      const nodeId = this.getLinkedNodeId(result);
+      if (nodeId && !seedIds.includes(nodeId)) {
+        seedIds.push(nodeId);
+      }
+    }
+
+    let neighbours: GraphNeighbour[] = [];
+    if (seedIds.length > 0) {
+      try {
+        neighbours = await this.graphRAG.expand(seedIds, { hops: options.hops ?? 1 }, scope);
+      } catch (error) {
+        throw new Error(`Graph RAG expansion failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    // Nearest neighbours first, ties broken by the rank of the seed's semantic hit
+    const expanded = neighbours
+      .map((neighbour, index) => ({ neighbour, index }))
+      .sort((a, b) =>
+        a.neighbour.hops - b.neighbour.hops ||
+        seedIds.indexOf(a.neighbour.seedId) - seedIds.indexOf(b.neighbour.seedId) ||
+        a.index - b.index
+      )
+      .map(({ neighbour }) => neighbour.node);
+
+    const items = new Map<string, HybridContextItem>();
+    const fuse = (id: string, rank: number, hit: Partial<HybridContextItem>) => {
+      const item = items.get(id) || { id, score: 0, tokens: 0 };
+      item.score += 1 / (RRF_K + rank + 1);
+      item.graph = item.graph || hit.graph;
+      item.semantic = item.semantic || hit.semantic;
+      items.set(id, item);
+    };
+
+    semanticResults.forEach((result, rank) =>
+      fuse(this.getLinkedNodeId(result) || result.metadata.id, rank, { semantic: result })
+    );
+    graphResults
+      .filter(result => result.type === 'node')
+      .forEach((result, rank) => fuse(this.getGraphNodeId(result), rank, { graph: result }));
+    expanded.forEach((result, rank) => fuse(this.getGraphNodeId(result), rank, { graph: result }));
+
+    const budget = options.resourceBudget?.max_context_tokens ?? DEFAULT_CONTEXT_TOKENS;
+    const ranked = Array.from(items.values()).sort((a, b) => b.score - a.score);
+    const selected: HybridContextItem[] = [];
+    let tokenCount = 0;
+
+    // Skip hits that overflow the budget so smaller, lower-ranked hits can still fit
+    for (const item of ranked) {
+      item.tokens = this.estimateTokens(item);
+      if (tokenCount + item.tokens <= budget) {
+        selected.push(item);
+        tokenCount += item.tokens;
+      }
+    }
+
+    context.ranked = selected;
+    context.tokenCount = tokenCount;
+    context.graphData = selected.filter(item => item.graph).map(item => item.graph!);
+    context.semanticData = selected.filter(item => item.semantic).map(item => item.semantic!);
+  }
+
+  /**
+   * Graph node a semantic entry is linked to through a `node:<id>` tag
+   */
+  private getLinkedNodeId(result: SemanticResult): string | null {
+    const tag = result.metadata.tags.find(candidate => candidate.startsWith(GRAPH_NODE_TAG));
+    return tag ? tag.slice(GRAPH_NODE_TAG.length) : null;
+  }
+
+  /**
+   * Application ID of a graph node (falls back to the store's internal ID)
+   */
+  private getGraphNodeId(result: GraphResult): string {
+    return result.metadata.properties._id || result.metadata.id;
+  }
+
+  /**
+   * Rough token estimate (about four characters per token)
+   */
+  private estimateTokens(item: HybridContextItem): number {
+    let characters = 0;
+    if (item.semantic) {
+      characters += item.semantic.content.length;
+    }
+    if (item.graph) {
+      characters += JSON.stringify(item.graph.data).length;
+    }
+    return Math.ceil(characters / 4);
+  }
+
+  /**
+   * Scope for accessing one user's records
+   * Without a caller scope the owner's own scope is used. A caller scope must
+   * grant the permission and, when it lists users, include the owner.
+   */
+  private resolveOwnerScope(ownerId: string, permission: 'read' | 'write', scope?: MemoryScope): MemoryScope {
+    if (!scope) {
+      return {
+        id: `user:${ownerId}`,
+        user_ids: [ownerId],
+        project_ids: [],
+        contact_ids: [],
+        permissions: { read: true, write: permission === 'write', delete: false }
+      };
+    }
+
+    this.validateMemoryAccess(scope, [permission]);
+    if (scope.user_ids.length > 0 && !scope.user_ids.includes(ownerId)) {
+      throw new MemoryAccessError(`User ${ownerId} is outside the memory scope`, scope, [permission]);
+    }
+    return { ...scope, user_ids: [ownerId] };
+  }
+
+  /**
+   * Reject writes that would move an existing record to another owner
+   */
+  private assertRecordOwner(
+    existing: GraphResult | null,
+    label: GraphNodeType,
+    recordId: string,
+    ownerId: string,
+    scope: MemoryScope
+  ): void {
+    if (existing && existing.metadata.properties.userId !== ownerId) {
+      throw new MemoryAccessError(`${label} ${recordId} belongs to another user`, scope, ['write']);
+    }
+  }
+
+  /**
+   * Save a record that has no semantic side
+   */
+  private async saveOwnedRecord(
+    label: GraphNodeType,
+    recordId: string,
+    ownerId: string,
+    record: object,
+    scope?: MemoryScope,
+    properties: Record<string, any> = {}
+  ): Promise<void> {
+    const ownerScope = this.resolveOwnerScope(ownerId, 'write', scope);
+    this.assertRecordOwner(await this.findRecordNode(label, recordId), label, recordId, ownerId, ownerScope);
+    await this.writeRecord(label, recordId, ownerId, record, ownerScope, properties);
+  }
+
+  /**
+   * Merge a record into its graph node; the record itself is stored as JSON
+   */
+  private async writeRecord(
+    label: GraphNodeType,
+    recordId: string,
+    ownerId: string,
+    record: object,
+    scope: MemoryScope,
+    properties: Record<string, any> = {}
+  ): Promise<void> {
+    const result = await this.storeGraphRAG({
+      nodes: [{
+        id: recordId,
+        labels: [label],
+        properties: { ...properties, userId: ownerId, record: JSON.stringify(record) }
+      }],
+      relationships: [],
+      operation: 'merge'
+    }, scope);
+
+    if (!result.success) {
+      throw new Error(`Failed to save ${label} ${recordId}: ${result.error || 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Read a record by ID, or null when it is missing or outside the scope
+   */
+  private async getRecord<T>(label: GraphNodeType, recordId: string, scope?: MemoryScope): Promise<T | null> {
+    const node = await this.findRecordNode(label, recordId, scope);
+    return node ? this.parseRecord<T>(node) : null;
+  }
+
+  /**
+   * Graph node holding a record
+   */
+  private async findRecordNode(
+    label: GraphNodeType,
+    recordId: string,
+    scope: MemoryScope = RECORD_LOOKUP_SCOPE
+  ): Promise<GraphResult | null> {
+    const nodes = await this.findRecordNodes(label, [{ property: '_id', operator: 'equals', value: recordId }], scope);
+    return nodes[0] || null;
+  }
+
+  /**
+   * Graph nodes holding records that match property filters
+   */
+  private async findRecordNodes(label: GraphNodeType, filters: PropertyFilter[], scope: MemoryScope): Promise<GraphResult[]> {
+    const results = await this.queryGraphRAG({
+      type: 'structured',
+      query: { nodeTypes: [label], relationshipTypes: [], filters, returnFields: ['n0'] }
+    }, scope);
+
+    return results.filter(result => result.type === 'node' && typeof result.metadata.properties.record === 'string');
+  }
+
+  /**
+   * Deserialize a stored record, reviving its dates
+   */
+  private parseRecord<T>(node: GraphResult): T {
+    return JSON.parse(node.metadata.properties.record, createDateReviver());
+  }
+
+  /**
+   * Store a reflection's text in the semantic layer, linked to its graph node
+   */
+  private async indexReflectionText(
+    reflection: ReflectionEntry,
+    tags: string[],
+    userState: UserState,
+    scope: MemoryScope
+  ): Promise<string> {
+    const text = this.getReflectionText(reflection);
+    const result = await this.storeSemanticRAG({
+      content: text,
+      embedding: await this.generateEmbedding(text),
+      metadata: {
+        source: 'chronicler',
+        tags: [...tags, `${GRAPH_NODE_TAG}${reflection.id}`],
+        timestamp: new Date()
+      }
+    }, userState, scope);
+
+    if (!result.success) {
+      throw new Error(`Failed to index reflection ${reflection.id}: ${result.error || 'Unknown error'}`);
+    }
+    return result.entityId;
+  }
+
+  /**
+   * Index a reflection's captured emotional contexts again, against its current text
+   * Entries already created are removed again when one of them fails.
+   */
+  private async reindexEmotionalContexts(
+    reflection: ReflectionEntry,
+    contexts: CapturedEmotionalContext[],
+    scope: MemoryScope
+  ): Promise<CapturedEmotionalContext[]> {
+    const reindexed: CapturedEmotionalContext[] = [];
+    try {
+      for (const context of contexts) {
+        const entryId = await this.indexReflectionText(
+          reflection,
+          ['emotional_context', `emotional_context:${context.source}`],
+          context.user_state,
+          scope
+        );
+        reindexed.push({ ...context, entry_id: entryId });
+      }
+    } catch (error) {
+      this.deleteSemanticEntries(reindexed.map(context => context.entry_id));
+      throw error;
+    }
+    return reindexed;
+  }
+
+  /**
+   * Emotional contexts captured for the reflection held by a graph node
+   */
+  private parseEmotionalContexts(node: GraphResult): CapturedEmotionalContext[] {
+    const stored = node.metadata.properties.emotionalContexts;
+    return typeof stored === 'string' ? JSON.parse(stored, createDateReviver()) : [];
+  }
+
+  /**
+   * Remove semantic entries by ID, skipping unset ones
+   */
+  private deleteSemanticEntries(entryIds: Array<string | null>): void {
+    entryIds.forEach(entryId => {
+      if (entryId) {
+        this.semanticRAG.deleteEntry(entryId);
+      }
+    });
+  }
+
+  /**
+   * Searchable text of a reflection
+   */
+  private getReflectionText(reflection: ReflectionEntry): string {
+    return [reflection.title, reflection.content.text].filter(Boolean).join('\n').trim();
+  }
+
+  /**
+   * Whether a reflection passes tag, date and privacy filters
+   */
+  private matchesReflectionFilters(reflection: ReflectionEntry, filters: ReflectionFilters): boolean {
+    if (filters.tags && filters.tags.length > 0) {
+      const hasTag = (tag: string) => reflection.tags.includes(tag);
+      if (filters.tagMatch === 'any' ? !filters.tags.some(hasTag) : !filters.tags.every(hasTag)) {
+        return false;
+      }
+    }
+    if (filters.dateRange && (
+      reflection.created_at < filters.dateRange.start || reflection.created_at > filters.dateRange.end
+    )) {
+      return false;
+    }
+    return !filters.privacyLevel || reflection.privacy_level === filters.privacyLevel;
+  }
+
+  /**
+   * Whether a captured user state is close to every given emotional dimension
+   */
+  private matchesEmotionalFilters(userState: UserState | undefined, filters: Partial<UserState>): boolean {
+    if (!userState) {
+      return false;
+    }
+    return (['fight', 'flight', 'fixes'] as const).every(dimension => {
+      const wanted = filters[dimension];
+      return typeof wanted !== 'number' || Math.abs(userState[dimension] - wanted) <= EMOTIONAL_FILTER_TOLERANCE;
+    });
+  }
+
   /**
    * Validate memory access permissions
    */
@@ -281,33 +1136,24 @@ export class MemoryAssistantImpl implements MemoryAssistant {
       if (permission === 'delete' && !scope.permissions.delete) {
         throw new MemoryAccessError('Delete access denied', scope, requiredPermissions);
       }
+      if (permission === 'raw_cypher' && !scope.permissions.raw_cypher) {
+        throw new MemoryAccessError('Raw Cypher access denied', scope, requiredPermissions);
+      }
     }
   }
 
   /**
-   * Generate embedding for text (placeholder implementation)
+   * Generate embedding for text using the configured provider
    */
   private async generateEmbedding(text: string): Promise<number[]> {
-    // This is a placeholder - in a real implementation, this would call
-    // an embedding service like OpenAI's text-embedding-ada-002
-    const hash = this.simpleHash(text);
-    const embedding = new Array(1536).fill(0).map((_, i) => 
-      Math.sin(hash + i) * 0.1
-    );
-    return embedding;
+    return this.embeddingProvider.embed(text);
   }
 
   /**
-   * Simple hash function for placeholder embedding
+   * Get the embedding provider (for callers that embed content before storing it)
    */
-  private simpleHash(str: string): number {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32-bit integer
-    }
-    return hash;
+  getEmbeddingProvider(): EmbeddingProvider {
+    return this.embeddingProvider;
   }
 
   /**
@@ -383,13 +1229,14 @@ export class MemoryAssistantImpl implements MemoryAssistant {
   }
 
   /**
-   * Cleanup expired STM contexts
+   * Cleanup expired STM contexts, queueing modified ones for consolidation
    */
   cleanupExpiredContexts(): void {
     const now = new Date();
     for (const [contextThread, context] of Array.from(this.stmContexts.entries())) {
       if (context.expiresAt <= now) {
         this.stmContexts.delete(contextThread);
+        this.consolidator?.enqueueSTMContext(context);
       }
     }
   }
@@ -0,0 +1,354 @@
+// Consolidation pipeline turning STM contexts and reflections into long-term graph facts
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ConsolidationResult,
+  ConsolidationSource,
+  ExtractedEntity,
+  FactExtractor,
+  GraphNode,
+  GraphRelationship,
+  GraphResult,
+  GraphStore,
+  STMContext,
+  Transaction
+} from '../../types/memory';
+import { MemoryScope } from '../../types';
+import { GraphNodeType } from '../../types/data-models';
+import { ReflectionEntry } from '../../types/chronicler';
+import { HeuristicFactExtractor } from './fact-extractor';
+
+/**
+ * Graph node used for each extracted entity kind
+ */
+const ENTITY_NODES: Record<ExtractedEntity['kind'], { label: GraphNodeType; category?: string }> = {
+  person: { label: 'Contact' },
+  place: { label: 'Theme', category: 'place' },
+  event: { label: 'Event' },
+  emotion: { label: 'Theme', category: 'emotion' }
+};
+
+/**
+ * Consolidation pipeline configuration
+ */
+export interface MemoryConsolidatorOptions {
+  /** Fact extractor (defaults to the offline heuristic extractor) */
+  extractor?: FactExtractor;
+
+  /** Maximum sources consolidated per run */
+  batchSize?: number;
+
+  /** Attempts per source before a failing source is dropped (default: 3) */
+  maxAttempts?: number;
+}
+
+/**
+ * Extracts people, places, events and emotions from queued sources and merges
+ * them into the graph store
+ * Entities are matched against existing nodes by a normalized `nameKey`, so the
+ * same person mentioned in many reflections stays one node. Every node keeps a
+ * `sources` list of provenance references (`reflection:<id>` or
+ * `conversation:<contextThread>`); events are keyed by their source, which makes
+ * re-consolidating a source idempotent. Facts are only ever merged within one
+ * user's graph: a conversation is consolidated once for each participant.
+ */
+export class MemoryConsolidator {
+  private graphStore: GraphStore;
+  private extractor: FactExtractor;
+  private batchSize: number;
+  private maxAttempts: number;
+  private queue: ConsolidationSource[] = [];
+  private attempts = new Map<string, number>();
+  private running: Promise<ConsolidationResult[]> | null = null;
+  private lastRunAt: Date | null = null;
+  private failedCount = 0;
+
+  constructor(graphStore: GraphStore, options: MemoryConsolidatorOptions = {}) {
+    this.graphStore = graphStore;
+    this.extractor = options.extractor || new HeuristicFactExtractor();
+    this.batchSize = options.batchSize ?? 20;
+    this.maxAttempts = options.maxAttempts ?? 3;
+  }
+
+  /**
+   * Queue a source; a queued source with the same provenance and owner is replaced
+   */
+  enqueue(source: ConsolidationSource): void {
+    const key = this.getQueueKey(source);
+    this.queue = this.queue.filter(queued => this.getQueueKey(queued) !== key);
+    this.queue.push(source);
+    this.attempts.delete(key);
+  }
+
+  /**
+   * Queue a modified STM context as a conversation source
+   */
+  enqueueSTMContext(context: STMContext): void {
+    if (!context.modified) {
+      return;
+    }
+
+    const text = [
+      ...context.semanticData.map(result => result.content),
+      ...context.graphData
+        .map(result => result.data?.content)
+        .filter((content): content is string => typeof content === 'string')
+    ].join('\n').trim();
+
+    if (!text) {
+      return;
+    }
+
+    // Each participant gets the facts in their own graph
+    const userIds = context.scope?.user_ids || [];
+    userIds
+      .filter((userId, index) => userIds.indexOf(userId) === index)
+      .forEach(userId => this.enqueue({
+        kind: 'conversation',
+        id: context.contextThread,
+        userId,
+        text,
+        userState: context.userStates[context.userStates.length - 1],
+        timestamp: context.createdAt
+      }));
+  }
+
+  /**
+   * Queue a saved reflection
+   */
+  enqueueReflection(reflection: ReflectionEntry): void {
+    const text = [reflection.title, reflection.content.text].filter(Boolean).join('\n').trim();
+    if (!text || reflection.status === 'deleted') {
+      return;
+    }
+
+    this.enqueue({
+      kind: 'reflection',
+      id: reflection.id,
+      userId: reflection.user_id,
+      text,
+      userState: reflection.emotional_context,
+      emotions: reflection.content.metadata?.dominant_emotions,
+      places: reflection.location?.name ? [reflection.location.name] : undefined,
+      timestamp: reflection.created_at
+    });
+  }
+
+  /**
+   * Consolidate up to one batch of queued sources
+   * Concurrent calls share the run in progress. Failures are reported in the
+   * results rather than thrown, so a periodic tick can call this unguarded.
+   */
+  runPending(): Promise<ConsolidationResult[]> {
+    if (!this.running) {
+      this.running = this.processBatch().then(results => {
+        this.running = null;
+        return results;
+      });
+    }
+    return this.running;
+  }
+
+  /**
+   * Extract facts from one source and merge them into the graph
+   */
+  async consolidate(source: ConsolidationSource): Promise<ConsolidationResult> {
+    const provenance = this.getProvenance(source);
+    const result: ConsolidationResult = {
+      provenance,
+      success: false,
+      createdNodeIds: [],
+      mergedNodeIds: [],
+      relationshipIds: []
+    };
+
+    // An unscoped lookup would merge entities across users
+    if (!source.userId) {
+      result.error = `Source ${provenance} has no owning user`;
+      return result;
+    }
+
+    const scope: MemoryScope = {
+      id: `consolidation:${provenance}`,
+      user_ids: [source.userId],
+      project_ids: [],
+      contact_ids: [],
+      permissions: { read: true, write: true, delete: false }
+    };
+
+    let transaction: Transaction | null = null;
+    let committing = false;
+
+    try {
+      const facts = await this.extractor.extract(source);
+      const nodes: GraphNode[] = [];
+      const nodeIdsByKey = new Map<string, string>();
+      const entityNodeIds: string[] = [];
+
+      for (const entity of facts.entities) {
+        const nameKey = this.getNameKey(entity, provenance);
+        let nodeId = nodeIdsByKey.get(nameKey);
+
+        if (!nodeId) {
+          const { label, category } = ENTITY_NODES[entity.kind];
+          const existing = await this.findExisting(label, nameKey, scope);
+          const resolvedId: string = existing ? existing.metadata.properties._id || existing.metadata.id : uuidv4();
+          nodeId = resolvedId;
+          nodeIdsByKey.set(nameKey, resolvedId);
+          (existing ? result.mergedNodeIds : result.createdNodeIds).push(resolvedId);
+
+          const sources: string[] = existing?.metadata.properties.sources || [];
+          nodes.push({
+            id: resolvedId,
+            labels: [label],
+            properties: {
+              ...entity.properties,
+              name: entity.name,
+              nameKey,
+              ...(category ? { category } : {}),
+              userId: source.userId,
+              sources: sources.includes(provenance) ? sources : [...sources, provenance],
+              consolidatedAt: new Date().toISOString()
+            }
+          });
+        }
+
+        entityNodeIds.push(nodeId);
+      }
+
+      const relationships: GraphRelationship[] = [];
+      for (const relationship of facts.relationships) {
+        const fromNodeId = entityNodeIds[relationship.from];
+        const toNodeId = entityNodeIds[relationship.to];
+        if (!fromNodeId || !toNodeId || fromNodeId === toNodeId) {
+          continue;
+        }
+
+        // Deterministic IDs keep repeated mentions from duplicating relationships
+        const id = `${fromNodeId}:${relationship.type}:${toNodeId}`;
+        if (!relationships.some(existing => existing.id === id)) {
+          relationships.push({ id, fromNodeId, toNodeId, type: relationship.type, properties: { source: provenance } });
+        }
+      }
+
+      transaction = {
+        id: uuidv4(),
+        scope,
+        startTime: new Date(),
+        status: 'active',
+        operations: []
+      };
+      await this.graphStore.beginTransaction(transaction);
+
+      const stored = await this.graphStore.store({ nodes, relationships, operation: 'merge' }, transaction);
+      if (!stored.success) {
+        throw new Error(stored.error || 'Graph store rejected consolidated facts');
+      }
+
+      committing = true;
+      await this.graphStore.commitTransaction(transaction);
+
+      result.success = true;
+      result.relationshipIds = relationships.map(relationship => relationship.id!);
+    } catch (error) {
+      if (transaction && !committing) {
+        await this.graphStore.rollbackTransaction(transaction).catch(() => undefined);
+      }
+      result.error = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    return result;
+  }
+
+  /**
+   * Number of sources waiting to be consolidated
+   */
+  getPendingCount(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Consolidation statistics for health monitoring
+   */
+  getStats(): { pending: number; failed: number; lastRunAt: Date | null; extractor: string } {
+    return {
+      pending: this.queue.length,
+      failed: this.failedCount,
+      lastRunAt: this.lastRunAt,
+      extractor: this.extractor.name
+    };
+  }
+
+  /**
+   * Consolidate one batch sequentially so later sources see earlier merges
+   * A failed source goes back in the queue for a later run until it has used
+   * up its attempts, unless a newer version of it was queued meanwhile.
+   */
+  private async processBatch(): Promise<ConsolidationResult[]> {
+    const batch = this.queue.splice(0, this.batchSize);
+    const results: ConsolidationResult[] = [];
+
+    for (const source of batch) {
+      const result = await this.consolidate(source);
+      const key = this.getQueueKey(source);
+      if (result.success) {
+        this.attempts.delete(key);
+      } else {
+        this.failedCount++;
+        const attempts = (this.attempts.get(key) || 0) + 1;
+        const requeued = this.queue.some(queued => this.getQueueKey(queued) === key);
+        if (attempts < this.maxAttempts && !requeued) {
+          this.attempts.set(key, attempts);
+          this.queue.push(source);
+        } else if (!requeued) {
+          this.attempts.delete(key);
+        }
+      }
+      results.push(result);
+    }
+
+    this.lastRunAt = new Date();
+    return results;
+  }
+
+  /**
+   * Find a node previously consolidated under the same name key
+   */
+  private async findExisting(label: GraphNodeType, nameKey: string, scope: MemoryScope): Promise<GraphResult | null> {
+    const results = await this.graphStore.query({
+      type: 'structured',
+      query: {
+        nodeTypes: [label],
+        relationshipTypes: [],
+        filters: [{ property: 'nameKey', operator: 'equals', value: nameKey }],
+        returnFields: ['n0']
+      }
+    }, scope);
+
+    return results.find(result => result.type === 'node') || null;
+  }
+
+  /**
+   * Deduplication key of an entity
+   */
+  private getNameKey(entity: ExtractedEntity, provenance: string): string {
+    if (entity.kind === 'event') {
+      return `event:${provenance}`;
+    }
+    return `${entity.kind}:${entity.name.toLowerCase().replace(/\s+/g, ' ').trim()}`;
+  }
+
+  /**
+   * Queue identity of a source: its provenance for one owning user
+   */
+  private getQueueKey(source: ConsolidationSource): string {
+    return `${this.getProvenance(source)}@${source.userId || ''}`;
+  }
+
+  /**
+   * Provenance reference of a source
+   */
+  private getProvenance(source: ConsolidationSource): string {
+    return `${source.kind}:${source.id}`;
+  }
+}
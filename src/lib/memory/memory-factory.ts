@@ -1,13 +1,35 @@
 // Memory system factory for initializing dual RAG architecture
 
-import { MemoryAssistantImpl, GraphRAG, SemanticRAG } from './index';
-import { MemoryAssistant } from '../../types/memory';
+import { MemoryAssistantImpl, GraphRAG, SemanticRAG, HashedNgramEmbeddingProvider } from './index';
+import { SemanticIndexConfig } from './semantic-rag';
+import { InMemorySemanticStorage } from './semantic-storage';
+import { FileSemanticStorage } from './file-semantic-storage';
+import { EmbeddedGraphStore } from './embedded-graph-store';
+import { FileGraphPersistence } from './file-graph-persistence';
+import { MemoryConsolidator } from './memory-consolidator';
+import {
+  MemoryAssistant,
+  EmbeddingProvider,
+  GraphStore,
+  SemanticIndexStats,
+  SemanticStorageAdapter,
+  FactExtractor,
+  ConsolidationResult
+} from '../../types/memory';
 
 /**
  * Configuration for memory system initialization
  */
 export interface MemoryConfig {
-  /** Neo4j connection configuration */
+  /** Graph store selection; defaults to Neo4j */
+  graph?: {
+    type: 'neo4j' | 'embedded';
+    
+    /** Snapshot file path (embedded store only; omit for in-memory) */
+    filePath?: string;
+  };
+  
+  /** Neo4j connection configuration (used when graph.type is 'neo4j') */
   neo4j: {
     uri: string;
     username: string;
@@ -24,6 +46,20 @@ export interface MemoryConfig {
     
     /** Maximum entries to keep in memory */
     maxEntries?: number;
+    
+    /** Embedding provider; defaults to the offline hashed n-gram provider */
+    embeddingProvider?: EmbeddingProvider;
+    
+    /** Persistence backend; defaults to volatile in-memory storage */
+    storage?: {
+      type: 'memory' | 'file';
+      
+      /** Log file path (file storage only) */
+      filePath?: string;
+    };
+    
+    /** Nearest-neighbour index; defaults to HNSW */
+    index?: SemanticIndexConfig;
   };
   
   /** Memory management configuration */
@@ -36,6 +72,12 @@ export interface MemoryConfig {
     
     /** Maximum concurrent transactions */
     maxConcurrentTransactions: number;
+    
+    /** Sources consolidated into graph facts per cleanup tick (default: 20) */
+    consolidationBatchSize?: number;
+    
+    /** Fact extractor for consolidation; defaults to the offline heuristic extractor */
+    factExtractor?: FactExtractor;
   };
 }
 
@@ -45,8 +87,10 @@ export interface MemoryConfig {
 export class MemoryFactory {
   private static instance: MemoryFactory | null = null;
   private memoryAssistant: MemoryAssistant | null = null;
-  private graphRAG: GraphRAG | null = null;
+  private graphRAG: GraphStore | null = null;
   private semanticRAG: SemanticRAG | null = null;
+  private embeddingProvider: EmbeddingProvider | null = null;
+  private consolidator: MemoryConsolidator | null = null;
   private cleanupInterval: NodeJS.Timeout | null = null;
 
   private constructor() {}
@@ -70,18 +114,28 @@ export class MemoryFactory {
     }
 
     try {
-      // Initialize Graph RAG with Neo4j
-      this.graphRAG = new GraphRAG(
-        config.neo4j.uri,
-        config.neo4j.username,
-        config.neo4j.password
-      );
-
-      // Initialize Semantic RAG
-      this.semanticRAG = new SemanticRAG();
-
-      // Create Memory Assistant
-      this.memoryAssistant = new MemoryAssistantImpl(this.graphRAG, this.semanticRAG);
+      // Initialize Graph RAG with the configured store
+      this.graphRAG = this.createGraphStore(config);
+
+      // Initialize embedding provider and Semantic RAG
+      this.embeddingProvider = this.createEmbeddingProvider(config);
+      this.semanticRAG = new SemanticRAG({
+        embeddingDimension: config.semantic.embeddingDimension,
+        storage: this.createSemanticStorage(config),
+        index: config.semantic.index
+      });
+      await this.semanticRAG.initialize();
+
+      // Create consolidation pipeline and Memory Assistant
+      this.consolidator = new MemoryConsolidator(this.graphRAG, {
+        extractor: config.management.factExtractor,
+        batchSize: config.management.consolidationBatchSize
+      });
+      this.memoryAssistant = new MemoryAssistantImpl(this.graphRAG, this.semanticRAG, {
+        embeddingProvider: this.embeddingProvider,
+        semanticThreshold: config.semantic.defaultThreshold,
+        consolidator: this.consolidator
+      });
 
       // Setup periodic cleanup
       this.setupCleanup(config.management.cleanupIntervalMinutes);
@@ -107,9 +161,9 @@ export class MemoryFactory {
   }
 
   /**
-   * Get the Graph RAG instance
+   * Get the Graph RAG store
    */
-  getGraphRAG(): GraphRAG {
+  getGraphRAG(): GraphStore {
     if (!this.graphRAG) {
       throw new Error('Memory system not initialized. Call initialize() first.');
     }
@@ -126,11 +180,99 @@ export class MemoryFactory {
     return this.semanticRAG;
   }
 
+  /**
+   * Get the embedding provider
+   */
+  getEmbeddingProvider(): EmbeddingProvider {
+    if (!this.embeddingProvider) {
+      throw new Error('Memory system not initialized. Call initialize() first.');
+    }
+    return this.embeddingProvider;
+  }
+
+  /**
+   * Get the consolidation pipeline
+   */
+  getConsolidator(): MemoryConsolidator {
+    if (!this.consolidator) {
+      throw new Error('Memory system not initialized. Call initialize() first.');
+    }
+    return this.consolidator;
+  }
+
+  /**
+   * Run one maintenance tick: expire STM contexts and consolidate queued sources
+   */
+  async runMaintenance(): Promise<ConsolidationResult[]> {
+    if (!this.memoryAssistant || !this.consolidator) {
+      return [];
+    }
+
+    (this.memoryAssistant as MemoryAssistantImpl).cleanupExpiredContexts();
+    return this.consolidator.runPending();
+  }
+
+  /**
+   * Resolve the embedding provider and check it matches the configured dimension
+   */
+  private createEmbeddingProvider(config: MemoryConfig): EmbeddingProvider {
+    const provider = config.semantic.embeddingProvider || new HashedNgramEmbeddingProvider({
+      dimension: config.semantic.embeddingDimension
+    });
+
+    if (provider.dimension !== config.semantic.embeddingDimension) {
+      throw new Error(
+        `Embedding provider ${provider.name} produces ${provider.dimension}-dimensional vectors, ` +
+        `but semantic.embeddingDimension is ${config.semantic.embeddingDimension}`
+      );
+    }
+
+    return provider;
+  }
+
+  /**
+   * Resolve the Graph RAG store
+   */
+  private createGraphStore(config: MemoryConfig): GraphStore {
+    if (config.graph?.type === 'embedded') {
+      return new EmbeddedGraphStore({
+        persistence: config.graph.filePath ? new FileGraphPersistence(config.graph.filePath) : undefined
+      });
+    }
+
+    return new GraphRAG(
+      config.neo4j.uri,
+      config.neo4j.username,
+      config.neo4j.password
+    );
+  }
+
+  /**
+   * Resolve the Semantic RAG storage backend
+   */
+  private createSemanticStorage(config: MemoryConfig): SemanticStorageAdapter {
+    const storage = config.semantic.storage;
+
+    if (!storage || storage.type === 'memory') {
+      return new InMemorySemanticStorage();
+    }
+
+    if (!storage.filePath) {
+      throw new Error('semantic.storage.filePath is required for file storage');
+    }
+
+    return new FileSemanticStorage(storage.filePath);
+  }
+
   /**
    * Create default configuration for development
    */
   static createDefaultConfig(): MemoryConfig {
     return {
+      graph: {
+        type: process.env.GRAPH_STORE === 'embedded' ? 'embedded' : 'neo4j',
+        filePath: process.env.GRAPH_STORE_PATH
+      },
       neo4j: {
         uri: process.env.NEO4J_URI || 'bolt://localhost:7687',
         username: process.env.NEO4J_USERNAME || 'neo4j',
@@ -154,6 +296,9 @@ export class MemoryFactory {
    */
   static createTestConfig(): MemoryConfig {
     return {
+      graph: {
+        type: 'embedded'
+      },
       neo4j: {
         uri: 'bolt://localhost:7687',
         username: 'neo4j',
@@ -185,7 +330,17 @@ export class MemoryFactory {
       semantic: {
         embeddingDimension: 1536,
         defaultThreshold: 0.75,
-        maxEntries: 100000
+        maxEntries: 100000,
+        storage: {
+          type: 'file',
+          filePath: process.env.SEMANTIC_STORE_PATH || './data/semantic-memory.jsonl'
+        },
+        index: {
+          type: 'hnsw',
+          m: 16,
+          efConstruction: 200,
+          efSearch: 100
+        }
       },
       management: {
         stmExpirationMinutes: 60,
@@ -204,9 +359,8 @@ export class MemoryFactory {
     }
 
     this.cleanupInterval = setInterval(() => {
-      if (this.memoryAssistant) {
-        (this.memoryAssistant as MemoryAssistantImpl).cleanupExpiredContexts();
-      }
+      // Consolidation reports failures in its results, so the tick never rejects
+      void this.runMaintenance();
     }, intervalMinutes * 60 * 1000);
   }
 
@@ -220,19 +374,7 @@ export class MemoryFactory {
 
     // Test Graph RAG connection
     try {
-      const testScope = {
-        id: 'test',
-        user_ids: [],
-        project_ids: [],
-        contact_ids: [],
-        permissions: { read: true, write: false, delete: false }
-      };
-
-      await this.graphRAG.query({
-        type: 'cypher',
-        query: 'RETURN 1 as test',
-        limit: 1
-      }, testScope);
+      await this.graphRAG.verifyConnection();
     } catch (error) {
       throw new Error(`Graph RAG connection failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -259,10 +401,13 @@ export class MemoryFactory {
     }
 
     if (this.semanticRAG) {
-      this.semanticRAG.clear();
+      // Close rather than clear so persisted memories survive shutdown
+      await this.semanticRAG.close();
       this.semanticRAG = null;
     }
 
+    this.embeddingProvider = null;
+    this.consolidator = null;
     this.memoryAssistant = null;
   }
 
@@ -291,24 +436,32 @@ export class MemoryFactory {
         metrics: {
           activeTransactions: 0,
           stmContexts: 0,
-          semanticEntries: 0
+          semanticEntries: 0,
+          embeddingProvider: null,
+          semanticIndex: null,
+          pendingConsolidations: 0
         }
       };
     }
 
     const memoryAssistantImpl = this.memoryAssistant as MemoryAssistantImpl;
+    const semanticIndex = this.semanticRAG?.getIndexStats() || null;
+    const semanticStatus = semanticIndex?.rebuilding ? 'degraded' : 'healthy';
 
     return {
-      status: 'healthy',
+      status: semanticStatus,
       components: {
         graphRAG: 'healthy',
-        semanticRAG: 'healthy',
+        semanticRAG: semanticStatus,
         memoryAssistant: 'healthy'
       },
       metrics: {
         activeTransactions: memoryAssistantImpl.getActiveTransactionCount(),
         stmContexts: memoryAssistantImpl.getSTMContextCount(),
-        semanticEntries: this.semanticRAG?.getEntryCount() || 0
+        semanticEntries: this.semanticRAG?.getEntryCount() || 0,
+        embeddingProvider: this.embeddingProvider?.name || null,
+        semanticIndex,
+        pendingConsolidations: this.consolidator?.getPendingCount() || 0
       }
     };
   }
@@ -333,6 +486,9 @@ export interface MemoryHealthStatus {
     activeTransactions: number;
     stmContexts: number;
     semanticEntries: number;
+    embeddingProvider: string | null;
+    semanticIndex: SemanticIndexStats | null;
+    pendingConsolidations: number;
   };
 }
 
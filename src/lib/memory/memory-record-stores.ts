@@ -0,0 +1,81 @@
+/**
+ * Record stores over the memory assistant
+ * Narrow views of the records the memory assistant keeps, for the services
+ * that work on all of one user's records at once (erasure, export, import).
+ */
+
+import { MemoryScope } from '../../types';
+import { MemoryAssistant } from '../../types/memory';
+import { ReflectionEntry } from '../../types/chronicler';
+import { CollaborativeSession } from '../../types/collaboration';
+
+/** Scope for looking up a record by ID before its owner is known */
+const RECORD_LOOKUP_SCOPE: MemoryScope = {
+  id: 'memory-record-stores:records',
+  user_ids: [],
+  project_ids: [],
+  contact_ids: [],
+  permissions: { read: true, write: false, delete: false }
+};
+
+/**
+ * A user's reflections, saved and deleted in the user's own scope
+ */
+export interface ReflectionRecordStore {
+  getUserReflections(userId: string): Promise<ReflectionEntry[]>;
+  saveReflection(reflection: ReflectionEntry): Promise<void>;
+  deleteReflection(reflectionId: string): Promise<void>;
+}
+
+/**
+ * The collaborative sessions a user takes part in
+ */
+export interface CollaborativeSessionRecordStore {
+  getUserCollaborativeSessions(userId: string): Promise<CollaborativeSession[]>;
+  saveCollaborativeSession(session: CollaborativeSession): Promise<void>;
+}
+
+/**
+ * Reflections in the memory assistant
+ * Deleting marks the reflection deleted, which drops its semantic entries and
+ * leaves it out of every listing.
+ */
+export function createReflectionRecordStore(memoryAssistant: MemoryAssistant): ReflectionRecordStore {
+  return {
+    async getUserReflections(userId) {
+      return (await memoryAssistant.getUserReflections(userId)).reflections;
+    },
+
+    async saveReflection(reflection) {
+      await memoryAssistant.saveReflection(reflection);
+    },
+
+    async deleteReflection(reflectionId) {
+      const reflection = await memoryAssistant.getReflection(reflectionId, RECORD_LOOKUP_SCOPE);
+      if (!reflection) {
+        throw new Error(`Reflection not found: ${reflectionId}`);
+      }
+      await memoryAssistant.saveReflection({ ...reflection, status: 'deleted', updated_at: new Date() });
+    }
+  };
+}
+
+/**
+ * Active collaborative sessions in the memory assistant
+ * Ended sessions are left as they are; their records go with their host.
+ */
+export function createCollaborativeSessionRecordStore(memoryAssistant: MemoryAssistant): CollaborativeSessionRecordStore {
+  return {
+    async getUserCollaborativeSessions(userId) {
+      const sessions = await memoryAssistant.listActiveCollaborativeSessions();
+      return sessions.filter(session =>
+        session.host_user_id === userId ||
+        session.participants.some(participant => participant.user_id === userId)
+      );
+    },
+
+    async saveCollaborativeSession(session) {
+      await memoryAssistant.saveCollaborativeSession(session);
+    }
+  };
+}
@@ -5,9 +5,48 @@ import {
   SemanticQuery,
   SemanticResult,
   SemanticData,
-  StorageResult
+  StorageResult,
+  EmbeddingDimensionError,
+  SemanticEntry,
+  SemanticStorageAdapter,
+  SemanticIndexStats
 } from '../../types/memory';
 import { UserState, MemoryScope } from '../../types';
+import { HNSWIndex, HNSWConfig } from './hnsw-index';
+import { InMemorySemanticStorage } from './semantic-storage';
+
+/**
+ * Approximate nearest-neighbour index configuration
+ */
+export interface SemanticIndexConfig extends Partial<HNSWConfig> {
+  /** Index type ('none' always scans linearly) */
+  type: 'hnsw' | 'none';
+  
+  /** Below this many entries queries scan linearly instead of using the index */
+  linearScanThreshold?: number;
+  
+  /** Rebuild once this fraction of indexed vectors has been deleted */
+  rebuildDeletedRatio?: number;
+}
+
+/**
+ * Semantic RAG configuration
+ */
+export interface SemanticRAGOptions {
+  /** Required embedding dimension; inferred from the first stored entry if omitted */
+  embeddingDimension?: number;
+  
+  /** Persistence backend (defaults to volatile in-memory storage) */
+  storage?: SemanticStorageAdapter;
+  
+  /** Nearest-neighbour index (defaults to HNSW) */
+  index?: SemanticIndexConfig;
+}
+
+/**
+ * Entries indexed per batch during a rebuild before yielding to the event loop
+ */
+const REBUILD_BATCH_SIZE = 256;
 
 /**
  * Semantic RAG implementation for associative data storage
@@ -16,9 +55,45 @@ import { UserState, MemoryScope } from '../../types';
 export class SemanticRAG {
   private embeddings: Map<string, SemanticEntry> = new Map();
   private userStateIndex: Map<string, string[]> = new Map(); // userId -> entryIds
+  private configuredDimension: number | null;
+  private embeddingDimension: number | null;
+  private storage: SemanticStorageAdapter;
+  private indexConfig: SemanticIndexConfig;
+  private index: HNSWIndex | null;
+  private rebuilding = false;
+  private lastRebuildAt: Date | null = null;
+  private pendingWrites: Promise<void> = Promise.resolve();
+  private failedWrites: Error[] = [];
+
+  constructor(options: SemanticRAGOptions = {}) {
+    this.configuredDimension = options.embeddingDimension || null;
+    this.embeddingDimension = this.configuredDimension;
+    this.storage = options.storage || new InMemorySemanticStorage();
+    this.indexConfig = {
+      linearScanThreshold: 1000,
+      rebuildDeletedRatio: 0.25,
+      ...(options.index || { type: 'hnsw' })
+    };
+    this.index = this.createIndex();
+  }
+
+  /**
+   * Load persisted entries and build the index
+   */
+  async initialize(): Promise<void> {
+    const entries = await this.storage.loadAll();
 
-  constructor() {
-    // Initialize the semantic memory store
+    this.embeddings.clear();
+    this.userStateIndex.clear();
+
+    for (const entry of entries) {
+      this.validateDimension(entry.embedding);
+      this.embeddings.set(entry.id, entry);
+      this.embeddingDimension = entry.embedding.length;
+      this.addToUserIndex(entry);
+    }
+
+    await this.rebuildIndex();
   }
 
   /**
@@ -30,19 +105,10 @@ export class SemanticRAG {
     const threshold = query.threshold || 0.7;
     const limit = query.limit || 10;
 
-    // Get entries within scope
-    const scopedEntries = this.getScopedEntries(scope);
-
     // Calculate similarities and collect results
-    const similarities: Array<{ entry: SemanticEntry; similarity: number }> = [];
-
-    for (const entry of scopedEntries) {
-      const similarity = this.calculateCosineSimilarity(queryEmbedding, entry.embedding);
-      
-      if (similarity >= threshold) {
-        similarities.push({ entry, similarity });
-      }
-    }
+    const similarities = this.shouldUseIndex()
+      ? this.searchIndex(queryEmbedding, scope, limit, threshold)
+      : this.scanLinear(queryEmbedding, scope, threshold);
 
     // Sort by similarity (descending) and apply limit
     similarities.sort((a, b) => b.similarity - a.similarity);
@@ -77,6 +143,8 @@ export class SemanticRAG {
    */
   async store(data: SemanticData, userState: UserState | undefined, scope: MemoryScope): Promise<StorageResult> {
     try {
+      this.validateDimension(data.embedding);
+
       const entryId = uuidv4();
       const timestamp = new Date();
 
@@ -92,14 +160,17 @@ export class SemanticRAG {
         userId: scope.user_ids[0] || 'system' // Use first user ID or system
       };
 
+      // Persist before exposing the entry to queries
+      await this.storage.save(entry);
+
       // Store the entry
       this.embeddings.set(entryId, entry);
+      this.embeddingDimension = entry.embedding.length;
 
-      // Update user state index
-      if (entry.userId) {
-        const userEntries = this.userStateIndex.get(entry.userId) || [];
-        userEntries.push(entryId);
-        this.userStateIndex.set(entry.userId, userEntries);
+      // Update user state and nearest-neighbour indexes
+      this.addToUserIndex(entry);
+      if (this.index && !this.rebuilding) {
+        this.index.add(entryId, entry.embedding);
       }
 
       return {
@@ -117,6 +188,200 @@ export class SemanticRAG {
     }
   }
 
+  /**
+   * Linear cosine scan over all scoped entries
+   */
+  private scanLinear(
+    queryEmbedding: number[],
+    scope: MemoryScope,
+    threshold: number
+  ): Array<{ entry: SemanticEntry; similarity: number }> {
+    const similarities: Array<{ entry: SemanticEntry; similarity: number }> = [];
+
+    for (const entry of this.getScopedEntries(scope)) {
+      const similarity = this.calculateCosineSimilarity(queryEmbedding, entry.embedding);
+      
+      if (similarity >= threshold) {
+        similarities.push({ entry, similarity });
+      }
+    }
+
+    return similarities;
+  }
+
+  /**
+   * Approximate search through the HNSW index, restricted to scoped entries
+   */
+  private searchIndex(
+    queryEmbedding: number[],
+    scope: MemoryScope,
+    limit: number,
+    threshold: number
+  ): Array<{ entry: SemanticEntry; similarity: number }> {
+    const hits = this.index!.search(queryEmbedding, limit, id => {
+      const entry = this.embeddings.get(id);
+      return !!entry && this.isEntryInScope(entry, scope);
+    });
+
+    return hits
+      .filter(hit => hit.similarity >= threshold)
+      .map(hit => ({ entry: this.embeddings.get(hit.id)!, similarity: hit.similarity }));
+  }
+
+  /**
+   * Whether queries should go through the index
+   */
+  private shouldUseIndex(): boolean {
+    return !!this.index &&
+      !this.rebuilding &&
+      this.embeddings.size >= (this.indexConfig.linearScanThreshold || 0);
+  }
+
+  /**
+   * Create the configured nearest-neighbour index
+   */
+  private createIndex(): HNSWIndex | null {
+    if (this.indexConfig.type !== 'hnsw') {
+      return null;
+    }
+
+    const { type, linearScanThreshold, rebuildDeletedRatio, ...hnswConfig } = this.indexConfig;
+    return new HNSWIndex(hnswConfig);
+  }
+
+  /**
+   * Rebuild the nearest-neighbour index from stored entries
+   * Queries fall back to linear scans while the rebuild runs.
+   */
+  async rebuildIndex(): Promise<void> {
+    if (this.indexConfig.type !== 'hnsw' || this.rebuilding) {
+      return;
+    }
+
+    this.rebuilding = true;
+
+    try {
+      const index = this.createIndex()!;
+      const entries = Array.from(this.embeddings.values());
+
+      for (let i = 0; i < entries.length; i++) {
+        index.add(entries[i].id, entries[i].embedding);
+
+        if ((i + 1) % REBUILD_BATCH_SIZE === 0) {
+          await new Promise(resolve => setTimeout(resolve, 0));
+        }
+      }
+
+      // Reconcile entries stored or deleted while the rebuild was yielding
+      for (const entry of Array.from(this.embeddings.values())) {
+        if (!index.has(entry.id)) {
+          index.add(entry.id, entry.embedding);
+        }
+      }
+      for (const entry of entries) {
+        if (!this.embeddings.has(entry.id)) {
+          index.remove(entry.id);
+        }
+      }
+
+      this.index = index;
+      this.lastRebuildAt = new Date();
+    } finally {
+      this.rebuilding = false;
+    }
+  }
+
+  /**
+   * Rebuild once enough vectors have been soft-deleted from the index
+   */
+  private maybeRebuildIndex(): void {
+    if (!this.index || this.rebuilding) return;
+
+    const deleted = this.index.getDeletedCount();
+    const total = deleted + this.index.size();
+    
+    if (total > 0 && deleted / total >= (this.indexConfig.rebuildDeletedRatio || 0.25)) {
+      this.rebuildIndex().catch(() => {
+        // Index stays usable with soft-deleted vectors until the next attempt
+      });
+    }
+  }
+
+  /**
+   * Get nearest-neighbour index statistics (for monitoring)
+   */
+  getIndexStats(): SemanticIndexStats {
+    return {
+      type: this.index ? 'hnsw' : 'linear',
+      size: this.index ? this.index.size() : this.embeddings.size,
+      deleted: this.index ? this.index.getDeletedCount() : 0,
+      rebuilding: this.rebuilding,
+      lastRebuildAt: this.lastRebuildAt,
+      storage: this.storage.name
+    };
+  }
+
+  /**
+   * Queue a storage write behind earlier ones
+   * A failed write does not stop later ones; it is kept for `flush` to report.
+   */
+  private persist(write: () => Promise<void>): Promise<void> {
+    const result = this.pendingWrites.then(write);
+    this.pendingWrites = result.catch(error => {
+      this.failedWrites.push(error instanceof Error ? error : new Error(String(error)));
+    });
+    return result;
+  }
+
+  /**
+   * Wait for queued storage writes to finish
+   * Rejects when any write since the last flush failed.
+   */
+  async flush(): Promise<void> {
+    await this.pendingWrites;
+
+    const failed = this.failedWrites;
+    if (failed.length > 0) {
+      this.failedWrites = [];
+      throw new Error(`${failed.length} semantic storage write(s) failed: ${failed[0].message}`);
+    }
+  }
+
+  /**
+   * Add an entry to the per-user index
+   */
+  private addToUserIndex(entry: SemanticEntry): void {
+    if (entry.userId) {
+      const userEntries = this.userStateIndex.get(entry.userId) || [];
+      userEntries.push(entry.id);
+      this.userStateIndex.set(entry.userId, userEntries);
+    }
+  }
+
+  /**
+   * Ensure an embedding matches the dimension of this store
+   */
+  private validateDimension(embedding: number[]): void {
+    if (!Array.isArray(embedding) || embedding.length === 0) {
+      throw new Error('Embedding must be a non-empty vector');
+    }
+
+    if (this.embeddingDimension !== null && embedding.length !== this.embeddingDimension) {
+      throw new EmbeddingDimensionError(
+        `Embedding dimension ${embedding.length} does not match store dimension ${this.embeddingDimension}`,
+        this.embeddingDimension,
+        embedding.length
+      );
+    }
+  }
+
+  /**
+   * Get the embedding dimension enforced by this store (null until known)
+   */
+  getEmbeddingDimension(): number | null {
+    return this.embeddingDimension;
+  }
+
   /**
    * Get entries within the specified scope
    */
@@ -251,8 +516,13 @@ export class SemanticRAG {
     const entry = this.embeddings.get(entryId);
     if (!entry) return false;
 
-    // Remove from main storage
+    // Remove from main storage and index
     this.embeddings.delete(entryId);
+    this.persist(() => this.storage.remove(entryId));
+    if (this.index) {
+      this.index.remove(entryId);
+      this.maybeRebuildIndex();
+    }
 
     // Remove from user index
     if (entry.userId) {
@@ -299,6 +569,7 @@ export class SemanticRAG {
     if (!entry) return false;
 
     entry.tags = newTags;
+    this.persist(() => this.storage.save(entry));
     return true;
   }
 
@@ -308,20 +579,18 @@ export class SemanticRAG {
   clear(): void {
     this.embeddings.clear();
     this.userStateIndex.clear();
+    this.embeddingDimension = this.configuredDimension;
+    this.index = this.createIndex();
+    this.persist(() => this.storage.clear());
   }
-}
 
-/**
- * Internal semantic entry structure
- */
-interface SemanticEntry {
-  id: string;
-  content: string;
-  embedding: number[];
-  userState?: UserState;
-  source: string;
-  tags: string[];
-  timestamp: Date;
-  scope: string;
-  userId: string;
-}
\ No newline at end of file
+  /**
+   * Flush pending writes and release in-memory state, keeping persisted entries
+   */
+  async close(): Promise<void> {
+    await this.flush();
+    this.embeddings.clear();
+    this.userStateIndex.clear();
+    this.index = this.createIndex();
+  }
+}
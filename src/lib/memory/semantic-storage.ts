@@ -0,0 +1,27 @@
+// Storage adapters for the Semantic RAG
+
+import { SemanticEntry, SemanticStorageAdapter } from '../../types/memory';
+
+/**
+ * Volatile storage adapter (entries are lost on restart)
+ */
+export class InMemorySemanticStorage implements SemanticStorageAdapter {
+  readonly name = 'memory';
+  private entries: Map<string, SemanticEntry> = new Map();
+
+  async loadAll(): Promise<SemanticEntry[]> {
+    return Array.from(this.entries.values());
+  }
+
+  async save(entry: SemanticEntry): Promise<void> {
+    this.entries.set(entry.id, entry);
+  }
+
+  async remove(entryId: string): Promise<void> {
+    this.entries.delete(entryId);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,399 @@
+/**
+ * Block-level diff between reflection versions
+ * Blocks are aligned by ID (free text without text blocks is compared paragraph
+ * by paragraph) and every added, removed or edited block becomes a SemanticDiff
+ * that the editor's before-and-after view can render.
+ */
+
+import { ReflectionBlock, ReflectionSnapshot } from '../types/chronicler';
+import { ContentBlock, SemanticChange, SemanticDiff } from '../types/editor';
+import { sameJsonValue } from './value-utils';
+
+/** Longest excerpt quoted in a change description */
+const EXCERPT_LENGTH = 60;
+
+/** Share of words two paragraphs must have in common to count as one edited paragraph */
+const PARAGRAPH_PAIRING_SIMILARITY = 0.5;
+
+/** Block types whose content carries the reflection text */
+const TEXT_BLOCK_TYPES = ['text', 'quote', 'list'];
+
+/** Content fields read as a block's text (their changes are described word by word) */
+const TEXT_FIELDS = ['text', 'items', 'description', 'name', 'caption', 'alt'];
+
+/**
+ * Options for diffing two reflection versions
+ */
+export interface ReflectionDiffOptions {
+  /** Prefix of the generated diff IDs */
+  id_prefix: string;
+
+  /** When the older version was written */
+  before_at: Date;
+
+  /** When the newer version was written */
+  after_at: Date;
+}
+
+/**
+ * Block taking part in the alignment
+ */
+interface ComparableBlock {
+  /** Alignment key: the block ID, or the text of a free-text paragraph */
+  key: string;
+
+  /** Block as stored, or a text block made from a paragraph */
+  block: ReflectionBlock;
+
+  /** Whether the block is a paragraph of free text */
+  paragraph: boolean;
+
+  /** Position within its version */
+  index: number;
+}
+
+/**
+ * Aligned position: a block in either version or both
+ */
+interface AlignedBlock {
+  before?: ComparableBlock;
+  after?: ComparableBlock;
+}
+
+/**
+ * Differences between two reflection versions, in reading order
+ * Unchanged blocks are left out; a changed title comes first.
+ */
+export function diffReflectionSnapshots(
+  before: ReflectionSnapshot,
+  after: ReflectionSnapshot,
+  options: ReflectionDiffOptions
+): SemanticDiff[] {
+  const diffs: SemanticDiff[] = [];
+  const nextId = () => `${options.id_prefix}:${diffs.length + 1}`;
+
+  if (before.title !== after.title) {
+    diffs.push({
+      id: nextId(),
+      block_id: 'title',
+      before: toContentBlock({ id: 'title', type: 'text', content: before.title, metadata: { heading: 1 } }, options.before_at),
+      after: toContentBlock({ id: 'title', type: 'text', content: after.title, metadata: { heading: 1 } }, options.after_at),
+      changes: [{
+        type: 'modification',
+        path: 'title',
+        description: `Title changed from ${excerpt(before.title)} to ${excerpt(after.title)}`
+      }]
+    });
+  }
+
+  for (const aligned of alignBlocks(comparableBlocks(before), comparableBlocks(after))) {
+    const changes = describeChanges(aligned);
+    if (changes.length === 0) continue;
+
+    const reference = (aligned.after || aligned.before)!;
+    diffs.push({
+      id: nextId(),
+      block_id: reference.block.id,
+      before: aligned.before && toContentBlock(aligned.before.block, options.before_at),
+      after: aligned.after && toContentBlock(aligned.after.block, options.after_at),
+      changes
+    });
+  }
+
+  return diffs;
+}
+
+/**
+ * Blocks of a version; free text counts as paragraphs unless text blocks carry it
+ */
+function comparableBlocks(snapshot: ReflectionSnapshot): ComparableBlock[] {
+  const blocks = snapshot.content.blocks || [];
+  const comparable: ComparableBlock[] = [];
+
+  if (!blocks.some(block => TEXT_BLOCK_TYPES.indexOf(block.type) >= 0)) {
+    snapshot.content.text
+      .replace(/\r\n/g, '\n')
+      .split(/\n\s*\n/)
+      .map(paragraph => paragraph.trim())
+      .filter(Boolean)
+      .forEach(paragraph => {
+        comparable.push({
+          key: `text:${paragraph}`,
+          block: { id: `paragraph_${comparable.length + 1}`, type: 'text', content: paragraph },
+          paragraph: true,
+          index: comparable.length
+        });
+      });
+  }
+
+  blocks.forEach(block => {
+    comparable.push({ key: `block:${block.id}`, block, paragraph: false, index: comparable.length });
+  });
+  return comparable;
+}
+
+/**
+ * Align two block lists along their longest common subsequence of keys
+ * Unmatched paragraphs between two matches are paired with the most similar
+ * added paragraph, so a reworded paragraph shows as one change rather than a
+ * removal and an addition.
+ */
+function alignBlocks(before: ComparableBlock[], after: ComparableBlock[]): AlignedBlock[] {
+  const common: number[][] = [];
+  for (let i = before.length; i >= 0; i--) {
+    common[i] = [];
+    for (let j = after.length; j >= 0; j--) {
+      if (i === before.length || j === after.length) {
+        common[i][j] = 0;
+      } else if (before[i].key === after[j].key) {
+        common[i][j] = common[i + 1][j + 1] + 1;
+      } else {
+        common[i][j] = Math.max(common[i + 1][j], common[i][j + 1]);
+      }
+    }
+  }
+
+  const aligned: AlignedBlock[] = [];
+  let removed: ComparableBlock[] = [];
+  let added: ComparableBlock[] = [];
+
+  const flush = () => {
+    const unpaired = added.slice();
+    for (const block of removed) {
+      let partner: ComparableBlock | undefined;
+      let best = PARAGRAPH_PAIRING_SIMILARITY;
+      if (block.paragraph) {
+        for (const candidate of unpaired) {
+          const similarity = candidate.paragraph ? wordSimilarity(blockText(block.block), blockText(candidate.block)) : 0;
+          if (similarity >= best) {
+            partner = candidate;
+            best = similarity;
+          }
+        }
+      }
+      if (partner) {
+        unpaired.splice(unpaired.indexOf(partner), 1);
+        aligned.push({ before: block, after: partner });
+      } else {
+        aligned.push({ before: block });
+      }
+    }
+    unpaired.forEach(block => aligned.push({ after: block }));
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i].key === after[j].key) {
+      flush();
+      aligned.push({ before: before[i++], after: after[j++] });
+    } else if (j === after.length || (i < before.length && common[i + 1][j] >= common[i][j + 1])) {
+      removed.push(before[i++]);
+    } else {
+      added.push(after[j++]);
+    }
+  }
+  flush();
+
+  return aligned;
+}
+
+/**
+ * Changes between the two sides of an aligned block
+ */
+function describeChanges({ before, after }: AlignedBlock): SemanticChange[] {
+  if (!before) {
+    return [{ type: 'addition', path: blockPath(after!), description: `Added ${describeBlock(after!.block)}` }];
+  }
+  if (!after) {
+    return [{ type: 'deletion', path: blockPath(before), description: `Removed ${describeBlock(before.block)}` }];
+  }
+
+  const path = blockPath(after);
+  if (before.block.type !== after.block.type) {
+    return [{
+      type: 'modification',
+      path,
+      description: `Changed ${describeBlock(before.block)} into ${describeBlock(after.block)}`
+    }];
+  }
+
+  const changes: SemanticChange[] = [];
+  const textChange = describeTextChange(blockText(before.block), blockText(after.block), path);
+  if (textChange) {
+    changes.push(textChange);
+  }
+
+  const oldContent = typeof before.block.content === 'object' && before.block.content ? before.block.content : {};
+  const newContent = typeof after.block.content === 'object' && after.block.content ? after.block.content : {};
+  if (!Array.isArray(oldContent) && !Array.isArray(newContent)) {
+    const keys = Object.keys(oldContent).concat(Object.keys(newContent).filter(key => !(key in oldContent)));
+    for (const key of keys) {
+      if (TEXT_FIELDS.indexOf(key) >= 0 || sameJsonValue(oldContent[key], newContent[key])) continue;
+      changes.push({
+        type: 'modification',
+        path: `${path}.${key}`,
+        description: `Changed ${key} from ${formatValue(oldContent[key])} to ${formatValue(newContent[key])}`
+      });
+    }
+  }
+
+  if (changes.length === 0 && before.block.metadata?.heading !== after.block.metadata?.heading) {
+    changes.push({ type: 'modification', path, description: 'Changed heading level' });
+  }
+  return changes;
+}
+
+/**
+ * Words removed, added or replaced between two texts
+ * Also describes the pending edits of the editor's review mode.
+ */
+export function describeTextChange(oldText: string, newText: string, path: string): SemanticChange | null {
+  if (oldText === newText) return null;
+
+  const oldWords = oldText.split(/\s+/).filter(Boolean);
+  const newWords = newText.split(/\s+/).filter(Boolean);
+
+  let prefix = 0;
+  while (prefix < oldWords.length && prefix < newWords.length && oldWords[prefix] === newWords[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldWords.length - prefix &&
+    suffix < newWords.length - prefix &&
+    oldWords[oldWords.length - 1 - suffix] === newWords[newWords.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const removed = oldWords.slice(prefix, oldWords.length - suffix).join(' ');
+  const added = newWords.slice(prefix, newWords.length - suffix).join(' ');
+
+  if (removed && added) {
+    return { type: 'modification', path, description: `Replaced ${excerpt(removed)} with ${excerpt(added)}` };
+  }
+  if (removed) {
+    return { type: 'deletion', path, description: `Removed ${excerpt(removed)}` };
+  }
+  if (added) {
+    return { type: 'addition', path, description: `Added ${excerpt(added)}` };
+  }
+  return { type: 'modification', path, description: 'Changed line breaks and spacing' };
+}
+
+/**
+ * Share of words two texts have in common, relative to the longer one
+ */
+function wordSimilarity(a: string, b: string): number {
+  const aWords = a.toLowerCase().split(/\s+/).filter(Boolean);
+  const bWords = b.toLowerCase().split(/\s+/).filter(Boolean);
+  if (aWords.length === 0 || bWords.length === 0) return 0;
+
+  const remaining = bWords.slice();
+  let shared = 0;
+  for (const word of aWords) {
+    const index = remaining.indexOf(word);
+    if (index >= 0) {
+      remaining.splice(index, 1);
+      shared++;
+    }
+  }
+  return shared / Math.max(aWords.length, bWords.length);
+}
+
+/**
+ * Location of a block shown with its changes
+ */
+function blockPath(block: ComparableBlock): string {
+  return block.paragraph ? `paragraphs[${block.index}]` : `blocks[${block.index}]`;
+}
+
+/**
+ * Short description of a block, such as: quote “Det var en gång”
+ */
+function describeBlock(block: ReflectionBlock): string {
+  const text = blockText(block);
+  const kind = block.type === 'text' ? 'paragraph' : `${block.type} block`;
+  return text ? `${kind} ${excerpt(text)}` : kind;
+}
+
+/**
+ * Readable text of a reflection block, whatever shape its content has
+ */
+function blockText(block: ReflectionBlock): string {
+  const content = block.content;
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) return content.join('\n');
+  if (!content || typeof content !== 'object') return '';
+
+  if (typeof content.text === 'string') return content.text;
+  if (Array.isArray(content.items)) return content.items.join('\n');
+  return TEXT_FIELDS
+    .map(field => content[field])
+    .filter(value => typeof value === 'string' && value)
+    .join(' – ');
+}
+
+/**
+ * Reflection block as an editor block the diff view can render
+ * Blocks the editor has no counterpart for are shown as text.
+ */
+function toContentBlock(block: ReflectionBlock, at: Date): ContentBlock {
+  const base = { id: block.id, created_at: at, updated_at: at };
+  const content = block.content && typeof block.content === 'object' ? block.content : {};
+  const text = blockText(block);
+
+  switch (block.type) {
+    case 'text': {
+      const heading = block.metadata?.heading;
+      if (typeof heading === 'number') {
+        const level = Math.min(6, Math.max(1, heading)) as 1 | 2 | 3 | 4 | 5 | 6;
+        return { ...base, type: 'heading', content: { text, level } };
+      }
+      return { ...base, type: 'text', content: { text } };
+    }
+
+    case 'quote':
+      return { ...base, type: 'quote', content: { text, author: content.author, source: content.source } };
+
+    case 'list':
+      return {
+        ...base,
+        type: 'list',
+        content: {
+          items: Array.isArray(block.content) ? block.content : content.items || [],
+          ordered: !!content.ordered
+        }
+      };
+
+    case 'image':
+      return {
+        ...base,
+        type: 'image',
+        content: { src: content.src || content.url || '', alt: content.alt || '', caption: content.caption }
+      };
+
+    default:
+      return { ...base, type: 'text', content: { text: text ? `${block.type}: ${text}` : block.type } };
+  }
+}
+
+/**
+ * Quoted excerpt of a text, shortened to a readable length
+ */
+function excerpt(text: string): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return `“${flat.length > EXCERPT_LENGTH ? `${flat.slice(0, EXCERPT_LENGTH - 1)}…` : flat}”`;
+}
+
+/**
+ * Block field value as shown in a change description
+ */
+function formatValue(value: any): string {
+  if (value === undefined || value === null || value === '') return 'nothing';
+  if (typeof value === 'string') return excerpt(value);
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
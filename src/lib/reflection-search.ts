@@ -0,0 +1,300 @@
+/**
+ * Reflection search for the Personal Chronicler
+ * Ranks a user's reflections by stemmed keyword matches combined with semantic
+ * similarity, narrows them by emotions, themes and location, counts facets and
+ * cuts highlighted snippets around the matched words.
+ */
+
+import {
+  FacetCount,
+  ReflectionEntry,
+  ReflectionSearchFilters,
+  ReflectionSearchHit,
+  ReflectionSearchRequest,
+  ReflectionSearchResults,
+  ReflectionSnippet
+} from '../types/chronicler';
+import { EmbeddingProvider } from '../types/memory';
+import {
+  ENGLISH_STOPWORDS,
+  HashedNgramEmbeddingProvider,
+  SWEDISH_STOPWORDS,
+  stemSwedish
+} from './memory/embedding-provider';
+import { cosineSimilarity } from './value-utils';
+
+/** Share of the combined score from keyword matches */
+const KEYWORD_WEIGHT = 0.6;
+
+/** Share of the combined score from semantic similarity */
+const SEMANTIC_WEIGHT = 0.4;
+
+/** Semantic similarity a reflection needs to be a hit without any keyword match */
+const SEMANTIC_ONLY_THRESHOLD = 0.35;
+
+/** Characters of context on each side of a match in a snippet */
+const SNIPPET_CONTEXT = 60;
+
+/** Text snippets returned per hit */
+const MAX_TEXT_SNIPPETS = 2;
+
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * Word of a text with its stem and position
+ */
+interface AnalyzedToken {
+  stem: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Searches reflections
+ * Reflection embeddings are cached per revision because the same reflections are
+ * searched again and again while the user refines a query.
+ */
+export class ReflectionSearchEngine {
+  private embeddings: EmbeddingProvider;
+  private reflectionEmbeddings: Map<string, { updated_at: number; vector: number[] }> = new Map();
+
+  constructor(embeddings: EmbeddingProvider = new HashedNgramEmbeddingProvider()) {
+    this.embeddings = embeddings;
+  }
+
+  /**
+   * Rank reflections against a request
+   * The reflections are expected to be narrowed by the listing filters (tags,
+   * dates, privacy) already; the search-only filters are applied here.
+   */
+  async search(reflections: ReflectionEntry[], request: ReflectionSearchRequest): Promise<ReflectionSearchResults> {
+    const candidates = reflections.filter(reflection => matchesSearchFilters(reflection, request.filters || {}));
+    const queryStems = uniqueStems(analyzeText(request.query || ''));
+    const hits: ReflectionSearchHit[] = [];
+
+    if (!(request.query || '').trim()) {
+      candidates.forEach(reflection => hits.push({ reflection, score: 0, keyword_score: 0, semantic_score: 0, snippets: [] }));
+    } else {
+      const queryEmbedding = await this.embeddings.embed(request.query);
+      const analyzed = candidates.map(reflection => ({
+        reflection,
+        title: analyzeText(reflection.title || ''),
+        text: analyzeText(reflection.content.text || '')
+      }));
+      const idf = getInverseDocumentFrequencies(queryStems, analyzed.map(a => a.title.concat(a.text)));
+
+      for (const { reflection, title, text } of analyzed) {
+        const keywordScore = scoreKeywords(queryStems, idf, title.concat(text));
+        const semanticScore = cosineSimilarity(queryEmbedding, await this.embedReflection(reflection));
+
+        if (keywordScore > 0 || semanticScore >= SEMANTIC_ONLY_THRESHOLD) {
+          hits.push({
+            reflection,
+            score: KEYWORD_WEIGHT * keywordScore + SEMANTIC_WEIGHT * semanticScore,
+            keyword_score: keywordScore,
+            semantic_score: semanticScore,
+            snippets: buildSnippets(reflection, title, text, queryStems)
+          });
+        }
+      }
+    }
+
+    hits.sort((a, b) => (b.score - a.score) || (b.reflection.created_at.getTime() - a.reflection.created_at.getTime()));
+
+    const page = request.pagination
+      ? hits.slice(request.pagination.offset, request.pagination.offset + request.pagination.limit)
+      : hits;
+
+    return {
+      hits: page,
+      total: hits.length,
+      facets: {
+        tags: countFacet(hits, reflection => reflection.tags || []),
+        dominant_emotions: countFacet(hits, reflection => getMetadata(reflection).dominant_emotions || []),
+        themes: countFacet(hits, reflection => getMetadata(reflection).themes || []),
+        privacy_levels: countFacet(hits, reflection => [reflection.privacy_level])
+      }
+    };
+  }
+
+  private async embedReflection(reflection: ReflectionEntry): Promise<number[]> {
+    const updatedAt = reflection.updated_at.getTime();
+    const cached = this.reflectionEmbeddings.get(reflection.id);
+    if (cached && cached.updated_at === updatedAt) {
+      return cached.vector;
+    }
+
+    const vector = await this.embeddings.embed([reflection.title, reflection.content.text].filter(Boolean).join('\n'));
+    this.reflectionEmbeddings.set(reflection.id, { updated_at: updatedAt, vector });
+    return vector;
+  }
+}
+
+/**
+ * Whether a reflection passes the emotion, theme and location filters
+ */
+function matchesSearchFilters(reflection: ReflectionEntry, filters: ReflectionSearchFilters): boolean {
+  const metadata = getMetadata(reflection);
+
+  if (filters.dominantEmotions && filters.dominantEmotions.length > 0 &&
+      !containsAny(metadata.dominant_emotions || [], filters.dominantEmotions)) {
+    return false;
+  }
+  if (filters.themes && filters.themes.length > 0 && !containsAny(metadata.themes || [], filters.themes)) {
+    return false;
+  }
+  if (filters.location) {
+    return !!reflection.location && distanceKm(reflection.location, filters.location) <= filters.location.radius_km;
+  }
+  return true;
+}
+
+/**
+ * Words of a text with their stems, stopwords left out
+ */
+function analyzeText(text: string): AnalyzedToken[] {
+  const tokens: AnalyzedToken[] = [];
+  const pattern = /[a-z0-9åäöéèüæøß]+/g;
+  const lower = text.toLowerCase();
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(lower)) !== null) {
+    const word = match[0];
+    if (!SWEDISH_STOPWORDS.has(word) && !ENGLISH_STOPWORDS.has(word)) {
+      tokens.push({ stem: stemSwedish(word), start: match.index, end: match.index + word.length });
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Inverse document frequency of each query stem over the candidates
+ */
+function getInverseDocumentFrequencies(stems: string[], documents: AnalyzedToken[][]): Record<string, number> {
+  const idf: Record<string, number> = {};
+
+  stems.forEach(stem => {
+    const frequency = documents.filter(tokens => tokens.some(token => token.stem === stem)).length;
+    idf[stem] = Math.log(1 + (documents.length - frequency + 0.5) / (frequency + 0.5));
+  });
+  return idf;
+}
+
+/**
+ * Share of the query's stems found in a reflection, weighted by how rare each stem is
+ */
+function scoreKeywords(stems: string[], idf: Record<string, number>, tokens: AnalyzedToken[]): number {
+  const total = stems.reduce((sum, stem) => sum + idf[stem], 0);
+  if (total === 0) {
+    return 0;
+  }
+
+  const matched = stems
+    .filter(stem => tokens.some(token => token.stem === stem))
+    .reduce((sum, stem) => sum + idf[stem], 0);
+  return matched / total;
+}
+
+/**
+ * The title when it matches, then passages of the text around the matches
+ */
+function buildSnippets(
+  reflection: ReflectionEntry,
+  title: AnalyzedToken[],
+  text: AnalyzedToken[],
+  stems: string[]
+): ReflectionSnippet[] {
+  const isMatch = (token: AnalyzedToken) => stems.indexOf(token.stem) !== -1;
+  const snippets: ReflectionSnippet[] = [];
+
+  const titleMatches = title.filter(isMatch);
+  if (titleMatches.length > 0) {
+    snippets.push({
+      field: 'title',
+      text: reflection.title,
+      highlights: titleMatches.map(token => ({ start: token.start, end: token.end }))
+    });
+  }
+
+  const body = (reflection.content.text || '').replace(/\s/g, ' ');
+  const matches = text.filter(isMatch);
+  let passages = 0;
+  let i = 0;
+
+  while (i < matches.length && passages < MAX_TEXT_SNIPPETS) {
+    let start = Math.max(0, matches[i].start - SNIPPET_CONTEXT);
+    let end = Math.min(body.length, matches[i].end + SNIPPET_CONTEXT);
+
+    // Keep whole words at the edges
+    if (start > 0) {
+      const space = body.indexOf(' ', start);
+      start = space !== -1 && space < matches[i].start ? space + 1 : matches[i].start;
+    }
+    if (end < body.length) {
+      const space = body.lastIndexOf(' ', end);
+      end = space > matches[i].end ? space : end;
+    }
+
+    const prefix = start > 0 ? '…' : '';
+    const highlights: Array<{ start: number; end: number }> = [];
+    while (i < matches.length && matches[i].end <= end) {
+      highlights.push({ start: matches[i].start - start + prefix.length, end: matches[i].end - start + prefix.length });
+      i++;
+    }
+
+    snippets.push({
+      field: 'text',
+      text: prefix + body.slice(start, end).trim() + (end < body.length ? '…' : ''),
+      highlights
+    });
+    passages++;
+  }
+
+  return snippets;
+}
+
+/**
+ * Facet values by number of hits, then alphabetically
+ */
+function countFacet(hits: ReflectionSearchHit[], values: (reflection: ReflectionEntry) => string[]): FacetCount[] {
+  const counts = new Map<string, number>();
+
+  hits.forEach(hit => {
+    values(hit.reflection)
+      .filter((value, i, all) => !!value && all.indexOf(value) === i)
+      .forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  });
+
+  return Array.from(counts.entries())
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => (b.count - a.count) || a.value.localeCompare(b.value, 'sv'));
+}
+
+/**
+ * Great-circle distance between two points
+ */
+function distanceKm(
+  a: { latitude: number; longitude: number },
+  b: { latitude: number; longitude: number }
+): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) * Math.sin(dLon / 2);
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+function uniqueStems(tokens: AnalyzedToken[]): string[] {
+  return tokens.map(token => token.stem).filter((stem, i, all) => all.indexOf(stem) === i);
+}
+
+function containsAny(values: string[], wanted: string[]): boolean {
+  const lower = values.map(value => value.toLowerCase());
+  return wanted.some(value => lower.indexOf(value.toLowerCase()) !== -1);
+}
+
+function getMetadata(reflection: ReflectionEntry): { dominant_emotions?: string[]; themes?: string[] } {
+  return reflection.content.metadata || {};
+}
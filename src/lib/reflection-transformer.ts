@@ -0,0 +1,174 @@
+/**
+ * Reflection transformer for Cortex-mode sharing
+ * Rewrites a private reflection as a message for one recipient: the tone follows
+ * the transformation type and desired impact, the greeting follows the
+ * relationship and formality, and the writer's emotional context is described
+ * only when the parameters ask for it.
+ */
+
+import { UserState } from '../types';
+import {
+  ContentAdaptation,
+  DeliveryMethod,
+  MessageTone,
+  ReflectionContent,
+  TransformationParameters,
+  TransformationType,
+  TransformedContent
+} from '../types/chronicler';
+
+/**
+ * Input of the 'transform_reflection_for_recipient' Cortex-mode task
+ */
+export interface ReflectionTransformationInput {
+  /** Reflection content to transform */
+  original_content: ReflectionContent;
+
+  /** Writer's emotional context when the reflection was written */
+  emotional_context: UserState;
+
+  /** Recipient profile and relationship, when known */
+  recipient_context?: {
+    profile?: { display_name?: string } | null;
+    relationship?: { type?: string } | null;
+  };
+
+  /** Kind of message to produce */
+  transformation_type: TransformationType;
+
+  /** Tone, formality and language parameters */
+  parameters: TransformationParameters;
+}
+
+type PhraseLanguage = 'sv' | 'en';
+
+const GREETINGS: Record<PhraseLanguage, Record<TransformationParameters['formality_level'], string>> = {
+  sv: { casual: 'Hej', semi_formal: 'Kära', formal: 'Bästa' },
+  en: { casual: 'Hi', semi_formal: 'Dear', formal: 'Dear' }
+};
+
+const EMOTIONAL_NOTES: Record<PhraseLanguage, Record<'fight' | 'flight' | 'fixes', string>> = {
+  sv: {
+    fight: 'Jag skrev det här när mycket rörde upp känslor i mig.',
+    flight: 'Jag skrev det här när jag kände mig sårbar.',
+    fixes: 'Jag skrev det här med hopp och framtidstro.'
+  },
+  en: {
+    fight: 'I wrote this while a lot was stirring me up.',
+    flight: 'I wrote this while I was feeling vulnerable.',
+    fixes: 'I wrote this feeling hopeful.'
+  }
+};
+
+const LEGACY_CLOSINGS: Record<PhraseLanguage, string> = {
+  sv: 'Med all min kärlek',
+  en: 'With all my love'
+};
+
+const DEFAULT_TONES: Record<TransformationType, MessageTone> = {
+  personal_message: 'warm',
+  memory_share: 'nostalgic',
+  story_adaptation: 'warm',
+  emotional_summary: 'heartfelt',
+  legacy_message: 'heartfelt'
+};
+
+const TONES: MessageTone[] = ['warm', 'formal', 'casual', 'heartfelt', 'encouraging', 'nostalgic', 'celebratory'];
+
+/**
+ * Transform a reflection into a message for a recipient
+ */
+export function transformReflectionForRecipient(input: ReflectionTransformationInput): TransformedContent {
+  const { original_content, parameters, transformation_type } = input;
+  const language = getPhraseLanguage(input);
+  const relationship = (input.recipient_context?.relationship?.type) || parameters.relationship_type;
+  const name = input.recipient_context?.profile?.display_name;
+  const adaptations: ContentAdaptation[] = [];
+
+  const greetingWord = GREETINGS[language][parameters.formality_level];
+  const greeting = name
+    ? `${greetingWord} ${name}${parameters.formality_level === 'casual' ? '!' : ','}`
+    : `${greetingWord}!`;
+  adaptations.push({
+    type: 'relationship',
+    description: `Greeting for a ${relationship} relationship at ${parameters.formality_level} formality`,
+    original: '',
+    adapted: greeting
+  });
+
+  const body = transformation_type === 'emotional_summary'
+    ? summarize(original_content.text)
+    : original_content.text.trim();
+
+  const paragraphs = [greeting, body];
+
+  if (parameters.include_emotional_context && input.emotional_context) {
+    const note = EMOTIONAL_NOTES[language][getDominantDimension(input.emotional_context)];
+    adaptations.push({ type: 'emotional', description: 'Emotional context of the writer', original: '', adapted: note });
+    paragraphs.push(note);
+  }
+
+  if (transformation_type === 'legacy_message') {
+    paragraphs.push(LEGACY_CLOSINGS[language]);
+  }
+
+  return {
+    text: paragraphs.filter(Boolean).join('\n\n'),
+    tone: getTone(transformation_type, parameters),
+    adaptations,
+    delivery_method: getDeliveryMethod(transformation_type)
+  };
+}
+
+/**
+ * Desired impact when it names a tone, else formal for formal messages, else the type's default
+ */
+function getTone(type: TransformationType, parameters: TransformationParameters): MessageTone {
+  const impact = (parameters.emotional_impact || '').toLowerCase() as MessageTone;
+  if (TONES.indexOf(impact) !== -1) {
+    return impact;
+  }
+  return parameters.formality_level === 'formal' ? 'formal' : DEFAULT_TONES[type];
+}
+
+function getDeliveryMethod(type: TransformationType): DeliveryMethod {
+  switch (type) {
+    case 'memory_share':
+      return 'shared_memory';
+    case 'legacy_message':
+      return 'legacy_trigger';
+    default:
+      return 'direct_message';
+  }
+}
+
+/**
+ * First preferred language with phrases, falling back to the reflection's language, then English
+ */
+function getPhraseLanguage(input: ReflectionTransformationInput): PhraseLanguage {
+  const candidates = (input.parameters.language_preferences || [])
+    .concat(input.original_content.metadata ? [input.original_content.metadata.language] : []);
+
+  for (const candidate of candidates) {
+    const code = (candidate || '').toLowerCase().slice(0, 2);
+    if (code === 'sv' || code === 'en') {
+      return code;
+    }
+  }
+  return 'en';
+}
+
+function getDominantDimension(state: UserState): 'fight' | 'flight' | 'fixes' {
+  if (state.fixes >= state.fight && state.fixes >= state.flight) {
+    return 'fixes';
+  }
+  return state.flight >= state.fight ? 'flight' : 'fight';
+}
+
+/**
+ * First two sentences of a text
+ */
+function summarize(text: string): string {
+  const sentences = text.trim().match(/[^.!?]+[.!?]*/g) || [];
+  return sentences.slice(0, 2).map(sentence => sentence.trim()).join(' ');
+}
@@ -138,6 +138,62 @@ export interface SystemMetrics {
   pausedHierarchies: string[];
 }
 
+/**
+ * User action checked against the user's quotas
+ */
+export interface UserActionRequest {
+  /** Action being performed (e.g. 'create_reflection') */
+  type: string;
+  
+  /** User performing the action */
+  userId: string;
+  
+  /** Estimated cost of the action */
+  resourceCost: {
+    storage?: number;
+    compute?: number;
+    llmCalls?: number;
+  };
+}
+
+/**
+ * Complexity of a Cortex-mode operation
+ */
+export type CortexComplexity = 'low' | 'medium' | 'high';
+
+/**
+ * Cortex-mode (deliberate, multi-call) operation checked against tempo and quotas
+ */
+export interface CortexModeRequest {
+  /** User the operation runs for */
+  userId: string;
+  
+  /** Operation run in Cortex mode (e.g. 'message_transformation') */
+  operation: string;
+  
+  /** Expected complexity, which sets the estimated cost */
+  complexity: CortexComplexity;
+}
+
+/**
+ * Thrown when the governor denies a user action or Cortex-mode operation
+ */
+export class ResourceLimitError extends Error {
+  constructor(message: string, public readonly violations: string[] = []) {
+    super(message);
+    this.name = 'ResourceLimitError';
+  }
+}
+
+/**
+ * Estimated cost of one Cortex-mode operation by complexity
+ */
+const CORTEX_MODE_COSTS: Record<CortexComplexity, { llmCalls: number; computeUnits: number }> = {
+  low: { llmCalls: 1, computeUnits: 5 },
+  medium: { llmCalls: 2, computeUnits: 20 },
+  high: { llmCalls: 4, computeUnits: 50 }
+};
+
 /**
  * Resource Governor interface for centralized resource management
  */
@@ -218,6 +274,18 @@ export interface ResourceGovernor {
     withinLimits: boolean;
     violations: string[];
   }>;
+  
+  /**
+   * Check a user action against the user's quotas and record its cost
+   * Rejects with ResourceLimitError when the action is denied.
+   */
+  validateAction(request: UserActionRequest): Promise<void>;
+  
+  /**
+   * Check a Cortex-mode operation against system tempo and the user's quotas and record its cost
+   * Rejects with ResourceLimitError when the operation is denied.
+   */
+  validateCortexMode(request: CortexModeRequest): Promise<void>;
 }
 
 /**
@@ -716,6 +784,66 @@ export class ResourceGovernorImpl implements ResourceGovernor {
   }
 
   async checkUserQuotas(userId: string): Promise<{ withinLimits: boolean; violations: string[] }> {
+    const violations = await this._findQuotaViolations(userId);
+    
+    return {
+      withinLimits: violations.length === 0,
+      violations
+    };
+  }
+
+  async validateAction(request: UserActionRequest): Promise<void> {
+    this._assertAcceptingUserWork(request.type);
+    await this._chargeUser(request.userId, request.type, {
+      max_llm_calls: request.resourceCost.llmCalls || 0,
+      max_compute_units: request.resourceCost.compute || 0,
+      max_storage_bytes: request.resourceCost.storage || 0
+    });
+  }
+
+  async validateCortexMode(request: CortexModeRequest): Promise<void> {
+    const operation = `Cortex-mode ${request.operation}`;
+    this._assertAcceptingUserWork(operation);
+
+    // Low-Intensity tempo keeps the lighter Cortex work and defers the heaviest
+    if (this._systemTempo === 'Low-Intensity' && request.complexity === 'high') {
+      throw new ResourceLimitError(`${operation} denied: high-complexity Cortex mode is paused in Low-Intensity tempo`);
+    }
+
+    const cost = CORTEX_MODE_COSTS[request.complexity];
+    await this._chargeUser(request.userId, operation, {
+      max_llm_calls: cost.llmCalls,
+      max_compute_units: cost.computeUnits
+    });
+  }
+
+  /**
+   * Reject user work while the circuit breaker is open or the system sleeps
+   */
+  private _assertAcceptingUserWork(operation: string): void {
+    if (this._circuitBreakerStatus === 'open') {
+      throw new ResourceLimitError(`${operation} denied: system circuit breaker is open`);
+    }
+    if (this._systemTempo === 'Sleep') {
+      throw new ResourceLimitError(`${operation} denied: system is in Sleep mode`);
+    }
+  }
+
+  /**
+   * Record a user's usage when it keeps them within their quotas
+   */
+  private async _chargeUser(userId: string, operation: string, usage: Partial<ResourceBudget>): Promise<void> {
+    const violations = await this._findQuotaViolations(userId, usage);
+    if (violations.length > 0) {
+      throw new ResourceLimitError(`${operation} denied: ${violations.join(', ')}`, violations);
+    }
+    this._recordUserUsage(userId, usage);
+  }
+
+  /**
+   * Quota violations of a user's recent usage plus any pending usage
+   */
+  private async _findQuotaViolations(userId: string, pending: Partial<ResourceBudget> = {}): Promise<string[]> {
     const quotas = await this.getUserQuotas(userId);
     const violations: string[] = [];
     
@@ -725,8 +853,9 @@ export class ResourceGovernorImpl implements ResourceGovernor {
     const oneDayAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
     
     const userHistory = this._userUsageHistory.get(userId) || [];
-    const hourlyUsage = this._aggregateUsage(userHistory, oneHourAgo);
-    const dailyUsage = this._aggregateUsage(userHistory, oneDayAgo);
+    const pendingEntry = [{ timestamp: now, usage: pending }];
+    const hourlyUsage = this._aggregateUsage(userHistory.concat(pendingEntry), oneHourAgo);
+    const dailyUsage = this._aggregateUsage(userHistory.concat(pendingEntry), oneDayAgo);
     
     // Check LLM quotas
     if (hourlyUsage.max_llm_calls > quotas.llmQuota.maxCallsPerHour) {
@@ -751,10 +880,7 @@ export class ResourceGovernorImpl implements ResourceGovernor {
       violations.push(`Storage quota exceeded: ${dailyUsage.max_storage_bytes}/${quotas.storageQuota.maxTotalBytes} bytes`);
     }
     
-    return {
-      withinLimits: violations.length === 0,
-      violations
-    };
+    return violations;
   }
 
   /**
@@ -397,6 +397,22 @@ export class DataRetentionService {
       .filter(record => record.user_id === userId);
   }
   
+  /**
+   * Marks all of a user's tracked data as deleted after an erasure request
+   */
+  markUserDataDeleted(userId: string): DataRetentionRecord[] {
+    const now = new Date();
+    
+    return this.getUserRetentionRecords(userId)
+      .filter(record => record.status !== 'deleted')
+      .map(record => {
+        record.deleted_at = now;
+        record.deletion_scheduled_at = undefined;
+        record.status = 'deleted';
+        return record;
+      });
+  }
+  
   /**
    * Gets retention records by data type
    */
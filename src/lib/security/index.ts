@@ -8,4 +8,5 @@ export * from './data-encryption';
 export * from './privacy-controls';
 export * from './consent-verification';
 export * from './data-retention';
-export * from './security-audit';
\ No newline at end of file
+export * from './security-audit';
+export * from './right-to-be-forgotten';export * from './session-tokens';
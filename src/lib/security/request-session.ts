@@ -0,0 +1,57 @@
+/**
+ * Request sessions
+ * Signed-in user of an API route request, taken from its session cookie, and
+ * the responses that set and clear that cookie.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE, getSessionTokenService } from './session-tokens';
+
+/**
+ * User of the request's session, or a response refusing the request
+ */
+export async function authenticateRequest(request: NextRequest): Promise<string | NextResponse> {
+  const sessions = getSessionTokenService();
+  if (!sessions) {
+    return NextResponse.json({ error: 'Sessions are not configured' }, { status: 503 });
+  }
+
+  const userId = await sessions.verifyCookieHeader(request.headers.get('cookie'));
+  return userId || NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+}
+
+/**
+ * Response that signs a user in by setting the session cookie
+ */
+export async function signInResponse(userId: string): Promise<NextResponse> {
+  const sessions = getSessionTokenService();
+  if (!sessions) {
+    return NextResponse.json({ error: 'Sessions are not configured' }, { status: 503 });
+  }
+
+  const response = NextResponse.json({ user_id: userId });
+  response.cookies.set(SESSION_COOKIE, await sessions.issue(userId), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/'
+  });
+  return response;
+}
+
+/**
+ * Response that signs the user out by clearing the session cookie
+ */
+export function signOutResponse(): NextResponse {
+  const response = NextResponse.json({ user_id: null });
+  response.cookies.set(SESSION_COOKIE, '', { httpOnly: true, sameSite: 'lax', path: '/', maxAge: 0 });
+  return response;
+}
+
+/**
+ * Whether users may sign in by naming themselves, for local development
+ * Never in production, where the identity provider issues the session cookie.
+ */
+export function isDevSignInEnabled(): boolean {
+  return process.env.DEV_SIGN_IN === 'true' && process.env.NODE_ENV !== 'production';
+}
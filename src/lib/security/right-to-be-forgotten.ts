@@ -0,0 +1,662 @@
+/**
+ * Right-to-be-forgotten orchestration
+ * Erases a user or contact across every store that holds data about them and
+ * issues a signed deletion certificate (GDPR Article 17)
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { DeletionNotification, DataRetentionService } from './data-retention';
+import { GraphStore, Transaction } from '../../types/memory';
+import { MemoryScope } from '../../types';
+import { ReflectionEntry } from '../../types/chronicler';
+import { LegacyContent } from '../../types/legacy-system';
+import { CollaborativeSession } from '../../types/collaboration';
+import { SemanticRAG } from '../memory/semantic-rag';
+import { UserRepository, userRepository } from '../data/user-repository';
+import { ProjectRepository } from '../data/project-repository';
+import { BackupRecoverySystem, ErasureRecord } from '../backup-recovery';
+import { Contact, User } from '../../types/data-models';
+
+/**
+ * Thrown when the requester may not erase the data subject
+ */
+export class ErasureNotPermittedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ErasureNotPermittedError';
+  }
+}
+
+/**
+ * Kind of data subject being forgotten
+ */
+export type ErasureSubjectType = 'user' | 'contact';
+
+/**
+ * Erasure request handed to every target
+ */
+export interface ErasureRequest {
+  /** Kind of data subject */
+  subject_type: ErasureSubjectType;
+
+  /** User or contact ID being forgotten */
+  subject_id: string;
+
+  /** User who requested the erasure */
+  requested_by: string;
+
+  /** ID of the certificate issued for this erasure */
+  certificate_id: string;
+
+  /** Request timestamp */
+  requested_at: Date;
+}
+
+/**
+ * A store that can erase everything it holds about a data subject
+ */
+export interface ErasureTarget {
+  /** Target name recorded in the certificate */
+  name: string;
+
+  /** Erases the subject's data and returns the IDs of the erased items */
+  erase(request: ErasureRequest): Promise<string[]>;
+}
+
+/**
+ * Outcome of one target in a deletion certificate
+ */
+export interface ErasureTargetResult {
+  /** Target name */
+  target: string;
+
+  /** Whether the target completed its erasure */
+  status: 'erased' | 'failed';
+
+  /** Number of erased items */
+  erased_count: number;
+
+  /** Failure reason */
+  error?: string;
+}
+
+/**
+ * Signed record that an erasure was carried out
+ */
+export interface DeletionCertificate {
+  /** Certificate ID */
+  id: string;
+
+  /** Kind of data subject */
+  subject_type: ErasureSubjectType;
+
+  /** Erased user or contact ID */
+  subject_id: string;
+
+  /** User who requested the erasure */
+  requested_by: string;
+
+  /** Request timestamp */
+  requested_at: Date;
+
+  /** Completion timestamp */
+  completed_at: Date;
+
+  /** Per-target outcome */
+  targets: ErasureTargetResult[];
+
+  /** Whether every target completed */
+  complete: boolean;
+
+  /** Signature algorithm */
+  algorithm: 'HMAC-SHA256';
+
+  /** Hex-encoded signature over all other fields */
+  signature: string;
+}
+
+/**
+ * Result of a forget request
+ */
+export interface ErasureResult {
+  /** Signed deletion certificate */
+  certificate: DeletionCertificate;
+
+  /** Erased item IDs by target (not part of the certificate) */
+  erased_ids: Record<string, string[]>;
+
+  /** Notification sent to the requesting user */
+  notification: DeletionNotification;
+}
+
+/**
+ * Reflection persistence used by the chronicler erasure target
+ */
+export interface ReflectionErasureStore {
+  getUserReflections(userId: string): Promise<ReflectionEntry[]>;
+  deleteReflection(reflectionId: string): Promise<unknown>;
+}
+
+/**
+ * Legacy content persistence used by the legacy erasure target
+ */
+export interface LegacyContentErasureStore {
+  getLegacyContentByCreator(creatorId: string): Promise<LegacyContent[]>;
+  getLegacyContentByRecipient(contactId: string): Promise<LegacyContent[]>;
+  saveLegacyContent(content: LegacyContent): Promise<unknown>;
+  deleteLegacyContent(contentId: string): Promise<unknown>;
+}
+
+/**
+ * User and contact lookup used to check who may erase a data subject
+ */
+export interface ErasureRequesterLookup {
+  getUserById(userId: string): Promise<User | null>;
+  getContactById(contactId: string): Promise<Contact | null>;
+}
+
+/**
+ * Collaborative session persistence used by the collaboration erasure target
+ */
+export interface CollaborativeSessionErasureStore {
+  getUserCollaborativeSessions(userId: string): Promise<CollaborativeSession[]>;
+  saveCollaborativeSession(session: CollaborativeSession): Promise<unknown>;
+}
+
+/**
+ * Right-to-be-forgotten service
+ * Every registered target is asked to erase the subject. A failing target does
+ * not stop the others; it is recorded in the certificate, which is then marked
+ * incomplete so the request can be retried.
+ */
+export class RightToBeForgottenService {
+  private targets: ErasureTarget[];
+  private signingKey: string;
+  private requesters: ErasureRequesterLookup;
+  private deletionCallbacks: ((notification: DeletionNotification, certificate: DeletionCertificate) => void)[] = [];
+
+  constructor(signingKey: string, targets: ErasureTarget[] = [], requesters: ErasureRequesterLookup = userRepository) {
+    if (!signingKey) {
+      throw new Error('A signing key is required for deletion certificates');
+    }
+
+    this.signingKey = signingKey;
+    this.targets = [...targets];
+    this.requesters = requesters;
+  }
+
+  /**
+   * Registers a store to include in erasures
+   */
+  registerTarget(target: ErasureTarget): void {
+    if (this.targets.some(existing => existing.name === target.name)) {
+      throw new Error(`Erasure target already registered: ${target.name}`);
+    }
+    this.targets.push(target);
+  }
+
+  /**
+   * Registers a callback for completed erasures
+   */
+  onDeletion(callback: (notification: DeletionNotification, certificate: DeletionCertificate) => void): void {
+    this.deletionCallbacks.push(callback);
+  }
+
+  /**
+   * Erases a user and everything they own, on request of the user or an architect
+   */
+  async forgetUser(userId: string, requestedBy: string = userId): Promise<ErasureResult> {
+    if (requestedBy !== userId) {
+      const requester = await this.requesters.getUserById(requestedBy);
+      if (!requester || requester.user_role !== 'architect') {
+        throw new ErasureNotPermittedError(`User ${requestedBy} may not erase user ${userId}`);
+      }
+    }
+
+    return this.forget('user', userId, requestedBy);
+  }
+
+  /**
+   * Erases a contact on request of the user who holds them
+   */
+  async forgetContact(contactId: string, requestedBy: string): Promise<ErasureResult> {
+    const contact = await this.requesters.getContactById(contactId);
+    if (!contact) {
+      throw new ErasureNotPermittedError(`Contact not found: ${contactId}`);
+    }
+    if (contact.owner_id !== requestedBy) {
+      throw new ErasureNotPermittedError(`User ${requestedBy} may not erase contact ${contactId}`);
+    }
+
+    return this.forget('contact', contactId, requestedBy);
+  }
+
+  /**
+   * Runs a recorded erasure again, e.g. after restoring a backup that predates it
+   * The original certificate ID and time are kept, so the backup record is not duplicated.
+   */
+  async reapplyErasure(erasure: ErasureRecord): Promise<ErasureResult> {
+    return this.forget(erasure.subjectType, erasure.subjectId, erasure.requestedBy, {
+      certificate_id: erasure.id,
+      requested_at: erasure.erasedAt
+    });
+  }
+
+  /**
+   * Verifies that a certificate was issued with this service's key and is unaltered
+   */
+  async verifyCertificate(certificate: DeletionCertificate): Promise<boolean> {
+    if (certificate.algorithm !== 'HMAC-SHA256' || !/^([0-9a-f]{2})+$/.test(certificate.signature)) {
+      return false;
+    }
+
+    const { signature, ...payload } = certificate;
+    const key = await this.importSigningKey();
+
+    return crypto.subtle.verify(
+      'HMAC',
+      key,
+      this.hexToBytes(signature),
+      new TextEncoder().encode(this.canonicalize(payload))
+    );
+  }
+
+  /**
+   * Runs every target and issues the certificate and notification
+   */
+  private async forget(
+    subjectType: ErasureSubjectType,
+    subjectId: string,
+    requestedBy: string,
+    original?: Pick<ErasureRequest, 'certificate_id' | 'requested_at'>
+  ): Promise<ErasureResult> {
+    if (!subjectId) {
+      throw new Error(`A ${subjectType} ID is required`);
+    }
+
+    const request: ErasureRequest = {
+      subject_type: subjectType,
+      subject_id: subjectId,
+      requested_by: requestedBy,
+      certificate_id: original ? original.certificate_id : uuidv4(),
+      requested_at: original ? original.requested_at : new Date()
+    };
+
+    const targets: ErasureTargetResult[] = [];
+    const erasedIds: Record<string, string[]> = {};
+
+    for (const target of this.targets) {
+      try {
+        const ids = await target.erase(request);
+        erasedIds[target.name] = ids;
+        targets.push({ target: target.name, status: 'erased', erased_count: ids.length });
+      } catch (error) {
+        erasedIds[target.name] = [];
+        targets.push({
+          target: target.name,
+          status: 'failed',
+          erased_count: 0,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    const unsigned: Omit<DeletionCertificate, 'signature'> = {
+      id: request.certificate_id,
+      subject_type: subjectType,
+      subject_id: subjectId,
+      requested_by: requestedBy,
+      requested_at: request.requested_at,
+      completed_at: new Date(),
+      targets,
+      complete: targets.every(result => result.status === 'erased'),
+      algorithm: 'HMAC-SHA256'
+    };
+    const certificate: DeletionCertificate = { ...unsigned, signature: await this.sign(unsigned) };
+
+    const notification = this.createNotification(certificate);
+    this.deletionCallbacks.forEach(callback => {
+      try {
+        callback(notification, certificate);
+      } catch (error) {
+        console.error('[RightToBeForgotten] Error in deletion callback:', error);
+      }
+    });
+
+    return { certificate, erased_ids: erasedIds, notification };
+  }
+
+  /**
+   * Creates the notification sent to the requesting user
+   */
+  private createNotification(certificate: DeletionCertificate): DeletionNotification {
+    const subject = certificate.subject_type === 'user' ? 'Your data' : 'The data about this contact';
+    const failed = certificate.targets.filter(result => result.status === 'failed').map(result => result.target);
+
+    return {
+      user_id: certificate.requested_by,
+      data_type: certificate.subject_type === 'user' ? 'User' : 'Contact',
+      data_id: certificate.subject_id,
+      deletion_date: certificate.completed_at,
+      days_until_deletion: 0,
+      message: certificate.complete
+        ? `${subject} has been permanently erased. Certificate: ${certificate.id}`
+        : `${subject} was only partly erased (${failed.join(', ')} failed) and the erasure will be retried. Certificate: ${certificate.id}`
+    };
+  }
+
+  /**
+   * Signs the canonical form of a certificate payload
+   */
+  private async sign(payload: Omit<DeletionCertificate, 'signature'>): Promise<string> {
+    const key = await this.importSigningKey();
+    const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(this.canonicalize(payload)));
+    return this.bytesToHex(new Uint8Array(signature));
+  }
+
+  /**
+   * Imports the signing key for HMAC-SHA256
+   */
+  private importSigningKey(): Promise<CryptoKey> {
+    return crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(this.signingKey),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign', 'verify']
+    ) as Promise<CryptoKey>;
+  }
+
+  /**
+   * JSON with sorted keys, so the signature survives serialization round trips
+   */
+  private canonicalize(value: any): string {
+    if (value instanceof Date) {
+      return JSON.stringify(value.toISOString());
+    }
+    if (Array.isArray(value)) {
+      return `[${value.map(item => this.canonicalize(item)).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+      const entries = Object.keys(value)
+        .filter(key => value[key] !== undefined)
+        .sort()
+        .map(key => `${JSON.stringify(key)}:${this.canonicalize(value[key])}`);
+      return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value);
+  }
+
+  /**
+   * Encodes bytes as lowercase hex
+   */
+  private bytesToHex(bytes: Uint8Array): string {
+    let hex = '';
+    for (let i = 0; i < bytes.length; i++) {
+      hex += (bytes[i] < 16 ? '0' : '') + bytes[i].toString(16);
+    }
+    return hex;
+  }
+
+  /**
+   * Decodes lowercase hex
+   */
+  private hexToBytes(hex: string): Uint8Array<ArrayBuffer> {
+    const bytes = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+    }
+    return bytes;
+  }
+}
+
+/**
+ * Erases graph nodes owned by or describing the subject, detaching their relationships
+ */
+export function createGraphErasureTarget(graphStore: GraphStore): ErasureTarget {
+  return {
+    name: 'graph',
+    async erase(request) {
+      const isUser = request.subject_type === 'user';
+      const scope: MemoryScope = {
+        id: `erasure:${request.certificate_id}`,
+        user_ids: isUser ? [request.subject_id] : [],
+        project_ids: [],
+        contact_ids: isUser ? [] : [request.subject_id],
+        permissions: { read: true, write: true, delete: true }
+      };
+
+      // Nodes tagged with the subject, plus the subject's own node
+      const owned = await graphStore.query({
+        type: 'structured',
+        query: { nodeTypes: [], relationshipTypes: [], filters: [], returnFields: ['n0'] }
+      }, scope);
+      const own = await graphStore.query({
+        type: 'structured',
+        query: {
+          nodeTypes: [],
+          relationshipTypes: [],
+          filters: [{ property: '_id', operator: 'equals', value: request.subject_id }],
+          returnFields: ['n0']
+        }
+      }, { ...scope, user_ids: [], contact_ids: [] });
+
+      const nodes = new Map<string, string[]>();
+      owned.concat(own)
+        .filter(result => result.type === 'node')
+        .forEach(result => nodes.set(result.metadata.properties._id || result.metadata.id, result.metadata.labels || []));
+
+      if (nodes.size === 0) {
+        return [];
+      }
+
+      const transaction: Transaction = {
+        id: uuidv4(),
+        scope,
+        startTime: new Date(),
+        status: 'active',
+        operations: []
+      };
+      await graphStore.beginTransaction(transaction);
+
+      const stored = await graphStore.store({
+        nodes: Array.from(nodes.entries()).map(([id, labels]) => ({ id, labels, properties: {} })),
+        relationships: [],
+        operation: 'delete'
+      }, transaction);
+
+      if (!stored.success) {
+        await graphStore.rollbackTransaction(transaction).catch(() => undefined);
+        throw new Error(stored.error || 'Graph store rejected the erasure');
+      }
+
+      await graphStore.commitTransaction(transaction);
+      return Array.from(nodes.keys());
+    }
+  };
+}
+
+/**
+ * Erases semantic entries owned by a user or tagged with a contact
+ */
+export function createSemanticErasureTarget(semanticRAG: SemanticRAG): ErasureTarget {
+  return {
+    name: 'semantic',
+    async erase(request) {
+      const entries = request.subject_type === 'user'
+        ? semanticRAG.getEntriesByUser(request.subject_id)
+        : semanticRAG.getEntriesByTag(`contact:${request.subject_id}`);
+
+      const erased = entries.filter(entry => semanticRAG.deleteEntry(entry.id)).map(entry => entry.id);
+
+      // Deletions are only erased once they have reached semantic storage
+      await semanticRAG.flush();
+      return erased;
+    }
+  };
+}
+
+/**
+ * Erases users, contacts, contact groups and consents
+ */
+export function createUserRepositoryErasureTarget(repository: UserRepository): ErasureTarget {
+  return {
+    name: 'user_repository',
+    async erase(request) {
+      if (request.subject_type === 'contact') {
+        return (await repository.deleteContact(request.subject_id)) ? [request.subject_id] : [];
+      }
+
+      const contacts = await repository.getContactsByUserId(request.subject_id);
+      const consents = await repository.getConsentsByUserId(request.subject_id);
+
+      if (!(await repository.deleteUser(request.subject_id))) {
+        return [];
+      }
+
+      return [request.subject_id, ...contacts.map(contact => contact.id), ...consents.map(consent => consent.id)];
+    }
+  };
+}
+
+/**
+ * Deletes projects a user owns and removes them from projects they collaborate on
+ */
+export function createProjectRepositoryErasureTarget(repository: ProjectRepository): ErasureTarget {
+  return {
+    name: 'project_repository',
+    async erase(request) {
+      if (request.subject_type === 'contact') {
+        return [];
+      }
+
+      const erased: string[] = [];
+
+      for (const project of await repository.getProjectsByUserId(request.subject_id)) {
+        const removed = project.owner_id === request.subject_id
+          ? await repository.deleteProject(project.id)
+          : await repository.removeCollaborator(project.id, request.subject_id);
+
+        if (removed) {
+          erased.push(project.id);
+        }
+      }
+
+      return erased;
+    }
+  };
+}
+
+/**
+ * Marks a user's retention records as deleted
+ */
+export function createRetentionErasureTarget(service: DataRetentionService): ErasureTarget {
+  return {
+    name: 'data_retention',
+    async erase(request) {
+      return request.subject_type === 'user'
+        ? service.markUserDataDeleted(request.subject_id).map(record => record.id)
+        : [];
+    }
+  };
+}
+
+/**
+ * Records the erasure against recovery points that still contain the subject
+ */
+export function createBackupErasureTarget(backups: BackupRecoverySystem): ErasureTarget {
+  return {
+    name: 'backups',
+    async erase(request) {
+      return backups.recordErasure({
+        id: request.certificate_id,
+        subjectType: request.subject_type,
+        subjectId: request.subject_id,
+        requestedBy: request.requested_by,
+        erasedAt: request.requested_at
+      });
+    }
+  };
+}
+
+/**
+ * Deletes a user's chronicler reflections
+ */
+export function createReflectionErasureTarget(store: ReflectionErasureStore): ErasureTarget {
+  return {
+    name: 'chronicler_reflections',
+    async erase(request) {
+      if (request.subject_type === 'contact') {
+        return [];
+      }
+
+      const reflections = await store.getUserReflections(request.subject_id);
+      for (const reflection of reflections) {
+        await store.deleteReflection(reflection.id);
+      }
+
+      return reflections.map(reflection => reflection.id);
+    }
+  };
+}
+
+/**
+ * Deletes a user's legacy content, or removes a contact from every recipient list
+ */
+export function createLegacyErasureTarget(store: LegacyContentErasureStore): ErasureTarget {
+  return {
+    name: 'legacy_content',
+    async erase(request) {
+      if (request.subject_type === 'user') {
+        const contents = await store.getLegacyContentByCreator(request.subject_id);
+        for (const content of contents) {
+          await store.deleteLegacyContent(content.id);
+        }
+        return contents.map(content => content.id);
+      }
+
+      const contents = await store.getLegacyContentByRecipient(request.subject_id);
+      for (const content of contents) {
+        await store.saveLegacyContent({
+          ...content,
+          recipients: content.recipients.filter(recipient => recipient.contact_id !== request.subject_id),
+          updated_at: new Date()
+        });
+      }
+      return contents.map(content => content.id);
+    }
+  };
+}
+
+/**
+ * Removes a user's participation, locks and activity from collaborative sessions
+ */
+export function createCollaborationErasureTarget(store: CollaborativeSessionErasureStore): ErasureTarget {
+  return {
+    name: 'collaboration_sessions',
+    async erase(request) {
+      if (request.subject_type === 'contact') {
+        return [];
+      }
+
+      const userId = request.subject_id;
+      const sessions = await store.getUserCollaborativeSessions(userId);
+
+      for (const session of sessions) {
+        const participants = session.participants.filter(participant => participant.user_id !== userId);
+        await store.saveCollaborativeSession({
+          ...session,
+          participants,
+          block_locks: session.block_locks.filter(lock => lock.user_id !== userId),
+          status: participants.length === 0 ? 'ended' : session.status,
+          metadata: {
+            ...session.metadata,
+            activity_log: session.metadata.activity_log.filter(activity => activity.user_id !== userId)
+          }
+        });
+      }
+
+      return sessions.map(session => session.id);
+    }
+  };
+}
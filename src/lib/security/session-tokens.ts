@@ -0,0 +1,148 @@
+/**
+ * Signed session tokens
+ * The sign-in service issues a token into the session cookie; API routes and
+ * the collaboration socket take the user from it instead of from the request.
+ */
+
+/** Cookie holding the session token */
+export const SESSION_COOKIE = 'halsning_session';
+
+/** How long a session lasts by default */
+const DEFAULT_SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+
+/**
+ * Claims carried by a session token
+ */
+export interface SessionClaims {
+  /** Signed-in user */
+  user_id: string;
+
+  /** When the session ends, in milliseconds since the epoch */
+  expires_at: number;
+}
+
+/**
+ * Issues and verifies HMAC-SHA256 signed session tokens
+ * A token is the hex-encoded claims and their signature, joined by a dot.
+ */
+export class SessionTokenService {
+  private signingKey: string;
+  private ttlMs: number;
+
+  constructor(signingKey: string, ttlMs: number = DEFAULT_SESSION_TTL_MS) {
+    if (!signingKey) {
+      throw new Error('A signing key is required for session tokens');
+    }
+
+    this.signingKey = signingKey;
+    this.ttlMs = ttlMs;
+  }
+
+  /**
+   * Issue a token for a signed-in user
+   */
+  async issue(userId: string, now: Date = new Date()): Promise<string> {
+    const claims: SessionClaims = { user_id: userId, expires_at: now.getTime() + this.ttlMs };
+    const payload = new TextEncoder().encode(JSON.stringify(claims));
+    const key = await this.importSigningKey();
+    const signature = await crypto.subtle.sign('HMAC', key, payload);
+    return `${this.bytesToHex(payload)}.${this.bytesToHex(new Uint8Array(signature))}`;
+  }
+
+  /**
+   * User a token was issued for, or null when it is forged, malformed or expired
+   */
+  async verify(token: string, now: Date = new Date()): Promise<string | null> {
+    const parts = token.split('.');
+    if (parts.length !== 2 || !parts.every(part => /^([0-9a-f]{2})+$/.test(part))) {
+      return null;
+    }
+
+    const payload = this.hexToBytes(parts[0]);
+    const key = await this.importSigningKey();
+    if (!await crypto.subtle.verify('HMAC', key, this.hexToBytes(parts[1]), payload)) {
+      return null;
+    }
+
+    let claims: SessionClaims;
+    try {
+      claims = JSON.parse(new TextDecoder().decode(payload));
+    } catch (error) {
+      return null;
+    }
+    return typeof claims.user_id === 'string' && claims.expires_at > now.getTime() ? claims.user_id : null;
+  }
+
+  /**
+   * User of the session cookie in a Cookie header, or null without a valid session
+   */
+  async verifyCookieHeader(cookieHeader: string | null | undefined, now: Date = new Date()): Promise<string | null> {
+    const token = readCookie(cookieHeader, SESSION_COOKIE);
+    return token ? this.verify(token, now) : null;
+  }
+
+  /**
+   * Imports the signing key for HMAC-SHA256
+   */
+  private importSigningKey(): Promise<CryptoKey> {
+    return crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(this.signingKey),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign', 'verify']
+    ) as Promise<CryptoKey>;
+  }
+
+  /**
+   * Encodes bytes as lowercase hex
+   */
+  private bytesToHex(bytes: Uint8Array): string {
+    let hex = '';
+    for (let i = 0; i < bytes.length; i++) {
+      hex += (bytes[i] < 16 ? '0' : '') + bytes[i].toString(16);
+    }
+    return hex;
+  }
+
+  /**
+   * Decodes lowercase hex into bytes
+   */
+  private hexToBytes(hex: string): Uint8Array<ArrayBuffer> {
+    const bytes = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+    }
+    return bytes;
+  }
+}
+
+/**
+ * Value of a cookie in a Cookie header
+ */
+export function readCookie(cookieHeader: string | null | undefined, name: string): string | null {
+  if (!cookieHeader) {
+    return null;
+  }
+
+  for (const pair of cookieHeader.split(';')) {
+    const separator = pair.indexOf('=');
+    if (separator !== -1 && pair.slice(0, separator).trim() === name) {
+      return decodeURIComponent(pair.slice(separator + 1).trim());
+    }
+  }
+  return null;
+}
+
+let configured: SessionTokenService | null | undefined;
+
+/**
+ * Session tokens signed with SESSION_SIGNING_KEY, or null when it is not set
+ */
+export function getSessionTokenService(): SessionTokenService | null {
+  if (configured === undefined) {
+    const signingKey = process.env.SESSION_SIGNING_KEY;
+    configured = signingKey ? new SessionTokenService(signingKey) : null;
+  }
+  return configured;
+}
@@ -0,0 +1,205 @@
+/**
+ * Server Bootstrap
+ * Starts the server-side parts of the system once per process. Runs from the
+ * Next.js instrumentation hook, so nothing here reaches the browser bundle.
+ */
+
+import { systemIntegrationService } from '../services/system-integration-service';
+import { MemoryFactory } from './memory/memory-factory';
+import { DEFAULT_LEGACY_SYSTEM_CONFIG, LegacySystemService } from '../services/legacy-system-service';
+import { FileLegacyContentStore } from '../services/file-legacy-content-store';
+import { LegacyScheduler } from '../services/legacy-scheduler';
+import { LegacyEventMatcher } from '../services/legacy-event-triggers';
+import { backupRecoverySystem } from './backup-recovery';
+import { FileErasureLog } from './file-erasure-log';
+import { userRepository } from './data/user-repository';
+import { projectRepository } from './data/project-repository';
+import { getServerCollaborationService } from '../services/collaboration-server';
+import { dataRetention } from './security/data-retention';
+import {
+  ErasureTarget,
+  RightToBeForgottenService,
+  createBackupErasureTarget,
+  createCollaborationErasureTarget,
+  createGraphErasureTarget,
+  createLegacyErasureTarget,
+  createProjectRepositoryErasureTarget,
+  createReflectionErasureTarget,
+  createRetentionErasureTarget,
+  createSemanticErasureTarget,
+  createUserRepositoryErasureTarget
+} from './security/right-to-be-forgotten';
+import { createCollaborativeSessionRecordStore, createReflectionRecordStore } from './memory/memory-record-stores';
+import { PersonalDataExportService } from './data/personal-data-export';
+
+let started: Promise<void> | null = null;
+let erasureService: RightToBeForgottenService | null = null;
+let legacySystemService: LegacySystemService | null = null;
+let personalDataExportService: PersonalDataExportService | null = null;
+
+/**
+ * Legacy content, shared by the legacy system and erasure
+ */
+const legacyContentStore = new FileLegacyContentStore(process.env.LEGACY_CONTENT_PATH || './data/legacy-content.json');
+
+/**
+ * Start the server-side services (later calls share the first start)
+ */
+export function bootstrapServer(): Promise<void> {
+  if (!started) {
+    started = startServer();
+  }
+  return started;
+}
+
+/**
+ * The server's erasure service
+ * Null until the server has been bootstrapped, and when ERASURE_SIGNING_KEY is
+ * not set or the erasure log failed to load.
+ */
+export function getErasureService(): RightToBeForgottenService | null {
+  return erasureService;
+}
+
+/**
+ * The server's legacy system
+ * Null until the server has been bootstrapped, and when ENABLE_LEGACY_SYSTEM
+ * is not 'true'.
+ */
+export function getLegacySystemService(): LegacySystemService | null {
+  return legacySystemService;
+}
+
+/**
+ * The server's personal data export service
+ * Null until the server has been bootstrapped.
+ */
+export function getPersonalDataExportService(): PersonalDataExportService | null {
+  return personalDataExportService;
+}
+
+async function startServer(): Promise<void> {
+  // Conversations still work without memory context when the memory system is down
+  try {
+    const config = process.env.NODE_ENV === 'production'
+      ? MemoryFactory.createProductionConfig()
+      : MemoryFactory.createDefaultConfig();
+    const memoryAssistant = await MemoryFactory.getInstance().initialize(config);
+    systemIntegrationService.setMemoryAssistant(memoryAssistant);
+  } catch (error) {
+    console.error('Memory system failed to start:', error);
+  }
+
+  await startErasureRecovery();
+  await startLegacySystem();
+  await startCollaboration();
+  startPersonalDataExport();
+}
+
+/**
+ * Load the persisted erasure log and replay erasures after a backup restore
+ */
+async function startErasureRecovery(): Promise<void> {
+  try {
+    await backupRecoverySystem.useErasureLog(
+      new FileErasureLog(process.env.ERASURE_LOG_PATH || './data/erasures.json')
+    );
+  } catch (error) {
+    console.error('Erasure log failed to load:', error);
+    return;
+  }
+
+  const signingKey = process.env.ERASURE_SIGNING_KEY;
+  if (!signingKey) {
+    console.warn('ERASURE_SIGNING_KEY is not set; erasures will not be replayed after a restore');
+    return;
+  }
+
+  const targets: ErasureTarget[] = [];
+  const memory = MemoryFactory.getInstance();
+  if (isMemoryRunning()) {
+    const memoryAssistant = memory.getMemoryAssistant();
+    targets.push(
+      createGraphErasureTarget(memory.getGraphRAG()),
+      createSemanticErasureTarget(memory.getSemanticRAG()),
+      createReflectionErasureTarget(createReflectionRecordStore(memoryAssistant)),
+      createCollaborationErasureTarget(createCollaborativeSessionRecordStore(memoryAssistant))
+    );
+  }
+  targets.push(
+    createUserRepositoryErasureTarget(userRepository),
+    createProjectRepositoryErasureTarget(projectRepository),
+    createRetentionErasureTarget(dataRetention),
+    createLegacyErasureTarget(legacyContentStore),
+    createBackupErasureTarget(backupRecoverySystem)
+  );
+
+  const erasure = new RightToBeForgottenService(signingKey, targets);
+  backupRecoverySystem.setErasureReplayer(record => erasure.reapplyErasure(record));
+  erasureService = erasure;
+}
+
+/**
+ * Deliver scheduled legacy content and match life events against event triggers
+ */
+async function startLegacySystem(): Promise<void> {
+  if (process.env.ENABLE_LEGACY_SYSTEM !== 'true') {
+    return;
+  }
+
+  const memory = MemoryFactory.getInstance();
+  const service = new LegacySystemService(
+    {
+      ...DEFAULT_LEGACY_SYSTEM_CONFIG,
+      permission_reply_url: process.env.LEGACY_PERMISSION_REPLY_URL,
+      inactivity_confirmation_url: process.env.LEGACY_INACTIVITY_CONFIRMATION_URL
+    },
+    legacyContentStore,
+    undefined,
+    userRepository,
+    isMemoryRunning() ? memory.getEmbeddingProvider() : undefined
+  );
+  systemIntegrationService.setLegacySystemService(service);
+  legacySystemService = service;
+
+  new LegacyEventMatcher(legacyContentStore, undefined, userRepository).start();
+  try {
+    const { failed } = await new LegacyScheduler(service, legacyContentStore).start();
+    failed.forEach(failure => console.error(`Legacy content ${failure.content_id} failed to evaluate: ${failure.error}`));
+  } catch (error) {
+    console.error('Legacy scheduler failed to start:', error);
+  }
+}
+
+/**
+ * Sweep expired block locks and hand over locks whose takeover grace period ended
+ */
+async function startCollaboration(): Promise<void> {
+  if (!isMemoryRunning()) {
+    return;
+  }
+
+  try {
+    (await getServerCollaborationService()).startLockSweeper();
+  } catch (error) {
+    console.error('Block lock sweeper failed to start:', error);
+  }
+}
+
+/**
+ * Export and import personal data across every store the server keeps
+ */
+function startPersonalDataExport(): void {
+  const memory = MemoryFactory.getInstance();
+  personalDataExportService = new PersonalDataExportService({
+    userRepository,
+    projectRepository,
+    semanticRAG: isMemoryRunning() ? memory.getSemanticRAG() : undefined,
+    reflections: isMemoryRunning() ? createReflectionRecordStore(memory.getMemoryAssistant()) : undefined,
+    legacyContent: legacyContentStore
+  });
+}
+
+function isMemoryRunning(): boolean {
+  return MemoryFactory.getInstance().getHealthStatus().status !== 'not_initialized';
+}
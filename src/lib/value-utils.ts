@@ -0,0 +1,59 @@
+/**
+ * Value helpers shared across services
+ * Vector similarity, value comparison and reviving dates from JSON
+ */
+
+/** Serialized dates as written by JSON.stringify */
+export const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+/**
+ * Cosine similarity clamped to [0, 1]; mismatched or empty vectors score 0
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  const magnitude = Math.sqrt(normA) * Math.sqrt(normB);
+  return magnitude === 0 ? 0 : Math.max(0, Math.min(1, dot / magnitude));
+}
+
+/**
+ * Whether two JSON-compatible values are the same
+ */
+export function sameJsonValue(a: any, b: any): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Whether a value meets an expected criterion value
+ * Strings compare case-insensitively; a list matches when any of its values does.
+ */
+export function matchesCriterionValue(actual: any, expected: any): boolean {
+  if (Array.isArray(actual)) {
+    return actual.some(value => matchesCriterionValue(value, expected));
+  }
+  return typeof actual === 'string' && typeof expected === 'string'
+    ? actual.toLowerCase() === expected.toLowerCase()
+    : actual === expected;
+}
+
+/**
+ * JSON.parse reviver that turns ISO timestamps back into dates
+ * With `fields`, only properties of those names are revived.
+ */
+export function createDateReviver(fields?: Set<string>): (key: string, value: any) => any {
+  return (key, value) =>
+    typeof value === 'string' && ISO_DATE_PATTERN.test(value) && (!fields || fields.has(key))
+      ? new Date(value)
+      : value;
+}
@@ -0,0 +1,26 @@
+/**
+ * Collaboration WebSocket endpoint
+ *
+ * Route handlers in the app directory cannot take over a connection, so this
+ * pages route attaches the collaboration WebSocket server to the underlying
+ * HTTP server. Clients request it once before opening the WebSocket on the
+ * same path, which only accepts signed-in users.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import type { Server as HttpServer } from 'http';
+import { attachCollaborationServer } from '@/lib/collaboration/websocket-server';
+import { bootstrapServer } from '@/lib/server-bootstrap';
+import { serverCollaborationHub } from '@/services/collaboration-server';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const server = (res.socket as unknown as { server?: HttpServer } | null)?.server;
+  if (!server) {
+    res.status(500).json({ error: 'Collaboration server unavailable' });
+    return;
+  }
+
+  await bootstrapServer();
+  attachCollaborationServer(server, serverCollaborationHub);
+  res.status(200).json({ status: 'ready' });
+}
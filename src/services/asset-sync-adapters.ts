@@ -0,0 +1,792 @@
+/**
+ * Provider adapters for external asset sync
+ * Each adapter speaks one provider's listing, delta and download API over an
+ * injectable HTTP transport, so recorded fixtures can stand in for the network.
+ */
+
+import { ExternalAsset, ExternalProvider } from '../types/chronicler';
+
+/**
+ * Outgoing HTTP request
+ */
+export interface HttpRequest {
+  method: 'GET' | 'POST';
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+/**
+ * HTTP response; header names are lower-case
+ */
+export interface HttpResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: ArrayBuffer;
+}
+
+/**
+ * Sends one HTTP request
+ */
+export type HttpTransport = (request: HttpRequest) => Promise<HttpResponse>;
+
+/**
+ * Transport over the platform fetch
+ */
+export const fetchTransport: HttpTransport = async request => {
+  const response = await fetch(request.url, {
+    method: request.method,
+    headers: request.headers,
+    body: request.body
+  });
+
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, name) => {
+    headers[name.toLowerCase()] = value;
+  });
+
+  return { status: response.status, headers, body: await response.arrayBuffer() };
+};
+
+/**
+ * Unexpected response from a provider
+ */
+export class ProviderHttpError extends Error {
+  constructor(public readonly provider: ExternalProvider, public readonly status: number, detail: string) {
+    super(`${provider} responded ${status}: ${detail.slice(0, 200)}`);
+    this.name = 'ProviderHttpError';
+  }
+}
+
+/**
+ * The provider rejected the credentials and they could not be refreshed;
+ * the user has to connect the account again
+ */
+export class ProviderAuthError extends Error {
+  constructor(public readonly provider: ExternalProvider, message: string) {
+    super(message);
+    this.name = 'ProviderAuthError';
+  }
+}
+
+/**
+ * The provider kept rate limiting after all retries
+ */
+export class ProviderRateLimitError extends Error {
+  constructor(public readonly provider: ExternalProvider, public readonly retryAfterMs: number) {
+    super(`${provider} is rate limiting requests; retry in ${Math.ceil(retryAfterMs / 1000)} s`);
+    this.name = 'ProviderRateLimitError';
+  }
+}
+
+/**
+ * The stored delta cursor is no longer valid and a full listing is needed
+ */
+export class SyncCursorExpiredError extends Error {
+  constructor(provider: ExternalProvider) {
+    super(`${provider} no longer accepts the stored sync cursor`);
+    this.name = 'SyncCursorExpiredError';
+  }
+}
+
+/**
+ * OAuth client registered with a provider
+ */
+export interface OAuthClientCredentials {
+  client_id: string;
+  client_secret?: string;
+}
+
+/**
+ * Token endpoint response
+ */
+export interface OAuthTokenResponse {
+  access_token: string;
+  refresh_token?: string;
+
+  /** Lifetime in seconds */
+  expires_in?: number;
+}
+
+/**
+ * Request made on behalf of an integration
+ */
+export interface ProviderRequest {
+  method: 'GET' | 'POST';
+  url: string;
+  headers?: Record<string, string>;
+  body?: string;
+
+  /** How the access token is sent (default: bearer header) */
+  auth?: 'bearer' | 'none' | { query: string };
+}
+
+/**
+ * Authorized connection to a provider
+ * Refreshes rejected tokens and backs off while the provider rate limits.
+ */
+export interface ProviderClient {
+  request(request: ProviderRequest): Promise<HttpResponse>;
+
+  /** OAuth client (or API token) registered for the provider */
+  credentials?: OAuthClientCredentials;
+}
+
+/**
+ * One remote change
+ */
+export interface ProviderChange {
+  external_id: string;
+  removed: boolean;
+
+  /** Revision, etag or checksum identifying this version of the item */
+  version?: string;
+
+  /** Folder or album path used by include/exclude filters */
+  folder?: string;
+
+  /** Asset description; absent for removals */
+  asset?: ExternalAsset;
+}
+
+/**
+ * One page of remote changes
+ */
+export interface ProviderChangePage {
+  changes: ProviderChange[];
+
+  /** Cursor for the next page, or for the next sync when has_more is false */
+  cursor: string;
+  has_more: boolean;
+}
+
+/**
+ * Provider-specific sync operations
+ */
+export interface AssetProviderAdapter {
+  readonly provider: ExternalProvider;
+
+  /** Changes since the cursor; everything when no cursor is given */
+  listChanges(client: ProviderClient, cursor?: string): Promise<ProviderChangePage>;
+
+  /** Original bytes of a remote asset */
+  download(client: ProviderClient, asset: ExternalAsset): Promise<ArrayBuffer>;
+
+  /** Exchange a refresh token for a new access token */
+  refreshToken(client: ProviderClient, refreshToken: string): Promise<OAuthTokenResponse>;
+}
+
+const GOOGLE_TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const PHOTOS_API = 'https://photoslibrary.googleapis.com/v1';
+const DRIVE_API = 'https://www.googleapis.com/drive/v3';
+const DROPBOX_API = 'https://api.dropboxapi.com/2';
+const DROPBOX_CONTENT_API = 'https://content.dropboxapi.com/2';
+const DROPBOX_TOKEN_URL = 'https://api.dropboxapi.com/oauth2/token';
+const GRAPH_API = 'https://graph.microsoft.com/v1.0';
+const MICROSOFT_TOKEN_URL = 'https://login.microsoftonline.com/common/oauth2/v2.0/token';
+const CLOUDKIT_PHOTOS_DB = 'https://api.apple-cloudkit.com/database/1/iCloud.com.apple.photos/production/private';
+
+const PAGE_SIZE = 100;
+
+const DRIVE_FILE_FIELDS =
+  'id,name,mimeType,size,md5Checksum,createdTime,modifiedTime,parents,trashed,' +
+  'imageMediaMetadata(width,height,location(latitude,longitude)),videoMediaMetadata(width,height)';
+
+const MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  heic: 'image/heic',
+  webp: 'image/webp',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  mp4: 'video/mp4',
+  mov: 'video/quicktime',
+  m4v: 'video/x-m4v',
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  wav: 'audio/wav',
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  zip: 'application/zip'
+};
+
+/** Apple uniform type identifiers used by iCloud Photos */
+const UTI_MIME_TYPES: Record<string, string> = {
+  'public.jpeg': 'image/jpeg',
+  'public.png': 'image/png',
+  'public.heic': 'image/heic',
+  'com.compuserve.gif': 'image/gif',
+  'public.mpeg-4': 'video/mp4',
+  'com.apple.quicktime-movie': 'video/quicktime'
+};
+
+/**
+ * MIME type guessed from a file extension
+ */
+export function mimeTypeFromFilename(filename: string): string {
+  const dot = filename.lastIndexOf('.');
+  return (dot >= 0 && MIME_TYPES[filename.slice(dot + 1).toLowerCase()]) || 'application/octet-stream';
+}
+
+/**
+ * Response body as text
+ */
+export function responseText(response: HttpResponse): string {
+  return new TextDecoder().decode(response.body);
+}
+
+/**
+ * Response body as JSON
+ */
+export function responseJson<T = any>(response: HttpResponse): T {
+  return JSON.parse(responseText(response));
+}
+
+/**
+ * Throw unless the response is a 2xx
+ */
+function expectOk(provider: ExternalProvider, response: HttpResponse): HttpResponse {
+  if (response.status < 200 || response.status >= 300) {
+    throw new ProviderHttpError(provider, response.status, responseText(response));
+  }
+  return response;
+}
+
+/**
+ * URL with query parameters; undefined values are left out
+ */
+function withQuery(url: string, params: Record<string, string | undefined>): string {
+  const query = new URLSearchParams();
+  for (const name of Object.keys(params)) {
+    const value = params[name];
+    if (value !== undefined) query.append(name, value);
+  }
+  const encoded = query.toString();
+  return encoded ? `${url}?${encoded}` : url;
+}
+
+/**
+ * Standard OAuth 2.0 refresh-token grant
+ */
+async function refreshOAuthToken(
+  provider: ExternalProvider,
+  client: ProviderClient,
+  tokenUrl: string,
+  refreshToken: string,
+  extra: Record<string, string> = {}
+): Promise<OAuthTokenResponse> {
+  if (!client.credentials) {
+    throw new ProviderAuthError(provider, `No OAuth client is configured for ${provider}`);
+  }
+
+  const form = new URLSearchParams();
+  form.append('grant_type', 'refresh_token');
+  form.append('refresh_token', refreshToken);
+  form.append('client_id', client.credentials.client_id);
+  if (client.credentials.client_secret) form.append('client_secret', client.credentials.client_secret);
+  for (const name of Object.keys(extra)) form.append(name, extra[name]);
+
+  const response = await client.request({
+    method: 'POST',
+    url: tokenUrl,
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: form.toString(),
+    auth: 'none'
+  });
+
+  // invalid_grant: the user revoked access or the refresh token expired
+  if (response.status === 400 || response.status === 401) {
+    throw new ProviderAuthError(provider, `${provider} refused to refresh the access token`);
+  }
+
+  const token = responseJson(expectOk(provider, response));
+  return { access_token: token.access_token, refresh_token: token.refresh_token, expires_in: token.expires_in };
+}
+
+/**
+ * External asset description
+ */
+function externalAsset(
+  provider: ExternalProvider,
+  externalId: string,
+  url: string,
+  metadata: {
+    filename: string;
+    size_bytes?: number;
+    mime_type?: string;
+    created_at?: string | number;
+    modified_at?: string | number;
+    provider_metadata?: Record<string, any>;
+  }
+): ExternalAsset {
+  const createdAt = metadata.created_at !== undefined ? new Date(metadata.created_at) : new Date(0);
+
+  return {
+    external_id: externalId,
+    provider,
+    external_url: url,
+    external_metadata: {
+      filename: metadata.filename,
+      size_bytes: metadata.size_bytes || 0,
+      mime_type: metadata.mime_type || mimeTypeFromFilename(metadata.filename),
+      created_at: createdAt,
+      modified_at: metadata.modified_at !== undefined ? new Date(metadata.modified_at) : createdAt,
+      provider_metadata: metadata.provider_metadata || {}
+    },
+    sync_status: 'pending'
+  };
+}
+
+/**
+ * Google Photos Library API
+ * The library has no change feed: incremental syncs search from the newest
+ * creation date already seen, and deletions are never reported.
+ */
+export class GooglePhotosAdapter implements AssetProviderAdapter {
+  readonly provider: ExternalProvider = 'google_photos';
+
+  async listChanges(client: ProviderClient, cursor?: string): Promise<ProviderChangePage> {
+    const state: { page_token?: string; since?: string; newest?: string } = cursor ? JSON.parse(cursor) : {};
+
+    const search: Record<string, any> = { pageSize: PAGE_SIZE };
+    if (state.page_token) search.pageToken = state.page_token;
+    if (state.since) {
+      const since = new Date(state.since);
+      search.filters = {
+        dateFilter: {
+          ranges: [{
+            startDate: { year: since.getUTCFullYear(), month: since.getUTCMonth() + 1, day: since.getUTCDate() },
+            endDate: { year: 9999, month: 12, day: 31 }
+          }]
+        }
+      };
+    }
+
+    const response = expectOk(this.provider, await client.request({
+      method: 'POST',
+      url: `${PHOTOS_API}/mediaItems:search`,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(search)
+    }));
+    const result = responseJson(response);
+
+    let newest = state.newest || state.since;
+    const changes: ProviderChange[] = (result.mediaItems || []).map((item: any) => {
+      const media = item.mediaMetadata || {};
+      if (!newest || media.creationTime > newest) newest = media.creationTime;
+
+      return {
+        external_id: item.id,
+        removed: false,
+        asset: externalAsset(this.provider, item.id, item.baseUrl, {
+          filename: item.filename,
+          mime_type: item.mimeType,
+          created_at: media.creationTime,
+          provider_metadata: {
+            product_url: item.productUrl,
+            video: !!media.video,
+            dimensions: media.width ? { width: Number(media.width), height: Number(media.height) } : undefined
+          }
+        })
+      };
+    });
+
+    const nextCursor = result.nextPageToken
+      ? { page_token: result.nextPageToken, since: state.since, newest }
+      : { since: newest };
+
+    return { changes, cursor: JSON.stringify(nextCursor), has_more: !!result.nextPageToken };
+  }
+
+  async download(client: ProviderClient, asset: ExternalAsset): Promise<ArrayBuffer> {
+    // "=d" downloads the original image, "=dv" the video
+    const suffix = asset.external_metadata.provider_metadata.video ? '=dv' : '=d';
+    const response = await client.request({ method: 'GET', url: `${asset.external_url}${suffix}` });
+    return expectOk(this.provider, response).body;
+  }
+
+  refreshToken(client: ProviderClient, refreshToken: string): Promise<OAuthTokenResponse> {
+    return refreshOAuthToken(this.provider, client, GOOGLE_TOKEN_URL, refreshToken);
+  }
+}
+
+/**
+ * Google Drive v3
+ * A full listing records the change-feed position taken before it started, so
+ * nothing edited during the listing is missed.
+ */
+export class GoogleDriveAdapter implements AssetProviderAdapter {
+  readonly provider: ExternalProvider = 'google_drive';
+
+  async listChanges(client: ProviderClient, cursor?: string): Promise<ProviderChangePage> {
+    const state: { list_token?: string; start_token?: string; changes_token?: string } = cursor ? JSON.parse(cursor) : {};
+
+    if (state.changes_token) {
+      return this.listDelta(client, state.changes_token);
+    }
+
+    let startToken = state.start_token;
+    if (!startToken) {
+      const response = await client.request({ method: 'GET', url: `${DRIVE_API}/changes/startPageToken` });
+      startToken = responseJson(expectOk(this.provider, response)).startPageToken as string;
+    }
+
+    const response = await client.request({
+      method: 'GET',
+      url: withQuery(`${DRIVE_API}/files`, {
+        q: "trashed = false and mimeType != 'application/vnd.google-apps.folder'",
+        pageSize: String(PAGE_SIZE),
+        fields: `nextPageToken,files(${DRIVE_FILE_FIELDS})`,
+        pageToken: state.list_token
+      })
+    });
+    const result = responseJson(expectOk(this.provider, response));
+
+    const changes: ProviderChange[] = [];
+    for (const file of result.files || []) {
+      const change = this.fileChange(file);
+      if (change) changes.push(change);
+    }
+
+    return result.nextPageToken
+      ? { changes, cursor: JSON.stringify({ list_token: result.nextPageToken, start_token: startToken }), has_more: true }
+      : { changes, cursor: JSON.stringify({ changes_token: startToken }), has_more: false };
+  }
+
+  async download(client: ProviderClient, asset: ExternalAsset): Promise<ArrayBuffer> {
+    const response = await client.request({
+      method: 'GET',
+      url: withQuery(`${DRIVE_API}/files/${encodeURIComponent(asset.external_id)}`, { alt: 'media' })
+    });
+    return expectOk(this.provider, response).body;
+  }
+
+  refreshToken(client: ProviderClient, refreshToken: string): Promise<OAuthTokenResponse> {
+    return refreshOAuthToken(this.provider, client, GOOGLE_TOKEN_URL, refreshToken);
+  }
+
+  private async listDelta(client: ProviderClient, pageToken: string): Promise<ProviderChangePage> {
+    const response = await client.request({
+      method: 'GET',
+      url: withQuery(`${DRIVE_API}/changes`, {
+        pageToken,
+        pageSize: String(PAGE_SIZE),
+        fields: `nextPageToken,newStartPageToken,changes(fileId,removed,file(${DRIVE_FILE_FIELDS}))`
+      })
+    });
+    if (response.status === 404 || response.status === 410) {
+      throw new SyncCursorExpiredError(this.provider);
+    }
+    const result = responseJson(expectOk(this.provider, response));
+
+    const changes: ProviderChange[] = [];
+    for (const change of result.changes || []) {
+      if (change.removed || !change.file || change.file.trashed) {
+        changes.push({ external_id: change.fileId, removed: true });
+        continue;
+      }
+      const fileChange = this.fileChange(change.file);
+      if (fileChange) changes.push(fileChange);
+    }
+
+    return result.nextPageToken
+      ? { changes, cursor: JSON.stringify({ changes_token: result.nextPageToken }), has_more: true }
+      : { changes, cursor: JSON.stringify({ changes_token: result.newStartPageToken }), has_more: false };
+  }
+
+  private fileChange(file: any): ProviderChange | null {
+    // Google Docs, Sheets and folders have no original bytes to download
+    if (!file.mimeType || file.mimeType.indexOf('application/vnd.google-apps.') === 0) {
+      return null;
+    }
+
+    const media = file.imageMediaMetadata || file.videoMediaMetadata || {};
+
+    return {
+      external_id: file.id,
+      removed: false,
+      version: file.md5Checksum,
+      folder: file.parents ? file.parents[0] : undefined,
+      asset: externalAsset(this.provider, file.id, `${DRIVE_API}/files/${file.id}`, {
+        filename: file.name,
+        size_bytes: file.size ? Number(file.size) : 0,
+        mime_type: file.mimeType,
+        created_at: file.createdTime,
+        modified_at: file.modifiedTime,
+        provider_metadata: {
+          dimensions: media.width ? { width: media.width, height: media.height } : undefined,
+          location: media.location ? { latitude: media.location.latitude, longitude: media.location.longitude } : undefined
+        }
+      })
+    };
+  }
+}
+
+/**
+ * Dropbox v2
+ * Deleted entries carry only their path, so items are keyed by lower-case path.
+ */
+export class DropboxAdapter implements AssetProviderAdapter {
+  readonly provider: ExternalProvider = 'dropbox';
+
+  async listChanges(client: ProviderClient, cursor?: string): Promise<ProviderChangePage> {
+    const response = await client.request(cursor
+      ? {
+          method: 'POST',
+          url: `${DROPBOX_API}/files/list_folder/continue`,
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ cursor })
+        }
+      : {
+          method: 'POST',
+          url: `${DROPBOX_API}/files/list_folder`,
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ path: '', recursive: true, include_media_info: true, limit: PAGE_SIZE })
+        });
+
+    if (response.status === 409 && responseText(response).indexOf('reset') >= 0) {
+      throw new SyncCursorExpiredError(this.provider);
+    }
+    const result = responseJson(expectOk(this.provider, response));
+
+    const changes: ProviderChange[] = [];
+    for (const entry of result.entries || []) {
+      const tag = entry['.tag'];
+      if (tag === 'deleted') {
+        changes.push({ external_id: entry.path_lower, removed: true });
+      } else if (tag === 'file') {
+        changes.push(this.fileChange(entry));
+      }
+    }
+
+    return { changes, cursor: result.cursor, has_more: !!result.has_more };
+  }
+
+  async download(client: ProviderClient, asset: ExternalAsset): Promise<ArrayBuffer> {
+    const response = await client.request({
+      method: 'POST',
+      url: `${DROPBOX_CONTENT_API}/files/download`,
+      headers: { 'Dropbox-API-Arg': JSON.stringify({ path: asset.external_metadata.provider_metadata.id }) }
+    });
+    return expectOk(this.provider, response).body;
+  }
+
+  refreshToken(client: ProviderClient, refreshToken: string): Promise<OAuthTokenResponse> {
+    return refreshOAuthToken(this.provider, client, DROPBOX_TOKEN_URL, refreshToken);
+  }
+
+  private fileChange(entry: any): ProviderChange {
+    const path: string = entry.path_display || entry.path_lower;
+    const media = entry.media_info && entry.media_info.metadata ? entry.media_info.metadata : {};
+
+    return {
+      external_id: entry.path_lower,
+      removed: false,
+      version: entry.rev,
+      folder: path.slice(0, path.lastIndexOf('/')) || '/',
+      asset: externalAsset(this.provider, entry.path_lower, `${DROPBOX_CONTENT_API}/files/download`, {
+        filename: entry.name,
+        size_bytes: entry.size,
+        created_at: media.time_taken || entry.client_modified,
+        modified_at: entry.server_modified,
+        provider_metadata: {
+          id: entry.id,
+          content_hash: entry.content_hash,
+          dimensions: media.dimensions,
+          location: media.location
+        }
+      })
+    };
+  }
+}
+
+/**
+ * OneDrive through Microsoft Graph
+ * The delta link is the cursor; Graph answers 410 when it has expired.
+ */
+export class OneDriveAdapter implements AssetProviderAdapter {
+  readonly provider: ExternalProvider = 'onedrive';
+
+  async listChanges(client: ProviderClient, cursor?: string): Promise<ProviderChangePage> {
+    const response = await client.request({ method: 'GET', url: cursor || `${GRAPH_API}/me/drive/root/delta` });
+    if (response.status === 410) {
+      throw new SyncCursorExpiredError(this.provider);
+    }
+    const result = responseJson(expectOk(this.provider, response));
+
+    const changes: ProviderChange[] = [];
+    for (const item of result.value || []) {
+      if (item.deleted) {
+        changes.push({ external_id: item.id, removed: true });
+      } else if (item.file) {
+        changes.push(this.fileChange(item));
+      }
+    }
+
+    const nextLink = result['@odata.nextLink'];
+    return { changes, cursor: nextLink || result['@odata.deltaLink'], has_more: !!nextLink };
+  }
+
+  async download(client: ProviderClient, asset: ExternalAsset): Promise<ArrayBuffer> {
+    const response = await client.request({ method: 'GET', url: `${asset.external_url}/content` });
+    return expectOk(this.provider, response).body;
+  }
+
+  refreshToken(client: ProviderClient, refreshToken: string): Promise<OAuthTokenResponse> {
+    return refreshOAuthToken(this.provider, client, MICROSOFT_TOKEN_URL, refreshToken, {
+      scope: 'offline_access Files.Read'
+    });
+  }
+
+  private fileChange(item: any): ProviderChange {
+    const parentPath: string = item.parentReference && item.parentReference.path ? item.parentReference.path : '';
+
+    return {
+      external_id: item.id,
+      removed: false,
+      version: item.cTag || item.eTag,
+      folder: parentPath.replace(/^\/drive\/root:/, '') || '/',
+      asset: externalAsset(this.provider, item.id, `${GRAPH_API}/me/drive/items/${item.id}`, {
+        filename: item.name,
+        size_bytes: item.size,
+        mime_type: item.file.mimeType,
+        created_at: item.photo && item.photo.takenDateTime ? item.photo.takenDateTime : item.createdDateTime,
+        modified_at: item.lastModifiedDateTime,
+        provider_metadata: {
+          dimensions: item.image ? { width: item.image.width, height: item.image.height } : undefined,
+          location: item.location ? { latitude: item.location.latitude, longitude: item.location.longitude } : undefined
+        }
+      })
+    };
+  }
+}
+
+/**
+ * iCloud Photos through CloudKit Web Services
+ * The access token is a CloudKit web auth token sent as a query parameter next
+ * to the app's API token. CloudKit sessions cannot be refreshed.
+ */
+export class ICloudPhotosAdapter implements AssetProviderAdapter {
+  readonly provider: ExternalProvider = 'icloud_photos';
+
+  async listChanges(client: ProviderClient, cursor?: string): Promise<ProviderChangePage> {
+    if (!client.credentials) {
+      throw new ProviderAuthError(this.provider, 'No CloudKit API token is configured for icloud_photos');
+    }
+
+    const zone: Record<string, any> = { zoneID: { zoneName: 'PrimarySync' }, desiredRecordTypes: ['CPLMaster'] };
+    if (cursor) zone.syncToken = cursor;
+
+    const response = await client.request({
+      method: 'POST',
+      url: withQuery(`${CLOUDKIT_PHOTOS_DB}/changes/zone`, { ckAPIToken: client.credentials.client_id }),
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ zones: [zone] }),
+      auth: { query: 'ckWebAuthToken' }
+    });
+
+    // CloudKit answers 421 when the web session has ended
+    if (response.status === 421) {
+      throw new ProviderAuthError(this.provider, 'The iCloud session has ended; sign in again');
+    }
+    const result = responseJson(expectOk(this.provider, response)).zones[0];
+
+    if (result.serverErrorCode === 'CHANGE_TOKEN_EXPIRED') {
+      throw new SyncCursorExpiredError(this.provider);
+    }
+    if (result.serverErrorCode) {
+      throw new ProviderHttpError(this.provider, response.status, result.serverErrorCode);
+    }
+
+    const changes: ProviderChange[] = [];
+    for (const record of result.records || []) {
+      if (record.deleted) {
+        changes.push({ external_id: record.recordName, removed: true });
+      } else if (record.recordType === 'CPLMaster') {
+        changes.push(this.recordChange(record));
+      }
+    }
+
+    return { changes, cursor: result.syncToken, has_more: !!result.moreComing };
+  }
+
+  async download(client: ProviderClient, asset: ExternalAsset): Promise<ArrayBuffer> {
+    // Download URLs are pre-signed and take the file name in place of ${f}
+    const url = asset.external_url.replace('${f}', encodeURIComponent(asset.external_metadata.filename));
+    const response = await client.request({ method: 'GET', url, auth: 'none' });
+    return expectOk(this.provider, response).body;
+  }
+
+  async refreshToken(): Promise<OAuthTokenResponse> {
+    throw new ProviderAuthError(this.provider, 'iCloud sessions cannot be refreshed; sign in again');
+  }
+
+  private recordChange(record: any): ProviderChange {
+    const fields = record.fields || {};
+    const original = fields.resOriginalRes ? fields.resOriginalRes.value : {};
+    const filename = fields.filenameEnc ? decodeBase64Utf8(fields.filenameEnc.value) : `${record.recordName}.jpg`;
+    const fileType = fields.resOriginalFileType ? fields.resOriginalFileType.value : '';
+
+    return {
+      external_id: record.recordName,
+      removed: false,
+      version: record.recordChangeTag,
+      asset: externalAsset(this.provider, record.recordName, original.downloadURL, {
+        filename,
+        size_bytes: original.size,
+        mime_type: UTI_MIME_TYPES[fileType] || mimeTypeFromFilename(filename),
+        created_at: record.created ? record.created.timestamp : undefined,
+        modified_at: record.modified ? record.modified.timestamp : undefined,
+        provider_metadata: {
+          file_checksum: original.fileChecksum,
+          dimensions: fields.resOriginalWidth
+            ? { width: fields.resOriginalWidth.value, height: fields.resOriginalHeight.value }
+            : undefined
+        }
+      })
+    };
+  }
+}
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Decode base64 holding UTF-8 text
+ */
+function decodeBase64Utf8(value: string): string {
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+
+  for (let i = 0; i < value.length; i++) {
+    const index = BASE64_ALPHABET.indexOf(value.charAt(i));
+    if (index < 0) continue; // padding and line breaks
+
+    buffer = (buffer << 6) | index;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+
+  return new TextDecoder().decode(new Uint8Array(bytes));
+}
+
+/**
+ * Adapters for every provider the sync engine supports
+ * Gmail is an integration without a file library and is not synced.
+ */
+export function createProviderAdapters(): Partial<Record<ExternalProvider, AssetProviderAdapter>> {
+  return {
+    google_photos: new GooglePhotosAdapter(),
+    google_drive: new GoogleDriveAdapter(),
+    dropbox: new DropboxAdapter(),
+    onedrive: new OneDriveAdapter(),
+    icloud_photos: new ICloudPhotosAdapter()
+  };
+}
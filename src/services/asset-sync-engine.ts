@@ -0,0 +1,689 @@
+/**
+ * External asset sync engine
+ * Pulls changes from provider adapters with incremental cursors, keeps OAuth
+ * tokens encrypted and fresh, backs off while a provider rate limits, and
+ * stores synced files as project assets.
+ */
+
+import {
+  ExternalAsset,
+  ExternalAssetIntegration,
+  ExternalProvider,
+  ExternalTokenGrant,
+  IntegrationSettings,
+  IntegrationSyncState,
+  SyncConflictPolicy,
+  SyncStatistics
+} from '../types/chronicler';
+import { AssetType } from '../types/data-models';
+import { DataEncryptionService, EncryptedData } from '../lib/security/data-encryption';
+import { ProjectRepository, UploadAssetData, projectRepository as defaultProjectRepository } from '../lib/data/project-repository';
+import {
+  AssetProviderAdapter,
+  HttpRequest,
+  HttpResponse,
+  HttpTransport,
+  OAuthClientCredentials,
+  ProviderAuthError,
+  ProviderChange,
+  ProviderChangePage,
+  ProviderClient,
+  ProviderRateLimitError,
+  ProviderRequest,
+  SyncCursorExpiredError,
+  createProviderAdapters,
+  fetchTransport
+} from './asset-sync-adapters';
+
+/** Refresh tokens this long before they expire */
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+/** First backoff delay when the provider gives no Retry-After */
+const BASE_BACKOFF_MS = 1000;
+
+/** Longest single backoff delay */
+const MAX_BACKOFF_MS = 60 * 1000;
+
+/** Rate-limited attempts per request before the sync is paused */
+const DEFAULT_MAX_RETRIES = 4;
+
+const PROVIDER_LABELS: Record<ExternalProvider, string> = {
+  google_photos: 'Google Foto',
+  gmail: 'Gmail',
+  google_drive: 'Google Drive',
+  icloud_photos: 'iCloud-bilder',
+  dropbox: 'Dropbox',
+  onedrive: 'OneDrive'
+};
+
+/**
+ * Provider is not supported by the sync engine
+ */
+export class UnsupportedProviderError extends Error {
+  constructor(provider: ExternalProvider) {
+    super(`Assets cannot be synced from ${provider}`);
+    this.name = 'UnsupportedProviderError';
+  }
+}
+
+/**
+ * Encrypts provider tokens at rest
+ * The secret is read when needed so a missing key fails the operation that
+ * needs it rather than module loading.
+ */
+export class TokenVault {
+  private secret: () => string | undefined;
+  private encryption: DataEncryptionService;
+
+  constructor(
+    secret: () => string | undefined = () => (typeof process !== 'undefined' ? process.env.CHRONICLER_TOKEN_KEY : undefined),
+    encryption: DataEncryptionService = new DataEncryptionService()
+  ) {
+    this.secret = secret;
+    this.encryption = encryption;
+  }
+
+  /**
+   * Encrypt a token; the context is bound as additional authenticated data
+   */
+  async seal(token: string, context: string): Promise<string> {
+    return JSON.stringify(await this.encryption.encryptText(token, this.key(), context));
+  }
+
+  /**
+   * Decrypt a token sealed under the same context
+   */
+  async open(sealed: string, context: string): Promise<string> {
+    const encrypted: EncryptedData = JSON.parse(sealed);
+    return this.encryption.decryptText(encrypted, this.key(), context);
+  }
+
+  private key(): string {
+    const key = this.secret();
+    if (!key) {
+      throw new Error('CHRONICLER_TOKEN_KEY is not configured');
+    }
+    return key;
+  }
+}
+
+/**
+ * OAuth clients configured through the environment
+ */
+export function oauthCredentialsFromEnv(
+  env: Record<string, string | undefined> = typeof process !== 'undefined' ? process.env : {}
+): Partial<Record<ExternalProvider, OAuthClientCredentials>> {
+  const credentials: Partial<Record<ExternalProvider, OAuthClientCredentials>> = {};
+
+  if (env.GOOGLE_OAUTH_CLIENT_ID) {
+    const google = { client_id: env.GOOGLE_OAUTH_CLIENT_ID, client_secret: env.GOOGLE_OAUTH_CLIENT_SECRET };
+    credentials.google_photos = google;
+    credentials.google_drive = google;
+  }
+  if (env.DROPBOX_APP_KEY) {
+    credentials.dropbox = { client_id: env.DROPBOX_APP_KEY, client_secret: env.DROPBOX_APP_SECRET };
+  }
+  if (env.MICROSOFT_CLIENT_ID) {
+    credentials.onedrive = { client_id: env.MICROSOFT_CLIENT_ID, client_secret: env.MICROSOFT_CLIENT_SECRET };
+  }
+  if (env.CLOUDKIT_API_TOKEN) {
+    credentials.icloud_photos = { client_id: env.CLOUDKIT_API_TOKEN };
+  }
+
+  return credentials;
+}
+
+/**
+ * Sync engine dependencies and tuning
+ */
+export interface AssetSyncEngineOptions {
+  transport?: HttpTransport;
+  adapters?: Partial<Record<ExternalProvider, AssetProviderAdapter>>;
+  credentials?: Partial<Record<ExternalProvider, OAuthClientCredentials>>;
+  vault?: TokenVault;
+  projects?: ProjectRepository;
+  maxRetries?: number;
+  sleep?: (ms: number) => Promise<void>;
+  now?: () => Date;
+}
+
+/**
+ * Saves the integration after tokens, cursors or synced items change
+ */
+export type PersistIntegration = (integration: ExternalAssetIntegration) => Promise<void>;
+
+/**
+ * What a provider session needs from the engine
+ */
+interface SessionDependencies {
+  transport: HttpTransport;
+  credentials?: OAuthClientCredentials;
+  maxRetries: number;
+  sleep: (ms: number) => Promise<void>;
+  now: () => Date;
+  persist: PersistIntegration;
+  openToken: (sealed: string) => Promise<string>;
+  storeTokens: (grant: ExternalTokenGrant) => Promise<void>;
+}
+
+/**
+ * Counters for one sync run
+ */
+interface SyncCounts {
+  added: number;
+  updated: number;
+  failed: number;
+  skipped: number;
+  conflicts: number;
+}
+
+/**
+ * Incremental asset sync across providers
+ */
+export class AssetSyncEngine {
+  private transport: HttpTransport;
+  private adapters: Partial<Record<ExternalProvider, AssetProviderAdapter>>;
+  private credentials: Partial<Record<ExternalProvider, OAuthClientCredentials>>;
+  private vault: TokenVault;
+  private projects: ProjectRepository;
+  private maxRetries: number;
+  private sleep: (ms: number) => Promise<void>;
+  private now: () => Date;
+
+  constructor(options: AssetSyncEngineOptions = {}) {
+    this.transport = options.transport || fetchTransport;
+    this.adapters = options.adapters || createProviderAdapters();
+    this.credentials = options.credentials || oauthCredentialsFromEnv();
+    this.vault = options.vault || new TokenVault();
+    this.projects = options.projects || defaultProjectRepository;
+    this.maxRetries = options.maxRetries !== undefined ? options.maxRetries : DEFAULT_MAX_RETRIES;
+    this.sleep = options.sleep || (ms => new Promise(resolve => setTimeout(resolve, ms)));
+    this.now = options.now || (() => new Date());
+  }
+
+  /**
+   * Encrypt and store the tokens of a connected account
+   */
+  async storeTokens(integration: ExternalAssetIntegration, grant: ExternalTokenGrant): Promise<void> {
+    const context = tokenContext(integration);
+
+    integration.auth.access_token = await this.vault.seal(grant.access_token, context);
+    integration.auth.refresh_token = grant.refresh_token
+      ? await this.vault.seal(grant.refresh_token, context)
+      : undefined;
+    integration.auth.expires_at = grant.expires_at;
+  }
+
+  /**
+   * Pull all changes since the last sync into the integration's project
+   * Progress is persisted after every page, so an interrupted sync resumes
+   * where it stopped. Rate limiting pauses the integration until the provider's
+   * retry time; the error is rethrown for the caller to report.
+   */
+  async sync(integration: ExternalAssetIntegration, persist: PersistIntegration): Promise<SyncStatistics> {
+    const adapter = this.adapters[integration.provider];
+    if (!adapter) {
+      throw new UnsupportedProviderError(integration.provider);
+    }
+
+    const state: IntegrationSyncState = integration.sync_state || { items: {} };
+    integration.sync_state = state;
+
+    const startedAt = this.now().getTime();
+    if (state.retry_after && state.retry_after.getTime() > startedAt) {
+      throw new ProviderRateLimitError(integration.provider, state.retry_after.getTime() - startedAt);
+    }
+
+    const counts: SyncCounts = { added: 0, updated: 0, failed: 0, skipped: 0, conflicts: 0 };
+
+    try {
+      const projectId = await this.ensureProject(integration, persist);
+      const session = new ProviderSession(integration, adapter, {
+        transport: this.transport,
+        credentials: this.credentials[integration.provider],
+        maxRetries: this.maxRetries,
+        sleep: this.sleep,
+        now: this.now,
+        persist,
+        openToken: sealed => this.vault.open(sealed, tokenContext(integration)),
+        storeTokens: grant => this.storeTokens(integration, grant)
+      });
+
+      await this.retryFailed(integration, adapter, session, projectId, counts);
+
+      let cursor = state.cursor;
+      let restarted = false;
+      for (;;) {
+        let page: ProviderChangePage;
+        try {
+          page = await adapter.listChanges(session, cursor);
+        } catch (error) {
+          // Relist everything once; unchanged items are recognised by version
+          if (error instanceof SyncCursorExpiredError && cursor && !restarted) {
+            cursor = undefined;
+            restarted = true;
+            continue;
+          }
+          throw error;
+        }
+
+        for (const change of page.changes) {
+          await this.applyChange(integration, adapter, session, projectId, change, counts);
+        }
+
+        cursor = page.cursor;
+        state.cursor = cursor;
+        integration.updated_at = this.now();
+        await persist(integration);
+
+        if (!page.has_more) break;
+      }
+
+      delete state.retry_after;
+      delete state.last_error;
+    } catch (error) {
+      state.last_error = error instanceof Error ? error.message : String(error);
+      if (error instanceof ProviderRateLimitError) {
+        state.retry_after = new Date(this.now().getTime() + error.retryAfterMs);
+      }
+      throw error;
+    }
+
+    const elapsed = this.now().getTime() - startedAt;
+    const transferred = counts.added + counts.updated;
+
+    return {
+      total_synced: Object.keys(state.items).filter(id => !!state.items[id].asset_id).length,
+      last_sync_added: counts.added,
+      last_sync_updated: counts.updated,
+      last_sync_failed: counts.failed,
+      last_sync_skipped: counts.skipped,
+      last_sync_conflicts: counts.conflicts,
+      total_sync_time_ms: elapsed,
+      avg_sync_time_per_asset_ms: transferred > 0 ? elapsed / transferred : 0
+    };
+  }
+
+  /**
+   * Project that receives the integration's assets
+   */
+  private async ensureProject(integration: ExternalAssetIntegration, persist: PersistIntegration): Promise<string> {
+    const existing = integration.settings.project_id;
+    if (existing && await this.projects.getProjectById(existing)) {
+      return existing;
+    }
+
+    const project = await this.projects.createProject(integration.user_id, {
+      name: PROVIDER_LABELS[integration.provider],
+      description: `Bilder och filer synkade från ${PROVIDER_LABELS[integration.provider]}`,
+      type: 'personal_chronicle'
+    });
+    integration.settings.project_id = project.id;
+    await persist(integration);
+
+    return project.id;
+  }
+
+  /**
+   * Retry downloads that failed in earlier syncs
+   */
+  private async retryFailed(
+    integration: ExternalAssetIntegration,
+    adapter: AssetProviderAdapter,
+    session: ProviderSession,
+    projectId: string,
+    counts: SyncCounts
+  ): Promise<void> {
+    const failed = integration.sync_state!.failed_items;
+    if (!failed) return;
+
+    delete integration.sync_state!.failed_items;
+    for (const externalId of Object.keys(failed)) {
+      const { asset, version } = failed[externalId];
+      await this.applyChange(integration, adapter, session, projectId, {
+        external_id: externalId,
+        removed: false,
+        version,
+        asset
+      }, counts);
+    }
+  }
+
+  /**
+   * Apply one remote change
+   * Local assets are never removed because the remote copy was: a photo
+   * deleted from a phone to free space is still a memory. Items the user
+   * deleted locally are not imported again. A change to an asset nobody has
+   * edited locally since it was synced updates it in place; only a change to
+   * a locally edited asset is a conflict for the policy to resolve.
+   */
+  private async applyChange(
+    integration: ExternalAssetIntegration,
+    adapter: AssetProviderAdapter,
+    session: ProviderSession,
+    projectId: string,
+    change: ProviderChange,
+    counts: SyncCounts
+  ): Promise<void> {
+    const state = integration.sync_state!;
+    const record = state.items[change.external_id];
+
+    if (state.failed_items) {
+      delete state.failed_items[change.external_id];
+    }
+
+    if (change.removed) {
+      if (record) record.remote_deleted = true;
+      return;
+    }
+
+    if (!change.asset || !matchesSettings(change.asset, integration.settings, change.folder)) {
+      counts.skipped++;
+      return;
+    }
+
+    // Prefixed so the stored version is never read back as a date
+    const version = change.version || `modified:${change.asset.external_metadata.modified_at.toISOString()}`;
+
+    const policy: SyncConflictPolicy = integration.settings.conflict_policy || 'keep_both';
+    let inPlace = false;
+
+    if (record) {
+      delete record.remote_deleted;
+      if (record.version === version) {
+        counts.skipped++;
+        return;
+      }
+
+      const local = record.asset_id ? await this.projects.getAssetById(record.asset_id) : null;
+      if (!local || local.status === 'deleted') {
+        delete record.asset_id;
+        record.version = version;
+        counts.skipped++;
+        return;
+      }
+
+      const editedAt = local.updated_at || local.uploaded_at;
+      inPlace = editedAt.getTime() <= record.synced_at.getTime();
+      if (!inPlace) {
+        counts.conflicts++;
+        if (policy === 'keep_local') {
+          record.version = version;
+          return;
+        }
+      }
+    }
+
+    try {
+      const data = await this.downloadAsset(integration, adapter, session, change.asset);
+
+      if (record && inPlace) {
+        if (!await this.projects.updateAsset(record.asset_id!, data)) {
+          throw new Error(`Asset ${record.asset_id} not found`);
+        }
+        record.version = version;
+        record.synced_at = this.now();
+        counts.updated++;
+      } else if (record) {
+        const assetId = await this.storeAsset(integration, projectId, data);
+        if (record.asset_id && policy === 'prefer_remote') {
+          await this.projects.deleteAsset(record.asset_id);
+        }
+        record.asset_id = assetId;
+        record.version = version;
+        record.synced_at = this.now();
+        counts.updated++;
+      } else {
+        const assetId = await this.storeAsset(integration, projectId, data);
+        state.items[change.external_id] = { asset_id: assetId, version, synced_at: this.now() };
+        counts.added++;
+      }
+    } catch (error) {
+      if (error instanceof ProviderRateLimitError || error instanceof ProviderAuthError) {
+        throw error;
+      }
+
+      // Keep the change so the next sync retries it even though the cursor moves on
+      state.failed_items = state.failed_items || {};
+      state.failed_items[change.external_id] = { asset: change.asset, version };
+      counts.failed++;
+    }
+  }
+
+  /**
+   * Download a remote asset as upload data for the project
+   */
+  private async downloadAsset(
+    integration: ExternalAssetIntegration,
+    adapter: AssetProviderAdapter,
+    session: ProviderSession,
+    asset: ExternalAsset
+  ): Promise<UploadAssetData> {
+    const metadata = asset.external_metadata;
+    const fileData = integration.settings.privacy.metadata_only
+      ? new ArrayBuffer(0)
+      : await adapter.download(session, asset);
+
+    return {
+      filename: metadata.filename,
+      type: assetTypeFromMime(metadata.mime_type),
+      mime_type: metadata.mime_type,
+      size_bytes: metadata.size_bytes || fileData.byteLength,
+      file_data: fileData,
+      metadata: {
+        tags: [integration.provider],
+        dimensions: metadata.provider_metadata.dimensions,
+        location: metadata.provider_metadata.location
+      }
+    };
+  }
+
+  /**
+   * Store a downloaded asset in the project
+   */
+  private async storeAsset(integration: ExternalAssetIntegration, projectId: string, data: UploadAssetData): Promise<string> {
+    const stored = await this.projects.uploadAsset(projectId, integration.user_id, data);
+    if (!stored) {
+      throw new Error(`Project ${projectId} not found`);
+    }
+
+    return stored.id;
+  }
+}
+
+/**
+ * Authorized provider connection for one sync run
+ * Refreshes the access token ahead of expiry or once after a 401, and backs
+ * off while the provider rate limits.
+ */
+class ProviderSession implements ProviderClient {
+  readonly credentials?: OAuthClientCredentials;
+  private integration: ExternalAssetIntegration;
+  private adapter: AssetProviderAdapter;
+  private deps: SessionDependencies;
+  private accessToken?: string;
+
+  constructor(integration: ExternalAssetIntegration, adapter: AssetProviderAdapter, deps: SessionDependencies) {
+    this.integration = integration;
+    this.adapter = adapter;
+    this.deps = deps;
+    this.credentials = deps.credentials;
+  }
+
+  async request(request: ProviderRequest): Promise<HttpResponse> {
+    const auth = request.auth || 'bearer';
+    if (auth === 'none') {
+      return this.send(() => toHttpRequest(request));
+    }
+
+    const response = await this.send(async () => toHttpRequest(request, auth, await this.token()));
+    if (response.status !== 401) {
+      return response;
+    }
+
+    await this.refresh();
+    const retried = await this.send(async () => toHttpRequest(request, auth, await this.token()));
+    if (retried.status === 401) {
+      throw new ProviderAuthError(this.integration.provider, `${this.integration.provider} rejected the refreshed access token`);
+    }
+    return retried;
+  }
+
+  /**
+   * Send a request, retrying while the provider rate limits
+   */
+  private async send(build: () => HttpRequest | Promise<HttpRequest>): Promise<HttpResponse> {
+    for (let attempt = 0; ; attempt++) {
+      const response = await this.deps.transport(await build());
+      if (response.status !== 429 && response.status !== 503) {
+        return response;
+      }
+
+      const delay = retryDelay(response, attempt, this.deps.now());
+      if (attempt >= this.deps.maxRetries) {
+        throw new ProviderRateLimitError(this.integration.provider, delay);
+      }
+      await this.deps.sleep(delay);
+    }
+  }
+
+  /**
+   * Current access token, refreshed ahead of expiry
+   */
+  private async token(): Promise<string> {
+    if (!this.accessToken) {
+      const { auth } = this.integration;
+      const expiresAt = auth.expires_at ? auth.expires_at.getTime() : Infinity;
+
+      if (auth.refresh_token && expiresAt - this.deps.now().getTime() < TOKEN_REFRESH_MARGIN_MS) {
+        await this.refresh();
+      } else {
+        this.accessToken = await this.deps.openToken(auth.access_token);
+      }
+    }
+    return this.accessToken!;
+  }
+
+  /**
+   * Exchange the refresh token and store the new tokens
+   */
+  private async refresh(): Promise<void> {
+    const { auth, provider } = this.integration;
+    if (!auth.refresh_token) {
+      throw new ProviderAuthError(provider, `${provider} rejected the access token and there is no refresh token`);
+    }
+
+    const refreshToken = await this.deps.openToken(auth.refresh_token);
+    const grant = await this.adapter.refreshToken(this, refreshToken);
+
+    await this.deps.storeTokens({
+      access_token: grant.access_token,
+      // Providers that do not rotate refresh tokens leave it out of the response
+      refresh_token: grant.refresh_token || refreshToken,
+      expires_at: grant.expires_in !== undefined
+        ? new Date(this.deps.now().getTime() + grant.expires_in * 1000)
+        : undefined
+    });
+    await this.deps.persist(this.integration);
+
+    this.accessToken = grant.access_token;
+  }
+}
+
+/**
+ * Additional authenticated data binding sealed tokens to their integration
+ */
+function tokenContext(integration: ExternalAssetIntegration): string {
+  return `${integration.user_id}:${integration.id}`;
+}
+
+/**
+ * Transport request with the access token attached
+ */
+function toHttpRequest(
+  request: ProviderRequest,
+  auth?: 'bearer' | { query: string },
+  token?: string
+): HttpRequest {
+  const headers: Record<string, string> = { ...(request.headers || {}) };
+  let url = request.url;
+
+  if (auth === 'bearer') {
+    headers.Authorization = `Bearer ${token}`;
+  } else if (auth) {
+    url += `${url.indexOf('?') >= 0 ? '&' : '?'}${auth.query}=${encodeURIComponent(token || '')}`;
+  }
+
+  return { method: request.method, url, headers, body: request.body };
+}
+
+/**
+ * Delay before retrying a rate-limited request
+ * Honours Retry-After (seconds or an HTTP date), otherwise backs off
+ * exponentially.
+ */
+function retryDelay(response: HttpResponse, attempt: number, now: Date): number {
+  const header = response.headers['retry-after'];
+  if (header) {
+    const seconds = Number(header);
+    const delay = isNaN(seconds) ? new Date(header).getTime() - now.getTime() : seconds * 1000;
+    if (!isNaN(delay)) {
+      return Math.min(Math.max(delay, 0), MAX_BACKOFF_MS);
+    }
+  }
+  return Math.min(BASE_BACKOFF_MS * Math.pow(2, attempt), MAX_BACKOFF_MS);
+}
+
+/**
+ * Project asset type for a MIME type
+ */
+export function assetTypeFromMime(mimeType: string): AssetType {
+  if (mimeType.indexOf('image/') === 0) return 'image';
+  if (mimeType.indexOf('video/') === 0) return 'video';
+  if (mimeType.indexOf('audio/') === 0) return 'audio';
+  if (/zip|x-tar|x-7z|x-rar/.test(mimeType)) return 'archive';
+  if (/^text\/|pdf|msword|officedocument|opendocument/.test(mimeType)) return 'document';
+  return 'other';
+}
+
+/**
+ * Whether a remote asset passes the integration's type, date, size and folder filters
+ */
+function matchesSettings(asset: ExternalAsset, settings: IntegrationSettings, folder?: string): boolean {
+  const metadata = asset.external_metadata;
+
+  if (settings.asset_types.length > 0 && settings.asset_types.indexOf(assetTypeFromMime(metadata.mime_type)) < 0) {
+    return false;
+  }
+
+  if (settings.date_range) {
+    const createdAt = metadata.created_at.getTime();
+    if (createdAt < settings.date_range.start_date.getTime()) return false;
+    if (settings.date_range.end_date && createdAt > settings.date_range.end_date.getTime()) return false;
+  }
+
+  const filters = settings.filters;
+  if (!filters) return true;
+
+  if (filters.min_file_size !== undefined && metadata.size_bytes < filters.min_file_size) return false;
+  if (filters.max_file_size !== undefined && metadata.size_bytes > filters.max_file_size) return false;
+
+  if (filters.file_types && filters.file_types.length > 0) {
+    const extension = metadata.filename.slice(metadata.filename.lastIndexOf('.') + 1).toLowerCase();
+    const accepted = filters.file_types.some(type => {
+      const wanted = type.toLowerCase().replace(/^\./, '');
+      return wanted === extension || wanted === metadata.mime_type;
+    });
+    if (!accepted) return false;
+  }
+
+  const inFolder = (prefix: string) => !!folder && (folder === prefix || folder.indexOf(`${prefix}/`) === 0);
+  if (filters.include_folders && filters.include_folders.length > 0 && !filters.include_folders.some(inFolder)) {
+    return false;
+  }
+  if (filters.exclude_folders && filters.exclude_folders.some(inFolder)) {
+    return false;
+  }
+
+  return true;
+}
@@ -0,0 +1,91 @@
+/**
+ * Block lock API (server-side only)
+ * Runs block lock calls from the browser against the server's
+ * CollaborationService, always for the user of the session and only in
+ * collaborative sessions they take part in.
+ */
+
+import { BlockLockError } from './collaboration-service';
+import { getServerCollaborationService } from './collaboration-server';
+import { BLOCK_LOCK_ACTIONS, BlockLockAction } from './block-lock-client';
+import { MemoryFactory } from '../lib/memory/memory-factory';
+import { bootstrapServer } from '../lib/server-bootstrap';
+import { BlockLock } from '../types/collaboration';
+
+/**
+ * Error raised for a block lock call that must not run
+ */
+export class BlockLockApiRequestError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'BlockLockApiRequestError';
+    this.status = status;
+  }
+}
+
+/**
+ * Check that the signed-in user takes part in the session
+ */
+async function requireParticipant(sessionUserId: string, sessionId: string) {
+  if (typeof sessionId !== 'string' || !sessionId) {
+    throw new BlockLockApiRequestError('A session ID is required', 400);
+  }
+
+  await bootstrapServer();
+  const session = await MemoryFactory.getInstance().getMemoryAssistant().getCollaborativeSession(sessionId);
+  if (!session) {
+    throw new BlockLockApiRequestError(`Session ${sessionId} not found`, 404);
+  }
+  if (session.host_user_id !== sessionUserId && !session.participants.some(p => p.user_id === sessionUserId)) {
+    throw new BlockLockApiRequestError('Only session participants can see and take block locks', 403);
+  }
+  return session;
+}
+
+/**
+ * Locks of a session that have not expired, for one of its participants
+ */
+export async function listBlockLocks(sessionUserId: string, sessionId: string, now: Date = new Date()): Promise<BlockLock[]> {
+  const session = await requireParticipant(sessionUserId, sessionId);
+  return session.block_locks.filter(lock => lock.expires_at.getTime() > now.getTime());
+}
+
+/**
+ * Run a lock action for the signed-in user
+ * Lock conflicts and missing edit rights are raised as 409 errors.
+ */
+export async function runBlockLockCall(
+  sessionUserId: string,
+  action: string,
+  sessionId: string,
+  blockId: string
+): Promise<unknown> {
+  if ((BLOCK_LOCK_ACTIONS as readonly string[]).indexOf(action) === -1) {
+    throw new BlockLockApiRequestError(`Unknown block lock action: ${action}`, 400);
+  }
+  if (typeof blockId !== 'string' || !blockId) {
+    throw new BlockLockApiRequestError('A block ID is required', 400);
+  }
+  await requireParticipant(sessionUserId, sessionId);
+
+  const collaboration = await getServerCollaborationService();
+  try {
+    switch (action as BlockLockAction) {
+      case 'acquire':
+        return await collaboration.acquireBlockLock(sessionId, sessionUserId, blockId);
+      case 'renew':
+        return await collaboration.renewBlockLock(sessionId, sessionUserId, blockId);
+      case 'release':
+        return await collaboration.releaseBlockLock(sessionId, sessionUserId, blockId);
+      case 'takeover':
+        return await collaboration.requestLockTakeover(sessionId, sessionUserId, blockId);
+    }
+  } catch (error) {
+    if (error instanceof BlockLockError) {
+      throw new BlockLockApiRequestError(error.message, 409);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Block lock client
+ * Browser-side access to the block lock leases of a collaborative session:
+ * every call goes to the block lock API route, which runs it on the server
+ * for the signed-in user.
+ */
+
+import type { BlockLock, LockTakeoverResult } from '../types/collaboration';
+import { createDateReviver } from '../lib/value-utils';
+
+/** Endpoint of the block lock API route */
+export const BLOCK_LOCK_API_PATH = '/api/block-locks';
+
+/**
+ * Lock actions the block lock API route runs
+ */
+export const BLOCK_LOCK_ACTIONS = ['acquire', 'renew', 'release', 'takeover'] as const;
+
+export type BlockLockAction = typeof BLOCK_LOCK_ACTIONS[number];
+
+/**
+ * Block lock leases of a collaborative session, held by the signed-in user
+ */
+export interface BlockLockApi {
+  /** Locks of the session that have not expired */
+  getBlockLocks(sessionId: string): Promise<BlockLock[]>;
+
+  /** Lock a block for editing */
+  acquireBlockLock(sessionId: string, blockId: string): Promise<BlockLock>;
+
+  /** Extend the lease on a block while editing it */
+  renewBlockLock(sessionId: string, blockId: string): Promise<BlockLock>;
+
+  /** Give a block back */
+  releaseBlockLock(sessionId: string, blockId: string): Promise<void>;
+
+  /** Ask for a block another participant holds */
+  requestLockTakeover(sessionId: string, blockId: string): Promise<LockTakeoverResult>;
+}
+
+/**
+ * Error returned by the block lock API route
+ */
+export class BlockLockApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'BlockLockApiError';
+    this.status = status;
+  }
+}
+
+/**
+ * Calls the block lock API route
+ */
+export class BlockLockClient implements BlockLockApi {
+  private endpoint: string;
+
+  constructor(endpoint: string = BLOCK_LOCK_API_PATH) {
+    this.endpoint = endpoint;
+  }
+
+  async getBlockLocks(sessionId: string): Promise<BlockLock[]> {
+    const response = await fetch(`${this.endpoint}?session_id=${encodeURIComponent(sessionId)}`, {
+      credentials: 'same-origin'
+    });
+    return (await this.readBody(response)).locks;
+  }
+
+  acquireBlockLock(sessionId: string, blockId: string): Promise<BlockLock> {
+    return this.call('acquire', sessionId, blockId);
+  }
+
+  renewBlockLock(sessionId: string, blockId: string): Promise<BlockLock> {
+    return this.call('renew', sessionId, blockId);
+  }
+
+  async releaseBlockLock(sessionId: string, blockId: string): Promise<void> {
+    await this.call('release', sessionId, blockId);
+  }
+
+  requestLockTakeover(sessionId: string, blockId: string): Promise<LockTakeoverResult> {
+    return this.call('takeover', sessionId, blockId);
+  }
+
+  /**
+   * Run a lock action on the server
+   */
+  private async call(action: BlockLockAction, sessionId: string, blockId: string): Promise<any> {
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      credentials: 'same-origin',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action, session_id: sessionId, block_id: blockId })
+    });
+    return (await this.readBody(response)).result;
+  }
+
+  /**
+   * Parse a response, reviving dates, and raise API errors
+   */
+  private async readBody(response: Response): Promise<any> {
+    const body = JSON.parse(await response.text(), createDateReviver());
+    if (!response.ok) {
+      throw new BlockLockApiError(body.error || `Block lock request failed (${response.status})`, response.status);
+    }
+    return body;
+  }
+}
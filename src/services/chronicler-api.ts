@@ -0,0 +1,73 @@
+/**
+ * Personal Chronicler API (server-side only)
+ * Runs chronicler calls from the browser against the server's memory system,
+ * always on behalf of the user of the session.
+ */
+
+import { ChroniclerService } from './chronicler-service';
+import { CHRONICLER_API_METHODS, ChroniclerApiMethod } from './chronicler-client';
+import { MemoryFactory } from '../lib/memory/memory-factory';
+import { agentFactory } from '../lib/agent-factory';
+import { resourceGovernor } from '../lib/resource-governor';
+import { bootstrapServer } from '../lib/server-bootstrap';
+
+/**
+ * Error raised for a chronicler call that must not run
+ */
+export class ChroniclerApiRequestError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ChroniclerApiRequestError';
+    this.status = status;
+  }
+}
+
+let service: Promise<ChroniclerService> | null = null;
+
+/**
+ * The server's ChroniclerService, created once the memory system is running
+ */
+function getChroniclerService(): Promise<ChroniclerService> {
+  if (!service) {
+    service = createChroniclerService();
+    service.catch(() => {
+      service = null;
+    });
+  }
+  return service;
+}
+
+async function createChroniclerService(): Promise<ChroniclerService> {
+  await bootstrapServer();
+
+  const cognitiveAgent = await agentFactory.createAgent({
+    llm_model: 'gpt-4',
+    toolkit: ['reflection_analysis', 'content_transformation'],
+    memory_scope: 'chronicler',
+    entry_phase: 'EMERGE'
+  }, 'Conscious');
+
+  return new ChroniclerService(MemoryFactory.getInstance().getMemoryAssistant(), cognitiveAgent, resourceGovernor);
+}
+
+/**
+ * Run a chronicler call for the signed-in user
+ * Calls name their acting user first; a call for anyone else is refused.
+ */
+export async function runChroniclerCall(sessionUserId: string, method: string, args: unknown): Promise<unknown> {
+  if ((CHRONICLER_API_METHODS as readonly string[]).indexOf(method) === -1) {
+    throw new ChroniclerApiRequestError(`Unknown chronicler method: ${method}`, 400);
+  }
+  if (!Array.isArray(args) || args.length === 0) {
+    throw new ChroniclerApiRequestError('Chronicler calls take the acting user and the method arguments', 400);
+  }
+  if (args[0] !== sessionUserId) {
+    throw new ChroniclerApiRequestError('Chronicler calls can only act for the signed-in user', 403);
+  }
+
+  const chronicler = await getChroniclerService();
+  const run = chronicler[method as ChroniclerApiMethod] as (...callArgs: any[]) => Promise<unknown>;
+  return run.apply(chronicler, args);
+}
@@ -0,0 +1,107 @@
+/**
+ * Personal Chronicler client
+ * Browser-side stand-in for the ChroniclerService: every call goes to the
+ * chronicler API route, which runs it on the server for the signed-in user.
+ */
+
+import type { ChroniclerService } from './chronicler-service';
+import { createDateReviver } from '../lib/value-utils';
+
+/** Endpoint of the chronicler API route */
+export const CHRONICLER_API_PATH = '/api/chronicler';
+
+/**
+ * ChroniclerService methods callable from the browser
+ * Each takes the acting user's ID as its first argument.
+ */
+export const CHRONICLER_API_METHODS = [
+  'createReflection',
+  'updateReflection',
+  'listRevisions',
+  'restoreRevision',
+  'diffRevisions',
+  'transformForRecipient',
+  'setupExternalIntegration',
+  'syncExternalAssets',
+  'getUserReflections',
+  'search'
+] as const;
+
+export type ChroniclerApiMethod = typeof CHRONICLER_API_METHODS[number];
+
+/**
+ * The part of the ChroniclerService the chronicler components use
+ */
+export type ChroniclerApi = Pick<ChroniclerService, ChroniclerApiMethod>;
+
+/**
+ * Error returned by the chronicler API route
+ */
+export class ChroniclerApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ChroniclerApiError';
+    this.status = status;
+  }
+}
+
+/**
+ * Calls the chronicler API route
+ */
+export class ChroniclerClient implements ChroniclerApi {
+  private endpoint: string;
+
+  constructor(endpoint: string = CHRONICLER_API_PATH) {
+    this.endpoint = endpoint;
+  }
+
+  /**
+   * ID of the signed-in user, or null without a session
+   */
+  async getSessionUserId(): Promise<string | null> {
+    const response = await fetch(this.endpoint, { credentials: 'same-origin' });
+    if (response.status === 401) {
+      return null;
+    }
+    return (await this.readBody(response)).user_id;
+  }
+
+  createReflection: ChroniclerService['createReflection'] = (...args) => this.call('createReflection', args);
+  updateReflection: ChroniclerService['updateReflection'] = (...args) => this.call('updateReflection', args);
+  listRevisions: ChroniclerService['listRevisions'] = (...args) => this.call('listRevisions', args);
+  restoreRevision: ChroniclerService['restoreRevision'] = (...args) => this.call('restoreRevision', args);
+  diffRevisions: ChroniclerService['diffRevisions'] = (...args) => this.call('diffRevisions', args);
+  transformForRecipient: ChroniclerService['transformForRecipient'] = (...args) =>
+    this.call('transformForRecipient', args);
+  setupExternalIntegration: ChroniclerService['setupExternalIntegration'] = (...args) =>
+    this.call('setupExternalIntegration', args);
+  syncExternalAssets: ChroniclerService['syncExternalAssets'] = (...args) => this.call('syncExternalAssets', args);
+  getUserReflections: ChroniclerService['getUserReflections'] = (...args) => this.call('getUserReflections', args);
+  search: ChroniclerService['search'] = (...args) => this.call('search', args);
+
+  /**
+   * Run a ChroniclerService method on the server
+   */
+  private async call(method: ChroniclerApiMethod, args: any[]): Promise<any> {
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      credentials: 'same-origin',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ method, args })
+    });
+    return (await this.readBody(response)).result;
+  }
+
+  /**
+   * Parse a response, reviving dates, and raise API errors
+   */
+  private async readBody(response: Response): Promise<any> {
+    const body = JSON.parse(await response.text(), createDateReviver());
+    if (!response.ok) {
+      throw new ChroniclerApiError(body.error || `Chronicler request failed (${response.status})`, response.status);
+    }
+    return body;
+  }
+}
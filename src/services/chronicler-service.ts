@@ -10,15 +10,36 @@ import {
   ChroniclerWorkflow,
   TransformationType,
   ExternalProvider,
+  ExternalTokenGrant,
+  SyncStatistics,
   WorkflowStep,
   WorkflowStatus,
   ReflectionContent,
-  TransformationParameters
+  ReflectionFilters,
+  ReflectionPage,
+  ReflectionRevision,
+  ReflectionRevisionReason,
+  ReflectionSnapshot,
+  ReflectionSearchRequest,
+  ReflectionSearchResults,
+  TransformationParameters,
+  JournalImportFile,
+  JournalImportFormat,
+  JournalImportOptions,
+  JournalImportReport,
+  ParsedJournalEntry
 } from '../types/chronicler';
-import { UserState, Asset, User } from '../types';
+import { UserState, Asset, CognitiveAgent, MemoryScope } from '../types';
+import { SemanticDiff } from '../types/editor';
 import { MemoryAssistant } from '../lib/memory';
-import { CognitiveAgent } from '../lib/cognitive-agent';
 import { ResourceGovernor } from '../lib/resource-governor';
+import { DomainEventBus, domainEventBus } from '../lib/events/domain-event-bus';
+import { UserRepository, userRepository as defaultUserRepository } from '../lib/data/user-repository';
+import { ReflectionSearchEngine } from '../lib/reflection-search';
+import { diffReflectionSnapshots } from '../lib/reflection-diff';
+import { fingerprintJournalEntry, journalEntryDay, parseJournalExport, toImportedContent } from './journal-importers';
+import { AssetSyncEngine } from './asset-sync-engine';
+import { ProviderAuthError, ProviderRateLimitError } from './asset-sync-adapters';
 
 /**
  * Personal Chronicler Service
@@ -28,15 +49,28 @@ export class ChroniclerService {
   private memoryAssistant: MemoryAssistant;
   private cognitiveAgent: CognitiveAgent;
   private resourceGovernor: ResourceGovernor;
+  private events: DomainEventBus;
+  private users: UserRepository;
+  private searchEngine: ReflectionSearchEngine;
+  private assetSync: AssetSyncEngine;
+  private revisionQueues: Map<string, Promise<unknown>> = new Map();
 
   constructor(
     memoryAssistant: MemoryAssistant,
     cognitiveAgent: CognitiveAgent,
-    resourceGovernor: ResourceGovernor
+    resourceGovernor: ResourceGovernor,
+    events: DomainEventBus = domainEventBus,
+    users: UserRepository = defaultUserRepository,
+    searchEngine: ReflectionSearchEngine = new ReflectionSearchEngine(),
+    assetSync: AssetSyncEngine = new AssetSyncEngine()
   ) {
     this.memoryAssistant = memoryAssistant;
     this.cognitiveAgent = cognitiveAgent;
     this.resourceGovernor = resourceGovernor;
+    this.events = events;
+    this.users = users;
+    this.searchEngine = searchEngine;
+    this.assetSync = assetSync;
   }
 
   /**
@@ -84,45 +118,136 @@ export class ChroniclerService {
       'reflection_creation'
     );
 
+    await this.events.publish('reflection.created', { reflection }, reflection.created_at);
+
     return reflection;
   }
 
   /**
    * Update an existing reflection
+   * Every update is kept as an immutable revision; the first one also keeps
+   * the content as it was before any tracked change.
    */
   async updateReflection(
+    userId: string,
     reflectionId: string,
     updates: Partial<ReflectionEntry>,
     newEmotionalContext?: UserState
   ): Promise<ReflectionEntry> {
-    const existing = await this.memoryAssistant.getReflection(reflectionId);
-    if (!existing) {
+    return this.withRevisions(reflectionId, async () => {
+      const existing = await this.memoryAssistant.getReflection(reflectionId, this.userScope(userId));
+      if (!existing) {
+        throw new Error(`Reflection ${reflectionId} not found`);
+      }
+
+      const updated: ReflectionEntry = {
+        ...existing,
+        ...updates,
+        updated_at: new Date()
+      };
+
+      // Update tags if content changed
+      if (updates.content) {
+        updated.tags = await this.extractTags(updates.content);
+      }
+
+      return this.reviseReflection(existing, updated, {
+        reason: 'update',
+        author_id: userId,
+        emotional_context: newEmotionalContext
+      });
+    });
+  }
+
+  /**
+   * List a reflection's revisions, oldest first
+   */
+  async listRevisions(userId: string, reflectionId: string): Promise<ReflectionRevision[]> {
+    const scope = this.userScope(userId);
+    const reflection = await this.memoryAssistant.getReflection(reflectionId, scope);
+    if (!reflection) {
       throw new Error(`Reflection ${reflectionId} not found`);
     }
 
-    const updated: ReflectionEntry = {
-      ...existing,
-      ...updates,
-      updated_at: new Date()
-    };
+    return this.memoryAssistant.listReflectionRevisions(reflectionId, scope);
+  }
 
-    // Update tags if content changed
-    if (updates.content) {
-      updated.tags = await this.extractTags(updates.content);
+  /**
+   * Get one revision of a reflection
+   */
+  async getRevision(userId: string, reflectionId: string, revisionId: string): Promise<ReflectionRevision> {
+    const revision = await this.memoryAssistant.getReflectionRevision(revisionId, this.userScope(userId));
+    if (!revision || revision.reflection_id !== reflectionId) {
+      throw new Error(`Revision ${revisionId} of reflection ${reflectionId} not found`);
     }
+    return revision;
+  }
 
-    await this.memoryAssistant.saveReflection(updated);
+  /**
+   * Put a reflection back to the content of an earlier revision
+   * The restore is itself recorded as a new revision, so it can be undone.
+   */
+  async restoreRevision(
+    userId: string,
+    reflectionId: string,
+    revisionId: string,
+    emotionalContext?: UserState
+  ): Promise<ReflectionEntry> {
+    return this.withRevisions(reflectionId, async () => {
+      const existing = await this.memoryAssistant.getReflection(reflectionId, this.userScope(userId));
+      if (!existing) {
+        throw new Error(`Reflection ${reflectionId} not found`);
+      }
+      const revision = await this.getRevision(userId, reflectionId, revisionId);
 
-    // Store new emotional context if provided
-    if (newEmotionalContext) {
-      await this.memoryAssistant.storeEmotionalContext(
-        reflectionId,
-        newEmotionalContext,
-        'reflection_update'
-      );
+      const restored: ReflectionEntry = {
+        ...existing,
+        ...revision.snapshot,
+        updated_at: new Date()
+      };
+      if (!revision.snapshot.location) {
+        delete restored.location;
+      }
+
+      return this.reviseReflection(existing, restored, {
+        reason: 'restore',
+        author_id: userId,
+        emotional_context: emotionalContext,
+        restored_from: revision.id
+      });
+    });
+  }
+
+  /**
+   * Block-level differences between two revisions
+   * Without a second revision the first is compared with the current reflection.
+   */
+  async diffRevisions(
+    userId: string,
+    reflectionId: string,
+    fromRevisionId: string,
+    toRevisionId?: string
+  ): Promise<SemanticDiff[]> {
+    const from = await this.getRevision(userId, reflectionId, fromRevisionId);
+
+    if (toRevisionId) {
+      const to = await this.getRevision(userId, reflectionId, toRevisionId);
+      return diffReflectionSnapshots(from.snapshot, to.snapshot, {
+        id_prefix: `${from.id}..${to.id}`,
+        before_at: from.created_at,
+        after_at: to.created_at
+      });
     }
 
-    return updated;
+    const current = await this.memoryAssistant.getReflection(reflectionId, this.userScope(userId));
+    if (!current) {
+      throw new Error(`Reflection ${reflectionId} not found`);
+    }
+    return diffReflectionSnapshots(from.snapshot, this.snapshotOf(current), {
+      id_prefix: `${from.id}..current`,
+      before_at: from.created_at,
+      after_at: current.updated_at
+    });
   }
 
   /**
@@ -130,19 +255,13 @@ export class ChroniclerService {
    * Requirement 19.2: Cortex-mode message transformation for recipients
    */
   async transformForRecipient(
+    userId: string,
     reflectionId: string,
     recipientId: string,
     transformationType: TransformationType,
     parameters: TransformationParameters
   ): Promise<CortexTransformation> {
-    // Validate resource usage for Cortex-mode operation
-    await this.resourceGovernor.validateCortexMode({
-      userId: (await this.memoryAssistant.getReflection(reflectionId))?.user_id || '',
-      operation: 'message_transformation',
-      complexity: 'high'
-    });
-
-    const reflection = await this.memoryAssistant.getReflection(reflectionId);
+    const reflection = await this.memoryAssistant.getReflection(reflectionId, this.userScope(userId));
     if (!reflection) {
       throw new Error(`Reflection ${reflectionId} not found`);
     }
@@ -151,6 +270,13 @@ export class ChroniclerService {
       throw new Error('Cannot transform private reflections');
     }
 
+    // Validate resource usage for Cortex-mode operation
+    await this.resourceGovernor.validateCortexMode({
+      userId: reflection.user_id,
+      operation: 'message_transformation',
+      complexity: 'high'
+    });
+
     const transformation: CortexTransformation = {
       id: this.generateId(),
       source_reflection_id: reflectionId,
@@ -214,7 +340,7 @@ export class ChroniclerService {
   async setupExternalIntegration(
     userId: string,
     provider: ExternalProvider,
-    authToken: string,
+    authToken: string | ExternalTokenGrant,
     settings: any
   ): Promise<ExternalAssetIntegration> {
     const integration: ExternalAssetIntegration = {
@@ -223,7 +349,7 @@ export class ChroniclerService {
       provider,
       status: 'connected',
       auth: {
-        access_token: await this.encryptToken(authToken),
+        access_token: '',
         scopes: this.getProviderScopes(provider),
         method: 'oauth2'
       },
@@ -231,22 +357,32 @@ export class ChroniclerService {
         auto_sync: settings.auto_sync || false,
         sync_frequency_hours: settings.sync_frequency_hours || 24,
         asset_types: settings.asset_types || ['image', 'video'],
+        date_range: settings.date_range,
+        filters: settings.filters,
         privacy: {
           encrypt_assets: true,
           metadata_only: false,
           require_consent: true,
           auto_delete_after_sync: false
-        }
+        },
+        project_id: settings.project_id,
+        conflict_policy: settings.conflict_policy
       },
       created_at: new Date(),
       updated_at: new Date()
     };
 
+    // Tokens are encrypted at rest, bound to this integration
+    await this.assetSync.storeTokens(
+      integration,
+      typeof authToken === 'string' ? { access_token: authToken } : authToken
+    );
+
     await this.memoryAssistant.saveExternalIntegration(integration);
 
     // Start initial sync if auto_sync is enabled
     if (integration.settings.auto_sync) {
-      await this.syncExternalAssets(integration.id);
+      await this.syncExternalAssets(userId, integration.id);
     }
 
     return integration;
@@ -254,9 +390,12 @@ export class ChroniclerService {
 
   /**
    * Sync assets from external services
+   * Only changes since the previous sync are fetched. A rate-limited provider
+   * leaves the integration 'rate_limited' until its retry time; rejected
+   * credentials leave it 'disconnected' until the account is connected again.
    */
-  async syncExternalAssets(integrationId: string): Promise<void> {
-    const integration = await this.memoryAssistant.getExternalIntegration(integrationId);
+  async syncExternalAssets(userId: string, integrationId: string): Promise<void> {
+    const integration = await this.memoryAssistant.getExternalIntegration(integrationId, this.userScope(userId));
     if (!integration) {
       throw new Error(`Integration ${integrationId} not found`);
     }
@@ -272,9 +411,16 @@ export class ChroniclerService {
       integration.sync_stats = syncResults;
       
     } catch (error) {
-      integration.status = 'error';
+      if (error instanceof ProviderRateLimitError) {
+        integration.status = 'rate_limited';
+      } else if (error instanceof ProviderAuthError) {
+        integration.status = 'disconnected';
+      } else {
+        integration.status = 'error';
+      }
     }
 
+    integration.updated_at = new Date();
     await this.memoryAssistant.saveExternalIntegration(integration);
   }
 
@@ -305,10 +451,11 @@ export class ChroniclerService {
    * Advance workflow to next step
    */
   async advanceWorkflow(
+    userId: string,
     workflowId: string,
     stepData: any
   ): Promise<ChroniclerWorkflow> {
-    const workflow = await this.memoryAssistant.getWorkflow(workflowId);
+    const workflow = await this.memoryAssistant.getWorkflow(workflowId, this.userScope(userId));
     if (!workflow) {
       throw new Error(`Workflow ${workflowId} not found`);
     }
@@ -336,13 +483,9 @@ export class ChroniclerService {
    */
   async getUserReflections(
     userId: string,
-    filters?: {
-      tags?: string[];
-      dateRange?: { start: Date; end: Date };
-      privacyLevel?: string;
-    },
+    filters?: ReflectionFilters,
     pagination?: { offset: number; limit: number }
-  ): Promise<{ reflections: ReflectionEntry[]; total: number }> {
+  ): Promise<ReflectionPage> {
     return await this.memoryAssistant.getUserReflections(userId, filters, pagination);
   }
 
@@ -357,8 +500,250 @@ export class ChroniclerService {
     return await this.memoryAssistant.searchReflections(userId, query, emotionalFilters);
   }
 
+  /**
+   * Ranked keyword and semantic search with facets and highlighted snippets
+   */
+  async search(userId: string, request: ReflectionSearchRequest): Promise<ReflectionSearchResults> {
+    const filters = request.filters || {};
+    const { reflections } = await this.memoryAssistant.getUserReflections(userId, {
+      tags: filters.tags,
+      tagMatch: filters.tagMatch,
+      dateRange: filters.dateRange,
+      privacyLevel: filters.privacyLevel
+    });
+
+    return this.searchEngine.search(reflections, request);
+  }
+
+  /**
+   * Import entries from another journaling app
+   * Entries keep their original timestamps and locations. Re-importing skips
+   * unchanged entries and merges changed ones into the reflection created the
+   * first time; entries with the same title and text as an existing
+   * reflection written on the same day, in the import timezone, are skipped as
+   * duplicates (apps disagree on whether a diary day has a time, so the time
+   * of day is not compared). Imported entries are history rather than new
+   * writing, so no reflection.created events are published for them.
+   */
+  async importJournal(
+    userId: string,
+    format: JournalImportFormat,
+    files: JournalImportFile[],
+    options: JournalImportOptions = {}
+  ): Promise<JournalImportReport> {
+    const { entries, skipped } = parseJournalExport(format, files, options);
+    const report: JournalImportReport = { format, imported: [], merged: [], skipped };
+
+    const { reflections } = await this.memoryAssistant.getUserReflections(userId);
+    const imported = new Map<string, ReflectionEntry>();
+    const written = new Set<string>();
+    const dayKey = (fingerprint: string, createdAt: Date) =>
+      `${fingerprint}@${journalEntryDay(createdAt, options.time_zone)}`;
+    reflections.forEach(reflection => {
+      const source = reflection.import_source;
+      if (source && source.format === format) {
+        imported.set(source.external_id, reflection);
+      }
+      const fingerprint = source ? source.fingerprint : fingerprintJournalEntry(reflection.title, reflection.content.text);
+      written.add(dayKey(fingerprint, reflection.created_at));
+    });
+
+    for (const entry of entries) {
+      const item = { external_id: entry.external_id, title: entry.title };
+      if (!entry.text.trim() && entry.blocks.length === 0) {
+        report.skipped.push({ ...item, reason: 'empty' });
+        continue;
+      }
+
+      const fingerprint = fingerprintJournalEntry(entry.title || this.extractTitle(toImportedContent(entry)), entry.text);
+      const previous = imported.get(entry.external_id);
+      if (previous && previous.import_source!.fingerprint === fingerprint) {
+        report.skipped.push({ ...item, reflection_id: previous.id, reason: 'unchanged' });
+        continue;
+      }
+      if (written.has(dayKey(fingerprint, entry.created_at))) {
+        report.skipped.push({ ...item, reason: 'duplicate' });
+        continue;
+      }
+
+      const reflection = await this.saveImportedEntry(userId, format, entry, fingerprint, previous);
+      imported.set(entry.external_id, reflection);
+      written.add(dayKey(fingerprint, entry.created_at));
+      (previous ? report.merged : report.imported).push({ ...item, title: reflection.title, reflection_id: reflection.id });
+    }
+
+    return report;
+  }
+
   // Private helper methods
 
+  /**
+   * Save an imported entry as a new reflection, or over the one a previous import created
+   */
+  private async saveImportedEntry(
+    userId: string,
+    format: JournalImportFormat,
+    entry: ParsedJournalEntry,
+    fingerprint: string,
+    previous?: ReflectionEntry
+  ): Promise<ReflectionEntry> {
+    const content = toImportedContent(entry);
+
+    await this.resourceGovernor.validateAction({
+      type: 'import_reflection',
+      userId,
+      resourceCost: {
+        storage: this.calculateStorageCost(content, []),
+        compute: 1
+      }
+    });
+
+    const tags = entry.tags.concat(await this.extractTags(content))
+      .filter((tag, i, all) => !!tag && all.indexOf(tag) === i);
+    const importSource = { format, external_id: entry.external_id, fingerprint, imported_at: new Date() };
+
+    const reflection: ReflectionEntry = previous
+      ? {
+        ...previous,
+        title: entry.title || this.extractTitle(content),
+        content,
+        tags,
+        location: entry.location || previous.location,
+        updated_at: entry.updated_at || new Date(),
+        import_source: importSource
+      }
+      : {
+        id: this.generateId(),
+        user_id: userId,
+        title: entry.title || this.extractTitle(content),
+        content,
+        // The writer's state at the time is unknown
+        emotional_context: { fight: 0, flight: 0, fixes: 0, timestamp: entry.created_at, confidence: 0 },
+        privacy_level: 'private',
+        assets: [],
+        tags,
+        location: entry.location,
+        shareable: false,
+        created_at: entry.created_at,
+        updated_at: entry.updated_at || entry.created_at,
+        status: 'saved',
+        import_source: importSource
+      };
+
+    // A re-import replaces the entry like any other update, keeping the old text as a revision
+    if (previous) {
+      return this.withRevisions(previous.id, () =>
+        this.reviseReflection(previous, reflection, { reason: 'update', author_id: userId })
+      );
+    }
+
+    await this.memoryAssistant.saveReflection(reflection);
+    return reflection;
+  }
+
+  /**
+   * Save a changed reflection together with its revision
+   * A reflection without history first gets an 'original' revision of its
+   * stored state, so nothing written before revisions existed is lost. Runs
+   * inside withRevisions, so revision numbers never repeat.
+   */
+  private async reviseReflection(
+    existing: ReflectionEntry,
+    updated: ReflectionEntry,
+    change: {
+      reason: ReflectionRevisionReason;
+      author_id: string;
+      emotional_context?: UserState;
+      restored_from?: string;
+    }
+  ): Promise<ReflectionEntry> {
+    const history = await this.memoryAssistant.listReflectionRevisions(existing.id, this.userScope(change.author_id));
+    let revisionNumber = history.length > 0 ? history[history.length - 1].revision_number : 0;
+
+    if (revisionNumber === 0) {
+      await this.memoryAssistant.saveReflectionRevision({
+        id: this.generateId(),
+        reflection_id: existing.id,
+        user_id: existing.user_id,
+        revision_number: ++revisionNumber,
+        author_id: existing.user_id,
+        reason: 'original',
+        emotional_context: existing.emotional_context,
+        snapshot: this.snapshotOf(existing),
+        created_at: existing.updated_at
+      });
+    }
+
+    await this.memoryAssistant.saveReflection(updated);
+
+    await this.memoryAssistant.saveReflectionRevision({
+      id: this.generateId(),
+      reflection_id: updated.id,
+      user_id: updated.user_id,
+      revision_number: revisionNumber + 1,
+      author_id: change.author_id,
+      reason: change.reason,
+      ...(change.restored_from ? { restored_from: change.restored_from } : {}),
+      emotional_context: change.emotional_context || existing.emotional_context,
+      snapshot: this.snapshotOf(updated),
+      created_at: updated.updated_at
+    });
+
+    // Store new emotional context if provided
+    if (change.emotional_context) {
+      await this.memoryAssistant.storeEmotionalContext(
+        updated.id,
+        change.emotional_context,
+        'reflection_update'
+      );
+    }
+
+    return updated;
+  }
+
+  /**
+   * Run a read-modify-write of a reflection after the ones already queued for
+   * it, so concurrent changes never number their revisions alike
+   */
+  private withRevisions<T>(reflectionId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.revisionQueues.get(reflectionId) || Promise.resolve();
+    const run = previous.then(task, task);
+    const settled = run.then(() => undefined, () => undefined);
+    this.revisionQueues.set(reflectionId, settled);
+    settled.then(() => {
+      if (this.revisionQueues.get(reflectionId) === settled) {
+        this.revisionQueues.delete(reflectionId);
+      }
+    });
+    return run;
+  }
+
+  /**
+   * Reflection fields kept by a revision
+   */
+  private snapshotOf(reflection: ReflectionEntry): ReflectionSnapshot {
+    return {
+      title: reflection.title,
+      content: reflection.content,
+      tags: reflection.tags,
+      assets: reflection.assets,
+      ...(reflection.location ? { location: reflection.location } : {})
+    };
+  }
+
+  /**
+   * Scope that only finds the given user's records
+   */
+  private userScope(userId: string): MemoryScope {
+    return {
+      id: `user:${userId}`,
+      user_ids: [userId],
+      project_ids: [],
+      contact_ids: [],
+      permissions: { read: true, write: false, delete: false }
+    };
+  }
+
   private generateId(): string {
     return `chr_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
@@ -420,23 +805,17 @@ export class ChroniclerService {
   }
 
   private async getRecipientContext(recipientId: string): Promise<any> {
-    // Get recipient's profile and relationship context
-    const recipient = await this.memoryAssistant.getUser(recipientId);
-    const relationship = await this.memoryAssistant.getRelationship(recipientId);
+    // Recipients are either users or contacts of the writer
+    const recipient = await this.users.getUserById(recipientId);
+    const contact = await this.users.getContactById(recipientId);
     
     return {
-      profile: recipient,
-      relationship,
+      profile: recipient ? recipient.profile : null,
+      relationship: contact ? { type: contact.relationship_type } : null,
       preferences: recipient?.profile.preferences
     };
   }
 
-  private async encryptToken(token: string): Promise<string> {
-    // Use encryption service to encrypt the token
-    // This is a placeholder - actual implementation would use proper encryption
-    return Buffer.from(token).toString('base64');
-  }
-
   private getProviderScopes(provider: ExternalProvider): string[] {
     const scopeMap = {
       google_photos: ['https://www.googleapis.com/auth/photoslibrary.readonly'],
@@ -450,22 +829,8 @@ export class ChroniclerService {
     return scopeMap[provider] || [];
   }
 
-  private async performExternalSync(integration: ExternalAssetIntegration): Promise<any> {
-    // Placeholder for actual external sync implementation
-    // This would integrate with specific provider APIs
-    const startTime = Date.now();
-    
-    // Simulate sync process
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    return {
-      total_synced: 10,
-      last_sync_added: 5,
-      last_sync_updated: 3,
-      last_sync_failed: 2,
-      total_sync_time_ms: Date.now() - startTime,
-      avg_sync_time_per_asset_ms: (Date.now() - startTime) / 10
-    };
+  private performExternalSync(integration: ExternalAssetIntegration): Promise<SyncStatistics> {
+    return this.assetSync.sync(integration, updated => this.memoryAssistant.saveExternalIntegration(updated));
   }
 
   private getNextWorkflowStep(currentStep: WorkflowStep): WorkflowStep {
@@ -0,0 +1,49 @@
+/**
+ * Collaboration on the server (server-side only)
+ * The server's CollaborationService and the hub the collaboration WebSocket
+ * serves, which lets users into a document by their project access or the
+ * guest access of an invitation link.
+ */
+
+import { CollaborationService } from './collaboration-service';
+import { CollaborationHub } from '../lib/collaboration/collaboration-hub';
+import { ProjectDocumentAccess } from '../lib/collaboration/document-access';
+import { projectRepository } from '../lib/data/project-repository';
+import { MemoryFactory } from '../lib/memory/memory-factory';
+import { agentFactory } from '../lib/agent-factory';
+import { resourceGovernor } from '../lib/resource-governor';
+
+let service: Promise<CollaborationService> | null = null;
+
+/**
+ * The server's CollaborationService
+ * Needs the memory system, so call it once the server has been bootstrapped.
+ */
+export function getServerCollaborationService(): Promise<CollaborationService> {
+  if (!service) {
+    service = createCollaborationService();
+    service.catch(() => {
+      service = null;
+    });
+  }
+  return service;
+}
+
+async function createCollaborationService(): Promise<CollaborationService> {
+  const cognitiveAgent = await agentFactory.createAgent({
+    llm_model: 'gpt-4',
+    toolkit: ['contact_analysis', 'skill_analysis'],
+    memory_scope: 'collaboration',
+    entry_phase: 'EMERGE'
+  }, 'Conscious');
+
+  return new CollaborationService(MemoryFactory.getInstance().getMemoryAssistant(), cognitiveAgent, resourceGovernor);
+}
+
+/**
+ * Hub served over the collaboration WebSocket
+ */
+export const serverCollaborationHub = new CollaborationHub(new ProjectDocumentAccess(projectRepository, {
+  verifyGuestAccess: async (guestUserId, resourceId, accessType, context) =>
+    (await getServerCollaborationService()).verifyGuestAccess(guestUserId, resourceId, accessType, context)
+}));
@@ -15,12 +15,93 @@ import {
   BlockLock,
   SuggestionReason,
   ConsentScope,
-  AccessibleResource
+  AccessibleResource,
+  ActivityType,
+  LockTakeoverResult,
+  LockSweepResult,
+  AccessRestriction,
+  GuestAccessOptions,
+  GuestInvitationLink,
+  GuestInvitationLinkOptions,
+  GuestClientContext,
+  GuestAccessContext,
+  GuestAccessDecision,
+  GuestAccessViolation,
+  GuestAccessAuditEntry
 } from '../types/collaboration';
-import { UserState, User } from '../types';
+import { UserState, User, MemoryScope } from '../types';
+import { PrivacyLevel } from '../types/chronicler';
 import { MemoryAssistant } from '../lib/memory';
 import { CognitiveAgent } from '../lib/cognitive-agent';
 import { ResourceGovernor } from '../lib/resource-governor';
+import { DomainEventBus, domainEventBus } from '../lib/events/domain-event-bus';
+import { GuestLinkSigner } from '../lib/collaboration/guest-link-signer';
+import { ProjectRepository, projectRepository } from '../lib/data/project-repository';
+
+/** Seconds a lock holder gets before a takeover is forced, when the session sets none */
+const DEFAULT_TAKEOVER_GRACE_SECONDS = 30;
+
+/** How often the lock sweeper runs */
+const DEFAULT_LOCK_SWEEP_INTERVAL_MS = 30 * 1000;
+
+/** Rank of each permission level when users compete for a block lock */
+const LOCK_PRIORITY: Record<PermissionLevel, number> = {
+  viewer: 0,
+  commenter: 1,
+  editor: 2,
+  admin: 3
+};
+
+/** Hours guest access lasts when the host sets nothing else */
+const DEFAULT_GUEST_ACCESS_HOURS = 24;
+
+/** Hours a guest invitation link can be redeemed by default */
+const DEFAULT_GUEST_LINK_TTL_HOURS = 72;
+
+/** Privacy of a shared project by who may view it */
+const PROJECT_PRIVACY: Record<'owner' | 'collaborators' | 'public', PrivacyLevel> = {
+  owner: 'private',
+  collaborators: 'protected',
+  public: 'shareable'
+};
+
+/**
+ * Error raised when a guest invitation link cannot be redeemed
+ */
+export class GuestLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GuestLinkError';
+  }
+}
+
+/**
+ * Error raised when a guest may not open a resource
+ */
+export class GuestAccessDeniedError extends Error {
+  constructor(message: string, public readonly violations: GuestAccessViolation[] = []) {
+    super(message);
+    this.name = 'GuestAccessDeniedError';
+  }
+}
+
+/**
+ * Error raised when a block lock cannot be taken, renewed or handed over
+ */
+export class BlockLockError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BlockLockError';
+  }
+}
+
+/**
+ * Lock changes made on a session that still have to be announced
+ */
+interface LockChanges {
+  expired: BlockLock[];
+  taken_over: Array<{ lock: BlockLock; previous_holder_id: string; forced: boolean }>;
+}
 
 /**
  * Collaboration Service
@@ -30,15 +111,27 @@ export class CollaborationService {
   private memoryAssistant: MemoryAssistant;
   private cognitiveAgent: CognitiveAgent;
   private resourceGovernor: ResourceGovernor;
+  private events: DomainEventBus;
+  private linkSigner: GuestLinkSigner;
+  private projects: ProjectRepository;
+  private lockSweepTimer: ReturnType<typeof setInterval> | null = null;
+  private currentSweep: Promise<LockSweepResult> | null = null;
+  private exclusiveQueues: Map<string, Promise<unknown>> = new Map();
 
   constructor(
     memoryAssistant: MemoryAssistant,
     cognitiveAgent: CognitiveAgent,
-    resourceGovernor: ResourceGovernor
+    resourceGovernor: ResourceGovernor,
+    events: DomainEventBus = domainEventBus,
+    linkSigner: GuestLinkSigner = new GuestLinkSigner(),
+    projects: ProjectRepository = projectRepository
   ) {
     this.memoryAssistant = memoryAssistant;
     this.cognitiveAgent = cognitiveAgent;
     this.resourceGovernor = resourceGovernor;
+    this.events = events;
+    this.linkSigner = linkSigner;
+    this.projects = projects;
   }
 
   /**
@@ -267,6 +360,7 @@ export class CollaborationService {
       id: this.generateId(),
       resource_id: resourceId,
       resource_type: resourceType,
+      host_user_id: hostUserId,
       participants: [],
       block_locks: [],
       status: 'active',
@@ -300,42 +394,57 @@ export class CollaborationService {
    * Acquire block lock for editing
    * Implements soft block-level locking
    */
-  async acquireBlockLock(
+  acquireBlockLock(
     sessionId: string,
     userId: string,
     blockId: string,
     lockType: 'editing' | 'viewing' | 'reserved' = 'editing'
+  ): Promise<BlockLock> {
+    return this.withSessionLocks(sessionId, () => this.lockBlock(sessionId, userId, blockId, lockType));
+  }
+
+  private async lockBlock(
+    sessionId: string,
+    userId: string,
+    blockId: string,
+    lockType: 'editing' | 'viewing' | 'reserved'
   ): Promise<BlockLock> {
     const session = await this.memoryAssistant.getCollaborativeSession(sessionId);
     if (!session) {
       throw new Error(`Session ${sessionId} not found`);
     }
 
+    const now = new Date();
+    const changes = this.settleLocks(session, now, blockId);
+
     // Check if block is already locked
-    const existingLock = session.block_locks.find(lock => 
-      lock.block_id === blockId && lock.expires_at > new Date()
-    );
+    const existingLock = session.block_locks.find(lock => lock.block_id === blockId);
 
     if (existingLock && existingLock.user_id !== userId) {
-      throw new Error(`Block ${blockId} is already locked by another user`);
+      await this.saveLockChanges(session, changes);
+      throw new BlockLockError(`Block ${blockId} is already locked by another user`);
     }
 
     const lock: BlockLock = {
       block_id: blockId,
       user_id: userId,
       type: lockType,
-      acquired_at: new Date(),
-      expires_at: new Date(Date.now() + session.metadata.settings.lock_timeout * 1000)
+      acquired_at: now,
+      expires_at: new Date(now.getTime() + session.metadata.settings.lock_timeout * 1000)
     };
 
+    // Locking again does not shake off a pending takeover
+    if (existingLock && existingLock.takeover) {
+      lock.takeover = existingLock.takeover;
+    }
+
     // Add lock to session
-    session.block_locks = session.block_locks.filter(l => 
-      !(l.block_id === blockId && l.user_id === userId)
-    );
+    session.block_locks = session.block_locks.filter(l => l.block_id !== blockId);
     session.block_locks.push(lock);
-    session.last_activity_at = new Date();
+    session.last_activity_at = now;
 
     await this.memoryAssistant.saveCollaborativeSession(session);
+    await this.publishLockChanges(sessionId, changes);
 
     // Log activity
     await this.logSessionActivity(sessionId, userId, 'locked', `Acquired ${lockType} lock on block ${blockId}`);
@@ -346,26 +455,229 @@ export class CollaborationService {
   /**
    * Release block lock
    */
-  async releaseBlockLock(
+  releaseBlockLock(
     sessionId: string,
     userId: string,
     blockId: string
   ): Promise<void> {
+    return this.withSessionLocks(sessionId, () => this.unlockBlock(sessionId, userId, blockId));
+  }
+
+  private async unlockBlock(sessionId: string, userId: string, blockId: string): Promise<void> {
     const session = await this.memoryAssistant.getCollaborativeSession(sessionId);
     if (!session) {
       throw new Error(`Session ${sessionId} not found`);
     }
 
-    // Remove lock
-    session.block_locks = session.block_locks.filter(lock => 
-      !(lock.block_id === blockId && lock.user_id === userId)
+    const now = new Date();
+    const released = session.block_locks.find(lock => 
+      lock.block_id === blockId && lock.user_id === userId
     );
-    session.last_activity_at = new Date();
+    const changes: LockChanges = { expired: [], taken_over: [] };
+
+    this.appendActivity(session, userId, 'unlocked', `Released lock on block ${blockId}`, now);
+
+    if (released && released.takeover) {
+      // A user waiting to take the block over gets it straight away
+      const lock = this.handOverLock(session, released, released.takeover.requested_by, now);
+      changes.taken_over.push({ lock, previous_holder_id: userId, forced: false });
+    } else {
+      // Remove lock
+      session.block_locks = session.block_locks.filter(lock => lock !== released);
+    }
+    session.last_activity_at = now;
 
     await this.memoryAssistant.saveCollaborativeSession(session);
+    await this.publishLockChanges(sessionId, changes);
+  }
 
-    // Log activity
-    await this.logSessionActivity(sessionId, userId, 'unlocked', `Released lock on block ${blockId}`);
+  /**
+   * Extend the lease on a held block lock
+   * Editors call this while the user types; the session is only written once
+   * half of the lease has run out, so frequent calls stay cheap.
+   */
+  renewBlockLock(
+    sessionId: string,
+    userId: string,
+    blockId: string,
+    now: Date = new Date()
+  ): Promise<BlockLock> {
+    return this.withSessionLocks(sessionId, () => this.renewLock(sessionId, userId, blockId, now));
+  }
+
+  private async renewLock(sessionId: string, userId: string, blockId: string, now: Date): Promise<BlockLock> {
+    const session = await this.memoryAssistant.getCollaborativeSession(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    const changes = this.settleLocks(session, now, blockId);
+    const lock = session.block_locks.find(l => l.block_id === blockId && l.user_id === userId);
+    if (!lock) {
+      await this.saveLockChanges(session, changes);
+      throw new BlockLockError(`Block ${blockId} is not locked by user ${userId}`);
+    }
+
+    const leaseMs = session.metadata.settings.lock_timeout * 1000;
+    if (lock.expires_at.getTime() - now.getTime() > leaseMs / 2) {
+      await this.saveLockChanges(session, changes);
+      return lock;
+    }
+
+    lock.expires_at = new Date(now.getTime() + leaseMs);
+    lock.renewed_at = now;
+    session.last_activity_at = now;
+
+    await this.memoryAssistant.saveCollaborativeSession(session);
+    await this.publishLockChanges(sessionId, changes);
+    return lock;
+  }
+
+  /**
+   * Ask for a block lock another user holds
+   * Only participants who may edit can ask. A user who outranks the holder
+   * (host or admin over editors and guests) gets the lock at once. Otherwise
+   * the holder is notified and the lock is handed over when they release it,
+   * when it expires or when the grace period runs out, whichever comes first.
+   */
+  requestLockTakeover(
+    sessionId: string,
+    requesterId: string,
+    blockId: string,
+    now: Date = new Date()
+  ): Promise<LockTakeoverResult> {
+    return this.withSessionLocks(sessionId, () => this.takeOverLock(sessionId, requesterId, blockId, now));
+  }
+
+  private async takeOverLock(
+    sessionId: string,
+    requesterId: string,
+    blockId: string,
+    now: Date
+  ): Promise<LockTakeoverResult> {
+    const session = await this.memoryAssistant.getCollaborativeSession(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    if (this.getLockPriority(session, requesterId) < LOCK_PRIORITY.editor) {
+      throw new BlockLockError(`User ${requesterId} may not edit block ${blockId}`);
+    }
+
+    const changes = this.settleLocks(session, now, blockId);
+    const lock = session.block_locks.find(l => l.block_id === blockId);
+
+    if (!lock) {
+      await this.saveLockChanges(session, changes);
+      return { status: 'granted', lock: await this.lockBlock(sessionId, requesterId, blockId, 'editing') };
+    }
+
+    if (lock.user_id === requesterId) {
+      await this.saveLockChanges(session, changes);
+      return { status: 'granted', lock };
+    }
+
+    if (this.getLockPriority(session, requesterId) > this.getLockPriority(session, lock.user_id)) {
+      const granted = this.handOverLock(session, lock, requesterId, now);
+      changes.taken_over.push({ lock: granted, previous_holder_id: lock.user_id, forced: true });
+      session.last_activity_at = now;
+
+      await this.memoryAssistant.saveCollaborativeSession(session);
+      await this.publishLockChanges(sessionId, changes);
+      return { status: 'granted', lock: granted };
+    }
+
+    if (lock.takeover) {
+      await this.saveLockChanges(session, changes);
+      if (lock.takeover.requested_by !== requesterId) {
+        throw new BlockLockError(`Block ${blockId} already has a pending takeover request`);
+      }
+      return { status: 'pending', lock };
+    }
+
+    const graceSeconds = session.metadata.settings.takeover_grace_period ?? DEFAULT_TAKEOVER_GRACE_SECONDS;
+    lock.takeover = {
+      requested_by: requesterId,
+      requested_at: now,
+      grant_at: new Date(now.getTime() + graceSeconds * 1000)
+    };
+    this.appendActivity(session, requesterId, 'takeover_requested', `Asked to take over the lock on block ${blockId}`, now, {
+      block_id: blockId,
+      holder_id: lock.user_id,
+      grant_at: lock.takeover.grant_at
+    });
+    session.last_activity_at = now;
+
+    await this.memoryAssistant.saveCollaborativeSession(session);
+    await this.publishLockChanges(sessionId, changes);
+    await this.events.publish('collaboration.lock_takeover_requested', { session_id: sessionId, lock }, now);
+
+    return { status: 'pending', lock };
+  }
+
+  /**
+   * Remove expired locks and hand over locks whose takeover grace period ended
+   * in every active session
+   * Each session is read again in turn with its other lock changes, so the
+   * sweep never writes back a stale copy over them.
+   */
+  async sweepExpiredLocks(now: Date = new Date()): Promise<LockSweepResult> {
+    const sessions = await this.memoryAssistant.listActiveCollaborativeSessions();
+    const result: LockSweepResult = { sessions_checked: sessions.length, expired: [], taken_over: [] };
+
+    for (const { id } of sessions) {
+      const changes = await this.withSessionLocks(id, async () => {
+        const session = await this.memoryAssistant.getCollaborativeSession(id);
+        if (!session) {
+          return { expired: [], taken_over: [] };
+        }
+
+        const settled = this.settleLocks(session, now);
+        await this.saveLockChanges(session, settled);
+        return settled;
+      });
+
+      changes.expired.forEach(lock => result.expired.push({ session_id: id, lock }));
+      changes.taken_over.forEach(change => result.taken_over.push({ session_id: id, lock: change.lock }));
+    }
+
+    return result;
+  }
+
+  /**
+   * Start sweeping expired locks periodically
+   */
+  startLockSweeper(intervalMs: number = DEFAULT_LOCK_SWEEP_INTERVAL_MS): void {
+    if (this.lockSweepTimer) return;
+
+    this.lockSweepTimer = setInterval(() => {
+      // A slow sweep is not overlapped by the next one
+      if (this.currentSweep) return;
+      this.currentSweep = this.sweepExpiredLocks();
+      this.currentSweep
+        .catch(error => {
+          console.error('Lock sweep failed:', error);
+        })
+        .then(() => {
+          this.currentSweep = null;
+        });
+    }, intervalMs);
+  }
+
+  /**
+   * Stop sweeping expired locks
+   */
+  stopLockSweeper(): void {
+    if (this.lockSweepTimer) {
+      clearInterval(this.lockSweepTimer);
+      this.lockSweepTimer = null;
+    }
+  }
+
+  /**
+   * Whether the lock sweeper is running
+   */
+  isLockSweeperRunning(): boolean {
+    return this.lockSweepTimer !== null;
   }
 
   /**
@@ -376,30 +688,22 @@ export class CollaborationService {
     guestUserId: string,
     hostUserId: string,
     sessionId: string,
-    accessibleResources: AccessibleResource[]
+    accessibleResources: AccessibleResource[],
+    options: GuestAccessOptions = {}
   ): Promise<GuestAccessControl> {
+    const durationHours = options.duration_hours ?? DEFAULT_GUEST_ACCESS_HOURS;
+    const grantedAt = new Date();
     const accessControl: GuestAccessControl = {
       id: this.generateId(),
       guest_user_id: guestUserId,
       host_user_id: hostUserId,
       accessible_resources: accessibleResources,
-      restrictions: [
-        {
-          type: 'time_window',
-          description: 'Access limited to session duration',
-          parameters: { max_duration_hours: 24 },
-          enforcement: 'strict'
-        },
-        {
-          type: 'content_filter',
-          description: 'Cannot access private content',
-          parameters: { exclude_private: true },
-          enforcement: 'strict'
-        }
-      ],
+      restrictions: options.restrictions || this.defaultGuestRestrictions(durationHours),
       session_id: sessionId,
-      granted_at: new Date(),
-      expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000) // 24 hours
+      granted_at: grantedAt,
+      expires_at: new Date(grantedAt.getTime() + durationHours * 60 * 60 * 1000),
+      access_count: 0,
+      invitation_link_id: options.invitation_link_id
     };
 
     await this.memoryAssistant.saveGuestAccessControl(accessControl);
@@ -408,24 +712,229 @@ export class CollaborationService {
 
   /**
    * Verify guest access to resource
+   * Checks every restriction of the guest's access without recording anything;
+   * use openGuestResource when the guest actually opens the resource.
    */
   async verifyGuestAccess(
     guestUserId: string,
     resourceId: string,
-    accessType: 'read' | 'write'
+    accessType: 'read' | 'write',
+    context: GuestAccessContext = {}
   ): Promise<boolean> {
     const accessControl = await this.memoryAssistant.getGuestAccessControl(guestUserId);
-    if (!accessControl || accessControl.expires_at < new Date()) {
+    if (!accessControl) {
       return false;
     }
 
-    const resource = accessControl.accessible_resources.find(r => r.resource_id === resourceId);
-    if (!resource) {
-      return false;
+    return (await this.evaluateGuestAccess(accessControl, resourceId, accessType, context, new Date())).allowed;
+  }
+
+  /**
+   * Open a resource as a guest
+   * Every attempt, allowed or not, is added to the audit trail the host sees.
+   * Restrictions enforced as warnings or log-only are recorded but let the
+   * guest through.
+   */
+  async openGuestResource(
+    guestUserId: string,
+    resourceId: string,
+    accessType: 'read' | 'write',
+    context: GuestAccessContext = {},
+    now: Date = new Date()
+  ): Promise<GuestAccessAuditEntry> {
+    const accessControl = await this.memoryAssistant.getGuestAccessControl(guestUserId);
+    if (!accessControl) {
+      throw new GuestAccessDeniedError(`Guest ${guestUserId} has no access`);
     }
 
-    return resource.access_level === accessType || 
-           (accessType === 'read' && resource.access_level === 'write');
+    const decision = await this.evaluateGuestAccess(accessControl, resourceId, accessType, context, now);
+    const entry: GuestAccessAuditEntry = {
+      id: this.generateId(),
+      access_control_id: accessControl.id,
+      guest_user_id: guestUserId,
+      host_user_id: accessControl.host_user_id,
+      resource_id: resourceId,
+      access_type: accessType,
+      outcome: decision.allowed ? 'allowed' : 'denied',
+      reason: decision.reason,
+      violations: decision.violations,
+      ip_address: context.ip_address,
+      device_id: context.device_id,
+      occurred_at: now
+    };
+    await this.memoryAssistant.saveGuestAccessAudit(entry);
+
+    if (!decision.allowed) {
+      throw new GuestAccessDeniedError(decision.reason || 'Access denied', decision.violations);
+    }
+
+    accessControl.access_count = (accessControl.access_count || 0) + 1;
+    accessControl.last_access_at = now;
+    await this.memoryAssistant.saveGuestAccessControl(accessControl);
+
+    return entry;
+  }
+
+  /**
+   * What a guest has opened or tried to open, oldest first
+   */
+  async getGuestAccessAudit(hostUserId: string, accessControlId: string): Promise<GuestAccessAuditEntry[]> {
+    const entries = await this.memoryAssistant.listGuestAccessAudit(accessControlId);
+    return entries.filter(entry => entry.host_user_id === hostUserId);
+  }
+
+  /**
+   * Create a shareable invitation link for guests without an account
+   * Each redemption creates a separate guest with its own access, until the
+   * link expires, runs out of uses or is revoked.
+   */
+  async createGuestInvitationLink(
+    hostUserId: string,
+    sessionId: string,
+    accessibleResources: AccessibleResource[],
+    options: GuestInvitationLinkOptions = {}
+  ): Promise<{ link: GuestInvitationLink; token: string }> {
+    await this.resourceGovernor.validateAction({
+      type: 'create_invitation',
+      userId: hostUserId,
+      resourceCost: { compute: 1 }
+    });
+
+    const session = await this.memoryAssistant.getCollaborativeSession(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    if (this.getLockPriority(session, hostUserId) < LOCK_PRIORITY.admin) {
+      throw new Error('Insufficient permissions to invite guests to this session');
+    }
+
+    const maxUses = options.max_uses ?? 1;
+    if (Math.floor(maxUses) !== maxUses || maxUses < 1) {
+      throw new Error('An invitation link must allow at least one use');
+    }
+
+    const accessHours = options.access_duration_hours ?? DEFAULT_GUEST_ACCESS_HOURS;
+    const createdAt = new Date();
+    const link: GuestInvitationLink = {
+      id: this.generateId(),
+      host_user_id: hostUserId,
+      session_id: sessionId,
+      label: options.label,
+      accessible_resources: accessibleResources,
+      restrictions: options.restrictions || [
+        ...this.defaultGuestRestrictions(accessHours),
+        {
+          type: 'device_binding',
+          description: 'Access limited to the device the link was opened on',
+          parameters: { bind_on_redeem: true },
+          enforcement: 'strict'
+        }
+      ],
+      access_duration_hours: accessHours,
+      max_uses: maxUses,
+      use_count: 0,
+      redemptions: [],
+      created_at: createdAt,
+      expires_at: new Date(createdAt.getTime() + (options.link_ttl_hours ?? DEFAULT_GUEST_LINK_TTL_HOURS) * 60 * 60 * 1000)
+    };
+
+    await this.memoryAssistant.saveGuestInvitationLink(link);
+    return { link, token: await this.linkSigner.sign(link.id, link.expires_at) };
+  }
+
+  /**
+   * Redeem a guest invitation link
+   * The guest gets a fresh identity; restrictions that bind to the first use
+   * are pinned to the address and device the link was opened from.
+   * Redemptions of a link run one at a time, so it is never used more often
+   * than it allows.
+   */
+  async redeemGuestInvitationLink(
+    token: string,
+    client: GuestClientContext = {},
+    now: Date = new Date()
+  ): Promise<GuestAccessControl> {
+    const claims = await this.linkSigner.verify(token);
+    if (!claims) {
+      throw new GuestLinkError('Invitation link is not valid');
+    }
+    if (claims.expires_at <= now) {
+      throw new GuestLinkError('Invitation link has expired');
+    }
+
+    return this.exclusively(`link:${claims.link_id}`, () => this.redeemLink(claims.link_id, client, now));
+  }
+
+  private async redeemLink(linkId: string, client: GuestClientContext, now: Date): Promise<GuestAccessControl> {
+    const link = await this.memoryAssistant.getGuestInvitationLink(linkId);
+    if (!link) {
+      throw new GuestLinkError('Invitation link is not valid');
+    }
+    if (link.revoked_at) {
+      throw new GuestLinkError('Invitation link has been revoked');
+    }
+    if (link.use_count >= link.max_uses) {
+      throw new GuestLinkError('Invitation link has already been used');
+    }
+
+    // Refuse before using up the link when the client cannot be bound
+    for (const restriction of link.restrictions) {
+      if (restriction.parameters.bind_on_redeem && restriction.enforcement === 'strict') {
+        if (restriction.type === 'ip_address' && !client.ip_address) {
+          throw new GuestLinkError('Invitation link must be opened from a known address');
+        }
+        if (restriction.type === 'device_binding' && !client.device_id) {
+          throw new GuestLinkError('Invitation link must be opened on a device that identifies itself');
+        }
+      }
+    }
+
+    const restrictions = link.restrictions.map(restriction => this.bindRestriction(restriction, client));
+    const accessControl = await this.setupGuestAccess(
+      this.generateGuestId(),
+      link.host_user_id,
+      link.session_id,
+      link.accessible_resources,
+      { duration_hours: link.access_duration_hours, restrictions, invitation_link_id: link.id }
+    );
+
+    link.use_count++;
+    link.redemptions.push({
+      guest_user_id: accessControl.guest_user_id,
+      access_control_id: accessControl.id,
+      redeemed_at: now,
+      ip_address: client.ip_address,
+      device_id: client.device_id
+    });
+    await this.memoryAssistant.saveGuestInvitationLink(link);
+
+    return accessControl;
+  }
+
+  /**
+   * Withdraw every guest access and invitation link a host has handed out
+   */
+  async revokeAllGuestAccess(
+    hostUserId: string,
+    now: Date = new Date()
+  ): Promise<{ access_controls: number; links: number }> {
+    let accessControls = 0;
+    for (const accessControl of await this.memoryAssistant.listGuestAccessControls(hostUserId)) {
+      if (accessControl.revoked_at) continue;
+      accessControl.revoked_at = now;
+      await this.memoryAssistant.saveGuestAccessControl(accessControl);
+      accessControls++;
+    }
+
+    let links = 0;
+    for (const link of await this.memoryAssistant.listGuestInvitationLinks(hostUserId)) {
+      if (link.revoked_at) continue;
+      link.revoked_at = now;
+      await this.memoryAssistant.saveGuestInvitationLink(link);
+      links++;
+    }
+
+    return { access_controls: accessControls, links };
   }
 
   // Private helper methods
@@ -434,6 +943,198 @@ export class CollaborationService {
     return `collab_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
+  private generateGuestId(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(12));
+    let id = 'guest_';
+    for (let i = 0; i < bytes.length; i++) {
+      id += (bytes[i] < 16 ? '0' : '') + bytes[i].toString(16);
+    }
+    return id;
+  }
+
+  private defaultGuestRestrictions(durationHours: number): AccessRestriction[] {
+    return [
+      {
+        type: 'time_window',
+        description: 'Access limited to session duration',
+        parameters: { max_duration_hours: durationHours },
+        enforcement: 'strict'
+      },
+      {
+        type: 'content_filter',
+        description: 'Cannot access private content',
+        parameters: { exclude_private: true },
+        enforcement: 'strict'
+      }
+    ];
+  }
+
+  /**
+   * Pin a restriction that binds on redemption to the redeeming client
+   */
+  private bindRestriction(restriction: AccessRestriction, client: GuestClientContext): AccessRestriction {
+    if (!restriction.parameters.bind_on_redeem) {
+      return restriction;
+    }
+
+    const parameters = { ...restriction.parameters };
+    delete parameters.bind_on_redeem;
+    if (restriction.type === 'ip_address') {
+      parameters.allowed_ips = client.ip_address ? [client.ip_address] : [];
+    } else if (restriction.type === 'device_binding') {
+      parameters.device_id = client.device_id || null;
+    }
+    return { ...restriction, parameters };
+  }
+
+  /**
+   * Check a guest request against the access and all of its restrictions
+   */
+  private async evaluateGuestAccess(
+    accessControl: GuestAccessControl,
+    resourceId: string,
+    accessType: 'read' | 'write',
+    context: GuestAccessContext,
+    now: Date
+  ): Promise<GuestAccessDecision> {
+    if (accessControl.revoked_at) {
+      return { allowed: false, reason: 'Access has been revoked', violations: [] };
+    }
+    if (accessControl.expires_at < now) {
+      return { allowed: false, reason: 'Access has expired', violations: [] };
+    }
+
+    const resource = accessControl.accessible_resources.find(r => r.resource_id === resourceId);
+    if (!resource) {
+      return { allowed: false, reason: `Resource ${resourceId} is not shared with the guest`, violations: [] };
+    }
+    if (accessType === 'write' && resource.access_level !== 'write') {
+      return { allowed: false, reason: `Resource ${resourceId} is shared read-only`, violations: [] };
+    }
+
+    // The privacy of the content is looked up rather than taken from the request
+    const restrictions = accessControl.restrictions || [];
+    const filtersPrivate = restrictions.some(r => r.type === 'content_filter' && r.parameters && r.parameters.exclude_private);
+    const privacyLevel = filtersPrivate ? await this.getResourcePrivacyLevel(accessControl, resource) : null;
+
+    const violations: GuestAccessViolation[] = [];
+    for (const restriction of restrictions) {
+      const reason = this.checkRestriction(restriction, accessControl, context, privacyLevel, now);
+      if (reason) {
+        violations.push({ type: restriction.type, enforcement: restriction.enforcement, reason });
+      }
+    }
+
+    const blocking = violations.find(violation => violation.enforcement === 'strict');
+    return { allowed: !blocking, reason: blocking ? blocking.reason : undefined, violations };
+  }
+
+  /**
+   * Privacy of a resource shared with a guest, or null when it is unknown
+   * Reflections are looked up among the host's own; projects are as private
+   * as their view access.
+   */
+  private async getResourcePrivacyLevel(
+    accessControl: GuestAccessControl,
+    resource: AccessibleResource
+  ): Promise<PrivacyLevel | null> {
+    if (resource.resource_type === 'reflection') {
+      const reflection = await this.memoryAssistant.getReflection(resource.resource_id, this.hostScope(accessControl.host_user_id));
+      return reflection ? reflection.privacy_level : null;
+    }
+    if (resource.resource_type === 'project') {
+      const project = await this.projects.getProjectById(resource.resource_id);
+      return project ? PROJECT_PRIVACY[project.settings.visibility.view_access] || null : null;
+    }
+    return null;
+  }
+
+  /**
+   * Read-only memory scope of a host's own records
+   */
+  private hostScope(hostUserId: string): MemoryScope {
+    return {
+      id: `user:${hostUserId}`,
+      user_ids: [hostUserId],
+      project_ids: [],
+      contact_ids: [],
+      permissions: { read: true, write: false, delete: false }
+    };
+  }
+
+  /**
+   * Why a request breaks a restriction, or null when it does not
+   * A restriction that binds on redemption but was never bound fails closed,
+   * and so does a private content filter on content of unknown privacy.
+   */
+  private checkRestriction(
+    restriction: AccessRestriction,
+    accessControl: GuestAccessControl,
+    context: GuestAccessContext,
+    privacyLevel: PrivacyLevel | null,
+    now: Date
+  ): string | null {
+    const parameters = restriction.parameters || {};
+
+    switch (restriction.type) {
+      case 'time_window': {
+        if (
+          parameters.max_duration_hours !== undefined &&
+          accessControl.granted_at.getTime() + parameters.max_duration_hours * 60 * 60 * 1000 < now.getTime()
+        ) {
+          return 'Access window has ended';
+        }
+        if (parameters.not_before && now < new Date(parameters.not_before)) {
+          return 'Access window has not started';
+        }
+        if (parameters.not_after && now > new Date(parameters.not_after)) {
+          return 'Access window has ended';
+        }
+        return null;
+      }
+
+      case 'content_filter': {
+        if (parameters.exclude_private && !privacyLevel) {
+          return 'Content of unknown privacy is not shared with guests';
+        }
+        if (parameters.exclude_private && privacyLevel === 'private') {
+          return 'Private content is not shared with guests';
+        }
+        const excludedTags: string[] = parameters.exclude_tags || [];
+        const tags = context.tags || [];
+        const excluded = excludedTags.filter(tag => tags.includes(tag));
+        return excluded.length > 0 ? `Content tagged ${excluded.join(', ')} is not shared with guests` : null;
+      }
+
+      case 'ip_address': {
+        if (parameters.bind_on_redeem) {
+          return 'Access is not bound to an address';
+        }
+        const allowed: string[] = parameters.allowed_ips || [];
+        return allowed.length > 0 && !(context.ip_address && allowed.includes(context.ip_address))
+          ? `Address ${context.ip_address || 'unknown'} is not allowed`
+          : null;
+      }
+
+      case 'device_binding': {
+        if (parameters.bind_on_redeem || parameters.device_id === null) {
+          return 'Access is not bound to a device';
+        }
+        return parameters.device_id && context.device_id !== parameters.device_id
+          ? 'Access is bound to another device'
+          : null;
+      }
+
+      case 'usage_quota':
+        return parameters.max_accesses !== undefined && (accessControl.access_count || 0) >= parameters.max_accesses
+          ? `Access limit of ${parameters.max_accesses} reached`
+          : null;
+
+      default:
+        return null;
+    }
+  }
+
   private async verifyInvitationPermission(
     userId: string,
     resourceId: string,
@@ -535,21 +1236,136 @@ export class CollaborationService {
   private async logSessionActivity(
     sessionId: string,
     userId: string,
-    type: 'joined' | 'left' | 'edited' | 'locked' | 'unlocked',
+    type: ActivityType,
     description: string
   ): Promise<void> {
     const session = await this.memoryAssistant.getCollaborativeSession(sessionId);
     if (!session) return;
 
+    this.appendActivity(session, userId, type, description, new Date());
+
+    await this.memoryAssistant.saveCollaborativeSession(session);
+  }
+
+  private appendActivity(
+    session: CollaborativeSession,
+    userId: string,
+    type: ActivityType,
+    description: string,
+    timestamp: Date,
+    metadata?: Record<string, any>
+  ): void {
     session.metadata.activity_log.push({
       id: this.generateId(),
       user_id: userId,
       type,
       description,
-      timestamp: new Date()
+      timestamp,
+      metadata
     });
+  }
+
+  /**
+   * Drop expired locks and hand over locks whose takeover is due
+   * Only the session object is changed; the caller saves it and publishes
+   * the returned changes.
+   */
+  private settleLocks(session: CollaborativeSession, now: Date, blockId?: string): LockChanges {
+    const changes: LockChanges = { expired: [], taken_over: [] };
+
+    for (const lock of session.block_locks.slice()) {
+      if (blockId && lock.block_id !== blockId) continue;
+
+      const expired = lock.expires_at <= now;
+      if (lock.takeover && (expired || lock.takeover.grant_at <= now)) {
+        const granted = this.handOverLock(session, lock, lock.takeover.requested_by, now);
+        changes.taken_over.push({ lock: granted, previous_holder_id: lock.user_id, forced: !expired });
+      } else if (expired) {
+        session.block_locks = session.block_locks.filter(l => l !== lock);
+        this.appendActivity(session, lock.user_id, 'lock_expired', `Lock on block ${lock.block_id} expired`, now, {
+          block_id: lock.block_id
+        });
+        changes.expired.push(lock);
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Replace a lock with a fresh editing lock for another user
+   */
+  private handOverLock(session: CollaborativeSession, lock: BlockLock, userId: string, now: Date): BlockLock {
+    const granted: BlockLock = {
+      block_id: lock.block_id,
+      user_id: userId,
+      type: 'editing',
+      acquired_at: now,
+      expires_at: new Date(now.getTime() + session.metadata.settings.lock_timeout * 1000)
+    };
+
+    session.block_locks = session.block_locks.map(l => l === lock ? granted : l);
+    this.appendActivity(session, userId, 'lock_taken_over', `Took over the lock on block ${lock.block_id}`, now, {
+      block_id: lock.block_id,
+      previous_holder_id: lock.user_id
+    });
+    return granted;
+  }
+
+  /**
+   * Save a session when settling its locks changed anything
+   */
+  /**
+   * Run a read-modify-write of a session's locks after the ones already queued
+   * for it, so concurrent lock changes never overwrite each other
+   */
+  private withSessionLocks<T>(sessionId: string, task: () => Promise<T>): Promise<T> {
+    return this.exclusively(`session:${sessionId}`, task);
+  }
+
+  /**
+   * Run a task after the ones already queued under the same key
+   */
+  private exclusively<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.exclusiveQueues.get(key) || Promise.resolve();
+    const run = previous.then(task, task);
+    const settled = run.then(() => undefined, () => undefined);
+    this.exclusiveQueues.set(key, settled);
+    settled.then(() => {
+      if (this.exclusiveQueues.get(key) === settled) {
+        this.exclusiveQueues.delete(key);
+      }
+    });
+    return run;
+  }
+
+  private async saveLockChanges(session: CollaborativeSession, changes: LockChanges): Promise<void> {
+    if (changes.expired.length === 0 && changes.taken_over.length === 0) return;
 
     await this.memoryAssistant.saveCollaborativeSession(session);
+    await this.publishLockChanges(session.id, changes);
+  }
+
+  private async publishLockChanges(sessionId: string, changes: LockChanges): Promise<void> {
+    for (const lock of changes.expired) {
+      await this.events.publish('collaboration.lock_expired', { session_id: sessionId, lock });
+    }
+    for (const change of changes.taken_over) {
+      await this.events.publish('collaboration.lock_taken_over', { session_id: sessionId, ...change });
+    }
+  }
+
+  /**
+   * Rank of a user when competing for a lock; the host ranks as an admin and
+   * users outside the session rank below every participant
+   */
+  private getLockPriority(session: CollaborativeSession, userId: string): number {
+    if (userId === session.host_user_id) {
+      return LOCK_PRIORITY.admin;
+    }
+
+    const participant = session.participants.find(p => p.user_id === userId);
+    return participant ? LOCK_PRIORITY[participant.permission_level] : -1;
   }
 
   private async findContactsByTheme(userId: string, themes: string[]): Promise<any[]> {
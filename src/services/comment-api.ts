@@ -0,0 +1,124 @@
+/**
+ * Comment API (server-side only)
+ * Runs comment calls from the browser through the server's CommentService,
+ * always for the user of the session.
+ */
+
+import { CommentPermissionError, CommentService } from './comment-service';
+import { COMMENT_ACTIONS, CommentAction } from './comment-client';
+import { CommentError } from '../lib/collaboration/comment-threads';
+import { MemoryFactory } from '../lib/memory/memory-factory';
+import { bootstrapServer } from '../lib/server-bootstrap';
+import { CommentThread } from '../types/editor';
+
+/**
+ * Error raised for a comment call that must not run
+ */
+export class CommentApiRequestError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'CommentApiRequestError';
+    this.status = status;
+  }
+}
+
+let service: Promise<CommentService> | null = null;
+
+/**
+ * The server's CommentService, created once the memory system is running
+ */
+function getCommentService(): Promise<CommentService> {
+  if (!service) {
+    service = createCommentService();
+    service.catch(() => {
+      service = null;
+    });
+  }
+  return service;
+}
+
+async function createCommentService(): Promise<CommentService> {
+  await bootstrapServer();
+  return new CommentService(MemoryFactory.getInstance().getMemoryAssistant());
+}
+
+/**
+ * Value of a required string parameter
+ */
+function requireString(params: Record<string, any>, name: string): string {
+  const value = params[name];
+  if (typeof value !== 'string' || !value) {
+    throw new CommentApiRequestError(`Comment calls need ${name}`, 400);
+  }
+  return value;
+}
+
+/**
+ * Run a CommentService call, turning its refusals into request errors
+ */
+async function runService<T>(call: (comments: CommentService) => Promise<T>): Promise<T> {
+  const comments = await getCommentService();
+  try {
+    return await call(comments);
+  } catch (error) {
+    if (error instanceof CommentPermissionError) {
+      throw new CommentApiRequestError(error.message, 403);
+    }
+    if (error instanceof CommentError) {
+      throw new CommentApiRequestError(error.message, 400);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Threads of a document for the signed-in user
+ */
+export async function listCommentThreads(
+  sessionUserId: string,
+  projectId: string,
+  documentId: string
+): Promise<CommentThread[]> {
+  if (!projectId || !documentId) {
+    throw new CommentApiRequestError('Comment calls need project_id and document_id', 400);
+  }
+  return runService(comments => comments.listThreads(projectId, documentId, sessionUserId));
+}
+
+/**
+ * Run a thread action for the signed-in user
+ */
+export async function runCommentCall(sessionUserId: string, params: Record<string, any>): Promise<CommentThread> {
+  const action = params.action;
+  if ((COMMENT_ACTIONS as readonly string[]).indexOf(action) === -1) {
+    throw new CommentApiRequestError(`Unknown comment action: ${action}`, 400);
+  }
+  const projectId = requireString(params, 'project_id');
+
+  switch (action as CommentAction) {
+    case 'create': {
+      const documentId = requireString(params, 'document_id');
+      const text = requireString(params, 'text');
+      const { block, range } = params;
+      if (!block || typeof block.id !== 'string' || !range || typeof range.start !== 'number' || typeof range.end !== 'number') {
+        throw new CommentApiRequestError('Comment calls need block and range', 400);
+      }
+      return runService(comments => comments.createThread(projectId, documentId, sessionUserId, block, range, text));
+    }
+    case 'reply': {
+      const threadId = requireString(params, 'thread_id');
+      const text = requireString(params, 'text');
+      return runService(comments => comments.reply(projectId, threadId, sessionUserId, text));
+    }
+    case 'resolve': {
+      const threadId = requireString(params, 'thread_id');
+      return runService(comments => comments.resolve(projectId, threadId, sessionUserId));
+    }
+    case 'reopen': {
+      const threadId = requireString(params, 'thread_id');
+      return runService(comments => comments.reopen(projectId, threadId, sessionUserId));
+    }
+  }
+}
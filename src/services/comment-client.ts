@@ -0,0 +1,122 @@
+/**
+ * Comment client
+ * Browser-side access to the comment threads of a project's documents: every
+ * call goes to the comments API route, which runs it through the
+ * CommentService for the signed-in user, so permissions are enforced and
+ * @mentions notified on the server.
+ */
+
+import type { CommentThread, ContentBlock } from '../types/editor';
+import { createDateReviver } from '../lib/value-utils';
+
+/** Endpoint of the comments API route */
+export const COMMENT_API_PATH = '/api/comments';
+
+/**
+ * Thread actions the comments API route runs
+ */
+export const COMMENT_ACTIONS = ['create', 'reply', 'resolve', 'reopen'] as const;
+
+export type CommentAction = typeof COMMENT_ACTIONS[number];
+
+/**
+ * Comment threads of a project's documents, for the signed-in user
+ */
+export interface CommentApi {
+  /** Threads of a document, oldest first */
+  listThreads(projectId: string, documentId: string): Promise<CommentThread[]>;
+
+  /** Open a thread on a range of a block */
+  createThread(
+    projectId: string,
+    documentId: string,
+    block: ContentBlock,
+    range: { start: number; end: number },
+    text: string
+  ): Promise<CommentThread>;
+
+  /** Reply to a thread */
+  reply(projectId: string, threadId: string, text: string): Promise<CommentThread>;
+
+  /** Resolve a thread */
+  resolve(projectId: string, threadId: string): Promise<CommentThread>;
+
+  /** Reopen a resolved thread */
+  reopen(projectId: string, threadId: string): Promise<CommentThread>;
+}
+
+/**
+ * Error returned by the comments API route
+ */
+export class CommentApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'CommentApiError';
+    this.status = status;
+  }
+}
+
+/**
+ * Calls the comments API route
+ */
+export class CommentClient implements CommentApi {
+  private endpoint: string;
+
+  constructor(endpoint: string = COMMENT_API_PATH) {
+    this.endpoint = endpoint;
+  }
+
+  async listThreads(projectId: string, documentId: string): Promise<CommentThread[]> {
+    const query = `project_id=${encodeURIComponent(projectId)}&document_id=${encodeURIComponent(documentId)}`;
+    const response = await fetch(`${this.endpoint}?${query}`, { credentials: 'same-origin' });
+    return (await this.readBody(response)).threads;
+  }
+
+  createThread(
+    projectId: string,
+    documentId: string,
+    block: ContentBlock,
+    range: { start: number; end: number },
+    text: string
+  ): Promise<CommentThread> {
+    return this.call('create', { project_id: projectId, document_id: documentId, block, range, text });
+  }
+
+  reply(projectId: string, threadId: string, text: string): Promise<CommentThread> {
+    return this.call('reply', { project_id: projectId, thread_id: threadId, text });
+  }
+
+  resolve(projectId: string, threadId: string): Promise<CommentThread> {
+    return this.call('resolve', { project_id: projectId, thread_id: threadId });
+  }
+
+  reopen(projectId: string, threadId: string): Promise<CommentThread> {
+    return this.call('reopen', { project_id: projectId, thread_id: threadId });
+  }
+
+  /**
+   * Run a thread action on the server
+   */
+  private async call(action: CommentAction, params: Record<string, unknown>): Promise<CommentThread> {
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      credentials: 'same-origin',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action, ...params })
+    });
+    return (await this.readBody(response)).result;
+  }
+
+  /**
+   * Parse a response, reviving dates, and raise API errors
+   */
+  private async readBody(response: Response): Promise<any> {
+    const body = JSON.parse(await response.text(), createDateReviver());
+    if (!response.ok) {
+      throw new CommentApiError(body.error || `Comment request failed (${response.status})`, response.status);
+    }
+    return body;
+  }
+}
@@ -0,0 +1,254 @@
+/**
+ * Comment Service
+ * Stores comment threads on editor documents, enforces the project's
+ * collaborator permissions and notifies @mentioned session participants.
+ */
+
+import { Project } from '../types/data-models';
+import { SessionParticipant } from '../types/collaboration';
+import { CommentPermissions, CommentThread, ContentBlock, UIStateTree } from '../types/editor';
+import { MemoryAssistant } from '../lib/memory';
+import { DomainEventBus, domainEventBus } from '../lib/events/domain-event-bus';
+import { ProjectRepository, projectRepository as defaultProjectRepository } from '../lib/data/project-repository';
+import {
+  CommentAuthor,
+  CommentError,
+  createCommentThread,
+  getCommentPermissions,
+  rebaseCommentThreads,
+  reopenThread,
+  replyToThread,
+  resolveThread
+} from '../lib/collaboration/comment-threads';
+
+/**
+ * Thrown when a user may not perform a comment operation
+ */
+export class CommentPermissionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CommentPermissionError';
+  }
+}
+
+/**
+ * Comment Service
+ * Documents belong to a project, whose owner, collaborators and settings
+ * decide who may read, write and resolve comments. Stored threads record
+ * their project, and are only reached through it.
+ */
+export class CommentService {
+  private memoryAssistant: MemoryAssistant;
+  private projects: ProjectRepository;
+  private events: DomainEventBus;
+
+  constructor(
+    memoryAssistant: MemoryAssistant,
+    projects: ProjectRepository = defaultProjectRepository,
+    events: DomainEventBus = domainEventBus
+  ) {
+    this.memoryAssistant = memoryAssistant;
+    this.projects = projects;
+    this.events = events;
+  }
+
+  /**
+   * What a user may do with the comments of a project's documents
+   */
+  async getPermissions(projectId: string, userId: string): Promise<CommentPermissions> {
+    return getCommentPermissions(await this.getProject(projectId), userId);
+  }
+
+  /**
+   * List the comment threads of a document, oldest first
+   */
+  async listThreads(projectId: string, documentId: string, userId: string): Promise<CommentThread[]> {
+    const project = await this.getProject(projectId);
+    if (!getCommentPermissions(project, userId).can_view) {
+      throw new CommentPermissionError('Insufficient permissions to view comments');
+    }
+
+    return this.getDocumentThreads(projectId, documentId);
+  }
+
+  /**
+   * Open a thread on a range of a block and notify the participants it mentions
+   */
+  async createThread(
+    projectId: string,
+    documentId: string,
+    userId: string,
+    block: ContentBlock,
+    range: { start: number; end: number },
+    text: string,
+    now: Date = new Date()
+  ): Promise<CommentThread> {
+    const project = await this.getProject(projectId);
+    this.assertCanComment(project, userId);
+    await this.getDocumentThreads(projectId, documentId);
+
+    const participants = await this.getParticipants(documentId);
+    const thread: CommentThread = {
+      ...createCommentThread(documentId, block, range, this.getAuthor(userId, participants), text, participants, now),
+      project_id: projectId
+    };
+
+    await this.memoryAssistant.saveCommentThread(thread);
+    await this.notifyMentions(project, thread, now);
+    return thread;
+  }
+
+  /**
+   * Reply to a thread and notify the participants the reply mentions
+   */
+  async reply(
+    projectId: string,
+    threadId: string,
+    userId: string,
+    text: string,
+    now: Date = new Date()
+  ): Promise<CommentThread> {
+    const project = await this.getProject(projectId);
+    this.assertCanComment(project, userId);
+
+    const thread = await this.getThread(projectId, threadId);
+    const participants = await this.getParticipants(thread.document_id);
+    const updated = replyToThread(thread, this.getAuthor(userId, participants), text, participants, now);
+
+    await this.memoryAssistant.saveCommentThread(updated);
+    await this.notifyMentions(project, updated, now);
+    return updated;
+  }
+
+  /**
+   * Resolve a thread (its opener, or anyone who may edit the project)
+   */
+  async resolve(projectId: string, threadId: string, userId: string, now: Date = new Date()): Promise<CommentThread> {
+    const thread = await this.getThread(projectId, threadId);
+    this.assertCanResolve(await this.getProject(projectId), thread, userId);
+
+    const resolved = resolveThread(thread, userId, now);
+    await this.memoryAssistant.saveCommentThread(resolved);
+    return resolved;
+  }
+
+  /**
+   * Reopen a resolved thread (its opener, or anyone who may edit the project)
+   */
+  async reopen(projectId: string, threadId: string, userId: string, now: Date = new Date()): Promise<CommentThread> {
+    const thread = await this.getThread(projectId, threadId);
+    this.assertCanResolve(await this.getProject(projectId), thread, userId);
+
+    const reopened = reopenThread(thread, now);
+    await this.memoryAssistant.saveCommentThread(reopened);
+    return reopened;
+  }
+
+  /**
+   * Move the stored anchors of a document's threads along with a saved edit
+   */
+  async rebaseThreads(documentId: string, before: ContentBlock[], after: ContentBlock[]): Promise<CommentThread[]> {
+    const threads = await this.memoryAssistant.listCommentThreads(documentId);
+    const rebased = rebaseCommentThreads(threads, before, after);
+
+    for (let i = 0; i < rebased.length; i++) {
+      if (rebased[i] !== threads[i]) {
+        await this.memoryAssistant.saveCommentThread(rebased[i]);
+      }
+    }
+    return rebased;
+  }
+
+  /**
+   * Document with its stored comment threads, for export
+   * Users who may not read comments get the document without any.
+   */
+  async exportDocument(projectId: string, document: UIStateTree, userId: string): Promise<UIStateTree> {
+    const project = await this.getProject(projectId);
+    const { comments, ...content } = document;
+    if (!getCommentPermissions(project, userId).can_view) {
+      return content;
+    }
+
+    return { ...content, comments: await this.getDocumentThreads(projectId, document.metadata.id) };
+  }
+
+  private async getProject(projectId: string): Promise<Project> {
+    const project = await this.projects.getProjectById(projectId);
+    if (!project) {
+      throw new CommentError(`Project ${projectId} not found`);
+    }
+    return project;
+  }
+
+  private async getThread(projectId: string, threadId: string): Promise<CommentThread> {
+    const thread = await this.memoryAssistant.getCommentThread(threadId);
+    if (!thread) {
+      throw new CommentError(`Comment thread ${threadId} not found`);
+    }
+    if (thread.project_id !== projectId) {
+      throw new CommentPermissionError(`Comment thread ${threadId} does not belong to project ${projectId}`);
+    }
+    return thread;
+  }
+
+  /**
+   * Stored threads of a document, refused when any of them belongs to another project
+   */
+  private async getDocumentThreads(projectId: string, documentId: string): Promise<CommentThread[]> {
+    const threads = await this.memoryAssistant.listCommentThreads(documentId);
+    if (threads.some(thread => thread.project_id !== projectId)) {
+      throw new CommentPermissionError(`Document ${documentId} does not belong to project ${projectId}`);
+    }
+    return threads;
+  }
+
+  /**
+   * Participants of the document's active collaborative session
+   */
+  private async getParticipants(documentId: string): Promise<SessionParticipant[]> {
+    const session = await this.memoryAssistant.getCollaborativeSessionByResource(documentId);
+    return session ? session.participants : [];
+  }
+
+  private getAuthor(userId: string, participants: SessionParticipant[]): CommentAuthor {
+    const participant = participants.find(candidate => candidate.user_id === userId);
+    return { user_id: userId, display_name: participant ? participant.display_name : userId };
+  }
+
+  private assertCanComment(project: Project, userId: string): void {
+    if (!project.settings.collaboration.allow_comments) {
+      throw new CommentPermissionError('Comments are turned off for this project');
+    }
+    if (!getCommentPermissions(project, userId).can_comment) {
+      throw new CommentPermissionError('Insufficient permissions to comment');
+    }
+  }
+
+  private assertCanResolve(project: Project, thread: CommentThread, userId: string): void {
+    const permissions = getCommentPermissions(project, userId);
+    const isOpener = thread.comments[0].author_id === userId;
+    if (!permissions.can_resolve_any && !(isOpener && permissions.can_view)) {
+      throw new CommentPermissionError('Insufficient permissions to resolve this thread');
+    }
+  }
+
+  /**
+   * Tell the users the newest comment mentions, if they can read it and the
+   * project notifies about comments
+   */
+  private async notifyMentions(project: Project, thread: CommentThread, now: Date): Promise<void> {
+    if (!project.settings.notifications.comments) return;
+
+    const comment = thread.comments[thread.comments.length - 1];
+    for (const userId of comment.mentions) {
+      if (!getCommentPermissions(project, userId).can_view) continue;
+      await this.events.publish('comment.mentioned', {
+        project_id: project.id,
+        thread,
+        comment,
+        mentioned_user_id: userId
+      }, now);
+    }
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Erasure API (server-side only)
+ * Runs right-to-be-forgotten requests from the browser against the server's
+ * erasure service, always on behalf of the user of the session.
+ */
+
+import { bootstrapServer, getErasureService } from '../lib/server-bootstrap';
+import { DeletionCertificate, ErasureNotPermittedError } from '../lib/security/right-to-be-forgotten';
+import { DeletionNotification } from '../lib/security/data-retention';
+
+/**
+ * Error raised for an erasure request that must not run
+ */
+export class ErasureApiRequestError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ErasureApiRequestError';
+    this.status = status;
+  }
+}
+
+/**
+ * What the requester gets back from a completed erasure
+ */
+export interface ErasureApiResult {
+  certificate: DeletionCertificate;
+  notification: DeletionNotification;
+}
+
+/**
+ * Erase a user or contact on request of the signed-in user
+ * Users may erase themselves and the contacts they hold; architects may erase
+ * any user. Anything else is refused with a 403.
+ */
+export async function runErasure(
+  sessionUserId: string,
+  subjectType: string,
+  subjectId: string
+): Promise<ErasureApiResult> {
+  if (subjectType !== 'user' && subjectType !== 'contact') {
+    throw new ErasureApiRequestError(`Unknown erasure subject type: ${subjectType}`, 400);
+  }
+  if (typeof subjectId !== 'string' || !subjectId) {
+    throw new ErasureApiRequestError('A subject ID is required', 400);
+  }
+
+  await bootstrapServer();
+  const erasure = getErasureService();
+  if (!erasure) {
+    throw new ErasureApiRequestError('Erasure is not configured', 503);
+  }
+
+  try {
+    const { certificate, notification } = subjectType === 'user'
+      ? await erasure.forgetUser(subjectId, sessionUserId)
+      : await erasure.forgetContact(subjectId, sessionUserId);
+    return { certificate, notification };
+  } catch (error) {
+    if (error instanceof ErasureNotPermittedError) {
+      throw new ErasureApiRequestError(error.message, 403);
+    }
+    throw error;
+  }
+}
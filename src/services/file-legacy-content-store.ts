@@ -0,0 +1,131 @@
+/**
+ * File-backed legacy content store (server-side only)
+ * Keeps content and trigger schedules in a single JSON snapshot so scheduled
+ * deliveries survive restarts.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { LegacyContent } from '../types/legacy-system';
+import { InMemoryLegacyContentStore } from './legacy-content-store';
+import { createDateReviver } from '../lib/value-utils';
+
+const SNAPSHOT_VERSION = 1;
+
+/**
+ * Snapshot file layout
+ */
+interface LegacyContentSnapshot {
+  version: number;
+  contents: LegacyContent[];
+}
+
+/**
+ * Legacy content store persisted as a JSON snapshot
+ * Writes go to a temporary file first so a crash never leaves a torn snapshot.
+ */
+export class FileLegacyContentStore extends InMemoryLegacyContentStore {
+  readonly name: string = 'file';
+  private filePath: string;
+  private loading: Promise<void> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    super();
+    this.filePath = filePath;
+  }
+
+  async getLegacyContent(contentId: string): Promise<LegacyContent | null> {
+    await this.load();
+    return super.getLegacyContent(contentId);
+  }
+
+  async getActiveLegacyContent(): Promise<LegacyContent[]> {
+    await this.load();
+    return super.getActiveLegacyContent();
+  }
+
+  async getDueLegacyContent(now: Date): Promise<LegacyContent[]> {
+    await this.load();
+    return super.getDueLegacyContent(now);
+  }
+
+  async getLegacyContentByCreator(creatorId: string): Promise<LegacyContent[]> {
+    await this.load();
+    return super.getLegacyContentByCreator(creatorId);
+  }
+
+  async getLegacyContentByRecipient(contactId: string): Promise<LegacyContent[]> {
+    await this.load();
+    return super.getLegacyContentByRecipient(contactId);
+  }
+
+  async saveLegacyContent(content: LegacyContent): Promise<void> {
+    await this.load();
+    await super.saveLegacyContent(content);
+    await this.persist();
+  }
+
+  async deleteLegacyContent(contentId: string): Promise<boolean> {
+    await this.load();
+    const deleted = await super.deleteLegacyContent(contentId);
+    if (deleted) {
+      await this.persist();
+    }
+    return deleted;
+  }
+
+  /**
+   * Read the snapshot once, restoring ISO timestamps as dates
+   */
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readSnapshot();
+    }
+    return this.loading;
+  }
+
+  private async readSnapshot(): Promise<void> {
+    let raw: string;
+
+    try {
+      raw = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+
+    const snapshot = JSON.parse(raw, createDateReviver()) as LegacyContentSnapshot;
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+      throw new Error(`Unsupported legacy content snapshot version: ${snapshot.version}`);
+    }
+
+    snapshot.contents.forEach(content => this.contents.set(content.id, content));
+  }
+
+  /**
+   * Queue a snapshot write so concurrent saves never share the temporary file
+   */
+  private persist(): Promise<void> {
+    const write = () => this.writeSnapshot();
+    this.writing = this.writing.then(write, write);
+    return this.writing;
+  }
+
+  /**
+   * Write the full snapshot atomically
+   */
+  private async writeSnapshot(): Promise<void> {
+    const snapshot: LegacyContentSnapshot = {
+      version: SNAPSHOT_VERSION,
+      contents: Array.from(this.contents.values())
+    };
+    const tempPath = `${this.filePath}.tmp`;
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(snapshot), 'utf8');
+    await fs.rename(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,509 @@
+/**
+ * Journal importers for the Personal Chronicler
+ * Parse exports from other journaling apps (Markdown folders, Day One JSON,
+ * plain-text diaries and Google Takeout Keep notes) into entries with blocks,
+ * original timestamps and locations. The ChroniclerService de-duplicates the
+ * entries and turns them into reflections.
+ */
+
+import {
+  JournalImportFile,
+  JournalImportFormat,
+  JournalImportOptions,
+  JournalImportReportItem,
+  ParsedJournalEntry,
+  ReflectionBlock,
+  ReflectionContent,
+  ReflectionLocation
+} from '../types/chronicler';
+import { ENGLISH_STOPWORDS, SWEDISH_STOPWORDS } from '../lib/memory/embedding-provider';
+import { fromWallTime, toWallTime } from './legacy-recurrence';
+
+const DEFAULT_TIME_ZONE = 'Europe/Stockholm';
+const WORDS_PER_MINUTE = 200;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MARKDOWN_EXTENSION = /\.(md|markdown)$/i;
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+const FILENAME_DATE = /(\d{4})-(\d{2})-(\d{2})(?:[ T_-](\d{2})[-:.h](\d{2}))?/;
+const LOCAL_DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{1,2})[:.](\d{2})(?:[:.](\d{2}))?)?$/;
+const ISO_DATE_HEADING = /^(\d{4})-(\d{2})-(\d{2})(?:[ T,]+(?:kl\.?\s*)?(\d{1,2})[:.](\d{2}))?$/i;
+const SWEDISH_DATE_HEADING =
+  /^(?:(?:måndag|tisdag|onsdag|torsdag|fredag|lördag|söndag)(?:en)?\s+(?:den\s+)?)?(\d{1,2})\s+([a-zåäö]+)\s+(\d{4})(?:[ ,]+(?:kl\.?\s*)?(\d{1,2})[:.](\d{2}))?$/i;
+const SWEDISH_MONTHS = [
+  'januari', 'februari', 'mars', 'april', 'maj', 'juni',
+  'juli', 'augusti', 'september', 'oktober', 'november', 'december'
+];
+
+/**
+ * Parsed entries of an export and the files or entries that could not be read
+ */
+export interface ParsedJournalExport {
+  entries: ParsedJournalEntry[];
+  skipped: JournalImportReportItem[];
+}
+
+/**
+ * Parse an export in one of the supported formats
+ */
+export function parseJournalExport(
+  format: JournalImportFormat,
+  files: JournalImportFile[],
+  options: JournalImportOptions = {}
+): ParsedJournalExport {
+  const timeZone = options.time_zone || DEFAULT_TIME_ZONE;
+
+  switch (format) {
+    case 'markdown':
+      return parseMarkdownFolder(files, timeZone);
+    case 'day_one':
+      return parseDayOneExport(files);
+    case 'plain_text':
+      return parsePlainTextDiaries(files, timeZone);
+    case 'google_keep':
+      return parseGoogleKeepTakeout(files);
+    default:
+      throw new Error(`Unsupported journal format: ${format}`);
+  }
+}
+
+/**
+ * Markdown files, one entry each
+ * The date comes from front matter (date/created) or the filename, the title
+ * from front matter, the first heading or the filename.
+ */
+export function parseMarkdownFolder(files: JournalImportFile[], timeZone: string = DEFAULT_TIME_ZONE): ParsedJournalExport {
+  const result: ParsedJournalExport = { entries: [], skipped: [] };
+
+  files.filter(file => MARKDOWN_EXTENSION.test(file.path)).forEach(file => {
+    const frontMatterMatch = file.content.match(FRONT_MATTER);
+    const frontMatter = frontMatterMatch ? parseFrontMatter(frontMatterMatch[1]) : {};
+    let body = frontMatterMatch ? file.content.slice(frontMatterMatch[0].length) : file.content;
+
+    const filename = file.path.split('/').pop()!.replace(MARKDOWN_EXTENSION, '');
+    const createdAt = parseLocalDate(frontMatter.date || frontMatter.created, timeZone) ||
+      parseFilenameDate(filename, timeZone);
+    if (!createdAt) {
+      result.skipped.push({ external_id: file.path, reason: 'invalid', detail: 'No date in front matter or filename' });
+      return;
+    }
+
+    let title = typeof frontMatter.title === 'string' ? frontMatter.title : undefined;
+    if (!title) {
+      const heading = body.match(/^\s*#\s+(.+)\r?\n?/);
+      if (heading) {
+        title = heading[1].trim();
+        body = body.slice(heading[0].length);
+      } else {
+        title = filename.replace(FILENAME_DATE, '').replace(/^[\s_-]+|[\s_-]+$/g, '') || undefined;
+      }
+    }
+
+    const { text, blocks } = markdownToBlocks(body);
+    result.entries.push({
+      external_id: file.path,
+      title,
+      text,
+      blocks,
+      created_at: createdAt,
+      updated_at: parseLocalDate(frontMatter.updated || frontMatter.modified, timeZone) || undefined,
+      location: parseFrontMatterLocation(frontMatter),
+      tags: toList(frontMatter.tags)
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Day One JSON export ({ entries: [...] })
+ */
+export function parseDayOneExport(files: JournalImportFile[]): ParsedJournalExport {
+  const result: ParsedJournalExport = { entries: [], skipped: [] };
+
+  files.filter(file => /\.json$/i.test(file.path)).forEach(file => {
+    let data: any;
+    try {
+      data = JSON.parse(file.content);
+    } catch (error) {
+      result.skipped.push({ external_id: file.path, reason: 'invalid', detail: 'Not valid JSON' });
+      return;
+    }
+    if (!data || !Array.isArray(data.entries)) {
+      result.skipped.push({ external_id: file.path, reason: 'invalid', detail: 'No entries in Day One export' });
+      return;
+    }
+
+    data.entries.forEach((entry: any, index: number) => {
+      const externalId = entry.uuid || `${file.path}#${index + 1}`;
+      const createdAt = parseInstant(entry.creationDate);
+      if (!createdAt) {
+        result.skipped.push({ external_id: externalId, reason: 'invalid', detail: 'Missing creation date' });
+        return;
+      }
+
+      // Day One escapes Markdown punctuation in its export
+      let body = String(entry.text || '').replace(/\\([\\`*_{}\[\]()#+\-.!>])/g, '$1');
+      let title: string | undefined;
+      const heading = body.match(/^\s*#\s+(.+)\r?\n?/);
+      if (heading) {
+        title = heading[1].trim();
+        body = body.slice(heading[0].length);
+      }
+
+      const { text, blocks } = markdownToBlocks(body);
+      result.entries.push({
+        external_id: externalId,
+        title,
+        text,
+        blocks,
+        created_at: createdAt,
+        updated_at: parseInstant(entry.modifiedDate) || undefined,
+        location: parseDayOneLocation(entry.location),
+        tags: toList(entry.tags)
+      });
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Plain-text diaries where each entry starts with a date line
+ * Dates may be ISO ("2019-05-01 14:30") or Swedish ("Onsdag 1 maj 2019").
+ */
+export function parsePlainTextDiaries(files: JournalImportFile[], timeZone: string = DEFAULT_TIME_ZONE): ParsedJournalExport {
+  const result: ParsedJournalExport = { entries: [], skipped: [] };
+
+  files.forEach(file => {
+    const seen: Record<string, number> = {};
+    const preamble: string[] = [];
+    let current: { created_at: Date; lines: string[] } | null = null;
+
+    const finish = () => {
+      if (!current) {
+        return;
+      }
+      const key = current.created_at.toISOString();
+      seen[key] = (seen[key] || 0) + 1;
+      const { text, blocks } = markdownToBlocks(current.lines.join('\n'));
+      result.entries.push({
+        external_id: `${file.path}#${key}${seen[key] > 1 ? `~${seen[key]}` : ''}`,
+        text,
+        blocks,
+        created_at: current.created_at,
+        tags: []
+      });
+    };
+
+    file.content.split(/\r?\n/).forEach(line => {
+      const date = parseDateHeading(line.trim(), timeZone);
+      if (date) {
+        finish();
+        current = { created_at: date, lines: [] };
+      } else if (current) {
+        current.lines.push(line);
+      } else {
+        preamble.push(line);
+      }
+    });
+    finish();
+
+    if (preamble.join('').trim()) {
+      result.skipped.push({ external_id: `${file.path}#preamble`, reason: 'invalid', detail: 'Text before the first date' });
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Google Takeout Keep notes, one JSON file per note
+ */
+export function parseGoogleKeepTakeout(files: JournalImportFile[]): ParsedJournalExport {
+  const result: ParsedJournalExport = { entries: [], skipped: [] };
+
+  files.filter(file => /\.json$/i.test(file.path)).forEach(file => {
+    let note: any;
+    try {
+      note = JSON.parse(file.content);
+    } catch (error) {
+      result.skipped.push({ external_id: file.path, reason: 'invalid', detail: 'Not valid JSON' });
+      return;
+    }
+
+    const title = note.title ? String(note.title) : undefined;
+    if (note.isTrashed) {
+      result.skipped.push({ external_id: file.path, title, reason: 'trashed' });
+      return;
+    }
+
+    const createdAt = fromMicroseconds(note.createdTimestampUsec) || fromMicroseconds(note.userEditedTimestampUsec);
+    if (!createdAt) {
+      result.skipped.push({ external_id: file.path, title, reason: 'invalid', detail: 'Missing timestamps' });
+      return;
+    }
+
+    const { text, blocks } = markdownToBlocks(String(note.textContent || ''));
+    if (Array.isArray(note.listContent) && note.listContent.length > 0) {
+      const items = note.listContent.map((item: any) => String(item.text || ''));
+      blocks.push({ id: `block_${blocks.length + 1}`, type: 'list', content: items, metadata: {
+        checked: note.listContent.map((item: any) => !!item.isChecked)
+      } });
+    }
+    (note.attachments || []).forEach((attachment: any) => {
+      blocks.push({ id: `block_${blocks.length + 1}`, type: 'image', content: { src: attachment.filePath, mime_type: attachment.mimetype } });
+    });
+
+    const listText = Array.isArray(note.listContent) ? note.listContent.map((item: any) => item.text).join('\n') : '';
+    result.entries.push({
+      external_id: file.path,
+      title,
+      text: [text, listText].filter(Boolean).join('\n\n'),
+      blocks,
+      created_at: createdAt,
+      updated_at: fromMicroseconds(note.userEditedTimestampUsec) || undefined,
+      tags: (note.labels || []).map((label: any) => String(label.name)).filter(Boolean)
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Reflection content for an imported entry, with word count and language guessed from the text
+ */
+export function toImportedContent(entry: ParsedJournalEntry): ReflectionContent {
+  const words = entry.text.toLowerCase().split(/[^a-z0-9åäöéèüæøß]+/).filter(Boolean);
+  const swedish = words.filter(word => SWEDISH_STOPWORDS.has(word) || /[åäö]/.test(word)).length;
+  const english = words.filter(word => ENGLISH_STOPWORDS.has(word)).length;
+
+  return {
+    text: entry.text,
+    blocks: entry.blocks,
+    metadata: {
+      word_count: words.length,
+      reading_time_minutes: Math.max(1, Math.ceil(words.length / WORDS_PER_MINUTE)),
+      dominant_emotions: [],
+      themes: [],
+      language: english > swedish ? 'en' : 'sv'
+    }
+  };
+}
+
+/**
+ * Fingerprint of an entry's title and text, ignoring case and whitespace
+ * The same entry imported twice, or from two apps, gets the same fingerprint;
+ * the same text under another title does not.
+ */
+export function fingerprintJournalEntry(title: string, text: string): string {
+  const normalized = `${title}\n${text}`.toLowerCase().replace(/\s+/g, ' ').trim();
+  return `${normalized.length}:${fnv1a(normalized)}`;
+}
+
+/**
+ * Calendar day an entry was written on in the import timezone, as days since the epoch
+ */
+export function journalEntryDay(createdAt: Date, timeZone: string = DEFAULT_TIME_ZONE): number {
+  return Math.floor(toWallTime(createdAt, timeZone) / DAY_MS);
+}
+
+/**
+ * Markdown to plain text and reflection blocks
+ * Paragraphs become text blocks, quotes quote blocks, lists list blocks and
+ * standalone images image blocks; inline formatting is stripped from the text.
+ */
+export function markdownToBlocks(markdown: string): { text: string; blocks: ReflectionBlock[] } {
+  const blocks: ReflectionBlock[] = [];
+  const paragraphs: string[] = [];
+  const add = (type: ReflectionBlock['type'], content: any, plain: string, metadata?: Record<string, any>) => {
+    blocks.push({ id: `block_${blocks.length + 1}`, type, content, ...(metadata ? { metadata } : {}) });
+    if (plain) {
+      paragraphs.push(plain);
+    }
+  };
+
+  markdown.replace(/\r\n/g, '\n').split(/\n\s*\n/).forEach(chunk => {
+    const lines = chunk.split('\n').filter(line => line.trim());
+
+    const heading = lines.length > 0 ? lines[0].match(/^\s*(#{1,6})\s+(.+)$/) : null;
+    if (heading) {
+      const plain = stripInline(heading[2]);
+      add('text', plain, plain, { heading: heading[1].length });
+      lines.shift();
+    }
+    if (lines.length === 0) {
+      return;
+    }
+
+    const image = lines.length === 1 ? lines[0].trim().match(/^!\[([^\]]*)\]\(([^)\s]+)[^)]*\)$/) : null;
+
+    if (image) {
+      add('image', { src: image[2], alt: image[1] }, image[1]);
+    } else if (lines.every(line => /^\s*>/.test(line))) {
+      const plain = stripInline(lines.map(line => line.replace(/^\s*>\s?/, '')).join('\n'));
+      add('quote', plain, plain);
+    } else if (lines.every(line => /^\s*([-*+]|\d+[.)])\s+/.test(line))) {
+      const items = lines.map(line => stripInline(line.replace(/^\s*([-*+]|\d+[.)])\s+(\[[ xX]\]\s+)?/, '')));
+      add('list', items, items.join('\n'));
+    } else {
+      const plain = stripInline(lines.join('\n'));
+      add('text', plain, plain);
+    }
+  });
+
+  return { text: paragraphs.join('\n\n'), blocks };
+}
+
+/**
+ * Minimal YAML front matter: scalars, inline [a, b] lists and "- item" lists
+ */
+function parseFrontMatter(yaml: string): Record<string, any> {
+  const values: Record<string, any> = {};
+  let listKey: string | null = null;
+
+  yaml.split(/\r?\n/).forEach(line => {
+    const item = line.match(/^\s+-\s+(.+)$/) || line.match(/^-\s+(.+)$/);
+    if (item && listKey) {
+      values[listKey].push(unquote(item[1]));
+      return;
+    }
+
+    const pair = line.match(/^([A-Za-z_][\w-]*)\s*:\s*(.*)$/);
+    if (!pair) {
+      return;
+    }
+    const key = pair[1].toLowerCase();
+    const value = pair[2].trim();
+
+    if (!value) {
+      values[key] = [];
+      listKey = key;
+    } else if (/^\[.*\]$/.test(value)) {
+      values[key] = value.slice(1, -1).split(',').map(unquote).filter(Boolean);
+      listKey = null;
+    } else {
+      values[key] = unquote(value);
+      listKey = null;
+    }
+  });
+
+  return values;
+}
+
+function parseFrontMatterLocation(frontMatter: Record<string, any>): ReflectionLocation | undefined {
+  const latitude = Number(frontMatter.latitude || frontMatter.lat);
+  const longitude = Number(frontMatter.longitude || frontMatter.lon || frontMatter.lng);
+  if (!isFinite(latitude) || !isFinite(longitude) || (!frontMatter.latitude && !frontMatter.lat)) {
+    return undefined;
+  }
+  return { latitude, longitude, name: typeof frontMatter.location === 'string' ? frontMatter.location : undefined };
+}
+
+function parseDayOneLocation(location: any): ReflectionLocation | undefined {
+  if (!location || typeof location.latitude !== 'number' || typeof location.longitude !== 'number') {
+    return undefined;
+  }
+  const address = [location.localityName, location.administrativeArea, location.country].filter(Boolean).join(', ');
+  return {
+    latitude: location.latitude,
+    longitude: location.longitude,
+    name: location.placeName || location.localityName,
+    address: address || undefined
+  };
+}
+
+/**
+ * A date line of a plain-text diary, or null
+ */
+function parseDateHeading(line: string, timeZone: string): Date | null {
+  const iso = line.match(ISO_DATE_HEADING);
+  if (iso) {
+    return localDate(+iso[1], +iso[2], +iso[3], iso[4] ? +iso[4] : 0, iso[5] ? +iso[5] : 0, timeZone);
+  }
+
+  const swedish = line.match(SWEDISH_DATE_HEADING);
+  if (swedish) {
+    const month = SWEDISH_MONTHS.indexOf(swedish[2].toLowerCase()) + 1;
+    return month > 0
+      ? localDate(+swedish[3], month, +swedish[1], swedish[4] ? +swedish[4] : 0, swedish[5] ? +swedish[5] : 0, timeZone)
+      : null;
+  }
+  return null;
+}
+
+/**
+ * A front matter date: local "2019-05-01 14:30" in the import timezone, or an instant with offset
+ */
+function parseLocalDate(value: any, timeZone: string): Date | null {
+  if (typeof value !== 'string' || !value) {
+    return null;
+  }
+  const local = value.match(LOCAL_DATE_TIME);
+  if (local) {
+    return localDate(+local[1], +local[2], +local[3], local[4] ? +local[4] : 0, local[5] ? +local[5] : 0, timeZone);
+  }
+  return parseInstant(value);
+}
+
+function parseFilenameDate(filename: string, timeZone: string): Date | null {
+  const match = filename.match(FILENAME_DATE);
+  return match
+    ? localDate(+match[1], +match[2], +match[3], match[4] ? +match[4] : 0, match[5] ? +match[5] : 0, timeZone)
+    : null;
+}
+
+function localDate(year: number, month: number, day: number, hour: number, minute: number, timeZone: string): Date | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31 || hour > 23 || minute > 59) {
+    return null;
+  }
+  return fromWallTime(Date.UTC(year, month - 1, day, hour, minute), timeZone);
+}
+
+function parseInstant(value: any): Date | null {
+  if (typeof value !== 'string' || !value) {
+    return null;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function fromMicroseconds(value: any): Date | null {
+  const microseconds = Number(value);
+  return value !== undefined && value !== null && isFinite(microseconds) && microseconds > 0
+    ? new Date(Math.floor(microseconds / 1000))
+    : null;
+}
+
+function stripInline(markdown: string): string {
+  return markdown
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(\*|_)(.+?)\1/g, '$2')
+    .replace(/`([^`]+)`/g, '$1')
+    .trim();
+}
+
+function toList(value: any): string[] {
+  if (Array.isArray(value)) {
+    return value.map(String).filter(Boolean);
+  }
+  return typeof value === 'string' && value ? value.split(',').map(tag => tag.trim()).filter(Boolean) : [];
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^(["'])(.*)\1$/, '$2');
+}
+
+/**
+ * FNV-1a 32-bit hash as hex
+ */
+function fnv1a(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16);
+}
@@ -0,0 +1,105 @@
+/**
+ * Legacy API (server-side only)
+ * Runs creators' check-ins, the answers recipients give to permission requests
+ * and trusted contacts' inactivity confirmations against the server's legacy
+ * system. Recipients and trusted contacts are contacts without an account, so
+ * the token from their link is what lets them answer.
+ */
+
+import { InactivityConfirmationError, PermissionReplyError } from './legacy-system-service';
+import { PERMISSION_ANSWERS } from './legacy-client';
+import { bootstrapServer, getLegacySystemService } from '../lib/server-bootstrap';
+import { InactivityPhase, PermissionAnswer, PermissionStatus } from '../types/legacy-system';
+
+/**
+ * Error raised for a legacy call that must not run
+ */
+export class LegacyApiRequestError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'LegacyApiRequestError';
+    this.status = status;
+  }
+}
+
+/**
+ * Legacy system of the server, once it runs
+ */
+async function requireLegacySystem() {
+  await bootstrapServer();
+  const legacySystem = getLegacySystemService();
+  if (!legacySystem) {
+    throw new LegacyApiRequestError('The legacy system is not enabled', 503);
+  }
+  return legacySystem;
+}
+
+/**
+ * Record a recipient's answer to a permission request
+ * Only the answer's outcome is returned; the content itself reaches the
+ * recipient through its delivery channel.
+ */
+export async function answerPermissionRequest(
+  contentId: string,
+  contactId: string,
+  token: string,
+  answer: string,
+  remindInDays?: number
+): Promise<PermissionStatus> {
+  if ([contentId, contactId, token].some(value => typeof value !== 'string' || !value)) {
+    throw new LegacyApiRequestError('Content, recipient and token are required', 400);
+  }
+  if ((PERMISSION_ANSWERS as readonly string[]).indexOf(answer) === -1) {
+    throw new LegacyApiRequestError(`Unknown answer: ${answer}`, 400);
+  }
+
+  const legacySystem = await requireLegacySystem();
+  try {
+    const content = await legacySystem.respondToPermissionRequest({
+      content_id: contentId,
+      contact_id: contactId,
+      token,
+      answer: answer as PermissionAnswer,
+      remind_in_days: remindInDays
+    });
+    const recipient = content.recipients.filter(r => r.contact_id === contactId)[0];
+    return recipient.permission!.status;
+  } catch (error) {
+    if (error instanceof PermissionReplyError) {
+      throw new LegacyApiRequestError(error.message, 404);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Record that the signed-in user is still here
+ * Returns the IDs of the content whose inactivity triggers were reset.
+ */
+export async function checkIn(sessionUserId: string): Promise<string[]> {
+  const legacySystem = await requireLegacySystem();
+  const reset = await legacySystem.checkIn(sessionUserId);
+  return reset.map(content => content.id);
+}
+
+/**
+ * Record a trusted contact's confirmation that the creator can no longer check in
+ */
+export async function confirmInactivity(contentId: string, contactId: string, token: string): Promise<InactivityPhase> {
+  if ([contentId, contactId, token].some(value => typeof value !== 'string' || !value)) {
+    throw new LegacyApiRequestError('Content, contact and token are required', 400);
+  }
+
+  const legacySystem = await requireLegacySystem();
+  try {
+    const content = await legacySystem.confirmInactivity({ content_id: contentId, contact_id: contactId, token });
+    return content.trigger.inactivity!.phase;
+  } catch (error) {
+    if (error instanceof InactivityConfirmationError) {
+      throw new LegacyApiRequestError(error.message, 404);
+    }
+    throw error;
+  }
+}
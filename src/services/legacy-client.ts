@@ -0,0 +1,108 @@
+/**
+ * Legacy client
+ * Browser-side access to the legacy API routes: creators checking in, and the
+ * links sent to recipients and trusted contacts.
+ */
+
+import { InactivityPhase, PermissionAnswer, PermissionStatus } from '../types/legacy-system';
+
+/** Endpoint of the permission reply API route */
+export const PERMISSION_REPLY_API_PATH = '/api/legacy/permission-reply';
+
+/** Endpoint of the check-in API route */
+export const CHECK_IN_API_PATH = '/api/legacy/check-in';
+
+/** Endpoint of the inactivity confirmation API route */
+export const INACTIVITY_CONFIRMATION_API_PATH = '/api/legacy/inactivity-confirmation';
+
+/** Answers a recipient can give to a permission request */
+export const PERMISSION_ANSWERS: readonly PermissionAnswer[] = ['accept', 'not_now', 'remind_later', 'never'];
+
+/**
+ * Error returned by a legacy API route
+ */
+export class LegacyApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'LegacyApiError';
+    this.status = status;
+  }
+}
+
+/**
+ * Calls the legacy API routes
+ */
+export class LegacyClient {
+  private permissionReplyEndpoint: string;
+  private checkInEndpoint: string;
+  private inactivityConfirmationEndpoint: string;
+
+  constructor(
+    permissionReplyEndpoint: string = PERMISSION_REPLY_API_PATH,
+    checkInEndpoint: string = CHECK_IN_API_PATH,
+    inactivityConfirmationEndpoint: string = INACTIVITY_CONFIRMATION_API_PATH
+  ) {
+    this.permissionReplyEndpoint = permissionReplyEndpoint;
+    this.checkInEndpoint = checkInEndpoint;
+    this.inactivityConfirmationEndpoint = inactivityConfirmationEndpoint;
+  }
+
+  /**
+   * Record that the signed-in user is still here
+   * Returns the IDs of the content whose inactivity triggers were reset.
+   */
+  async checkIn(): Promise<string[]> {
+    return (await this.post(this.checkInEndpoint, {})).reset;
+  }
+
+  /**
+   * Answer a permission request with the token from its link
+   */
+  async answerPermissionRequest(
+    contentId: string,
+    contactId: string,
+    token: string,
+    answer: PermissionAnswer,
+    remindInDays?: number
+  ): Promise<PermissionStatus> {
+    const body = await this.post(this.permissionReplyEndpoint, {
+      content_id: contentId,
+      contact_id: contactId,
+      token,
+      answer,
+      remind_in_days: remindInDays
+    });
+    return body.status;
+  }
+
+  /**
+   * Confirm a creator's inactivity with the token from the confirmation link
+   */
+  async confirmInactivity(contentId: string, contactId: string, token: string): Promise<InactivityPhase> {
+    const body = await this.post(this.inactivityConfirmationEndpoint, {
+      content_id: contentId,
+      contact_id: contactId,
+      token
+    });
+    return body.phase;
+  }
+
+  /**
+   * Post a JSON body and raise API errors
+   */
+  private async post(endpoint: string, payload: object): Promise<any> {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      credentials: 'same-origin',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload)
+    });
+    const body = await response.json();
+    if (!response.ok) {
+      throw new LegacyApiError(body.error || `Legacy request failed (${response.status})`, response.status);
+    }
+    return body;
+  }
+}
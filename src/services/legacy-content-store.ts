@@ -0,0 +1,58 @@
+/**
+ * Legacy content stores
+ * The in-memory store backs tests and the browser; the file-backed store in
+ * file-legacy-content-store.ts keeps schedules across server restarts.
+ */
+
+import { LegacyContent, LegacyContentStore } from '../types/legacy-system';
+
+/**
+ * Volatile legacy content store (content is lost on restart)
+ */
+export class InMemoryLegacyContentStore implements LegacyContentStore {
+  readonly name: string = 'memory';
+  protected contents: Map<string, LegacyContent> = new Map();
+
+  async getLegacyContent(contentId: string): Promise<LegacyContent | null> {
+    return this.contents.get(contentId) || null;
+  }
+
+  async getActiveLegacyContent(): Promise<LegacyContent[]> {
+    return Array.from(this.contents.values()).filter(isActive);
+  }
+
+  async getDueLegacyContent(now: Date): Promise<LegacyContent[]> {
+    return Array.from(this.contents.values())
+      .filter(content =>
+        isActive(content) &&
+        content.trigger.active &&
+        content.trigger.next_evaluation_at !== undefined &&
+        content.trigger.next_evaluation_at <= now
+      )
+      .sort((a, b) => a.trigger.next_evaluation_at!.getTime() - b.trigger.next_evaluation_at!.getTime());
+  }
+
+  async getLegacyContentByCreator(creatorId: string): Promise<LegacyContent[]> {
+    return Array.from(this.contents.values()).filter(content => content.creator_id === creatorId);
+  }
+
+  async getLegacyContentByRecipient(contactId: string): Promise<LegacyContent[]> {
+    return Array.from(this.contents.values())
+      .filter(content => content.recipients.some(recipient => recipient.contact_id === contactId));
+  }
+
+  async saveLegacyContent(content: LegacyContent): Promise<void> {
+    this.contents.set(content.id, content);
+  }
+
+  async deleteLegacyContent(contentId: string): Promise<boolean> {
+    return this.contents.delete(contentId);
+  }
+}
+
+/**
+ * Content the scheduler still works on
+ */
+function isActive(content: LegacyContent): boolean {
+  return content.status === 'scheduled' || content.status === 'active';
+}
@@ -0,0 +1,475 @@
+/**
+ * Delivery channels for "Hälsning till Framtiden" legacy content
+ * Each channel turns a legacy message into an email, SMS, inbox item or
+ * printable letter and returns a receipt for the DeliveryAttempt. Transports
+ * that need Node sockets or the file system live in legacy-delivery-transports.ts.
+ */
+
+import {
+  DeliveryMethod,
+  DeliveryReceipt,
+  LegacyContent,
+  LegacyRecipient
+} from '../types/legacy-system';
+import { createLetterPdf } from './legacy-letter';
+
+/**
+ * Message handed to a delivery channel
+ */
+export interface ChannelMessage {
+  /** The content itself, a request for permission to deliver it, or an inactivity-trigger notice */
+  kind: 'content' | 'permission_request' | 'check_in_reminder' | 'inactivity_confirmation';
+
+  /** Stable key for this recipient and occurrence; channels use it to drop repeats */
+  idempotency_key: string;
+
+  /** Content being delivered */
+  content: LegacyContent;
+
+  /** Recipient of the message */
+  recipient: LegacyRecipient;
+
+  /** Subject line or heading */
+  subject: string;
+
+  /** Plain text body */
+  body: string;
+
+  /** Reply token for a permission request, for channels that can prompt in place */
+  reply_token?: string;
+}
+
+/**
+ * Plugin interface for delivery channels
+ */
+export interface DeliveryChannel {
+  /** Delivery method this channel serves */
+  readonly method: DeliveryMethod;
+
+  /** Send a message, resolving with the channel receipt or rejecting when it was not accepted */
+  deliver(message: ChannelMessage): Promise<DeliveryReceipt>;
+}
+
+/**
+ * Contact addresses needed by external channels
+ * Contact details are encrypted at rest, so the application resolves them on demand.
+ */
+export interface RecipientAddress {
+  /** Display name */
+  name?: string;
+
+  /** Email address */
+  email?: string;
+
+  /** Phone number in E.164 format */
+  phone?: string;
+
+  /** Postal address lines */
+  postal_address?: string[];
+}
+
+/**
+ * Resolves contact IDs to addresses
+ */
+export interface RecipientDirectory {
+  getRecipientAddress(contactId: string): Promise<RecipientAddress | null>;
+}
+
+/**
+ * Error raised when a channel cannot deliver a message
+ */
+export class DeliveryChannelError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeliveryChannelError';
+  }
+}
+
+/**
+ * Envelope for an email transport
+ */
+export interface EmailEnvelope {
+  from: string;
+  to: string[];
+}
+
+/**
+ * Result reported by an email transport
+ */
+export interface EmailTransportResult {
+  /** Recipients the transport accepted */
+  accepted: string[];
+
+  /** Final transport response, e.g. the SMTP reply or the file written */
+  response: string;
+}
+
+/**
+ * Transport that moves a raw RFC 5322 message
+ */
+export interface EmailTransport {
+  readonly name: string;
+  send(envelope: EmailEnvelope, message: string): Promise<EmailTransportResult>;
+}
+
+/**
+ * Options for the email channel
+ */
+export interface EmailChannelOptions {
+  /** Sender address */
+  from: string;
+
+  /** Sender display name */
+  fromName?: string;
+
+  /** Domain used for generated Message-IDs */
+  messageIdDomain?: string;
+}
+
+/**
+ * Email delivery channel
+ * The Message-ID is derived from the idempotency key so mail systems can
+ * recognise a resend of the same occurrence.
+ */
+export class EmailChannel implements DeliveryChannel {
+  readonly method: DeliveryMethod = 'email';
+  private transport: EmailTransport;
+  private directory: RecipientDirectory;
+  private options: EmailChannelOptions;
+
+  constructor(transport: EmailTransport, directory: RecipientDirectory, options: EmailChannelOptions) {
+    this.transport = transport;
+    this.directory = directory;
+    this.options = options;
+  }
+
+  async deliver(message: ChannelMessage): Promise<DeliveryReceipt> {
+    const address = await this.directory.getRecipientAddress(message.recipient.contact_id);
+    if (!address || !address.email) {
+      throw new DeliveryChannelError(`No email address for contact ${message.recipient.contact_id}`);
+    }
+
+    const messageId = `<${encodeIdempotencyKey(message.idempotency_key)}@${this.options.messageIdDomain || 'halsning.local'}>`;
+    const raw = buildEmailMessage({
+      from: formatMailbox(this.options.from, this.options.fromName),
+      to: formatMailbox(address.email, address.name),
+      subject: message.subject,
+      text: message.body,
+      messageId,
+      date: new Date()
+    });
+
+    const result = await this.transport.send({ from: this.options.from, to: [address.email] }, raw);
+    if (result.accepted.indexOf(address.email) === -1) {
+      throw new DeliveryChannelError(`Email transport rejected ${address.email}: ${result.response}`);
+    }
+
+    return {
+      channel: this.method,
+      message_id: messageId,
+      accepted_at: new Date(),
+      details: { transport: this.transport.name, response: result.response }
+    };
+  }
+}
+
+/**
+ * Fields of a plain text email
+ */
+export interface EmailMessageFields {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  messageId: string;
+  date: Date;
+}
+
+/**
+ * Build an RFC 5322 message with a base64 UTF-8 text body
+ */
+export function buildEmailMessage(fields: EmailMessageFields): string {
+  const headers = [
+    `From: ${fields.from}`,
+    `To: ${fields.to}`,
+    `Subject: ${encodeHeader(fields.subject)}`,
+    `Date: ${fields.date.toUTCString()}`,
+    `Message-ID: ${fields.messageId}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64'
+  ];
+  const body = toBase64(new TextEncoder().encode(fields.text)).match(/.{1,76}/g) || [];
+
+  return `${headers.join('\r\n')}\r\n\r\n${body.join('\r\n')}\r\n`;
+}
+
+/**
+ * Email transport that keeps messages in memory, for tests and previews
+ */
+export class InMemoryEmailTransport implements EmailTransport {
+  readonly name = 'memory';
+  readonly sent: Array<{ envelope: EmailEnvelope; message: string }> = [];
+
+  async send(envelope: EmailEnvelope, message: string): Promise<EmailTransportResult> {
+    this.sent.push({ envelope, message });
+    return { accepted: envelope.to.slice(), response: '250 Queued in memory' };
+  }
+}
+
+/**
+ * Result reported by an SMS gateway
+ */
+export interface SmsGatewayResult {
+  /** Gateway message identifier */
+  id: string;
+
+  /** Number of SMS segments billed */
+  segments: number;
+}
+
+/**
+ * Abstraction over SMS providers
+ */
+export interface SmsGateway {
+  readonly name: string;
+
+  /** Send a text; the reference lets the gateway drop duplicates */
+  send(to: string, text: string, reference: string): Promise<SmsGatewayResult>;
+}
+
+/**
+ * SMS delivery channel
+ * Content longer than maxLength is cut off with a pointer to the app, since a
+ * legacy story does not belong in a string of text messages.
+ */
+export class SmsChannel implements DeliveryChannel {
+  readonly method: DeliveryMethod = 'sms';
+  private gateway: SmsGateway;
+  private directory: RecipientDirectory;
+  private maxLength: number;
+
+  constructor(gateway: SmsGateway, directory: RecipientDirectory, maxLength: number = 480) {
+    this.gateway = gateway;
+    this.directory = directory;
+    this.maxLength = maxLength;
+  }
+
+  async deliver(message: ChannelMessage): Promise<DeliveryReceipt> {
+    const address = await this.directory.getRecipientAddress(message.recipient.contact_id);
+    if (!address || !address.phone) {
+      throw new DeliveryChannelError(`No phone number for contact ${message.recipient.contact_id}`);
+    }
+
+    const full = `${message.subject}\n\n${message.body}`;
+    const suffix = '… Läs hela meddelandet i appen.';
+    const text = full.length > this.maxLength
+      ? full.slice(0, this.maxLength - suffix.length) + suffix
+      : full;
+
+    const result = await this.gateway.send(address.phone, text, message.idempotency_key);
+
+    return {
+      channel: this.method,
+      message_id: result.id,
+      accepted_at: new Date(),
+      details: { gateway: this.gateway.name, segments: result.segments, truncated: text === full ? 0 : 1 }
+    };
+  }
+}
+
+/**
+ * Offline SMS gateway that records messages instead of sending them
+ */
+export class FakeSmsGateway implements SmsGateway {
+  readonly name = 'fake';
+  readonly messages: Array<{ id: string; to: string; text: string; reference: string }> = [];
+  private nextId = 1;
+
+  async send(to: string, text: string, reference: string): Promise<SmsGatewayResult> {
+    const existing = this.messages.filter(message => message.reference === reference)[0];
+    const segments = countSmsSegments(text);
+    if (existing) {
+      return { id: existing.id, segments };
+    }
+
+    const id = `sms_${this.nextId++}`;
+    this.messages.push({ id, to, text, reference });
+    return { id, segments };
+  }
+}
+
+/**
+ * Number of SMS segments for a text (GSM-7 when possible, otherwise UCS-2)
+ */
+export function countSmsSegments(text: string): number {
+  const gsm = /^[A-Za-z0-9 \r\n@£$¥èéùìòÇØøÅåÄäÖöÑñÜüß_!"#%&'()*+,\-.\/:;<=>?¡¿§ÆæÉ]*$/.test(text);
+  const single = gsm ? 160 : 70;
+  const multi = gsm ? 153 : 67;
+  return text.length <= single ? 1 : Math.ceil(text.length / multi);
+}
+
+/**
+ * Item in a recipient's in-app inbox
+ */
+export interface InboxItem {
+  id: string;
+  contact_id: string;
+  content_id: string;
+  kind: ChannelMessage['kind'];
+  subject: string;
+  body: string;
+  reply_token?: string;
+  received_at: Date;
+  read_at?: Date;
+}
+
+/**
+ * In-app inbox channel
+ * Re-delivering the same idempotency key returns the existing item.
+ */
+export class InAppInboxChannel implements DeliveryChannel {
+  readonly method: DeliveryMethod = 'in_app_notification';
+  private items: Map<string, InboxItem> = new Map();
+
+  async deliver(message: ChannelMessage): Promise<DeliveryReceipt> {
+    let item = this.items.get(message.idempotency_key);
+
+    if (!item) {
+      item = {
+        id: `inbox_${message.idempotency_key}`,
+        contact_id: message.recipient.contact_id,
+        content_id: message.content.id,
+        kind: message.kind,
+        subject: message.subject,
+        body: message.body,
+        reply_token: message.reply_token,
+        received_at: new Date()
+      };
+      this.items.set(message.idempotency_key, item);
+    }
+
+    return {
+      channel: this.method,
+      message_id: item.id,
+      accepted_at: item.received_at,
+      details: { inbox: item.contact_id }
+    };
+  }
+
+  /**
+   * Inbox of a contact, newest first
+   */
+  getInbox(contactId: string): InboxItem[] {
+    return Array.from(this.items.values())
+      .filter(item => item.contact_id === contactId)
+      .sort((a, b) => b.received_at.getTime() - a.received_at.getTime());
+  }
+
+  /**
+   * Mark an inbox item as read
+   */
+  markAsRead(itemId: string): boolean {
+    const item = Array.from(this.items.values()).filter(candidate => candidate.id === itemId)[0];
+    if (!item) {
+      return false;
+    }
+    item.read_at = item.read_at || new Date();
+    return true;
+  }
+}
+
+/**
+ * Destination for generated letters, e.g. a print queue
+ */
+export interface LetterSink {
+  readonly name: string;
+
+  /** Store a letter, returning where it was put; the same file name replaces the earlier letter */
+  store(fileName: string, pdf: Uint8Array): Promise<string>;
+}
+
+/**
+ * Letter sink that keeps PDFs in memory
+ */
+export class InMemoryLetterSink implements LetterSink {
+  readonly name = 'memory';
+  readonly letters: Map<string, Uint8Array> = new Map();
+
+  async store(fileName: string, pdf: Uint8Array): Promise<string> {
+    this.letters.set(fileName, pdf);
+    return `memory:${fileName}`;
+  }
+}
+
+/**
+ * Printable letter channel
+ * Generates a PDF addressed to the recipient's postal address for someone to print and post.
+ */
+export class PrintedLetterChannel implements DeliveryChannel {
+  readonly method: DeliveryMethod = 'printed_letter';
+  private sink: LetterSink;
+  private directory: RecipientDirectory;
+
+  constructor(sink: LetterSink, directory: RecipientDirectory) {
+    this.sink = sink;
+    this.directory = directory;
+  }
+
+  async deliver(message: ChannelMessage): Promise<DeliveryReceipt> {
+    const address = await this.directory.getRecipientAddress(message.recipient.contact_id);
+    if (!address || !address.postal_address || address.postal_address.length === 0) {
+      throw new DeliveryChannelError(`No postal address for contact ${message.recipient.contact_id}`);
+    }
+
+    const letter = createLetterPdf({
+      address: address.name ? [address.name].concat(address.postal_address) : address.postal_address,
+      title: message.subject,
+      body: message.body
+    });
+    const fileName = `${encodeIdempotencyKey(message.idempotency_key)}.pdf`;
+    const location = await this.sink.store(fileName, letter.pdf);
+
+    return {
+      channel: this.method,
+      message_id: fileName,
+      accepted_at: new Date(),
+      details: { sink: this.sink.name, location, pages: letter.pages, bytes: letter.pdf.length }
+    };
+  }
+}
+
+/**
+ * Idempotency key made safe for Message-IDs and file names
+ */
+function encodeIdempotencyKey(key: string): string {
+  return key.replace(/[^A-Za-z0-9._-]/g, '_');
+}
+
+/**
+ * Mailbox with an optional display name
+ */
+function formatMailbox(email: string, name?: string): string {
+  return name ? `${encodeHeader(name)} <${email}>` : email;
+}
+
+/**
+ * RFC 2047 encoded word for non-ASCII header text
+ */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${toBase64(new TextEncoder().encode(value))}?=`;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  if (typeof Buffer !== 'undefined') {
+    return Buffer.from(bytes).toString('base64');
+  }
+
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
@@ -0,0 +1,264 @@
+/**
+ * Server-side transports for legacy delivery channels (server-side only)
+ * SMTP over plain TCP or implicit TLS, plus file-drop stand-ins that let the
+ * whole delivery path run offline.
+ */
+
+import { promises as fs } from 'fs';
+import net from 'net';
+import tls from 'tls';
+import path from 'path';
+import {
+  EmailEnvelope,
+  EmailTransport,
+  EmailTransportResult,
+  LetterSink
+} from './legacy-delivery-channels';
+
+/**
+ * SMTP connection settings
+ */
+export interface SmtpTransportOptions {
+  host: string;
+  port: number;
+
+  /** Connect with implicit TLS (port 465) */
+  secure?: boolean;
+
+  /** Credentials for AUTH PLAIN */
+  username?: string;
+  password?: string;
+
+  /** Name announced in EHLO */
+  clientName?: string;
+
+  /** Socket timeout in milliseconds */
+  timeoutMs?: number;
+}
+
+/**
+ * Minimal SMTP client transport
+ * Opens one connection per message. Recipients refused at RCPT TO are left out
+ * of the accepted list instead of failing the whole message.
+ */
+export class SmtpTransport implements EmailTransport {
+  readonly name = 'smtp';
+  private options: SmtpTransportOptions;
+
+  constructor(options: SmtpTransportOptions) {
+    this.options = options;
+  }
+
+  async send(envelope: EmailEnvelope, message: string): Promise<EmailTransportResult> {
+    const session = await SmtpSession.open(this.options);
+
+    try {
+      await session.expect(220);
+      await session.command(`EHLO ${this.options.clientName || 'localhost'}`, 250);
+
+      if (this.options.username) {
+        const credentials = Buffer.from(`\0${this.options.username}\0${this.options.password || ''}`).toString('base64');
+        await session.command(`AUTH PLAIN ${credentials}`, 235);
+      }
+
+      await session.command(`MAIL FROM:<${envelope.from}>`, 250);
+
+      const accepted: string[] = [];
+      for (const recipient of envelope.to) {
+        const reply = await session.command(`RCPT TO:<${recipient}>`);
+        if (reply.code === 250 || reply.code === 251) {
+          accepted.push(recipient);
+        }
+      }
+      if (accepted.length === 0) {
+        await session.command('QUIT');
+        return { accepted, response: 'No recipients accepted' };
+      }
+
+      await session.command('DATA', 354);
+      const reply = await session.command(`${dotStuff(message)}\r\n.`, 250);
+      await session.command('QUIT');
+
+      return { accepted, response: `${reply.code} ${reply.text}` };
+    } finally {
+      session.close();
+    }
+  }
+}
+
+/**
+ * SMTP stand-in that drops each message into a directory as an .eml file
+ */
+export class FileDropSmtpSink implements EmailTransport {
+  readonly name = 'file-drop';
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async send(envelope: EmailEnvelope, message: string): Promise<EmailTransportResult> {
+    const messageId = /^Message-ID: <([^>]+)>/m.exec(message);
+    const fileName = `${messageId ? messageId[1] : Date.now().toString(36)}.eml`;
+    const filePath = path.join(this.directory, fileName);
+    const headers = `X-Envelope-From: ${envelope.from}\r\nX-Envelope-To: ${envelope.to.join(', ')}\r\n`;
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(filePath, headers + message, 'utf8');
+
+    return { accepted: envelope.to.slice(), response: `250 Dropped ${fileName}` };
+  }
+}
+
+/**
+ * Letter sink that writes PDFs into a print queue directory
+ */
+export class FileLetterSink implements LetterSink {
+  readonly name = 'file';
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async store(fileName: string, pdf: Uint8Array): Promise<string> {
+    const filePath = path.join(this.directory, fileName);
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(filePath, pdf);
+    return filePath;
+  }
+}
+
+/**
+ * SMTP reply
+ */
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+/**
+ * One SMTP conversation over a socket
+ */
+class SmtpSession {
+  private socket: net.Socket;
+  private buffer = '';
+  private lines: string[] = [];
+  private waiting: ((reply: SmtpReply) => void) | null = null;
+  private failure: ((error: Error) => void) | null = null;
+  private error: Error | null = null;
+
+  private constructor(socket: net.Socket, timeoutMs: number) {
+    this.socket = socket;
+    socket.setEncoding('utf8');
+    socket.setTimeout(timeoutMs);
+    socket.on('data', (chunk: string) => this.receive(chunk));
+    socket.on('timeout', () => this.fail(new Error('SMTP connection timed out')));
+    socket.on('error', error => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  static open(options: SmtpTransportOptions): Promise<SmtpSession> {
+    return new Promise((resolve, reject) => {
+      const onConnect = () => {
+        socket.removeListener('error', reject);
+        resolve(new SmtpSession(socket, options.timeoutMs ?? 30000));
+      };
+      const socket: net.Socket = options.secure
+        ? tls.connect({ host: options.host, port: options.port, servername: options.host }, onConnect)
+        : net.connect({ host: options.host, port: options.port }, onConnect);
+      socket.once('error', reject);
+    });
+  }
+
+  /**
+   * Wait for the next reply, optionally requiring a code
+   */
+  async expect(code?: number): Promise<SmtpReply> {
+    const reply = await new Promise<SmtpReply>((resolve, reject) => {
+      if (this.error) {
+        reject(this.error);
+        return;
+      }
+      this.waiting = resolve;
+      this.failure = reject;
+      this.deliverReply();
+    });
+
+    if (code !== undefined && reply.code !== code) {
+      throw new Error(`SMTP error: expected ${code}, got ${reply.code} ${reply.text}`);
+    }
+    return reply;
+  }
+
+  /**
+   * Send a command and read its reply
+   */
+  async command(line: string, code?: number): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(code);
+  }
+
+  close(): void {
+    this.socket.removeAllListeners('close');
+    this.socket.end();
+    this.socket.destroy();
+  }
+
+  private receive(chunk: string): void {
+    this.buffer += chunk;
+    let index = this.buffer.indexOf('\r\n');
+    while (index !== -1) {
+      this.lines.push(this.buffer.slice(0, index));
+      this.buffer = this.buffer.slice(index + 2);
+      index = this.buffer.indexOf('\r\n');
+    }
+    this.deliverReply();
+  }
+
+  /**
+   * Hand a complete (possibly multi-line) reply to the waiting caller
+   */
+  private deliverReply(): void {
+    if (!this.waiting) {
+      return;
+    }
+
+    const last = this.lines.findIndex(line => /^\d{3}( |$)/.test(line));
+    if (last === -1) {
+      return;
+    }
+
+    const replyLines = this.lines.splice(0, last + 1);
+    const resolve = this.waiting;
+    this.waiting = null;
+    this.failure = null;
+    resolve({
+      code: parseInt(replyLines[last].slice(0, 3), 10),
+      text: replyLines.map(line => line.slice(4)).join('\n')
+    });
+  }
+
+  private fail(error: Error): void {
+    this.error = this.error || error;
+    if (this.failure) {
+      const reject = this.failure;
+      this.waiting = null;
+      this.failure = null;
+      reject(error);
+    }
+  }
+}
+
+/**
+ * Normalise line endings and escape lines starting with a dot (RFC 5321 section 4.5.2)
+ */
+function dotStuff(message: string): string {
+  return message
+    .replace(/\r?\n/g, '\r\n')
+    .replace(/\r\n$/, '')
+    .split('\r\n')
+    .map(line => line.charAt(0) === '.' ? `.${line}` : line)
+    .join('\r\n');
+}
@@ -0,0 +1,361 @@
+/**
+ * Event-based legacy triggers
+ * Turns domain events and profile dates into legacy events, matches them
+ * against event-based triggers and queues the matches on the trigger, where
+ * the LegacyScheduler picks them up once delay_after_event has passed.
+ */
+
+import {
+  EventBasedTriggerConfig,
+  EventCriteria,
+  LegacyContent,
+  LegacyContentStore,
+  LegacyEvent,
+  MatchedTriggerEvent
+} from '../types/legacy-system';
+import { User } from '../types/data-models';
+import { AnyDomainEvent } from '../types/domain-events';
+import { DomainEventBus, domainEventBus } from '../lib/events/domain-event-bus';
+import { UserRepository, userRepository as defaultUserRepository } from '../lib/data/user-repository';
+import { matchesCriterionValue } from '../lib/value-utils';
+import { addDelay, startOfLocalDay } from './legacy-recurrence';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Criteria keys that are matched against a differently named event detail */
+const CRITERIA_DETAILS: Record<string, string> = {
+  target_age: 'age'
+};
+
+/**
+ * Legacy events carried by a domain event
+ */
+export function toLegacyEvents(event: AnyDomainEvent): LegacyEvent[] {
+  switch (event.type) {
+    case 'user.logged_in':
+      return event.payload.first_login
+        ? [{
+            id: `first_login:${event.payload.user_id}`,
+            type: 'first_login',
+            subject_ids: [event.payload.user_id],
+            occurred_at: event.occurred_at,
+            details: {}
+          }]
+        : [];
+
+    case 'user.life_event_recorded': {
+      const lifeEvent = event.payload.life_event;
+      return [{
+        id: `${lifeEvent.type}:${lifeEvent.id}`,
+        type: lifeEvent.type,
+        subject_ids: [event.payload.user_id],
+        occurred_at: lifeEvent.occurred_at,
+        details: lifeEvent.details
+      }];
+    }
+
+    case 'project.completed': {
+      const project = event.payload.project;
+      const collaborators = project.collaborators
+        .filter(c => c.status === 'accepted' && c.user_id !== project.owner_id)
+        .map(c => c.user_id);
+      return [{
+        id: `project_completion:${project.id}`,
+        type: 'project_completion',
+        subject_ids: [project.owner_id].concat(collaborators),
+        occurred_at: event.occurred_at,
+        details: { project_id: project.id, project_type: project.type }
+      }];
+    }
+
+    case 'reflection.created': {
+      const reflection = event.payload.reflection;
+      return [{
+        id: `memory_creation:${reflection.id}`,
+        type: 'memory_creation',
+        subject_ids: [reflection.user_id],
+        occurred_at: event.occurred_at,
+        details: { memory_id: reflection.id, memory_theme: reflection.tags }
+      }];
+    }
+
+    case 'memory_link.discovered': {
+      const link = event.payload.link;
+      return [{
+        id: `memory_creation:${link.id}`,
+        type: 'memory_creation',
+        subject_ids: link.participants.slice(),
+        occurred_at: event.occurred_at,
+        details: { memory_id: link.id, memory_theme: [link.sharedThemeId] }
+      }];
+    }
+
+    default:
+      return [];
+  }
+}
+
+/**
+ * Birthdays, milestone ages and anniversaries from a user's profile dates
+ * Returns the events whose local day starts after `from` and no later than `to`.
+ * Someone born on 29 February celebrates on 28 February in other years.
+ */
+export function deriveProfileEvents(user: User, from: Date, to: Date): LegacyEvent[] {
+  const profile = user.profile;
+  const events: LegacyEvent[] = [];
+
+  if (profile.birth_date) {
+    const birth = profile.birth_date;
+    forEachYearlyDate(birth, profile.timezone, from, to, (year, date) => {
+      const age = year - birth.getUTCFullYear();
+      events.push({
+        id: `birthday:${user.id}:${year}`,
+        type: 'birthday',
+        subject_ids: [user.id],
+        occurred_at: date,
+        details: { age }
+      });
+      events.push({
+        id: `milestone_age:${user.id}:${age}`,
+        type: 'milestone_age',
+        subject_ids: [user.id],
+        occurred_at: date,
+        details: { age }
+      });
+    });
+  }
+
+  (profile.anniversaries || []).forEach(anniversary => {
+    const original = anniversary.date;
+    forEachYearlyDate(original, profile.timezone, from, to, (year, date) => {
+      events.push({
+        id: `anniversary:${user.id}:${anniversary.anniversary_type}:${year}`,
+        type: 'anniversary',
+        subject_ids: [user.id],
+        occurred_at: date,
+        details: { anniversary_type: anniversary.anniversary_type, years: year - original.getUTCFullYear() }
+      });
+    });
+  });
+
+  return events.sort((a, b) => a.occurred_at.getTime() - b.occurred_at.getTime());
+}
+
+/**
+ * Whether an event satisfies a trigger's criteria
+ * Every criterion must equal the event detail of the same name, or be one of
+ * its values when the detail is a list. Strings compare case-insensitively.
+ */
+export function matchesEventCriteria(criteria: EventCriteria, event: LegacyEvent): boolean {
+  return Object.keys(criteria || {}).every(key => {
+    const expected = criteria[key];
+    if (expected === undefined || expected === null) {
+      return true;
+    }
+    if (key === 'subject_id') {
+      return event.subject_ids.indexOf(expected) !== -1;
+    }
+
+    const actual = event.details[CRITERIA_DETAILS[key] || key];
+    if (actual === undefined) {
+      return false;
+    }
+    return matchesCriterionValue(actual, expected);
+  });
+}
+
+/**
+ * Matcher options
+ */
+export interface LegacyEventMatcherOptions {
+  /** How often profile dates are checked for birthdays and anniversaries while running */
+  profileCheckIntervalMs?: number;
+}
+
+/**
+ * Matches legacy events against event-based triggers
+ * A match is recorded on the trigger with its due time and brings the
+ * trigger's next evaluation forward. Event ids are stable, so the same event
+ * seen twice is only queued once.
+ */
+export class LegacyEventMatcher {
+  private store: LegacyContentStore;
+  private events: DomainEventBus;
+  private users: UserRepository;
+  private profileCheckIntervalMs: number;
+  private unsubscribe: (() => void) | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private lastProfileCheckAt: Date | null = null;
+
+  constructor(
+    store: LegacyContentStore,
+    events: DomainEventBus = domainEventBus,
+    users: UserRepository = defaultUserRepository,
+    options: LegacyEventMatcherOptions = {}
+  ) {
+    this.store = store;
+    this.events = events;
+    this.users = users;
+    this.profileCheckIntervalMs = options.profileCheckIntervalMs ?? 60 * 60 * 1000;
+  }
+
+  /**
+   * Subscribe to domain events and start checking profile dates
+   */
+  start(): void {
+    if (!this.unsubscribe) {
+      this.unsubscribe = this.events.subscribeAll(async event => {
+        await this.handleDomainEvent(event);
+      });
+    }
+
+    if (!this.timer) {
+      this.timer = setInterval(() => {
+        this.checkProfileDates().catch(error => {
+          console.error('Legacy profile date check failed:', error);
+        });
+      }, this.profileCheckIntervalMs);
+    }
+  }
+
+  /**
+   * Unsubscribe and stop checking profile dates
+   */
+  stop(): void {
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Whether the matcher is listening
+   */
+  isRunning(): boolean {
+    return this.unsubscribe !== null;
+  }
+
+  /**
+   * Match the legacy events carried by a domain event
+   */
+  async handleDomainEvent(event: AnyDomainEvent): Promise<MatchedTriggerEvent[]> {
+    const matched: MatchedTriggerEvent[] = [];
+    for (const legacyEvent of toLegacyEvents(event)) {
+      matched.push(...await this.enqueue(legacyEvent));
+    }
+    return matched;
+  }
+
+  /**
+   * Match profile-date events of every user since the previous check (or the past day on the first check)
+   */
+  async checkProfileDates(now: Date = new Date()): Promise<MatchedTriggerEvent[]> {
+    const from = this.lastProfileCheckAt || new Date(now.getTime() - DAY_MS);
+    this.lastProfileCheckAt = now;
+
+    const matched: MatchedTriggerEvent[] = [];
+    for (const user of await this.users.getAllUsers()) {
+      for (const legacyEvent of deriveProfileEvents(user, from, now)) {
+        matched.push(...await this.enqueue(legacyEvent));
+      }
+    }
+    return matched;
+  }
+
+  /**
+   * Queue an event on every active event-based trigger it matches
+   */
+  async enqueue(event: LegacyEvent): Promise<MatchedTriggerEvent[]> {
+    const matched: MatchedTriggerEvent[] = [];
+
+    for (const content of await this.store.getActiveLegacyContent()) {
+      const trigger = content.trigger;
+      if (trigger.type !== 'event_based' || !trigger.active) {
+        continue;
+      }
+
+      const config = trigger.config as EventBasedTriggerConfig;
+      const previous = trigger.matched_events || [];
+      if (config.event_type !== event.type ||
+          !matchesEventCriteria(config.criteria, event) ||
+          previous.some(match => match.event_id === event.id)) {
+        continue;
+      }
+
+      const recipientIds = this.releasedRecipients(content, config.criteria, event);
+      if (recipientIds.length === 0) {
+        continue;
+      }
+
+      const match: MatchedTriggerEvent = {
+        event_id: event.id,
+        event_type: event.type,
+        subject_id: config.criteria.subject_id || this.recipientSubject(content, event),
+        occurred_at: event.occurred_at,
+        deliver_at: addDelay(event.occurred_at, config.delay_after_event),
+        recipient_ids: recipientIds
+      };
+
+      trigger.matched_events = previous.concat(match);
+      if (!trigger.next_evaluation_at || trigger.next_evaluation_at > match.deliver_at) {
+        trigger.next_evaluation_at = match.deliver_at;
+      }
+      content.updated_at = new Date();
+
+      await this.store.saveLegacyContent(content);
+      matched.push(match);
+    }
+
+    return matched;
+  }
+
+  /**
+   * Recipients an event releases the content to
+   * An event of the criteria's subject releases it to everyone; otherwise
+   * each recipient is released by their own events.
+   */
+  private releasedRecipients(content: LegacyContent, criteria: EventCriteria, event: LegacyEvent): string[] {
+    if (criteria.subject_id) {
+      return content.recipients.map(recipient => recipient.contact_id);
+    }
+
+    return content.recipients
+      .filter(recipient => event.subject_ids.indexOf(recipient.user_id || recipient.contact_id) !== -1)
+      .map(recipient => recipient.contact_id);
+  }
+
+  private recipientSubject(content: LegacyContent, event: LegacyEvent): string {
+    const subjects = content.recipients.map(recipient => recipient.user_id || recipient.contact_id);
+    return event.subject_ids.filter(id => subjects.indexOf(id) !== -1)[0];
+  }
+}
+
+/**
+ * Call back with each yearly recurrence of a date whose local day starts in (from, to]
+ */
+function forEachYearlyDate(
+  original: Date,
+  timeZone: string,
+  from: Date,
+  to: Date,
+  callback: (year: number, date: Date) => void
+): void {
+  const month = original.getUTCMonth() + 1;
+  const day = original.getUTCDate();
+
+  for (let year = from.getUTCFullYear() - 1; year <= to.getUTCFullYear() + 1; year++) {
+    if (year <= original.getUTCFullYear()) {
+      continue;
+    }
+
+    const leapDay = month === 2 && day === 29 && new Date(Date.UTC(year, 1, 29)).getUTCMonth() !== 1;
+    const date = startOfLocalDay(year, month, leapDay ? 28 : day, timeZone);
+    if (date > from && date <= to) {
+      callback(year, date);
+    }
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Inactivity ("dead man's switch") triggers for the digital testament
+ * Pure timing rules for when a creator's missed check-in leads to reminders,
+ * trusted-contact confirmation and, after a cancellation window, release. The
+ * LegacySystemService sends the messages and persists the state.
+ */
+
+import { InactivityState, InactivityTriggerConfig } from '../types/legacy-system';
+import { addDelay } from './legacy-recurrence';
+
+/**
+ * Thrown when an inactivity trigger configuration cannot work
+ */
+export class InactivityTriggerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InactivityTriggerError';
+  }
+}
+
+/**
+ * Reject configurations that could never release or would skip a reminder
+ */
+export function validateInactivityConfig(config: InactivityTriggerConfig): void {
+  const start = new Date(0);
+  const trustedIds = config.trusted_contacts.map(contact => contact.contact_id);
+
+  if (config.check_in_interval.amount <= 0) {
+    throw new InactivityTriggerError('Check-in interval must be positive');
+  }
+  if (trustedIds.some((id, i) => trustedIds.indexOf(id) !== i)) {
+    throw new InactivityTriggerError('Trusted contacts must be distinct');
+  }
+  if (!Number.isInteger(config.required_confirmations) ||
+      config.required_confirmations < 1 ||
+      config.required_confirmations > trustedIds.length) {
+    throw new InactivityTriggerError(
+      `Required confirmations must be between 1 and the ${trustedIds.length} trusted contacts`
+    );
+  }
+
+  const confirmationAt = addDelay(start, config.confirmation_after);
+  let previous = -1;
+  config.reminders.forEach(reminder => {
+    const at = addDelay(start, reminder.after).getTime();
+    if (at <= previous || at >= confirmationAt.getTime()) {
+      throw new InactivityTriggerError('Reminders must be in ascending order and come before trusted contacts are asked');
+    }
+    previous = at;
+  });
+}
+
+/**
+ * Fresh state for a check-in
+ */
+export function createInactivityState(config: InactivityTriggerConfig, checkInAt: Date): InactivityState {
+  const state: InactivityState = {
+    phase: 'watching',
+    last_check_in_at: checkInAt,
+    reminders_sent: 0,
+    confirmations: []
+  };
+  state.next_step_at = getNextInactivityStep(config, state);
+  return state;
+}
+
+/**
+ * When the creator's check-in becomes overdue
+ */
+export function getCheckInDueAt(config: InactivityTriggerConfig, state: InactivityState): Date {
+  return addDelay(state.last_check_in_at, config.check_in_interval);
+}
+
+/**
+ * Index of the latest reminder due at a time that has not been sent, or -1
+ * After downtime only the latest due reminder is sent; earlier ones are passed over.
+ */
+export function getDueReminderIndex(config: InactivityTriggerConfig, state: InactivityState, now: Date): number {
+  const dueAt = getCheckInDueAt(config, state);
+  let index = -1;
+
+  for (let i = state.reminders_sent; i < config.reminders.length; i++) {
+    if (addDelay(dueAt, config.reminders[i].after) <= now) {
+      index = i;
+    }
+  }
+  return index;
+}
+
+/**
+ * When trusted contacts are asked to confirm
+ */
+export function getConfirmationRequestAt(config: InactivityTriggerConfig, state: InactivityState): Date {
+  return addDelay(getCheckInDueAt(config, state), config.confirmation_after);
+}
+
+/**
+ * Trusted contacts who have confirmed
+ */
+export function countConfirmations(state: InactivityState): number {
+  return state.confirmations.filter(confirmation => !!confirmation.confirmed_at).length;
+}
+
+/**
+ * When the trigger next has something to do, or undefined while it waits on trusted contacts
+ */
+export function getNextInactivityStep(config: InactivityTriggerConfig, state: InactivityState): Date | undefined {
+  switch (state.phase) {
+    case 'watching':
+    case 'reminding': {
+      const dueAt = getCheckInDueAt(config, state);
+      return state.reminders_sent < config.reminders.length
+        ? addDelay(dueAt, config.reminders[state.reminders_sent].after)
+        : getConfirmationRequestAt(config, state);
+    }
+
+    case 'cancellation_window':
+      return state.release_at;
+
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Printable letter generation for legacy content
+ * Writes a minimal PDF 1.4 document with the built-in Helvetica font, which
+ * keeps letter generation dependency-free. Text is encoded as WinAnsi, so
+ * Swedish characters print correctly; characters outside it become "?".
+ */
+
+/**
+ * Letter layout input
+ */
+export interface LetterInput {
+  /** Address block lines */
+  address: string[];
+
+  /** Letter heading */
+  title: string;
+
+  /** Letter text; blank lines separate paragraphs */
+  body: string;
+}
+
+/**
+ * Generated letter
+ */
+export interface LetterDocument {
+  pdf: Uint8Array;
+  pages: number;
+}
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 72;
+const FONT_SIZE = 11;
+const LINE_HEIGHT = 15;
+const CHARS_PER_LINE = 86;
+const LINES_PER_PAGE = Math.floor((PAGE_HEIGHT - 2 * MARGIN) / LINE_HEIGHT);
+
+/**
+ * Lay out a letter and render it as PDF
+ */
+export function createLetterPdf(input: LetterInput): LetterDocument {
+  const lines = input.address
+    .concat(['', '', input.title, ''])
+    .concat(...input.body.split(/\r?\n/).map(paragraph => wrapLine(paragraph)));
+
+  const pages: string[][] = [];
+  for (let i = 0; i < lines.length; i += LINES_PER_PAGE) {
+    pages.push(lines.slice(i, i + LINES_PER_PAGE));
+  }
+
+  const objects: string[] = [];
+  const pageIds = pages.map((_, index) => 4 + index * 2);
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+
+  pages.forEach((pageLines, index) => {
+    const pageId = pageIds[index];
+    const stream = renderPage(pageLines, index === 0 ? input.address.length + 2 : -1);
+
+    objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+  });
+
+  let output = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+  const offsets: number[] = [];
+
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = output.length;
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    output += `${pad(offsets[id])} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return { pdf: toLatin1Bytes(output), pages: pages.length };
+}
+
+/**
+ * Content stream for one page; the heading line is set in a larger size on the first page
+ */
+function renderPage(lines: string[], headingLine: number): string {
+  const commands = ['BT', `/F1 ${FONT_SIZE} Tf`, `${LINE_HEIGHT} TL`, `${MARGIN} ${PAGE_HEIGHT - MARGIN} Td`];
+
+  lines.forEach((line, index) => {
+    const heading = index === headingLine;
+    if (heading) {
+      commands.push(`/F1 ${FONT_SIZE + 3} Tf`);
+    }
+    commands.push(`(${escapePdfText(line)}) Tj T*`);
+    if (heading) {
+      commands.push(`/F1 ${FONT_SIZE} Tf`);
+    }
+  });
+
+  commands.push('ET');
+  return commands.join('\n');
+}
+
+/**
+ * Break a paragraph into lines at word boundaries
+ */
+function wrapLine(paragraph: string): string[] {
+  if (paragraph.length <= CHARS_PER_LINE) {
+    return [paragraph];
+  }
+
+  const lines: string[] = [];
+  let current = '';
+
+  paragraph.split(/\s+/).forEach(word => {
+    while (word.length > CHARS_PER_LINE) {
+      if (current) {
+        lines.push(current);
+        current = '';
+      }
+      lines.push(word.slice(0, CHARS_PER_LINE));
+      word = word.slice(CHARS_PER_LINE);
+    }
+
+    if (!current) {
+      current = word;
+    } else if (current.length + 1 + word.length <= CHARS_PER_LINE) {
+      current += ` ${word}`;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+  });
+
+  if (current) {
+    lines.push(current);
+  }
+  return lines;
+}
+
+/**
+ * Escape a string for a PDF literal, replacing characters outside WinAnsi
+ */
+function escapePdfText(text: string): string {
+  return text
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+    .replace(/([\\()])/g, '\\$1');
+}
+
+function pad(offset: number): string {
+  return ('0000000000' + offset).slice(-10);
+}
+
+function toLatin1Bytes(text: string): Uint8Array {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    bytes[i] = text.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+}
@@ -0,0 +1,200 @@
+/**
+ * Query-based legacy triggers
+ * Scores what a recipient asks against the query patterns of content left for
+ * them, so the conversation can bring the content up when the question comes.
+ */
+
+import {
+  ContextRequirement,
+  LegacyContentStore,
+  LegacyQueryMatch,
+  LegacyRecipient,
+  QueryBasedTriggerConfig,
+  QueryContext,
+  QueryPattern
+} from '../types/legacy-system';
+import { EmbeddingProvider } from '../types/memory';
+import { HashedNgramEmbeddingProvider } from '../lib/memory/embedding-provider';
+import { cosineSimilarity, matchesCriterionValue } from '../lib/value-utils';
+
+/**
+ * Score of one non-semantic pattern against a question, 0 or 1
+ */
+export function scoreTextPattern(pattern: QueryPattern, text: string): number {
+  const fold = (value: string) => pattern.case_sensitive ? value : value.toLowerCase();
+
+  switch (pattern.type) {
+    case 'exact':
+      return normalizeQuestion(fold(text)) === normalizeQuestion(fold(pattern.pattern)) ? 1 : 0;
+
+    case 'contains':
+      return fold(text).indexOf(fold(pattern.pattern)) !== -1 ? 1 : 0;
+
+    case 'regex':
+      try {
+        return new RegExp(pattern.pattern, pattern.case_sensitive ? '' : 'i').test(text) ? 1 : 0;
+      } catch (error) {
+        return 0; // An invalid pattern never matches
+      }
+
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Combine per-pattern scores into one confidence
+ * Patterns are alternatives: each contributes its score scaled by its weight
+ * relative to the heaviest pattern, and the contributions add up as
+ * independent evidence (1 - ∏(1 - s·w)). One full match on the heaviest
+ * pattern gives 1; weaker matches on several patterns reinforce each other.
+ */
+export function combinePatternScores(patterns: QueryPattern[], scores: number[]): number {
+  const maxWeight = Math.max.apply(null, patterns.map(p => p.weight).concat(0));
+  if (maxWeight <= 0) {
+    return 0;
+  }
+
+  const miss = patterns.reduce((product, pattern, i) => {
+    const evidence = Math.max(0, Math.min(1, scores[i])) * Math.max(0, pattern.weight) / maxWeight;
+    return product * (1 - evidence);
+  }, 1);
+
+  return 1 - miss;
+}
+
+/**
+ * Whether the circumstances of a question meet every context requirement
+ */
+export function meetsContextRequirements(
+  requirements: ContextRequirement[] | undefined,
+  context: QueryContext
+): boolean {
+  return (requirements || []).every(requirement => {
+    const criteria = requirement.criteria || {};
+
+    switch (requirement.type) {
+      case 'user_state':
+        return !!context.user_state && withinBounds(criteria, {
+          fight: context.user_state.fight,
+          flight: context.user_state.flight,
+          fixes: context.user_state.fixes,
+          confidence: context.user_state.confidence
+        });
+
+      case 'time_of_day':
+        return withinHours(criteria, context.asked_at);
+
+      case 'location':
+      case 'recent_activity': {
+        const values = context[requirement.type];
+        return !!values && Object.keys(criteria).every(key => matchesCriterionValue(values[key], criteria[key]));
+      }
+
+      default:
+        return false;
+    }
+  });
+}
+
+/**
+ * Finds legacy content whose query-based trigger matches a recipient's question
+ * Semantic patterns are scored by cosine similarity of embeddings; pattern
+ * embeddings are cached because the same triggers are checked on every question.
+ */
+export class LegacyQueryMatcher {
+  private store: LegacyContentStore;
+  private embeddings: EmbeddingProvider;
+  private patternEmbeddings: Map<string, number[]> = new Map();
+
+  constructor(store: LegacyContentStore, embeddings: EmbeddingProvider = new HashedNgramEmbeddingProvider()) {
+    this.store = store;
+    this.embeddings = embeddings;
+  }
+
+  /**
+   * Active query-based content for the user that the question matches, best match first
+   */
+  async match(userId: string, text: string, context: QueryContext): Promise<LegacyQueryMatch[]> {
+    const matches: LegacyQueryMatch[] = [];
+    let questionEmbedding: number[] | null = null;
+
+    for (const content of await this.store.getActiveLegacyContent()) {
+      const trigger = content.trigger;
+      if (trigger.type !== 'query_based' || !trigger.active) {
+        continue;
+      }
+
+      const recipient = content.recipients.filter(r => (r.user_id || r.contact_id) === userId)[0];
+      const config = trigger.config as QueryBasedTriggerConfig;
+      if (!recipient || !this.canReceive(recipient) || !meetsContextRequirements(config.context_requirements, context)) {
+        continue;
+      }
+
+      const scores: number[] = [];
+      for (const pattern of config.query_patterns) {
+        if (pattern.type !== 'semantic') {
+          scores.push(scoreTextPattern(pattern, text));
+          continue;
+        }
+        questionEmbedding = questionEmbedding || await this.embeddings.embed(text);
+        scores.push(cosineSimilarity(await this.embedPattern(pattern.pattern), questionEmbedding));
+      }
+
+      const confidence = combinePatternScores(config.query_patterns, scores);
+      if (confidence > 0 && confidence >= config.confidence_threshold) {
+        matches.push({ content, recipient, confidence });
+      }
+    }
+
+    return matches.sort((a, b) => b.confidence - a.confidence);
+  }
+
+  /**
+   * Whether content may still reach the recipient
+   */
+  private canReceive(recipient: LegacyRecipient): boolean {
+    return recipient.consent_status === 'granted' &&
+      (recipient.delivery_status === 'scheduled' || recipient.delivery_status === 'pending') &&
+      !(recipient.permission && recipient.permission.status === 'never');
+  }
+
+  private async embedPattern(pattern: string): Promise<number[]> {
+    let embedding = this.patternEmbeddings.get(pattern);
+    if (!embedding) {
+      embedding = await this.embeddings.embed(pattern);
+      this.patternEmbeddings.set(pattern, embedding);
+    }
+    return embedding;
+  }
+}
+
+function normalizeQuestion(text: string): string {
+  return text.replace(/\s+/g, ' ').replace(/[\s?!.]+$/, '').trim();
+}
+
+function withinBounds(criteria: Record<string, any>, values: Record<string, number>): boolean {
+  return Object.keys(criteria).every(key => {
+    const bound = key.replace(/^(min|max)_/, '');
+    const value = values[bound];
+    if (typeof value !== 'number') {
+      return false;
+    }
+    return key.indexOf('min_') === 0 ? value >= criteria[key] : value <= criteria[key];
+  });
+}
+
+/**
+ * Whether a time falls in [from_hour, to_hour), wrapping past midnight when from_hour > to_hour
+ */
+function withinHours(criteria: Record<string, any>, at: Date): boolean {
+  const from = typeof criteria.from_hour === 'number' ? criteria.from_hour : 0;
+  const to = typeof criteria.to_hour === 'number' ? criteria.to_hour : 24;
+  const hour = Number(new Intl.DateTimeFormat('en-US', {
+    hour: 'numeric',
+    hour12: false,
+    timeZone: criteria.time_zone || 'UTC'
+  }).format(at)) % 24;
+
+  return from <= to ? hour >= from && hour < to : hour >= from || hour < to;
+}
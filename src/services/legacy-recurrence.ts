@@ -0,0 +1,624 @@
+/**
+ * Occurrence expansion for time-based legacy triggers
+ * Supports RFC 5545 RRULE strings with EXDATEs as well as the simple
+ * RecurringPattern. Occurrences keep their wall-clock time in the trigger
+ * timezone, so a 09:00 birthday greeting stays at 09:00 across daylight saving
+ * changes.
+ */
+
+import {
+  TimeBasedTriggerConfig,
+  LegacyRecipient,
+  DelayConfig
+} from '../types/legacy-system';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DELAY_UNIT_MS: Record<DelayConfig['unit'], number> = {
+  minutes: 60 * 1000,
+  hours: 60 * 60 * 1000,
+  days: DAY_MS,
+  weeks: 7 * DAY_MS,
+  months: 30 * DAY_MS
+};
+const WALL_TIME_PATTERN = /(\d+)\/(\d+)\/(\d+),? (\d+):(\d+):(\d+)/;
+const BYDAY_PATTERN = /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/;
+const UNTIL_PATTERN = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z?))?$/;
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const MAX_EMPTY_PERIODS = 5000;
+const MAX_CACHED_EXPANSIONS = 200;
+
+/**
+ * Recurrence frequencies supported for legacy triggers
+ */
+export type RecurrenceFrequency = 'YEARLY' | 'MONTHLY' | 'WEEKLY' | 'DAILY';
+
+/**
+ * Weekday with an optional ordinal (3SU = third Sunday, -1FR = last Friday)
+ */
+export interface RecurrenceWeekday {
+  /** Day of week, 0 = Sunday */
+  weekday: number;
+
+  /** Position within the month or year, if any */
+  ordinal?: number;
+}
+
+/**
+ * Parsed recurrence rule
+ */
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  count?: number;
+
+  /** UNTIL as written in the rule; UTC values are compared as instants, others as wall time */
+  until?: { wall: number; utc: boolean };
+
+  byMonth?: number[];
+  byMonthDay?: number[];
+  byDay?: RecurrenceWeekday[];
+  bySetPos?: number[];
+
+  /** Week start, 0 = Sunday */
+  wkst: number;
+}
+
+/**
+ * Error for recurrence rules that cannot be parsed or are not supported
+ */
+export class RecurrenceRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecurrenceRuleError';
+  }
+}
+
+/**
+ * Occurrence index and time
+ */
+export interface Occurrence {
+  occurrence: number;
+  date: Date;
+}
+
+/**
+ * Lazily expanded wall times for one trigger configuration
+ */
+interface Expansion {
+  walls: number[];
+  exhausted: boolean;
+  next: () => number | null;
+}
+
+const formatters: Record<string, Intl.DateTimeFormat> = {};
+const expansions: Map<string, Expansion> = new Map();
+
+/**
+ * Parse an RRULE string such as "FREQ=YEARLY;BYMONTH=5;BYDAY=3SU"
+ */
+export function parseRecurrenceRule(rrule: string): RecurrenceRule {
+  const body = rrule.trim().replace(/^RRULE:/i, '');
+  const parts: Record<string, string> = {};
+
+  body.split(';').filter(part => part.length > 0).forEach(part => {
+    const [name, value] = part.split('=');
+    if (!name || value === undefined || value === '') {
+      throw new RecurrenceRuleError(`Malformed RRULE part: ${part}`);
+    }
+    parts[name.toUpperCase()] = value.toUpperCase();
+  });
+
+  if (['YEARLY', 'MONTHLY', 'WEEKLY', 'DAILY'].indexOf(parts.FREQ) === -1) {
+    throw new RecurrenceRuleError(
+      parts.FREQ ? `Unsupported RRULE frequency: ${parts.FREQ}` : 'RRULE requires FREQ'
+    );
+  }
+
+  const rule: RecurrenceRule = {
+    freq: parts.FREQ as RecurrenceFrequency,
+    interval: parts.INTERVAL ? parseInteger('INTERVAL', parts.INTERVAL, 1, 10000) : 1,
+    wkst: 1
+  };
+
+  Object.keys(parts).forEach(name => {
+    const value = parts[name];
+
+    switch (name) {
+      case 'FREQ':
+      case 'INTERVAL':
+        break;
+      case 'COUNT':
+        rule.count = parseInteger(name, value, 1, 100000);
+        break;
+      case 'UNTIL':
+        rule.until = parseUntil(value);
+        break;
+      case 'BYMONTH':
+        rule.byMonth = parseList(name, value, 1, 12);
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = parseList(name, value, -31, 31);
+        break;
+      case 'BYSETPOS':
+        rule.bySetPos = parseList(name, value, -366, 366);
+        break;
+      case 'BYDAY':
+        rule.byDay = value.split(',').map(parseWeekday);
+        break;
+      case 'WKST':
+        rule.wkst = parseWeekday(value).weekday;
+        break;
+      default:
+        throw new RecurrenceRuleError(`Unsupported RRULE part: ${name}`);
+    }
+  });
+
+  if (rule.count !== undefined && rule.until) {
+    throw new RecurrenceRuleError('RRULE cannot combine COUNT and UNTIL');
+  }
+  if (rule.byDay && rule.byDay.some(day => day.ordinal !== undefined) &&
+      rule.freq !== 'MONTHLY' && rule.freq !== 'YEARLY') {
+    throw new RecurrenceRuleError('Numbered BYDAY values need FREQ=MONTHLY or FREQ=YEARLY');
+  }
+
+  return rule;
+}
+
+/**
+ * Time of an occurrence for a recipient
+ * When the trigger respects the recipient timezone, the same wall-clock time is
+ * used in the recipient's zone.
+ */
+export function getOccurrenceDate(
+  config: TimeBasedTriggerConfig,
+  occurrence: number,
+  timeZone: string = config.timezone
+): Date {
+  const wall = wallTimeAt(config, occurrence);
+  if (wall === null) {
+    throw new RecurrenceRuleError(`Trigger has no occurrence ${occurrence}`);
+  }
+  return fromWallTime(wall, timeZone);
+}
+
+/**
+ * Whether an occurrence exists within the recurrence limits
+ */
+export function hasOccurrence(config: TimeBasedTriggerConfig, occurrence: number): boolean {
+  return occurrence >= 0 && wallTimeAt(config, occurrence) !== null;
+}
+
+/**
+ * First occurrence at or after a time
+ */
+export function findNextOccurrence(
+  config: TimeBasedTriggerConfig,
+  after: Date = new Date(),
+  timeZone: string = config.timezone
+): Occurrence | null {
+  return getUpcomingOccurrences(config, 1, after, timeZone)[0] || null;
+}
+
+/**
+ * Upcoming occurrences at or after a time, e.g. for previews
+ */
+export function getUpcomingOccurrences(
+  config: TimeBasedTriggerConfig,
+  limit: number,
+  after: Date = new Date(),
+  timeZone: string = config.timezone
+): Occurrence[] {
+  const upcoming: Occurrence[] = [];
+
+  for (let occurrence = 0; upcoming.length < limit; occurrence++) {
+    const wall = wallTimeAt(config, occurrence);
+    if (wall === null) {
+      break;
+    }
+
+    const date = fromWallTime(wall, timeZone);
+    if (date >= after) {
+      upcoming.push({ occurrence, date });
+    }
+  }
+
+  return upcoming;
+}
+
+/**
+ * Timezone in which a recipient receives the trigger's wall-clock time
+ */
+export function getRecipientTimezone(config: TimeBasedTriggerConfig, recipient: LegacyRecipient): string {
+  const preferred = recipient.delivery_preferences.preferred_time;
+  return config.respect_recipient_timezone && preferred && preferred.timezone
+    ? preferred.timezone
+    : config.timezone;
+}
+
+/**
+ * Instant of local midnight on a calendar date in a timezone
+ */
+export function startOfLocalDay(year: number, month: number, day: number, timeZone: string): Date {
+  return fromWallTime(Date.UTC(year, month - 1, day), timeZone);
+}
+
+/**
+ * A date shifted by a delay; months count as 30 days
+ */
+export function addDelay(date: Date, delay?: DelayConfig): Date {
+  return delay ? new Date(date.getTime() + delay.amount * DELAY_UNIT_MS[delay.unit]) : date;
+}
+
+/**
+ * Wall time of an occurrence, or null past the end of the recurrence
+ */
+function wallTimeAt(config: TimeBasedTriggerConfig, occurrence: number): number | null {
+  const key = JSON.stringify([
+    config.delivery_date.getTime(),
+    config.timezone,
+    config.rrule || null,
+    (config.exdates || []).map(date => date.getTime()),
+    config.recurring || null
+  ]);
+
+  let expansion = expansions.get(key);
+  if (!expansion) {
+    if (expansions.size >= MAX_CACHED_EXPANSIONS) {
+      expansions.clear();
+    }
+    expansion = createExpansion(config);
+    expansions.set(key, expansion);
+  }
+
+  while (expansion.walls.length <= occurrence && !expansion.exhausted) {
+    const wall = expansion.next();
+    if (wall === null) {
+      expansion.exhausted = true;
+    } else {
+      expansion.walls.push(wall);
+    }
+  }
+
+  return occurrence < expansion.walls.length ? expansion.walls[occurrence] : null;
+}
+
+/**
+ * Build the occurrence iterator for a configuration
+ * RRULE takes precedence over the simple recurring pattern. EXDATEs are removed
+ * after COUNT is applied, as RFC 5545 prescribes.
+ */
+function createExpansion(config: TimeBasedTriggerConfig): Expansion {
+  const start = toWallTime(config.delivery_date, config.timezone);
+  const excluded = (config.exdates || []).map(date => toWallTime(date, config.timezone));
+  let rule: RecurrenceRule | null = null;
+  let untilInstant: number | null = null;
+
+  if (config.rrule) {
+    rule = parseRecurrenceRule(config.rrule);
+  } else if (config.recurring) {
+    rule = {
+      freq: config.recurring.type.toUpperCase() as RecurrenceFrequency,
+      interval: Math.max(1, config.recurring.interval),
+      count: config.recurring.max_occurrences,
+      wkst: 1
+    };
+    untilInstant = config.recurring.end_date ? config.recurring.end_date.getTime() : null;
+  }
+
+  const generate = rule
+    ? createRuleIterator(rule, start, config.timezone, untilInstant)
+    : createSingleIterator(start);
+
+  return {
+    walls: [],
+    exhausted: false,
+    next: () => {
+      let wall = generate();
+      while (wall !== null && excluded.indexOf(wall) !== -1) {
+        wall = generate();
+      }
+      return wall;
+    }
+  };
+}
+
+function createSingleIterator(start: number): () => number | null {
+  let done = false;
+  return () => {
+    if (done) {
+      return null;
+    }
+    done = true;
+    return start;
+  };
+}
+
+/**
+ * Walk recurrence periods from the start, yielding matching wall times in order
+ */
+function createRuleIterator(
+  rule: RecurrenceRule,
+  start: number,
+  timeZone: string,
+  untilInstant: number | null
+): () => number | null {
+  const startDay = Math.floor(start / DAY_MS);
+  const timeOfDay = start - startDay * DAY_MS;
+  const startDate = new Date(startDay * DAY_MS);
+  let period = 0;
+  let emptyPeriods = 0;
+  let emitted = 0;
+  let queue: number[] = [];
+  let finished = false;
+
+  return () => {
+    while (!finished && queue.length === 0) {
+      const days = applySetPos(periodDays(rule, startDate, startDay, period), rule.bySetPos);
+      period++;
+
+      queue = days
+        .map(day => day * DAY_MS + timeOfDay)
+        .filter(wall => wall >= start);
+
+      emptyPeriods = queue.length === 0 ? emptyPeriods + 1 : 0;
+      if (emptyPeriods > MAX_EMPTY_PERIODS || startDate.getUTCFullYear() + period > 9999) {
+        finished = true;
+      }
+    }
+
+    if (finished && queue.length === 0) {
+      return null;
+    }
+
+    const wall = queue.shift()!;
+    const pastUntil = rule.until
+      ? (rule.until.utc ? fromWallTime(wall, timeZone).getTime() : wall) > rule.until.wall
+      : untilInstant !== null && fromWallTime(wall, timeZone).getTime() > untilInstant;
+
+    if (pastUntil || (rule.count !== undefined && emitted >= rule.count)) {
+      finished = true;
+      queue = [];
+      return null;
+    }
+
+    emitted++;
+    return wall;
+  };
+}
+
+/**
+ * Candidate days (days since the epoch) in one recurrence period
+ */
+function periodDays(rule: RecurrenceRule, startDate: Date, startDay: number, period: number): number[] {
+  const year = startDate.getUTCFullYear();
+  const month = startDate.getUTCMonth();
+  const dayOfMonth = startDate.getUTCDate();
+  const step = period * rule.interval;
+  const inMonths = (day: number) => !rule.byMonth || rule.byMonth.indexOf(dayMonth(day) + 1) !== -1;
+
+  switch (rule.freq) {
+    case 'YEARLY': {
+      const periodYear = year + step;
+      if (!rule.byMonth && !rule.byMonthDay && rule.byDay) {
+        return weekdaysInRange(dayNumber(periodYear, 0, 1), dayNumber(periodYear + 1, 0, 1) - 1, rule.byDay);
+      }
+      const months = rule.byMonth
+        ? rule.byMonth.map(m => m - 1)
+        : rule.byMonthDay ? [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11] : [month];
+      return sortUnique(([] as number[]).concat(...months.map(m => monthDays(rule, periodYear, m, dayOfMonth))));
+    }
+
+    case 'MONTHLY': {
+      const monthIndex = month + step;
+      const periodYear = year + Math.floor(monthIndex / 12);
+      const periodMonth = monthIndex % 12;
+      if (rule.byMonth && rule.byMonth.indexOf(periodMonth + 1) === -1) {
+        return [];
+      }
+      return monthDays(rule, periodYear, periodMonth, dayOfMonth);
+    }
+
+    case 'WEEKLY': {
+      const weekStart = startDay - ((weekdayOf(startDay) - rule.wkst + 7) % 7) + step * 7;
+      const weekdays = rule.byDay ? rule.byDay.map(day => day.weekday) : [weekdayOf(startDay)];
+      const days: number[] = [];
+      for (let day = weekStart; day < weekStart + 7; day++) {
+        if (weekdays.indexOf(weekdayOf(day)) !== -1 && inMonths(day)) {
+          days.push(day);
+        }
+      }
+      return days;
+    }
+
+    case 'DAILY': {
+      const day = startDay + step;
+      const matchesMonthDay = !rule.byMonthDay || rule.byMonthDay.some(d =>
+        resolveMonthDay(d, dayYear(day), dayMonth(day)) === new Date(day * DAY_MS).getUTCDate());
+      const matchesWeekday = !rule.byDay || rule.byDay.some(d => d.weekday === weekdayOf(day));
+      return inMonths(day) && matchesMonthDay && matchesWeekday ? [day] : [];
+    }
+
+    default:
+      return [];
+  }
+}
+
+/**
+ * Candidate days within one month
+ * BYMONTHDAY and BYDAY together keep the month days that fall on the weekdays.
+ * A start day missing from the month (the 31st in April) yields nothing.
+ */
+function monthDays(rule: RecurrenceRule, year: number, month: number, dayOfMonth: number): number[] {
+  const first = dayNumber(year, month, 1);
+  const last = dayNumber(year, month + 1, 1) - 1;
+
+  if (rule.byMonthDay) {
+    const days = rule.byMonthDay
+      .map(d => resolveMonthDay(d, year, month))
+      .filter((d): d is number => d !== null)
+      .map(d => first + d - 1);
+    return sortUnique(rule.byDay
+      ? days.filter(day => rule.byDay!.some(d => d.weekday === weekdayOf(day)))
+      : days);
+  }
+
+  if (rule.byDay) {
+    return weekdaysInRange(first, last, rule.byDay);
+  }
+
+  return dayOfMonth <= last - first + 1 ? [first + dayOfMonth - 1] : [];
+}
+
+/**
+ * Days in a range matching BYDAY values, with ordinals counted within the range
+ */
+function weekdaysInRange(first: number, last: number, byDay: RecurrenceWeekday[]): number[] {
+  const days: number[] = [];
+
+  byDay.forEach(spec => {
+    const matches: number[] = [];
+    for (let day = first; day <= last; day++) {
+      if (weekdayOf(day) === spec.weekday) {
+        matches.push(day);
+      }
+    }
+
+    if (spec.ordinal === undefined) {
+      days.push(...matches);
+    } else {
+      const index = spec.ordinal > 0 ? spec.ordinal - 1 : matches.length + spec.ordinal;
+      if (index >= 0 && index < matches.length) {
+        days.push(matches[index]);
+      }
+    }
+  });
+
+  return sortUnique(days);
+}
+
+/**
+ * Keep the BYSETPOS positions of a period's sorted candidates
+ */
+function applySetPos(days: number[], bySetPos?: number[]): number[] {
+  if (!bySetPos) {
+    return days;
+  }
+
+  return sortUnique(bySetPos
+    .map(pos => days[pos > 0 ? pos - 1 : days.length + pos])
+    .filter(day => day !== undefined));
+}
+
+/**
+ * Day of month for a (possibly negative) BYMONTHDAY value
+ */
+function resolveMonthDay(value: number, year: number, month: number): number | null {
+  const length = dayNumber(year, month + 1, 1) - dayNumber(year, month, 1);
+  const day = value > 0 ? value : length + value + 1;
+  return day >= 1 && day <= length ? day : null;
+}
+
+function dayNumber(year: number, month: number, day: number): number {
+  return Math.floor(Date.UTC(year, month, day) / DAY_MS);
+}
+
+function weekdayOf(day: number): number {
+  return new Date(day * DAY_MS).getUTCDay();
+}
+
+function dayMonth(day: number): number {
+  return new Date(day * DAY_MS).getUTCMonth();
+}
+
+function dayYear(day: number): number {
+  return new Date(day * DAY_MS).getUTCFullYear();
+}
+
+function sortUnique(values: number[]): number[] {
+  return values
+    .sort((a, b) => a - b)
+    .filter((value, index, sorted) => index === 0 || sorted[index - 1] !== value);
+}
+
+function parseInteger(name: string, value: string, min: number, max: number): number {
+  const parsed = Number(value);
+  if (!/^[+-]?\d+$/.test(value) || parsed < min || parsed > max || parsed === 0) {
+    throw new RecurrenceRuleError(`Invalid ${name} value: ${value}`);
+  }
+  return parsed;
+}
+
+function parseList(name: string, value: string, min: number, max: number): number[] {
+  return value.split(',').map(item => parseInteger(name, item, min, max));
+}
+
+function parseWeekday(value: string): RecurrenceWeekday {
+  const match = value.match(BYDAY_PATTERN);
+  if (!match) {
+    throw new RecurrenceRuleError(`Invalid weekday: ${value}`);
+  }
+
+  const weekday: RecurrenceWeekday = { weekday: WEEKDAYS.indexOf(match[2]) };
+  if (match[1]) {
+    weekday.ordinal = parseInteger('BYDAY', match[1], -53, 53);
+  }
+  return weekday;
+}
+
+/**
+ * UNTIL as a DATE (inclusive to the end of that day) or DATE-TIME
+ */
+function parseUntil(value: string): { wall: number; utc: boolean } {
+  const match = value.match(UNTIL_PATTERN);
+  if (!match) {
+    throw new RecurrenceRuleError(`Invalid UNTIL value: ${value}`);
+  }
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  if (hour === undefined) {
+    return { wall: Date.UTC(+year, +month - 1, +day + 1) - 1, utc: false };
+  }
+  return { wall: Date.UTC(+year, +month - 1, +day, +hour, +minute, +second), utc: utc === 'Z' };
+}
+
+/**
+ * Wall-clock time in a timezone, encoded as milliseconds on a UTC calendar
+ */
+export function toWallTime(date: Date, timeZone: string): number {
+  if (!formatters[timeZone]) {
+    formatters[timeZone] = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hour12: false,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+  }
+
+  const match = formatters[timeZone].format(date).match(WALL_TIME_PATTERN);
+  if (!match) {
+    throw new Error(`Unable to resolve wall time in timezone ${timeZone}`);
+  }
+
+  const [, month, day, year, hour, minute, second] = match.map(Number);
+  return Date.UTC(year, month - 1, day, hour % 24, minute, second, date.getUTCMilliseconds());
+}
+
+/**
+ * Instant at which a timezone shows the given wall-clock time
+ * Two passes settle the offset around daylight saving transitions.
+ */
+export function fromWallTime(wallTime: number, timeZone: string): Date {
+  const firstGuess = wallTime - offsetAt(wallTime, timeZone);
+  return new Date(wallTime - offsetAt(firstGuess, timeZone));
+}
+
+/**
+ * Offset of a timezone from UTC at an instant
+ */
+function offsetAt(instant: number, timeZone: string): number {
+  return toWallTime(new Date(instant), timeZone) - instant;
+}
@@ -0,0 +1,329 @@
+/**
+ * Durable scheduler for "Hälsning till Framtiden" deliveries
+ * The trigger's next_evaluation_at and occurrence_index live in the legacy
+ * content store, so a restart resumes where the last run stopped.
+ */
+
+import {
+  LegacyContent,
+  LegacyContentStore,
+  LegacyRecipient,
+  TimeBasedTriggerConfig
+} from '../types/legacy-system';
+import { LegacySystemService, createDeliveryIdempotencyKey } from './legacy-system-service';
+import { getOccurrenceDate, hasOccurrence, getRecipientTimezone, findNextOccurrence } from './legacy-recurrence';
+
+/**
+ * Scheduler options
+ */
+export interface LegacySchedulerOptions {
+  /** How often due triggers are polled while running */
+  pollIntervalMs?: number;
+
+  /** Delay before re-checking event and query triggers, or recipients still awaiting consent */
+  recheckIntervalMs?: number;
+}
+
+/**
+ * Outcome of one scheduler run
+ */
+export interface LegacySchedulerRunResult {
+  /** Content evaluated in this run */
+  evaluated: string[];
+
+  /** Occurrences passed over because a later one was already due */
+  skipped_occurrences: number;
+
+  /** Content whose evaluation threw */
+  failed: Array<{ content_id: string; error: string }>;
+}
+
+/**
+ * Polls the legacy content store and hands due occurrences to the service
+ * Missed windows after downtime collapse into one catch-up delivery of the
+ * latest due occurrence; idempotency keys stop a recipient from receiving the
+ * same occurrence twice.
+ */
+export class LegacyScheduler {
+  private service: LegacySystemService;
+  private store: LegacyContentStore;
+  private pollIntervalMs: number;
+  private recheckIntervalMs: number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private currentRun: Promise<LegacySchedulerRunResult> | null = null;
+
+  constructor(service: LegacySystemService, store: LegacyContentStore, options: LegacySchedulerOptions = {}) {
+    this.service = service;
+    this.store = store;
+    this.pollIntervalMs = options.pollIntervalMs ?? 60 * 1000;
+    this.recheckIntervalMs = options.recheckIntervalMs ?? 60 * 60 * 1000;
+  }
+
+  /**
+   * Put saved content on the schedule
+   * Recurring triggers start from their next upcoming occurrence; a one-off
+   * date already in the past is delivered on the next run.
+   */
+  async schedule(contentId: string, now: Date = new Date()): Promise<LegacyContent> {
+    const content = await this.store.getLegacyContent(contentId);
+    if (!content) {
+      throw new Error(`Legacy content not found: ${contentId}`);
+    }
+
+    if (content.status === 'draft') {
+      content.status = 'scheduled';
+    }
+
+    if (content.trigger.type !== 'time_based') {
+      content.trigger.occurrence_index = 0;
+      content.trigger.next_evaluation_at = now;
+    } else {
+      const config = content.trigger.config as TimeBasedTriggerConfig;
+      const next = findNextOccurrence(config, now);
+      const occurrence = next ? next.occurrence : 0;
+
+      if (hasOccurrence(config, occurrence)) {
+        content.trigger.occurrence_index = occurrence;
+        content.trigger.next_evaluation_at = new Date(Math.min.apply(null, this.dueTimes(content, occurrence)));
+      } else {
+        this.complete(content);
+      }
+    }
+    content.updated_at = now;
+
+    await this.store.saveLegacyContent(content);
+    return content;
+  }
+
+  /**
+   * Catch up on anything missed while stopped, then start polling
+   */
+  async start(): Promise<LegacySchedulerRunResult> {
+    const result = await this.runDue();
+
+    if (!this.timer) {
+      this.timer = setInterval(() => {
+        this.runDue().catch(error => {
+          console.error('Legacy scheduler run failed:', error);
+        });
+      }, this.pollIntervalMs);
+    }
+
+    return result;
+  }
+
+  /**
+   * Stop polling
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Whether the scheduler is polling
+   */
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Evaluate every trigger due at the given time
+   * Overlapping calls share the run in progress instead of delivering twice.
+   */
+  runDue(now: Date = new Date()): Promise<LegacySchedulerRunResult> {
+    if (!this.currentRun) {
+      const clear = () => {
+        this.currentRun = null;
+      };
+      this.currentRun = this.evaluateDue(now);
+      this.currentRun.then(clear, clear);
+    }
+    return this.currentRun;
+  }
+
+  private async evaluateDue(now: Date): Promise<LegacySchedulerRunResult> {
+    const result: LegacySchedulerRunResult = { evaluated: [], skipped_occurrences: 0, failed: [] };
+    const due = await this.store.getDueLegacyContent(now);
+
+    for (const content of due) {
+      try {
+        result.skipped_occurrences += content.trigger.type === 'time_based'
+          ? await this.runTimeBased(content, now)
+          : await this.runPolled(content, now);
+        result.evaluated.push(content.id);
+      } catch (error) {
+        result.failed.push({
+          content_id: content.id,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Deliver the current occurrence of a time-based trigger and advance it
+   */
+  private async runTimeBased(content: LegacyContent, now: Date): Promise<number> {
+    const config = content.trigger.config as TimeBasedTriggerConfig;
+    const startOccurrence = content.trigger.occurrence_index || 0;
+    let occurrence = startOccurrence;
+
+    while (
+      hasOccurrence(config, occurrence + 1) &&
+      Math.max.apply(null, this.dueTimes(content, occurrence + 1)) <= now.getTime()
+    ) {
+      occurrence++;
+    }
+
+    const dueRecipients = content.recipients.filter(recipient => {
+      const nextAction = this.nextActionAt(content, occurrence, recipient);
+      return nextAction !== null && nextAction <= now;
+    });
+
+    const updated = dueRecipients.length > 0
+      ? await this.service.evaluateScheduledContent(content.id, occurrence, dueRecipients.map(r => r.contact_id)) || content
+      : content;
+
+    const pending = this.pendingActions(updated, occurrence, now);
+    if (pending.length > 0) {
+      updated.trigger.occurrence_index = occurrence;
+      updated.trigger.next_evaluation_at = new Date(Math.min.apply(null, pending));
+    } else if (hasOccurrence(config, occurrence + 1)) {
+      updated.trigger.occurrence_index = occurrence + 1;
+      updated.trigger.next_evaluation_at = new Date(Math.min.apply(null, this.dueTimes(updated, occurrence + 1)));
+    } else {
+      this.complete(updated);
+    }
+
+    await this.save(updated, now);
+    return occurrence - startOccurrence;
+  }
+
+  /**
+   * Re-check an event-, query- or inactivity-based trigger until every recipient is settled
+   * Content with recipients still waiting for their event or question stays
+   * scheduled without a next evaluation; the LegacyEventMatcher or
+   * LegacySystemService.surfaceForQuery sets one when a match arrives.
+   * Inactivity content is next evaluated when its next reminder, confirmation
+   * request or release is due.
+   */
+  private async runPolled(content: LegacyContent, now: Date): Promise<number> {
+    const updated = await this.service.evaluateScheduledContent(content.id, 0) || content;
+
+    const pending = this.pendingActions(updated, 0, now);
+    const inactivity = updated.trigger.type === 'inactivity' ? updated.trigger.inactivity : undefined;
+    if (pending.length > 0) {
+      if (inactivity && inactivity.next_step_at) {
+        // A notice retry can be due before the deferred deliveries
+        pending.push(inactivity.next_step_at.getTime());
+      }
+      updated.trigger.next_evaluation_at = new Date(Math.min.apply(null, pending));
+    } else if (updated.recipients.some(recipient => this.awaitsRelease(recipient))) {
+      updated.trigger.next_evaluation_at = inactivity ? inactivity.next_step_at : undefined;
+    } else {
+      this.complete(updated);
+    }
+
+    await this.save(updated, now);
+    return 0;
+  }
+
+  /**
+   * When a recipient next needs attention for an occurrence, or null once settled
+   */
+  private nextActionAt(content: LegacyContent, occurrence: number, recipient: LegacyRecipient): Date | null {
+    const timeBased = content.trigger.type === 'time_based';
+    const config = content.trigger.config as TimeBasedTriggerConfig;
+
+    if (recipient.delivery_status === 'refused') {
+      return null;
+    }
+    if (!(timeBased && config.recurring) && recipient.delivery_status === 'delivered') {
+      return null;
+    }
+
+    const inactivity = content.trigger.type === 'inactivity' ? content.trigger.inactivity : undefined;
+    if (content.trigger.type === 'inactivity' && !(inactivity && inactivity.released_at)) {
+      return null; // Nothing to deliver until released; a check-in may have cancelled earlier deferrals
+    }
+
+    const key = createDeliveryIdempotencyKey(content.id, occurrence, recipient.contact_id);
+    const attempts = content.delivery_attempts.filter(attempt => attempt.idempotency_key === key);
+
+    if (attempts.some(attempt => attempt.result === 'success' || attempt.result === 'refused')) {
+      return null;
+    }
+    // Deferrals while waiting on the recipient do not use up delivery attempts
+    const counted = attempts.filter(attempt => attempt.result !== 'deferred');
+    if (counted.length >= recipient.delivery_preferences.max_delivery_attempts) {
+      return null;
+    }
+    if (attempts.length > 0) {
+      return attempts[attempts.length - 1].next_retry_at || null;
+    }
+
+    if (inactivity && inactivity.released_at) {
+      return inactivity.released_at;
+    }
+    if (!timeBased) {
+      const releases = (content.trigger.matched_events || [])
+        .filter(match => match.recipient_ids.indexOf(recipient.contact_id) !== -1)
+        .map(match => match.deliver_at.getTime())
+        .concat((content.trigger.matched_queries || [])
+          .filter(match => match.recipient_id === recipient.contact_id)
+          .map(match => match.matched_at.getTime()));
+      return releases.length > 0 ? new Date(Math.min.apply(null, releases)) : null;
+    }
+
+    return getOccurrenceDate(config, occurrence, getRecipientTimezone(config, recipient));
+  }
+
+  /**
+   * Whether a recipient of event-, query- or inactivity-based content can still be released
+   */
+  private awaitsRelease(recipient: LegacyRecipient): boolean {
+    return recipient.delivery_status === 'scheduled' || recipient.delivery_status === 'pending';
+  }
+
+  /**
+   * Times at which unsettled recipients of an occurrence need another look
+   * Recipients that were due but produced no attempt (consent still pending) are re-checked later.
+   */
+  private pendingActions(content: LegacyContent, occurrence: number, now: Date): number[] {
+    return content.recipients
+      .map(recipient => this.nextActionAt(content, occurrence, recipient))
+      .filter((date): date is Date => date !== null)
+      .map(date => date <= now ? now.getTime() + this.recheckIntervalMs : date.getTime());
+  }
+
+  /**
+   * Recipient-local times of an occurrence
+   */
+  private dueTimes(content: LegacyContent, occurrence: number): number[] {
+    const config = content.trigger.config as TimeBasedTriggerConfig;
+
+    return content.recipients.length > 0
+      ? content.recipients.map(recipient =>
+          getOccurrenceDate(config, occurrence, getRecipientTimezone(config, recipient)).getTime())
+      : [getOccurrenceDate(config, occurrence).getTime()];
+  }
+
+  /**
+   * Take finished content off the schedule
+   */
+  private complete(content: LegacyContent): void {
+    content.trigger.next_evaluation_at = undefined;
+    content.status = content.delivered_at ? 'delivered' : 'expired';
+  }
+
+  private async save(content: LegacyContent, now: Date): Promise<void> {
+    content.trigger.last_evaluated_at = now;
+    content.updated_at = now;
+    await this.store.saveLegacyContent(content);
+  }
+}
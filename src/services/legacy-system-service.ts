@@ -14,14 +14,74 @@ import {
   LegacyRecipient,
   DeliveryAttempt,
   DeliveryResult,
+  DeliveryMethod,
   LegacyContentStatus,
   DeliveryStatus,
   ConsentStatus,
   UserState,
   DigitalExecutor,
-  LegacySystemConfig
+  LegacySystemConfig,
+  LegacyContentStore,
+  PermissionReply,
+  PermissionStatus,
+  RecipientPermission,
+  DelayConfig,
+  LegacyQueryMatch,
+  LegacyQuerySurfacing,
+  QueryContext,
+  InactivityTriggerConfig,
+  InactivityState,
+  InactivityConfirmation,
+  TrustedContact,
+  FailedInactivityNotice
 } from '../types/legacy-system';
+import { EmbeddingProvider } from '../types/memory';
 import { User, Contact, Consent } from '../types/data-models';
+import { UserRepository, userRepository as defaultUserRepository } from '../lib/data/user-repository';
+import { InMemoryLegacyContentStore } from './legacy-content-store';
+import { DeliveryChannel, DeliveryChannelError, InAppInboxChannel } from './legacy-delivery-channels';
+import { addDelay, findNextOccurrence, parseRecurrenceRule } from './legacy-recurrence';
+import { LegacyQueryMatcher } from './legacy-query-triggers';
+import {
+  countConfirmations,
+  createInactivityState,
+  getConfirmationRequestAt,
+  getDueReminderIndex,
+  getNextInactivityStep,
+  validateInactivityConfig
+} from './legacy-inactivity';
+
+/**
+ * Idempotency key for one recipient and trigger occurrence
+ * Every attempt for the same occurrence shares the key, so a delivery channel
+ * can drop a repeat after a crash between sending and recording the attempt.
+ */
+export function createDeliveryIdempotencyKey(contentId: string, occurrence: number, recipientId: string): string {
+  return `${contentId}:${occurrence}:${recipientId}`;
+}
+
+/**
+ * Error raised when a permission reply cannot be accepted
+ */
+export class PermissionReplyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermissionReplyError';
+  }
+}
+
+/**
+ * Error raised when a trusted contact's inactivity confirmation cannot be accepted
+ */
+export class InactivityConfirmationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InactivityConfirmationError';
+  }
+}
+
+const DEFAULT_PERMISSION_REQUEST_TTL_DAYS = 14;
+const MAX_REMIND_IN_DAYS = 365;
 
 /**
  * Service for managing legacy content and delivery
@@ -29,9 +89,37 @@ import { User, Contact, Consent } from '../types/data-models';
  */
 export class LegacySystemService {
   private config: LegacySystemConfig;
+  private store: LegacyContentStore;
+  private channels: Map<DeliveryMethod, DeliveryChannel> = new Map();
+  private users: UserRepository;
+  private queryMatcher: LegacyQueryMatcher;
   
-  constructor(config: LegacySystemConfig) {
+  constructor(
+    config: LegacySystemConfig,
+    store: LegacyContentStore = new InMemoryLegacyContentStore(),
+    channels: DeliveryChannel[] = [new InAppInboxChannel()],
+    users: UserRepository = defaultUserRepository,
+    embeddings?: EmbeddingProvider
+  ) {
     this.config = config;
+    this.store = store;
+    this.users = users;
+    this.queryMatcher = new LegacyQueryMatcher(store, embeddings);
+    channels.forEach(channel => this.registerChannel(channel));
+  }
+
+  /**
+   * Register a delivery channel, replacing any channel for the same method
+   */
+  registerChannel(channel: DeliveryChannel): void {
+    this.channels.set(channel.method, channel);
+  }
+
+  /**
+   * Delivery channel for a method, if registered
+   */
+  getChannel(method: DeliveryMethod): DeliveryChannel | undefined {
+    return this.channels.get(method);
   }
 
   /**
@@ -74,7 +162,6 @@ export class LegacySystemService {
       legacyContent.scheduled_delivery_at = this.calculateDeliveryTime(legacyContent.trigger);
     }
     
-    // Save to database (mock implementation)
     await this.saveLegacyContent(legacyContent);
     
     return legacyContent;
@@ -114,12 +201,14 @@ export class LegacySystemService {
   createTimeBasedTrigger(
     deliveryDate: Date,
     timezone: string = 'UTC',
-    respectRecipientTimezone: boolean = true
+    respectRecipientTimezone: boolean = true,
+    recurrence: Pick<TimeBasedTriggerConfig, 'recurring' | 'rrule' | 'exdates'> = {}
   ): LegacyTrigger {
     const config: TimeBasedTriggerConfig = {
       delivery_date: deliveryDate,
       timezone,
-      respect_recipient_timezone: respectRecipientTimezone
+      respect_recipient_timezone: respectRecipientTimezone,
+      ...recurrence
     };
 
     return {
@@ -140,11 +229,13 @@ export class LegacySystemService {
   createEventBasedTrigger(
     eventType: string,
     criteria: Record<string, any>,
-    description: string
+    description: string,
+    delayAfterEvent?: DelayConfig
   ): LegacyTrigger {
     const config: EventBasedTriggerConfig = {
       event_type: eventType as any,
-      criteria
+      criteria,
+      delay_after_event: delayAfterEvent
     };
 
     return {
@@ -188,6 +279,24 @@ export class LegacySystemService {
     };
   }
 
+  /**
+   * Create inactivity trigger
+   * Releases a digital testament once the creator stops checking in and
+   * enough trusted contacts confirm it.
+   */
+  createInactivityTrigger(config: InactivityTriggerConfig, description: string): LegacyTrigger {
+    validateInactivityConfig(config);
+
+    return {
+      id: this.generateId(),
+      type: 'inactivity',
+      config,
+      description,
+      active: true,
+      created_at: new Date()
+    };
+  }
+
   /**
    * Evaluate triggers and initiate delivery
    * Requirement 23.4: Tactful delivery process with recipient permission
@@ -196,22 +305,301 @@ export class LegacySystemService {
     const activeLegacyContent = await this.getActiveLegacyContent();
     
     for (const content of activeLegacyContent) {
+      if (content.trigger.type === 'inactivity') {
+        await this.advanceInactivity(content, new Date());
+      }
+
       if (await this.shouldTriggerDelivery(content)) {
-        await this.initiateDelivery(content);
+        const recipientIds = this.releasesByMatch(content.trigger)
+          ? this.getReleasedRecipients(content.trigger, new Date())
+          : undefined;
+        await this.initiateDelivery(content, content.trigger.occurrence_index || 0, recipientIds);
+      }
+    }
+  }
+
+  /**
+   * Recipients released by matched events that are due, or by questions they asked
+   */
+  getReleasedRecipients(trigger: LegacyTrigger, now: Date = new Date()): string[] {
+    const released: string[] = [];
+    const release = (id: string) => {
+      if (released.indexOf(id) === -1) {
+        released.push(id);
+      }
+    };
+
+    (trigger.matched_events || [])
+      .filter(match => match.deliver_at <= now)
+      .forEach(match => match.recipient_ids.forEach(release));
+    (trigger.matched_queries || [])
+      .filter(match => match.matched_at <= now)
+      .forEach(match => release(match.recipient_id));
+
+    return released;
+  }
+
+  /**
+   * Query-based content for a user that their question matches, best match first
+   * Requirement 23.3: Query-based triggers (specific question asked by future user)
+   */
+  async findQueryMatches(userId: string, text: string, context: QueryContext): Promise<LegacyQueryMatch[]> {
+    return this.queryMatcher.match(userId, text, context);
+  }
+
+  /**
+   * Bring up legacy content in conversation when a recipient asks about it
+   * Requirement 23.3: Query-based triggers (specific question asked by future user)
+   * The best match is recorded on its trigger. With tactful delivery the reply
+   * only offers the content and opens a permission request the recipient answers
+   * through respondToPermissionRequest; otherwise the content is delivered and
+   * shared in the reply. Returns null when nothing matches, the asker seems too
+   * upset for it right now, or delivery failed and is left to the scheduler.
+   */
+  async surfaceForQuery(userId: string, text: string, context: QueryContext): Promise<LegacyQuerySurfacing | null> {
+    const match = (await this.queryMatcher.match(userId, text, context)).filter(candidate =>
+      !candidate.content.delivery_settings.check_emotional_state ||
+      !context.user_state ||
+      this.isEmotionalStateSuitable(context.user_state)
+    )[0];
+    if (!match) {
+      return null;
+    }
+
+    const { content, recipient, confidence } = match;
+    const creator = await this.users.getUserById(content.creator_id);
+    const creatorName = creator ? creator.profile.display_name : 'Someone who cares about you';
+    content.trigger.matched_queries = (content.trigger.matched_queries || []).concat({
+      recipient_id: recipient.contact_id,
+      query_text: text,
+      confidence,
+      matched_at: context.asked_at
+    });
+
+    if (content.delivery_settings.tactful_delivery) {
+      const { permission, token } = await this.openPermissionRequest(recipient, 0);
+      recipient.permission = permission;
+
+      // Nothing to do until the offer is answered or runs out
+      const next = content.trigger.next_evaluation_at;
+      if (!next || next > permission.expires_at) {
+        content.trigger.next_evaluation_at = permission.expires_at;
       }
+      await this.updateLegacyContent(content);
+
+      return {
+        content_id: content.id,
+        contact_id: recipient.contact_id,
+        confidence,
+        text: `Before I answer: ${creatorName} left something for you about this, "${content.title}". ` +
+          `Would you like to see it now? It can also wait until another time.`,
+        delivered: false,
+        reply_token: token
+      };
+    }
+
+    await this.attemptDelivery(content, recipient, 0);
+    if (recipient.delivery_status !== 'delivered') {
+      return null;
+    }
+
+    return {
+      content_id: content.id,
+      contact_id: recipient.contact_id,
+      confidence,
+      text: `${creatorName} left something for you about this, "${content.title}":` +
+        (content.content.text ? `\n\n${content.content.text}` : ''),
+      delivered: true
+    };
+  }
+
+  /**
+   * Deliver one occurrence of scheduled content
+   * Called by the LegacyScheduler once the occurrence is due. Time-based triggers
+   * are not re-checked here because recipient-local times can precede the
+   * trigger's own delivery date.
+   */
+  async evaluateScheduledContent(
+    contentId: string,
+    occurrence: number,
+    recipientIds?: string[]
+  ): Promise<LegacyContent | null> {
+    const content = await this.store.getLegacyContent(contentId);
+    if (!content) {
+      return null;
+    }
+
+    if (content.trigger.type === 'inactivity') {
+      await this.advanceInactivity(content, new Date());
+    }
+
+    if (this.releasesByMatch(content.trigger)) {
+      // Only recipients released by a due event match or by their own question
+      const released = this.getReleasedRecipients(content.trigger, new Date());
+      recipientIds = recipientIds ? recipientIds.filter(id => released.indexOf(id) !== -1) : released;
+    }
+
+    if (content.trigger.type === 'time_based' || await this.shouldTriggerDelivery(content)) {
+      await this.initiateDelivery(content, occurrence, recipientIds);
     }
+
+    return content;
+  }
+
+  /**
+   * Record that the creator is still here
+   * Resets every inactivity trigger on the creator's active content, which
+   * also cancels a release still inside its cancellation window.
+   */
+  async checkIn(creatorId: string, now: Date = new Date()): Promise<LegacyContent[]> {
+    const reset: LegacyContent[] = [];
+
+    for (const content of await this.store.getActiveLegacyContent()) {
+      const trigger = content.trigger;
+      if (content.creator_id !== creatorId || trigger.type !== 'inactivity' ||
+          (trigger.inactivity && trigger.inactivity.phase === 'released')) {
+        continue;
+      }
+
+      trigger.inactivity = createInactivityState(trigger.config as InactivityTriggerConfig, now);
+      trigger.next_evaluation_at = trigger.inactivity.next_step_at;
+      await this.updateLegacyContent(content);
+      reset.push(content);
+    }
+
+    return reset;
+  }
+
+  /**
+   * Record a trusted contact's confirmation that the creator can no longer check in
+   * Once the required number of trusted contacts have confirmed, the release
+   * is scheduled after the cancellation window.
+   */
+  async confirmInactivity(confirmation: InactivityConfirmation): Promise<LegacyContent> {
+    const content = await this.store.getLegacyContent(confirmation.content_id);
+    const state = content && content.trigger.type === 'inactivity' ? content.trigger.inactivity : undefined;
+    const request = state
+      ? state.confirmations.filter(c => c.contact_id === confirmation.contact_id)[0]
+      : undefined;
+
+    if (!content || !state || !request ||
+        (state.phase !== 'awaiting_confirmation' && state.phase !== 'cancellation_window') ||
+        await this.hashReplyToken(confirmation.token) !== request.token_hash) {
+      throw new InactivityConfirmationError('Confirmation request not found or no longer open');
+    }
+
+    const now = new Date();
+    request.confirmed_at = request.confirmed_at || now;
+
+    const config = content.trigger.config as InactivityTriggerConfig;
+    if (state.phase === 'awaiting_confirmation' && countConfirmations(state) >= config.required_confirmations) {
+      await this.startCancellationWindow(content, state, now);
+    }
+
+    content.trigger.next_evaluation_at = state.next_step_at;
+    await this.updateLegacyContent(content);
+    return content;
+  }
+
+  /**
+   * Whether a recipient already received an occurrence
+   */
+  hasDeliveredOccurrence(content: LegacyContent, recipient: LegacyRecipient, occurrence: number): boolean {
+    const key = createDeliveryIdempotencyKey(content.id, occurrence, recipient.contact_id);
+    return content.delivery_attempts.some(a => a.idempotency_key === key && a.result === 'success');
+  }
+
+  /**
+   * Record a recipient's answer to a permission request
+   * Requirement 23.4: Tactful, permission-seeking delivery process
+   * Accepting delivers the content right away and "never" refuses it. "Not now"
+   * and "remind me later" defer delivery without using up a delivery attempt.
+   */
+  async respondToPermissionRequest(reply: PermissionReply): Promise<LegacyContent> {
+    const content = await this.store.getLegacyContent(reply.content_id);
+    const recipient = content
+      ? content.recipients.filter(r => r.contact_id === reply.contact_id)[0]
+      : undefined;
+    const permission = recipient ? recipient.permission : undefined;
+
+    if (!content || !recipient || !permission || permission.status !== 'awaiting_reply' ||
+        await this.hashReplyToken(reply.token) !== permission.token_hash) {
+      throw new PermissionReplyError('Permission request not found or already answered');
+    }
+    if (permission.expires_at <= new Date()) {
+      throw new PermissionReplyError('Permission request has expired');
+    }
+    const remindInDays = reply.answer === 'remind_later' ? this.validateRemindInDays(reply.remind_in_days) : 0;
+
+    permission.answered_at = new Date();
+
+    switch (reply.answer) {
+      case 'accept':
+        permission.status = 'granted';
+        await this.attemptDelivery(content, recipient, permission.occurrence);
+        break;
+
+      case 'never':
+        permission.status = 'never';
+        await this.attemptDelivery(content, recipient, permission.occurrence);
+        break;
+
+      case 'not_now':
+      case 'remind_later': {
+        permission.status = reply.answer;
+        permission.remind_at = reply.answer === 'not_now'
+          ? this.calculateRetryTime(content.delivery_settings.retry_delay)
+          : this.calculateRetryTime({ amount: remindInDays, unit: 'days' });
+
+        // Bring the next evaluation forward if the reminder is due before it
+        const next = content.trigger.next_evaluation_at;
+        if (!next || next > permission.remind_at) {
+          content.trigger.next_evaluation_at = permission.remind_at;
+        }
+
+        await this.deferDelivery(
+          content,
+          recipient,
+          `recipient_${reply.answer}`,
+          permission.occurrence,
+          permission.remind_at
+        );
+        break;
+      }
+
+      default:
+        throw new PermissionReplyError(`Unknown permission answer: ${reply.answer}`);
+    }
+
+    return content;
   }
 
   /**
    * Initiate tactful delivery process
    * Requirement 23.4: Tactful delivery process respecting recipient's emotional state
    */
-  private async initiateDelivery(content: LegacyContent): Promise<void> {
+  private async initiateDelivery(
+    content: LegacyContent,
+    occurrence: number = 0,
+    recipientIds?: string[]
+  ): Promise<void> {
+    const recurring = content.trigger.type === 'time_based' &&
+      !!(content.trigger.config as TimeBasedTriggerConfig).recurring;
+
     for (const recipient of content.recipients) {
-      if (recipient.delivery_status === 'delivered') {
+      if (recipientIds && recipientIds.indexOf(recipient.contact_id) === -1) {
+        continue;
+      }
+
+      if ((!recurring && recipient.delivery_status === 'delivered') ||
+          this.hasDeliveredOccurrence(content, recipient, occurrence)) {
         continue; // Already delivered to this recipient
       }
 
+      if (recipient.delivery_status === 'refused') {
+        continue; // Refusal covers every later occurrence too
+      }
+
       // Check consent status
       if (recipient.consent_status !== 'granted') {
         await this.requestDeliveryConsent(content, recipient);
@@ -222,13 +610,13 @@ export class LegacySystemService {
       if (content.delivery_settings.check_emotional_state) {
         const emotionalState = await this.getRecipientEmotionalState(recipient.contact_id);
         if (!this.isEmotionalStateSuitable(emotionalState)) {
-          await this.deferDelivery(content, recipient, 'emotional_state_unsuitable');
+          await this.deferDelivery(content, recipient, 'emotional_state_unsuitable', occurrence);
           continue;
         }
       }
 
       // Attempt delivery
-      await this.attemptDelivery(content, recipient);
+      await this.attemptDelivery(content, recipient, occurrence);
     }
   }
 
@@ -237,11 +625,11 @@ export class LegacySystemService {
    */
   private async attemptDelivery(
     content: LegacyContent,
-    recipient: LegacyRecipient
+    recipient: LegacyRecipient,
+    occurrence: number = 0
   ): Promise<void> {
-    const attemptNumber = content.delivery_attempts.filter(
-      a => a.recipient_id === recipient.contact_id
-    ).length + 1;
+    const idempotencyKey = createDeliveryIdempotencyKey(content.id, occurrence, recipient.contact_id);
+    const attemptNumber = this.countDeliveryAttempts(content, idempotencyKey) + 1;
 
     if (attemptNumber > recipient.delivery_preferences.max_delivery_attempts) {
       recipient.delivery_status = 'failed';
@@ -253,7 +641,9 @@ export class LegacySystemService {
       recipient_id: recipient.contact_id,
       delivery_method: recipient.delivery_preferences.delivery_method,
       attempted_at: new Date(),
-      result: 'success' // Will be updated based on actual delivery
+      result: 'success', // Will be updated based on actual delivery
+      occurrence,
+      idempotency_key: idempotencyKey
     };
 
     try {
@@ -261,7 +651,21 @@ export class LegacySystemService {
       attempt.recipient_emotional_state = await this.getRecipientEmotionalState(recipient.contact_id);
       
       // Perform tactful delivery
-      const deliveryResult = await this.performTactfulDelivery(content, recipient);
+      const deliveryResult = await this.performTactfulDelivery(content, recipient, attempt);
+
+      if (deliveryResult === 'deferred') {
+        // Waiting for the recipient's answer does not use up a delivery attempt
+        const permission = recipient.permission!;
+        await this.deferDelivery(
+          content,
+          recipient,
+          permission.status === 'awaiting_reply' ? 'awaiting_permission' : `recipient_${permission.status}`,
+          occurrence,
+          permission.status === 'awaiting_reply' ? permission.expires_at : permission.remind_at
+        );
+        return;
+      }
+
       attempt.result = deliveryResult;
 
       if (deliveryResult === 'success') {
@@ -293,50 +697,116 @@ export class LegacySystemService {
   /**
    * Perform tactful delivery with permission seeking
    * Requirement 23.4: Tactful, permission-seeking delivery process
+   * Returns 'deferred' while the recipient has not agreed to receive the content yet.
    */
   private async performTactfulDelivery(
     content: LegacyContent,
-    recipient: LegacyRecipient
+    recipient: LegacyRecipient,
+    attempt?: DeliveryAttempt
   ): Promise<DeliveryResult> {
-    // First, send a gentle notification asking for permission
-    const permissionGranted = await this.requestDeliveryPermission(content, recipient);
-    
-    if (!permissionGranted) {
-      return 'refused';
+    if (content.delivery_settings.tactful_delivery) {
+      // First, send a gentle notification asking for permission
+      const permission = await this.requestDeliveryPermission(content, recipient, attempt);
+
+      if (permission === 'never') {
+        return 'refused';
+      }
+      if (permission !== 'granted') {
+        return 'deferred';
+      }
     }
 
     // Deliver the actual content
-    const deliverySuccess = await this.deliverContent(content, recipient);
+    const deliverySuccess = await this.deliverContent(content, recipient, attempt);
     
     return deliverySuccess ? 'success' : 'failed';
   }
 
   /**
    * Request permission to deliver legacy content
+   * Sends a new request unless one for the same occurrence is still open or
+   * already answered, and returns the current state of the handshake.
    */
   private async requestDeliveryPermission(
     content: LegacyContent,
-    recipient: LegacyRecipient
-  ): Promise<boolean> {
-    // Mock implementation - in real system, this would send a tactful message
-    // asking if the recipient is ready to receive a message from the creator
-    
-    const permissionMessage = this.createPermissionRequestMessage(content);
-    
-    // Send permission request (mock)
-    const response = await this.sendPermissionRequest(recipient.contact_id, permissionMessage);
-    
-    return response === 'granted';
+    recipient: LegacyRecipient,
+    attempt?: DeliveryAttempt
+  ): Promise<PermissionStatus> {
+    const occurrence = attempt && attempt.occurrence !== undefined ? attempt.occurrence : 0;
+    const current = recipient.permission;
+    const now = new Date();
+
+    if (current && current.status === 'never') {
+      return 'never'; // Refusal covers every later occurrence too
+    }
+    if (current && current.occurrence === occurrence) {
+      if (current.status === 'granted') {
+        return 'granted';
+      }
+      if (current.status === 'awaiting_reply' && current.expires_at > now) {
+        return 'awaiting_reply';
+      }
+      if (current.remind_at && current.remind_at > now) {
+        return current.status;
+      }
+    }
+
+    // Send a tactful message asking if the recipient is ready to receive
+    // a message from the creator
+    const { permission, token } = await this.openPermissionRequest(recipient, occurrence);
+    const permissionMessage = await this.createPermissionRequestMessage(content, recipient, token);
+
+    await this.sendPermissionRequest(content, recipient, permissionMessage, token, permission, attempt);
+
+    recipient.permission = permission;
+    return permission.status;
+  }
+
+  /**
+   * New permission request for an occurrence, with the token the recipient answers with
+   */
+  private async openPermissionRequest(
+    recipient: LegacyRecipient,
+    occurrence: number
+  ): Promise<{ permission: RecipientPermission; token: string }> {
+    const current = recipient.permission;
+    const now = new Date();
+    const token = this.generateReplyToken();
+
+    return {
+      permission: {
+        status: 'awaiting_reply',
+        occurrence,
+        request_count: current && current.occurrence === occurrence ? current.request_count + 1 : 1,
+        token_hash: await this.hashReplyToken(token),
+        requested_at: now,
+        expires_at: new Date(now.getTime() + this.getPermissionRequestTtlDays() * 24 * 60 * 60 * 1000)
+      },
+      token
+    };
   }
 
   /**
    * Create tactful permission request message
    */
-  private createPermissionRequestMessage(content: LegacyContent): string {
-    const creatorName = "your loved one"; // Would get actual name from creator profile
+  private async createPermissionRequestMessage(
+    content: LegacyContent,
+    recipient?: LegacyRecipient,
+    token?: string
+  ): Promise<string> {
+    const creator = await this.users.getUserById(content.creator_id);
+    const creatorName = creator ? creator.profile.display_name : 'Someone who cares about you';
     
-    return `${creatorName} has prepared a special message for you. ` +
-           `Would you like to receive it now? You can always choose to receive it later if this isn't a good time.`;
+    let message = `${creatorName} has prepared a special message for you. ` +
+      `Would you like to receive it now? You can always choose to receive it later if this isn't a good time.`;
+
+    if (recipient && token && this.config.permission_reply_url) {
+      const separator = this.config.permission_reply_url.indexOf('?') === -1 ? '?' : '&';
+      message += `\n\nReply here to receive it now, ask to be reminded later, or decline: ` +
+        `${this.config.permission_reply_url}${separator}content=${encodeURIComponent(content.id)}` +
+        `&recipient=${encodeURIComponent(recipient.contact_id)}&token=${token}`;
+    }
+    return message;
   }
 
   /**
@@ -356,16 +826,21 @@ export class LegacySystemService {
   private async deferDelivery(
     content: LegacyContent,
     recipient: LegacyRecipient,
-    reason: string
+    reason: string,
+    occurrence: number = 0,
+    retryAt: Date = new Date(Date.now() + 24 * 60 * 60 * 1000) // Retry in 24 hours
   ): Promise<void> {
+    const idempotencyKey = createDeliveryIdempotencyKey(content.id, occurrence, recipient.contact_id);
     const attempt: DeliveryAttempt = {
-      attempt_number: content.delivery_attempts.filter(a => a.recipient_id === recipient.contact_id).length + 1,
+      attempt_number: this.countDeliveryAttempts(content, idempotencyKey) + 1,
       recipient_id: recipient.contact_id,
       delivery_method: recipient.delivery_preferences.delivery_method,
       attempted_at: new Date(),
       result: 'deferred',
       error_message: reason,
-      next_retry_at: new Date(Date.now() + 24 * 60 * 60 * 1000) // Retry in 24 hours
+      next_retry_at: retryAt,
+      occurrence,
+      idempotency_key: idempotencyKey
     };
 
     content.delivery_attempts.push(attempt);
@@ -383,10 +858,13 @@ export class LegacySystemService {
         return this.evaluateTimeBasedTrigger(trigger.config as TimeBasedTriggerConfig);
       
       case 'event_based':
-        return await this.evaluateEventBasedTrigger(trigger.config as EventBasedTriggerConfig, content.recipients);
+        return this.evaluateEventBasedTrigger(trigger);
       
       case 'query_based':
-        return await this.evaluateQueryBasedTrigger(trigger.config as QueryBasedTriggerConfig, content.recipients);
+        return this.evaluateQueryBasedTrigger(trigger);
+      
+      case 'inactivity':
+        return !!trigger.inactivity && trigger.inactivity.phase === 'released';
       
       default:
         return false;
@@ -403,36 +881,322 @@ export class LegacySystemService {
 
   /**
    * Evaluate event-based trigger
+   * Events are matched by the LegacyEventMatcher; the trigger fires once a match is due.
    */
-  private async evaluateEventBasedTrigger(
-    config: EventBasedTriggerConfig,
-    recipients: LegacyRecipient[]
-  ): Promise<boolean> {
-    // Mock implementation - would check for actual events in the system
-    for (const recipient of recipients) {
-      const hasEvent = await this.checkForEvent(recipient.contact_id, config.event_type, config.criteria);
-      if (hasEvent) {
-        return true;
+  private evaluateEventBasedTrigger(trigger: LegacyTrigger): boolean {
+    return this.getReleasedRecipients(trigger).length > 0;
+  }
+
+  /**
+   * Evaluate query-based trigger
+   * Questions are matched by surfaceForQuery; the trigger fires for recipients who asked.
+   */
+  private evaluateQueryBasedTrigger(trigger: LegacyTrigger): boolean {
+    return this.getReleasedRecipients(trigger).length > 0;
+  }
+
+  /**
+   * Move an inactivity trigger along as time passes
+   * Sends the latest due reminder to the creator, asks the trusted contacts once
+   * the check-in is far enough overdue, and releases the content when the
+   * cancellation window has passed.
+   */
+  private async advanceInactivity(content: LegacyContent, now: Date): Promise<void> {
+    const config = content.trigger.config as InactivityTriggerConfig;
+    const state = content.trigger.inactivity || createInactivityState(config, now);
+    content.trigger.inactivity = state;
+
+    switch (state.phase) {
+      case 'watching':
+      case 'reminding': {
+        if (now >= getConfirmationRequestAt(config, state)) {
+          await this.requestInactivityConfirmations(content, state, now);
+          break;
+        }
+
+        const index = getDueReminderIndex(config, state, now);
+        if (index !== -1) {
+          await this.notifyCreator(
+            content,
+            state,
+            config.reminders[index].method,
+            `reminder:${index}`,
+            'Please check in',
+            `It has been a while since you last checked in. If we do not hear from you, your trusted ` +
+              `contacts will be asked to confirm, and "${content.title}" will then be passed on as you wished.`
+          );
+          state.reminders_sent = index + 1;
+          state.phase = 'reminding';
+        }
+        break;
       }
+
+      case 'cancellation_window':
+        if (state.release_at && now >= state.release_at) {
+          state.phase = 'released';
+          state.released_at = now;
+        }
+        break;
     }
-    return false;
+
+    await this.retryFailedInactivityNotices(content, state, now);
+    state.next_step_at = this.withNoticeRetries(state, getNextInactivityStep(config, state));
+    await this.updateLegacyContent(content);
   }
 
   /**
-   * Evaluate query-based trigger
+   * Ask every trusted contact to confirm the creator can no longer check in
    */
-  private async evaluateQueryBasedTrigger(
-    config: QueryBasedTriggerConfig,
-    recipients: LegacyRecipient[]
-  ): Promise<boolean> {
-    // Mock implementation - would check recent queries from recipients
-    for (const recipient of recipients) {
-      const matchingQuery = await this.checkForMatchingQuery(recipient.contact_id, config);
-      if (matchingQuery) {
-        return true;
+  private async requestInactivityConfirmations(
+    content: LegacyContent,
+    state: InactivityState,
+    now: Date
+  ): Promise<void> {
+    const config = content.trigger.config as InactivityTriggerConfig;
+    const creatorName = await this.getCreatorName(content);
+
+    state.phase = 'awaiting_confirmation';
+    state.confirmation_requested_at = now;
+    state.confirmations = [];
+
+    for (const contact of config.trusted_contacts) {
+      await this.sendConfirmationRequest(content, state, contact, creatorName);
+    }
+  }
+
+  /**
+   * Ask one trusted contact to confirm, with a fresh token
+   * A retried request replaces the contact's earlier token, whose link never arrived.
+   */
+  private async sendConfirmationRequest(
+    content: LegacyContent,
+    state: InactivityState,
+    contact: TrustedContact,
+    creatorName: string
+  ): Promise<void> {
+    const token = this.generateReplyToken();
+    const tokenHash = await this.hashReplyToken(token);
+    const request = state.confirmations.filter(c => c.contact_id === contact.contact_id)[0];
+    if (request) {
+      request.token_hash = tokenHash;
+    } else {
+      state.confirmations.push({ contact_id: contact.contact_id, token_hash: tokenHash });
+    }
+
+    let body = `${creatorName} has not checked in since ${state.last_check_in_at.toLocaleDateString()} ` +
+      `and asked you to confirm if they no longer can. If you know this to be so, please let us know ` +
+      `so their messages can be passed on. If they are well, there is nothing you need to do.`;
+    if (this.config.inactivity_confirmation_url) {
+      const separator = this.config.inactivity_confirmation_url.indexOf('?') === -1 ? '?' : '&';
+      body += `\n\nConfirm here: ${this.config.inactivity_confirmation_url}${separator}` +
+        `content=${encodeURIComponent(content.id)}&contact=${encodeURIComponent(contact.contact_id)}&token=${token}`;
+    }
+
+    await this.sendInactivityNotice(
+      content,
+      state,
+      this.noticeRecipient(contact.contact_id, 'trusted_contact', contact.delivery_method),
+      'inactivity_confirmation',
+      `confirm:${contact.contact_id}`,
+      `Can you confirm something about ${creatorName}?`,
+      body,
+      token
+    );
+  }
+
+  /**
+   * Retry notices whose earlier delivery failed and that still matter
+   * Reminders superseded by a later one, and notices from an earlier phase,
+   * are dropped instead.
+   */
+  private async retryFailedInactivityNotices(
+    content: LegacyContent,
+    state: InactivityState,
+    now: Date
+  ): Promise<void> {
+    const config = content.trigger.config as InactivityTriggerConfig;
+    const failed = state.failed_notices || [];
+    state.failed_notices = failed.filter(notice => this.isInactivityNoticeCurrent(config, state, notice));
+
+    const due = state.failed_notices.filter(notice => notice.retry_at <= now);
+    for (const notice of due) {
+      if (notice.step.indexOf('confirm:') === 0) {
+        const contact = config.trusted_contacts.filter(c => c.contact_id === notice.contact_id)[0];
+        await this.sendConfirmationRequest(content, state, contact, await this.getCreatorName(content));
+      } else {
+        await this.notifyCreator(
+          content,
+          state,
+          notice.delivery_method,
+          notice.step,
+          notice.subject || '',
+          notice.body || ''
+        );
       }
     }
-    return false;
+  }
+
+  /**
+   * Whether a failed notice still belongs to the trigger's current phase
+   */
+  private isInactivityNoticeCurrent(
+    config: InactivityTriggerConfig,
+    state: InactivityState,
+    notice: FailedInactivityNotice
+  ): boolean {
+    if (notice.step.indexOf('confirm:') === 0) {
+      const request = state.confirmations.filter(c => c.contact_id === notice.contact_id)[0];
+      return state.phase === 'awaiting_confirmation' && !!request && !request.confirmed_at &&
+        config.trusted_contacts.some(c => c.contact_id === notice.contact_id);
+    }
+    if (notice.step === 'release_notice') {
+      return state.phase === 'cancellation_window';
+    }
+    return state.phase === 'reminding' && notice.step === `reminder:${state.reminders_sent - 1}`;
+  }
+
+  /**
+   * The next step, brought forward to the earliest pending notice retry
+   */
+  private withNoticeRetries(state: InactivityState, nextStep: Date | undefined): Date | undefined {
+    return (state.failed_notices || []).reduce<Date | undefined>(
+      (earliest, notice) => (!earliest || notice.retry_at < earliest ? notice.retry_at : earliest),
+      nextStep
+    );
+  }
+
+  /**
+   * Creator's name as shown to trusted contacts
+   */
+  private async getCreatorName(content: LegacyContent): Promise<string> {
+    const creator = await this.users.getUserById(content.creator_id);
+    return creator ? creator.profile.display_name : 'Someone who trusts you';
+  }
+
+  /**
+   * Schedule the release and hold every recipient's delivery until it
+   */
+  private async startCancellationWindow(
+    content: LegacyContent,
+    state: InactivityState,
+    now: Date
+  ): Promise<void> {
+    const config = content.trigger.config as InactivityTriggerConfig;
+    state.phase = 'cancellation_window';
+    state.release_at = addDelay(now, config.cancellation_window);
+
+    for (const recipient of content.recipients) {
+      if (recipient.delivery_status !== 'delivered' && recipient.delivery_status !== 'refused') {
+        await this.deferDelivery(content, recipient, 'inactivity_cancellation_window', 0, state.release_at);
+      }
+    }
+
+    const lastReminder = config.reminders[config.reminders.length - 1];
+    await this.notifyCreator(
+      content,
+      state,
+      lastReminder ? lastReminder.method : 'in_app_notification',
+      'release_notice',
+      `"${content.title}" will be passed on`,
+      `Your trusted contacts have confirmed that you can no longer check in. "${content.title}" will be ` +
+        `passed on ${state.release_at.toLocaleDateString()} unless you check in before then.`
+    );
+    state.next_step_at = this.withNoticeRetries(state, state.release_at);
+  }
+
+  /**
+   * Send an inactivity notice to the creator
+   */
+  private async notifyCreator(
+    content: LegacyContent,
+    state: InactivityState,
+    method: DeliveryMethod,
+    step: string,
+    subject: string,
+    body: string
+  ): Promise<void> {
+    const creator = this.noticeRecipient(content.creator_id, 'creator', method);
+    creator.user_id = content.creator_id;
+
+    await this.sendInactivityNotice(content, state, creator, 'check_in_reminder', step, subject, body);
+  }
+
+  /**
+   * Send an inactivity notice
+   * A failed send is recorded on the state and retried on a later evaluation,
+   * so one unreachable person does not hold up the others. After the
+   * configured number of attempts the notice is given up on.
+   */
+  private async sendInactivityNotice(
+    content: LegacyContent,
+    state: InactivityState,
+    recipient: LegacyRecipient,
+    kind: 'check_in_reminder' | 'inactivity_confirmation',
+    step: string,
+    subject: string,
+    body: string,
+    token?: string
+  ): Promise<void> {
+    const previous = (state.failed_notices || []).filter(notice => notice.step === step)[0];
+    state.failed_notices = (state.failed_notices || []).filter(notice => notice !== previous);
+
+    try {
+      await this.resolveChannel(content, recipient).deliver({
+        kind,
+        idempotency_key: `${this.inactivityCycleKey(content, state)}:${step}`,
+        content,
+        recipient,
+        subject,
+        body,
+        reply_token: token
+      });
+    } catch (error) {
+      const attempts = (previous ? previous.attempts : 0) + 1;
+      if (attempts >= this.config.default_max_delivery_attempts) {
+        console.error(`Inactivity notice to ${recipient.contact_id} failed ${attempts} times, giving up:`, error);
+        return;
+      }
+
+      const now = new Date();
+      state.failed_notices.push({
+        step,
+        contact_id: recipient.contact_id,
+        delivery_method: recipient.delivery_preferences.delivery_method,
+        // Confirmation requests carry a token, so they are rebuilt rather than stored
+        subject: kind === 'check_in_reminder' ? subject : undefined,
+        body: kind === 'check_in_reminder' ? body : undefined,
+        attempts,
+        last_error: error instanceof Error ? error.message : String(error),
+        retry_at: new Date(now.getTime() + this.config.min_retry_delay_hours * 60 * 60 * 1000)
+      });
+    }
+  }
+
+  /**
+   * Someone who is not a recipient of the content, addressed like one for the delivery channels
+   */
+  private noticeRecipient(contactId: string, relationship: string, method: DeliveryMethod): LegacyRecipient {
+    return {
+      contact_id: contactId,
+      relationship,
+      delivery_preferences: { delivery_method: method, respect_emotional_state: false, max_delivery_attempts: 1 },
+      consent_status: 'granted',
+      delivery_status: 'pending'
+    };
+  }
+
+  /**
+   * Idempotency key prefix for the notices of one check-in cycle
+   */
+  private inactivityCycleKey(content: LegacyContent, state: InactivityState): string {
+    return `${content.id}:inactivity:${state.last_check_in_at.getTime()}`;
+  }
+
+  /**
+   * Whether a trigger releases recipients individually through matches
+   */
+  private releasesByMatch(trigger: LegacyTrigger): boolean {
+    return trigger.type === 'event_based' || trigger.type === 'query_based';
   }
 
   // Helper methods (mock implementations)
@@ -441,6 +1205,47 @@ export class LegacySystemService {
     return `legacy_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
+  /**
+   * Attempts made for an idempotency key; deferrals do not count
+   */
+  private countDeliveryAttempts(content: LegacyContent, idempotencyKey: string): number {
+    return content.delivery_attempts.filter(
+      a => a.idempotency_key === idempotencyKey && a.result !== 'deferred'
+    ).length;
+  }
+
+  private generateReplyToken(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(24));
+    let token = '';
+    for (let i = 0; i < bytes.length; i++) {
+      token += (bytes[i] < 16 ? '0' : '') + bytes[i].toString(16);
+    }
+    return token;
+  }
+
+  /**
+   * Hex-encoded SHA-256 of a reply token
+   */
+  private async hashReplyToken(token: string): Promise<string> {
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token)));
+    let hex = '';
+    for (let i = 0; i < digest.length; i++) {
+      hex += (digest[i] < 16 ? '0' : '') + digest[i].toString(16);
+    }
+    return hex;
+  }
+
+  private getPermissionRequestTtlDays(): number {
+    return this.config.permission_request_ttl_days || DEFAULT_PERMISSION_REQUEST_TTL_DAYS;
+  }
+
+  private validateRemindInDays(days?: number): number {
+    if (days === undefined || Math.floor(days) !== days || days < 1 || days > MAX_REMIND_IN_DAYS) {
+      throw new PermissionReplyError(`Reminder must be between 1 and ${MAX_REMIND_IN_DAYS} whole days`);
+    }
+    return days;
+  }
+
   private createDefaultTrigger(): LegacyTrigger {
     return this.createTimeBasedTrigger(
       new Date(Date.now() + 365 * 24 * 60 * 60 * 1000), // 1 year from now
@@ -467,7 +1272,14 @@ export class LegacySystemService {
   }
 
   private async validateTrigger(trigger: LegacyTrigger): Promise<void> {
-    // Mock trigger validation
+    if (trigger.type === 'time_based') {
+      const config = trigger.config as TimeBasedTriggerConfig;
+      if (config.rrule) {
+        parseRecurrenceRule(config.rrule);
+      }
+    } else if (trigger.type === 'inactivity') {
+      validateInactivityConfig(trigger.config as InactivityTriggerConfig);
+    }
   }
 
   private async validateRecipients(recipients: LegacyRecipient[], creatorId: string): Promise<void> {
@@ -476,16 +1288,19 @@ export class LegacySystemService {
 
   private calculateDeliveryTime(trigger: LegacyTrigger): Date {
     if (trigger.type === 'time_based') {
-      const config = trigger.config as TimeBasedTriggerConfig;
-      return config.delivery_date;
+      return this.calculateNextEvaluation(trigger);
     }
     return new Date();
   }
 
   private calculateNextEvaluation(trigger: LegacyTrigger): Date {
     switch (trigger.type) {
-      case 'time_based':
-        return (trigger.config as TimeBasedTriggerConfig).delivery_date;
+      case 'time_based': {
+        // Next expanded occurrence; a trigger with none left keeps its original date
+        const config = trigger.config as TimeBasedTriggerConfig;
+        const next = findNextOccurrence(config);
+        return next ? next.date : config.delivery_date;
+      }
       case 'event_based':
         return new Date(Date.now() + 24 * 60 * 60 * 1000); // Check daily
       case 'query_based':
@@ -508,19 +1323,18 @@ export class LegacySystemService {
     return new Date(Date.now() + delay);
   }
 
-  // Mock database operations
+  // Database operations
   private async saveLegacyContent(content: LegacyContent): Promise<void> {
-    // Mock save operation
+    await this.store.saveLegacyContent(content);
   }
 
   private async updateLegacyContent(content: LegacyContent): Promise<void> {
     content.updated_at = new Date();
-    // Mock update operation
+    await this.store.saveLegacyContent(content);
   }
 
   private async getActiveLegacyContent(): Promise<LegacyContent[]> {
-    // Mock retrieval - would get from database
-    return [];
+    return this.store.getActiveLegacyContent();
   }
 
   private async getRecipientEmotionalState(contactId: string): Promise<UserState> {
@@ -538,23 +1352,83 @@ export class LegacySystemService {
     // Mock consent request
   }
 
-  private async sendPermissionRequest(contactId: string, message: string): Promise<string> {
-    // Mock permission request - would integrate with messaging system
-    return 'granted'; // Mock response
+  /**
+   * Send a permission request; each request for an occurrence gets its own key
+   */
+  private async sendPermissionRequest(
+    content: LegacyContent,
+    recipient: LegacyRecipient,
+    message: string,
+    token: string,
+    permission: RecipientPermission,
+    attempt?: DeliveryAttempt
+  ): Promise<void> {
+    const channel = this.resolveChannel(content, recipient);
+    await channel.deliver({
+      kind: 'permission_request',
+      idempotency_key: `${this.attemptKey(content, recipient, attempt)}:permission:${permission.request_count}`,
+      content,
+      recipient,
+      subject: 'A message is waiting for you',
+      body: message,
+      reply_token: token
+    });
   }
 
-  private async deliverContent(content: LegacyContent, recipient: LegacyRecipient): Promise<boolean> {
-    // Mock content delivery
+  /**
+   * Send the content through the recipient's channel and keep the receipt on the attempt
+   */
+  private async deliverContent(
+    content: LegacyContent,
+    recipient: LegacyRecipient,
+    attempt?: DeliveryAttempt
+  ): Promise<boolean> {
+    const channel = this.resolveChannel(content, recipient);
+    const receipt = await channel.deliver({
+      kind: 'content',
+      idempotency_key: this.attemptKey(content, recipient, attempt),
+      content,
+      recipient,
+      subject: content.title,
+      body: content.content.text || ''
+    });
+
+    if (attempt) {
+      attempt.delivery_method = channel.method;
+      attempt.receipt = receipt;
+    }
     return true;
   }
 
-  private async checkForEvent(contactId: string, eventType: string, criteria: any): Promise<boolean> {
-    // Mock event checking
-    return false;
+  /**
+   * Channel for the recipient's preferred method, falling back to the content's fallback method
+   */
+  private resolveChannel(content: LegacyContent, recipient: LegacyRecipient): DeliveryChannel {
+    const preferred = recipient.delivery_preferences.delivery_method;
+    const fallback = content.delivery_settings.fallback_method;
+    const channel = this.channels.get(preferred) || (fallback ? this.channels.get(fallback) : undefined);
+
+    if (!channel) {
+      throw new DeliveryChannelError(`No delivery channel registered for ${preferred}`);
+    }
+    return channel;
   }
 
-  private async checkForMatchingQuery(contactId: string, config: QueryBasedTriggerConfig): Promise<boolean> {
-    // Mock query matching
-    return false;
+  private attemptKey(content: LegacyContent, recipient: LegacyRecipient, attempt?: DeliveryAttempt): string {
+    return attempt && attempt.idempotency_key
+      ? attempt.idempotency_key
+      : createDeliveryIdempotencyKey(content.id, 0, recipient.contact_id);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Default legacy system limits
+ */
+export const DEFAULT_LEGACY_SYSTEM_CONFIG: LegacySystemConfig = {
+  max_legacy_content_per_user: 50,
+  max_recipients_per_content: 10,
+  default_max_delivery_attempts: 3,
+  min_retry_delay_hours: 24,
+  max_future_delivery_years: 50,
+  require_mutual_consent: true
+};
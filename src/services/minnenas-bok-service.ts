@@ -12,14 +12,21 @@ import {
 } from '../types/minnenas-bok';
 import { CognitiveAgent } from '../lib/cognitive-agent';
 import { MemoryAssistant } from '../lib/memory/memory-assistant';
+import { DomainEventBus, domainEventBus } from '../lib/events/domain-event-bus';
 
 export class MinnenasBookService {
   private memoryAssistant: MemoryAssistant;
   private coordinatorAgent: CognitiveAgent;
+  private events: DomainEventBus;
 
-  constructor(memoryAssistant: MemoryAssistant, coordinatorAgent: CognitiveAgent) {
+  constructor(
+    memoryAssistant: MemoryAssistant,
+    coordinatorAgent: CognitiveAgent,
+    events: DomainEventBus = domainEventBus
+  ) {
     this.memoryAssistant = memoryAssistant;
     this.coordinatorAgent = coordinatorAgent;
+    this.events = events;
   }
 
   /**
@@ -98,6 +105,10 @@ export class MinnenasBookService {
         if (themeEvents.length >= 2) {
           const links = await this.findMemoryLinks(themeId, themeEvents);
           task.discoveredLinks.push(...links);
+
+          for (const link of links) {
+            await this.events.publish('memory_link.discovered', { link }, link.discoveredAt);
+          }
         }
       }
 
@@ -0,0 +1,78 @@
+/**
+ * Personal data API (server-side only)
+ * Exports the data of the user of the session as a portable archive, and
+ * imports archives from other installations. An import creates a new
+ * account, so only architects may run one.
+ */
+
+import { bootstrapServer, getPersonalDataExportService } from '../lib/server-bootstrap';
+import { userRepository } from '../lib/data/user-repository';
+import {
+  PersonalDataArchiveError,
+  PersonalDataExportService,
+  PersonalDataImportReport
+} from '../lib/data/personal-data-export';
+
+/**
+ * Error raised for a personal data call that must not run
+ */
+export class PersonalDataApiRequestError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'PersonalDataApiRequestError';
+    this.status = status;
+  }
+}
+
+/**
+ * The server's export service, once the server runs
+ */
+async function requireExportService(password: string): Promise<PersonalDataExportService> {
+  if (typeof password !== 'string' || !password) {
+    throw new PersonalDataApiRequestError('A password is required', 400);
+  }
+
+  await bootstrapServer();
+  const service = getPersonalDataExportService();
+  if (!service) {
+    throw new PersonalDataApiRequestError('Personal data export is not available', 503);
+  }
+  return service;
+}
+
+/**
+ * Export the signed-in user's data as a ZIP archive
+ * Contact details are decrypted with the given password.
+ */
+export async function exportPersonalData(sessionUserId: string, password: string): Promise<Uint8Array> {
+  const service = await requireExportService(password);
+  return service.exportUserData(sessionUserId, password);
+}
+
+/**
+ * Import an archive as a new account, on request of an architect
+ * Contact details are re-encrypted with the given password.
+ */
+export async function importPersonalData(
+  sessionUserId: string,
+  archive: Uint8Array,
+  password: string
+): Promise<PersonalDataImportReport> {
+  const service = await requireExportService(password);
+
+  const requester = await userRepository.getUserById(sessionUserId);
+  if (!requester || requester.user_role !== 'architect') {
+    throw new PersonalDataApiRequestError('Only architects can import personal data archives', 403);
+  }
+
+  try {
+    return await service.importUserData(archive, password);
+  } catch (error) {
+    if (error instanceof PersonalDataArchiveError) {
+      throw new PersonalDataApiRequestError(error.message, 400);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Review API (server-side only)
+ * Derives the review rights of the user of the session from the project
+ * their document belongs to.
+ */
+
+import { getProjectDocumentAccess } from '../lib/collaboration/document-access';
+import { ReviewPermissions, getReviewPermissions } from '../lib/collaboration/tracked-changes';
+import { projectRepository } from '../lib/data/project-repository';
+import { bootstrapServer } from '../lib/server-bootstrap';
+
+/**
+ * Error raised for a review call that must not run
+ */
+export class ReviewApiRequestError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ReviewApiRequestError';
+    this.status = status;
+  }
+}
+
+/**
+ * Review rights of the signed-in user on a project's documents
+ * Only users who may open the project's documents learn about them.
+ */
+export async function getProjectReviewPermissions(sessionUserId: string, projectId: string): Promise<ReviewPermissions> {
+  if (!projectId) {
+    throw new ReviewApiRequestError('Review calls need project_id', 400);
+  }
+
+  await bootstrapServer();
+  const project = await projectRepository.getProjectById(projectId);
+  if (!project) {
+    throw new ReviewApiRequestError(`Project ${projectId} not found`, 404);
+  }
+  if (getProjectDocumentAccess(project, sessionUserId) === 'none') {
+    throw new ReviewApiRequestError('No access to the documents of this project', 403);
+  }
+  return getReviewPermissions(project, sessionUserId);
+}
@@ -0,0 +1,54 @@
+/**
+ * Review client
+ * Browser-side access to the review rights of the signed-in user: whether a
+ * project keeps its documents in review mode and whether the user may accept
+ * and reject tracked changes, as the server derives them from the project.
+ */
+
+import type { ReviewPermissions } from '../lib/collaboration/tracked-changes';
+
+/** Endpoint of the review permissions API route */
+export const REVIEW_PERMISSIONS_API_PATH = '/api/review-permissions';
+
+/**
+ * Review rights on a project's documents, for the signed-in user
+ */
+export interface ReviewApi {
+  /** Whether the project requires approval and whether the user may review */
+  getPermissions(projectId: string): Promise<ReviewPermissions>;
+}
+
+/**
+ * Error returned by the review permissions API route
+ */
+export class ReviewApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ReviewApiError';
+    this.status = status;
+  }
+}
+
+/**
+ * Calls the review permissions API route
+ */
+export class ReviewClient implements ReviewApi {
+  private endpoint: string;
+
+  constructor(endpoint: string = REVIEW_PERMISSIONS_API_PATH) {
+    this.endpoint = endpoint;
+  }
+
+  async getPermissions(projectId: string): Promise<ReviewPermissions> {
+    const response = await fetch(`${this.endpoint}?project_id=${encodeURIComponent(projectId)}`, {
+      credentials: 'same-origin'
+    });
+    const body = await response.json();
+    if (!response.ok) {
+      throw new ReviewApiError(body.error || `Review request failed (${response.status})`, response.status);
+    }
+    return body.permissions;
+  }
+}
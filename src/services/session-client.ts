@@ -0,0 +1,74 @@
+/**
+ * Session client
+ * Browser-side access to the session API route: who is signed in, and
+ * signing in during local development and out.
+ */
+
+/** Endpoint of the session API route */
+export const SESSION_API_PATH = '/api/session';
+
+/**
+ * Error returned by the session API route
+ */
+export class SessionApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'SessionApiError';
+    this.status = status;
+  }
+}
+
+/**
+ * Calls the session API route
+ */
+export class SessionClient {
+  private endpoint: string;
+
+  constructor(endpoint: string = SESSION_API_PATH) {
+    this.endpoint = endpoint;
+  }
+
+  /**
+   * ID of the signed-in user, or null without a session
+   */
+  async getUserId(): Promise<string | null> {
+    const response = await fetch(this.endpoint, { credentials: 'same-origin' });
+    if (response.status === 401) {
+      return null;
+    }
+    return (await this.readBody(response)).user_id;
+  }
+
+  /**
+   * Sign in as a user; only available in local development
+   */
+  async signIn(userId: string): Promise<string> {
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      credentials: 'same-origin',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ user_id: userId })
+    });
+    return (await this.readBody(response)).user_id;
+  }
+
+  /**
+   * Sign out
+   */
+  async signOut(): Promise<void> {
+    await this.readBody(await fetch(this.endpoint, { method: 'DELETE', credentials: 'same-origin' }));
+  }
+
+  /**
+   * Parse a response and raise API errors
+   */
+  private async readBody(response: Response): Promise<any> {
+    const body = await response.json();
+    if (!response.ok) {
+      throw new SessionApiError(body.error || `Session request failed (${response.status})`, response.status);
+    }
+    return body;
+  }
+}
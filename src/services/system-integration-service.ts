@@ -6,12 +6,13 @@
  */
 
 import { CognitiveAgent, AgentFactory, UserInput, AgentResponse, UserState, AgentState, RelationalDelta } from '@/types';
+import { HybridContextItem, MemoryAssistant } from '@/types/memory';
 import { agentFactory } from '@/lib/agent-factory';
+import type { LegacySystemService } from './legacy-system-service';
 // Import services with fallback handling for missing exports
 let chroniclerService: any = null;
 let collaborationService: any = null;
 let empatibrygganService: any = null;
-let legacySystemService: any = null;
 let minnenasBokService: any = null;
 let suggestionService: any = null;
 
@@ -33,12 +34,6 @@ try {
   console.warn('Empatibryggan service not available');
 }
 
-try {
-  legacySystemService = require('./legacy-system-service').legacySystemService;
-} catch (e) {
-  console.warn('Legacy system service not available');
-}
-
 try {
   minnenasBokService = require('./minnenas-bok-service').minnenasBokService;
 } catch (e) {
@@ -91,6 +86,24 @@ class SystemIntegrationService {
   private healthCheckInterval: NodeJS.Timeout | null = null;
   private metrics: SystemMetrics[] = [];
   private maxMetricsHistory = 1000;
+  private memoryAssistant: MemoryAssistant | null = null;
+  private legacySystemService: LegacySystemService | null = null;
+
+  /**
+   * Use a memory system for conversation context (null to stop)
+   * The memory system is server-only, so the server bootstrap attaches it.
+   */
+  setMemoryAssistant(memoryAssistant: MemoryAssistant | null): void {
+    this.memoryAssistant = memoryAssistant;
+  }
+
+  /**
+   * Use a legacy system for query-triggered legacy content (null to stop)
+   * The legacy store is server-only, so the server bootstrap attaches it.
+   */
+  setLegacySystemService(legacySystemService: LegacySystemService | null): void {
+    this.legacySystemService = legacySystemService;
+  }
 
   /**
    * Initialize the system integration service
@@ -122,11 +135,17 @@ class SystemIntegrationService {
         entry_phase: 'EMERGE'
       }, 'Coordinator');
 
-      // Process through cognitive agent
-      const response = await coordinator.processInput(input);
+      // Process through cognitive agent, with the memories relevant to the conversation
+      const memoryContext = await this.loadConversationMemory(input, coordinator);
+      const response = await coordinator.processInput(
+        memoryContext ? { ...input, context: { ...input.context, memory_context: memoryContext } } : input
+      );
       
       // Route to appropriate specialized services based on response type
-      const enhancedResponse = await this.routeToSpecializedServices(input, response);
+      const routedResponse = await this.routeToSpecializedServices(input, response);
+
+      // Legacy content left for this question takes the place of the generic answer
+      const enhancedResponse = await this.surfaceLegacyContent(input, routedResponse);
       
       // Record metrics
       this.recordMetrics(Date.now() - startTime);
@@ -139,6 +158,44 @@ class SystemIntegrationService {
     }
   }
 
+  /**
+   * Load ranked hybrid memory context for a user's conversation
+   * Semantic hits seed graph expansion and the fused results are trimmed to
+   * the coordinator's context token budget.
+   */
+  private async loadConversationMemory(
+    input: UserInput,
+    coordinator: CognitiveAgent
+  ): Promise<HybridContextItem[] | null> {
+    const userId = input.context?.user_id;
+    if (input.type !== 'chat' || !userId || !this.memoryAssistant) {
+      return null;
+    }
+
+    try {
+      const contextThread = coordinator.contextThread;
+      const context = await this.memoryAssistant.loadSTM(
+        input.context?.conversation_id || contextThread.id,
+        input.text,
+        {
+          mode: 'hybrid',
+          scope: {
+            id: `conversation-${userId}`,
+            user_ids: [userId],
+            project_ids: [],
+            contact_ids: [],
+            permissions: { read: true, write: false, delete: false }
+          },
+          resourceBudget: contextThread.resource_budget
+        }
+      );
+      return context.ranked || [];
+    } catch (error) {
+      console.warn('Memory context error:', error);
+      return null;
+    }
+  }
+
   /**
    * Route responses to appropriate specialized services
    */
@@ -220,6 +277,51 @@ class SystemIntegrationService {
     return enhancedResponse;
   }
 
+  /**
+   * Answer with legacy content when the user's question matches a query-based trigger
+   * Tactful content is only offered; the offer action carries the reply token
+   * for accepting it through the legacy system's permission handshake.
+   */
+  private async surfaceLegacyContent(
+    input: UserInput,
+    response: AgentResponse
+  ): Promise<AgentResponse> {
+    const userId = input.context?.user_id;
+    if (input.type !== 'chat' || !userId || !this.legacySystemService) {
+      return response;
+    }
+
+    try {
+      const surfacing = await this.legacySystemService.surfaceForQuery(userId, input.text, {
+        asked_at: input.timestamp,
+        user_state: response.user_state,
+        location: input.context?.location,
+        recent_activity: input.context?.recent_activity
+      });
+      if (!surfacing) {
+        return response;
+      }
+
+      return {
+        ...response,
+        text: surfacing.text,
+        type: surfacing.delivered ? 'message' : 'suggestion',
+        actions: surfacing.delivered ? [] : [{
+          type: 'send_message',
+          parameters: {
+            legacy_content_id: surfacing.content_id,
+            contact_id: surfacing.contact_id,
+            reply_token: surfacing.reply_token
+          },
+          requires_approval: true
+        }]
+      };
+    } catch (error) {
+      console.warn('Legacy system service error:', error);
+      return response;
+    }
+  }
+
   /**
    * Validate end-to-end data flow between components
    */
@@ -334,9 +436,6 @@ class SystemIntegrationService {
     if (empatibrygganService && typeof empatibrygganService.shutdown === 'function') {
       shutdownPromises.push(empatibrygganService.shutdown());
     }
-    if (legacySystemService && typeof legacySystemService.shutdown === 'function') {
-      shutdownPromises.push(legacySystemService.shutdown());
-    }
     if (minnenasBokService && typeof minnenasBokService.shutdown === 'function') {
       shutdownPromises.push(minnenasBokService.shutdown());
     }
@@ -48,6 +48,9 @@ export interface ReflectionEntry {
   
   /** Reflection status */
   status: ReflectionStatus;
+  
+  /** Journal the reflection was imported from */
+  import_source?: ReflectionImportSource;
 }
 
 /**
@@ -152,6 +155,69 @@ export interface ReflectionLocation {
   significance?: string;
 }
 
+/**
+ * Immutable snapshot of a reflection taken each time it changes
+ */
+export interface ReflectionRevision {
+  /** Unique revision identifier */
+  id: string;
+
+  /** Reflection this revision belongs to */
+  reflection_id: string;
+
+  /** Owner of the reflection */
+  user_id: string;
+
+  /** Position in the reflection's history, starting at 1 */
+  revision_number: number;
+
+  /** User who made the change */
+  author_id: string;
+
+  /** What produced this revision */
+  reason: ReflectionRevisionReason;
+
+  /** Revision whose content was restored (restores only) */
+  restored_from?: string;
+
+  /** Emotional context when the change was made */
+  emotional_context: UserState;
+
+  /** Reflection content as of this revision */
+  snapshot: ReflectionSnapshot;
+
+  /** When the revision was made */
+  created_at: Date;
+}
+
+/**
+ * Reflection fields captured by a revision and put back by a restore
+ */
+export interface ReflectionSnapshot {
+  /** Reflection title */
+  title: string;
+
+  /** Reflection content */
+  content: ReflectionContent;
+
+  /** Tags for categorization */
+  tags: string[];
+
+  /** Associated assets */
+  assets: Asset[];
+
+  /** Location where the reflection was written */
+  location?: ReflectionLocation;
+}
+
+/**
+ * What produced a reflection revision
+ */
+export type ReflectionRevisionReason =
+  | 'original'   // Content before the first tracked change
+  | 'update'
+  | 'restore';
+
 /**
  * Cortex-mode message transformation
  * Requirement 19.2: Message transformation for recipients
@@ -342,6 +408,9 @@ export interface ExternalAssetIntegration {
   /** Sync statistics */
   sync_stats?: SyncStatistics;
   
+  /** Incremental sync progress */
+  sync_state?: IntegrationSyncState;
+  
   /** Creation timestamp */
   created_at: Date;
   
@@ -390,6 +459,20 @@ export interface ExternalAuth {
   method: 'oauth2' | 'api_key' | 'service_account';
 }
 
+/**
+ * Tokens handed over when an account is connected
+ */
+export interface ExternalTokenGrant {
+  /** Access token (plain text; encrypted before it is stored) */
+  access_token: string;
+  
+  /** Refresh token, when the provider issued one */
+  refresh_token?: string;
+  
+  /** Access token expiry */
+  expires_at?: Date;
+}
+
 /**
  * Integration settings
  */
@@ -414,6 +497,68 @@ export interface IntegrationSettings {
   
   /** Privacy settings */
   privacy: IntegrationPrivacy;
+  
+  /** Project that synced assets are stored in (created on first sync when missing) */
+  project_id?: string;
+  
+  /** What to do when a remote asset changes after it was synced */
+  conflict_policy?: SyncConflictPolicy;
+}
+
+/**
+ * Conflict resolution for remote assets that changed after they were synced
+ * - prefer_remote: replace the local copy with the new version
+ * - keep_both: keep the local copy and add the new version next to it
+ * - keep_local: keep the local copy and ignore the new version
+ */
+export type SyncConflictPolicy = 'prefer_remote' | 'keep_both' | 'keep_local';
+
+/**
+ * Incremental sync progress of an integration
+ */
+export interface IntegrationSyncState {
+  /** Provider delta cursor; absent until the first full listing completes */
+  cursor?: string;
+  
+  /** Synced items keyed by external identifier */
+  items: Record<string, SyncedAssetRecord>;
+  
+  /** Changes whose download failed, retried at the start of the next sync */
+  failed_items?: Record<string, FailedSyncItem>;
+  
+  /** Do not call the provider again before this time */
+  retry_after?: Date;
+  
+  /** Last sync error */
+  last_error?: string;
+}
+
+/**
+ * Remote change waiting for another download attempt
+ */
+export interface FailedSyncItem {
+  /** Remote asset as last listed */
+  asset: ExternalAsset;
+  
+  /** Version that failed */
+  version: string;
+}
+
+/**
+ * Link between a remote item and the local asset it was synced into
+ */
+export interface SyncedAssetRecord {
+  /** Local asset ID; absent when the user deleted the local copy */
+  asset_id?: string;
+  
+  /** Provider version (revision, etag or checksum) that was synced */
+  version: string;
+  
+  /** When the item was last synced */
+  synced_at: Date;
+  
+  /** The item has been deleted on the provider; the local copy is kept */
+  remote_deleted?: boolean;
 }
 
 /**
@@ -474,6 +619,12 @@ export interface SyncStatistics {
   
   /** Average sync time per asset */
   avg_sync_time_per_asset_ms: number;
+  
+  /** Assets skipped in last sync (filtered, unchanged or deleted locally) */
+  last_sync_skipped?: number;
+  
+  /** Remote changes to already synced assets resolved by the conflict policy */
+  last_sync_conflicts?: number;
 }
 
 /**
@@ -618,4 +769,256 @@ export interface WorkflowError {
   
   /** Whether workflow can be retried */
   retryable: boolean;
-}
\ No newline at end of file
+}
+
+/**
+ * Filters for listing a user's reflections
+ */
+export interface ReflectionFilters {
+  /** Reflections carrying these tags */
+  tags?: string[];
+  
+  /** Whether a reflection needs all of the tags or any one of them (default 'all') */
+  tagMatch?: 'all' | 'any';
+  
+  /** Creation date range (inclusive) */
+  dateRange?: { start: Date; end: Date };
+  
+  /** Privacy level */
+  privacyLevel?: string;
+}
+
+/**
+ * Page of reflections with the total number matching the filters
+ */
+export interface ReflectionPage {
+  /** Reflections on this page, newest first */
+  reflections: ReflectionEntry[];
+  
+  /** Total matching reflections */
+  total: number;
+}
+
+/**
+ * Situation in which a reflection's emotional context was captured
+ */
+export type EmotionalContextSource = 'reflection_creation' | 'reflection_update';
+
+/**
+ * Search request over a user's reflections
+ * Keyword matching is stemmed (Swedish and English) and combined with semantic similarity.
+ */
+export interface ReflectionSearchRequest {
+  /** Free-text query; empty lists the filtered reflections newest first */
+  query: string;
+  
+  /** Filters narrowing the candidates before ranking */
+  filters?: ReflectionSearchFilters;
+  
+  /** Paging over the ranked hits */
+  pagination?: { offset: number; limit: number };
+}
+
+/**
+ * Filters for reflection search
+ */
+export interface ReflectionSearchFilters extends ReflectionFilters {
+  /** Reflections with any of these dominant emotions */
+  dominantEmotions?: string[];
+  
+  /** Reflections with any of these themes */
+  themes?: string[];
+  
+  /** Reflections written within a radius of a point */
+  location?: { latitude: number; longitude: number; radius_km: number };
+}
+
+/**
+ * Ranked reflection search hit
+ */
+export interface ReflectionSearchHit {
+  /** Matching reflection */
+  reflection: ReflectionEntry;
+  
+  /** Combined relevance (0-1) */
+  score: number;
+  
+  /** Stemmed keyword relevance (0-1) */
+  keyword_score: number;
+  
+  /** Semantic similarity to the query (0-1) */
+  semantic_score: number;
+  
+  /** Passages around the keyword matches */
+  snippets: ReflectionSnippet[];
+}
+
+/**
+ * Passage of a reflection with the matched words marked
+ */
+export interface ReflectionSnippet {
+  /** Field the passage comes from */
+  field: 'title' | 'text';
+  
+  /** Passage text */
+  text: string;
+  
+  /** Character ranges in the passage to highlight, end exclusive */
+  highlights: Array<{ start: number; end: number }>;
+}
+
+/**
+ * Number of matching reflections carrying a facet value
+ */
+export interface FacetCount {
+  /** Facet value */
+  value: string;
+  
+  /** Matching reflections with the value */
+  count: number;
+}
+
+/**
+ * Facet counts over all hits of a search, before paging
+ */
+export interface ReflectionSearchFacets {
+  tags: FacetCount[];
+  dominant_emotions: FacetCount[];
+  themes: FacetCount[];
+  privacy_levels: FacetCount[];
+}
+
+/**
+ * Page of ranked reflection search hits with facets
+ */
+export interface ReflectionSearchResults {
+  /** Hits on this page, best first */
+  hits: ReflectionSearchHit[];
+  
+  /** Total hits */
+  total: number;
+  
+  /** Facet counts over all hits */
+  facets: ReflectionSearchFacets;
+}
+
+/**
+ * Journaling formats that can be imported
+ */
+export type JournalImportFormat =
+  | 'markdown'      // Folder of Markdown files, optionally with front matter
+  | 'day_one'       // Day One JSON export
+  | 'plain_text'    // Plain-text diary with dated headings
+  | 'google_keep';  // Google Takeout Keep notes (JSON per note)
+
+/**
+ * File handed to an importer
+ */
+export interface JournalImportFile {
+  /** Path within the export, used as a stable identifier */
+  path: string;
+  
+  /** File contents */
+  content: string;
+}
+
+/**
+ * Options for a journal import
+ */
+export interface JournalImportOptions {
+  /** Timezone for dates written without one (default Europe/Stockholm) */
+  time_zone?: string;
+}
+
+/**
+ * Where an imported reflection came from
+ */
+export interface ReflectionImportSource {
+  /** Source format */
+  format: JournalImportFormat;
+  
+  /** Identifier of the entry in the source (path, UUID) */
+  external_id: string;
+  
+  /** Fingerprint of the entry's text, for de-duplication */
+  fingerprint: string;
+  
+  /** When the entry was last imported */
+  imported_at: Date;
+}
+
+/**
+ * Journal entry parsed from an export, before it becomes a reflection
+ */
+export interface ParsedJournalEntry {
+  /** Identifier of the entry in the source */
+  external_id: string;
+  
+  /** Title, when the source has one */
+  title?: string;
+  
+  /** Plain text of the entry */
+  text: string;
+  
+  /** Structured blocks of the entry */
+  blocks: ReflectionBlock[];
+  
+  /** Original creation time */
+  created_at: Date;
+  
+  /** Original modification time */
+  updated_at?: Date;
+  
+  /** Where the entry was written */
+  location?: ReflectionLocation;
+  
+  /** Tags or labels from the source */
+  tags: string[];
+}
+
+/**
+ * Why an entry was not imported
+ */
+export type JournalImportSkipReason =
+  | 'duplicate'   // Same text as an existing reflection from about the same time
+  | 'unchanged'   // Already imported and not changed since
+  | 'empty'       // No text
+  | 'trashed'     // Deleted in the source app
+  | 'invalid';    // Could not be parsed
+
+/**
+ * Entry listed in an import report
+ */
+export interface JournalImportReportItem {
+  /** Identifier of the entry in the source */
+  external_id: string;
+  
+  /** Entry title, when known */
+  title?: string;
+  
+  /** Reflection created or updated */
+  reflection_id?: string;
+  
+  /** Why the entry was skipped */
+  reason?: JournalImportSkipReason;
+  
+  /** Details of a parse failure */
+  detail?: string;
+}
+
+/**
+ * Outcome of a journal import
+ */
+export interface JournalImportReport {
+  /** Imported format */
+  format: JournalImportFormat;
+  
+  /** New reflections */
+  imported: JournalImportReportItem[];
+  
+  /** Previously imported reflections updated with changed entries */
+  merged: JournalImportReportItem[];
+  
+  /** Entries left out */
+  skipped: JournalImportReportItem[];
+}
@@ -46,6 +46,13 @@ export interface CognitiveAgent {
    */
   processInput(input: UserInput): Promise<AgentResponse>;
   
+  /**
+   * Run a deliberate Cortex-mode task outside the conversational pipeline
+   * @param request Task to run and its input
+   * @returns Promise resolving to the task result
+   */
+  processInCortexMode(request: CortexTaskRequest): Promise<any>;
+  
   /**
    * Execute the Roundabout cognitive loop
    * EMERGE -> ADAPT -> INTEGRATE sequence
@@ -100,6 +107,22 @@ export interface CognitiveAgent {
   removeChildAgent(childId: string): Promise<ChildAgentReport | null>;
 }
 
+/**
+ * Tasks an agent can run in Cortex mode
+ */
+export type CortexTask = 'transform_reflection_for_recipient';
+
+/**
+ * Request for a Cortex-mode task
+ */
+export interface CortexTaskRequest {
+  /** Task to run */
+  task: CortexTask;
+  
+  /** Task-specific input */
+  input: Record<string, any>;
+}
+
 /**
  * Agent status information
  */
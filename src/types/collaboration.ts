@@ -4,6 +4,7 @@
  */
 
 import { UserState } from './index';
+import { ContentBlock } from './editor';
 
 /**
  * Collaboration invitation
@@ -83,6 +84,9 @@ export interface CollaborativeSession {
   /** Resource type */
   resource_type: 'reflection' | 'project' | 'page';
   
+  /** User who started the session */
+  host_user_id?: string;
+  
   /** Active participants */
   participants: SessionParticipant[];
   
@@ -157,10 +161,57 @@ export interface BlockLock {
   /** Lock expiration timestamp */
   expires_at: Date;
   
+  /** Last time the holder extended the lease */
+  renewed_at?: Date;
+  
+  /** Pending request from another user to take the lock over */
+  takeover?: LockTakeoverRequest;
+  
   /** Lock metadata */
   metadata?: Record<string, any>;
 }
 
+/**
+ * Request to take over a block lock held by someone else
+ * The holder is notified and the lock passes to the requester when it is
+ * released, expires or the grace period runs out.
+ */
+export interface LockTakeoverRequest {
+  /** User asking for the lock */
+  requested_by: string;
+  
+  /** Request timestamp */
+  requested_at: Date;
+  
+  /** When the lock is handed over even if the holder keeps it */
+  grant_at: Date;
+}
+
+/**
+ * Outcome of a lock takeover request
+ */
+export interface LockTakeoverResult {
+  /** Whether the requester holds the lock now or waits for the grace period */
+  status: 'granted' | 'pending';
+  
+  /** The lock as it stands after the request */
+  lock: BlockLock;
+}
+
+/**
+ * Lock changes made by one sweep over the active sessions
+ */
+export interface LockSweepResult {
+  /** Sessions inspected */
+  sessions_checked: number;
+  
+  /** Locks removed because their lease ran out */
+  expired: Array<{ session_id: string; lock: BlockLock }>;
+  
+  /** Locks handed to a requester whose grace period ended */
+  taken_over: Array<{ session_id: string; lock: BlockLock }>;
+}
+
 /**
  * Lock types
  */
@@ -210,6 +261,9 @@ export interface SessionSettings {
   /** Lock timeout in seconds */
   lock_timeout: number;
   
+  /** Seconds a lock holder gets to finish before a takeover is forced (default 30) */
+  takeover_grace_period?: number;
+  
   /** Maximum participants */
   max_participants: number;
 }
@@ -248,7 +302,10 @@ export type ActivityType =
   | 'locked'
   | 'unlocked'
   | 'invited'
-  | 'permission_changed';
+  | 'permission_changed'
+  | 'lock_expired'
+  | 'takeover_requested'
+  | 'lock_taken_over';
 
 /**
  * Cursor position for real-time collaboration
@@ -471,6 +528,15 @@ export interface GuestAccessControl {
   
   /** Last access timestamp */
   last_access_at?: Date;
+  
+  /** Resources opened so far (counts against a usage quota) */
+  access_count?: number;
+  
+  /** Invitation link the guest came in through */
+  invitation_link_id?: string;
+  
+  /** When the host withdrew the access */
+  revoked_at?: Date;
 }
 
 /**
@@ -495,10 +561,16 @@ export interface AccessibleResource {
 
 /**
  * Access restriction for guest users
+ * Parameters by type:
+ * - ip_address: `allowed_ips`, or `bind_on_redeem` to allow only the address a link was opened from
+ * - device_binding: `device_id`, or `bind_on_redeem` to allow only the device a link was opened on
+ * - time_window: `max_duration_hours` from the grant, `not_before`, `not_after`
+ * - usage_quota: `max_accesses`
+ * - content_filter: `exclude_private`, `exclude_tags`
  */
 export interface AccessRestriction {
   /** Restriction type */
-  type: 'ip_address' | 'time_window' | 'usage_quota' | 'content_filter';
+  type: 'ip_address' | 'device_binding' | 'time_window' | 'usage_quota' | 'content_filter';
   
   /** Restriction description */
   description: string;
@@ -510,6 +582,195 @@ export interface AccessRestriction {
   enforcement: 'strict' | 'warning' | 'log_only';
 }
 
+/**
+ * Options for granting guest access
+ */
+export interface GuestAccessOptions {
+  /** Hours the access lasts (default 24) */
+  duration_hours?: number;
+  
+  /** Restrictions (default: the access window and no private content) */
+  restrictions?: AccessRestriction[];
+  
+  /** Invitation link the guest came in through */
+  invitation_link_id?: string;
+}
+
+/**
+ * Shareable invitation link for a guest without an account
+ * The link itself only carries a signed ID and expiry; everything it grants
+ * is stored here so the host can revoke it.
+ */
+export interface GuestInvitationLink {
+  /** Link ID */
+  id: string;
+  
+  /** User sharing the link */
+  host_user_id: string;
+  
+  /** Session guests join */
+  session_id: string;
+  
+  /** Name the host gave the guest, e.g. "Grandchildren" */
+  label?: string;
+  
+  /** Resources each guest may open */
+  accessible_resources: AccessibleResource[];
+  
+  /** Restrictions copied to each guest's access */
+  restrictions: AccessRestriction[];
+  
+  /** Hours each guest's access lasts */
+  access_duration_hours: number;
+  
+  /** How many guests may redeem the link */
+  max_uses: number;
+  
+  /** How many guests have redeemed it */
+  use_count: number;
+  
+  /** Guests who redeemed the link */
+  redemptions: GuestLinkRedemption[];
+  
+  /** Creation timestamp */
+  created_at: Date;
+  
+  /** Link expiration */
+  expires_at: Date;
+  
+  /** When the host withdrew the link */
+  revoked_at?: Date;
+}
+
+/**
+ * One use of a guest invitation link
+ */
+export interface GuestLinkRedemption {
+  /** Guest identity created for the visit */
+  guest_user_id: string;
+  
+  /** Access control granted */
+  access_control_id: string;
+  
+  /** Redemption timestamp */
+  redeemed_at: Date;
+  
+  /** Address the link was opened from */
+  ip_address?: string;
+  
+  /** Device the link was opened on */
+  device_id?: string;
+}
+
+/**
+ * Options for creating a guest invitation link
+ */
+export interface GuestInvitationLinkOptions {
+  /** Name for the guest, shown to the host */
+  label?: string;
+  
+  /** Hours the link can be redeemed (default 72) */
+  link_ttl_hours?: number;
+  
+  /** How many guests may redeem it (default 1) */
+  max_uses?: number;
+  
+  /** Hours each guest's access lasts (default 24) */
+  access_duration_hours?: number;
+  
+  /** Restrictions for each guest (default: the access window, no private content, bound to the first device) */
+  restrictions?: AccessRestriction[];
+}
+
+/**
+ * Where a guest request comes from
+ */
+export interface GuestClientContext {
+  /** Client IP address */
+  ip_address?: string;
+  
+  /** Stable device identifier kept by the client */
+  device_id?: string;
+}
+
+/**
+ * What a guest is opening, checked against content filters
+ * The privacy of the content is looked up by the service, not taken from here.
+ */
+export interface GuestAccessContext extends GuestClientContext {
+  /** Tags of the content */
+  tags?: string[];
+}
+
+/**
+ * Restriction a guest request broke
+ */
+export interface GuestAccessViolation {
+  /** Restriction type */
+  type: AccessRestriction['type'];
+  
+  /** Enforcement level of the restriction */
+  enforcement: AccessRestriction['enforcement'];
+  
+  /** What was wrong */
+  reason: string;
+}
+
+/**
+ * Outcome of checking a guest request
+ */
+export interface GuestAccessDecision {
+  /** Whether the request may go ahead */
+  allowed: boolean;
+  
+  /** Why it was refused, when it was */
+  reason?: string;
+  
+  /** Restrictions broken, including ones that only warn or log */
+  violations: GuestAccessViolation[];
+}
+
+/**
+ * Audit entry for a resource a guest opened or tried to open
+ */
+export interface GuestAccessAuditEntry {
+  /** Entry ID */
+  id: string;
+  
+  /** Access control the request was checked against */
+  access_control_id: string;
+  
+  /** Guest user ID */
+  guest_user_id: string;
+  
+  /** Host user ID */
+  host_user_id: string;
+  
+  /** Resource opened */
+  resource_id: string;
+  
+  /** Access requested */
+  access_type: 'read' | 'write';
+  
+  /** Whether the guest got in */
+  outcome: 'allowed' | 'denied';
+  
+  /** Why it was refused, when it was */
+  reason?: string;
+  
+  /** Restrictions broken */
+  violations: GuestAccessViolation[];
+  
+  /** Address the request came from */
+  ip_address?: string;
+  
+  /** Device the request came from */
+  device_id?: string;
+  
+  /** Request timestamp */
+  occurred_at: Date;
+}
+
 /**
  * Collaboration workflow state
  */
@@ -573,4 +834,200 @@ export interface CollaborationWorkflowData {
   
   /** Workflow metadata */
   metadata: Record<string, any>;
-}
\ No newline at end of file
+}
+
+/**
+ * Identifier of a co-editing operation
+ * A Lamport counter and the replica that made it; ordering by counter, then
+ * replica, gives every replica the same total order.
+ */
+export interface CrdtOpId {
+  /** Replica (client connection) that made the operation */
+  site: string;
+  
+  /** Lamport counter; a text run uses one counter per character */
+  counter: number;
+}
+
+/**
+ * Operation on the shared block document
+ */
+export type CrdtOperation =
+  | CrdtBlockInsert
+  | CrdtBlockMove
+  | CrdtBlockDelete
+  | CrdtBlockAttributes
+  | CrdtTextInsert
+  | CrdtTextDelete
+  | CrdtTrackedChange;
+
+/**
+ * New block at an ordering position (its text arrives as text inserts)
+ */
+export interface CrdtBlockInsert {
+  kind: 'block_insert';
+  id: CrdtOpId;
+  block_id: string;
+  
+  /** Fractional ordering key; blocks sort by key, then by block ID */
+  position: string;
+  
+  /** Block fields other than its text */
+  attributes: Record<string, any>;
+}
+
+/**
+ * Block moved to a new ordering position (last writer wins)
+ */
+export interface CrdtBlockMove {
+  kind: 'block_move';
+  id: CrdtOpId;
+  block_id: string;
+  position: string;
+}
+
+/**
+ * Block removed (removal wins over concurrent edits)
+ */
+export interface CrdtBlockDelete {
+  kind: 'block_delete';
+  id: CrdtOpId;
+  block_id: string;
+}
+
+/**
+ * Block fields other than its text set (last writer wins per field)
+ */
+export interface CrdtBlockAttributes {
+  kind: 'block_attributes';
+  id: CrdtOpId;
+  block_id: string;
+  attributes: Record<string, any>;
+}
+
+/**
+ * Text inserted into a block after a character (null inserts at the start)
+ */
+export interface CrdtTextInsert {
+  kind: 'text_insert';
+  id: CrdtOpId;
+  block_id: string;
+  after: CrdtOpId | null;
+  text: string;
+}
+
+/**
+ * Characters removed from a block's text
+ */
+export interface CrdtTextDelete {
+  kind: 'text_delete';
+  id: CrdtOpId;
+  block_id: string;
+  targets: CrdtOpId[];
+}
+
+/**
+ * Tracked change of a block recorded or edited in review mode, or settled
+ * Settling (accepting or rejecting) wins over concurrent edits of the change;
+ * otherwise the last writer wins.
+ */
+export interface CrdtTrackedChange {
+  kind: 'tracked_change';
+  id: CrdtOpId;
+  block_id: string;
+  change_id: string;
+  
+  /** The change in its JSON form, or null once it was settled */
+  change: Record<string, any> | null;
+}
+
+/**
+ * Operation as ordered by the collaboration server
+ */
+export interface CrdtSequencedOperation {
+  /** Position in the document's operation log, starting at 1 */
+  seq: number;
+  
+  /** User whose replica made the operation */
+  user_id: string;
+  
+  op: CrdtOperation;
+}
+
+/**
+ * Collaborator identity shown to other participants
+ */
+export interface CollaboratorIdentity {
+  id: string;
+  name: string;
+  color: string;
+}
+
+/**
+ * What a participant is looking at and working on
+ */
+export interface AwarenessState {
+  /** Caret position */
+  cursor?: CursorPosition;
+  
+  /** Block the participant is editing (an advisory lock hint) */
+  editing_block_id?: string;
+}
+
+/**
+ * Connected participant with their awareness state
+ */
+export interface PeerPresence {
+  /** Connection identifier (one user may be connected more than once) */
+  connection_id: string;
+  
+  user: CollaboratorIdentity;
+  
+  awareness: AwarenessState;
+}
+
+/**
+ * Message from a co-editing client to the server
+ */
+export type CollaborationClientMessage =
+  | {
+    type: 'join';
+    document_id: string;
+    
+    /** Project the document belongs to (hubs with an access policy require it) */
+    project_id?: string;
+    
+    /** Shown to other peers; a hub with an access policy replaces the ID with the authenticated user */
+    user: CollaboratorIdentity;
+    
+    /** Last operation sequence the client has seen (0 on first join) */
+    since: number;
+    
+    /** Blocks to start the document from when the server has none */
+    seed: ContentBlock[];
+    
+    /** Operations made offline and not yet acknowledged */
+    ops: CrdtOperation[];
+    
+    awareness: AwarenessState;
+  }
+  | { type: 'ops'; ops: CrdtOperation[] }
+  | { type: 'awareness'; awareness: AwarenessState };
+
+/**
+ * Message from the server to a co-editing client
+ */
+export type CollaborationServerMessage =
+  | {
+    type: 'welcome';
+    connection_id: string;
+    
+    /** Operations after the client's `since`, including its own just accepted */
+    ops: CrdtSequencedOperation[];
+    
+    peers: PeerPresence[];
+  }
+  | { type: 'ops'; ops: CrdtSequencedOperation[] }
+  | { type: 'awareness'; peer: PeerPresence }
+  | { type: 'peer_left'; connection_id: string }
+  | { type: 'error'; message: string };
@@ -31,6 +31,9 @@ export interface User {
   
   /** Account status */
   status: 'active' | 'inactive' | 'suspended';
+  
+  /** Last sign-in timestamp */
+  last_login_at?: Date;
 }
 
 /**
@@ -51,6 +54,52 @@ export interface UserProfile {
   
   /** User preferences */
   preferences: UserPreferences;
+  
+  /** Date of birth, from which birthdays and milestone ages are derived */
+  birth_date?: Date;
+  
+  /** Yearly dates to remember, such as a wedding day */
+  anniversaries?: ProfileAnniversary[];
+  
+  /** Life events the user has recorded */
+  life_events?: LifeEventRecord[];
+}
+
+/**
+ * Yearly date kept on a profile
+ */
+export interface ProfileAnniversary {
+  /** Kind of anniversary, e.g. "wedding" */
+  anniversary_type: string;
+  
+  /** Original date */
+  date: Date;
+}
+
+/**
+ * Life events a user can record
+ */
+export type LifeEventType = 
+  | 'graduation'
+  | 'marriage'
+  | 'new_job'
+  | 'retirement';
+
+/**
+ * Recorded life event
+ */
+export interface LifeEventRecord {
+  /** Unique life event identifier */
+  id: string;
+  
+  /** Kind of life event */
+  type: LifeEventType;
+  
+  /** When it happened */
+  occurred_at: Date;
+  
+  /** Free-form details, e.g. the school or employer */
+  details: Record<string, string | number>;
 }
 
 /**
@@ -401,7 +450,17 @@ export type GraphNodeType =
   | 'Asset'
   | 'Event'
   | 'Theme'
-  | 'Trigger';
+  | 'Trigger'
+  | 'Reflection'
+  | 'ReflectionRevision'
+  | 'Transformation'
+  | 'Workflow'
+  | 'ExternalIntegration'
+  | 'CollaborativeSession'
+  | 'GuestAccessControl'
+  | 'GuestInvitationLink'
+  | 'GuestAccessAudit'
+  | 'CommentThread';
 
 /**
  * Graph database relationship types for Neo4j
@@ -531,6 +590,7 @@ export type ProjectType =
  */
 export type ProjectStatus = 
   | 'active'
+  | 'completed'
   | 'archived'
   | 'deleted'
   | 'template';
@@ -725,6 +785,9 @@ export interface Asset {
   /** Upload timestamp */
   uploaded_at: Date;
   
+  /** Last change to the file or its metadata */
+  updated_at?: Date;
+  
   /** Last accessed timestamp */
   last_accessed_at?: Date;
   
@@ -0,0 +1,80 @@
+/**
+ * Domain event types
+ * Events published by repositories and services on the internal event bus
+ */
+
+import { LifeEventRecord, Project, User } from './data-models';
+import { ReflectionEntry } from './chronicler';
+import { MemoryLink } from './minnenas-bok';
+import { BlockLock } from './collaboration';
+import { CommentThread, EditorComment } from './editor';
+
+/**
+ * Payload of each domain event, keyed by event type
+ */
+export interface DomainEventMap {
+  /** A user account was created */
+  'user.created': { user: User };
+
+  /** A user or their profile was updated */
+  'user.updated': { user: User };
+
+  /** A user signed in */
+  'user.logged_in': { user_id: string; first_login: boolean };
+
+  /** A user recorded a life event such as a graduation */
+  'user.life_event_recorded': { user_id: string; life_event: LifeEventRecord };
+
+  /** A project was marked as completed */
+  'project.completed': { project: Project };
+
+  /** A personal reflection was saved */
+  'reflection.created': { reflection: ReflectionEntry };
+
+  /** Thematic analysis linked memories of two users */
+  'memory_link.discovered': { link: MemoryLink };
+
+  /** Someone asked for a block lock another user holds */
+  'collaboration.lock_takeover_requested': { session_id: string; lock: BlockLock };
+
+  /** A block lock passed from its holder to another user */
+  'collaboration.lock_taken_over': { session_id: string; lock: BlockLock; previous_holder_id: string; forced: boolean };
+
+  /** A block lock was removed because its lease ran out */
+  'collaboration.lock_expired': { session_id: string; lock: BlockLock };
+
+  /** A comment @mentioned a participant who can read the document's comments */
+  'comment.mentioned': { project_id: string; thread: CommentThread; comment: EditorComment; mentioned_user_id: string };
+}
+
+/**
+ * Domain event type names
+ */
+export type DomainEventType = keyof DomainEventMap;
+
+/**
+ * Published domain event
+ */
+export interface DomainEvent<K extends DomainEventType = DomainEventType> {
+  /** Unique event identifier */
+  id: string;
+
+  /** Event type */
+  type: K;
+
+  /** When the event happened */
+  occurred_at: Date;
+
+  /** Event payload */
+  payload: DomainEventMap[K];
+}
+
+/**
+ * Any domain event, narrowed by checking its type
+ */
+export type AnyDomainEvent = { [K in DomainEventType]: DomainEvent<K> }[DomainEventType];
+
+/**
+ * Handler for one domain event type
+ */
+export type DomainEventHandler<K extends DomainEventType> = (event: DomainEvent<K>) => void | Promise<void>;
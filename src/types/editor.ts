@@ -3,6 +3,11 @@
  * Defines the UIStateTree structure and editor interfaces
  */
 
+import { BlockLock, SessionParticipant } from './collaboration';
+import type { BlockLockApi } from '../services/block-lock-client';
+import type { CommentApi } from '../services/comment-client';
+import type { ReviewApi } from '../services/review-client';
+
 /**
  * Base block interface for all content blocks
  */
@@ -151,8 +156,20 @@ export interface UIStateTree {
     /** Layout preferences */
     layout?: string;
   };
+  
+  /** Comment threads on the document's blocks, exported along with it */
+  comments?: CommentThread[];
+  
+  /** Edits made in review mode that are waiting to be accepted or rejected, oldest first */
+  tracked_changes?: TrackedChange[];
 }
 
+/**
+ * Editor mode
+ * Review mode records every edit as a tracked change instead of applying it outright.
+ */
+export type EditorMode = 'creative-flow' | 'suggestion' | 'review';
+
 /**
  * Editor state interface
  */
@@ -164,7 +181,7 @@ export interface EditorState {
   selectedBlockId?: string;
   
   /** Editor mode */
-  mode: 'creative-flow' | 'suggestion';
+  mode: EditorMode;
   
   /** Collaboration state */
   collaboration: {
@@ -217,21 +234,169 @@ export interface EditorSuggestion {
   confidence: number;
 }
 
+/**
+ * Place in the document a comment thread is attached to
+ * Offsets are character positions in the block's text and follow its edits.
+ */
+export interface CommentAnchor {
+  /** Block the thread is attached to */
+  block_id: string;
+  
+  /** Offset where the commented text starts */
+  start: number;
+  
+  /** Offset just past the commented text */
+  end: number;
+  
+  /** Commented text when the thread was opened */
+  quote: string;
+  
+  /** Set when the commented text or its block no longer exists */
+  detached?: boolean;
+}
+
+/**
+ * Comment thread status
+ */
+export type CommentThreadStatus = 'open' | 'resolved';
+
+/**
+ * One comment in a thread
+ */
+export interface EditorComment {
+  /** Comment ID */
+  id: string;
+  
+  /** Author user ID */
+  author_id: string;
+  
+  /** Author display name */
+  author_name: string;
+  
+  /** Comment text */
+  text: string;
+  
+  /** User IDs of the participants @mentioned in the text */
+  mentions: string[];
+  
+  /** When the comment was written */
+  created_at: Date;
+}
+
+/**
+ * Discussion anchored to a range of a block
+ */
+export interface CommentThread {
+  /** Thread ID */
+  id: string;
+  
+  /** Document the thread belongs to */
+  document_id: string;
+  
+  /** Project of the document (set on threads stored by the comment service) */
+  project_id?: string;
+  
+  /** Commented range */
+  anchor: CommentAnchor;
+  
+  /** Opening comment followed by the replies, oldest first */
+  comments: EditorComment[];
+  
+  /** Thread status */
+  status: CommentThreadStatus;
+  
+  /** When the thread was opened */
+  created_at: Date;
+  
+  /** When a comment was last added or the status last changed */
+  updated_at: Date;
+  
+  /** User who resolved the thread */
+  resolved_by?: string;
+  
+  /** When the thread was resolved */
+  resolved_at?: Date;
+}
+
+/**
+ * What a user may do with a document's comments
+ */
+export interface CommentPermissions {
+  /** May read the threads */
+  can_view: boolean;
+  
+  /** May open threads and reply */
+  can_comment: boolean;
+  
+  /** May resolve and reopen threads others opened */
+  can_resolve_any: boolean;
+}
+
+/**
+ * User an edit is attributed to
+ */
+export interface ChangeAuthor {
+  /** User ID */
+  user_id: string;
+  
+  /** Display name */
+  display_name: string;
+}
+
+/**
+ * Edit of one block recorded in review mode
+ * Edits of a block stack in the order they were made: accepting a change
+ * also accepts the earlier ones on its block, and rejecting it also rejects
+ * the later ones, which were made on top of it.
+ */
+export interface TrackedChange {
+  /** Change ID */
+  id: string;
+  
+  /** Block that was changed */
+  block_id: string;
+  
+  /** Kind of change */
+  type: 'insertion' | 'deletion' | 'modification';
+  
+  /** Who made the change */
+  author: ChangeAuthor;
+  
+  /** Block before the change (absent for an inserted block) */
+  before?: ContentBlock;
+  
+  /** Block after the change (absent for a deleted block, which stays in the document until accepted) */
+  after?: ContentBlock;
+  
+  /** When the change was first made */
+  created_at: Date;
+  
+  /** When the author last edited the change */
+  updated_at: Date;
+}
+
 /**
  * Editor action types
  */
 export type EditorAction = 
-  | { type: 'ADD_BLOCK'; payload: { block: ContentBlock; position?: number } }
-  | { type: 'UPDATE_BLOCK'; payload: { blockId: string; updates: Partial<ContentBlock> } }
-  | { type: 'DELETE_BLOCK'; payload: { blockId: string } }
+  | { type: 'ADD_BLOCK'; payload: { block: ContentBlock; position?: number; author?: ChangeAuthor } }
+  | { type: 'UPDATE_BLOCK'; payload: { blockId: string; updates: Partial<ContentBlock>; author?: ChangeAuthor } }
+  | { type: 'DELETE_BLOCK'; payload: { blockId: string; author?: ChangeAuthor } }
   | { type: 'MOVE_BLOCK'; payload: { blockId: string; newPosition: number } }
+  | { type: 'SET_BLOCKS'; payload: { blocks: ContentBlock[] } }
+  | { type: 'SET_TRACKED_CHANGES'; payload: { changes: TrackedChange[] } }
   | { type: 'SELECT_BLOCK'; payload: { blockId?: string } }
-  | { type: 'SET_MODE'; payload: { mode: 'creative-flow' | 'suggestion' } }
+  | { type: 'SET_MODE'; payload: { mode: EditorMode } }
   | { type: 'LOCK_BLOCK'; payload: { blockId: string; userId: string } }
   | { type: 'UNLOCK_BLOCK'; payload: { blockId: string } }
   | { type: 'ADD_SUGGESTIONS'; payload: { blockId: string; suggestions: EditorSuggestion[] } }
   | { type: 'ACCEPT_SUGGESTION'; payload: { suggestionId: string } }
   | { type: 'REJECT_SUGGESTION'; payload: { suggestionId: string } }
+  | { type: 'SET_COMMENT_THREAD'; payload: { thread: CommentThread } }
+  | { type: 'ACCEPT_CHANGE'; payload: { changeId: string } }
+  | { type: 'REJECT_CHANGE'; payload: { changeId: string } }
+  | { type: 'ACCEPT_ALL_CHANGES' }
+  | { type: 'REJECT_ALL_CHANGES' }
   | { type: 'UNDO' }
   | { type: 'REDO' };
 
@@ -254,9 +419,48 @@ export interface WYSIWYGEditorProps {
   /** Current user ID for collaboration */
   userId?: string;
   
+  /** Project the document belongs to, whose access rules apply when co-editing */
+  projectId?: string;
+  
+  /** Block lock leases of the collaborative session, shown with their countdowns */
+  sessionLocks?: BlockLock[];
+  
+  /** Collaborative session whose block lock leases are taken while editing */
+  lockSessionId?: string;
+  
+  /** Block lock API for the session's leases (the API route by default) */
+  blockLockApi?: BlockLockApi;
+  
   /** Whether suggestion mode is available */
   suggestionModeEnabled?: boolean;
   
+  /** Whether review mode, which tracks edits for approval, is available */
+  reviewModeEnabled?: boolean;
+  
+  /** Keep the editor in review mode (the project requires approval for changes) */
+  requireApproval?: boolean;
+  
+  /** Whether the current user may accept and reject tracked changes (without a project) */
+  canReviewChanges?: boolean;
+  
+  /** Review API for the review rights on a project's documents (the API route by default) */
+  reviewApi?: ReviewApi;
+  
+  /** Display name of the current user, shown on their comments */
+  userName?: string;
+  
+  /** What the current user may do with comments (the comments panel is hidden without) */
+  commentPermissions?: CommentPermissions;
+  
+  /** Session participants who can be @mentioned in comments */
+  participants?: SessionParticipant[];
+  
+  /** Callback when a comment is added or a thread resolved or reopened */
+  onCommentThreadChange?: (thread: CommentThread) => void;
+  
+  /** Comment API for the threads of a project's document (the API route by default) */
+  commentApi?: CommentApi;
+  
   /** Custom CSS classes */
   className?: string;
   
@@ -294,4 +498,38 @@ export interface BlockComponentProps<T extends ContentBlock = ContentBlock> {
   
   /** Callback when a new block should be added after this one */
   onAddBlock: (blockType: string) => void;
-}
\ No newline at end of file
+}
+/**
+ * Before-and-after comparison of one content block
+ * Shown by the SemanticDiff component for collaboration conflicts and reflection history.
+ */
+export interface SemanticDiff {
+  /** Diff identifier */
+  id: string;
+  
+  /** Block being compared */
+  block_id: string;
+  
+  /** Block before the change (absent when the block was added) */
+  before?: ContentBlock;
+  
+  /** Block after the change (absent when the block was removed) */
+  after?: ContentBlock;
+  
+  /** Individual changes, in reading order */
+  changes: SemanticChange[];
+}
+
+/**
+ * One described change within a semantic diff
+ */
+export interface SemanticChange {
+  /** Kind of change */
+  type: 'addition' | 'deletion' | 'modification';
+  
+  /** Location of the change within the document */
+  path: string;
+  
+  /** Human-readable description */
+  description: string;
+}
@@ -78,6 +78,9 @@ export interface ResourceBudget {
   
   /** Maximum execution time in milliseconds */
   max_execution_time: number;
+  
+  /** Maximum estimated tokens of memory context loaded into STM */
+  max_context_tokens?: number;
 }
 
 /**
@@ -209,6 +212,8 @@ export interface MemoryScope {
     read: boolean;
     write: boolean;
     delete: boolean;
+    /** Architect-only: allow raw Cypher queries against the graph store */
+    raw_cypher?: boolean;
   };
 }
 
@@ -228,7 +233,7 @@ export type CognitivePhase = 'EMERGE' | 'ADAPT' | 'INTEGRATE';
 export type AgentRole = 'Coordinator' | 'Conscious' | 'Core';
 
 // Re-export from cognitive-agent module
-export type { CognitiveAgent, AgentFactory, AgentStatus, ChildAgentReport } from './cognitive-agent';
+export type { CognitiveAgent, AgentFactory, AgentStatus, ChildAgentReport, CortexTask, CortexTaskRequest } from './cognitive-agent';
 
 // Re-export from memory module
 export type { MemoryAssistant, GraphData } from './memory';
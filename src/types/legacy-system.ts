@@ -111,6 +111,58 @@ export interface LegacyTrigger {
   
   /** Next evaluation timestamp */
   next_evaluation_at?: Date;
+  
+  /** Index of the occurrence the scheduler is currently working on (0 for one-off triggers) */
+  occurrence_index?: number;
+  
+  /** Events that matched an event-based trigger, oldest first */
+  matched_events?: MatchedTriggerEvent[];
+  
+  /** Questions that matched a query-based trigger, oldest first */
+  matched_queries?: MatchedTriggerQuery[];
+  
+  /** Check-in, reminder and confirmation progress of an inactivity trigger */
+  inactivity?: InactivityState;
+}
+
+/**
+ * Event that matched an event-based trigger
+ */
+export interface MatchedTriggerEvent {
+  /** Stable event identifier; a repeat of the same event is ignored */
+  event_id: string;
+  
+  /** Event type */
+  event_type: EventType;
+  
+  /** User the event happened to */
+  subject_id: string;
+  
+  /** When the event happened */
+  occurred_at: Date;
+  
+  /** When delivery becomes due, after delay_after_event */
+  deliver_at: Date;
+  
+  /** Recipients the event releases the content to */
+  recipient_ids: string[];
+}
+
+/**
+ * Question that matched a query-based trigger
+ */
+export interface MatchedTriggerQuery {
+  /** Recipient who asked */
+  recipient_id: string;
+  
+  /** What the recipient asked */
+  query_text: string;
+  
+  /** Weighted pattern score of the question */
+  confidence: number;
+  
+  /** When the question was asked */
+  matched_at: Date;
 }
 
 /**
@@ -120,7 +172,8 @@ export interface LegacyTrigger {
 export type LegacyTriggerType = 
   | 'time_based'
   | 'event_based'
-  | 'query_based';
+  | 'query_based'
+  | 'inactivity';
 
 /**
  * Legacy trigger configuration
@@ -128,7 +181,8 @@ export type LegacyTriggerType =
 export type LegacyTriggerConfig = 
   | TimeBasedTriggerConfig
   | EventBasedTriggerConfig
-  | QueryBasedTriggerConfig;
+  | QueryBasedTriggerConfig
+  | InactivityTriggerConfig;
 
 /**
  * Time-based trigger configuration
@@ -146,6 +200,12 @@ export interface TimeBasedTriggerConfig {
   
   /** Recurring pattern (optional) */
   recurring?: RecurringPattern;
+  
+  /** RFC 5545 recurrence rule, e.g. "FREQ=YEARLY;BYMONTH=5;BYDAY=3SU" (takes precedence over recurring) */
+  rrule?: string;
+  
+  /** Occurrences excluded from the recurrence (RFC 5545 EXDATE) */
+  exdates?: Date[];
 }
 
 /**
@@ -214,6 +274,29 @@ export interface EventCriteria {
   
   /** For memory_creation events */
   memory_theme?: string;
+  
+  /** User the event must happen to; without it, events of any recipient match */
+  subject_id?: string;
+}
+
+/**
+ * Legacy-relevant event derived from a domain event or a profile date
+ */
+export interface LegacyEvent {
+  /** Stable identifier, the same each time the event is derived */
+  id: string;
+  
+  /** Event type */
+  type: EventType;
+  
+  /** Users the event happened to */
+  subject_ids: string[];
+  
+  /** When the event happened */
+  occurred_at: Date;
+  
+  /** Values matched against EventCriteria */
+  details: Record<string, string | number | string[]>;
 }
 
 /**
@@ -259,8 +342,158 @@ export interface QueryPattern {
   case_sensitive: boolean;
 }
 
+/**
+ * Inactivity ("dead man's switch") trigger configuration
+ * Releases the content once the creator has stopped checking in, has not
+ * answered the reminders, enough trusted contacts have confirmed, and the
+ * cancellation window has passed without a check-in.
+ */
+export interface InactivityTriggerConfig {
+  /** How often the creator is expected to check in */
+  check_in_interval: DelayConfig;
+  
+  /** Reminders to the creator once a check-in is overdue, in escalating order */
+  reminders: InactivityReminder[];
+  
+  /** How long after the check-in became overdue trusted contacts are asked to confirm */
+  confirmation_after: DelayConfig;
+  
+  /** People asked to confirm the creator can no longer check in */
+  trusted_contacts: TrustedContact[];
+  
+  /** Confirmations needed before release (n of the m trusted contacts) */
+  required_confirmations: number;
+  
+  /** Time between the last needed confirmation and release, during which a check-in still cancels */
+  cancellation_window: DelayConfig;
+}
+
+/**
+ * Reminder sent to the creator about an overdue check-in
+ */
+export interface InactivityReminder {
+  /** Delay after the check-in became overdue */
+  after: DelayConfig;
+  
+  /** Channel used for this reminder */
+  method: DeliveryMethod;
+}
+
+/**
+ * Trusted contact asked to confirm a creator's inactivity
+ */
+export interface TrustedContact {
+  /** Contact ID */
+  contact_id: string;
+  
+  /** Channel used to ask for confirmation */
+  delivery_method: DeliveryMethod;
+}
+
+/**
+ * Phases of an inactivity trigger
+ */
+export type InactivityPhase =
+  | 'watching'
+  | 'reminding'
+  | 'awaiting_confirmation'
+  | 'cancellation_window'
+  | 'released';
+
+/**
+ * Progress of an inactivity trigger since the creator's last check-in
+ */
+export interface InactivityState {
+  /** Current phase */
+  phase: InactivityPhase;
+  
+  /** Creator's last check-in */
+  last_check_in_at: Date;
+  
+  /** Reminders sent since the last check-in */
+  reminders_sent: number;
+  
+  /** When trusted contacts were asked to confirm */
+  confirmation_requested_at?: Date;
+  
+  /** Confirmation requests, one per trusted contact */
+  confirmations: TrustedContactConfirmation[];
+  
+  /** When the content will be released unless the creator checks in */
+  release_at?: Date;
+  
+  /** When the content was released */
+  released_at?: Date;
+  
+  /** When the trigger next has something to do; unset while waiting on trusted contacts */
+  next_step_at?: Date;
+  
+  /** Notices whose delivery failed, retried on later evaluations */
+  failed_notices?: FailedInactivityNotice[];
+}
+
+/**
+ * An inactivity notice that could not be delivered
+ */
+export interface FailedInactivityNotice {
+  /** Step of the inactivity cycle, e.g. "reminder:1", "release_notice" or "confirm:<contact_id>" */
+  step: string;
+  
+  /** Person the notice is for */
+  contact_id: string;
+  
+  /** Channel the notice was sent through */
+  delivery_method: DeliveryMethod;
+  
+  /** Subject of a notice to the creator; confirmation requests are rebuilt with a fresh token */
+  subject?: string;
+  
+  /** Body of a notice to the creator */
+  body?: string;
+  
+  /** Failed attempts so far */
+  attempts: number;
+  
+  /** Error from the last attempt */
+  last_error: string;
+  
+  /** When the notice is next retried */
+  retry_at: Date;
+}
+
+/**
+ * A trusted contact's confirmation request and answer
+ */
+export interface TrustedContactConfirmation {
+  /** Trusted contact ID */
+  contact_id: string;
+  
+  /** SHA-256 hex digest of the confirmation token */
+  token_hash: string;
+  
+  /** When the contact confirmed */
+  confirmed_at?: Date;
+}
+
+/**
+ * A trusted contact's confirmation, as submitted from the confirmation link
+ */
+export interface InactivityConfirmation {
+  /** Content the confirmation is for */
+  content_id: string;
+  
+  /** Trusted contact confirming */
+  contact_id: string;
+  
+  /** Token from the confirmation request */
+  token: string;
+}
+
 /**
  * Context requirements for query-based triggers
+ * user_state criteria take min_/max_ bounds per dimension (e.g. max_flight),
+ * time_of_day takes from_hour/to_hour and an optional time_zone, and location
+ * and recent_activity criteria must equal the context value of the same name.
  */
 export interface ContextRequirement {
   /** Required context type */
@@ -270,6 +503,60 @@ export interface ContextRequirement {
   criteria: Record<string, any>;
 }
 
+/**
+ * Circumstances of a question, checked against context requirements
+ */
+export interface QueryContext {
+  /** When the question was asked */
+  asked_at: Date;
+  
+  /** Asker's state as assessed by the agent */
+  user_state?: UserState;
+  
+  /** Where the asker is, e.g. { place: 'sommarstugan' } */
+  location?: Record<string, any>;
+  
+  /** What the asker has been doing, e.g. { page: 'photo_album' } */
+  recent_activity?: Record<string, any>;
+}
+
+/**
+ * Legacy content whose query-based trigger matched a question
+ */
+export interface LegacyQueryMatch {
+  /** Matched content */
+  content: LegacyContent;
+  
+  /** Recipient who asked */
+  recipient: LegacyRecipient;
+  
+  /** Weighted pattern score of the question */
+  confidence: number;
+}
+
+/**
+ * Legacy content brought up in conversation in answer to a question
+ */
+export interface LegacyQuerySurfacing {
+  /** Surfaced content */
+  content_id: string;
+  
+  /** Recipient who asked */
+  contact_id: string;
+  
+  /** Weighted pattern score of the question */
+  confidence: number;
+  
+  /** Reply shown instead of the generic answer */
+  text: string;
+  
+  /** Whether the content was delivered, or only offered pending the recipient's answer */
+  delivered: boolean;
+  
+  /** Token for answering the offer with respondToPermissionRequest */
+  reply_token?: string;
+}
+
 /**
  * Legacy content recipient
  */
@@ -291,6 +578,81 @@ export interface LegacyRecipient {
   
   /** Delivery status for this recipient */
   delivery_status: DeliveryStatus;
+  
+  /** Recipient's user account, when they have one; event triggers match events against it */
+  user_id?: string;
+  
+  /** Latest permission request and the recipient's answer to it */
+  permission?: RecipientPermission;
+}
+
+/**
+ * Permission handshake with one recipient
+ * Requirement 23.4: Tactful, permission-seeking delivery process
+ */
+export interface RecipientPermission {
+  /** Handshake state */
+  status: PermissionStatus;
+  
+  /** Trigger occurrence the request was sent for */
+  occurrence: number;
+  
+  /** Number of requests sent for this occurrence */
+  request_count: number;
+  
+  /** SHA-256 of the reply token; the token itself only travels in the request */
+  token_hash: string;
+  
+  /** When the latest request was sent */
+  requested_at: Date;
+  
+  /** When the reply token stops being accepted */
+  expires_at: Date;
+  
+  /** When the recipient answered */
+  answered_at?: Date;
+  
+  /** When to ask again after "not now" or "remind me later" */
+  remind_at?: Date;
+}
+
+/**
+ * Permission handshake states
+ */
+export type PermissionStatus = 
+  | 'awaiting_reply'
+  | 'granted'
+  | 'not_now'
+  | 'remind_later'
+  | 'never';
+
+/**
+ * Recipient's answer to a permission request
+ */
+export type PermissionAnswer = 
+  | 'accept'
+  | 'not_now'
+  | 'remind_later'
+  | 'never';
+
+/**
+ * Reply submitted from the reply link or the in-app prompt
+ */
+export interface PermissionReply {
+  /** Legacy content the request belongs to */
+  content_id: string;
+  
+  /** Answering recipient */
+  contact_id: string;
+  
+  /** Reply token from the request */
+  token: string;
+  
+  /** Recipient's answer */
+  answer: PermissionAnswer;
+  
+  /** Days until the reminder, for "remind me later" */
+  remind_in_days?: number;
 }
 
 /**
@@ -320,7 +682,9 @@ export type DeliveryMethod =
   | 'in_app_notification'
   | 'email'
   | 'push_notification'
-  | 'system_message';
+  | 'system_message'
+  | 'sms'
+  | 'printed_letter';
 
 /**
  * Time of day preferences
@@ -430,6 +794,32 @@ export interface DeliveryAttempt {
   
   /** Next retry timestamp */
   next_retry_at?: Date;
+  
+  /** Trigger occurrence this attempt belongs to */
+  occurrence?: number;
+  
+  /** Key shared by every attempt for one recipient and occurrence, passed to delivery channels */
+  idempotency_key?: string;
+  
+  /** Receipt from the delivery channel when it accepted the content */
+  receipt?: DeliveryReceipt;
+}
+
+/**
+ * Channel-specific proof that a delivery channel accepted a message
+ */
+export interface DeliveryReceipt {
+  /** Channel that accepted the message */
+  channel: DeliveryMethod;
+  
+  /** Identifier assigned by the channel (Message-ID, gateway ID, inbox item ID, letter file) */
+  message_id: string;
+  
+  /** When the channel accepted the message */
+  accepted_at: Date;
+  
+  /** Channel details such as the SMTP response, SMS segment count or letter page count */
+  details: Record<string, string | number>;
 }
 
 /**
@@ -525,6 +915,15 @@ export interface LegacySystemConfig {
   
   /** Whether to require mutual consent */
   require_mutual_consent: boolean;
+  
+  /** Base URL of the permission reply page; without it requests only offer the in-app prompt */
+  permission_reply_url?: string;
+  
+  /** Days a permission request can be answered before it is sent again */
+  permission_request_ttl_days?: number;
+  
+  /** Base URL of the inactivity confirmation page for trusted contacts */
+  inactivity_confirmation_url?: string;
 }
 
 /**
@@ -537,4 +936,34 @@ export interface UserState {
   fixes: number;
   timestamp: Date;
   confidence: number;
-}
\ No newline at end of file
+}
+
+/**
+ * Persistence for legacy content and its schedule
+ * The trigger's next_evaluation_at and occurrence_index are the durable job state.
+ */
+export interface LegacyContentStore {
+  /** Adapter name for diagnostics */
+  readonly name: string;
+  
+  /** Get one content item */
+  getLegacyContent(contentId: string): Promise<LegacyContent | null>;
+  
+  /** Content that is scheduled or active */
+  getActiveLegacyContent(): Promise<LegacyContent[]>;
+  
+  /** Active content whose trigger is due for evaluation at the given time */
+  getDueLegacyContent(now: Date): Promise<LegacyContent[]>;
+  
+  /** Content written by a user */
+  getLegacyContentByCreator(creatorId: string): Promise<LegacyContent[]>;
+  
+  /** Content addressed to a contact */
+  getLegacyContentByRecipient(contactId: string): Promise<LegacyContent[]>;
+  
+  /** Insert or replace content */
+  saveLegacyContent(content: LegacyContent): Promise<void>;
+  
+  /** Remove content */
+  deleteLegacyContent(contentId: string): Promise<boolean>;
+}
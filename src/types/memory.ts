@@ -1,6 +1,24 @@
 // Memory Management Unit types and interfaces
 
-import { UserState, MemoryScope } from './index';
+import { UserState, MemoryScope, ResourceBudget } from './index';
+import { GraphRelationshipType } from './data-models';
+import {
+  ReflectionEntry,
+  ReflectionFilters,
+  ReflectionPage,
+  ReflectionRevision,
+  EmotionalContextSource,
+  CortexTransformation,
+  ChroniclerWorkflow,
+  ExternalAssetIntegration
+} from './chronicler';
+import {
+  CollaborativeSession,
+  GuestAccessControl,
+  GuestInvitationLink,
+  GuestAccessAuditEntry
+} from './collaboration';
+import { CommentThread } from './editor';
 
 /**
  * Memory Management Unit - centralized API for all long-term memory operations
@@ -10,9 +28,10 @@ export interface MemoryAssistant {
    * Load context into Short-Term Memory for an agent
    * @param contextThread Context thread defining memory scope
    * @param query Query to filter relevant context
+   * @param options Retrieval mode, scope and token budget
    * @returns Promise resolving to loaded STM context
    */
-  loadSTM(contextThread: string, query: string): Promise<STMContext>;
+  loadSTM(contextThread: string, query: string, options?: STMLoadOptions): Promise<STMContext>;
   
   /**
    * Consolidate Short-Term Memory back into Long-Term Memory
@@ -75,6 +94,258 @@ export interface MemoryAssistant {
    * @returns Promise resolving when rollback is complete
    */
   rollbackTransaction(transaction: Transaction): Promise<void>;
+  
+  /**
+   * Save a reflection and index its text for semantic search
+   * @param reflection Reflection to create or replace
+   * @param scope Memory scope for access control (defaults to the owner's scope)
+   * @returns Promise resolving when the reflection is stored
+   */
+  saveReflection(reflection: ReflectionEntry, scope?: MemoryScope): Promise<void>;
+  
+  /**
+   * Get a reflection by ID
+   * @param reflectionId Reflection ID
+   * @param scope Memory scope for access control (only records of its users are returned)
+   * @returns Promise resolving to the reflection, or null when missing or out of scope
+   */
+  getReflection(reflectionId: string, scope: MemoryScope): Promise<ReflectionEntry | null>;
+  
+  /**
+   * List a user's reflections, newest first
+   * @param userId Owning user ID
+   * @param filters Tag, date and privacy filters
+   * @param pagination Page offset and size (all reflections when omitted)
+   * @param scope Memory scope for access control (defaults to the owner's scope)
+   * @returns Promise resolving to the page and total match count
+   */
+  getUserReflections(
+    userId: string,
+    filters?: ReflectionFilters,
+    pagination?: { offset: number; limit: number },
+    scope?: MemoryScope
+  ): Promise<ReflectionPage>;
+  
+  /**
+   * Search a user's reflections by meaning and emotional context
+   * @param userId Owning user ID
+   * @param query Free-text query
+   * @param emotionalFilters Emotional dimensions a captured context must be close to
+   * @param scope Memory scope for access control (defaults to the owner's scope)
+   * @returns Promise resolving to matching reflections, best match first
+   */
+  searchReflections(
+    userId: string,
+    query: string,
+    emotionalFilters?: Partial<UserState>,
+    scope?: MemoryScope
+  ): Promise<ReflectionEntry[]>;
+  
+  /**
+   * Record an emotional context captured for a reflection
+   * @param reflectionId Reflection ID
+   * @param userState Captured user state vector
+   * @param source When the context was captured
+   * @param scope Memory scope for access control (defaults to the owner's scope)
+   * @returns Promise resolving when the context is stored
+   */
+  storeEmotionalContext(
+    reflectionId: string,
+    userState: UserState,
+    source: EmotionalContextSource,
+    scope?: MemoryScope
+  ): Promise<void>;
+  
+  /**
+   * Append an immutable revision to a reflection's history
+   * @param revision Revision to store (its ID must be new)
+   * @param scope Memory scope for access control (defaults to the owner's scope)
+   * @returns Promise resolving when the revision is stored
+   */
+  saveReflectionRevision(revision: ReflectionRevision, scope?: MemoryScope): Promise<void>;
+  
+  /**
+   * Get a reflection revision by ID
+   * @param revisionId Revision ID
+   * @param scope Memory scope for access control (only records of its users are returned)
+   * @returns Promise resolving to the revision, or null when missing or out of scope
+   */
+  getReflectionRevision(revisionId: string, scope: MemoryScope): Promise<ReflectionRevision | null>;
+  
+  /**
+   * List a reflection's revisions, oldest first
+   * @param reflectionId Reflection ID
+   * @param scope Memory scope for access control (defaults to the owner's scope)
+   * @returns Promise resolving to the revisions (empty when the reflection is missing)
+   */
+  listReflectionRevisions(reflectionId: string, scope?: MemoryScope): Promise<ReflectionRevision[]>;
+  
+  /**
+   * Save a Cortex-mode transformation, owned by the source reflection's author
+   * @param transformation Transformation to create or replace
+   * @param scope Memory scope for access control (defaults to the owner's scope)
+   * @returns Promise resolving when the transformation is stored
+   */
+  saveTransformation(transformation: CortexTransformation, scope?: MemoryScope): Promise<void>;
+  
+  /**
+   * Get a transformation by ID
+   * @param transformationId Transformation ID
+   * @param scope Memory scope for access control (only records of its users are returned)
+   * @returns Promise resolving to the transformation, or null when missing or out of scope
+   */
+  getTransformation(transformationId: string, scope: MemoryScope): Promise<CortexTransformation | null>;
+  
+  /**
+   * Save a chronicler workflow
+   * @param workflow Workflow to create or replace
+   * @param scope Memory scope for access control (defaults to the owner's scope)
+   * @returns Promise resolving when the workflow is stored
+   */
+  saveWorkflow(workflow: ChroniclerWorkflow, scope?: MemoryScope): Promise<void>;
+  
+  /**
+   * Get a chronicler workflow by ID
+   * @param workflowId Workflow ID
+   * @param scope Memory scope for access control (only records of its users are returned)
+   * @returns Promise resolving to the workflow, or null when missing or out of scope
+   */
+  getWorkflow(workflowId: string, scope: MemoryScope): Promise<ChroniclerWorkflow | null>;
+  
+  /**
+   * Save an external asset integration
+   * @param integration Integration to create or replace
+   * @param scope Memory scope for access control (defaults to the owner's scope)
+   * @returns Promise resolving when the integration is stored
+   */
+  saveExternalIntegration(integration: ExternalAssetIntegration, scope?: MemoryScope): Promise<void>;
+  
+  /**
+   * Get an external asset integration by ID
+   * @param integrationId Integration ID
+   * @param scope Memory scope for access control (only records of its users are returned)
+   * @returns Promise resolving to the integration, or null when missing or out of scope
+   */
+  getExternalIntegration(integrationId: string, scope: MemoryScope): Promise<ExternalAssetIntegration | null>;
+  
+  /**
+   * Save a collaborative session, owned by its host
+   * @param session Session to create or replace
+   * @param scope Memory scope for access control (defaults to the host's scope)
+   * @returns Promise resolving when the session is stored
+   */
+  saveCollaborativeSession(session: CollaborativeSession, scope?: MemoryScope): Promise<void>;
+  
+  /**
+   * Get a collaborative session by ID
+   * @param sessionId Session ID
+   * @param scope Memory scope for access control (unrestricted when omitted)
+   * @returns Promise resolving to the session, or null when missing or out of scope
+   */
+  getCollaborativeSession(sessionId: string, scope?: MemoryScope): Promise<CollaborativeSession | null>;
+  
+  /**
+   * Get the active collaborative session on a resource
+   * @param resourceId Reflection, project or page ID
+   * @param scope Memory scope for access control (unrestricted when omitted)
+   * @returns Promise resolving to the session, or null when nobody is collaborating on it
+   */
+  getCollaborativeSessionByResource(resourceId: string, scope?: MemoryScope): Promise<CollaborativeSession | null>;
+  
+  /**
+   * List the collaborative sessions that are still active
+   * @param scope Memory scope for access control (unrestricted when omitted)
+   * @returns Promise resolving to the active sessions
+   */
+  listActiveCollaborativeSessions(scope?: MemoryScope): Promise<CollaborativeSession[]>;
+  
+  /**
+   * Save a guest's access control, owned by the host
+   * @param accessControl Access control to create or replace
+   * @param scope Memory scope for access control (defaults to the host's scope)
+   * @returns Promise resolving when the access control is stored
+   */
+  saveGuestAccessControl(accessControl: GuestAccessControl, scope?: MemoryScope): Promise<void>;
+  
+  /**
+   * Get the most recently granted access control of a guest
+   * @param guestUserId Guest user ID
+   * @param scope Memory scope for access control (unrestricted when omitted)
+   * @returns Promise resolving to the access control, or null when the guest has none
+   */
+  getGuestAccessControl(guestUserId: string, scope?: MemoryScope): Promise<GuestAccessControl | null>;
+  
+  /**
+   * List the access controls a host has granted, newest first
+   * @param hostUserId Host user ID
+   * @param scope Memory scope for access control (defaults to the host's scope)
+   * @returns Promise resolving to the access controls
+   */
+  listGuestAccessControls(hostUserId: string, scope?: MemoryScope): Promise<GuestAccessControl[]>;
+  
+  /**
+   * Save a guest invitation link, owned by the host
+   * @param link Link to create or replace
+   * @param scope Memory scope for access control (defaults to the host's scope)
+   * @returns Promise resolving when the link is stored
+   */
+  saveGuestInvitationLink(link: GuestInvitationLink, scope?: MemoryScope): Promise<void>;
+  
+  /**
+   * Get a guest invitation link by ID
+   * @param linkId Link ID
+   * @param scope Memory scope for access control (unrestricted when omitted)
+   * @returns Promise resolving to the link, or null when missing or out of scope
+   */
+  getGuestInvitationLink(linkId: string, scope?: MemoryScope): Promise<GuestInvitationLink | null>;
+  
+  /**
+   * List the invitation links a host has created, newest first
+   * @param hostUserId Host user ID
+   * @param scope Memory scope for access control (defaults to the host's scope)
+   * @returns Promise resolving to the links
+   */
+  listGuestInvitationLinks(hostUserId: string, scope?: MemoryScope): Promise<GuestInvitationLink[]>;
+  
+  /**
+   * Append an entry to a guest's access audit trail, owned by the host
+   * @param entry Audit entry
+   * @param scope Memory scope for access control (defaults to the host's scope)
+   * @returns Promise resolving when the entry is stored
+   */
+  saveGuestAccessAudit(entry: GuestAccessAuditEntry, scope?: MemoryScope): Promise<void>;
+  
+  /**
+   * List the audit trail of an access control, oldest first
+   * @param accessControlId Access control ID
+   * @param scope Memory scope for access control (unrestricted when omitted)
+   * @returns Promise resolving to the audit entries
+   */
+  listGuestAccessAudit(accessControlId: string, scope?: MemoryScope): Promise<GuestAccessAuditEntry[]>;
+  
+  /**
+   * Save a comment thread, owned by the user who opened it
+   * @param thread Comment thread
+   * @param scope Memory scope for access control (defaults to the opener's scope)
+   * @returns Promise resolving when the thread is stored
+   */
+  saveCommentThread(thread: CommentThread, scope?: MemoryScope): Promise<void>;
+  
+  /**
+   * Get a comment thread by ID
+   * @param threadId Thread ID
+   * @param scope Memory scope for access control (unrestricted when omitted)
+   * @returns Promise resolving to the thread or null if not found
+   */
+  getCommentThread(threadId: string, scope?: MemoryScope): Promise<CommentThread | null>;
+  
+  /**
+   * List the comment threads of a document, oldest first
+   * @param documentId Document ID
+   * @param scope Memory scope for access control (unrestricted when omitted)
+   * @returns Promise resolving to the threads
+   */
+  listCommentThreads(documentId: string, scope?: MemoryScope): Promise<CommentThread[]>;
 }
 
 /**
@@ -101,6 +372,53 @@ export interface STMContext {
   
   /** Whether this context has been modified */
   modified: boolean;
+  
+  /** Fused results in rank order (hybrid retrieval only) */
+  ranked?: HybridContextItem[];
+  
+  /** Estimated tokens used by the fused results (hybrid retrieval only) */
+  tokenCount?: number;
+  
+  /** Scope the context was loaded under, when the caller supplied one */
+  scope?: MemoryScope;
+}
+
+/**
+ * Options for loading STM context
+ */
+export interface STMLoadOptions {
+  /** 'separate' queries both stores independently; 'hybrid' fuses ranked results (default: 'separate') */
+  mode?: 'separate' | 'hybrid';
+  
+  /** Memory scope used for retrieval (defaults to an unrestricted read-only scope) */
+  scope?: MemoryScope;
+  
+  /** Agent budget whose max_context_tokens caps the fused context */
+  resourceBudget?: ResourceBudget;
+  
+  /** Relationship hops expanded from semantic hits (default: 1) */
+  hops?: number;
+}
+
+/**
+ * A fused retrieval hit from hybrid STM loading
+ * Semantic entries tagged `node:<id>` are merged with that graph node.
+ */
+export interface HybridContextItem {
+  /** Graph node ID, or semantic entry ID for unlinked entries */
+  id: string;
+  
+  /** Reciprocal-rank fusion score */
+  score: number;
+  
+  /** Estimated token cost */
+  tokens: number;
+  
+  /** Graph node, when the hit exists in the graph */
+  graph?: GraphResult;
+  
+  /** Semantic entry, when the hit exists in the semantic store */
+  semantic?: SemanticResult;
 }
 
 /**
@@ -355,6 +673,356 @@ export interface StorageResult {
   error?: string;
 }
 
+/**
+ * Graph storage backend used by the Memory Management Unit
+ */
+export interface GraphStore {
+  /** Store name (for monitoring and diagnostics) */
+  readonly name: string;
+  
+  /**
+   * Query the graph
+   * @param query Cypher query or structured query object
+   * @param scope Memory scope for access control
+   * @returns Promise resolving to query results
+   */
+  query(query: GraphQuery, scope: MemoryScope): Promise<GraphResult[]>;
+  
+  /**
+   * Stage graph data in an active transaction
+   * @param data Data to store
+   * @param transaction Active transaction
+   * @returns Promise resolving to transaction result
+   */
+  store(data: GraphData, transaction: Transaction): Promise<TransactionResult>;
+  
+  /**
+   * Begin a transaction
+   * @param transaction Transaction handle
+   */
+  beginTransaction(transaction: Transaction): Promise<void>;
+  
+  /**
+   * Commit a transaction
+   * @param transaction Transaction handle
+   */
+  commitTransaction(transaction: Transaction): Promise<void>;
+  
+  /**
+   * Rollback a transaction
+   * @param transaction Transaction handle
+   */
+  rollbackTransaction(transaction: Transaction): Promise<void>;
+  
+  /**
+   * Update an entity with optimistic concurrency control
+   * @param graphResult Entity as previously read, including its _version
+   * @param transaction Active transaction
+   */
+  updateEntity(graphResult: GraphResult, transaction: Transaction): Promise<void>;
+  
+  /**
+   * Collect nodes within a number of relationship hops of seed nodes
+   * @param seedIds Application IDs (_id) of the seed nodes
+   * @param options Hop limit and relationship types to traverse
+   * @param scope Memory scope applied to returned nodes
+   * @returns Promise resolving to reachable nodes (seeds included at hop 0), nearest first
+   */
+  expand(seedIds: string[], options: GraphExpansionOptions, scope: MemoryScope): Promise<GraphNeighbour[]>;
+  
+  /**
+   * Verify the store is reachable
+   */
+  verifyConnection(): Promise<void>;
+  
+  /**
+   * Release connections and resources
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * Graph expansion options
+ */
+export interface GraphExpansionOptions {
+  /** Maximum relationship hops from a seed */
+  hops: number;
+  
+  /** Relationship types to traverse (all types when omitted) */
+  relationshipTypes?: string[];
+}
+
+/**
+ * Node reached by graph expansion
+ */
+export interface GraphNeighbour {
+  /** Reached node */
+  node: GraphResult;
+  
+  /** Seed node the shortest path starts from */
+  seedId: string;
+  
+  /** Relationship hops from the seed */
+  hops: number;
+}
+
+/**
+ * Serialized property graph used by embedded graph stores
+ */
+export interface GraphSnapshot {
+  /** Snapshot format version */
+  version: 1;
+  
+  /** Stored nodes keyed by _id */
+  nodes: Array<{ id: string; labels: string[]; properties: Record<string, any> }>;
+  
+  /** Stored relationships keyed by _id */
+  relationships: Array<{
+    id: string;
+    type: string;
+    fromNodeId: string;
+    toNodeId: string;
+    properties: Record<string, any>;
+  }>;
+}
+
+/**
+ * Persistence backend for embedded graph stores
+ */
+export interface GraphPersistence {
+  /** Persistence name (for monitoring and diagnostics) */
+  readonly name: string;
+  
+  /**
+   * Load the last saved snapshot
+   * @returns Promise resolving to the snapshot, or null when nothing is saved
+   */
+  load(): Promise<GraphSnapshot | null>;
+  
+  /**
+   * Save a snapshot, replacing the previous one
+   * @param snapshot Snapshot to save
+   */
+  save(snapshot: GraphSnapshot): Promise<void>;
+}
+
+/**
+ * Stored semantic memory entry
+ */
+export interface SemanticEntry {
+  /** Entry ID */
+  id: string;
+  
+  /** Stored content */
+  content: string;
+  
+  /** Content embedding */
+  embedding: number[];
+  
+  /** Emotional context captured with the content */
+  userState?: UserState;
+  
+  /** Content source */
+  source: string;
+  
+  /** Content tags (including project:/contact: scope tags) */
+  tags: string[];
+  
+  /** Storage timestamp */
+  timestamp: Date;
+  
+  /** Scope ID the entry was stored under */
+  scope: string;
+  
+  /** Owning user ID */
+  userId: string;
+}
+
+/**
+ * Persistence backend for the Semantic RAG
+ */
+export interface SemanticStorageAdapter {
+  /** Adapter name (for monitoring and diagnostics) */
+  readonly name: string;
+  
+  /**
+   * Load every persisted entry
+   * @returns Promise resolving to all stored entries
+   */
+  loadAll(): Promise<SemanticEntry[]>;
+  
+  /**
+   * Persist a new or changed entry
+   * @param entry Entry to persist
+   */
+  save(entry: SemanticEntry): Promise<void>;
+  
+  /**
+   * Remove a persisted entry
+   * @param entryId Entry to remove
+   */
+  remove(entryId: string): Promise<void>;
+  
+  /**
+   * Remove all persisted entries
+   */
+  clear(): Promise<void>;
+}
+
+/**
+ * Approximate nearest-neighbour index statistics
+ */
+export interface SemanticIndexStats {
+  /** Index type */
+  type: 'hnsw' | 'linear';
+  
+  /** Live vectors in the index */
+  size: number;
+  
+  /** Soft-deleted vectors awaiting rebuild */
+  deleted: number;
+  
+  /** Whether the index is currently being rebuilt */
+  rebuilding: boolean;
+  
+  /** Last completed rebuild */
+  lastRebuildAt: Date | null;
+  
+  /** Storage adapter backing the index */
+  storage: string;
+}
+
+/**
+ * Embedding provider used to turn text into vectors for the Semantic RAG
+ */
+export interface EmbeddingProvider {
+  /** Provider name (for monitoring and diagnostics) */
+  readonly name: string;
+  
+  /** Dimension of the vectors produced by this provider */
+  readonly dimension: number;
+  
+  /**
+   * Generate an embedding for a single text
+   * @param text Text to embed
+   * @returns Promise resolving to the embedding vector
+   */
+  embed(text: string): Promise<number[]>;
+  
+  /**
+   * Generate embeddings for several texts in one call
+   * @param texts Texts to embed
+   * @returns Promise resolving to one embedding per text, in order
+   */
+  embedBatch(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Text handed to the consolidation pipeline, with provenance
+ */
+export interface ConsolidationSource {
+  /** Where the text came from */
+  kind: 'reflection' | 'conversation';
+  
+  /** Reflection ID or conversation context thread */
+  id: string;
+  
+  /** Owning user (scopes the extracted facts; sources without one are not consolidated) */
+  userId?: string;
+  
+  /** Text to extract facts from */
+  text: string;
+  
+  /** Emotional context of the source */
+  userState?: UserState;
+  
+  /** Emotions already identified for the source */
+  emotions?: string[];
+  
+  /** Places already identified for the source */
+  places?: string[];
+  
+  /** When the source was written */
+  timestamp: Date;
+}
+
+/**
+ * Entity extracted from a consolidation source
+ */
+export interface ExtractedEntity {
+  /** Entity kind (people map to Contact, places and emotions to Theme nodes) */
+  kind: 'person' | 'place' | 'event' | 'emotion';
+  
+  /** Display name */
+  name: string;
+  
+  /** Extra node properties */
+  properties?: Record<string, any>;
+}
+
+/**
+ * Facts extracted from a consolidation source
+ */
+export interface ExtractedFacts {
+  /** Extracted entities */
+  entities: ExtractedEntity[];
+  
+  /** Relationships between entities, by index into `entities` */
+  relationships: Array<{ from: number; to: number; type: GraphRelationshipType }>;
+}
+
+/**
+ * Turns free text into graph facts during consolidation
+ */
+export interface FactExtractor {
+  /** Extractor name (for monitoring and diagnostics) */
+  readonly name: string;
+  
+  /**
+   * Extract entities and relationships from a source
+   * @param source Text with provenance
+   * @returns Promise resolving to the extracted facts
+   */
+  extract(source: ConsolidationSource): Promise<ExtractedFacts>;
+}
+
+/**
+ * Outcome of consolidating one source
+ */
+export interface ConsolidationResult {
+  /** Provenance reference, e.g. `reflection:<id>` */
+  provenance: string;
+  
+  /** Whether the facts were committed */
+  success: boolean;
+  
+  /** IDs of nodes created by this source */
+  createdNodeIds: string[];
+  
+  /** IDs of existing nodes the facts were merged into */
+  mergedNodeIds: string[];
+  
+  /** IDs of relationships written */
+  relationshipIds: string[];
+  
+  /** Error message when consolidation failed */
+  error?: string;
+}
+
+/**
+ * Embedding dimension mismatch error
+ */
+export class EmbeddingDimensionError extends Error {
+  constructor(
+    message: string,
+    public readonly expectedDimension: number,
+    public readonly actualDimension: number
+  ) {
+    super(message);
+    this.name = 'EmbeddingDimensionError';
+  }
+}
+
 /**
  * Conflict error for Optimistic Concurrency Control
  */